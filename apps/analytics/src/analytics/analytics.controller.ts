@@ -0,0 +1,93 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod, RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { LoggerClientService } from "@shared/logger";
+import {
+  AnalyticsFilterDto,
+  AnalyticsScope,
+  AssigneeLoadReportDto,
+  CycleTimeReportDto,
+  EstimateAccuracyReportDto,
+  ThroughputReportDto,
+  VelocityReportDto,
+  WipReportDto,
+} from "@shared/types";
+import { AnalyticsService, AnalyticsTarget } from "./analytics.service";
+
+interface AnalyticsRequest {
+  user_id: string;
+  project_id?: number;
+  workspace_id?: string;
+  filter?: AnalyticsFilterDto;
+}
+
+/**
+ * Controller gRPC des analyses de projets et de workspaces
+ *
+ * Endpoints exposés:
+ * - GetCycleTime: Lead time et cycle time par catégorie
+ * - GetThroughput: Tickets terminés par période
+ * - GetWip: Travail en cours par statut
+ * - GetVelocity: Vélocité moyenne des derniers sprints
+ * - GetEstimateAccuracy: Précision des estimations
+ * - GetAssigneeLoad: Charge par assigné
+ */
+@Controller()
+export class AnalyticsController {
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Analytics", "GetCycleTime")
+  async getCycleTime(data: AnalyticsRequest): Promise<CycleTimeReportDto> {
+    await this.logRequest("getCycleTime", data);
+    return this.analyticsService.getCycleTime(this.targetOf(data), data.user_id, data.filter);
+  }
+
+  @GrpcMethod("Analytics", "GetThroughput")
+  async getThroughput(data: AnalyticsRequest): Promise<ThroughputReportDto> {
+    await this.logRequest("getThroughput", data);
+    return this.analyticsService.getThroughput(this.targetOf(data), data.user_id, data.filter);
+  }
+
+  @GrpcMethod("Analytics", "GetWip")
+  async getWip(data: AnalyticsRequest): Promise<WipReportDto> {
+    await this.logRequest("getWip", data);
+    return this.analyticsService.getWip(this.targetOf(data), data.user_id);
+  }
+
+  @GrpcMethod("Analytics", "GetVelocity")
+  async getVelocity(data: AnalyticsRequest): Promise<VelocityReportDto> {
+    await this.logRequest("getVelocity", data);
+    return this.analyticsService.getVelocity(this.targetOf(data), data.user_id, data.filter);
+  }
+
+  @GrpcMethod("Analytics", "GetEstimateAccuracy")
+  async getEstimateAccuracy(data: AnalyticsRequest): Promise<EstimateAccuracyReportDto> {
+    await this.logRequest("getEstimateAccuracy", data);
+    return this.analyticsService.getEstimateAccuracy(this.targetOf(data), data.user_id, data.filter);
+  }
+
+  @GrpcMethod("Analytics", "GetAssigneeLoad")
+  async getAssigneeLoad(data: AnalyticsRequest): Promise<AssigneeLoadReportDto> {
+    await this.logRequest("getAssigneeLoad", data);
+    return this.analyticsService.getAssigneeLoad(this.targetOf(data), data.user_id, data.filter);
+  }
+
+  private targetOf(data: AnalyticsRequest): AnalyticsTarget {
+    if (data.project_id) return { scope: AnalyticsScope.PROJECT, id: data.project_id };
+    if (data.workspace_id) return { scope: AnalyticsScope.WORKSPACE, id: data.workspace_id };
+    throw new RpcException({ code: status.INVALID_ARGUMENT, message: "project_id or workspace_id is required" });
+  }
+
+  private async logRequest(func: string, data: AnalyticsRequest): Promise<void> {
+    await this.logger.log({
+      level: "info",
+      service: "analytics",
+      func: `analytics.grpc.${func}`,
+      message: `gRPC ${func} request`,
+      data,
+    });
+  }
+}
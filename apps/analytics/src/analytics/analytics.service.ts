@@ -0,0 +1,510 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  COMPLETED_TICKET_STATUSES,
+  DEFAULT_ANALYTICS_RANGE_DAYS,
+  DEFAULT_VELOCITY_SPRINTS,
+  ActivityEntityType,
+  AnalyticsFilterDto,
+  AnalyticsScope,
+  AssigneeLoadDto,
+  AssigneeLoadReportDto,
+  CycleTimeReportDto,
+  CycleTimeStatsDto,
+  EstimateAccuracyReportDto,
+  EstimateAccuracyStatsDto,
+  Granularity,
+  ProfileOverviewSelect,
+  SprintStatus,
+  ThroughputReportDto,
+  TicketCategory,
+  TicketStatus,
+  VelocityReportDto,
+  WipReportDto,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/** Statuts considérés comme "en cours" pour la charge des assignés */
+const IN_PROGRESS_STATUSES: readonly TicketStatus[] = [TicketStatus.ACTIVE, TicketStatus.IN_REVIEW];
+
+/** Statuts exclus du travail en cours */
+const CLOSED_STATUSES: readonly TicketStatus[] = [...COMPLETED_TICKET_STATUSES, TicketStatus.CANCELLED];
+
+/** Périmètre analysé : un projet (ID numérique) ou un workspace (UUID) */
+export interface AnalyticsTarget {
+  scope: AnalyticsScope;
+  id: string | number;
+}
+
+interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+/** Ticket terminé sur la période, avec les instants clés reconstruits depuis le journal d'activité */
+interface CompletedTicket {
+  id: number;
+  category: TicketCategory;
+  story_points: number | null;
+  estimated_hours: number | null;
+  actual_hours: number | null;
+  assigned_to: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  completed_at: Date;
+}
+
+/**
+ * Service d'analyse des projets et workspaces
+ *
+ * - getCycleTime: Lead time et cycle time par catégorie de ticket
+ * - getThroughput: Tickets et story points terminés par période (Granularity)
+ * - getWip: Travail en cours par statut
+ * - getVelocity: Vélocité moyenne des N derniers sprints terminés
+ * - getEstimateAccuracy: Écart entre `estimated_hours` et `actual_hours`
+ * - getAssigneeLoad: Charge ouverte et tickets terminés par assigné
+ *
+ * Un ticket est terminé à son premier passage en VALIDATED/PROD et démarré à son premier passage en ACTIVE,
+ * d'après les changements de statut enregistrés dans `activity_logs`. À défaut d'historique, un ticket
+ * terminé est daté par son `updated_at`.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {}
+
+  /**
+   * Lead time et cycle time des tickets terminés sur la période, par catégorie
+   */
+  async getCycleTime(target: AnalyticsTarget, userId: string, filter?: AnalyticsFilterDto): Promise<CycleTimeReportDto> {
+    return this.run("getCycleTime", target, userId, filter, async (where, range) => {
+      const completed = await this.findCompletedTickets(where, range);
+
+      const stats = (category: TicketCategory | undefined, tickets: CompletedTicket[]): CycleTimeStatsDto => {
+        const lead = tickets.map(ticket => (ticket.completed_at.getTime() - ticket.created_at.getTime()) / HOUR_MS);
+        const cycle = tickets.filter(ticket => ticket.started_at).map(ticket => (ticket.completed_at.getTime() - ticket.started_at!.getTime()) / HOUR_MS);
+        return {
+          ...(category ? { category } : {}),
+          completed_tickets: tickets.length,
+          avg_lead_time_hours: this.average(lead),
+          median_lead_time_hours: this.median(lead),
+          avg_cycle_time_hours: this.average(cycle),
+          median_cycle_time_hours: this.median(cycle),
+        };
+      };
+
+      return {
+        ...this.formatRange(range),
+        overall: stats(undefined, completed),
+        items: Object.values(TicketCategory).map(category =>
+          stats(
+            category,
+            completed.filter(ticket => ticket.category === category),
+          ),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Tickets et story points terminés par période, périodes vides incluses
+   */
+  async getThroughput(target: AnalyticsTarget, userId: string, filter?: AnalyticsFilterDto): Promise<ThroughputReportDto> {
+    const granularity = filter?.granularity ?? Granularity.WEEK;
+    if (!Object.values(Granularity).includes(granularity)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid granularity "${granularity}"` });
+    }
+
+    return this.run("getThroughput", target, userId, filter, async (where, range) => {
+      const completed = await this.findCompletedTickets(where, range);
+
+      const buckets = new Map<string, { completed_tickets: number; completed_points: number }>();
+      for (let period = this.truncate(range.from, granularity); period <= range.to; period = this.nextPeriod(period, granularity)) {
+        buckets.set(this.formatDay(period), { completed_tickets: 0, completed_points: 0 });
+      }
+      for (const ticket of completed) {
+        const bucket = buckets.get(this.formatDay(this.truncate(ticket.completed_at, granularity)));
+        if (!bucket) continue;
+        bucket.completed_tickets++;
+        bucket.completed_points += ticket.story_points ?? 0;
+      }
+
+      return {
+        ...this.formatRange(range),
+        granularity,
+        buckets: [...buckets.entries()].map(([period_start, bucket]) => ({ period_start, ...bucket })),
+      };
+    });
+  }
+
+  /**
+   * Tickets ni terminés ni annulés, par statut (instantané, la période est ignorée)
+   */
+  async getWip(target: AnalyticsTarget, userId: string): Promise<WipReportDto> {
+    return this.run("getWip", target, userId, undefined, async where => {
+      const groups = await this.prisma.tickets.groupBy({
+        by: ["status"],
+        where: { ...where, status: { notIn: [...CLOSED_STATUSES] } },
+        _count: { _all: true },
+        _sum: { story_points: true, estimated_hours: true },
+      });
+
+      const byStatus = new Map(groups.map(group => [group.status as TicketStatus, group]));
+      const items = Object.values(TicketStatus)
+        .filter(ticketStatus => !CLOSED_STATUSES.includes(ticketStatus))
+        .map(ticketStatus => {
+          const group = byStatus.get(ticketStatus);
+          return {
+            status: ticketStatus,
+            tickets: group?._count._all ?? 0,
+            story_points: group?._sum.story_points ?? 0,
+            estimated_hours: this.round(group?._sum.estimated_hours ?? 0),
+          };
+        });
+
+      return { total_tickets: items.reduce((sum, item) => sum + item.tickets, 0), items };
+    });
+  }
+
+  /**
+   * Vélocité des N derniers sprints terminés (la vélocité est enregistrée à la clôture du sprint)
+   */
+  async getVelocity(target: AnalyticsTarget, userId: string, filter?: AnalyticsFilterDto): Promise<VelocityReportDto> {
+    const take = Math.min(Math.max(Number(filter?.sprints) || DEFAULT_VELOCITY_SPRINTS, 1), 50);
+
+    return this.run("getVelocity", target, userId, undefined, async () => {
+      const sprintWhere: Prisma.sprintsWhereInput = target.scope === AnalyticsScope.PROJECT ? { project_id: Number(target.id) } : { project: { workspace_id: String(target.id) } };
+
+      const sprints = await this.prisma.sprints.findMany({
+        where: { ...sprintWhere, status: SprintStatus.COMPLETED },
+        orderBy: [{ actual_end_date: { sort: "desc", nulls: "last" } }, { end_date: "desc" }, { id: "desc" }],
+        take,
+        select: { id: true, name: true, project_id: true, velocity: true, capacity: true, actual_end_date: true, end_date: true },
+      });
+
+      const items = sprints.map(sprint => ({
+        sprint_id: sprint.id,
+        name: sprint.name,
+        project_id: sprint.project_id,
+        velocity: sprint.velocity ?? 0,
+        capacity: sprint.capacity ?? 0,
+        completed_at: (sprint.actual_end_date ?? sprint.end_date) ? this.formatDay((sprint.actual_end_date ?? sprint.end_date)!) : null,
+      }));
+
+      return { average_velocity: this.average(items.map(item => item.velocity)) ?? 0, sprints: items };
+    });
+  }
+
+  /**
+   * Précision des estimations des tickets terminés sur la période, par catégorie
+   */
+  async getEstimateAccuracy(target: AnalyticsTarget, userId: string, filter?: AnalyticsFilterDto): Promise<EstimateAccuracyReportDto> {
+    return this.run("getEstimateAccuracy", target, userId, filter, async (where, range) => {
+      const completed = (await this.findCompletedTickets(where, range)).filter(
+        ticket => ticket.estimated_hours !== null && ticket.estimated_hours > 0 && ticket.actual_hours !== null,
+      );
+
+      const stats = (category: TicketCategory | undefined, tickets: CompletedTicket[]): EstimateAccuracyStatsDto => {
+        const estimated = tickets.reduce((sum, ticket) => sum + ticket.estimated_hours!, 0);
+        const actual = tickets.reduce((sum, ticket) => sum + ticket.actual_hours!, 0);
+        return {
+          ...(category ? { category } : {}),
+          tickets: tickets.length,
+          estimated_hours: this.round(estimated),
+          actual_hours: this.round(actual),
+          accuracy_ratio: estimated > 0 ? this.round(actual / estimated) : null,
+          mean_absolute_error_hours: this.average(tickets.map(ticket => Math.abs(ticket.actual_hours! - ticket.estimated_hours!))),
+          underestimated_tickets: tickets.filter(ticket => ticket.actual_hours! > ticket.estimated_hours!).length,
+          overestimated_tickets: tickets.filter(ticket => ticket.actual_hours! < ticket.estimated_hours!).length,
+        };
+      };
+
+      return {
+        ...this.formatRange(range),
+        overall: stats(undefined, completed),
+        items: Object.values(TicketCategory).map(category =>
+          stats(
+            category,
+            completed.filter(ticket => ticket.category === category),
+          ),
+        ),
+      };
+    });
+  }
+
+  /**
+   * Charge ouverte actuelle et tickets terminés sur la période, par assigné
+   */
+  async getAssigneeLoad(target: AnalyticsTarget, userId: string, filter?: AnalyticsFilterDto): Promise<AssigneeLoadReportDto> {
+    return this.run("getAssigneeLoad", target, userId, filter, async (where, range) => {
+      const [open, completed] = await Promise.all([
+        this.prisma.tickets.findMany({
+          where: { ...where, status: { notIn: [...CLOSED_STATUSES] } },
+          select: { assigned_to: true, status: true, story_points: true, estimated_hours: true },
+        }),
+        this.findCompletedTickets(where, range),
+      ]);
+
+      const loads = new Map<string, AssigneeLoadDto>();
+      const loadOf = (assignee: string): AssigneeLoadDto => {
+        if (!loads.has(assignee)) {
+          loads.set(assignee, {
+            user_id: assignee,
+            username: null,
+            open_tickets: 0,
+            in_progress_tickets: 0,
+            open_points: 0,
+            open_estimated_hours: 0,
+            completed_tickets: 0,
+            completed_points: 0,
+          });
+        }
+        return loads.get(assignee)!;
+      };
+
+      for (const ticket of open.filter(ticket => ticket.assigned_to)) {
+        const load = loadOf(ticket.assigned_to!);
+        load.open_tickets++;
+        load.open_points += ticket.story_points ?? 0;
+        load.open_estimated_hours = this.round(load.open_estimated_hours + (ticket.estimated_hours ?? 0));
+        if (IN_PROGRESS_STATUSES.includes(ticket.status as TicketStatus)) load.in_progress_tickets++;
+      }
+      for (const ticket of completed.filter(ticket => ticket.assigned_to)) {
+        const load = loadOf(ticket.assigned_to!);
+        load.completed_tickets++;
+        load.completed_points += ticket.story_points ?? 0;
+      }
+
+      const profiles = await this.prisma.profiles.findMany({ where: { user_id: { in: [...loads.keys()] } }, select: ProfileOverviewSelect });
+      for (const profile of profiles) {
+        loads.get(profile.user_id)!.username = profile.username;
+      }
+
+      return {
+        ...this.formatRange(range),
+        unassigned_open_tickets: open.filter(ticket => !ticket.assigned_to).length,
+        items: [...loads.values()].sort((a, b) => b.open_estimated_hours - a.open_estimated_hours || b.open_tickets - a.open_tickets),
+      };
+    });
+  }
+
+  /**
+   * Vérifie l'accès, résout la période puis exécute le calcul avec une journalisation homogène
+   */
+  private async run<T>(
+    func: string,
+    target: AnalyticsTarget,
+    userId: string,
+    filter: AnalyticsFilterDto | undefined,
+    compute: (where: Prisma.ticketsWhereInput, range: DateRange) => Promise<T>,
+  ): Promise<T> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "analytics",
+      func: `analytics.${func}`,
+      message: `Computing ${func} for ${target.scope.toLowerCase()} ${target.id}`,
+      data: { target, userId, filter },
+    });
+
+    const where = await this.assertAccess(target, userId);
+    const range = this.resolveRange(filter);
+
+    try {
+      return await compute(where, range);
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      await this.loggerClient.log({
+        level: "error",
+        service: "analytics",
+        func: `analytics.${func}`,
+        message: `Error computing analytics: ${error instanceof Error ? error.message : String(error)}`,
+        data: { target, userId, filter },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while computing analytics. Please try again." });
+    }
+  }
+
+  /**
+   * Tickets du périmètre terminés (premier passage VALIDATED/PROD) pendant la période
+   */
+  private async findCompletedTickets(where: Prisma.ticketsWhereInput, range: DateRange): Promise<CompletedTicket[]> {
+    const transitions = await this.prisma.activity_logs.findMany({
+      where: {
+        entity_type: ActivityEntityType.TICKET,
+        created_at: { lte: range.to },
+        ticket: where,
+        OR: [TicketStatus.ACTIVE, ...COMPLETED_TICKET_STATUSES].map(ticketStatus => ({ metadata: { path: ["changes", "status", "to"], equals: ticketStatus } })),
+      },
+      orderBy: { created_at: "asc" },
+      select: { entity_id: true, metadata: true, created_at: true },
+    });
+
+    const startedAt = new Map<number, Date>();
+    const completedAt = new Map<number, Date>();
+    for (const transition of transitions) {
+      if (transition.entity_id === null) continue;
+      const to = this.statusTarget(transition.metadata);
+      const timeline = to === TicketStatus.ACTIVE ? startedAt : completedAt;
+      if (!timeline.has(transition.entity_id)) timeline.set(transition.entity_id, transition.created_at);
+    }
+
+    const inRange = (date: Date) => date >= range.from && date <= range.to;
+    const tickets = await this.prisma.tickets.findMany({
+      where: {
+        ...where,
+        OR: [
+          { id: { in: [...completedAt.entries()].filter(([, date]) => inRange(date)).map(([id]) => id) } },
+          // Tickets terminés sans historique de statut : datés par leur dernière mise à jour
+          { status: { in: [...COMPLETED_TICKET_STATUSES] }, id: { notIn: [...completedAt.keys()] }, updated_at: { gte: range.from, lte: range.to } },
+        ],
+      },
+      select: { id: true, category: true, story_points: true, estimated_hours: true, actual_hours: true, assigned_to: true, created_at: true, updated_at: true },
+    });
+
+    return tickets.map(ticket => {
+      const completed = completedAt.get(ticket.id) ?? ticket.updated_at ?? ticket.created_at;
+      const started = startedAt.get(ticket.id);
+      return {
+        id: ticket.id,
+        category: ticket.category as TicketCategory,
+        story_points: ticket.story_points,
+        estimated_hours: ticket.estimated_hours,
+        actual_hours: ticket.actual_hours,
+        assigned_to: ticket.assigned_to,
+        created_at: ticket.created_at,
+        started_at: started && started <= completed ? started : null,
+        completed_at: completed,
+      };
+    });
+  }
+
+  /**
+   * Vérifie que l'utilisateur peut consulter le périmètre
+   *
+   * @returns Le filtre Prisma des tickets du périmètre
+   */
+  private async assertAccess(target: AnalyticsTarget, userId: string): Promise<Prisma.ticketsWhereInput> {
+    if (target.scope === AnalyticsScope.PROJECT) {
+      const projectId = Number(target.id);
+      if (!projectId || Number.isNaN(projectId)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+      }
+
+      const project = await this.prisma.projects.findUnique({ where: { id: projectId }, select: { id: true, workspace_id: true } });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+      }
+      if (!(await this.workspaceMembersService.hasRight(project.workspace_id, userId, "get", "project"))) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view the analytics of this project" });
+      }
+      return { project_id: project.id };
+    }
+
+    const workspaceId = String(target.id ?? "");
+    if (!workspaceId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Workspace ID is required" });
+    }
+
+    const workspace = await this.prisma.workspaces.findUnique({ where: { id: workspaceId }, select: { id: true } });
+    if (!workspace) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Workspace with ID "${workspaceId}" not found` });
+    }
+    if (!(await this.workspaceMembersService.hasRight(workspaceId, userId, "get", "workspace"))) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view the analytics of this workspace" });
+    }
+    return { project: { workspace_id: workspaceId } };
+  }
+
+  private resolveRange(filter?: AnalyticsFilterDto): DateRange {
+    const to = filter?.to ? new Date(filter.to) : new Date();
+    const from = filter?.from ? new Date(filter.from) : new Date(to.getTime() - DEFAULT_ANALYTICS_RANGE_DAYS * DAY_MS);
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid date range: expected ISO 8601 dates" });
+    }
+    // Une date seule (YYYY-MM-DD) en borne haute couvre toute la journée
+    if (filter?.to && /^\d{4}-\d{2}-\d{2}$/.test(filter.to)) {
+      to.setUTCHours(23, 59, 59, 999);
+    }
+    if (from > to) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid date range: from must be before to" });
+    }
+    return { from, to };
+  }
+
+  private statusTarget(metadata: Prisma.JsonValue): string | null {
+    const changes = metadata && typeof metadata === "object" && !Array.isArray(metadata) ? metadata.changes : null;
+    const change = changes && typeof changes === "object" && !Array.isArray(changes) ? changes.status : null;
+    const to = change && typeof change === "object" && !Array.isArray(change) ? change.to : null;
+    return typeof to === "string" ? to : null;
+  }
+
+  /** Début de la période contenant `date` (UTC, semaines commençant le lundi) */
+  private truncate(date: Date, granularity: Granularity): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    switch (granularity) {
+      case Granularity.YEAR:
+        return new Date(Date.UTC(year, 0, 1));
+      case Granularity.MONTH:
+        return new Date(Date.UTC(year, month, 1));
+      case Granularity.WEEK: {
+        const day = new Date(Date.UTC(year, month, date.getUTCDate()));
+        return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS);
+      }
+      default:
+        return new Date(Date.UTC(year, month, date.getUTCDate()));
+    }
+  }
+
+  private nextPeriod(period: Date, granularity: Granularity): Date {
+    switch (granularity) {
+      case Granularity.YEAR:
+        return new Date(Date.UTC(period.getUTCFullYear() + 1, 0, 1));
+      case Granularity.MONTH:
+        return new Date(Date.UTC(period.getUTCFullYear(), period.getUTCMonth() + 1, 1));
+      case Granularity.WEEK:
+        return new Date(period.getTime() + 7 * DAY_MS);
+      default:
+        return new Date(period.getTime() + DAY_MS);
+    }
+  }
+
+  private formatRange(range: DateRange): { from: string; to: string } {
+    return { from: range.from.toISOString(), to: range.to.toISOString() };
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private average(values: number[]): number | null {
+    return values.length === 0 ? null : this.round(values.reduce((sum, value) => sum + value, 0) / values.length);
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return this.round(sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
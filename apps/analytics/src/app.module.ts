@@ -1,9 +1,16 @@
 import { Module } from "@nestjs/common";
+import { APP_INTERCEPTOR } from "@nestjs/core";
 import { HealthController } from "./health.controller";
 import { LoggerClientModule } from "@shared/logger";
+import { PrismaModule } from "@shared/prisma";
+import { GrpcRequestContextInterceptor } from "@shared/utils";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { AnalyticsController } from "./analytics/analytics.controller";
+import { AnalyticsService } from "./analytics/analytics.service";
 
 @Module({
-  imports: [LoggerClientModule],
-  controllers: [HealthController],
+  imports: [LoggerClientModule, PrismaModule],
+  controllers: [HealthController, AnalyticsController],
+  providers: [AnalyticsService, WorkspaceMembersService, { provide: APP_INTERCEPTOR, useClass: GrpcRequestContextInterceptor }],
 })
 export class AppModule {}
@@ -8,14 +8,15 @@ async function bootstrap() {
     transport: Transport.GRPC,
     options: {
       url: process.env.ANALYTICS_GRPC_URL ?? "0.0.0.0:50055",
-      package: "health.v1",
-      protoPath: [join(process.cwd(), "libs/proto/health/v1/health.proto")],
+      package: ["health.v1", "analytics.v1"],
+      protoPath: [join(process.cwd(), "libs/proto/health/v1/health.proto"), join(process.cwd(), "libs/proto/analytics/v1/analytics.proto")],
       loader: {
         keepCase: true,
         longs: String,
         enums: String,
         defaults: true,
         oneofs: true,
+        includeDirs: [join(process.cwd(), "libs/proto")],
       },
     },
   });
@@ -162,6 +162,7 @@ export class AuthService {
         updated_at: u.updated_at ?? null,
         email_confirmed,
         last_sign_in_at: u.last_sign_in_at ?? null,
+        phone: u.phone || null,
       };
     } catch (err) {
       await this.logger.log({ level: "warn", service: "auth", func: "getUser", message: "GetUser failed", data: { userId, reason: String(err?.message ?? err) } });
@@ -1,11 +1,15 @@
 import { Controller } from "@nestjs/common";
 import { GrpcMethod } from "@nestjs/microservices";
 import { ProfileService } from "./profile.service";
-import { ProfileDto, ProfilesListDto } from "@shared/types";
+import { UserPreferencesService } from "./user-preferences.service";
+import { ProfileDto, ProfilesListDto, UpdateUserNotificationSettingsDto, UpdateUserPreferencesDto, UserNotificationSettingsDto, UserPreferencesDto } from "@shared/types";
 
 @Controller()
 export class ProfileController {
-  constructor(private readonly service: ProfileService) {}
+  constructor(
+    private readonly service: ProfileService,
+    private readonly preferences: UserPreferencesService,
+  ) {}
 
   @GrpcMethod("ProfileService", "GetByUserId")
   async getByUserId(data: { user_id: string }): Promise<ProfileDto> {
@@ -47,4 +51,26 @@ export class ProfileController {
     }
     return row;
   }
+
+  @GrpcMethod("ProfileService", "GetPreferences")
+  async getPreferences(data: { user_id: string }): Promise<UserPreferencesDto> {
+    return await this.preferences.getPreferences(data.user_id);
+  }
+
+  @GrpcMethod("ProfileService", "UpsertPreferences")
+  async upsertPreferences(data: { user_id: string } & UpdateUserPreferencesDto): Promise<UserPreferencesDto> {
+    const { user_id, ...dto } = data;
+    return await this.preferences.upsertPreferences(user_id, dto);
+  }
+
+  @GrpcMethod("ProfileService", "GetNotificationSettings")
+  async getNotificationSettings(data: { user_id: string }): Promise<UserNotificationSettingsDto> {
+    return await this.preferences.getNotificationSettings(data.user_id);
+  }
+
+  @GrpcMethod("ProfileService", "UpsertNotificationSettings")
+  async upsertNotificationSettings(data: { user_id: string } & UpdateUserNotificationSettingsDto): Promise<UserNotificationSettingsDto> {
+    const { user_id, ...dto } = data;
+    return await this.preferences.upsertNotificationSettings(user_id, dto);
+  }
 }
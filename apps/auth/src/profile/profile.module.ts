@@ -1,12 +1,13 @@
 import { Module } from "@nestjs/common";
 import { PrismaModule } from "@shared/prisma";
 import { ProfileService } from "./profile.service";
+import { UserPreferencesService } from "./user-preferences.service";
 import { LoggerClientModule } from "@shared/logger";
 import { ProfileController } from "./profile.controller";
 
 @Module({
   imports: [PrismaModule, LoggerClientModule],
-  providers: [ProfileService],
+  providers: [ProfileService, UserPreferencesService],
   controllers: [ProfileController],
 })
 export class ProfileModule {}
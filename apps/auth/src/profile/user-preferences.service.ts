@@ -0,0 +1,152 @@
+import { Injectable } from "@nestjs/common";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { isMilitaryTime, isTimeZone } from "class-validator";
+import { plainToInstance } from "class-transformer";
+import { DateFormat, ThemeMode, TimeFormat, UpdateUserNotificationSettingsDto, UpdateUserPreferencesDto, UserNotificationSettingsDto, UserPreferencesDto } from "@shared/types";
+
+const ITEMS_PER_PAGE_MIN = 10;
+const ITEMS_PER_PAGE_MAX = 100;
+
+/** Colonnes de user_preferences modifiables par l'utilisateur */
+const PREFERENCE_FIELDS = ["theme", "language", "timezone", "date_format", "time_format", "compact_mode", "show_completed_tasks", "default_view", "items_per_page"] as const;
+
+/** Colonnes de user_notification_settings modifiables par l'utilisateur (hors muted_until) */
+const NOTIFICATION_FIELDS = [
+  "enabled",
+  "email_enabled",
+  "push_enabled",
+  "in_app_enabled",
+  "sms_enabled",
+  "on_ticket_assigned",
+  "on_ticket_completed",
+  "on_ticket_comment",
+  "on_ticket_due",
+  "on_mentioned",
+  "on_project_update",
+  "on_sprint_start",
+  "on_sprint_end",
+  "daily_digest",
+  "weekly_digest",
+  "digest_time",
+] as const;
+
+/**
+ * Service de gestion des préférences et des réglages de notification des utilisateurs
+ *
+ * - getPreferences / upsertPreferences: Préférences d'affichage (thème, fuseau, pagination...)
+ * - getNotificationSettings / upsertNotificationSettings: Canaux et événements notifiés
+ *
+ * Les lignes sont créées à la première lecture ou écriture avec les valeurs par défaut du schéma.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class UserPreferencesService {
+  constructor(
+    private prisma: PrismaService,
+    private logger: LoggerClientService,
+  ) {}
+
+  async getPreferences(userId: string): Promise<UserPreferencesDto> {
+    await this.assertProfileExists(userId);
+    const row = await this.prisma.user_preferences.upsert({
+      where: { user_id: userId },
+      create: { user_id: userId, created_by: userId },
+      update: {},
+    });
+    return plainToInstance(UserPreferencesDto, row);
+  }
+
+  async upsertPreferences(userId: string, dto: UpdateUserPreferencesDto): Promise<UserPreferencesDto> {
+    this.validatePreferences(dto);
+    await this.assertProfileExists(userId);
+
+    const data = this.pick(dto, PREFERENCE_FIELDS) as Omit<Prisma.user_preferencesUncheckedCreateInput, "user_id">;
+
+    const row = await this.prisma.user_preferences.upsert({
+      where: { user_id: userId },
+      create: { ...data, user_id: userId, created_by: userId },
+      update: { ...data, updated_by: userId, updated_at: new Date() },
+    });
+    await this.logger.log({ level: "info", service: "auth", func: "preferences.upsert", message: "Preferences saved", data: { userId, fields: Object.keys(data) } });
+    return plainToInstance(UserPreferencesDto, row);
+  }
+
+  async getNotificationSettings(userId: string): Promise<UserNotificationSettingsDto> {
+    await this.assertProfileExists(userId);
+    const row = await this.prisma.user_notification_settings.upsert({
+      where: { user_id: userId },
+      create: { user_id: userId, created_by: userId },
+      update: {},
+    });
+    return plainToInstance(UserNotificationSettingsDto, row);
+  }
+
+  async upsertNotificationSettings(userId: string, dto: UpdateUserNotificationSettingsDto): Promise<UserNotificationSettingsDto> {
+    this.validateNotificationSettings(dto);
+    await this.assertProfileExists(userId);
+
+    const data: Omit<Prisma.user_notification_settingsUncheckedCreateInput, "user_id"> = this.pick(dto, NOTIFICATION_FIELDS);
+    // Une chaîne vide lève la mise en sourdine
+    if (dto.muted_until !== undefined) data.muted_until = dto.muted_until ? new Date(dto.muted_until) : null;
+
+    const row = await this.prisma.user_notification_settings.upsert({
+      where: { user_id: userId },
+      create: { ...data, user_id: userId, created_by: userId },
+      update: { ...data, updated_by: userId, updated_at: new Date() },
+    });
+    await this.logger.log({
+      level: "info",
+      service: "auth",
+      func: "notification-settings.upsert",
+      message: "Notification settings saved",
+      data: { userId, fields: Object.keys(data) },
+    });
+    return plainToInstance(UserNotificationSettingsDto, row);
+  }
+
+  private validatePreferences(dto: UpdateUserPreferencesDto): void {
+    if (dto.theme !== undefined && !Object.values(ThemeMode).includes(dto.theme)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `INVALID_THEME: expected one of ${Object.values(ThemeMode).join(", ")}` });
+    }
+    if (dto.date_format !== undefined && !Object.values(DateFormat).includes(dto.date_format)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `INVALID_DATE_FORMAT: expected one of ${Object.values(DateFormat).join(", ")}` });
+    }
+    if (dto.time_format !== undefined && !Object.values(TimeFormat).includes(dto.time_format)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `INVALID_TIME_FORMAT: expected one of ${Object.values(TimeFormat).join(", ")}` });
+    }
+    if (dto.timezone !== undefined && !isTimeZone(dto.timezone)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "INVALID_TIMEZONE: expected an IANA time zone such as Europe/Paris" });
+    }
+    if (dto.items_per_page !== undefined && (!Number.isInteger(dto.items_per_page) || dto.items_per_page < ITEMS_PER_PAGE_MIN || dto.items_per_page > ITEMS_PER_PAGE_MAX)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `INVALID_ITEMS_PER_PAGE: expected an integer between ${ITEMS_PER_PAGE_MIN} and ${ITEMS_PER_PAGE_MAX}` });
+    }
+  }
+
+  private validateNotificationSettings(dto: UpdateUserNotificationSettingsDto): void {
+    if (dto.digest_time !== undefined && !isMilitaryTime(dto.digest_time)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "INVALID_DIGEST_TIME: expected HH:MM (24h)" });
+    }
+    if (dto.muted_until && Number.isNaN(new Date(dto.muted_until).getTime())) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "INVALID_MUTED_UNTIL: expected an ISO 8601 date" });
+    }
+  }
+
+  private async assertProfileExists(userId: string): Promise<void> {
+    const profile = await this.prisma.profiles.findUnique({ where: { user_id: userId }, select: { user_id: true } });
+    if (!profile) throw new RpcException({ code: status.NOT_FOUND, message: "PROFILE_NOT_FOUND" });
+  }
+
+  private pick<T extends object, K extends keyof T>(source: T, keys: readonly K[]): Partial<Pick<T, K>> {
+    const result: Partial<Pick<T, K>> = {};
+    for (const key of keys) {
+      if (source[key] !== undefined) result[key] = source[key];
+    }
+    return result;
+  }
+}
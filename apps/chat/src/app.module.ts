@@ -1,9 +1,40 @@
 import { Module } from "@nestjs/common";
 import { HealthController } from "./health.controller";
 import { LoggerClientModule } from "@shared/logger";
+import { PrismaModule } from "@shared/prisma";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { GrpcRequestContextInterceptor } from "@shared/utils";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { AgentsService } from "apps/workspace/src/agent/agents.service";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
+import { ChatsController } from "./chat/chats.controller";
+import { ChatsService } from "./chat/chats.service";
+import { LLM_PROVIDER } from "./llm/llm-provider";
+import { EchoLlmProvider } from "./llm/echo-llm.provider";
+import { OpenAiLlmProvider } from "./llm/openai-llm.provider";
+import { ModelUsageController } from "./usage/model-usage.controller";
+import { ModelUsageService } from "./usage/model-usage.service";
+import { ModelPriceTable } from "./usage/model-price-table";
+import { VectorGatewayModule } from "libs/shared/utils/src/client/vector/vector-gateway.module";
 
 @Module({
-  imports: [LoggerClientModule],
-  controllers: [HealthController],
+  imports: [LoggerClientModule, PrismaModule, VectorGatewayModule],
+  controllers: [HealthController, ChatsController, ModelUsageController],
+  providers: [
+    ChatsService,
+    ModelUsageService,
+    ModelPriceTable,
+    WorkspaceMembersService,
+    AgentsService,
+    ActivityLogsService,
+    EchoLlmProvider,
+    OpenAiLlmProvider,
+    {
+      provide: LLM_PROVIDER,
+      useFactory: (echo: EchoLlmProvider, openai: OpenAiLlmProvider) => (process.env.LLM_PROVIDER === "openai" ? openai : echo),
+      inject: [EchoLlmProvider, OpenAiLlmProvider],
+    },
+    { provide: APP_INTERCEPTOR, useClass: GrpcRequestContextInterceptor },
+  ],
 })
 export class AppModule {}
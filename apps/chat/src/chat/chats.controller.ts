@@ -0,0 +1,112 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod, RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { LoggerClientService } from "@shared/logger";
+import { ChatDto, ChatListDto, ChatStreamEventDto, CreateChatDto, MessageDto, MessageListDto, SendMessageDto, UpdateChatDto } from "@shared/types";
+import { map, Observable } from "rxjs";
+import { ChatsService } from "./chats.service";
+
+type WireChatDto<T extends { metadata?: unknown }> = Omit<T, "metadata"> & { metadata?: string };
+
+@Controller()
+export class ChatsController {
+  constructor(
+    private readonly chatsService: ChatsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Chats", "Create")
+  async create(data: { user_id: string; dto: WireChatDto<CreateChatDto> }) {
+    await this.logger.log({
+      level: "info",
+      service: "chat",
+      func: "chats.grpc.create",
+      message: `gRPC Create chat request for project ${data.dto?.projectId}`,
+      data,
+    });
+
+    const chat = await this.chatsService.create(data.user_id, { ...data.dto, metadata: this.parseMetadata(data.dto?.metadata) } as CreateChatDto);
+    return this.serializeChat(chat);
+  }
+
+  @GrpcMethod("Chats", "List")
+  async list(data: { user_id: string; project_id: number; search?: string; skip?: number; take?: number }) {
+    const list: ChatListDto = await this.chatsService.list(data.user_id, data.project_id, data.search, data.skip, data.take);
+    return { ...list, items: list.items.map(chat => this.serializeChat(chat)) };
+  }
+
+  @GrpcMethod("Chats", "GetById")
+  async getById(data: { user_id: string; id: number }) {
+    return this.serializeChat(await this.chatsService.getById(data.id, data.user_id));
+  }
+
+  @GrpcMethod("Chats", "Update")
+  async update(data: { user_id: string; id: number; dto: WireChatDto<UpdateChatDto> }) {
+    await this.logger.log({
+      level: "info",
+      service: "chat",
+      func: "chats.grpc.update",
+      message: `gRPC Update chat request for id ${data.id}`,
+      data,
+    });
+
+    const dto = { ...data.dto, metadata: this.parseMetadata(data.dto?.metadata) } as UpdateChatDto;
+    return this.serializeChat(await this.chatsService.update(data.id, dto, data.user_id));
+  }
+
+  @GrpcMethod("Chats", "Delete")
+  async delete(data: { user_id: string; id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "chat",
+      func: "chats.grpc.delete",
+      message: `gRPC Delete chat request for id ${data.id}`,
+      data,
+    });
+
+    return this.chatsService.delete(data.id, data.user_id);
+  }
+
+  @GrpcMethod("Chats", "ListMessages")
+  async listMessages(data: { user_id: string; chat_id: number; skip?: number; take?: number }) {
+    const list: MessageListDto = await this.chatsService.listMessages(data.chat_id, data.user_id, data.skip, data.take);
+    return { ...list, items: list.items.map(message => this.serializeMessage(message)) };
+  }
+
+  @GrpcMethod("Chats", "SendMessage")
+  sendMessage(data: { user_id: string; chat_id: number; dto: SendMessageDto }): Observable<unknown> {
+    void this.logger.log({
+      level: "info",
+      service: "chat",
+      func: "chats.grpc.sendMessage",
+      message: `gRPC SendMessage request for chat ${data.chat_id}`,
+      data: { user_id: data.user_id, chat_id: data.chat_id },
+    });
+
+    return this.chatsService
+      .sendMessage(data.chat_id, data.dto, data.user_id)
+      .pipe(map((event: ChatStreamEventDto) => ({ ...event, message: event.message ? this.serializeMessage(event.message) : undefined })));
+  }
+
+  private parseMetadata(metadata?: string): Record<string, any> | undefined {
+    if (metadata === undefined || metadata === "") return undefined;
+    try {
+      return JSON.parse(metadata) as Record<string, any>;
+    } catch {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Metadata must be a JSON object" });
+    }
+  }
+
+  // Les objets JSON libres transitent sérialisés sur le fil gRPC
+  private serializeChat(chat: ChatDto) {
+    return { ...chat, metadata: chat.metadata ? JSON.stringify(chat.metadata) : undefined };
+  }
+
+  private serializeMessage(message: MessageDto) {
+    return {
+      ...message,
+      rawMessageJson: message.rawMessageJson ? JSON.stringify(message.rawMessageJson) : undefined,
+      performanceMetadata: message.performanceMetadata ? JSON.stringify(message.performanceMetadata) : undefined,
+    };
+  }
+}
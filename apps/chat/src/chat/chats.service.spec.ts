@@ -0,0 +1,115 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { ChatStreamEventDto, ChatStreamEventType, MessageRole, ModelUsageSource } from "@shared/types";
+import { lastValueFrom, toArray } from "rxjs";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { AgentsService } from "apps/workspace/src/agent/agents.service";
+import { VectorGatewayService } from "libs/shared/utils/src/client/vector/vector.client";
+import { ChatsService } from "./chats.service";
+import { EchoLlmProvider } from "../llm/echo-llm.provider";
+import { LLM_PROVIDER } from "../llm/llm-provider";
+import { ModelUsageService } from "../usage/model-usage.service";
+
+const USER_ID = "8f7e2a51-3c1d-4b8e-9f0a-1d2c3b4a5e6f";
+const WORKSPACE_ID = "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d";
+const CHAT_ID = 12;
+
+interface NewMessage {
+  message_role: MessageRole;
+  message: string;
+  error_message?: string | null;
+  [field: string]: unknown;
+}
+
+interface SavedMessage extends NewMessage {
+  id: number;
+}
+
+describe("ChatsService", () => {
+  let service: ChatsService;
+  let messages: SavedMessage[];
+  let modelUsage: { assertQuota: jest.Mock; record: jest.Mock };
+
+  const send = (message: string) => lastValueFrom(service.sendMessage(CHAT_ID, { message }, USER_ID).pipe(toArray()));
+
+  beforeEach(async () => {
+    delete process.env.CHAT_AGENT_CODE;
+    delete process.env.LLM_FIXTURES_PATH;
+    delete process.env.LLM_ECHO_DELAY_MS;
+    messages = [];
+    modelUsage = { assertQuota: jest.fn(() => Promise.resolve()), record: jest.fn(() => Promise.resolve()) };
+
+    const chat = { id: CHAT_ID, workspace_id: WORKSPACE_ID, project_id: 3, metadata: null, created_by: USER_ID };
+    const prisma = {
+      chat: {
+        findFirst: jest.fn(() => Promise.resolve(chat)),
+        update: jest.fn(() => Promise.resolve(chat)),
+      },
+      messages: {
+        create: jest.fn(({ data }: { data: NewMessage }) => {
+          const row: SavedMessage = { ...data, id: 100 + messages.length, created_at: new Date(), updated_at: null, error_message: data.error_message ?? null };
+          messages.push(row);
+          return Promise.resolve(row);
+        }),
+        findMany: jest.fn(() => Promise.resolve([...messages].reverse())),
+      },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatsService,
+        { provide: LLM_PROVIDER, useClass: EchoLlmProvider },
+        { provide: PrismaService, useValue: prisma },
+        { provide: LoggerClientService, useValue: { log: jest.fn(() => Promise.resolve()) } },
+        { provide: WorkspaceMembersService, useValue: { hasRight: jest.fn(() => Promise.resolve(true)) } },
+        { provide: AgentsService, useValue: { compose: jest.fn() } },
+        { provide: VectorGatewayService, useValue: { search: jest.fn(() => Promise.resolve([])) } },
+        { provide: ModelUsageService, useValue: modelUsage },
+      ],
+    }).compile();
+
+    service = app.get<ChatsService>(ChatsService);
+  });
+
+  it("should stream the saved question, the echo tokens, then the saved reply", async () => {
+    const events: ChatStreamEventDto[] = await send("How is the sprint going?");
+
+    expect(events.map(event => event.type)).toEqual([ChatStreamEventType.USER_MESSAGE, ...Array<ChatStreamEventType>(6).fill(ChatStreamEventType.TOKEN), ChatStreamEventType.DONE]);
+    expect(events.map(event => event.token ?? "").join("")).toBe("Echo: How is the sprint going?");
+    expect(events[0].message?.id).toBe(messages[0].id);
+    expect(events[events.length - 1].message?.id).toBe(messages[1].id);
+  });
+
+  it("should save the assistant reply and record its token usage", async () => {
+    await send("How is the sprint going?");
+
+    expect(messages).toHaveLength(2);
+    const [question, reply] = messages;
+    expect(question).toMatchObject({ chat_id: CHAT_ID, message_role: MessageRole.USER, message: "How is the sprint going?", created_by: USER_ID });
+    expect(reply).toMatchObject({
+      chat_id: CHAT_ID,
+      message_role: MessageRole.ASSISTANT,
+      message: "Echo: How is the sprint going?",
+      markdown: "Echo: How is the sprint going?",
+      model: "echo",
+      token_count: 6,
+      referenced_messages: [question.id],
+      error_message: null,
+      citations: [],
+    });
+    expect(modelUsage.record).toHaveBeenCalledWith(
+      expect.objectContaining({ from: ModelUsageSource.CHAT, model: "echo", model_token_count: 6, user_id: USER_ID, workspace_id: WORKSPACE_ID, project_id: 3 }),
+    );
+  });
+
+  it("should refuse the question before saving anything once the workspace quota is exhausted", async () => {
+    modelUsage.assertQuota.mockRejectedValueOnce(new RpcException({ code: status.RESOURCE_EXHAUSTED, message: "Monthly token quota exceeded" }));
+
+    await expect(send("How is the sprint going?")).rejects.toBeInstanceOf(RpcException);
+    expect(messages).toHaveLength(0);
+    expect(modelUsage.record).not.toHaveBeenCalled();
+  });
+});
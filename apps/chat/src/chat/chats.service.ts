@@ -0,0 +1,544 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  AGENT_RETRIEVAL_DOCUMENT_TYPES,
+  AgentRetrievalDto,
+  BasePaginationDto,
+  CHAT_CONTEXT_EXCERPT_LENGTH,
+  CHAT_HISTORY_LIMIT,
+  ChatDto,
+  ChatDtoSelect,
+  ChatListDto,
+  ChatStreamEventDto,
+  ChatStreamEventType,
+  CreateChatDto,
+  DEFAULT_AGENT_RETRIEVAL,
+  MessageCitationDto,
+  MessageDto,
+  MessageDtoSelect,
+  MessageListDto,
+  MessageRole,
+  ModelUsageSource,
+  PromptRoleType,
+  SendMessageDto,
+  UpdateChatDto,
+} from "@shared/types";
+import { plainToInstance } from "class-transformer";
+import { isUUID } from "class-validator";
+import { from, Observable } from "rxjs";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { AgentsService } from "apps/workspace/src/agent/agents.service";
+import { VectorGatewayService } from "libs/shared/utils/src/client/vector/vector.client";
+import { LLM_PROVIDER, type LlmMessage, type LlmProvider, type LlmUsage } from "../llm/llm-provider";
+import { ModelUsageService } from "../usage/model-usage.service";
+import { estimateTokenCount } from "../usage/model-price-table";
+
+type ChatRow = Prisma.chatGetPayload<{ select: typeof ChatDtoSelect }>;
+type MessageRow = Prisma.messagesGetPayload<{ select: typeof MessageDtoSelect }>;
+
+interface ChatAgentContext {
+  agentId?: number;
+  system?: string;
+  retrieval: Required<AgentRetrievalDto>;
+}
+
+/**
+ * Service des conversations avec l'assistant, rattachées à un projet
+ *
+ * - create / update / delete: Gestion des conversations (propriétaire uniquement)
+ * - list / getById: Conversations de l'utilisateur dans un projet
+ * - listMessages: Historique paginé, de la page la plus récente à la plus ancienne
+ * - sendMessage: Enregistre une question et diffuse la réponse du modèle token par token
+ *
+ * Une conversation est privée ; son propriétaire doit garder l'accès au projet. Le prompt système est
+ * assemblé depuis l'agent `agent_name_code` des métadonnées de la conversation, ou CHAT_AGENT_CODE.
+ * Les tickets, epics, sprints et tâches du projet les plus proches de la question sont ajoutés au contexte
+ * selon les paramètres de recherche de l'agent, et cités dans la réponse.
+ * Chaque réponse est comptée dans la consommation du workspace ; une question est refusée quand son quota mensuel est atteint.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class ChatsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly agentsService: AgentsService,
+    private readonly vectorGateway: VectorGatewayService,
+    private readonly modelUsageService: ModelUsageService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+  ) {}
+
+  /**
+   * Ouvre une conversation dans un projet
+   *
+   * @param userId ID du propriétaire
+   * @param dto Projet, titre et configuration de la conversation
+   * @returns La conversation créée
+   */
+  async create(userId: string, dto: CreateChatDto): Promise<ChatDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "chat",
+      func: "chats.create",
+      message: `Creating chat in project ${dto?.projectId} for user ${userId}`,
+      data: { userId, projectId: dto?.projectId },
+    });
+
+    if (!dto?.projectId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+    if (dto.sessionId && !isUUID(dto.sessionId)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Session ID must be a UUID" });
+    }
+
+    try {
+      const project = await this.prisma.projects.findUnique({ where: { id: Number(dto.projectId) }, select: { id: true, workspace_id: true } });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project ${dto.projectId} not found` });
+      }
+      if (dto.workspaceId && dto.workspaceId !== project.workspace_id) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: "The project does not belong to this workspace" });
+      }
+      await this.assertProjectAccess(project.workspace_id, userId);
+
+      const created = await this.prisma.chat.create({
+        data: {
+          created_by: userId,
+          workspace_id: project.workspace_id,
+          project_id: project.id,
+          session_id: dto.sessionId || undefined,
+          title: dto.title?.trim() || null,
+          metadata: (dto.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+          workflow_definition_id: dto.workflowDefinitionId || null,
+          completion_definition_id: dto.completionDefinitionId || null,
+          chatbot_config_id: dto.chatbotConfigId || null,
+          agent_task_definition_id: dto.agentTaskDefinitionId || null,
+        },
+        select: ChatDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "chat",
+        func: "chats.create",
+        message: `Chat ${created.id} created in project ${project.id}`,
+        data: { chatId: created.id, projectId: project.id, userId },
+      });
+
+      return this.toChatDto(created);
+    } catch (error) {
+      throw await this.handleError(error, "chats.create", { userId, projectId: dto.projectId }, "Unable to create the chat");
+    }
+  }
+
+  /**
+   * Conversations de l'utilisateur dans un projet, de la plus récemment active à la plus ancienne
+   *
+   * @param userId ID de l'utilisateur
+   * @param projectId ID du projet
+   * @param search Recherche sur le titre
+   * @param skip Décalage
+   * @param take Taille de page (préférence de l'utilisateur par défaut)
+   * @returns Page de conversations
+   */
+  async list(userId: string, projectId: number, search?: string, skip?: number, take?: number): Promise<ChatListDto> {
+    if (!projectId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+
+    try {
+      const project = await this.prisma.projects.findUnique({ where: { id: Number(projectId) }, select: { workspace_id: true } });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project ${projectId} not found` });
+      }
+      await this.assertProjectAccess(project.workspace_id, userId);
+
+      const where: Prisma.chatWhereInput = {
+        created_by: userId,
+        project_id: Number(projectId),
+        ...(search?.trim() ? { title: { contains: search.trim(), mode: "insensitive" } } : {}),
+      };
+      const offset = skip ?? 0;
+      const limit = await resolveTake(this.prisma, userId, take, 25);
+
+      const [rows, total] = await Promise.all([
+        this.prisma.chat.findMany({
+          where,
+          select: ChatDtoSelect,
+          orderBy: [{ last_message_at: { sort: "desc", nulls: "last" } }, { created_at: "desc" }],
+          skip: offset,
+          take: limit,
+        }),
+        this.prisma.chat.count({ where }),
+      ]);
+
+      return BasePaginationDto.create(
+        rows.map(row => this.toChatDto(row)),
+        total,
+        offset,
+        limit,
+        ChatListDto,
+      );
+    } catch (error) {
+      throw await this.handleError(error, "chats.list", { userId, projectId }, "Unable to list chats");
+    }
+  }
+
+  /**
+   * Récupère une conversation de l'utilisateur
+   *
+   * @param id ID de la conversation
+   * @param userId ID de l'utilisateur
+   * @returns La conversation
+   */
+  async getById(id: number, userId: string): Promise<ChatDto> {
+    try {
+      return this.toChatDto(await this.findOwnedChat(id, userId));
+    } catch (error) {
+      throw await this.handleError(error, "chats.getById", { id, userId }, "Unable to get the chat");
+    }
+  }
+
+  /**
+   * Renomme une conversation ou remplace ses métadonnées
+   *
+   * @param id ID de la conversation
+   * @param dto Titre et métadonnées
+   * @param userId ID de l'utilisateur
+   * @returns La conversation modifiée
+   */
+  async update(id: number, dto: UpdateChatDto, userId: string): Promise<ChatDto> {
+    try {
+      await this.findOwnedChat(id, userId);
+
+      const updated = await this.prisma.chat.update({
+        where: { id: Number(id) },
+        data: {
+          title: dto.title !== undefined ? dto.title.trim() || null : undefined,
+          metadata: dto.metadata !== undefined ? (dto.metadata as Prisma.InputJsonValue) : undefined,
+          updated_by: userId,
+          updated_at: new Date(),
+        },
+        select: ChatDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "chat",
+        func: "chats.update",
+        message: `Chat ${id} updated`,
+        data: { id, userId, changes: Object.keys(dto) },
+      });
+
+      return this.toChatDto(updated);
+    } catch (error) {
+      throw await this.handleError(error, "chats.update", { id, userId }, "Unable to update the chat");
+    }
+  }
+
+  /**
+   * Supprime une conversation et ses messages
+   *
+   * @param id ID de la conversation
+   * @param userId ID de l'utilisateur
+   * @returns Succès de la suppression
+   */
+  async delete(id: number, userId: string): Promise<{ success: boolean }> {
+    try {
+      await this.findOwnedChat(id, userId);
+      await this.prisma.chat.delete({ where: { id: Number(id) } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "chat",
+        func: "chats.delete",
+        message: `Chat ${id} deleted`,
+        data: { id, userId },
+      });
+
+      return { success: true };
+    } catch (error) {
+      throw await this.handleError(error, "chats.delete", { id, userId }, "Unable to delete the chat");
+    }
+  }
+
+  /**
+   * Historique d'une conversation : la première page contient les messages les plus récents,
+   * chaque page étant dans l'ordre chronologique
+   *
+   * @param chatId ID de la conversation
+   * @param userId ID de l'utilisateur
+   * @param skip Nombre de messages récents à sauter
+   * @param take Taille de page (préférence de l'utilisateur par défaut)
+   * @returns Page de messages
+   */
+  async listMessages(chatId: number, userId: string, skip?: number, take?: number): Promise<MessageListDto> {
+    try {
+      const chat = await this.findOwnedChat(chatId, userId);
+      const offset = skip ?? 0;
+      const limit = await resolveTake(this.prisma, userId, take, 50);
+
+      const [rows, total] = await Promise.all([
+        this.prisma.messages.findMany({
+          where: { chat_id: chat.id },
+          select: MessageDtoSelect,
+          orderBy: [{ created_at: "desc" }, { id: "desc" }],
+          skip: offset,
+          take: limit,
+        }),
+        this.prisma.messages.count({ where: { chat_id: chat.id } }),
+      ]);
+
+      return BasePaginationDto.create(
+        rows.reverse().map(row => this.toMessageDto(row)),
+        total,
+        offset,
+        limit,
+        MessageListDto,
+      );
+    } catch (error) {
+      throw await this.handleError(error, "chats.listMessages", { chatId, userId }, "Unable to list messages");
+    }
+  }
+
+  /**
+   * Envoie une question et diffuse la réponse de l'assistant
+   * Le flux émet la question enregistrée, les tokens de la réponse, puis la réponse enregistrée (ou l'erreur du modèle)
+   *
+   * @param chatId ID de la conversation
+   * @param dto Question
+   * @param userId ID de l'utilisateur
+   * @returns Flux d'évènements
+   */
+  sendMessage(chatId: number, dto: SendMessageDto, userId: string): Observable<ChatStreamEventDto> {
+    return from(this.streamReply(chatId, dto, userId));
+  }
+
+  private async *streamReply(chatId: number, dto: SendMessageDto, userId: string): AsyncGenerator<ChatStreamEventDto> {
+    const content = dto?.message?.trim();
+    if (!content) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Message is required" });
+    }
+
+    let chat: ChatRow;
+    let history: LlmMessage[];
+    let question: MessageRow;
+    let citations: MessageCitationDto[];
+    let agentId: number | undefined;
+    try {
+      chat = await this.findOwnedChat(chatId, userId);
+      await this.modelUsageService.assertQuota(chat.workspace_id);
+      const agent = await this.resolveAgent(chat, userId);
+
+      question = await this.prisma.messages.create({
+        data: { chat_id: chat.id, created_by: userId, message_role: MessageRole.USER, step: dto.step?.trim() || null, message: content },
+        select: MessageDtoSelect,
+      });
+      await this.prisma.chat.update({ where: { id: chat.id }, data: { last_message_at: question.created_at } });
+
+      const previous = await this.prisma.messages.findMany({
+        where: { chat_id: chat.id, error_message: null },
+        select: { message_role: true, message: true },
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+        take: CHAT_HISTORY_LIMIT,
+      });
+      const context = await this.retrieveContext(chat, content, agent.retrieval);
+      citations = context.citations;
+      agentId = agent.agentId;
+      history = [
+        ...(agent.system ? [{ role: "system" as const, content: agent.system }] : []),
+        ...(context.content ? [{ role: "system" as const, content: context.content }] : []),
+        ...previous.reverse().map(message => ({ role: message.message_role === MessageRole.ASSISTANT ? ("assistant" as const) : ("user" as const), content: message.message })),
+      ];
+    } catch (error) {
+      throw await this.handleError(error, "chats.sendMessage", { chatId, userId }, "Unable to send the message");
+    }
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "chat",
+      func: "chats.sendMessage",
+      message: `Message ${question.id} sent in chat ${chat.id}, streaming ${this.llm.name} reply`,
+      data: { chatId: chat.id, messageId: question.id, userId, history: history.length, citations: citations.length },
+    });
+    yield { type: ChatStreamEventType.USER_MESSAGE, message: this.toMessageDto(question) };
+
+    const startedAt = Date.now();
+    let answer = "";
+    let usage: LlmUsage | undefined;
+    let failure: string | undefined;
+    try {
+      for await (const chunk of this.llm.stream({ messages: history })) {
+        if (chunk.token) {
+          answer += chunk.token;
+          yield { type: ChatStreamEventType.TOKEN, token: chunk.token };
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+      await this.loggerClient.log({
+        level: "error",
+        service: "chat",
+        func: "chats.sendMessage",
+        message: `LLM provider ${this.llm.name} failed: ${failure}`,
+        data: { chatId: chat.id, messageId: question.id, userId },
+      });
+    }
+
+    const responseTime = Date.now() - startedAt;
+    const reply = await this.prisma.messages.create({
+      data: {
+        chat_id: chat.id,
+        message_role: MessageRole.ASSISTANT,
+        step: question.step,
+        message: answer,
+        markdown: answer,
+        model: this.llm.model,
+        token_count: usage?.completion_tokens ?? null,
+        referenced_messages: [question.id],
+        response_time_ms: responseTime,
+        error_message: failure ?? null,
+        citations: citations.map(citation => ({ ...citation })),
+        performance_metadata: { provider: this.llm.name, latency: responseTime, ...(usage ? { usage: { ...usage } } : {}) },
+      },
+      select: MessageDtoSelect,
+    });
+    await this.prisma.chat.update({ where: { id: chat.id }, data: { last_message_at: reply.created_at } });
+
+    // Sans consommation renvoyée par le fournisseur, les tokens sont estimés depuis le texte envoyé et reçu
+    const promptTokens = usage?.prompt_tokens ?? history.reduce((sum, message) => sum + estimateTokenCount(message.content), 0);
+    const completionTokens = usage?.completion_tokens ?? estimateTokenCount(answer);
+    await this.modelUsageService.record({
+      from: ModelUsageSource.CHAT,
+      model: this.llm.model,
+      user_token_count: promptTokens,
+      model_token_count: completionTokens,
+      total_token_count: usage?.total_tokens ?? promptTokens + completionTokens,
+      user_id: userId,
+      workspace_id: chat.workspace_id,
+      project_id: chat.project_id,
+      agent_id: agentId,
+    });
+
+    yield failure ? { type: ChatStreamEventType.ERROR, message: this.toMessageDto(reply), error: failure } : { type: ChatStreamEventType.DONE, message: this.toMessageDto(reply) };
+  }
+
+  /** Agent de la conversation (métadonnée `agent_name_code`, sinon CHAT_AGENT_CODE) : version, prompt système et paramètres de recherche */
+  private async resolveAgent(chat: ChatRow, userId: string): Promise<ChatAgentContext> {
+    const metadata = chat.metadata as Record<string, unknown> | null;
+    const code = typeof metadata?.agent_name_code === "string" ? metadata.agent_name_code : process.env.CHAT_AGENT_CODE;
+    if (!code) return { retrieval: DEFAULT_AGENT_RETRIEVAL };
+
+    const composed = await this.agentsService.compose({ agent_name_code: code, role_type: PromptRoleType.INFO }, userId, chat.workspace_id);
+    return { agentId: composed.agent_id, system: composed.content || undefined, retrieval: composed.retrieval };
+  }
+
+  /**
+   * Documents du projet les plus proches de la question, numérotés pour être cités.
+   * Une recherche indisponible n'empêche pas de répondre : la question part alors sans contexte.
+   */
+  private async retrieveContext(chat: ChatRow, question: string, retrieval: Required<AgentRetrievalDto>): Promise<{ content?: string; citations: MessageCitationDto[] }> {
+    if (retrieval.top_k <= 0) return { citations: [] };
+
+    try {
+      const matches = await this.vectorGateway.search(question, chat.workspace_id, {
+        projectId: chat.project_id,
+        documentTypes: retrieval.document_types.length > 0 ? retrieval.document_types : [...AGENT_RETRIEVAL_DOCUMENT_TYPES],
+        limit: retrieval.top_k,
+        similarityThreshold: retrieval.min_score,
+      });
+      const documents = matches.filter(match => match.score >= retrieval.min_score).slice(0, retrieval.top_k);
+      if (documents.length === 0) return { citations: [] };
+
+      const citations = documents.map((document, i) => ({
+        index: i + 1,
+        source_table: document.source_table,
+        source_id: document.source_id,
+        document_type: document.document_type,
+        title: typeof document.metadata.title === "string" ? document.metadata.title : typeof document.metadata.name === "string" ? document.metadata.name : undefined,
+        score: document.score,
+      }));
+      const sources = documents.map((document, i) => {
+        const citation = citations[i];
+        const excerpt = document.content.length > CHAT_CONTEXT_EXCERPT_LENGTH ? `${document.content.slice(0, CHAT_CONTEXT_EXCERPT_LENGTH)}…` : document.content;
+        return `[${citation.index}] ${citation.document_type ?? citation.source_table} ${citation.source_table}#${citation.source_id}${citation.title ? ` - ${citation.title}` : ""}\n${excerpt}`;
+      });
+
+      return {
+        content: ["Project documents related to the question. Cite the ones you use with their marker, e.g. [1].", ...sources].join("\n\n"),
+        citations,
+      };
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "chat",
+        func: "chats.retrieveContext",
+        message: `Context retrieval failed, answering without project documents: ${error instanceof Error ? error.message : String(error)}`,
+        data: { chatId: chat.id, projectId: chat.project_id },
+      });
+      return { citations: [] };
+    }
+  }
+
+  private async assertProjectAccess(workspaceId: string, userId: string): Promise<void> {
+    if (!userId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "User ID is required" });
+    }
+    const allowed = await this.workspaceMembersService.hasRight(workspaceId, userId, "get", "project");
+    if (!allowed) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have access to this project" });
+    }
+  }
+
+  /** Conversation du propriétaire ; celles des autres utilisateurs sont introuvables */
+  private async findOwnedChat(id: number, userId: string): Promise<ChatRow> {
+    if (!Number.isInteger(Number(id)) || Number(id) <= 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A valid chat ID is required" });
+    }
+    const chat = await this.prisma.chat.findFirst({ where: { id: Number(id), created_by: userId }, select: ChatDtoSelect });
+    if (!chat) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Chat ${id} not found` });
+    }
+    await this.assertProjectAccess(chat.workspace_id, userId);
+    return chat;
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "chat",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+
+  private toChatDto(chat: ChatRow): ChatDto {
+    const dto = plainToInstance(ChatDto, { ...chat, messageCount: chat._count.messages, lastMessageAt: chat.last_message_at }, { excludeExtraneousValues: true });
+    // excludeExtraneousValues vide les objets JSON libres : on les reprend tels quels
+    dto.metadata = (chat.metadata as Record<string, any> | null) ?? undefined;
+    return dto;
+  }
+
+  private toMessageDto(message: MessageRow): MessageDto {
+    const dto = plainToInstance(MessageDto, { ...message, tokenCount: message.token_count, referencedMessages: message.referenced_messages }, { excludeExtraneousValues: true });
+    dto.rawMessageJson = (message.raw_message_json as Record<string, any> | null) ?? undefined;
+    dto.performanceMetadata = (message.performance_metadata as Record<string, any> | null) ?? undefined;
+    dto.citations = (message.citations as MessageCitationDto[] | null) ?? [];
+    return dto;
+  }
+}
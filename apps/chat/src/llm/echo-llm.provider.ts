@@ -0,0 +1,37 @@
+import { Injectable } from "@nestjs/common";
+import { readFileSync } from "node:fs";
+import { LlmChunk, LlmCompletionRequest, LlmProvider } from "./llm-provider";
+
+/**
+ * Fournisseur hors ligne : renvoie la réponse enregistrée pour la question (LLM_FIXTURES_PATH, fichier JSON
+ * question → réponse), sinon la question elle-même, mot par mot (LLM_ECHO_DELAY_MS entre deux tokens)
+ */
+@Injectable()
+export class EchoLlmProvider implements LlmProvider {
+  readonly name = "echo";
+  readonly model = "echo";
+  private fixtures?: Record<string, string>;
+
+  async *stream(request: LlmCompletionRequest): AsyncIterable<LlmChunk> {
+    const question = [...request.messages].reverse().find(message => message.role === "user")?.content ?? "";
+    const answer = this.getFixtures()[question.trim()] ?? `Echo: ${question}`;
+    const tokens = answer.match(/\S+\s*/g) ?? [];
+    const delay = Number(process.env.LLM_ECHO_DELAY_MS ?? 0);
+
+    for (const token of tokens) {
+      if (delay > 0) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+      yield { token };
+    }
+
+    const promptTokens = request.messages.reduce((count, message) => count + (message.content.match(/\S+/g)?.length ?? 0), 0);
+    yield { usage: { prompt_tokens: promptTokens, completion_tokens: tokens.length, total_tokens: promptTokens + tokens.length } };
+  }
+
+  private getFixtures(): Record<string, string> {
+    if (this.fixtures) return this.fixtures;
+    this.fixtures = process.env.LLM_FIXTURES_PATH ? (JSON.parse(readFileSync(process.env.LLM_FIXTURES_PATH, "utf8")) as Record<string, string>) : {};
+    return this.fixtures;
+  }
+}
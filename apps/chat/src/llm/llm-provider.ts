@@ -0,0 +1,37 @@
+/**
+ * Jeton d'injection du fournisseur de modèle de langage (LLM_PROVIDER : "echo" par défaut, "openai")
+ */
+export const LLM_PROVIDER = "LLM_PROVIDER";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LlmUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/** Fragment de réponse : un token, et la consommation sur le dernier fragment lorsque le fournisseur la donne */
+export interface LlmChunk {
+  token?: string;
+  usage?: LlmUsage;
+}
+
+/**
+ * Contrat d'un fournisseur de modèle de langage.
+ * stream() produit la réponse token par token et lève une erreur si le fournisseur échoue.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  stream(request: LlmCompletionRequest): AsyncIterable<LlmChunk>;
+}
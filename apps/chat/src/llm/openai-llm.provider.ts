@@ -0,0 +1,64 @@
+import { Injectable } from "@nestjs/common";
+import { LlmChunk, LlmCompletionRequest, LlmProvider, LlmUsage } from "./llm-provider";
+
+interface OpenAiStreamChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: LlmUsage | null;
+}
+
+/**
+ * Fournisseur compatible avec l'API Chat Completions d'OpenAI, en streaming
+ * (OPENAI_API_KEY, LLM_BASE_URL, LLM_MODEL, LLM_TIMEOUT_MS)
+ */
+@Injectable()
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = "openai";
+  readonly model = process.env.LLM_MODEL ?? "gpt-4o-mini";
+
+  async *stream(request: LlmCompletionRequest): AsyncIterable<LlmChunk> {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+
+    const response = await fetch(`${process.env.LLM_BASE_URL ?? "https://api.openai.com/v1"}/chat/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+      body: JSON.stringify({
+        model: this.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      }),
+      signal: AbortSignal.timeout(Number(process.env.LLM_TIMEOUT_MS ?? 60000)),
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`LLM provider responded with ${response.status}: ${await response.text()}`);
+    }
+
+    // Réponse SSE : une ligne « data: {...} » par fragment, terminée par « data: [DONE] »
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for await (const bytes of response.body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(bytes, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, "").trim();
+        if (!line.startsWith("data:") || !data) continue;
+        if (data === "[DONE]") return;
+
+        const chunk = JSON.parse(data) as OpenAiStreamChunk;
+        const token = chunk.choices?.[0]?.delta?.content;
+        if (token) {
+          yield { token };
+        }
+        if (chunk.usage) {
+          yield { usage: chunk.usage };
+        }
+      }
+    }
+  }
+}
@@ -8,14 +8,19 @@ async function bootstrap() {
     transport: Transport.GRPC,
     options: {
       url: process.env.CHAT_GRPC_URL ?? "0.0.0.0:50054",
-      package: "health.v1",
-      protoPath: [join(process.cwd(), "libs/proto/health/v1/health.proto")],
+      package: ["health.v1", "chats.v1", "model_usage.v1"],
+      protoPath: [
+        join(process.cwd(), "libs/proto/health/v1/health.proto"),
+        join(process.cwd(), "libs/proto/chats/v1/chats.proto"),
+        join(process.cwd(), "libs/proto/model-usage/v1/model-usage.proto"),
+      ],
       loader: {
         keepCase: true,
         longs: String,
         enums: String,
         defaults: true,
         oneofs: true,
+        includeDirs: [join(process.cwd(), "libs/proto")],
       },
     },
   });
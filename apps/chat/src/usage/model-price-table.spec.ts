@@ -0,0 +1,45 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ModelPriceTable } from "./model-price-table";
+
+describe("ModelPriceTable", () => {
+  let dir: string;
+
+  const tableWith = (content: string) => {
+    process.env.MODEL_PRICES_PATH = join(dir, "prices.json");
+    writeFileSync(process.env.MODEL_PRICES_PATH, content);
+    return new ModelPriceTable();
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "model-prices-"));
+  });
+
+  afterEach(() => {
+    delete process.env.MODEL_PRICES_PATH;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should merge the configured prices over the defaults at init", () => {
+    const table = tableWith(JSON.stringify({ "gpt-4o": { input: 5, output: 20 }, "in-house": { input: 1, output: 1, cached: 0.5 } }));
+    table.onModuleInit();
+
+    expect(table.cost("gpt-4o", { input: 1_000_000, output: 0, cached: 0 })).toBe(5);
+    expect(table.cost("in-house", { input: 1_000_000, output: 0, cached: 1_000_000 })).toBe(0.5);
+    expect(table.cost("gpt-4o-mini", { input: 1_000_000, output: 0, cached: 0 })).toBe(0.15);
+    expect(table.cost("unknown", { input: 10, output: 10, cached: 0 })).toBeNull();
+  });
+
+  it("should fail at init when the price file is not valid JSON", () => {
+    const table = tableWith("{ not json");
+
+    expect(() => table.onModuleInit()).toThrow(/Invalid MODEL_PRICES_PATH file/);
+  });
+
+  it("should fail at init when a model price is missing or negative", () => {
+    expect(() => tableWith(JSON.stringify({ "gpt-4o": { input: "2.5", output: 10 } })).onModuleInit()).toThrow('model "gpt-4o"');
+    expect(() => tableWith(JSON.stringify({ "gpt-4o": { input: 2.5, output: -1 } })).onModuleInit()).toThrow('model "gpt-4o"');
+    expect(() => tableWith(JSON.stringify([{ input: 1, output: 1 }])).onModuleInit()).toThrow("expected an object of model prices");
+  });
+});
@@ -0,0 +1,83 @@
+import { Injectable, OnModuleInit } from "@nestjs/common";
+import { readFileSync } from "node:fs";
+
+/** Prix d'un modèle en USD par million de tokens ; les tokens en cache sont facturés au prix d'entrée sans `cached` */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cached?: number;
+}
+
+export interface ModelTokenCounts {
+  input: number;
+  output: number;
+  cached: number;
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  echo: { input: 0, output: 0 },
+  "gpt-4o": { input: 2.5, output: 10, cached: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cached: 0.075 },
+  "gpt-4.1": { input: 2, output: 8, cached: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cached: 0.1 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+/** Estimation grossière (≈ 4 caractères par token) pour les fournisseurs qui ne renvoient pas leur consommation */
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Table de prix des modèles : prix par défaut, complétés ou remplacés par le fichier JSON
+ * MODEL_PRICES_PATH (modèle → { input, output, cached? } en USD par million de tokens)
+ *
+ * Le fichier est lu et validé au démarrage du module : une configuration invalide empêche le service de démarrer.
+ */
+@Injectable()
+export class ModelPriceTable implements OnModuleInit {
+  private prices: Record<string, ModelPrice> = DEFAULT_MODEL_PRICES;
+
+  onModuleInit() {
+    const path = process.env.MODEL_PRICES_PATH;
+    if (path) {
+      this.prices = { ...DEFAULT_MODEL_PRICES, ...loadModelPrices(path) };
+    }
+  }
+
+  /** Coût en USD, ou null si le modèle n'a pas de prix */
+  cost(model: string | undefined, tokens: ModelTokenCounts): number | null {
+    const price = model ? this.prices[model] : undefined;
+    if (!price) return null;
+
+    const uncached = Math.max(tokens.input - tokens.cached, 0);
+    const total = uncached * price.input + tokens.cached * (price.cached ?? price.input) + tokens.output * price.output;
+    return Math.round(total) / 1_000_000;
+  }
+}
+
+/**
+ * Lit le fichier de prix et vérifie que chaque modèle a des prix `input`/`output` (et `cached` éventuel) positifs
+ * @throws Error Si le fichier est illisible, n'est pas du JSON ou contient un prix invalide
+ */
+function loadModelPrices(path: string): Record<string, ModelPrice> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    throw new Error(`Invalid MODEL_PRICES_PATH file "${path}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`Invalid MODEL_PRICES_PATH file "${path}": expected an object of model prices`);
+  }
+
+  const isPrice = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    const { input, output, cached } = (price ?? {}) as Record<string, unknown>;
+    if (!isPrice(input) || !isPrice(output) || (cached !== undefined && !isPrice(cached))) {
+      throw new Error(`Invalid MODEL_PRICES_PATH file "${path}": model "${model}" needs non-negative numeric input, output and optional cached prices`);
+    }
+  }
+  return parsed as Record<string, ModelPrice>;
+}
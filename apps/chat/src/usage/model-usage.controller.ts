@@ -0,0 +1,54 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { ModelUsageGroupBy, ModelUsageReportDto, WorkspaceTokenQuotaDto } from "@shared/types";
+import { ModelUsageService } from "./model-usage.service";
+
+@Controller()
+export class ModelUsageController {
+  constructor(
+    private readonly modelUsageService: ModelUsageService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("ModelUsage", "Report")
+  async report(data: {
+    user_id: string;
+    workspace_id: string;
+    group_by: string;
+    from_date?: string;
+    to_date?: string;
+    project_id?: number;
+    agent_id?: string;
+    filter_user_id?: string;
+    source?: string;
+  }): Promise<ModelUsageReportDto> {
+    return this.modelUsageService.report(data.workspace_id, data.user_id, {
+      group_by: data.group_by as ModelUsageGroupBy,
+      from_date: data.from_date || undefined,
+      to_date: data.to_date || undefined,
+      project_id: data.project_id ?? undefined,
+      agent_id: data.agent_id ? Number(data.agent_id) : undefined,
+      user_id: data.filter_user_id || undefined,
+      source: data.source || undefined,
+    });
+  }
+
+  @GrpcMethod("ModelUsage", "GetQuota")
+  async getQuota(data: { user_id: string; workspace_id: string }): Promise<WorkspaceTokenQuotaDto> {
+    return this.modelUsageService.getQuota(data.workspace_id, data.user_id);
+  }
+
+  @GrpcMethod("ModelUsage", "SetQuota")
+  async setQuota(data: { user_id: string; workspace_id: string; monthly_token_quota?: number }): Promise<WorkspaceTokenQuotaDto> {
+    await this.logger.log({
+      level: "info",
+      service: "chat",
+      func: "model-usage.grpc.setQuota",
+      message: `gRPC SetQuota request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.modelUsageService.setQuota(data.workspace_id, data.user_id, { monthly_token_quota: data.monthly_token_quota ?? null });
+  }
+}
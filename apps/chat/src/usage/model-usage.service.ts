@@ -0,0 +1,381 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  CreateModelUsageDto,
+  MODEL_USAGE_REPORT_MAX_DAYS,
+  ModelUsageGroupBy,
+  ModelUsageReportDto,
+  ModelUsageReportQueryDto,
+  ModelUsageReportRowDto,
+  UpdateWorkspaceTokenQuotaDto,
+  WorkspaceTokenQuotaDto,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ModelPriceTable } from "./model-price-table";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REPORT_GROUP_COLUMNS = {
+  [ModelUsageGroupBy.AGENT]: "agent_id",
+  [ModelUsageGroupBy.USER]: "user_id",
+  [ModelUsageGroupBy.PROJECT]: "project_id",
+  [ModelUsageGroupBy.MODEL]: "model",
+} as const;
+
+type UsageTotals = Omit<ModelUsageReportRowDto, "key" | "label">;
+
+/**
+ * Service de mesure de la consommation des modèles (LLM et embeddings)
+ *
+ * - record: Enregistre un appel et son coût d'après la table de prix
+ * - assertQuota: Refuse un appel (RESOURCE_EXHAUSTED) quand le quota mensuel du workspace est atteint
+ * - report: Consommation d'un workspace par jour, agent, utilisateur, projet ou modèle
+ * - getQuota / setQuota: Quota mensuel de tokens d'un workspace
+ *
+ * Les mois et les jours sont calculés en UTC.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class ModelUsageService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly priceTable: ModelPriceTable,
+  ) {}
+
+  /**
+   * Enregistre la consommation d'un appel. Une erreur (calcul du coût ou enregistrement) est journalisée sans interrompre l'appelant.
+   *
+   * @param dto Tokens (user : entrée, model : sortie, cache : entrée en cache), modèle et rattachements
+   */
+  async record(dto: CreateModelUsageDto): Promise<void> {
+    const input = dto.user_token_count ?? 0;
+    const output = dto.model_token_count ?? 0;
+    const cached = dto.cache_token_count ?? 0;
+
+    try {
+      const cost = this.priceTable.cost(dto.model, { input, output, cached });
+      await this.prisma.model_usage.create({
+        data: {
+          user_token_count: input,
+          model_token_count: output,
+          cache_token_count: cached,
+          total_token_count: dto.total_token_count ?? input + output,
+          model: dto.model ?? null,
+          from: dto.from ?? null,
+          cost,
+          user_id: dto.user_id ?? null,
+          workspace_id: dto.workspace_id,
+          project_id: dto.project_id ?? null,
+          agent_id: dto.agent_id != null ? BigInt(dto.agent_id) : null,
+        },
+      });
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "error",
+        service: "chat",
+        func: "model-usage.record",
+        message: `Unable to record model usage: ${error instanceof Error ? error.message : String(error)}`,
+        data: { ...dto },
+      });
+    }
+  }
+
+  /**
+   * Vérifie qu'il reste des tokens au workspace pour le mois courant
+   *
+   * @param workspaceId ID du workspace
+   */
+  async assertQuota(workspaceId: string): Promise<void> {
+    const quota = await this.computeQuota(workspaceId);
+    if (quota.exceeded) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "chat",
+        func: "model-usage.assertQuota",
+        message: `Workspace ${workspaceId} exceeded its monthly token quota`,
+        data: { ...quota },
+      });
+      throw new RpcException({
+        code: status.RESOURCE_EXHAUSTED,
+        message: `Monthly token quota of ${quota.monthly_token_quota} tokens exceeded for this workspace (resets on ${quota.period_end.slice(0, 10)})`,
+      });
+    }
+  }
+
+  /**
+   * Rapport de consommation d'un workspace
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur (droit de lecture du workspace)
+   * @param query Regroupement, période et filtres
+   * @returns Lignes regroupées et totaux
+   */
+  async report(workspaceId: string, userId: string, query: ModelUsageReportQueryDto): Promise<ModelUsageReportDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "chat",
+      func: "model-usage.report",
+      message: `Building ${query?.group_by} model usage report for workspace ${workspaceId}`,
+      data: { workspaceId, userId, query },
+    });
+
+    if (!query?.group_by || !Object.values(ModelUsageGroupBy).includes(query.group_by)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid group_by "${query?.group_by}"` });
+    }
+    const { from, to } = this.resolvePeriod(query.from_date, query.to_date);
+
+    try {
+      await this.assertRight(workspaceId, userId, "get");
+
+      const where: Prisma.model_usageWhereInput = {
+        workspace_id: workspaceId,
+        created_at: { gte: from, lt: new Date(to.getTime() + DAY_MS) },
+        project_id: query.project_id ?? undefined,
+        agent_id: query.agent_id != null ? BigInt(query.agent_id) : undefined,
+        user_id: query.user_id || undefined,
+        from: query.source || undefined,
+      };
+
+      const rows = query.group_by === ModelUsageGroupBy.DAY ? await this.reportByDay(where, from, to) : await this.reportByColumn(where, query.group_by);
+      const totals = rows.reduce<UsageTotals>((sum, row) => this.addTotals(sum, row), this.emptyTotals());
+
+      return {
+        workspace_id: workspaceId,
+        group_by: query.group_by,
+        from_date: this.toDay(from),
+        to_date: this.toDay(to),
+        rows,
+        totals: { key: null, label: null, ...totals },
+      };
+    } catch (error) {
+      throw await this.handleError(error, "model-usage.report", { workspaceId, userId, query }, "Unable to build the model usage report");
+    }
+  }
+
+  /**
+   * Quota mensuel et consommation du mois courant
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur (droit de lecture du workspace)
+   */
+  async getQuota(workspaceId: string, userId: string): Promise<WorkspaceTokenQuotaDto> {
+    try {
+      await this.assertRight(workspaceId, userId, "get");
+      return await this.computeQuota(workspaceId);
+    } catch (error) {
+      throw await this.handleError(error, "model-usage.getQuota", { workspaceId, userId }, "Unable to get the token quota");
+    }
+  }
+
+  /**
+   * Modifie le quota mensuel de tokens d'un workspace
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur (droit de modification du workspace)
+   * @param dto Quota (null : illimité)
+   */
+  async setQuota(workspaceId: string, userId: string, dto: UpdateWorkspaceTokenQuotaDto): Promise<WorkspaceTokenQuotaDto> {
+    const quota = dto?.monthly_token_quota ?? null;
+    if (quota !== null && (!Number.isInteger(quota) || quota < 0)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Monthly token quota must be a positive integer or null" });
+    }
+
+    try {
+      await this.assertRight(workspaceId, userId, "update");
+      await this.prisma.workspace_settings.upsert({
+        where: { workspace_id: workspaceId },
+        create: { workspace_id: workspaceId, monthly_token_quota: quota, created_by: userId },
+        update: { monthly_token_quota: quota, updated_by: userId, updated_at: new Date() },
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "chat",
+        func: "model-usage.setQuota",
+        message: `Monthly token quota of workspace ${workspaceId} set to ${quota ?? "unlimited"}`,
+        data: { workspaceId, userId, quota },
+      });
+
+      return await this.computeQuota(workspaceId);
+    } catch (error) {
+      throw await this.handleError(error, "model-usage.setQuota", { workspaceId, userId, quota }, "Unable to update the token quota");
+    }
+  }
+
+  private async computeQuota(workspaceId: string): Promise<WorkspaceTokenQuotaDto> {
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const periodEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    const [settings, usage] = await Promise.all([
+      this.prisma.workspace_settings.findUnique({ where: { workspace_id: workspaceId }, select: { monthly_token_quota: true } }),
+      this.prisma.model_usage.aggregate({ where: { workspace_id: workspaceId, created_at: { gte: periodStart, lt: periodEnd } }, _sum: { total_token_count: true } }),
+    ]);
+    const quota = settings?.monthly_token_quota ?? null;
+    const used = usage._sum.total_token_count ?? 0;
+
+    return {
+      workspace_id: workspaceId,
+      monthly_token_quota: quota,
+      used_tokens: used,
+      remaining_tokens: quota === null ? null : Math.max(quota - used, 0),
+      exceeded: quota !== null && used >= quota,
+      period_start: periodStart.toISOString(),
+      period_end: periodEnd.toISOString(),
+    };
+  }
+
+  /** Une ligne par jour de la période, jours sans appel compris */
+  private async reportByDay(where: Prisma.model_usageWhereInput, from: Date, to: Date): Promise<ModelUsageReportRowDto[]> {
+    const records = await this.prisma.model_usage.findMany({
+      where,
+      select: { created_at: true, user_token_count: true, model_token_count: true, cache_token_count: true, total_token_count: true, cost: true },
+    });
+
+    const days = new Map<string, UsageTotals>();
+    for (let day = from.getTime(); day <= to.getTime(); day += DAY_MS) {
+      days.set(this.toDay(new Date(day)), this.emptyTotals());
+    }
+    for (const record of records) {
+      const key = this.toDay(record.created_at);
+      days.set(
+        key,
+        this.addTotals(days.get(key) ?? this.emptyTotals(), {
+          requests: 1,
+          input_tokens: record.user_token_count ?? 0,
+          output_tokens: record.model_token_count ?? 0,
+          cached_tokens: record.cache_token_count ?? 0,
+          total_tokens: record.total_token_count ?? 0,
+          cost: record.cost != null ? Number(record.cost) : 0,
+          unpriced_requests: record.cost == null ? 1 : 0,
+        }),
+      );
+    }
+
+    return [...days.entries()].map(([key, totals]) => ({ key, label: key, ...totals }));
+  }
+
+  private async reportByColumn(where: Prisma.model_usageWhereInput, groupBy: Exclude<ModelUsageGroupBy, ModelUsageGroupBy.DAY>): Promise<ModelUsageReportRowDto[]> {
+    const column = REPORT_GROUP_COLUMNS[groupBy];
+    const sums = { user_token_count: true, model_token_count: true, cache_token_count: true, total_token_count: true, cost: true } as const;
+    const [groups, unpriced] = await Promise.all([
+      this.prisma.model_usage.groupBy({ by: [column], where, _count: { _all: true }, _sum: sums }),
+      this.prisma.model_usage.groupBy({ by: [column], where: { AND: [where, { cost: null }] }, _count: { _all: true } }),
+    ]);
+
+    const keyOf = (group: Record<string, unknown>): string | null => (group[column] != null ? String(group[column] as string | number | bigint) : null);
+    const unpricedByKey = new Map(unpriced.map(group => [keyOf(group), group._count._all]));
+    const labels = await this.resolveLabels(
+      groupBy,
+      groups.map(group => keyOf(group)).filter((key): key is string => key !== null),
+    );
+
+    return groups
+      .map(group => {
+        const key = keyOf(group);
+        return {
+          key,
+          label: key !== null ? (labels.get(key) ?? key) : null,
+          requests: group._count._all,
+          input_tokens: group._sum.user_token_count ?? 0,
+          output_tokens: group._sum.model_token_count ?? 0,
+          cached_tokens: group._sum.cache_token_count ?? 0,
+          total_tokens: group._sum.total_token_count ?? 0,
+          cost: group._sum.cost != null ? Number(group._sum.cost) : 0,
+          unpriced_requests: unpricedByKey.get(key) ?? 0,
+        };
+      })
+      .sort((a, b) => b.total_tokens - a.total_tokens);
+  }
+
+  /** Libellés lisibles des clés d'un regroupement (agent « nom vN », nom d'utilisateur, nom de projet) */
+  private async resolveLabels(groupBy: ModelUsageGroupBy, keys: string[]): Promise<Map<string, string>> {
+    if (keys.length === 0) return new Map();
+    switch (groupBy) {
+      case ModelUsageGroupBy.AGENT: {
+        const agents = await this.prisma.agent.findMany({ where: { id: { in: keys.map(key => BigInt(key)) } }, select: { id: true, display_name: true, version: true } });
+        return new Map(agents.map(agent => [String(agent.id), `${agent.display_name} v${agent.version}`]));
+      }
+      case ModelUsageGroupBy.USER: {
+        const profiles = await this.prisma.profiles.findMany({ where: { user_id: { in: keys } }, select: { user_id: true, username: true } });
+        return new Map(profiles.map(profile => [profile.user_id, profile.username]));
+      }
+      case ModelUsageGroupBy.PROJECT: {
+        const projects = await this.prisma.projects.findMany({ where: { id: { in: keys.map(Number) } }, select: { id: true, name: true } });
+        return new Map(projects.map(project => [String(project.id), project.name]));
+      }
+      default:
+        return new Map();
+    }
+  }
+
+  /** Période par défaut : du 1er du mois courant à aujourd'hui ; bornes incluses, en jours UTC */
+  private resolvePeriod(fromDate?: string, toDate?: string): { from: Date; to: Date } {
+    const today = new Date(`${this.toDay(new Date())}T00:00:00.000Z`);
+    const to = toDate ? new Date(`${toDate.slice(0, 10)}T00:00:00.000Z`) : today;
+    const from = fromDate ? new Date(`${fromDate.slice(0, 10)}T00:00:00.000Z`) : new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), 1));
+
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "from_date and to_date must be ISO 8601 dates" });
+    }
+    if (from > to) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "from_date must be before to_date" });
+    }
+    if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MODEL_USAGE_REPORT_MAX_DAYS) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `A report cannot cover more than ${MODEL_USAGE_REPORT_MAX_DAYS} days` });
+    }
+    return { from, to };
+  }
+
+  private emptyTotals(): UsageTotals {
+    return { requests: 0, input_tokens: 0, output_tokens: 0, cached_tokens: 0, total_tokens: 0, cost: 0, unpriced_requests: 0 };
+  }
+
+  private addTotals(sum: UsageTotals, row: UsageTotals): UsageTotals {
+    return {
+      requests: sum.requests + row.requests,
+      input_tokens: sum.input_tokens + row.input_tokens,
+      output_tokens: sum.output_tokens + row.output_tokens,
+      cached_tokens: sum.cached_tokens + row.cached_tokens,
+      total_tokens: sum.total_tokens + row.total_tokens,
+      cost: Math.round((sum.cost + row.cost) * 1_000_000) / 1_000_000,
+      unpriced_requests: sum.unpriced_requests + row.unpriced_requests,
+    };
+  }
+
+  private toDay(date: Date): string {
+    return date.toISOString().slice(0, 10);
+  }
+
+  private async assertRight(workspaceId: string, userId: string, action: "get" | "update"): Promise<void> {
+    if (!workspaceId?.trim() || !userId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Workspace ID and user ID are required" });
+    }
+    const allowed = await this.workspaceMembersService.hasRight(workspaceId, userId, action, "workspace");
+    if (!allowed) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: `You don't have the right to ${action === "get" ? "view" : "manage"} this workspace's model usage` });
+    }
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "chat",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+}
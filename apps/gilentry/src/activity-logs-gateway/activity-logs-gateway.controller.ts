@@ -0,0 +1,108 @@
+import { applyDecorators, Controller, Get, Param, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { ActivityLogsGatewayService } from "libs/shared/utils/src/client/activity-log/activity-logs.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { ActivityAction, ActivityEntityType, ActivityLogFilterDto, ActivityLogsListDto, ActivityLogStatsDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+/**
+ * Décorateur regroupant les paramètres de filtrage communs aux routes du journal d'activité
+ */
+const ApiActivityFilterQuery = () =>
+  applyDecorators(
+    ApiQuery({ name: "start_date", required: false, schema: { type: "string", format: "date-time", nullable: true } }),
+    ApiQuery({ name: "end_date", required: false, schema: { type: "string", format: "date-time", nullable: true } }),
+    ApiQuery({ name: "action", required: false, schema: { type: "string", enum: Object.values(ActivityAction), nullable: true } }),
+    ApiQuery({ name: "entity_type", required: false, schema: { type: "string", enum: Object.values(ActivityEntityType), nullable: true } }),
+    ApiQuery({ name: "entity_id", required: false, schema: { type: "integer", nullable: true } }),
+    ApiQuery({ name: "entity_uuid", required: false, schema: { type: "string", format: "uuid", nullable: true } }),
+    ApiQuery({ name: "user_id", required: false, schema: { type: "string", format: "uuid", nullable: true } }),
+    ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } }),
+    ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, maximum: 100, default: 25, nullable: true } }),
+  );
+
+@ApiTags("Activity Logs")
+@ApiBearerAuth()
+@Controller("activity")
+export class ActivityLogsGatewayController {
+  constructor(private readonly activityLogs: ActivityLogsGatewayService) {}
+
+  @Get("tickets/:ticketId")
+  @Auth()
+  @ApiOperation({ summary: "Get the audit trail of a ticket" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogsListDto })
+  async listByTicket(@CurrentUser() user: AuthenticatedUser, @Param("ticketId") ticketId: string, @Query() query: Record<string, string>): Promise<ActivityLogsListDto> {
+    const result = await this.activityLogs.search(user.user_id, { ticket_id: Number(ticketId) }, this.parseFilter(query));
+    return normalizeObject(result) as ActivityLogsListDto;
+  }
+
+  @Get("projects/:projectId")
+  @Auth()
+  @ApiOperation({ summary: "Get the audit trail of a project" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogsListDto })
+  async listByProject(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<ActivityLogsListDto> {
+    const result = await this.activityLogs.search(user.user_id, { project_id: Number(projectId) }, this.parseFilter(query));
+    return normalizeObject(result) as ActivityLogsListDto;
+  }
+
+  @Get("projects/:projectId/stats")
+  @Auth()
+  @ApiOperation({ summary: "Get activity statistics of a project" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogStatsDto })
+  async statsByProject(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<ActivityLogStatsDto> {
+    return await this.activityLogs.getStats(user.user_id, { project_id: Number(projectId) }, this.parseFilter(query));
+  }
+
+  @Get("workspaces/:workspaceId")
+  @Auth()
+  @ApiOperation({ summary: "Get the audit trail of a workspace" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogsListDto })
+  async listByWorkspace(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Query() query: Record<string, string>): Promise<ActivityLogsListDto> {
+    const result = await this.activityLogs.search(user.user_id, { workspace_id: workspaceId }, this.parseFilter(query));
+    return normalizeObject(result) as ActivityLogsListDto;
+  }
+
+  @Get("workspaces/:workspaceId/stats")
+  @Auth()
+  @ApiOperation({ summary: "Get activity statistics of a workspace" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogStatsDto })
+  async statsByWorkspace(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Query() query: Record<string, string>): Promise<ActivityLogStatsDto> {
+    return await this.activityLogs.getStats(user.user_id, { workspace_id: workspaceId }, this.parseFilter(query));
+  }
+
+  @Get("users/:userId")
+  @Auth()
+  @ApiOperation({ summary: "Get the activity of a user (use 'me' for the current user)" })
+  @ApiParam({ name: "userId", description: "User ID or 'me'" })
+  @ApiActivityFilterQuery()
+  @ApiOkResponse({ type: ActivityLogsListDto })
+  async listByUser(@CurrentUser() user: AuthenticatedUser, @Param("userId") userId: string, @Query() query: Record<string, string>): Promise<ActivityLogsListDto> {
+    const targetUserId = userId === "me" ? user.user_id : userId;
+    const result = await this.activityLogs.search(user.user_id, { target_user_id: targetUserId }, this.parseFilter(query));
+    return normalizeObject(result) as ActivityLogsListDto;
+  }
+
+  private parseFilter(query: Record<string, string>): ActivityLogFilterDto {
+    const inSet = <T extends string>(v: string | undefined, allowed: readonly T[]) => (v && (allowed as readonly string[]).includes(v) ? (v as T) : undefined);
+
+    return {
+      start_date: !isNullish(query.start_date) ? query.start_date : undefined,
+      end_date: !isNullish(query.end_date) ? query.end_date : undefined,
+      action: inSet(query.action, Object.values(ActivityAction)),
+      entity_type: inSet(query.entity_type, Object.values(ActivityEntityType)),
+      entity_id: !isNullish(query.entity_id) ? Number(query.entity_id) : undefined,
+      entity_uuid: !isNullish(query.entity_uuid) ? query.entity_uuid : undefined,
+      user_id: !isNullish(query.user_id) ? query.user_id : undefined,
+      skip: !isNullish(query.skip) ? Number(query.skip) : undefined,
+      take: !isNullish(query.take) ? Math.min(Number(query.take), 100) : undefined,
+    };
+  }
+}
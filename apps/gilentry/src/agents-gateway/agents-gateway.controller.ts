@@ -0,0 +1,181 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { AgentsGatewayService } from "libs/shared/utils/src/client/agent/agents.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import {
+  AgentDto,
+  AgentListDto,
+  AgentPromptDto,
+  AgentPromptListDto,
+  AgentStatus,
+  AgentType,
+  ComposedPromptDto,
+  CreateAgentDto,
+  CreateAgentPromptDto,
+  PromptRoleType,
+  UpdateAgentDto,
+  UpdateAgentPromptDto,
+} from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+@ApiTags("Agents")
+@ApiBearerAuth()
+@Controller("workspaces/:workspaceId/agents")
+export class AgentsGatewayController {
+  constructor(private readonly agents: AgentsGatewayService) {}
+
+  @Post()
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Register an agent (first DRAFT version, super administrators only)" })
+  @ApiBody({ type: CreateAgentDto })
+  @ApiOkResponse({ type: AgentDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Body() body: CreateAgentDto): Promise<AgentDto> {
+    const agent = await this.agents.create(user.user_id, workspaceId, body);
+    return normalizeObject(agent) as AgentDto;
+  }
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "List agent versions" })
+  @ApiQuery({ name: "agent_type", required: false, schema: { type: "string", enum: Object.values(AgentType), nullable: true } })
+  @ApiQuery({ name: "status", required: false, schema: { type: "string", enum: Object.values(AgentStatus), nullable: true } })
+  @ApiQuery({ name: "agent_name_code", required: false, schema: { type: "string", nullable: true } })
+  @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
+  @ApiOkResponse({ type: AgentListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query("agent_type") agentType?: string,
+    @Query("status") status?: string,
+    @Query("agent_name_code") agentNameCode?: string,
+    @Query("search") search?: string,
+    @Query("skip") skip?: string,
+    @Query("take") take?: string,
+  ): Promise<AgentListDto> {
+    const result = await this.agents.list(
+      user.user_id,
+      workspaceId,
+      {
+        agent_type: !isNullish(agentType) ? (agentType?.toUpperCase() as AgentType) : undefined,
+        status: !isNullish(status) ? (status?.toUpperCase() as AgentStatus) : undefined,
+        agent_name_code: !isNullish(agentNameCode) ? agentNameCode?.toUpperCase() : undefined,
+        search: !isNullish(search) ? search : undefined,
+      },
+      !isNullish(skip) ? Number(skip) : undefined,
+      !isNullish(take) ? Number(take) : undefined,
+    );
+    return normalizeObject(result) as AgentListDto;
+  }
+
+  @Get(":id")
+  @Auth()
+  @ApiOperation({ summary: "Get an agent version with its SYSTEM prompts and the workspace overrides" })
+  @ApiOkResponse({ type: AgentDto })
+  async get(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string): Promise<AgentDto> {
+    const agent = await this.agents.findById(Number(id), user.user_id, workspaceId);
+    return normalizeObject(agent) as AgentDto;
+  }
+
+  @Put(":id")
+  @Auth()
+  @ApiOperation({ summary: "Edit a DRAFT version, or move it along DRAFT → ACTIVE → DEPRECATED → ARCHIVED (super administrators only)" })
+  @ApiBody({ type: UpdateAgentDto })
+  @ApiOkResponse({ type: AgentDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string, @Body() body: UpdateAgentDto): Promise<AgentDto> {
+    const agent = await this.agents.update(Number(id), body, user.user_id, workspaceId);
+    return normalizeObject(agent) as AgentDto;
+  }
+
+  @Delete(":id")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a DRAFT version, published versions are archived instead (super administrators only)" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string) {
+    await this.agents.remove(Number(id), user.user_id, workspaceId);
+  }
+
+  @Post(":id/versions")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Create the next DRAFT version of an agent from this version (super administrators only)" })
+  @ApiOkResponse({ type: AgentDto })
+  async createVersion(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string): Promise<AgentDto> {
+    const agent = await this.agents.createVersion(Number(id), user.user_id, workspaceId);
+    return normalizeObject(agent) as AgentDto;
+  }
+
+  @Get(":id/prompts")
+  @Auth()
+  @ApiOperation({ summary: "List the SYSTEM prompts of an agent version and the workspace overrides" })
+  @ApiQuery({ name: "role_type", required: false, schema: { type: "string", enum: Object.values(PromptRoleType), nullable: true } })
+  @ApiOkResponse({ type: AgentPromptListDto })
+  async listPrompts(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Param("id") id: string,
+    @Query("role_type") roleType?: string,
+  ): Promise<AgentPromptListDto> {
+    const result = await this.agents.listPrompts(Number(id), user.user_id, workspaceId, !isNullish(roleType) ? (roleType?.toUpperCase() as PromptRoleType) : undefined);
+    return normalizeObject(result) as AgentPromptListDto;
+  }
+
+  @Post(":id/prompts")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Add a SYSTEM prompt to a DRAFT version, or override an updatable SYSTEM prompt for the workspace" })
+  @ApiBody({ type: CreateAgentPromptDto })
+  @ApiOkResponse({ type: AgentPromptDto })
+  async createPrompt(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Param("id") id: string,
+    @Body() body: CreateAgentPromptDto,
+  ): Promise<AgentPromptDto> {
+    const prompt = await this.agents.createPrompt(Number(id), body, user.user_id, workspaceId);
+    return normalizeObject(prompt) as AgentPromptDto;
+  }
+
+  @Put("prompts/:promptId")
+  @Auth()
+  @ApiOperation({ summary: "Update a SYSTEM prompt of a DRAFT version, or a workspace override" })
+  @ApiBody({ type: UpdateAgentPromptDto })
+  @ApiOkResponse({ type: AgentPromptDto })
+  async updatePrompt(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Param("promptId") promptId: string,
+    @Body() body: UpdateAgentPromptDto,
+  ): Promise<AgentPromptDto> {
+    const prompt = await this.agents.updatePrompt(Number(promptId), body, user.user_id, workspaceId);
+    return normalizeObject(prompt) as AgentPromptDto;
+  }
+
+  @Delete("prompts/:promptId")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a workspace override, or a SYSTEM prompt of a DRAFT version" })
+  async removePrompt(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("promptId") promptId: string) {
+    await this.agents.removePrompt(Number(promptId), user.user_id, workspaceId);
+  }
+
+  @Get(":id/compose")
+  @Auth()
+  @ApiOperation({ summary: "Assemble the prompt of an agent version for a role, with the workspace overrides" })
+  @ApiQuery({ name: "role_type", required: true, schema: { type: "string", enum: Object.values(PromptRoleType) } })
+  @ApiOkResponse({ type: ComposedPromptDto })
+  async compose(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Param("id") id: string,
+    @Query("role_type") roleType: string,
+  ): Promise<ComposedPromptDto> {
+    const composed = await this.agents.compose({ agent_id: Number(id), role_type: roleType?.toUpperCase() as PromptRoleType }, user.user_id, workspaceId);
+    return normalizeObject(composed) as ComposedPromptDto;
+  }
+}
@@ -0,0 +1,182 @@
+import { applyDecorators, Controller, Get, Param, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { AnalyticsGatewayService } from "libs/shared/utils/src/client/analytics/analytics.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import {
+  AnalyticsFilterDto,
+  AnalyticsScope,
+  AssigneeLoadReportDto,
+  CycleTimeReportDto,
+  EstimateAccuracyReportDto,
+  Granularity,
+  ThroughputReportDto,
+  VelocityReportDto,
+  WipReportDto,
+} from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+/**
+ * Décorateur regroupant les paramètres de filtrage communs aux rapports d'analyse
+ */
+const ApiAnalyticsFilterQuery = () =>
+  applyDecorators(
+    ApiQuery({ name: "from", required: false, schema: { type: "string", format: "date", nullable: true } }),
+    ApiQuery({ name: "to", required: false, schema: { type: "string", format: "date", nullable: true } }),
+    ApiQuery({ name: "granularity", required: false, schema: { type: "string", enum: Object.values(Granularity), nullable: true } }),
+    ApiQuery({ name: "sprints", required: false, schema: { type: "integer", minimum: 1, maximum: 50, default: 5, nullable: true } }),
+  );
+
+@ApiTags("Analytics")
+@ApiBearerAuth()
+@Controller()
+export class AnalyticsGatewayController {
+  constructor(private readonly analytics: AnalyticsGatewayService) {}
+
+  @Get("projects/:projectId/analytics/cycle-time")
+  @Auth()
+  @ApiOperation({ summary: "Get lead and cycle times of a project" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: CycleTimeReportDto })
+  async projectCycleTime(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<CycleTimeReportDto> {
+    const result = await this.analytics.getCycleTime({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as CycleTimeReportDto;
+  }
+
+  @Get("projects/:projectId/analytics/throughput")
+  @Auth()
+  @ApiOperation({ summary: "Get completed tickets and story points per period of a project" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: ThroughputReportDto })
+  async projectThroughput(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<ThroughputReportDto> {
+    const result = await this.analytics.getThroughput({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as ThroughputReportDto;
+  }
+
+  @Get("projects/:projectId/analytics/wip")
+  @Auth()
+  @ApiOperation({ summary: "Get work in progress by status of a project" })
+  @ApiOkResponse({ type: WipReportDto })
+  async projectWip(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string): Promise<WipReportDto> {
+    const result = await this.analytics.getWip({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id);
+    return normalizeObject(result) as WipReportDto;
+  }
+
+  @Get("projects/:projectId/analytics/velocity")
+  @Auth()
+  @ApiOperation({ summary: "Get the velocity of the last completed sprints of a project" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: VelocityReportDto })
+  async projectVelocity(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<VelocityReportDto> {
+    const result = await this.analytics.getVelocity({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as VelocityReportDto;
+  }
+
+  @Get("projects/:projectId/analytics/estimate-accuracy")
+  @Auth()
+  @ApiOperation({ summary: "Compare estimated and actual hours of completed tickets of a project" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: EstimateAccuracyReportDto })
+  async projectEstimateAccuracy(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Query() query: Record<string, string>,
+  ): Promise<EstimateAccuracyReportDto> {
+    const result = await this.analytics.getEstimateAccuracy({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as EstimateAccuracyReportDto;
+  }
+
+  @Get("projects/:projectId/analytics/assignee-load")
+  @Auth()
+  @ApiOperation({ summary: "Get the workload per assignee of a project" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: AssigneeLoadReportDto })
+  async projectAssigneeLoad(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<AssigneeLoadReportDto> {
+    const result = await this.analytics.getAssigneeLoad({ scope: AnalyticsScope.PROJECT, id: Number(projectId) }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as AssigneeLoadReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/cycle-time")
+  @Auth()
+  @ApiOperation({ summary: "Get lead and cycle times of a workspace" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: CycleTimeReportDto })
+  async workspaceCycleTime(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Query() query: Record<string, string>): Promise<CycleTimeReportDto> {
+    const result = await this.analytics.getCycleTime({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as CycleTimeReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/throughput")
+  @Auth()
+  @ApiOperation({ summary: "Get completed tickets and story points per period of a workspace" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: ThroughputReportDto })
+  async workspaceThroughput(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query() query: Record<string, string>,
+  ): Promise<ThroughputReportDto> {
+    const result = await this.analytics.getThroughput({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as ThroughputReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/wip")
+  @Auth()
+  @ApiOperation({ summary: "Get work in progress by status of a workspace" })
+  @ApiOkResponse({ type: WipReportDto })
+  async workspaceWip(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string): Promise<WipReportDto> {
+    const result = await this.analytics.getWip({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id);
+    return normalizeObject(result) as WipReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/velocity")
+  @Auth()
+  @ApiOperation({ summary: "Get the velocity of the last completed sprints of a workspace" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: VelocityReportDto })
+  async workspaceVelocity(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Query() query: Record<string, string>): Promise<VelocityReportDto> {
+    const result = await this.analytics.getVelocity({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as VelocityReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/estimate-accuracy")
+  @Auth()
+  @ApiOperation({ summary: "Compare estimated and actual hours of completed tickets of a workspace" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: EstimateAccuracyReportDto })
+  async workspaceEstimateAccuracy(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query() query: Record<string, string>,
+  ): Promise<EstimateAccuracyReportDto> {
+    const result = await this.analytics.getEstimateAccuracy({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as EstimateAccuracyReportDto;
+  }
+
+  @Get("workspaces/:workspaceId/analytics/assignee-load")
+  @Auth()
+  @ApiOperation({ summary: "Get the workload per assignee of a workspace" })
+  @ApiAnalyticsFilterQuery()
+  @ApiOkResponse({ type: AssigneeLoadReportDto })
+  async workspaceAssigneeLoad(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query() query: Record<string, string>,
+  ): Promise<AssigneeLoadReportDto> {
+    const result = await this.analytics.getAssigneeLoad({ scope: AnalyticsScope.WORKSPACE, id: workspaceId }, user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as AssigneeLoadReportDto;
+  }
+
+  private parseFilter(query: Record<string, string>): AnalyticsFilterDto {
+    const inSet = <T extends string>(v: string | undefined, allowed: readonly T[]) => (v && (allowed as readonly string[]).includes(v) ? (v as T) : undefined);
+
+    return {
+      from: !isNullish(query.from) ? query.from : undefined,
+      to: !isNullish(query.to) ? query.to : undefined,
+      granularity: inSet(query.granularity?.toUpperCase(), Object.values(Granularity)),
+      sprints: !isNullish(query.sprints) ? Math.min(Number(query.sprints), 50) : undefined,
+    };
+  }
+}
@@ -0,0 +1,132 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query, Res } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiProduces, ApiQuery, ApiTags } from "@nestjs/swagger";
+import type { Response } from "express";
+import { ChatsGatewayService } from "libs/shared/utils/src/client/chat/chats.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { ChatDto, ChatListDto, ChatStreamEventDto, CreateChatDto, MessageListDto, SendMessageDto, UpdateChatDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+@ApiTags("Chats")
+@ApiBearerAuth()
+@Controller()
+export class ChatsGatewayController {
+  constructor(private readonly chats: ChatsGatewayService) {}
+
+  @Post("projects/:projectId/chats")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Open a chat with the assistant in a project" })
+  @ApiBody({ type: CreateChatDto })
+  @ApiOkResponse({ type: ChatDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: CreateChatDto): Promise<ChatDto> {
+    const chat = await this.chats.create(user.user_id, { ...body, projectId: Number(projectId) });
+    return normalizeObject(chat) as ChatDto;
+  }
+
+  @Get("projects/:projectId/chats")
+  @Auth()
+  @ApiOperation({ summary: "List my chats in a project, most recently active first" })
+  @ApiQuery({ name: "search", required: false, description: "Search in titles" })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, nullable: true } })
+  @ApiOkResponse({ type: ChatListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Query("search") search?: string,
+    @Query("skip") skip?: string,
+    @Query("take") take?: string,
+  ): Promise<ChatListDto> {
+    const list = await this.chats.list(
+      user.user_id,
+      Number(projectId),
+      isNullish(search) ? undefined : search,
+      isNullish(skip) ? undefined : Number(skip),
+      isNullish(take) ? undefined : Number(take),
+    );
+    return normalizeObject(list) as ChatListDto;
+  }
+
+  @Get("chats/:id")
+  @Auth()
+  @ApiOperation({ summary: "Get one of my chats" })
+  @ApiOkResponse({ type: ChatDto })
+  async findById(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string): Promise<ChatDto> {
+    const chat = await this.chats.findById(user.user_id, Number(id));
+    return normalizeObject(chat) as ChatDto;
+  }
+
+  @Put("chats/:id")
+  @Auth()
+  @ApiOperation({ summary: "Rename a chat or replace its metadata" })
+  @ApiBody({ type: UpdateChatDto })
+  @ApiOkResponse({ type: ChatDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string, @Body() body: UpdateChatDto): Promise<ChatDto> {
+    const chat = await this.chats.update(user.user_id, Number(id), body);
+    return normalizeObject(chat) as ChatDto;
+  }
+
+  @Delete("chats/:id")
+  @Auth()
+  @ApiOperation({ summary: "Delete a chat and its messages" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string): Promise<{ success: boolean }> {
+    return { success: await this.chats.remove(user.user_id, Number(id)) };
+  }
+
+  @Get("chats/:id/messages")
+  @Auth()
+  @ApiOperation({ summary: "Chat history: the first page holds the latest messages, each page in chronological order" })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, nullable: true } })
+  @ApiOkResponse({ type: MessageListDto })
+  async listMessages(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string, @Query("skip") skip?: string, @Query("take") take?: string): Promise<MessageListDto> {
+    const list = await this.chats.listMessages(user.user_id, Number(id), isNullish(skip) ? undefined : Number(skip), isNullish(take) ? undefined : Number(take));
+    return normalizeObject(list) as MessageListDto;
+  }
+
+  /**
+   * Diffuse la réponse en Server-Sent Events (`event: <type>` puis `data: <ChatStreamEventDto>`).
+   * Une erreur avant le premier évènement (conversation introuvable, accès refusé…) reste une réponse HTTP d'erreur.
+   */
+  @Post("chats/:id/messages")
+  @Auth()
+  @ApiOperation({ summary: "Send a message and stream the assistant reply (USER_MESSAGE, TOKEN…, DONE or ERROR)" })
+  @ApiBody({ type: SendMessageDto })
+  @ApiProduces("text/event-stream")
+  @ApiOkResponse({ type: ChatStreamEventDto })
+  sendMessage(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string, @Body() body: SendMessageDto, @Res() res: Response): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const write = (event: ChatStreamEventDto) => {
+        if (!res.headersSent) {
+          res.status(200);
+          res.setHeader("Content-Type", "text/event-stream");
+          res.setHeader("Cache-Control", "no-cache");
+          res.setHeader("Connection", "keep-alive");
+          res.setHeader("X-Accel-Buffering", "no");
+          res.flushHeaders();
+          resolve();
+        }
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(normalizeObject(event))}\n\n`);
+      };
+
+      const subscription = this.chats.sendMessage(user.user_id, Number(id), body).subscribe({
+        next: write,
+        error: (error: Error & { details?: string }) => {
+          if (!res.headersSent) return reject(error);
+          res.write(`event: ERROR\ndata: ${JSON.stringify({ type: "ERROR", error: error.details ?? error.message })}\n\n`);
+          res.end();
+        },
+        complete: () => {
+          if (!res.headersSent) resolve();
+          res.end();
+        },
+      });
+
+      // Le client a fermé la connexion : on arrête de consommer le flux gRPC
+      res.on("close", () => subscription.unsubscribe());
+    });
+  }
+}
@@ -77,6 +77,8 @@ function mapGrpcCodeToHttpStatus(code: number): number {
       return HttpStatus.CONFLICT;
     case 3: // INVALID_ARGUMENT
       return HttpStatus.BAD_REQUEST;
+    case 8: // RESOURCE_EXHAUSTED
+      return HttpStatus.TOO_MANY_REQUESTS;
     case 13: // INTERNAL
       return HttpStatus.INTERNAL_SERVER_ERROR;
     default:
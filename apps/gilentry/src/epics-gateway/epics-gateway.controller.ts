@@ -20,6 +20,7 @@ export class EpicsGatewayController {
   @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
   @ApiQuery({ name: "_sort", required: false, schema: { type: "string", example: "created_at|updated_at|title|status|priority|progress", nullable: true } })
   @ApiQuery({ name: "_order", required: false, schema: { type: "string", example: "asc|desc", nullable: true } })
+  @ApiQuery({ name: "viewId", required: false, description: "Saved view applied to the search (query parameters take precedence)", schema: { type: "integer", nullable: true } })
   @ApiOkResponse({ type: EpicListDto })
   async list(
     @CurrentUser() user: AuthenticatedUser,
@@ -29,6 +30,7 @@ export class EpicsGatewayController {
     @Query("take") take?: string,
     @Query("_sort") sort?: string,
     @Query("_order") order?: string,
+    @Query("viewId") viewId?: string,
   ): Promise<EpicListDto> {
     const projectIdNum = Number(projectId);
     if (!projectId || Number.isNaN(projectIdNum)) {
@@ -49,6 +51,7 @@ export class EpicsGatewayController {
             },
           ]
         : undefined,
+      view_id: !isNullish(viewId) ? Number(viewId) : undefined,
     } as BaseSearchQueryDto;
 
     const result = await this.epics.search(user.user_id, projectIdNum, params);
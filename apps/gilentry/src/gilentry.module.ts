@@ -1,4 +1,4 @@
-import { Module } from "@nestjs/common";
+import { MiddlewareConsumer, Module, NestModule } from "@nestjs/common";
 import { AppController } from "./gilentry.controller";
 import { AppService } from "./gilentry.service";
 import { HealthModule } from "./health/health.module";
@@ -16,8 +16,11 @@ import { TeamMemberGatewayController } from "./teams-gateway/team-member-gateway
 import { ProfileGatewayController } from "./profile-gateway/profile.controller";
 import { SprintsGatewayController } from "./sprints-gateway/sprints-gateway.controller";
 import { TicketsGatewayController } from "./tickets-gateway/tickets-gateway.controller";
+import { BacklogGatewayController } from "./tickets-gateway/backlog-gateway.controller";
 import { WorkspaceGatewayController } from "./workspace-gateway/workspace.controller";
 import { WorkspaceMemberGatewayController } from "./workspace-gateway/workspace-member-gateway.controller";
+import { WorkspaceInvitationGatewayController } from "./workspace-gateway/workspace-invitation-gateway.controller";
+import { InvitationGatewayController } from "./workspace-gateway/invitation-gateway.controller";
 import { ProjectsGatewayController } from "./project-gateway/projects-gateway.controller";
 import { LabelGatewayController } from "./label-gateway/label-gateway.controller";
 import { EpicsGatewayController } from "./epics-gateway/epics-gateway.controller";
@@ -25,6 +28,31 @@ import { TasksGatewayController } from "./tasks-gateway/tasks-gateway.controller
 import { EpicsGatewayModule } from "libs/shared/utils/src/client/epic/epic-gateway.module";
 import { TasksGatewayModule } from "libs/shared/utils/src/client/task/tasks-gateway.module";
 import { LabelsGatewayModule } from "libs/shared/utils/src/client/workspace/label-gateway.module";
+import { TicketCommentsGatewayModule } from "libs/shared/utils/src/client/ticket-comment/ticket-comments-gateway.module";
+import { TicketCommentsGatewayController } from "./ticket-comments-gateway/ticket-comments-gateway.controller";
+import { ActivityLogsGatewayModule } from "libs/shared/utils/src/client/activity-log/activity-logs-gateway.module";
+import { ActivityLogsGatewayController } from "./activity-logs-gateway/activity-logs-gateway.controller";
+import { NotificationsGatewayModule } from "libs/shared/utils/src/client/notification/notifications-gateway.module";
+import { NotificationsGatewayController } from "./notifications-gateway/notifications-gateway.controller";
+import { StacksGatewayModule } from "libs/shared/utils/src/client/stack/stacks-gateway.module";
+import { StacksGatewayController } from "./stacks-gateway/stacks-gateway.controller";
+import { LanguagesGatewayModule } from "libs/shared/utils/src/client/language/languages-gateway.module";
+import { LanguagesGatewayController } from "./languages-gateway/languages-gateway.controller";
+import { TicketWorkflowsGatewayModule } from "libs/shared/utils/src/client/ticket-workflow/ticket-workflows-gateway.module";
+import { TicketWorkflowsGatewayController } from "./ticket-workflows-gateway/ticket-workflows-gateway.controller";
+import { AnalyticsGatewayModule } from "libs/shared/utils/src/client/analytics/analytics-gateway.module";
+import { AnalyticsGatewayController } from "./analytics-gateway/analytics-gateway.controller";
+import { WorklogsGatewayModule } from "libs/shared/utils/src/client/worklog/worklogs-gateway.module";
+import { WorklogsGatewayController } from "./worklogs-gateway/worklogs-gateway.controller";
+import { SavedViewsGatewayModule } from "libs/shared/utils/src/client/view/saved-views-gateway.module";
+import { SavedViewsGatewayController } from "./saved-views-gateway/saved-views-gateway.controller";
+import { AgentsGatewayModule } from "libs/shared/utils/src/client/agent/agents-gateway.module";
+import { AgentsGatewayController } from "./agents-gateway/agents-gateway.controller";
+import { ChatsGatewayModule } from "libs/shared/utils/src/client/chat/chats-gateway.module";
+import { ChatsGatewayController } from "./chats-gateway/chats-gateway.controller";
+import { ModelUsageGatewayModule } from "libs/shared/utils/src/client/model-usage/model-usage-gateway.module";
+import { ModelUsageGatewayController } from "./model-usage-gateway/model-usage-gateway.controller";
+import { RequestContextMiddleware } from "@shared/utils";
 
 @Module({
   imports: [
@@ -40,6 +68,18 @@ import { LabelsGatewayModule } from "libs/shared/utils/src/client/workspace/labe
     EpicsGatewayModule,
     TasksGatewayModule,
     LabelsGatewayModule,
+    TicketCommentsGatewayModule,
+    ActivityLogsGatewayModule,
+    NotificationsGatewayModule,
+    StacksGatewayModule,
+    LanguagesGatewayModule,
+    TicketWorkflowsGatewayModule,
+    AnalyticsGatewayModule,
+    WorklogsGatewayModule,
+    SavedViewsGatewayModule,
+    AgentsGatewayModule,
+    ChatsGatewayModule,
+    ModelUsageGatewayModule,
   ],
   controllers: [
     AppController,
@@ -47,14 +87,34 @@ import { LabelsGatewayModule } from "libs/shared/utils/src/client/workspace/labe
     TeamMemberGatewayController,
     WorkspaceGatewayController,
     WorkspaceMemberGatewayController,
+    WorkspaceInvitationGatewayController,
+    InvitationGatewayController,
     ProfileGatewayController,
     TicketsGatewayController,
+    BacklogGatewayController,
     SprintsGatewayController,
     ProjectsGatewayController,
     LabelGatewayController,
     EpicsGatewayController,
     TasksGatewayController,
+    TicketCommentsGatewayController,
+    ActivityLogsGatewayController,
+    NotificationsGatewayController,
+    StacksGatewayController,
+    LanguagesGatewayController,
+    TicketWorkflowsGatewayController,
+    AnalyticsGatewayController,
+    WorklogsGatewayController,
+    SavedViewsGatewayController,
+    AgentsGatewayController,
+    ChatsGatewayController,
+    ModelUsageGatewayController,
   ],
   providers: [AppService, GrpcToHttpExceptionFilter],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // Capture IP / user agent so they can be forwarded to the microservices (activity logs)
+    consumer.apply(RequestContextMiddleware).forRoutes("*");
+  }
+}
@@ -86,10 +86,11 @@ export class LabelGatewayController {
     @Query("skip") skip?: string,
     @Query("take") take?: string,
   ): Promise<LabelsListDto> {
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
     const params: BaseSearchQueryDto = {
       search: search ?? "",
       skip: skip ?? 0,
-      take: take ?? 10,
+      take: !isNullish(take) ? Number(take) : undefined,
       // Add workspace filter
       filters: [
         {
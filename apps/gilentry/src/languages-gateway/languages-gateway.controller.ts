@@ -0,0 +1,94 @@
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { LanguagesGatewayService } from "libs/shared/utils/src/client/language/languages.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import type { AuthenticatedUser } from "@shared/types";
+import { CreateLanguageDto, UpdateLanguageDto, LanguageDto, LanguageListDto, BaseSearchQueryDto, SortOrder } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+@ApiTags("Languages")
+@Controller("languages")
+export class LanguagesGatewayController {
+  constructor(private readonly languages: LanguagesGatewayService) {}
+
+  @Get()
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Search the languages catalogue" })
+  @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
+  @ApiQuery({ name: "_sort", required: false, schema: { type: "string", example: "name|created_at|updated_at", nullable: true } })
+  @ApiQuery({ name: "_order", required: false, schema: { type: "string", example: "asc|desc", nullable: true } })
+  @ApiOkResponse({ type: LanguageListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Query("search") search?: string,
+    @Query("skip") skip?: string,
+    @Query("take") take?: string,
+    @Query("_sort") sort?: string,
+    @Query("_order") order?: string,
+  ): Promise<LanguageListDto> {
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+    const params: BaseSearchQueryDto = {
+      search: !isNullish(search) ? search : undefined,
+      skip: !isNullish(skip) ? Number(skip) : undefined,
+      take: !isNullish(take) ? Number(take) : undefined,
+      sortBy: !isNullish(sort) ? { field: String(sort), order: order?.toUpperCase() === "DESC" ? SortOrder.DESC : SortOrder.ASC } : undefined,
+    } as BaseSearchQueryDto;
+
+    const result = await this.languages.search(user.user_id, params);
+    return normalizeObject(result) as LanguageListDto;
+  }
+
+  @Get(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a language by ID" })
+  @ApiOkResponse({ type: LanguageDto })
+  async get(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string): Promise<LanguageDto> {
+    const result = await this.languages.findById(user.user_id, this.parseId(id));
+    return normalizeObject(result) as LanguageDto;
+  }
+
+  @Post()
+  @Auth()
+  @ApiBearerAuth()
+  @HttpCode(201)
+  @ApiOperation({ summary: "Add a language to the catalogue (super administrators only)" })
+  @ApiBody({ type: CreateLanguageDto })
+  @ApiOkResponse({ type: LanguageDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Body() body: CreateLanguageDto) {
+    const result = await this.languages.create(user.user_id, body);
+    return normalizeObject(result) as LanguageDto;
+  }
+
+  @Put(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Update a language (super administrators only)" })
+  @ApiBody({ type: UpdateLanguageDto })
+  @ApiOkResponse({ type: LanguageDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string, @Body() body: UpdateLanguageDto) {
+    const result = await this.languages.update(user.user_id, this.parseId(id), body);
+    return normalizeObject(result) as LanguageDto;
+  }
+
+  @Delete(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a language that no stack uses (super administrators only)" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string) {
+    await this.languages.remove(user.user_id, this.parseId(id));
+  }
+
+  private parseId(id: string): number {
+    const languageId = Number(id);
+    if (Number.isNaN(languageId)) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    return languageId;
+  }
+}
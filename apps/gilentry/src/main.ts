@@ -1,10 +1,18 @@
 import { NestFactory } from "@nestjs/core";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { SwaggerModule, DocumentBuilder } from "@nestjs/swagger";
 import { AppModule } from "./gilentry.module";
 import { GrpcToHttpExceptionFilter } from "./common/filters/grpc-exception.filter";
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Only trust X-Forwarded-For from the reverse proxies listed in TRUSTED_PROXIES (comma-separated IPs or subnets)
+  const trustedProxies = (process.env.TRUSTED_PROXIES ?? "")
+    .split(",")
+    .map(proxy => proxy.trim())
+    .filter(Boolean);
+  app.set("trust proxy", trustedProxies.length ? trustedProxies : false);
 
   // Enable CORS for frontend requests
   app.enableCors({
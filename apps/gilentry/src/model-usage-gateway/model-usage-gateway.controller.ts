@@ -0,0 +1,69 @@
+import { Body, Controller, Get, Param, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { ModelUsageGatewayService } from "libs/shared/utils/src/client/model-usage/model-usage.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { ModelUsageGroupBy, ModelUsageReportDto, ModelUsageSource, UpdateWorkspaceTokenQuotaDto, WorkspaceTokenQuotaDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+@ApiTags("Model usage")
+@ApiBearerAuth()
+@Controller("workspaces/:workspaceId/usage")
+export class ModelUsageGatewayController {
+  constructor(private readonly modelUsage: ModelUsageGatewayService) {}
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "Token consumption and cost of the workspace, grouped by day, agent, user, project or model" })
+  @ApiQuery({ name: "group_by", required: false, schema: { type: "string", enum: Object.values(ModelUsageGroupBy), default: ModelUsageGroupBy.DAY } })
+  @ApiQuery({ name: "from_date", required: false, schema: { type: "string", format: "date", nullable: true }, description: "Defaults to the first day of the current month (UTC)" })
+  @ApiQuery({ name: "to_date", required: false, schema: { type: "string", format: "date", nullable: true }, description: "Defaults to today (UTC)" })
+  @ApiQuery({ name: "project_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiQuery({ name: "agent_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiQuery({ name: "user_id", required: false, schema: { type: "string", format: "uuid", nullable: true } })
+  @ApiQuery({ name: "source", required: false, schema: { type: "string", enum: Object.values(ModelUsageSource), nullable: true } })
+  @ApiOkResponse({ type: ModelUsageReportDto })
+  async report(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query("group_by") groupBy?: string,
+    @Query("from_date") fromDate?: string,
+    @Query("to_date") toDate?: string,
+    @Query("project_id") projectId?: string,
+    @Query("agent_id") agentId?: string,
+    @Query("user_id") userId?: string,
+    @Query("source") source?: string,
+  ): Promise<ModelUsageReportDto> {
+    const report = await this.modelUsage.report(user.user_id, workspaceId, {
+      group_by: !isNullish(groupBy) ? (groupBy?.toUpperCase() as ModelUsageGroupBy) : ModelUsageGroupBy.DAY,
+      from_date: !isNullish(fromDate) ? fromDate : undefined,
+      to_date: !isNullish(toDate) ? toDate : undefined,
+      project_id: !isNullish(projectId) ? Number(projectId) : undefined,
+      agent_id: !isNullish(agentId) ? Number(agentId) : undefined,
+      user_id: !isNullish(userId) ? userId : undefined,
+      source: !isNullish(source) ? source?.toLowerCase() : undefined,
+    });
+    return normalizeObject(report) as ModelUsageReportDto;
+  }
+
+  @Get("quota")
+  @Auth()
+  @ApiOperation({ summary: "Monthly token quota of the workspace and consumption of the current month" })
+  @ApiOkResponse({ type: WorkspaceTokenQuotaDto })
+  async getQuota(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string): Promise<WorkspaceTokenQuotaDto> {
+    const quota = await this.modelUsage.getQuota(user.user_id, workspaceId);
+    return normalizeObject(quota) as WorkspaceTokenQuotaDto;
+  }
+
+  @Put("quota")
+  @Auth()
+  @ApiOperation({ summary: "Set the monthly token quota of the workspace (null for unlimited)" })
+  @ApiBody({ type: UpdateWorkspaceTokenQuotaDto })
+  @ApiOkResponse({ type: WorkspaceTokenQuotaDto })
+  async setQuota(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Body() body: UpdateWorkspaceTokenQuotaDto): Promise<WorkspaceTokenQuotaDto> {
+    const quota = await this.modelUsage.setQuota(user.user_id, workspaceId, body.monthly_token_quota ?? null);
+    return normalizeObject(quota) as WorkspaceTokenQuotaDto;
+  }
+}
@@ -0,0 +1,73 @@
+import { Controller, Get, HttpCode, HttpStatus, Param, Patch, Post, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiParam, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { NotificationsGatewayService } from "libs/shared/utils/src/client/notification/notifications.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { DigestPeriod, NotificationDigestDto, NotificationDto, NotificationFilterDto, NotificationsListDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+@ApiTags("Notifications")
+@ApiBearerAuth()
+@Controller("notifications")
+export class NotificationsGatewayController {
+  constructor(private readonly notifications: NotificationsGatewayService) {}
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "List the in-app notifications of the current user" })
+  @ApiQuery({ name: "unread_only", required: false, schema: { type: "boolean", default: false } })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, maximum: 100, nullable: true } })
+  @ApiOkResponse({ type: NotificationsListDto })
+  async list(@CurrentUser() user: AuthenticatedUser, @Query() query: Record<string, string>): Promise<NotificationsListDto> {
+    const result = await this.notifications.search(user.user_id, this.parseFilter(query));
+    return normalizeObject(result) as NotificationsListDto;
+  }
+
+  @Get("unread-count")
+  @Auth()
+  @ApiOperation({ summary: "Count the unread in-app notifications of the current user" })
+  @ApiOkResponse({ schema: { type: "object", properties: { count: { type: "integer", example: 3 } } } })
+  async countUnread(@CurrentUser() user: AuthenticatedUser): Promise<{ count: number }> {
+    return await this.notifications.countUnread(user.user_id);
+  }
+
+  @Get("digest/preview")
+  @Auth()
+  @ApiOperation({ summary: "Preview the digest of the current user for the current period, without sending it" })
+  @ApiQuery({ name: "period", required: false, schema: { type: "string", enum: Object.values(DigestPeriod), default: DigestPeriod.DAILY } })
+  @ApiOkResponse({ type: NotificationDigestDto })
+  async previewDigest(@CurrentUser() user: AuthenticatedUser, @Query("period") period?: string): Promise<NotificationDigestDto> {
+    const result = await this.notifications.previewDigest(user.user_id, (period?.toUpperCase() as DigestPeriod) || DigestPeriod.DAILY);
+    return normalizeObject(result) as NotificationDigestDto;
+  }
+
+  @Patch(":id/read")
+  @Auth()
+  @ApiOperation({ summary: "Mark a notification as read" })
+  @ApiParam({ name: "id", description: "Notification ID" })
+  @ApiOkResponse({ type: NotificationDto })
+  async markRead(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string): Promise<NotificationDto> {
+    const result = await this.notifications.markRead(user.user_id, id);
+    return normalizeObject(result) as NotificationDto;
+  }
+
+  @Post("read-all")
+  @Auth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: "Mark every notification of the current user as read" })
+  @ApiOkResponse({ schema: { type: "object", properties: { count: { type: "integer", example: 12 } } } })
+  async markAllRead(@CurrentUser() user: AuthenticatedUser): Promise<{ count: number }> {
+    return await this.notifications.markAllRead(user.user_id);
+  }
+
+  private parseFilter(query: Record<string, string>): NotificationFilterDto {
+    return {
+      unread_only: query.unread_only === "true",
+      skip: !isNullish(query.skip) ? Number(query.skip) : undefined,
+      take: !isNullish(query.take) ? Math.min(Number(query.take), 100) : undefined,
+    };
+  }
+}
@@ -1,13 +1,17 @@
 import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import type { ClientGrpc } from "@nestjs/microservices";
 import { firstValueFrom, Observable } from "rxjs";
-import type { ProfilesListDto, ProfileDto } from "@shared/types";
+import type { ProfilesListDto, ProfileDto, UpdateUserNotificationSettingsDto, UpdateUserPreferencesDto, UserNotificationSettingsDto, UserPreferencesDto } from "@shared/types";
 
 interface ProfileGrpc {
   getByUserId(req: { user_id: string }): Observable<ProfileDto>;
   getAll(req: object): Observable<ProfilesListDto>;
   insert(req: { user_id: string; username?: string; first_name?: string; last_name?: string; avatar_url?: string }): Observable<{ success: boolean }>;
   update(req: { user_id: string; username?: string; first_name?: string; last_name?: string; avatar_url?: string }): Observable<ProfileDto>;
+  getPreferences(req: { user_id: string }): Observable<UserPreferencesDto>;
+  upsertPreferences(req: { user_id: string } & UpdateUserPreferencesDto): Observable<UserPreferencesDto>;
+  getNotificationSettings(req: { user_id: string }): Observable<UserNotificationSettingsDto>;
+  upsertNotificationSettings(req: { user_id: string } & UpdateUserNotificationSettingsDto): Observable<UserNotificationSettingsDto>;
 }
 
 @Injectable()
@@ -33,4 +37,20 @@ export class ProfileGatewayService implements OnModuleInit {
   async update(user_id: string, body: { username?: string; first_name?: string; last_name?: string; avatar_url?: string }): Promise<ProfileDto> {
     return await firstValueFrom(this.svc.update({ user_id, ...body }));
   }
+
+  async getPreferences(user_id: string): Promise<UserPreferencesDto> {
+    return await firstValueFrom(this.svc.getPreferences({ user_id }));
+  }
+
+  async upsertPreferences(user_id: string, body: UpdateUserPreferencesDto): Promise<UserPreferencesDto> {
+    return await firstValueFrom(this.svc.upsertPreferences({ ...body, user_id }));
+  }
+
+  async getNotificationSettings(user_id: string): Promise<UserNotificationSettingsDto> {
+    return await firstValueFrom(this.svc.getNotificationSettings({ user_id }));
+  }
+
+  async upsertNotificationSettings(user_id: string, body: UpdateUserNotificationSettingsDto): Promise<UserNotificationSettingsDto> {
+    return await firstValueFrom(this.svc.upsertNotificationSettings({ ...body, user_id }));
+  }
 }
@@ -1,10 +1,18 @@
 /* eslint-disable @typescript-eslint/no-unsafe-member-access */
-import { Body, Controller, Get, Param, Patch, UnauthorizedException } from "@nestjs/common";
+import { Body, Controller, Get, Param, Patch, Put, UnauthorizedException } from "@nestjs/common";
 import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiTags } from "@nestjs/swagger";
 import { ProfileGatewayService } from "./profile.client";
 import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
 import { ProfileNotFoundException } from "@shared/errors";
-import { ProfileDto, UpdateProfileDto, ProfilesListDto } from "@shared/types";
+import {
+  ProfileDto,
+  UpdateProfileDto,
+  ProfilesListDto,
+  UpdateUserNotificationSettingsDto,
+  UpdateUserPreferencesDto,
+  UserNotificationSettingsDto,
+  UserPreferencesDto,
+} from "@shared/types";
 import type { AuthenticatedUser } from "@shared/types";
 
 @ApiTags("Profiles")
@@ -36,6 +44,64 @@ export class ProfileGatewayController {
     }
   }
 
+  @Get("me/preferences")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get current user preferences (created with defaults on first access)" })
+  @ApiOkResponse({ type: UserPreferencesDto })
+  async getMyPreferences(@CurrentUser() user: AuthenticatedUser) {
+    try {
+      return await this.profiles.getPreferences(user.user_id);
+    } catch (e: any) {
+      if (Number(e?.code) === 5) throw new ProfileNotFoundException();
+      throw e;
+    }
+  }
+
+  @Put("me/preferences")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Create or update current user preferences" })
+  @ApiBody({ type: UpdateUserPreferencesDto })
+  @ApiOkResponse({ type: UserPreferencesDto })
+  async upsertMyPreferences(@CurrentUser() user: AuthenticatedUser, @Body() body: UpdateUserPreferencesDto) {
+    try {
+      return await this.profiles.upsertPreferences(user.user_id, body);
+    } catch (e: any) {
+      if (Number(e?.code) === 5) throw new ProfileNotFoundException();
+      throw e;
+    }
+  }
+
+  @Get("me/notifications")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get current user notification settings (created with defaults on first access)" })
+  @ApiOkResponse({ type: UserNotificationSettingsDto })
+  async getMyNotificationSettings(@CurrentUser() user: AuthenticatedUser) {
+    try {
+      return await this.profiles.getNotificationSettings(user.user_id);
+    } catch (e: any) {
+      if (Number(e?.code) === 5) throw new ProfileNotFoundException();
+      throw e;
+    }
+  }
+
+  @Put("me/notifications")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Create or update current user notification settings" })
+  @ApiBody({ type: UpdateUserNotificationSettingsDto })
+  @ApiOkResponse({ type: UserNotificationSettingsDto })
+  async upsertMyNotificationSettings(@CurrentUser() user: AuthenticatedUser, @Body() body: UpdateUserNotificationSettingsDto) {
+    try {
+      return await this.profiles.upsertNotificationSettings(user.user_id, body);
+    } catch (e: any) {
+      if (Number(e?.code) === 5) throw new ProfileNotFoundException();
+      throw e;
+    }
+  }
+
   @Get(":userId")
   @Auth()
   @ApiBearerAuth()
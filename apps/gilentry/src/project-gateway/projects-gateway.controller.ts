@@ -20,6 +20,7 @@ import {
   ProjectSubGroupField,
   GroupByOption,
   Granularity,
+  ProgressRecalculationDto,
 } from "@shared/types";
 import { normalizeObject, normalizeWithRequiredFields } from "@shared/utils";
 
@@ -136,12 +137,11 @@ export class ProjectsGatewayController {
     if (!workspaceId) {
       throw new BadRequestException("workspace_id is required");
     }
-    const s = Number(skip);
-    const t = Number(take);
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
     const params: BaseSearchQueryDto = {
       search: search || undefined,
-      skip: !Number.isNaN(s) ? s : 0,
-      take: !Number.isNaN(t) ? t : 10,
+      skip: !isNullish(skip) ? Number(skip) : 0,
+      take: !isNullish(take) ? Number(take) : undefined,
     } as BaseSearchQueryDto;
     const res = await this.projects.getOverview(user.user_id, workspaceId, params);
     return res;
@@ -212,6 +212,23 @@ export class ProjectsGatewayController {
     return normalizeObject(result) as ProjectDto;
   }
 
+  @Post("progress/recalculate")
+  @Auth()
+  @ApiBearerAuth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Recalculate epic and project progress (every project when no scope is given, super admins only)" })
+  @ApiQuery({ name: "project_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiQuery({ name: "workspace_id", required: false, schema: { type: "string", format: "uuid", nullable: true } })
+  @ApiOkResponse({ type: ProgressRecalculationDto })
+  async recalculateProgress(@CurrentUser() user: AuthenticatedUser, @Query("project_id") projectId?: string, @Query("workspace_id") workspaceId?: string) {
+    const pid = projectId ? Number(projectId) : undefined;
+    if (pid !== undefined && Number.isNaN(pid)) {
+      throw new BadRequestException(`Invalid project_id param: ${projectId}`);
+    }
+    const result = await this.projects.recalculateProgress(user.user_id, { project_id: pid, workspace_id: workspaceId || undefined });
+    return normalizeObject(result) as ProgressRecalculationDto;
+  }
+
   @Put(":id")
   @Auth()
   @ApiBearerAuth()
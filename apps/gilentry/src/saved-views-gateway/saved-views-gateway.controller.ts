@@ -0,0 +1,73 @@
+import { Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { SavedViewsGatewayService } from "libs/shared/utils/src/client/view/saved-views.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { CreateSavedViewDto, SavedViewDto, SavedViewEntityType, SavedViewListDto, UpdateSavedViewDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+@ApiTags("Saved views")
+@ApiBearerAuth()
+@Controller()
+export class SavedViewsGatewayController {
+  constructor(private readonly views: SavedViewsGatewayService) {}
+
+  @Post("workspaces/:workspaceId/views")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Save a search (filters, sort, grouping, columns) as a private or shared view" })
+  @ApiBody({ type: CreateSavedViewDto })
+  @ApiOkResponse({ type: SavedViewDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Body() body: CreateSavedViewDto): Promise<SavedViewDto> {
+    const view = await this.views.create(user.user_id, workspaceId, body);
+    return normalizeObject(view) as SavedViewDto;
+  }
+
+  @Get("workspaces/:workspaceId/views")
+  @Auth()
+  @ApiOperation({ summary: "List the views of a workspace visible to the current user" })
+  @ApiQuery({ name: "entity_type", required: false, schema: { type: "string", enum: Object.values(SavedViewEntityType), nullable: true } })
+  @ApiQuery({ name: "project_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiOkResponse({ type: SavedViewListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query("entity_type") entityType?: string,
+    @Query("project_id") projectId?: string,
+  ): Promise<SavedViewListDto> {
+    const result = await this.views.list(user.user_id, workspaceId, {
+      entity_type: !isNullish(entityType) ? (entityType?.toUpperCase() as SavedViewEntityType) : undefined,
+      project_id: !isNullish(projectId) ? Number(projectId) : undefined,
+    });
+    return normalizeObject(result) as SavedViewListDto;
+  }
+
+  @Get("views/:id")
+  @Auth()
+  @ApiOperation({ summary: "Get a view" })
+  @ApiOkResponse({ type: SavedViewDto })
+  async get(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string): Promise<SavedViewDto> {
+    const view = await this.views.findById(Number(id), user.user_id);
+    return normalizeObject(view) as SavedViewDto;
+  }
+
+  @Put("views/:id")
+  @Auth()
+  @ApiOperation({ summary: "Update a view (owner, or workspace moderators for shared views)" })
+  @ApiBody({ type: UpdateSavedViewDto })
+  @ApiOkResponse({ type: SavedViewDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string, @Body() body: UpdateSavedViewDto): Promise<SavedViewDto> {
+    const view = await this.views.update(Number(id), body, user.user_id);
+    return normalizeObject(view) as SavedViewDto;
+  }
+
+  @Delete("views/:id")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a view (owner, or workspace moderators for shared views)" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("id") id: string) {
+    await this.views.remove(Number(id), user.user_id);
+  }
+}
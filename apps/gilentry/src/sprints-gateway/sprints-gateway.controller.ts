@@ -16,6 +16,12 @@ import {
   SprintSubGroupField,
   Granularity,
   FilterRule,
+  CompleteSprintDto,
+  SprintCompletionSummaryDto,
+  SprintBurndownDto,
+  SprintCapacityPlanningDto,
+  SprintMemberCapacityDto,
+  UpsertSprintMemberCapacityDto,
 } from "@shared/types";
 import type { AuthenticatedUser } from "@shared/types";
 import { normalizeObject } from "@shared/utils";
@@ -38,11 +44,13 @@ export class SprintsGatewayController {
   @ApiQuery({ name: "groupBy", required: false, schema: { type: "string", enum: Object.values(SprintGroupField), nullable: true } })
   @ApiQuery({ name: "subGroupBy", required: false, schema: { type: "string", enum: Object.values(SprintSubGroupField), nullable: true } })
   @ApiQuery({ name: "dateGranularity", required: false, schema: { type: "string", enum: Object.values(Granularity), nullable: true } })
+  @ApiQuery({ name: "groupItemsTake", required: false, schema: { type: "integer", minimum: 0, maximum: 100, default: 0, nullable: true } })
   @ApiQuery({
     name: "filter",
     required: false,
     type: [FilterRule],
   })
+  @ApiQuery({ name: "viewId", required: false, description: "Saved view applied to the search (query parameters take precedence)", schema: { type: "integer", nullable: true } })
   @ApiOkResponse({ type: SprintsListDto })
   async listSprints(
     @CurrentUser() user: AuthenticatedUser,
@@ -55,7 +63,9 @@ export class SprintsGatewayController {
     @Query("groupBy") groupBy?: string,
     @Query("subGroupBy") subGroupBy?: string,
     @Query("dateGranularity") dateGranularity?: string,
+    @Query("groupItemsTake") groupItemsTake?: string,
     @Query("filter") filter?: string | string[],
+    @Query("viewId") viewId?: string,
   ): Promise<SprintsListDto> {
     if (!projectId) {
       throw new BadRequestException("project_id is required");
@@ -90,7 +100,7 @@ export class SprintsGatewayController {
     const sortField = inSet(sort, Object.values(SprintSortField));
     const groupField = inSet(groupBy, Object.values(SprintGroupField));
     const subGroupField = inSet(subGroupBy, Object.values(SprintSubGroupField));
-    const granularity = !isNullish(dateGranularity) ? String(dateGranularity) : "day";
+    const granularity = (inSet(dateGranularity?.toUpperCase(), Object.values(Granularity)) as Granularity | undefined) ?? Granularity.DAY;
 
     const params: BaseSearchQueryDto = {
       search: !isNullish(search) ? search : undefined,
@@ -105,6 +115,8 @@ export class SprintsGatewayController {
       groupBy: groupField ? ({ field: String(groupField), fieldGranularity: granularity } as GroupByOption) : undefined,
       subGroupBy: subGroupField ? ({ field: String(subGroupField), fieldGranularity: granularity } as GroupByOption) : undefined,
       filters: filterRules,
+      groupItemsTake: (groupField || !isNullish(viewId)) && !isNullish(groupItemsTake) ? Math.min(Number(groupItemsTake), 100) : undefined,
+      view_id: !isNullish(viewId) ? Number(viewId) : undefined,
     } as BaseSearchQueryDto;
 
     const result = await this.sprints.search(user.user_id, Number(projectId), params);
@@ -116,7 +128,7 @@ export class SprintsGatewayController {
   @ApiOperation({ summary: "Get sprint overview for dropdowns" })
   @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
   @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
-  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 20, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 10, nullable: true } })
   async listSprintOverview(
     @CurrentUser() _user: AuthenticatedUser,
     @Param("projectId") projectId: string,
@@ -129,7 +141,7 @@ export class SprintsGatewayController {
       const res = await this.sprints.getOverview(_user.user_id, Number(projectId), {
         search: !isNullish(search) ? search : undefined,
         skip: !isNullish(skip) ? Number(skip) : 0,
-        take: !isNullish(take) ? Number(take) : 20,
+        take: !isNullish(take) ? Number(take) : undefined,
       } as BaseSearchQueryDto);
       return normalizeObject(res);
     } catch (e: unknown) {
@@ -156,6 +168,69 @@ export class SprintsGatewayController {
     return normalizeObject(sprint) as SprintDto;
   }
 
+  @Get(":id/burndown")
+  @Auth()
+  @ApiOperation({ summary: "Get the daily burndown and burnup series of a sprint, rebuilt from ticket history" })
+  @ApiOkResponse({ type: SprintBurndownDto })
+  async getBurndown(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string): Promise<SprintBurndownDto> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const burndown = await this.sprints.getBurndown(sprintId, Number(projectId), user.user_id);
+    return normalizeObject(burndown) as SprintBurndownDto;
+  }
+
+  @Get(":id/capacity")
+  @Auth()
+  @ApiOperation({ summary: "Compare each member's committed hours and story points with their capacity for the sprint" })
+  @ApiOkResponse({ type: SprintCapacityPlanningDto })
+  async getCapacityPlanning(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string): Promise<SprintCapacityPlanningDto> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const planning = await this.sprints.getCapacityPlanning(sprintId, Number(projectId), user.user_id);
+    return normalizeObject(planning) as SprintCapacityPlanningDto;
+  }
+
+  @Put(":id/capacity/:userId")
+  @Auth()
+  @ApiOperation({ summary: "Set a member's available hours, days off and story point capacity for the sprint" })
+  @ApiBody({ type: UpsertSprintMemberCapacityDto })
+  @ApiOkResponse({ type: SprintMemberCapacityDto })
+  async upsertMemberCapacity(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("id") id: string,
+    @Param("userId") memberId: string,
+    @Body() body: UpsertSprintMemberCapacityDto,
+  ): Promise<SprintMemberCapacityDto> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const member = await this.sprints.upsertMemberCapacity(sprintId, Number(projectId), memberId, body, user.user_id);
+    return normalizeObject(member) as SprintMemberCapacityDto;
+  }
+
+  @Delete(":id/capacity/:userId")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Reset a member's capacity for the sprint to the defaults" })
+  async resetMemberCapacity(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("id") id: string,
+    @Param("userId") memberId: string,
+  ): Promise<void> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    await this.sprints.resetMemberCapacity(sprintId, Number(projectId), memberId, user.user_id);
+  }
+
   @Post()
   @Auth()
   @HttpCode(201)
@@ -177,6 +252,38 @@ export class SprintsGatewayController {
     return normalizeObject(sprint) as SprintDto;
   }
 
+  @Post(":id/start")
+  @Auth()
+  @ApiOperation({ summary: "Start a planned sprint and notify its members" })
+  @ApiOkResponse({ type: SprintDto })
+  async startSprint(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string): Promise<SprintDto> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const sprint = await this.sprints.start(sprintId, Number(projectId), user.user_id);
+    return normalizeObject(sprint) as SprintDto;
+  }
+
+  @Post(":id/complete")
+  @Auth()
+  @ApiOperation({ summary: "Complete a sprint, carry over unfinished tickets and record the achieved velocity" })
+  @ApiBody({ type: CompleteSprintDto, required: false })
+  @ApiOkResponse({ type: SprintCompletionSummaryDto })
+  async completeSprint(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("id") id: string,
+    @Body() body?: CompleteSprintDto,
+  ): Promise<SprintCompletionSummaryDto> {
+    const sprintId = Number(id);
+    if (Number.isNaN(sprintId) || Number.isNaN(Number(projectId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const summary = await this.sprints.complete(sprintId, Number(projectId), user.user_id, body);
+    return normalizeObject(summary) as SprintCompletionSummaryDto;
+  }
+
   @Delete(":id")
   @Auth()
   @HttpCode(204)
@@ -0,0 +1,111 @@
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { StacksGatewayService } from "libs/shared/utils/src/client/stack/stacks.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import type { AuthenticatedUser } from "@shared/types";
+import { CreateStackDto, UpdateStackDto, StackDto, StackListDto, BaseSearchQueryDto } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+@ApiTags("Stacks")
+@Controller("project/:projectId/stacks")
+export class StacksGatewayController {
+  constructor(private readonly stacks: StacksGatewayService) {}
+
+  @Get()
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "List the tech stacks of a project with search and pagination" })
+  @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
+  @ApiOkResponse({ type: StackListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Query("search") search?: string,
+    @Query("skip") skip?: string,
+    @Query("take") take?: string,
+  ): Promise<StackListDto> {
+    const projectIdNum = this.parseProjectId(projectId);
+
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+    const params: BaseSearchQueryDto = {
+      search: !isNullish(search) ? search : undefined,
+      skip: !isNullish(skip) ? Number(skip) : undefined,
+      take: !isNullish(take) ? Number(take) : undefined,
+    } as BaseSearchQueryDto;
+
+    const result = await this.stacks.getOverview(user.user_id, projectIdNum, params);
+    return normalizeObject(result) as StackListDto;
+  }
+
+  @Get(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get a stack by ID" })
+  @ApiOkResponse({ type: StackDto })
+  async get(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string): Promise<StackDto> {
+    const projectIdNum = this.parseProjectId(projectId);
+    const stackId = this.parseStackId(id);
+
+    const result = await this.stacks.findById(user.user_id, projectIdNum, stackId);
+    return normalizeObject(result) as StackDto;
+  }
+
+  @Post()
+  @Auth()
+  @ApiBearerAuth()
+  @HttpCode(201)
+  @ApiOperation({ summary: "Add a tech stack to a project (only one primary stack per type)" })
+  @ApiBody({ type: CreateStackDto })
+  @ApiOkResponse({ type: StackDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: CreateStackDto) {
+    const projectIdNum = this.parseProjectId(projectId);
+
+    const result = await this.stacks.create(user.user_id, projectIdNum, { ...body, project_id: projectIdNum });
+    return normalizeObject(result) as StackDto;
+  }
+
+  @Put(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Update a stack by ID" })
+  @ApiBody({ type: UpdateStackDto })
+  @ApiOkResponse({ type: StackDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string, @Body() body: UpdateStackDto) {
+    const projectIdNum = this.parseProjectId(projectId);
+    const stackId = this.parseStackId(id);
+
+    const result = await this.stacks.update(user.user_id, projectIdNum, stackId, body);
+    return normalizeObject(result) as StackDto;
+  }
+
+  @Delete(":id")
+  @Auth()
+  @ApiBearerAuth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a stack by ID" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string) {
+    const projectIdNum = this.parseProjectId(projectId);
+    const stackId = this.parseStackId(id);
+
+    await this.stacks.remove(user.user_id, projectIdNum, stackId);
+  }
+
+  private parseProjectId(projectId: string): number {
+    const projectIdNum = Number(projectId);
+    if (!projectId || Number.isNaN(projectIdNum)) {
+      throw new BadRequestException("project_id is required and must be a valid number");
+    }
+    return projectIdNum;
+  }
+
+  private parseStackId(id: string): number {
+    const stackId = Number(id);
+    if (Number.isNaN(stackId)) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    return stackId;
+  }
+}
@@ -59,6 +59,7 @@ export class TasksGatewayController {
     required: false,
     schema: { type: "string", example: "asc|desc", nullable: true },
   })
+  @ApiQuery({ name: "viewId", required: false, description: "Saved view applied to the search (query parameters take precedence)", schema: { type: "integer", nullable: true } })
   @ApiOkResponse({ type: TaskListDto })
   async list(
     @CurrentUser() user: AuthenticatedUser,
@@ -69,6 +70,7 @@ export class TasksGatewayController {
     @Query("take") take?: string,
     @Query("_sort") sort?: string,
     @Query("_order") order?: string,
+    @Query("viewId") viewId?: string,
   ): Promise<TaskListDto> {
     const epicIdNum = Number(epicId);
     if (!epicId || Number.isNaN(epicIdNum)) {
@@ -89,6 +91,7 @@ export class TasksGatewayController {
             },
           ]
         : undefined,
+      view_id: !isNullish(viewId) ? Number(viewId) : undefined,
     } as BaseSearchQueryDto;
 
     const result = await this.tasks.search(Number(projectId), user.user_id, epicIdNum, params);
@@ -137,13 +140,11 @@ export class TasksGatewayController {
       throw new BadRequestException("epic_id is required and must be a valid number");
     }
 
-    const s = Number(skip);
-    const t = Number(take);
-
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
     const params: BaseSearchQueryDto = {
       search: search || undefined,
-      skip: !Number.isNaN(s) ? s : 0,
-      take: !Number.isNaN(t) ? t : 10,
+      skip: !isNullish(skip) ? Number(skip) : 0,
+      take: !isNullish(take) ? Number(take) : undefined,
     } as BaseSearchQueryDto;
 
     const res = await this.tasks.getOverview(Number(projectId), user.user_id, epicIdNum, params);
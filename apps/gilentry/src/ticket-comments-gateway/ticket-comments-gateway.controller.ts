@@ -0,0 +1,95 @@
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { TicketCommentsGatewayService } from "libs/shared/utils/src/client/ticket-comment/ticket-comments.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { CreateTicketCommentDto, UpdateTicketCommentDto, TicketCommentDto, TicketCommentListDto, BaseSearchQueryDto, SortOrder } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+@ApiTags("Ticket Comments")
+@ApiBearerAuth()
+@Controller("project/:projectId/tickets/:ticketId/comments")
+export class TicketCommentsGatewayController {
+  constructor(private readonly comments: TicketCommentsGatewayService) {}
+
+  @Post()
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Add a comment to a ticket (@username mentions are resolved automatically)" })
+  @ApiBody({ type: CreateTicketCommentDto })
+  @ApiOkResponse({ type: TicketCommentDto })
+  async create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("ticketId") ticketId: string,
+    @Body() body: CreateTicketCommentDto,
+  ): Promise<TicketCommentDto> {
+    const comment = await this.comments.create(user.user_id, Number(ticketId), body);
+    return normalizeObject(comment) as TicketCommentDto;
+  }
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "List the comments of a ticket (internal notes are hidden from guests and viewers)" })
+  @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
+  @ApiQuery({ name: "order", required: false, schema: { type: "string", nullable: true, enum: Object.values(SortOrder) } })
+  @ApiOkResponse({ type: TicketCommentListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("ticketId") ticketId: string,
+    @Query("search") search?: string,
+    @Query("skip") skip?: string,
+    @Query("take") take?: string,
+    @Query("order") order?: string,
+  ): Promise<TicketCommentListDto> {
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+    const params: BaseSearchQueryDto = {
+      search: !isNullish(search) ? search : undefined,
+      skip: !isNullish(skip) ? Number(skip) : undefined,
+      take: !isNullish(take) ? Number(take) : undefined,
+      sortBy: !isNullish(order)
+        ? {
+            field: "created_at",
+            order: order?.toUpperCase() === "DESC" ? SortOrder.DESC : SortOrder.ASC,
+          }
+        : undefined,
+    } as BaseSearchQueryDto;
+
+    const result = await this.comments.search(user.user_id, Number(ticketId), params);
+    return normalizeObject(result) as TicketCommentListDto;
+  }
+
+  @Put(":id")
+  @Auth()
+  @ApiOperation({ summary: "Edit a comment (author only)" })
+  @ApiBody({ type: UpdateTicketCommentDto })
+  @ApiOkResponse({ type: TicketCommentDto })
+  async update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("ticketId") ticketId: string,
+    @Param("id") id: string,
+    @Body() body: UpdateTicketCommentDto,
+  ): Promise<TicketCommentDto> {
+    if (Number.isNaN(Number(id)) || Number.isNaN(Number(ticketId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    const comment = await this.comments.update(Number(id), Number(ticketId), body, user.user_id);
+    return normalizeObject(comment) as TicketCommentDto;
+  }
+
+  @Delete(":id")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a comment (author or project maintainers)" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("ticketId") ticketId: string, @Param("id") id: string) {
+    if (Number.isNaN(Number(id)) || Number.isNaN(Number(ticketId))) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+    await this.comments.remove(Number(id), Number(ticketId), user.user_id);
+  }
+}
@@ -0,0 +1,87 @@
+import { BadRequestException, Body, Controller, Delete, Get, Param, Put } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiTags } from "@nestjs/swagger";
+import { TicketWorkflowsGatewayService } from "libs/shared/utils/src/client/ticket-workflow/ticket-workflows.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import type { AuthenticatedUser } from "@shared/types";
+import { TicketWorkflowDto, UpdateTicketWorkflowDto } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+@ApiTags("Ticket workflows")
+@Controller("ticket-workflows")
+export class TicketWorkflowsGatewayController {
+  constructor(private readonly workflows: TicketWorkflowsGatewayService) {}
+
+  @Get("workspaces/:workspaceId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get the ticket workflow of a workspace (default workflow when none is configured)" })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async getWorkspaceWorkflow(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.getWorkspaceWorkflow(workspaceId, user.user_id);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  @Put("workspaces/:workspaceId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Replace the ticket workflow of a workspace" })
+  @ApiBody({ type: UpdateTicketWorkflowDto })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async updateWorkspaceWorkflow(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Body() body: UpdateTicketWorkflowDto,
+  ): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.updateWorkspaceWorkflow(workspaceId, user.user_id, body);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  @Delete("workspaces/:workspaceId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Reset the ticket workflow of a workspace to the default workflow" })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async resetWorkspaceWorkflow(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.resetWorkspaceWorkflow(workspaceId, user.user_id);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  @Get("projects/:projectId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Get the effective ticket workflow of a project and where it is defined" })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async getProjectWorkflow(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.getProjectWorkflow(this.parseId(projectId), user.user_id);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  @Put("projects/:projectId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Override the workspace ticket workflow for a project" })
+  @ApiBody({ type: UpdateTicketWorkflowDto })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async updateProjectWorkflow(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: UpdateTicketWorkflowDto): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.updateProjectWorkflow(this.parseId(projectId), user.user_id, body);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  @Delete("projects/:projectId")
+  @Auth()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Remove the project override; the workspace workflow applies again" })
+  @ApiOkResponse({ type: TicketWorkflowDto })
+  async resetProjectWorkflow(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string): Promise<TicketWorkflowDto> {
+    const result = await this.workflows.resetProjectWorkflow(this.parseId(projectId), user.user_id);
+    return normalizeObject(result) as TicketWorkflowDto;
+  }
+
+  private parseId(id: string): number {
+    const projectId = Number(id);
+    if (Number.isNaN(projectId)) {
+      throw new BadRequestException(`Invalid projectId param: ${id}`);
+    }
+    return projectId;
+  }
+}
@@ -0,0 +1,61 @@
+import { BadRequestException, Body, Controller, Get, HttpCode, Param, Post, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { TicketsGatewayService } from "libs/shared/utils/src/client/ticket/tickets.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import { TicketDto, TicketsListDto, MoveBacklogTicketDto, PlanSprintFromBacklogDto, BacklogPlanningResultDto } from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+@ApiTags("Backlog")
+@ApiBearerAuth()
+@Controller("project/:projectId/backlog")
+export class BacklogGatewayController {
+  constructor(private readonly tickets: TicketsGatewayService) {}
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "List the project backlog (tickets without sprint) in rank order" })
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 50, nullable: true } })
+  @ApiOkResponse({ type: TicketsListDto })
+  async list(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query("skip") skip?: string, @Query("take") take?: string): Promise<TicketsListDto> {
+    const id = this.parseId(projectId);
+    const backlog = await this.tickets.getBacklog(id, user.user_id, skip ? Number(skip) : undefined, take ? Number(take) : undefined);
+    return normalizeObject(backlog) as TicketsListDto;
+  }
+
+  @Post(":ticketId/move")
+  @Auth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Move a ticket to the top or bottom of the backlog, or before / after another ticket" })
+  @ApiBody({ type: MoveBacklogTicketDto })
+  @ApiOkResponse({ type: TicketDto })
+  async move(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Param("ticketId") ticketId: string,
+    @Body() body: MoveBacklogTicketDto,
+  ): Promise<TicketDto> {
+    const ticket = await this.tickets.moveBacklogTicket(this.parseId(projectId), this.parseId(ticketId), body, user.user_id);
+    return normalizeObject(ticket) as TicketDto;
+  }
+
+  @Post("plan")
+  @Auth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Pull the top backlog tickets into a sprint, up to its capacity" })
+  @ApiBody({ type: PlanSprintFromBacklogDto })
+  @ApiOkResponse({ type: BacklogPlanningResultDto })
+  async plan(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: PlanSprintFromBacklogDto): Promise<BacklogPlanningResultDto> {
+    const result = await this.tickets.planSprintFromBacklog(this.parseId(projectId), body, user.user_id);
+    return normalizeObject(result) as BacklogPlanningResultDto;
+  }
+
+  private parseId(value: string): number {
+    const id = Number(value);
+    if (!Number.isInteger(id) || id <= 0) {
+      throw new BadRequestException(`Invalid id param: ${value}`);
+    }
+    return id;
+  }
+}
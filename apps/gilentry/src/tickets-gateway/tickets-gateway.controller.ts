@@ -1,4 +1,4 @@
-import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query } from "@nestjs/common";
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Patch, Post, Put, Query } from "@nestjs/common";
 import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags, ApiExtraModels } from "@nestjs/swagger";
 import { TicketsGatewayService } from "libs/shared/utils/src/client/ticket/tickets.client";
 import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
@@ -8,6 +8,14 @@ import {
   UpdateTicketDto,
   TicketDto,
   TicketsListDto,
+  TicketDependencyGraphDto,
+  TicketAssignmentResultDto,
+  BulkUpdateTicketsDto,
+  BulkUpdateTicketsResultDto,
+  DraftTicketsDto,
+  TicketDraftsDto,
+  CommitTicketDraftsDto,
+  CommitTicketDraftsResultDto,
   BaseSearchQueryDto,
   SortOrder,
   FilterRule,
@@ -53,11 +61,13 @@ export class TicketsGatewayController {
   @ApiQuery({ name: "groupBy", required: false, schema: { type: "string", enum: Object.values(TicketGroupField), nullable: true } })
   @ApiQuery({ name: "subGroupBy", required: false, schema: { type: "string", enum: Object.values(TicketSubGroupField), nullable: true } })
   @ApiQuery({ name: "dateGranularity", required: false, schema: { type: "string", enum: Object.values(Granularity), nullable: true } })
+  @ApiQuery({ name: "groupItemsTake", required: false, schema: { type: "integer", minimum: 0, maximum: 100, default: 0, nullable: true } })
   @ApiQuery({
     name: "filter",
     required: false,
     type: [FilterRule],
   })
+  @ApiQuery({ name: "viewId", required: false, description: "Saved view applied to the search (query parameters take precedence)", schema: { type: "integer", nullable: true } })
   @ApiOkResponse({ type: TicketsListDto })
   async list(
     @CurrentUser() user: AuthenticatedUser,
@@ -70,7 +80,9 @@ export class TicketsGatewayController {
     @Query("groupBy") groupBy?: string,
     @Query("subGroupBy") subGroupBy?: string,
     @Query("dateGranularity") dateGranularity?: string,
+    @Query("groupItemsTake") groupItemsTake?: string,
     @Query("filter") filter?: string | string[],
+    @Query("viewId") viewId?: string,
   ): Promise<TicketsListDto> {
     if (!projectId) {
       throw new BadRequestException("project_id is required");
@@ -107,7 +119,7 @@ export class TicketsGatewayController {
     const sortField = inSet(sort, Object.values(TicketSortField));
     const groupField = inSet(groupBy, Object.values(TicketGroupField));
     const subGroupField = inSet(subGroupBy, Object.values(TicketSubGroupField));
-    const granularity = !isNullish(dateGranularity) ? String(dateGranularity) : "day";
+    const granularity = (inSet(dateGranularity?.toUpperCase(), Object.values(Granularity)) as Granularity | undefined) ?? Granularity.DAY;
 
     const params: BaseSearchQueryDto = {
       search: !isNullish(search) ? search : undefined,
@@ -122,6 +134,8 @@ export class TicketsGatewayController {
       groupBy: groupField ? ({ field: String(groupField), fieldGranularity: granularity } as GroupByOption) : undefined,
       subGroupBy: subGroupField ? ({ field: String(subGroupField), fieldGranularity: granularity } as GroupByOption) : undefined,
       filters: filterRules,
+      groupItemsTake: (groupField || !isNullish(viewId)) && !isNullish(groupItemsTake) ? Math.min(Number(groupItemsTake), 100) : undefined,
+      view_id: !isNullish(viewId) ? Number(viewId) : undefined,
     } as BaseSearchQueryDto;
 
     const result = await this.tickets.search(user.user_id, Number(projectId), params);
@@ -133,7 +147,7 @@ export class TicketsGatewayController {
   @ApiOperation({ summary: "Get ticket options for dropdowns" })
   @ApiQuery({ name: "search", required: false, schema: { type: "string", nullable: true } })
   @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
-  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 20, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 50, nullable: true } })
   async listTicketOptions(
     @CurrentUser() user: AuthenticatedUser,
     @Param("projectId") projectId: string,
@@ -150,7 +164,7 @@ export class TicketsGatewayController {
       const res = await this.tickets.search(user.user_id, Number(projectId), {
         search: !isNullish(search) ? search : undefined,
         skip: !isNullish(skip) ? Number(skip) : 0,
-        take: !isNullish(take) ? Number(take) : 20,
+        take: !isNullish(take) ? Number(take) : undefined,
       });
 
       const normalized = normalizeObject(res) as TicketsListDto;
@@ -162,7 +176,7 @@ export class TicketsGatewayController {
         items,
         total: normalized.total ?? 0,
         skip: normalized.skip ?? 0,
-        take: normalized.take ?? 20,
+        take: normalized.take,
       };
     } catch (e: unknown) {
       const msg = e instanceof Error ? e.message : String(e);
@@ -170,6 +184,84 @@ export class TicketsGatewayController {
     }
   }
 
+  @Patch("bulk")
+  @Auth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Apply a patch to a selection of tickets (by IDs or filters), with a result per ticket" })
+  @ApiBody({ type: BulkUpdateTicketsDto })
+  @ApiOkResponse({ type: BulkUpdateTicketsResultDto })
+  async bulkUpdate(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: BulkUpdateTicketsDto): Promise<BulkUpdateTicketsResultDto> {
+    const projectIdNum = Number(projectId);
+    if (!projectId || Number.isNaN(projectIdNum)) {
+      throw new BadRequestException("project_id is required and must be a valid number");
+    }
+
+    // null est transmis au service sous la forme vide : "" (aucun assigné) ou 0 (backlog)
+    const patch = body?.patch ?? {};
+    const dto: BulkUpdateTicketsDto = {
+      ticket_ids: body?.ticket_ids?.map(Number),
+      filters: body?.filters?.map(rule => plainToInstance(FilterRule, rule)),
+      patch: {
+        ...patch,
+        assigned_to: patch.assigned_to === null ? "" : patch.assigned_to,
+        sprint_id: patch.sprint_id === null ? 0 : patch.sprint_id,
+      },
+    };
+
+    const result = await this.tickets.bulkUpdate(projectIdNum, dto, user.user_id);
+    return normalizeObject(result) as BulkUpdateTicketsResultDto;
+  }
+
+  @Post("drafts")
+  @Auth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Propose tickets from free text (meeting notes…), to review before creating them" })
+  @ApiBody({ type: DraftTicketsDto })
+  @ApiOkResponse({ type: TicketDraftsDto })
+  async draftTickets(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: DraftTicketsDto): Promise<TicketDraftsDto> {
+    const projectIdNum = Number(projectId);
+    if (!projectId || Number.isNaN(projectIdNum)) {
+      throw new BadRequestException("project_id is required and must be a valid number");
+    }
+
+    const result = await this.tickets.draftTickets(projectIdNum, { ...body, max_drafts: body?.max_drafts != null ? Number(body.max_drafts) : undefined }, user.user_id);
+    return normalizeObject(result) as TicketDraftsDto;
+  }
+
+  @Post("drafts/commit")
+  @Auth()
+  @HttpCode(201)
+  @ApiOperation({ summary: "Create the accepted drafts in a single transaction (all or nothing)" })
+  @ApiBody({ type: CommitTicketDraftsDto })
+  @ApiOkResponse({ type: CommitTicketDraftsResultDto })
+  async commitTicketDrafts(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Body() body: CommitTicketDraftsDto,
+  ): Promise<CommitTicketDraftsResultDto> {
+    const projectIdNum = Number(projectId);
+    if (!projectId || Number.isNaN(projectIdNum)) {
+      throw new BadRequestException("project_id is required and must be a valid number");
+    }
+
+    const result = await this.tickets.commitTicketDrafts(projectIdNum, body, user.user_id);
+    return normalizeObject(result) as CommitTicketDraftsResultDto;
+  }
+
+  @Get("key/:key")
+  @Auth()
+  @ApiOperation({ summary: "Get ticket by its human-readable key (e.g. GILE-142)" })
+  @ApiOkResponse({ type: TicketDto })
+  async getByKey(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("key") key: string): Promise<TicketDto> {
+    const projectIdNum = Number(projectId);
+    if (!projectId || Number.isNaN(projectIdNum)) {
+      throw new BadRequestException("project_id is required and must be a valid number");
+    }
+
+    const ticket = await this.tickets.findByKey(projectIdNum, key, user.user_id);
+    return normalizeObject(ticket) as TicketDto;
+  }
+
   @Get(":id")
   @Auth()
   @ApiOperation({ summary: "Get ticket by ID" })
@@ -213,6 +305,20 @@ export class TicketsGatewayController {
     return { success: result };
   }
 
+  @Get(":id/dependencies/graph")
+  @Auth()
+  @ApiOperation({ summary: "Get the transitive upstream/downstream dependency graph of a ticket" })
+  @ApiOkResponse({ type: TicketDependencyGraphDto })
+  async getDependencyGraph(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string): Promise<TicketDependencyGraphDto> {
+    const ticketId = Number(id);
+    if (Number.isNaN(ticketId)) {
+      throw new BadRequestException(`Invalid id param: ${id}`);
+    }
+
+    const graph = await this.tickets.getDependencyGraph(ticketId, user.user_id);
+    return normalizeObject(graph) as TicketDependencyGraphDto;
+  }
+
   @Put(":id/labels")
   @Auth()
   @HttpCode(200)
@@ -232,32 +338,32 @@ export class TicketsGatewayController {
   @Put(":id/assign")
   @Auth()
   @HttpCode(200)
-  @ApiOperation({ summary: "Assign a ticket to a user" })
+  @ApiOperation({ summary: "Assign a ticket to a user, warning when the assignee becomes overcommitted in the ticket's sprint" })
   @ApiBody({ schema: { type: "object", properties: { assigned_to_user_id: { type: "string" } }, required: ["assigned_to_user_id"] } })
-  @ApiOkResponse({ schema: { type: "object", properties: { success: { type: "boolean" } } } })
+  @ApiOkResponse({ type: TicketAssignmentResultDto })
   async assignTicket(
     @CurrentUser() user: AuthenticatedUser,
     @Param("projectId") projectId: string,
     @Param("id") id: string,
     @Body("assigned_to_user_id") assignedToUserId: string,
-  ): Promise<{ success: boolean }> {
+  ): Promise<TicketAssignmentResultDto> {
     const result = await this.tickets.assignTicket(Number(id), assignedToUserId, user.user_id);
-    return { success: result };
+    return normalizeObject(result) as TicketAssignmentResultDto;
   }
 
   @Put(":id/sprint")
   @Auth()
   @HttpCode(200)
-  @ApiOperation({ summary: "Assign a ticket to a sprint" })
+  @ApiOperation({ summary: "Assign a ticket to a sprint, warning when its assignee becomes overcommitted" })
   @ApiBody({ schema: { type: "object", properties: { sprint_id: { type: "number", nullable: true } }, required: ["sprint_id"] } })
-  @ApiOkResponse({ schema: { type: "object", properties: { success: { type: "boolean" } } } })
+  @ApiOkResponse({ type: TicketAssignmentResultDto })
   async assignTicketToSprint(
     @CurrentUser() user: AuthenticatedUser,
     @Param("projectId") projectId: string,
     @Param("id") id: string,
     @Body("sprint_id") sprintId: number,
-  ): Promise<{ success: boolean }> {
+  ): Promise<TicketAssignmentResultDto> {
     const result = await this.tickets.assignTicketToSprint(Number(id), sprintId, user.user_id);
-    return { success: result };
+    return normalizeObject(result) as TicketAssignmentResultDto;
   }
 }
@@ -0,0 +1,186 @@
+import { applyDecorators, Body, Controller, Delete, Get, HttpCode, Param, Post, Put, Query, Res } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiProduces, ApiQuery, ApiTags } from "@nestjs/swagger";
+import type { Response } from "express";
+import { WorklogsGatewayService } from "libs/shared/utils/src/client/worklog/worklogs.client";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import {
+  CreateWorklogDto,
+  RunningWorklogTimerDto,
+  StartWorklogTimerDto,
+  TimesheetDto,
+  TimesheetExportDto,
+  TimesheetQueryDto,
+  UpdateWorklogDto,
+  WorklogDto,
+  WorklogFilterDto,
+  WorklogListDto,
+} from "@shared/types";
+import type { AuthenticatedUser } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+
+const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
+
+/**
+ * Décorateur regroupant les paramètres de période des feuilles de temps
+ */
+const ApiTimesheetQuery = () =>
+  applyDecorators(
+    ApiQuery({ name: "from", required: false, schema: { type: "string", format: "date", nullable: true } }),
+    ApiQuery({ name: "to", required: false, schema: { type: "string", format: "date", nullable: true } }),
+  );
+
+@ApiTags("Worklogs")
+@ApiBearerAuth()
+@Controller()
+export class WorklogsGatewayController {
+  constructor(private readonly worklogs: WorklogsGatewayService) {}
+
+  @Post("project/:projectId/worklogs")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Log time on a ticket or a task of the project" })
+  @ApiBody({ type: CreateWorklogDto })
+  @ApiOkResponse({ type: WorklogDto })
+  async create(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: CreateWorklogDto): Promise<WorklogDto> {
+    const worklog = await this.worklogs.create(user.user_id, Number(projectId), body);
+    return normalizeObject(worklog) as WorklogDto;
+  }
+
+  @Get("project/:projectId/worklogs")
+  @Auth()
+  @ApiOperation({ summary: "List the worklogs of a project, most recent day first" })
+  @ApiQuery({ name: "ticket_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiQuery({ name: "task_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiQuery({ name: "user_id", required: false, schema: { type: "string", format: "uuid", nullable: true } })
+  @ApiTimesheetQuery()
+  @ApiQuery({ name: "skip", required: false, schema: { type: "integer", minimum: 0, default: 0, nullable: true } })
+  @ApiQuery({ name: "take", required: false, schema: { type: "integer", minimum: 1, default: 25, nullable: true } })
+  @ApiOkResponse({ type: WorklogListDto })
+  async list(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<WorklogListDto> {
+    const filter: WorklogFilterDto = {
+      ticket_id: !isNullish(query.ticket_id) ? Number(query.ticket_id) : undefined,
+      task_id: !isNullish(query.task_id) ? Number(query.task_id) : undefined,
+      user_id: !isNullish(query.user_id) ? query.user_id : undefined,
+      from: !isNullish(query.from) ? query.from : undefined,
+      to: !isNullish(query.to) ? query.to : undefined,
+      skip: !isNullish(query.skip) ? Number(query.skip) : undefined,
+      take: !isNullish(query.take) ? Number(query.take) : undefined,
+    };
+
+    const result = await this.worklogs.search(user.user_id, Number(projectId), filter);
+    return normalizeObject(result) as WorklogListDto;
+  }
+
+  @Put("project/:projectId/worklogs/:id")
+  @Auth()
+  @ApiOperation({ summary: "Edit a worklog (author or project maintainers)" })
+  @ApiBody({ type: UpdateWorklogDto })
+  @ApiOkResponse({ type: WorklogDto })
+  async update(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string, @Body() body: UpdateWorklogDto): Promise<WorklogDto> {
+    const worklog = await this.worklogs.update(Number(id), body, user.user_id);
+    return normalizeObject(worklog) as WorklogDto;
+  }
+
+  @Delete("project/:projectId/worklogs/:id")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Delete a worklog (author or project maintainers)" })
+  async remove(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Param("id") id: string) {
+    await this.worklogs.remove(Number(id), user.user_id);
+  }
+
+  @Post("project/:projectId/worklogs/timer/start")
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Start a timer on a ticket or a task (a running timer is stopped and logged first)" })
+  @ApiBody({ type: StartWorklogTimerDto })
+  @ApiOkResponse({ type: WorklogDto })
+  async startTimer(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Body() body: StartWorklogTimerDto): Promise<WorklogDto> {
+    const timer = await this.worklogs.startTimer(user.user_id, Number(projectId), body);
+    return normalizeObject(timer) as WorklogDto;
+  }
+
+  @Get("project/:projectId/worklogs/timesheet")
+  @Auth()
+  @ApiOperation({ summary: "Get the timesheet of a project, per member and per ticket or task" })
+  @ApiTimesheetQuery()
+  @ApiQuery({ name: "user_id", required: false, schema: { type: "string", format: "uuid", nullable: true } })
+  @ApiOkResponse({ type: TimesheetDto })
+  async projectTimesheet(@CurrentUser() user: AuthenticatedUser, @Param("projectId") projectId: string, @Query() query: Record<string, string>): Promise<TimesheetDto> {
+    const result = await this.worklogs.getProjectTimesheet(user.user_id, Number(projectId), this.parseTimesheetQuery(query));
+    return normalizeObject(result) as TimesheetDto;
+  }
+
+  @Get("project/:projectId/worklogs/timesheet/export")
+  @Auth()
+  @ApiOperation({ summary: "Export the timesheet of a project as CSV (one line per worklog)" })
+  @ApiTimesheetQuery()
+  @ApiQuery({ name: "user_id", required: false, schema: { type: "string", format: "uuid", nullable: true } })
+  @ApiProduces("text/csv")
+  async exportProjectTimesheet(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("projectId") projectId: string,
+    @Query() query: Record<string, string>,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<string> {
+    const file = await this.worklogs.exportProjectTimesheet(user.user_id, Number(projectId), this.parseTimesheetQuery(query));
+    return this.sendFile(res, file);
+  }
+
+  @Get("worklogs/timer")
+  @Auth()
+  @ApiOperation({ summary: "Get the running timer of the current user" })
+  @ApiOkResponse({ type: RunningWorklogTimerDto })
+  async runningTimer(@CurrentUser() user: AuthenticatedUser): Promise<RunningWorklogTimerDto> {
+    const result = await this.worklogs.getRunningTimer(user.user_id);
+    return normalizeObject(result) as RunningWorklogTimerDto;
+  }
+
+  @Post("worklogs/timer/stop")
+  @Auth()
+  @HttpCode(200)
+  @ApiOperation({ summary: "Stop the running timer of the current user and log the elapsed time" })
+  @ApiBody({ schema: { type: "object", properties: { note: { type: "string", nullable: true } } } })
+  @ApiOkResponse({ type: WorklogDto })
+  async stopTimer(@CurrentUser() user: AuthenticatedUser, @Body("note") note?: string): Promise<WorklogDto> {
+    const worklog = await this.worklogs.stopTimer(user.user_id, note);
+    return normalizeObject(worklog) as WorklogDto;
+  }
+
+  @Get("worklogs/timesheet")
+  @Auth()
+  @ApiOperation({ summary: "Get the timesheet of the current user across projects" })
+  @ApiTimesheetQuery()
+  @ApiQuery({ name: "project_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiOkResponse({ type: TimesheetDto })
+  async userTimesheet(@CurrentUser() user: AuthenticatedUser, @Query() query: Record<string, string>): Promise<TimesheetDto> {
+    const result = await this.worklogs.getUserTimesheet(user.user_id, this.parseTimesheetQuery(query));
+    return normalizeObject(result) as TimesheetDto;
+  }
+
+  @Get("worklogs/timesheet/export")
+  @Auth()
+  @ApiOperation({ summary: "Export the timesheet of the current user as CSV (one line per worklog)" })
+  @ApiTimesheetQuery()
+  @ApiQuery({ name: "project_id", required: false, schema: { type: "integer", nullable: true } })
+  @ApiProduces("text/csv")
+  async exportUserTimesheet(@CurrentUser() user: AuthenticatedUser, @Query() query: Record<string, string>, @Res({ passthrough: true }) res: Response): Promise<string> {
+    const file = await this.worklogs.exportUserTimesheet(user.user_id, this.parseTimesheetQuery(query));
+    return this.sendFile(res, file);
+  }
+
+  private parseTimesheetQuery(query: Record<string, string>): TimesheetQueryDto {
+    return {
+      from: !isNullish(query.from) ? query.from : undefined,
+      to: !isNullish(query.to) ? query.to : undefined,
+      user_id: !isNullish(query.user_id) ? query.user_id : undefined,
+      project_id: !isNullish(query.project_id) ? Number(query.project_id) : undefined,
+    };
+  }
+
+  private sendFile(res: Response, file: TimesheetExportDto): string {
+    res.setHeader("Content-Type", file.content_type);
+    res.setHeader("Content-Disposition", `attachment; filename="${file.filename}"`);
+    return file.content;
+  }
+}
@@ -0,0 +1,43 @@
+import { Controller, Get, HttpCode, Param, Post } from "@nestjs/common";
+import { ApiBearerAuth, ApiOkResponse, ApiOperation, ApiTags } from "@nestjs/swagger";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import type { AuthenticatedUser } from "@shared/types";
+import { WorkspaceInvitationsListDto } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+import { AcceptedInvitationResponse, WorkspaceInvitationsGatewayService } from "libs/shared/utils/src/client/workspace/invitation.client";
+
+/**
+ * Routes côté invité : les invitations sont nominatives, l'utilisateur doit donc être authentifié
+ * mais n'a besoin d'aucun droit sur le workspace pour les consulter, les accepter ou les refuser.
+ */
+@ApiTags("Invitations")
+@ApiBearerAuth()
+@Controller("invitations")
+export class InvitationGatewayController {
+  constructor(private readonly invitations: WorkspaceInvitationsGatewayService) {}
+
+  @Get("me")
+  @Auth()
+  @ApiOperation({ summary: "List the pending invitations addressed to the current user" })
+  @ApiOkResponse({ type: WorkspaceInvitationsListDto })
+  async listMine(@CurrentUser() user: AuthenticatedUser): Promise<WorkspaceInvitationsListDto> {
+    const res = await this.invitations.listMine(user.user_id);
+    return normalizeObject(res) as WorkspaceInvitationsListDto;
+  }
+
+  @Post(":token/accept")
+  @Auth()
+  @ApiOperation({ summary: "Accept an invitation and join the workspace with the invited role" })
+  async accept(@CurrentUser() user: AuthenticatedUser, @Param("token") token: string): Promise<AcceptedInvitationResponse> {
+    const res = await this.invitations.accept(user.user_id, token);
+    return normalizeObject(res) as AcceptedInvitationResponse;
+  }
+
+  @Post(":token/decline")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Decline an invitation" })
+  async decline(@CurrentUser() user: AuthenticatedUser, @Param("token") token: string) {
+    await this.invitations.decline(user.user_id, token);
+  }
+}
@@ -0,0 +1,60 @@
+import { BadRequestException, Body, Controller, Delete, Get, HttpCode, Param, Post, Query } from "@nestjs/common";
+import { ApiBearerAuth, ApiBody, ApiOkResponse, ApiOperation, ApiQuery, ApiTags } from "@nestjs/swagger";
+import { Auth, CurrentUser } from "../auth-gateway/auth.decorators";
+import type { AuthenticatedUser } from "@shared/types";
+import { InviteWorkspaceMemberDto, WorkspaceInvitationDto, WorkspaceInvitationsListDto } from "@shared/types";
+import { normalizeObject } from "@shared/utils";
+import { WorkspaceInvitationsGatewayService } from "libs/shared/utils/src/client/workspace/invitation.client";
+
+@ApiTags("Workspaces")
+@ApiBearerAuth()
+@Controller("workspaces/:workspaceId/invitations")
+export class WorkspaceInvitationGatewayController {
+  constructor(private readonly invitations: WorkspaceInvitationsGatewayService) {}
+
+  @Post()
+  @HttpCode(201)
+  @Auth()
+  @ApiOperation({ summary: "Invite a user to the workspace with the role granted on acceptance" })
+  @ApiBody({ type: InviteWorkspaceMemberDto })
+  @ApiOkResponse({ type: WorkspaceInvitationDto })
+  async invite(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Body() body: InviteWorkspaceMemberDto): Promise<WorkspaceInvitationDto> {
+    if (!workspaceId) throw new BadRequestException("workspaceId is required");
+    const res = await this.invitations.invite(user.user_id, workspaceId, body);
+    return normalizeObject(res) as WorkspaceInvitationDto;
+  }
+
+  @Get()
+  @Auth()
+  @ApiOperation({ summary: "List the pending invitations of the workspace" })
+  @ApiQuery({ name: "include_expired", required: false, schema: { type: "boolean", default: false, nullable: true } })
+  @ApiOkResponse({ type: WorkspaceInvitationsListDto })
+  async list(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param("workspaceId") workspaceId: string,
+    @Query("include_expired") includeExpired?: string,
+  ): Promise<WorkspaceInvitationsListDto> {
+    if (!workspaceId) throw new BadRequestException("workspaceId is required");
+    const res = await this.invitations.list(user.user_id, workspaceId, includeExpired === "true");
+    return normalizeObject(res) as WorkspaceInvitationsListDto;
+  }
+
+  @Post(":id/resend")
+  @Auth()
+  @ApiOperation({ summary: "Resend an invitation (new token, validity extended by 7 days)" })
+  @ApiOkResponse({ type: WorkspaceInvitationDto })
+  async resend(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string): Promise<WorkspaceInvitationDto> {
+    if (!workspaceId) throw new BadRequestException("workspaceId is required");
+    const res = await this.invitations.resend(user.user_id, workspaceId, id);
+    return normalizeObject(res) as WorkspaceInvitationDto;
+  }
+
+  @Delete(":id")
+  @Auth()
+  @HttpCode(204)
+  @ApiOperation({ summary: "Revoke a pending invitation" })
+  async revoke(@CurrentUser() user: AuthenticatedUser, @Param("workspaceId") workspaceId: string, @Param("id") id: string) {
+    if (!workspaceId) throw new BadRequestException("workspaceId is required");
+    await this.invitations.revoke(user.user_id, workspaceId, id);
+  }
+}
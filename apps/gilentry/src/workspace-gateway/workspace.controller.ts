@@ -73,10 +73,11 @@ export class WorkspaceGatewayController {
     @Query("skip") skip?: string,
     @Query("take") take?: string,
   ): Promise<WorkspacesListDto> {
+    const isNullish = (v?: string) => v == null || v === "" || v.toLowerCase?.() === "null";
     const params: BaseSearchQueryDto = {
       search: search ?? "",
       skip: skip ?? 0,
-      take: take ?? 10,
+      take: !isNullish(take) ? Number(take) : undefined,
     } as BaseSearchQueryDto;
 
     const result = await this.workspaces.getOverview(user.user_id, params);
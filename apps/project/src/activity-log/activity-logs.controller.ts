@@ -0,0 +1,64 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { ActivityLogFilterDto, ActivityLogScope, ActivityLogStatsDto } from "@shared/types";
+import { ActivityLogsService } from "./activity-logs.service";
+
+type ActivityLogScopeRequest = ActivityLogScope & { user_id: string; filter?: ActivityLogFilterDto };
+
+@Controller()
+export class ActivityLogsController {
+  constructor(
+    private readonly activityLogsService: ActivityLogsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("ActivityLogs", "Search")
+  async search(data: ActivityLogScopeRequest) {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "activity-logs.grpc.search",
+      message: "gRPC Search activity logs request",
+      data,
+    });
+
+    const { user_id, filter, ...scope } = data;
+    const list = await this.activityLogsService.search(user_id, scope, filter);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "activity-logs.grpc.search",
+      message: "gRPC Search activity logs response",
+      data: { total: list.total, count: list.items.length },
+    });
+
+    // Les métadonnées JSON transitent sérialisées sur le fil gRPC
+    return { ...list, items: list.items.map(item => ({ ...item, metadata: JSON.stringify(item.metadata ?? {}) })) };
+  }
+
+  @GrpcMethod("ActivityLogs", "GetStats")
+  async getStats(data: ActivityLogScopeRequest): Promise<ActivityLogStatsDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "activity-logs.grpc.getStats",
+      message: "gRPC GetStats activity logs request",
+      data,
+    });
+
+    const { user_id, filter, ...scope } = data;
+    const stats = await this.activityLogsService.getStats(user_id, scope, filter);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "activity-logs.grpc.getStats",
+      message: "gRPC GetStats activity logs response",
+      data: { total: stats.total_logs },
+    });
+
+    return stats;
+  }
+}
@@ -0,0 +1,354 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  ActivityLogDto,
+  ActivityLogDtoSelect,
+  ActivityLogFilterDto,
+  ActivityLogScope,
+  ActivityLogsListDto,
+  ActivityLogStatsDto,
+  CreateActivityLogDto,
+} from "@shared/types";
+import { getRequestContext } from "@shared/utils";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+
+/**
+ * Entrée à journaliser. L'IP et le user agent sont lus depuis le contexte de la requête gRPC.
+ * `before`/`after` sont comparés pour produire le diff stocké dans `metadata.changes`.
+ */
+export interface RecordActivityInput extends Omit<CreateActivityLogDto, "ip_address" | "user_agent" | "session_id"> {
+  workspace_id?: string;
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+}
+
+export type ActivityChanges = Record<string, { from: unknown; to: unknown }>;
+
+/** Champs techniques exclus du diff */
+const IGNORED_DIFF_FIELDS = new Set(["created_at", "created_by", "updated_at", "updated_by"]);
+
+type ActivityLogRow = Prisma.activity_logsGetPayload<{ select: typeof ActivityLogDtoSelect }>;
+
+/**
+ * Service du journal d'activité
+ *
+ * Ce service enregistre et expose la piste d'audit des mutations :
+ * - record: Enregistrement d'une entrée avec diff avant/après, IP et user agent (ne lève jamais)
+ * - search: Liste paginée des entrées d'un ticket, projet, workspace ou utilisateur
+ * - getStats: Statistiques agrégées sur le même périmètre
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class ActivityLogsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {}
+
+  /**
+   * Enregistre une entrée dans le journal d'activité.
+   * Les erreurs sont journalisées mais jamais propagées : l'audit ne doit pas faire échouer la mutation.
+   *
+   * @param entry Entrée à journaliser
+   */
+  async record(entry: RecordActivityInput): Promise<void> {
+    const { workspace_id, before, after, metadata, ...rest } = entry;
+    const { ip_address, user_agent } = getRequestContext();
+
+    try {
+      const changes = ActivityLogsService.diff(before, after);
+      const data: Prisma.activity_logsUncheckedCreateInput = {
+        ...rest,
+        metadata: {
+          ...(metadata ?? {}),
+          ...(workspace_id ? { workspace_id } : {}),
+          ...(Object.keys(changes).length > 0 ? { changes } : {}),
+        } as Prisma.InputJsonValue,
+        ip_address,
+        user_agent,
+      };
+
+      await this.prisma.activity_logs.create({ data });
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "project",
+        func: "activity-logs.record",
+        message: "Failed to record activity log",
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+          action: entry.action,
+          entityType: entry.entity_type,
+          entityId: entry.entity_id ?? entry.entity_uuid,
+        },
+      });
+    }
+  }
+
+  /**
+   * Calcule le diff champ par champ entre deux états d'une entité.
+   * - Création (before absent) : valeurs scalaires de `after`
+   * - Suppression (after absent) : valeurs scalaires de `before`
+   * - Mise à jour : champs communs aux deux états dont la valeur a changé
+   *
+   * @param before État avant la mutation
+   * @param after État après la mutation
+   * @returns Les champs modifiés avec leur ancienne et nouvelle valeur
+   */
+  static diff(before?: Record<string, any> | null, after?: Record<string, any> | null): ActivityChanges {
+    const changes: ActivityChanges = {};
+    if (!before && !after) return changes;
+
+    const keys = before && after ? Object.keys(before).filter(key => key in after) : Object.keys(before ?? after ?? {});
+
+    for (const key of keys) {
+      if (IGNORED_DIFF_FIELDS.has(key)) continue;
+
+      const from = toComparable(before?.[key]);
+      const to = toComparable(after?.[key]);
+
+      // Les relations imbriquées ne sont conservées que pour les mises à jour (colonnes JSON)
+      if ((!before || !after) && isNestedObject(from ?? to)) continue;
+
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[key] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Liste les entrées du journal sur un périmètre donné avec pagination
+   *
+   * @param userId ID de l'utilisateur effectuant la recherche
+   * @param scope Périmètre (ticket, projet, workspace ou utilisateur)
+   * @param filter Filtres additionnels et pagination
+   * @returns Liste paginée des entrées
+   * @throws NotFoundException Si l'entité du périmètre n'existe pas
+   * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   */
+  async search(userId: string, scope: ActivityLogScope, filter?: ActivityLogFilterDto): Promise<ActivityLogsListDto> {
+    const skip = filter?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, filter?.take, 25);
+
+    try {
+      const where = await this.buildScopedWhere(userId, scope, filter);
+
+      const [rows, total] = await Promise.all([
+        this.prisma.activity_logs.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { created_at: "desc" },
+          select: ActivityLogDtoSelect,
+        }),
+        this.prisma.activity_logs.count({ where }),
+      ]);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "activity-logs.search",
+        message: `Successfully fetched ${rows.length} activity logs out of ${total}`,
+        data: { userId, scope, count: rows.length, total, skip, take },
+      });
+
+      return { items: rows.map(row => this.toDto(row)), total, skip, take };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "activity-logs.search",
+          message: `Failed to search activity logs: ${error.message}`,
+          data: { error: error.message, scope, filter },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to search activity logs: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Calcule les statistiques du journal sur un périmètre donné
+   *
+   * @param userId ID de l'utilisateur effectuant la requête
+   * @param scope Périmètre (ticket, projet, workspace ou utilisateur)
+   * @param filter Filtres additionnels (la pagination est ignorée)
+   * @returns Les statistiques agrégées
+   * @throws NotFoundException Si l'entité du périmètre n'existe pas
+   * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   */
+  async getStats(userId: string, scope: ActivityLogScope, filter?: ActivityLogFilterDto): Promise<ActivityLogStatsDto> {
+    try {
+      const where = await this.buildScopedWhere(userId, scope, filter);
+
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+
+      const [totalLogs, todayLogs, byUser, byAction, byEntity, byIp] = await Promise.all([
+        this.prisma.activity_logs.count({ where }),
+        this.prisma.activity_logs.count({ where: { AND: [where, { created_at: { gte: startOfToday } }] } }),
+        this.prisma.activity_logs.groupBy({ by: ["user_id"], where, _count: { _all: true } }),
+        this.prisma.activity_logs.groupBy({ by: ["action"], where, _count: { _all: true } }),
+        this.prisma.activity_logs.groupBy({ by: ["entity_type"], where, _count: { _all: true } }),
+        this.prisma.activity_logs.groupBy({ by: ["ip_address"], where: { AND: [where, { ip_address: { not: null } }] }, _count: { _all: true } }),
+      ]);
+
+      const stats: ActivityLogStatsDto = {
+        total_logs: totalLogs,
+        today_logs: todayLogs,
+        unique_users: byUser.length,
+        actions_distribution: Object.fromEntries(byAction.map(g => [g.action, g._count._all])) as Record<ActivityAction, number>,
+        entities_distribution: Object.fromEntries(byEntity.map(g => [g.entity_type, g._count._all])) as Record<ActivityEntityType, number>,
+        ip_distribution: Object.fromEntries(byIp.map(g => [g.ip_address ?? "unknown", g._count._all])),
+      };
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "activity-logs.getStats",
+        message: "Successfully computed activity log stats",
+        data: { userId, scope, total: totalLogs },
+      });
+
+      return stats;
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "activity-logs.getStats",
+          message: `Failed to compute activity log stats: ${error.message}`,
+          data: { error: error.message, scope },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to compute activity log stats: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  // Helpers
+  /**
+   * Construit la clause where du périmètre après vérification des droits de lecture
+   */
+  private async buildScopedWhere(userId: string, scope: ActivityLogScope, filter?: ActivityLogFilterDto): Promise<Prisma.activity_logsWhereInput> {
+    const conditions: Prisma.activity_logsWhereInput[] = [this.buildFilterWhere(filter)];
+
+    if (scope.ticket_id) {
+      const ticket = await this.prisma.tickets.findUnique({
+        where: { id: Number(scope.ticket_id) },
+        select: { id: true, project: { select: { workspace_id: true } } },
+      });
+      if (!ticket) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Ticket with ID "${scope.ticket_id}" not found` });
+      }
+      if (!ticket.project || !(await this.workspaceMembersService.hasRight(ticket.project.workspace_id, userId, "get", "project"))) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view this ticket's activity" });
+      }
+      conditions.push({ ticket_id: ticket.id });
+    } else if (scope.project_id) {
+      const project = await this.prisma.projects.findUnique({
+        where: { id: Number(scope.project_id) },
+        select: { id: true, workspace_id: true },
+      });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${scope.project_id}" not found` });
+      }
+      if (!(await this.workspaceMembersService.hasRight(project.workspace_id, userId, "get", "project"))) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view this project's activity" });
+      }
+      conditions.push({ project_id: project.id });
+    } else if (scope.workspace_id) {
+      if (!(await this.workspaceMembersService.hasRight(scope.workspace_id, userId, "get", "workspace"))) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view this workspace's activity" });
+      }
+      conditions.push(this.workspaceCondition([scope.workspace_id]));
+    } else if (scope.target_user_id) {
+      conditions.push({ user_id: scope.target_user_id });
+      // L'activité d'un autre utilisateur est limitée aux workspaces partagés avec le demandeur
+      if (scope.target_user_id !== userId) {
+        const memberships = await this.prisma.workspace_members.findMany({
+          where: { user_id: userId, is_active: true },
+          select: { workspace_id: true },
+        });
+        conditions.push(this.workspaceCondition(memberships.map(m => m.workspace_id)));
+      }
+    } else {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "An activity scope (ticket, project, workspace or user) is required" });
+    }
+
+    return { AND: conditions };
+  }
+
+  /**
+   * Les entrées rattachées à un projet sont résolues via le projet, les autres via `metadata.workspace_id`
+   */
+  private workspaceCondition(workspaceIds: string[]): Prisma.activity_logsWhereInput {
+    return {
+      OR: [{ project: { workspace_id: { in: workspaceIds } } }, ...workspaceIds.map(id => ({ metadata: { path: ["workspace_id"], equals: id } }))],
+    };
+  }
+
+  private buildFilterWhere(filter?: ActivityLogFilterDto): Prisma.activity_logsWhereInput {
+    const where: Prisma.activity_logsWhereInput = {};
+    if (!filter) return where;
+
+    if (filter.start_date || filter.end_date) {
+      where.created_at = {
+        ...(filter.start_date ? { gte: new Date(filter.start_date) } : {}),
+        ...(filter.end_date ? { lte: new Date(filter.end_date) } : {}),
+      };
+    }
+    if (filter.action) where.action = filter.action;
+    if (filter.entity_type) where.entity_type = filter.entity_type;
+    if (filter.entity_id) where.entity_id = Number(filter.entity_id);
+    if (filter.entity_uuid) where.entity_uuid = filter.entity_uuid;
+    if (filter.user_id) where.user_id = filter.user_id;
+    if (filter.project_id) where.project_id = Number(filter.project_id);
+    if (filter.ticket_id) where.ticket_id = Number(filter.ticket_id);
+    if (filter.ip_address) where.ip_address = filter.ip_address;
+    if (filter.session_id) where.session_id = filter.session_id;
+
+    return where;
+  }
+
+  private toDto(row: ActivityLogRow): ActivityLogDto {
+    const { profile, ...log } = row;
+    return {
+      ...log,
+      id: Number(log.id),
+      created_at: log.created_at.toISOString(),
+      metadata: (log.metadata ?? null) as Record<string, any> | null,
+      user: profile,
+    };
+  }
+}
+
+function toComparable(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (value === undefined) return null;
+  return value;
+}
+
+function isNestedObject(value: unknown): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
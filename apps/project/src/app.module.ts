@@ -3,7 +3,14 @@ import { HealthController } from "./health.controller";
 import { TicketsController } from "./ticket/tickets.controller";
 import { SprintsController } from "./sprint/sprints.controller";
 import { TicketsService } from "./ticket/tickets.service";
+import { TicketNumberingService } from "./ticket/ticket-numbering.service";
+import { TicketRankingService } from "./ticket/ticket-ranking.service";
+import { TicketDependenciesService } from "./ticket/ticket-dependencies.service";
+import { TicketBacklogService } from "./ticket/ticket-backlog.service";
+import { TicketDraftsService } from "./ticket/ticket-drafts.service";
 import { SprintsService } from "./sprint/sprints.service";
+import { SprintBurndownService } from "./sprint/sprint-burndown.service";
+import { SprintCapacityService } from "./sprint/sprint-capacity.service";
 import { ProjectsService } from "./project/projects.service";
 import { ProjectsController } from "./project/projects.controller";
 import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
@@ -16,10 +23,104 @@ import { EpicsService } from "./epic/epics.service";
 import { TeamMembersService } from "apps/workspace/src/team/team-members.service";
 import { TasksController } from "./task/tasks.controller";
 import { TasksService } from "./task/tasks.service";
+import { TicketCommentsController } from "./ticket-comment/ticket-comments.controller";
+import { TicketCommentsService } from "./ticket-comment/ticket-comments.service";
+import { ActivityLogsController } from "./activity-log/activity-logs.controller";
+import { ActivityLogsService } from "./activity-log/activity-logs.service";
+import { NotificationsController } from "./notification/notifications.controller";
+import { NotificationsService } from "./notification/notifications.service";
+import { NotificationDigestsService } from "./notification/notification-digests.service";
+import { MAIL_TRANSPORT } from "./notification/mail/mail-transport";
+import { SmtpMailTransport } from "./notification/mail/smtp-mail.transport";
+import { NOTIFICATION_CHANNELS } from "./notification/channels/notification-channel";
+import { EmailChannel } from "./notification/channels/email.channel";
+import { PushChannel } from "./notification/channels/push.channel";
+import { SmsChannel } from "./notification/channels/sms.channel";
+import { AuthUsersGatewayModule } from "libs/shared/utils/src/client/auth/auth-users-gateway.module";
+import { StackController } from "./stack/stack.controller";
+import { StackService } from "./stack/stack.service";
+import { LanguagesController } from "./language/languages.controller";
+import { LanguagesService } from "./language/languages.service";
+import { TicketWorkflowsController } from "./workflow/ticket-workflows.controller";
+import { TicketWorkflowsService } from "./workflow/ticket-workflows.service";
+import { ProgressService } from "./progress/progress.service";
+import { WorklogsController } from "./worklog/worklogs.controller";
+import { WorklogsService } from "./worklog/worklogs.service";
+import { SavedViewsController } from "./view/saved-views.controller";
+import { SavedViewsService } from "./view/saved-views.service";
+import { AgentsService } from "apps/workspace/src/agent/agents.service";
+import { LLM_PROVIDER } from "apps/chat/src/llm/llm-provider";
+import { EchoLlmProvider } from "apps/chat/src/llm/echo-llm.provider";
+import { OpenAiLlmProvider } from "apps/chat/src/llm/openai-llm.provider";
+import { ModelUsageService } from "apps/chat/src/usage/model-usage.service";
+import { ModelPriceTable } from "apps/chat/src/usage/model-price-table";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { GrpcRequestContextInterceptor } from "@shared/utils";
 
 @Module({
-  imports: [LoggerClientModule, PrismaModule, TeamsGatewayModule],
-  controllers: [HealthController, TicketsController, SprintsController, ProjectsController, EpicsController, TasksController],
-  providers: [TicketsService, SprintsService, ProjectsService, EpicsService, WorkspaceMembersService, TeamsService, TeamMembersService, TasksService],
+  imports: [LoggerClientModule, PrismaModule, TeamsGatewayModule, AuthUsersGatewayModule],
+  controllers: [
+    HealthController,
+    TicketsController,
+    SprintsController,
+    ProjectsController,
+    EpicsController,
+    TasksController,
+    TicketCommentsController,
+    ActivityLogsController,
+    NotificationsController,
+    StackController,
+    LanguagesController,
+    TicketWorkflowsController,
+    WorklogsController,
+    SavedViewsController,
+  ],
+  providers: [
+    TicketsService,
+    TicketNumberingService,
+    TicketRankingService,
+    TicketDependenciesService,
+    TicketBacklogService,
+    TicketDraftsService,
+    SprintsService,
+    SprintBurndownService,
+    SprintCapacityService,
+    ProjectsService,
+    EpicsService,
+    WorkspaceMembersService,
+    TeamsService,
+    TeamMembersService,
+    TasksService,
+    TicketCommentsService,
+    ActivityLogsService,
+    NotificationsService,
+    NotificationDigestsService,
+    StackService,
+    LanguagesService,
+    TicketWorkflowsService,
+    ProgressService,
+    WorklogsService,
+    SavedViewsService,
+    AgentsService,
+    ModelUsageService,
+    ModelPriceTable,
+    EchoLlmProvider,
+    OpenAiLlmProvider,
+    {
+      provide: LLM_PROVIDER,
+      useFactory: (echo: EchoLlmProvider, openai: OpenAiLlmProvider) => (process.env.LLM_PROVIDER === "openai" ? openai : echo),
+      inject: [EchoLlmProvider, OpenAiLlmProvider],
+    },
+    { provide: MAIL_TRANSPORT, useClass: SmtpMailTransport },
+    EmailChannel,
+    PushChannel,
+    SmsChannel,
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (email: EmailChannel, push: PushChannel, sms: SmsChannel) => [email, push, sms],
+      inject: [EmailChannel, PushChannel, SmsChannel],
+    },
+    { provide: APP_INTERCEPTOR, useClass: GrpcRequestContextInterceptor },
+  ],
 })
 export class AppModule {}
@@ -1,7 +1,7 @@
 import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import { plainToInstance } from "class-transformer";
 import {
@@ -15,8 +15,14 @@ import {
   EpicOverview,
   BasePaginationDto,
   SearchQueryBuilder,
+  ActivityAction,
+  ActivityEntityType,
+  SavedViewEntityType,
 } from "@shared/types";
 import { TeamMembersService } from "apps/workspace/src/team/team-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { ProgressService } from "../progress/progress.service";
+import { SavedViewsService } from "../view/saved-views.service";
 import { Prisma, EpicStatus, EpicCategory } from "@prisma/client";
 
 @Injectable()
@@ -25,6 +31,9 @@ export class EpicsService {
     private readonly prisma: PrismaService,
     private readonly logger: LoggerClientService,
     private readonly teamMembersService: TeamMembersService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly progress: ProgressService,
+    private readonly savedViews: SavedViewsService,
   ) {}
 
   // Helpers
@@ -85,24 +94,37 @@ export class EpicsService {
     }
 
     try {
-      const epic = await this.prisma.epics.create({
-        data: {
-          title: dto.title.trim(),
-          slug,
-          description: dto.description?.trim() ?? null,
-          category: dto.category,
-          status: dto.status ?? EpicStatus.TODO,
-          priority: dto.priority ?? 0,
-          start_date: dto.start_date ? new Date(dto.start_date) : null,
-          project_id: dto.project_id,
-          created_by: userId,
-          updated_by: userId,
-        },
-        select: EpicDtoSelect,
+      const epic = await this.prisma.$transaction(async tx => {
+        const created = await tx.epics.create({
+          data: {
+            title: dto.title.trim(),
+            slug,
+            description: dto.description?.trim() ?? null,
+            category: dto.category,
+            status: dto.status ?? EpicStatus.TODO,
+            priority: dto.priority ?? 0,
+            start_date: dto.start_date ? new Date(dto.start_date) : null,
+            project_id: dto.project_id,
+            created_by: userId,
+            updated_by: userId,
+          },
+          select: EpicDtoSelect,
+        });
+        await this.progress.refreshEpics(tx, [created.id]);
+        return tx.epics.findUniqueOrThrow({ where: { id: created.id }, select: EpicDtoSelect });
       });
 
       await this.logger.log({ level: "info", service: "epic", func: "epics.create", message: "Epic created successfully", data: { id: epic.id } });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.EPIC,
+        entity_id: epic.id,
+        project_id: dto.project_id,
+        after: epic,
+      });
+
       return plainToInstance(EpicDto, epic, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -128,16 +150,17 @@ export class EpicsService {
     if (!allowed) {
       throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view epics for this project" });
     }
+    params = await this.savedViews.applyView(userId, SavedViewEntityType.EPIC, projectId, params);
 
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
-    const where: Prisma.epicsWhereInput = { project_id: projectId };
+    let where: Prisma.epicsWhereInput = { project_id: projectId };
     if (params?.search && params.search.trim()) {
       where.OR = [{ title: { contains: params.search.trim(), mode: "insensitive" } }, { description: { contains: params.search.trim(), mode: "insensitive" } }];
     }
     if (params?.filters) {
-      Object.assign(where, params.filters as Prisma.epicsWhereInput);
+      where = SearchQueryBuilder.applyFilters(where, params.filters);
     }
 
     const orderBy = SearchQueryBuilder.buildSortOptions(params?.sortBy);
@@ -182,7 +205,7 @@ export class EpicsService {
     }
 
     // Ensure epic exists and get project_id
-    const existing = await this.prisma.epics.findUnique({ where: { id }, select: { id: true, slug: true, project_id: true } });
+    const existing = await this.prisma.epics.findUnique({ where: { id } });
     if (!existing) {
       throw new RpcException({ code: status.NOT_FOUND, message: `Epic with ID "${id}" not found"` });
     }
@@ -195,23 +218,37 @@ export class EpicsService {
       }
     }
 
-    const updated = await this.prisma.epics.update({
-      where: { id },
-      data: {
-        title: dto.title?.trim(),
-        slug: dto.slug?.trim(),
-        description: dto.description?.trim(),
-        category: dto.category as unknown as EpicCategory,
-        status: dto.status as unknown as EpicStatus,
-        priority: dto.priority ?? undefined,
-        updated_by: userId,
-        updated_at: new Date(),
-      },
-      select: EpicDtoSelect,
+    // Progress is derived from tasks; a status change (DONE, CANCELLED) also affects the project progress
+    const updated = await this.prisma.$transaction(async tx => {
+      await tx.epics.update({
+        where: { id },
+        data: {
+          title: dto.title?.trim(),
+          slug: dto.slug?.trim(),
+          description: dto.description?.trim(),
+          category: dto.category as unknown as EpicCategory,
+          status: dto.status as unknown as EpicStatus,
+          priority: dto.priority ?? undefined,
+          updated_by: userId,
+          updated_at: new Date(),
+        },
+      });
+      await this.progress.refreshEpics(tx, [id]);
+      return tx.epics.findUniqueOrThrow({ where: { id }, select: EpicDtoSelect });
     });
 
     await this.logger.log({ level: "info", service: "epic", func: "epics.update", message: `Epic updated successfully: ${id}` });
 
+    await this.activityLogs.record({
+      user_id: userId,
+      action: ActivityAction.UPDATED,
+      entity_type: ActivityEntityType.EPIC,
+      entity_id: id,
+      project_id: existing.project_id,
+      before: existing,
+      after: updated,
+    });
+
     return plainToInstance(EpicDto, updated, { excludeExtraneousValues: true });
   }
 
@@ -225,13 +262,25 @@ export class EpicsService {
       throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to delete this epic" });
     }
 
-    const existing = await this.prisma.epics.findUnique({ where: { id }, select: { id: true } });
+    const existing = await this.prisma.epics.findUnique({ where: { id } });
     if (!existing) {
       throw new RpcException({ code: status.NOT_FOUND, message: `Epic with ID "${id}" not found` });
     }
 
-    await this.prisma.epics.delete({ where: { id } });
+    await this.prisma.$transaction(async tx => {
+      await tx.epics.delete({ where: { id } });
+      await this.progress.refreshProjects(tx, [existing.project_id]);
+    });
 
     await this.logger.log({ level: "info", service: "epic", func: "epics.delete", message: `Epic deleted: ${id}` });
+
+    await this.activityLogs.record({
+      user_id: userId,
+      action: ActivityAction.DELETED,
+      entity_type: ActivityEntityType.EPIC,
+      entity_id: id,
+      project_id: existing.project_id,
+      before: existing,
+    });
   }
 }
@@ -0,0 +1,119 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { BaseSearchQueryDto, CreateLanguageDto, LanguageDto, LanguageListDto, UpdateLanguageDto } from "@shared/types";
+import { LanguagesService } from "./languages.service";
+
+/**
+ * Controller gRPC du catalogue de langages
+ *
+ * Endpoints exposés:
+ * - Create: Ajout d'un langage au catalogue
+ * - Search: Liste paginée des langages avec recherche
+ * - GetById: Récupération d'un langage par son ID
+ * - Update: Mise à jour d'un langage
+ * - Delete: Suppression d'un langage inutilisé
+ */
+@Controller()
+export class LanguagesController {
+  constructor(
+    private readonly languagesService: LanguagesService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Languages", "Create")
+  async create(data: { user_id: string; dto: CreateLanguageDto }): Promise<LanguageDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.create",
+      message: "gRPC Create language request",
+      data: { user_id: data.user_id, name: data.dto?.name },
+    });
+
+    const language = await this.languagesService.create(data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.create",
+      message: "gRPC Create language response",
+      data: { languageId: language.id },
+    });
+
+    return language;
+  }
+
+  @GrpcMethod("Languages", "Search")
+  async search(data: { user_id: string; params?: BaseSearchQueryDto }): Promise<LanguageListDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.search",
+      message: "gRPC Search languages request",
+      data,
+    });
+
+    const list = await this.languagesService.search(data.user_id, data.params);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.search",
+      message: "gRPC Search languages response",
+      data: { total: list.total, count: list.items.length },
+    });
+
+    return list;
+  }
+
+  @GrpcMethod("Languages", "GetById")
+  async getById(data: { user_id: string; id: number }): Promise<LanguageDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.getById",
+      message: `gRPC GetById language request for id ${data.id}`,
+      data,
+    });
+
+    return this.languagesService.getById(data.id);
+  }
+
+  @GrpcMethod("Languages", "Update")
+  async update(data: { user_id: string; id: number; dto: UpdateLanguageDto }): Promise<LanguageDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.update",
+      message: `gRPC Update language request for id ${data.id}`,
+      data: { user_id: data.user_id, id: data.id },
+    });
+
+    const language = await this.languagesService.update(data.id, data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.update",
+      message: `gRPC Update language response for id ${data.id}`,
+      data: { languageId: language.id },
+    });
+
+    return language;
+  }
+
+  @GrpcMethod("Languages", "Delete")
+  async delete(data: { user_id: string; id: number }): Promise<Record<string, never>> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "languages.grpc.delete",
+      message: `gRPC Delete language request for id ${data.id}`,
+      data,
+    });
+
+    await this.languagesService.delete(data.id, data.user_id);
+    return {};
+  }
+}
@@ -0,0 +1,290 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, UserRole } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  BasePaginationDto,
+  BaseSearchQueryDto,
+  CreateLanguageDto,
+  LanguageDto,
+  LanguageDtoSelect,
+  LanguageListDto,
+  UpdateLanguageDto,
+} from "@shared/types";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+
+/** Champs autorisés pour le tri du catalogue */
+const LANGUAGE_SORT_FIELDS = ["name", "created_at", "updated_at"] as const;
+
+type LanguageRow = Prisma.languagesGetPayload<{ select: typeof LanguageDtoSelect }>;
+
+/**
+ * Service du catalogue de langages
+ *
+ * Ce service gère le référentiel global des langages utilisés par les stacks :
+ * - create: Ajout d'un langage (nom unique)
+ * - search: Liste paginée avec recherche sur le nom et la description
+ * - getById: Récupération d'un langage avec son nombre de stacks
+ * - update: Mise à jour partielle d'un langage
+ * - delete: Suppression d'un langage qui n'est utilisé par aucune stack
+ *
+ * La lecture est ouverte à tout utilisateur authentifié ; les mutations sont réservées aux SUPER_ADMIN.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class LanguagesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  /**
+   * Ajoute un langage au catalogue
+   *
+   * @param dto Données du langage
+   * @param userId ID de l'utilisateur effectuant la création
+   * @returns Le langage créé
+   */
+  async create(dto: CreateLanguageDto, userId: string): Promise<LanguageDto> {
+    await this.assertCanManage(userId);
+
+    const name = dto?.name?.trim();
+    if (!name) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Name is required" });
+    }
+    this.validateColor(dto.color);
+
+    try {
+      const language = await this.prisma.languages.create({
+        data: {
+          name,
+          icon: dto.icon?.trim() || null,
+          color: dto.color || null,
+          description: dto.description?.trim() || null,
+        },
+        select: LanguageDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "language.create",
+        message: `Language created successfully: ${language.name}`,
+        data: { languageId: language.id, userId },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.LANGUAGE,
+        entity_id: language.id,
+        after: language,
+      });
+
+      return this.toDto(language);
+    } catch (error) {
+      throw await this.handleError(error, "language.create", "create", { name, userId });
+    }
+  }
+
+  /**
+   * Liste paginée du catalogue, triée par nom par défaut
+   *
+   * @param userId ID de l'utilisateur effectuant la recherche
+   * @param params Paramètres de recherche et pagination
+   * @returns Liste paginée des langages
+   */
+  async search(userId: string, params?: BaseSearchQueryDto): Promise<LanguageListDto> {
+    const skip = params?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
+
+    const where: Prisma.languagesWhereInput = {};
+    if (params?.search && params.search.trim()) {
+      where.OR = [{ name: { contains: params.search.trim(), mode: "insensitive" } }, { description: { contains: params.search.trim(), mode: "insensitive" } }];
+    }
+
+    const sortField = LANGUAGE_SORT_FIELDS.find(field => field === params?.sortBy?.field) ?? "name";
+    const sortOrder = params?.sortBy?.order?.toLowerCase() === "desc" ? Prisma.SortOrder.desc : Prisma.SortOrder.asc;
+
+    const [items, total] = await this.prisma.$transaction([
+      this.prisma.languages.findMany({ where, orderBy: { [sortField]: sortOrder }, skip, take, select: LanguageDtoSelect }),
+      this.prisma.languages.count({ where }),
+    ]);
+
+    return BasePaginationDto.create(
+      items.map(item => this.toDto(item)),
+      total,
+      skip,
+      take,
+      LanguageListDto,
+    );
+  }
+
+  /**
+   * Récupère un langage par son ID
+   *
+   * @param id ID du langage
+   * @returns Le langage avec son nombre de stacks
+   */
+  async getById(id: number): Promise<LanguageDto> {
+    return this.toDto(await this.getLanguageOrThrow(id));
+  }
+
+  /**
+   * Met à jour un langage du catalogue
+   *
+   * @param id ID du langage
+   * @param dto Champs à modifier
+   * @param userId ID de l'utilisateur effectuant la modification
+   * @returns Le langage mis à jour
+   */
+  async update(id: number, dto: UpdateLanguageDto, userId: string): Promise<LanguageDto> {
+    await this.assertCanManage(userId);
+    const existing = await this.getLanguageOrThrow(id);
+
+    if (dto.name !== undefined && !dto.name.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Name cannot be empty" });
+    }
+    this.validateColor(dto.color);
+
+    const data: Prisma.languagesUpdateInput = { updated_at: new Date() };
+    if (dto.name !== undefined) data.name = dto.name.trim();
+    if (dto.icon !== undefined) data.icon = dto.icon?.trim() || null;
+    if (dto.color !== undefined) data.color = dto.color || null;
+    if (dto.description !== undefined) data.description = dto.description?.trim() || null;
+
+    try {
+      const language = await this.prisma.languages.update({ where: { id }, data, select: LanguageDtoSelect });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "language.update",
+        message: `Language updated successfully: ${language.name}`,
+        data: { languageId: id, userId },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.LANGUAGE,
+        entity_id: id,
+        before: existing,
+        after: language,
+      });
+
+      return this.toDto(language);
+    } catch (error) {
+      throw await this.handleError(error, "language.update", "update", { languageId: id, userId });
+    }
+  }
+
+  /**
+   * Supprime un langage. Refusé tant qu'une stack y fait référence.
+   *
+   * @param id ID du langage
+   * @param userId ID de l'utilisateur effectuant la suppression
+   */
+  async delete(id: number, userId: string): Promise<void> {
+    await this.assertCanManage(userId);
+    const existing = await this.getLanguageOrThrow(id);
+
+    if (existing._count.stacks > 0) {
+      throw new RpcException({
+        code: status.FAILED_PRECONDITION,
+        message: `Language "${existing.name}" is used by ${existing._count.stacks} stack(s) and cannot be deleted`,
+      });
+    }
+
+    try {
+      await this.prisma.languages.delete({ where: { id } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "language.delete",
+        message: `Language deleted successfully: ${existing.name}`,
+        data: { languageId: id, userId },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.LANGUAGE,
+        entity_id: id,
+        before: existing,
+      });
+    } catch (error) {
+      throw await this.handleError(error, "language.delete", "delete", { languageId: id, userId });
+    }
+  }
+
+  // Helpers
+  /**
+   * Le catalogue est global : seul un SUPER_ADMIN actif dans au moins un workspace peut le modifier
+   */
+  private async assertCanManage(userId: string): Promise<void> {
+    const membership = await this.prisma.workspace_members.findFirst({
+      where: { user_id: userId, role: UserRole.SUPER_ADMIN, is_active: true },
+      select: { id: true },
+    });
+    if (!membership) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "Only super administrators can manage the languages catalogue" });
+    }
+  }
+
+  private async getLanguageOrThrow(id: number): Promise<LanguageRow> {
+    if (!id || Number.isNaN(Number(id))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Language ID is required" });
+    }
+    const language = await this.prisma.languages.findUnique({ where: { id: Number(id) }, select: LanguageDtoSelect });
+    if (!language) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Language with ID "${id}" not found` });
+    }
+    return language;
+  }
+
+  private validateColor(color?: string): void {
+    if (color && !/^#[0-9a-fA-F]{6}$/.test(color)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Color must be a hexadecimal value such as #3178C6" });
+    }
+  }
+
+  private async handleError(error: unknown, func: string, operation: string, data: Record<string, unknown>): Promise<unknown> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    if (error instanceof Prisma.PrismaClientKnownRequestError) {
+      if (error.code === "P2002") {
+        return new RpcException({ code: status.ALREADY_EXISTS, message: "A language with this name already exists" });
+      }
+      if (error.code === "P2025") {
+        return new RpcException({ code: status.NOT_FOUND, message: "Language not found" });
+      }
+      if (error.code === "P2003") {
+        return new RpcException({ code: status.FAILED_PRECONDITION, message: "Language is still referenced by stacks" });
+      }
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    await this.loggerClient.log({ level: "error", service: "project", func, message: `Error during language ${operation}`, data: { ...data, error: message } });
+    return new RpcException({ code: status.INTERNAL, message: `Unable to ${operation} language: ${message}` });
+  }
+
+  private toDto(row: LanguageRow): LanguageDto {
+    const { _count, created_at, updated_at, ...rest } = row;
+    return {
+      ...rest,
+      stacks_count: _count.stacks,
+      created_at: created_at.toISOString(),
+      updated_at: updated_at ? updated_at.toISOString() : null,
+    };
+  }
+}
@@ -8,7 +8,22 @@ async function bootstrap() {
     transport: Transport.GRPC,
     options: {
       url: process.env.PROJECT_GRPC_URL ?? "0.0.0.0:50053",
-      package: ["health.v1", "tickets.v1", "sprints.v1", "projects.v1", "epics.v1", "tasks.v1"],
+      package: [
+        "health.v1",
+        "tickets.v1",
+        "sprints.v1",
+        "projects.v1",
+        "epics.v1",
+        "tasks.v1",
+        "ticket_comments.v1",
+        "activity_logs.v1",
+        "notifications.v1",
+        "stacks.v1",
+        "languages.v1",
+        "ticket_workflows.v1",
+        "worklogs.v1",
+        "saved_views.v1",
+      ],
       protoPath: [
         join(process.cwd(), "libs/proto/health/v1/health.proto"),
         join(process.cwd(), "libs/proto/tickets/v1/tickets.proto"),
@@ -16,6 +31,14 @@ async function bootstrap() {
         join(process.cwd(), "libs/proto/projects/v1/projects.proto"),
         join(process.cwd(), "libs/proto/epics/v1/epics.proto"),
         join(process.cwd(), "libs/proto/tasks/v1/tasks.proto"),
+        join(process.cwd(), "libs/proto/ticket-comments/v1/ticket-comments.proto"),
+        join(process.cwd(), "libs/proto/activity-logs/v1/activity-logs.proto"),
+        join(process.cwd(), "libs/proto/notifications/v1/notifications.proto"),
+        join(process.cwd(), "libs/proto/stacks/v1/stacks.proto"),
+        join(process.cwd(), "libs/proto/languages/v1/languages.proto"),
+        join(process.cwd(), "libs/proto/ticket-workflows/v1/ticket-workflows.proto"),
+        join(process.cwd(), "libs/proto/worklogs/v1/worklogs.proto"),
+        join(process.cwd(), "libs/proto/saved-views/v1/saved-views.proto"),
       ],
       loader: {
         keepCase: true,
@@ -0,0 +1,24 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { NotificationType } from "@shared/types";
+import { NotificationChannelAdapter, NotificationMessage } from "./notification-channel";
+import { MAIL_TRANSPORT, type MailTransport } from "../mail/mail-transport";
+
+/**
+ * Canal EMAIL, délégué au transport d'emails injecté (SMTP par défaut)
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationType.EMAIL;
+
+  constructor(@Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport) {}
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    if (!message.recipient.email) return false;
+
+    return this.mailTransport.send({
+      to: message.recipient.email,
+      subject: message.title,
+      text: message.body ?? message.title,
+    });
+  }
+}
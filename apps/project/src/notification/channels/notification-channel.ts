@@ -0,0 +1,49 @@
+import { NotificationEvent, NotificationType } from "@shared/types";
+
+/**
+ * Jeton d'injection de la liste des adaptateurs de canaux externes (EMAIL, PUSH, SMS).
+ * Les tests peuvent le surcharger avec des adaptateurs factices.
+ */
+export const NOTIFICATION_CHANNELS = "NOTIFICATION_CHANNELS";
+
+export interface NotificationRecipient {
+  user_id: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface NotificationMessage {
+  id: string;
+  event: NotificationEvent;
+  title: string;
+  body?: string | null;
+  recipient: NotificationRecipient;
+  project_id?: number | null;
+  ticket_id?: number | null;
+  sprint_id?: number | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Contrat d'un canal de diffusion externe.
+ * send() renvoie false lorsque le canal n'est pas configuré ou que le destinataire n'est pas joignable.
+ */
+export interface NotificationChannelAdapter {
+  readonly channel: Exclude<NotificationType, NotificationType.IN_APP>;
+  send(message: NotificationMessage): Promise<boolean>;
+}
+
+/**
+ * Envoie un message JSON vers un webhook HTTP (passerelles push et SMS)
+ */
+export async function postWebhook(url: string, token: string | undefined, payload: Record<string, any>): Promise<void> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) throw new Error(`Webhook error: ${response.status} - ${response.statusText}`);
+}
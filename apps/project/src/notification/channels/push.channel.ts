@@ -0,0 +1,26 @@
+import { Injectable } from "@nestjs/common";
+import { NotificationType } from "@shared/types";
+import { NotificationChannelAdapter, NotificationMessage, postWebhook } from "./notification-channel";
+
+/**
+ * Canal PUSH via une passerelle HTTP (PUSH_WEBHOOK_URL, PUSH_WEBHOOK_TOKEN)
+ */
+@Injectable()
+export class PushChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationType.PUSH;
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    const url = process.env.PUSH_WEBHOOK_URL;
+    if (!url) return false;
+
+    await postWebhook(url, process.env.PUSH_WEBHOOK_TOKEN, {
+      user_id: message.recipient.user_id,
+      notification_id: message.id,
+      event: message.event,
+      title: message.title,
+      body: message.body ?? undefined,
+      data: { project_id: message.project_id, ticket_id: message.ticket_id, sprint_id: message.sprint_id },
+    });
+    return true;
+  }
+}
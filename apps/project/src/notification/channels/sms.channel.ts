@@ -0,0 +1,22 @@
+import { Injectable } from "@nestjs/common";
+import { NotificationType } from "@shared/types";
+import { NotificationChannelAdapter, NotificationMessage, postWebhook } from "./notification-channel";
+
+/**
+ * Canal SMS via une passerelle HTTP (SMS_WEBHOOK_URL, SMS_WEBHOOK_TOKEN)
+ */
+@Injectable()
+export class SmsChannel implements NotificationChannelAdapter {
+  readonly channel = NotificationType.SMS;
+
+  async send(message: NotificationMessage): Promise<boolean> {
+    const url = process.env.SMS_WEBHOOK_URL;
+    if (!url || !message.recipient.phone) return false;
+
+    await postWebhook(url, process.env.SMS_WEBHOOK_TOKEN, {
+      to: message.recipient.phone,
+      text: message.body ? `${message.title}\n${message.body}` : message.title,
+    });
+    return true;
+  }
+}
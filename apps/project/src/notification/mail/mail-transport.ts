@@ -0,0 +1,19 @@
+/**
+ * Jeton d'injection du transport d'envoi d'emails (SMTP par défaut, remplaçable par un transport factice en test)
+ */
+export const MAIL_TRANSPORT = "MAIL_TRANSPORT";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Contrat d'un transport d'emails.
+ * send() renvoie false lorsque le transport n'est pas configuré.
+ */
+export interface MailTransport {
+  send(mail: MailMessage): Promise<boolean>;
+}
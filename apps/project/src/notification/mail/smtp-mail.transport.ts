@@ -0,0 +1,38 @@
+import { Injectable } from "@nestjs/common";
+import { createTransport, type Transporter } from "nodemailer";
+import { MailMessage, MailTransport } from "./mail-transport";
+
+/**
+ * Transport SMTP (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD, SMTP_FROM)
+ */
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  private transporter?: Transporter;
+
+  async send(mail: MailMessage): Promise<boolean> {
+    const transporter = this.getTransporter();
+    if (!transporter) return false;
+
+    await transporter.sendMail({
+      from: process.env.SMTP_FROM ?? "Gile <no-reply@gile.app>",
+      to: mail.to,
+      subject: mail.subject,
+      text: mail.text,
+      html: mail.html,
+    });
+    return true;
+  }
+
+  private getTransporter(): Transporter | undefined {
+    if (this.transporter) return this.transporter;
+    if (!process.env.SMTP_HOST) return undefined;
+
+    this.transporter = createTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT ?? 587),
+      secure: process.env.SMTP_SECURE === "true",
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD } : undefined,
+    });
+    return this.transporter;
+  }
+}
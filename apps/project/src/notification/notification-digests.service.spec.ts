@@ -0,0 +1,85 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { TicketStatus } from "@shared/types";
+import { AuthUsersGatewayService } from "libs/shared/utils/src/client/auth/auth-users.client";
+import { NotificationDigestsService } from "./notification-digests.service";
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from "./mail/mail-transport";
+
+const USER_ID = "8f7e2a51-3c1d-4b8e-9f0a-1d2c3b4a5e6f";
+// Mardi 12:00 à Paris, après l'heure d'envoi
+const NOW = new Date("2026-10-20T10:00:00Z");
+
+class FakeMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  send(mail: MailMessage): Promise<boolean> {
+    this.sent.push(mail);
+    return Promise.resolve(true);
+  }
+}
+
+describe("NotificationDigestsService", () => {
+  let service: NotificationDigestsService;
+  let mail: FakeMailTransport;
+  let claimedRows: number;
+  let prisma: {
+    user_notification_settings: Record<string, jest.Mock>;
+    user_preferences: Record<string, jest.Mock>;
+    workspace_members: Record<string, jest.Mock>;
+    activity_logs: Record<string, jest.Mock>;
+    tickets: Record<string, jest.Mock>;
+    sprints: Record<string, jest.Mock>;
+  };
+
+  beforeEach(async () => {
+    mail = new FakeMailTransport();
+    claimedRows = 1;
+
+    const dueTicket = { id: 42, title: "Login page", ticket_number: 7, status: TicketStatus.ACTIVE, due_date: new Date("2026-10-21"), project: { name: "Gile" } };
+    prisma = {
+      user_notification_settings: {
+        findMany: jest.fn(() =>
+          Promise.resolve([{ user_id: USER_ID, daily_digest: true, weekly_digest: false, digest_time: "08:00", last_daily_digest_at: null, last_weekly_digest_at: null }]),
+        ),
+        updateMany: jest.fn(() => Promise.resolve({ count: claimedRows })),
+      },
+      user_preferences: { findMany: jest.fn(() => Promise.resolve([{ user_id: USER_ID, timezone: "Europe/Paris" }])) },
+      workspace_members: { findMany: jest.fn(() => Promise.resolve([])) },
+      activity_logs: { findMany: jest.fn(() => Promise.resolve([])) },
+      tickets: { findMany: jest.fn(({ where }: { where: { due_date?: unknown } }) => Promise.resolve(where.due_date ? [dueTicket] : [])) },
+      sprints: { findMany: jest.fn(() => Promise.resolve([])) },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDigestsService,
+        { provide: MAIL_TRANSPORT, useValue: mail },
+        { provide: PrismaService, useValue: prisma },
+        { provide: LoggerClientService, useValue: { log: jest.fn(() => Promise.resolve()) } },
+        { provide: AuthUsersGatewayService, useValue: { getUser: jest.fn(() => Promise.resolve({ email: "assignee@gile.app" })) } },
+      ],
+    }).compile();
+
+    service = app.get<NotificationDigestsService>(NotificationDigestsService);
+  });
+
+  it("should claim the period on the previous send date before sending the digest", async () => {
+    await expect(service.sendDueDigests(NOW)).resolves.toBe(1);
+
+    expect(prisma.user_notification_settings.updateMany).toHaveBeenCalledWith({
+      where: { user_id: USER_ID, last_daily_digest_at: null },
+      data: { last_daily_digest_at: NOW },
+    });
+    expect(mail.sent.map(message => message.to)).toEqual(["assignee@gile.app"]);
+  });
+
+  it("should skip the digest when another instance already claimed the period", async () => {
+    claimedRows = 0;
+
+    await expect(service.sendDueDigests(NOW)).resolves.toBe(0);
+
+    expect(prisma.activity_logs.findMany).not.toHaveBeenCalled();
+    expect(mail.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,415 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityEntityType,
+  activityEntityIds,
+  CLOSED_TICKET_STATUSES,
+  COMPLETED_TICKET_STATUSES,
+  DigestPeriod,
+  DigestSprintItem,
+  DigestTicketItem,
+  NotificationDigestDto,
+} from "@shared/types";
+import { AuthUsersGatewayService } from "libs/shared/utils/src/client/auth/auth-users.client";
+import { MAIL_TRANSPORT, type MailTransport } from "./mail/mail-transport";
+
+const DEFAULT_DIGEST_TICK_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_TIMEZONE = "Europe/Paris";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Durée maximale couverte par un digest */
+const PERIOD_MS: Record<DigestPeriod, number> = { [DigestPeriod.DAILY]: DAY_MS, [DigestPeriod.WEEKLY]: 7 * DAY_MS };
+/** Horizon des échéances à venir signalées */
+const DUE_HORIZON_MS: Record<DigestPeriod, number> = { [DigestPeriod.DAILY]: 2 * DAY_MS, [DigestPeriod.WEEKLY]: 7 * DAY_MS };
+/** Le digest hebdomadaire part le lundi */
+const WEEKLY_DIGEST_WEEKDAY = "Mon";
+
+const DigestTicketSelect = {
+  id: true,
+  title: true,
+  ticket_number: true,
+  status: true,
+  due_date: true,
+  project: { select: { name: true } },
+} as const;
+
+type DigestTicketRow = Prisma.ticketsGetPayload<{ select: typeof DigestTicketSelect }>;
+
+type DigestSettings = {
+  user_id: string;
+  daily_digest: boolean;
+  weekly_digest: boolean;
+  digest_time: string;
+  last_daily_digest_at: Date | null;
+  last_weekly_digest_at: Date | null;
+};
+
+interface LocalClock {
+  date: string;
+  time: string;
+  weekday: string;
+}
+
+/**
+ * Service de génération des digests de notifications
+ *
+ * - preview: Digest de l'utilisateur sur la période en cours, sans envoi
+ * - sendDueDigests: Envoie les digests quotidiens et hebdomadaires arrivés à échéance (exécuté périodiquement)
+ *
+ * Un digest est envoyé à l'heure `digest_time` dans le fuseau `timezone` des préférences de l'utilisateur
+ * et couvre la période écoulée depuis le précédent envoi (24h ou 7 jours au plus). Il regroupe les tickets assignés,
+ * les tickets passés en VALIDATED/PROD, les échéances à venir et les changements de statut des sprints
+ * des workspaces de l'utilisateur. Les digests vides ne sont pas envoyés.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class NotificationDigestsService implements OnModuleInit, OnModuleDestroy {
+  private tickTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly authUsers: AuthUsersGatewayService,
+    @Inject(MAIL_TRANSPORT) private readonly mailTransport: MailTransport,
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(process.env.NOTIFICATIONS_DIGEST_TICK_INTERVAL_MS ?? DEFAULT_DIGEST_TICK_INTERVAL_MS);
+    if (interval > 0) {
+      this.tickTimer = setInterval(() => void this.runDigestTick(), interval);
+      this.tickTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.tickTimer) clearInterval(this.tickTimer);
+  }
+
+  /**
+   * Compile le digest de l'utilisateur sur la période en cours sans l'envoyer
+   *
+   * @param userId ID de l'utilisateur
+   * @param period Période du digest (DAILY ou WEEKLY)
+   * @returns Le digest avec ses rendus HTML et texte
+   * @throws ValidationError Si la période est invalide
+   */
+  async preview(userId: string, period: DigestPeriod): Promise<NotificationDigestDto> {
+    if (!Object.values(DigestPeriod).includes(period)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `INVALID_PERIOD: expected one of ${Object.values(DigestPeriod).join(", ")}` });
+    }
+
+    const now = new Date();
+    const [settings, preferences] = await Promise.all([
+      this.prisma.user_notification_settings.findUnique({ where: { user_id: userId }, select: { last_daily_digest_at: true, last_weekly_digest_at: true } }),
+      this.prisma.user_preferences.findUnique({ where: { user_id: userId }, select: { timezone: true } }),
+    ]);
+    const lastSentAt = period === DigestPeriod.DAILY ? settings?.last_daily_digest_at : settings?.last_weekly_digest_at;
+
+    return this.compile(userId, period, this.periodStart(period, lastSentAt, now), now, this.resolveTimezone(preferences?.timezone));
+  }
+
+  /**
+   * Envoie les digests dont l'heure d'envoi locale est atteinte et qui n'ont pas encore été envoyés ce jour (ou ce lundi)
+   *
+   * @returns Nombre de digests envoyés
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    const candidates = await this.prisma.user_notification_settings.findMany({
+      where: {
+        enabled: true,
+        email_enabled: true,
+        OR: [{ daily_digest: true }, { weekly_digest: true }],
+        AND: [{ OR: [{ muted_until: null }, { muted_until: { lte: now } }] }],
+      },
+      select: { user_id: true, daily_digest: true, weekly_digest: true, digest_time: true, last_daily_digest_at: true, last_weekly_digest_at: true },
+    });
+    if (candidates.length === 0) return 0;
+
+    const preferences = await this.prisma.user_preferences.findMany({
+      where: { user_id: { in: candidates.map(candidate => candidate.user_id) } },
+      select: { user_id: true, timezone: true },
+    });
+    const timezones = new Map(preferences.map(preference => [preference.user_id, this.resolveTimezone(preference.timezone)]));
+
+    let sent = 0;
+    for (const settings of candidates) {
+      const timezone = timezones.get(settings.user_id) ?? DEFAULT_TIMEZONE;
+      for (const period of this.duePeriods(settings, timezone, now)) {
+        try {
+          if (await this.deliver(settings, period, timezone, now)) sent++;
+        } catch (error) {
+          await this.loggerClient.log({
+            level: "error",
+            service: "project",
+            func: "notification-digests.send",
+            message: `Failed to send ${period} digest to user ${settings.user_id}`,
+            data: { error: error instanceof Error ? error.message : String(error), userId: settings.user_id, period },
+          });
+        }
+      }
+    }
+
+    if (sent > 0) {
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "notification-digests.send",
+        message: `Sent ${sent} digest(s)`,
+        data: { sent, candidates: candidates.length },
+      });
+    }
+    return sent;
+  }
+
+  // Helpers
+  private async runDigestTick(): Promise<void> {
+    try {
+      await this.sendDueDigests();
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "error",
+        service: "project",
+        func: "notification-digests.tick",
+        message: "Digest scheduler tick failed",
+        data: { error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  private duePeriods(settings: DigestSettings, timezone: string, now: Date): DigestPeriod[] {
+    const clock = localClock(now, timezone);
+    // digest_time est validé au format HH:MM, le séparateur étant facultatif
+    const digestTime = settings.digest_time.includes(":") ? settings.digest_time : `${settings.digest_time.slice(0, 2)}:${settings.digest_time.slice(2)}`;
+    if (clock.time < digestTime) return [];
+
+    const notSentToday = (lastSentAt: Date | null) => !lastSentAt || localClock(lastSentAt, timezone).date !== clock.date;
+    const periods: DigestPeriod[] = [];
+    if (settings.daily_digest && notSentToday(settings.last_daily_digest_at)) periods.push(DigestPeriod.DAILY);
+    if (settings.weekly_digest && clock.weekday === WEEKLY_DIGEST_WEEKDAY && notSentToday(settings.last_weekly_digest_at)) periods.push(DigestPeriod.WEEKLY);
+    return periods;
+  }
+
+  /**
+   * Réserve la période puis compile et envoie le digest. La date d'envoi est posée avant l'envoi, par une mise à jour
+   * conditionnée à la date précédente : si plusieurs instances passent en même temps, une seule l'obtient.
+   * Un digest vide réserve aussi sa période afin de ne pas être recalculé à chaque passage du planificateur.
+   *
+   * @returns true si un email a été envoyé
+   */
+  private async deliver(settings: DigestSettings, period: DigestPeriod, timezone: string, now: Date): Promise<boolean> {
+    const lastSentAt = period === DigestPeriod.DAILY ? settings.last_daily_digest_at : settings.last_weekly_digest_at;
+    const claimed = await this.prisma.user_notification_settings.updateMany({
+      where: period === DigestPeriod.DAILY ? { user_id: settings.user_id, last_daily_digest_at: lastSentAt } : { user_id: settings.user_id, last_weekly_digest_at: lastSentAt },
+      data: period === DigestPeriod.DAILY ? { last_daily_digest_at: now } : { last_weekly_digest_at: now },
+    });
+    if (claimed.count === 0) return false;
+
+    const digest = await this.compile(settings.user_id, period, this.periodStart(period, lastSentAt, now), now, timezone);
+    if (digest.is_empty) return false;
+
+    const { email } = await this.authUsers.getUser(settings.user_id);
+    const sent = !!email && (await this.mailTransport.send({ to: email, subject: digest.subject, text: digest.text, html: digest.html }));
+    if (!sent) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "project",
+        func: "notification-digests.deliver",
+        message: `${period} digest not sent (mail transport not configured or no email address)`,
+        data: { userId: settings.user_id, period },
+      });
+    }
+    return sent;
+  }
+
+  private periodStart(period: DigestPeriod, lastSentAt: Date | null | undefined, now: Date): Date {
+    const earliest = now.getTime() - PERIOD_MS[period];
+    return new Date(Math.max(lastSentAt?.getTime() ?? earliest, earliest));
+  }
+
+  private async compile(userId: string, period: DigestPeriod, since: Date, until: Date, timezone: string): Promise<NotificationDigestDto> {
+    const memberships = await this.prisma.workspace_members.findMany({ where: { user_id: userId, is_active: true }, select: { workspace_id: true } });
+    const window = { gte: since, lt: until };
+
+    const [assignedLogs, completedLogs, sprintLogs, dueTickets] = await Promise.all([
+      this.prisma.activity_logs.findMany({
+        where: { entity_type: ActivityEntityType.TICKET, created_at: window, metadata: { path: ["changes", "assigned_to", "to"], equals: userId } },
+        select: { entity_id: true },
+      }),
+      this.prisma.activity_logs.findMany({
+        where: {
+          entity_type: ActivityEntityType.TICKET,
+          created_at: window,
+          OR: COMPLETED_TICKET_STATUSES.map(ticketStatus => ({ metadata: { path: ["changes", "status", "to"], equals: ticketStatus } })),
+        },
+        select: { entity_id: true },
+      }),
+      this.prisma.activity_logs.findMany({
+        where: { entity_type: ActivityEntityType.SPRINT, created_at: window, project: { workspace_id: { in: memberships.map(member => member.workspace_id) } } },
+        select: { entity_id: true, created_at: true, metadata: true, project: { select: { name: true } } },
+        orderBy: { created_at: "asc" },
+      }),
+      this.prisma.tickets.findMany({
+        where: {
+          assigned_to: userId,
+          due_date: { gte: new Date(until.toISOString().slice(0, 10)), lte: new Date(until.getTime() + DUE_HORIZON_MS[period]) },
+          status: { notIn: [...COMPLETED_TICKET_STATUSES, ...CLOSED_TICKET_STATUSES] },
+        },
+        select: DigestTicketSelect,
+        orderBy: { due_date: "asc" },
+      }),
+    ]);
+
+    const [assigned, completed] = await Promise.all([
+      this.prisma.tickets.findMany({ where: { id: { in: activityEntityIds(assignedLogs) }, assigned_to: userId }, select: DigestTicketSelect }),
+      this.prisma.tickets.findMany({
+        where: {
+          id: { in: activityEntityIds(completedLogs) },
+          status: { in: [...COMPLETED_TICKET_STATUSES] },
+          OR: [{ assigned_to: userId }, { created_by: userId }],
+        },
+        select: DigestTicketSelect,
+      }),
+    ]);
+
+    const statusChanges = sprintLogs.flatMap(log => {
+      const change = (log.metadata as { changes?: { status?: { from: string | null; to: string } } } | null)?.changes?.status;
+      return change && log.entity_id !== null ? [{ log, sprintId: log.entity_id, change }] : [];
+    });
+    const sprintNames = new Map(
+      (await this.prisma.sprints.findMany({ where: { id: { in: statusChanges.map(({ sprintId }) => sprintId) } }, select: { id: true, name: true } })).map(sprint => [
+        sprint.id,
+        sprint.name,
+      ]),
+    );
+    const sprints: DigestSprintItem[] = statusChanges
+      .filter(({ sprintId }) => sprintNames.has(sprintId))
+      .map(({ log, sprintId, change }) => ({
+        id: sprintId,
+        name: sprintNames.get(sprintId)!,
+        status: change.to,
+        previous_status: change.from ?? null,
+        project_name: log.project?.name ?? "",
+        changed_at: log.created_at.toISOString(),
+      }));
+
+    const sections = {
+      assigned: assigned.map(toDigestTicket),
+      completed: completed.map(toDigestTicket),
+      due_soon: dueTickets.map(toDigestTicket),
+      sprints,
+    };
+    const isEmpty = Object.values(sections).every(items => items.length === 0);
+    const subject = `Your ${period === DigestPeriod.DAILY ? "daily" : "weekly"} Gile digest`;
+
+    return {
+      period,
+      since: since.toISOString(),
+      until: until.toISOString(),
+      timezone,
+      ...sections,
+      is_empty: isEmpty,
+      subject,
+      text: renderText(subject, sections, timezone),
+      html: renderHtml(subject, sections, timezone),
+    };
+  }
+
+  private resolveTimezone(timezone?: string | null): string {
+    if (!timezone) return DEFAULT_TIMEZONE;
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+      return timezone;
+    } catch {
+      return DEFAULT_TIMEZONE;
+    }
+  }
+}
+
+type DigestSections = Pick<NotificationDigestDto, "assigned" | "completed" | "due_soon" | "sprints">;
+
+const SECTION_TITLES: Record<keyof DigestSections, string> = {
+  assigned: "Assigned to you",
+  completed: "Completed",
+  due_soon: "Due soon",
+  sprints: "Sprint updates",
+};
+
+/**
+ * Date, heure et jour de la semaine d'un instant dans un fuseau donné
+ */
+function localClock(date: Date, timeZone: string): LocalClock {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      weekday: "short",
+      hourCycle: "h23",
+    })
+      .formatToParts(date)
+      .map(part => [part.type, part.value]),
+  );
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}`, weekday: parts.weekday };
+}
+
+function toDigestTicket(ticket: DigestTicketRow): DigestTicketItem {
+  return {
+    id: ticket.id,
+    title: ticket.title,
+    ticket_number: ticket.ticket_number,
+    status: ticket.status,
+    project_name: ticket.project?.name ?? null,
+    due_date: ticket.due_date ? ticket.due_date.toISOString().slice(0, 10) : null,
+  };
+}
+
+function describeTicket(ticket: DigestTicketItem): string {
+  const reference = ticket.ticket_number ? `[${ticket.ticket_number}] ` : "";
+  const project = ticket.project_name ? ` (${ticket.project_name})` : "";
+  const due = ticket.due_date ? ` - due ${ticket.due_date}` : "";
+  return `${reference}${ticket.title}${project} - ${ticket.status}${due}`;
+}
+
+function describeSprint(sprint: DigestSprintItem, timeZone: string): string {
+  const changedAt = new Intl.DateTimeFormat("en-GB", { timeZone, dateStyle: "medium", timeStyle: "short" }).format(new Date(sprint.changed_at));
+  const transition = sprint.previous_status ? `${sprint.previous_status} -> ${sprint.status}` : sprint.status;
+  return `${sprint.name} (${sprint.project_name}): ${transition} on ${changedAt}`;
+}
+
+function sectionLines(sections: DigestSections, timeZone: string): [string, string[]][] {
+  return (Object.keys(SECTION_TITLES) as (keyof DigestSections)[])
+    .map(key => {
+      const lines = key === "sprints" ? sections.sprints.map(sprint => describeSprint(sprint, timeZone)) : sections[key].map(describeTicket);
+      return [SECTION_TITLES[key], lines] as [string, string[]];
+    })
+    .filter(([, lines]) => lines.length > 0);
+}
+
+function renderText(subject: string, sections: DigestSections, timeZone: string): string {
+  const blocks = sectionLines(sections, timeZone).map(([title, lines]) => `${title} (${lines.length})\n${lines.map(line => `  - ${line}`).join("\n")}`);
+  return [subject, ...(blocks.length > 0 ? blocks : ["Nothing new for this period."])].join("\n\n") + "\n";
+}
+
+function renderHtml(subject: string, sections: DigestSections, timeZone: string): string {
+  const escape = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+  const blocks = sectionLines(sections, timeZone).map(
+    ([title, lines]) => `<h2>${escape(title)} (${lines.length})</h2>\n<ul>\n${lines.map(line => `  <li>${escape(line)}</li>`).join("\n")}\n</ul>`,
+  );
+  return [
+    "<!DOCTYPE html>",
+    `<html><head><meta charset="utf-8"><title>${escape(subject)}</title></head>`,
+    '<body style="font-family: sans-serif">',
+    `<h1>${escape(subject)}</h1>`,
+    ...(blocks.length > 0 ? blocks : ["<p>Nothing new for this period.</p>"]),
+    "</body></html>",
+  ].join("\n");
+}
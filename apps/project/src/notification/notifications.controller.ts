@@ -0,0 +1,106 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { DigestPeriod, NotificationDigestDto, NotificationDto, NotificationFilterDto } from "@shared/types";
+import { NotificationsService } from "./notifications.service";
+import { NotificationDigestsService } from "./notification-digests.service";
+
+@Controller()
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly digestsService: NotificationDigestsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Notifications", "Search")
+  async search(data: { user_id: string; filter?: NotificationFilterDto }) {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.search",
+      message: "gRPC Search notifications request",
+      data,
+    });
+
+    const list = await this.notificationsService.search(data.user_id, data.filter);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.search",
+      message: "gRPC Search notifications response",
+      data: { total: list.total, count: list.items.length, unread: list.unread },
+    });
+
+    // Les métadonnées JSON transitent sérialisées sur le fil gRPC
+    return { ...list, items: list.items.map(item => this.serialize(item)) };
+  }
+
+  @GrpcMethod("Notifications", "CountUnread")
+  async countUnread(data: { user_id: string }): Promise<{ count: number }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.countUnread",
+      message: "gRPC CountUnread notifications request",
+      data,
+    });
+
+    return { count: await this.notificationsService.countUnread(data.user_id) };
+  }
+
+  @GrpcMethod("Notifications", "MarkRead")
+  async markRead(data: { user_id: string; id: string }) {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.markRead",
+      message: "gRPC MarkRead notification request",
+      data,
+    });
+
+    const notification = await this.notificationsService.markRead(data.user_id, data.id);
+    return this.serialize(notification);
+  }
+
+  @GrpcMethod("Notifications", "MarkAllRead")
+  async markAllRead(data: { user_id: string }): Promise<{ count: number }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.markAllRead",
+      message: "gRPC MarkAllRead notifications request",
+      data,
+    });
+
+    return { count: await this.notificationsService.markAllRead(data.user_id) };
+  }
+
+  @GrpcMethod("Notifications", "PreviewDigest")
+  async previewDigest(data: { user_id: string; period: DigestPeriod }): Promise<NotificationDigestDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.previewDigest",
+      message: "gRPC PreviewDigest request",
+      data,
+    });
+
+    const digest = await this.digestsService.preview(data.user_id, data.period);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "notifications.grpc.previewDigest",
+      message: "gRPC PreviewDigest response",
+      data: { period: digest.period, isEmpty: digest.is_empty },
+    });
+
+    return digest;
+  }
+
+  private serialize(notification: NotificationDto) {
+    return { ...notification, metadata: JSON.stringify(notification.metadata ?? {}) };
+  }
+}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from "@nestjs/testing";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { NotificationEvent, NotificationType } from "@shared/types";
+import { AuthUsersGatewayService } from "libs/shared/utils/src/client/auth/auth-users.client";
+import { NotificationsService } from "./notifications.service";
+import { EmailChannel } from "./channels/email.channel";
+import { NOTIFICATION_CHANNELS, NotificationChannelAdapter, NotificationMessage } from "./channels/notification-channel";
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from "./mail/mail-transport";
+
+const ASSIGNEE_ID = "8f7e2a51-3c1d-4b8e-9f0a-1d2c3b4a5e6f";
+const ACTOR_ID = "1a2b3c4d-5e6f-4a7b-8c9d-0e1f2a3b4c5d";
+
+class FakeMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  send(mail: MailMessage): Promise<boolean> {
+    this.sent.push(mail);
+    return Promise.resolve(true);
+  }
+}
+
+class FakeChannel implements NotificationChannelAdapter {
+  readonly sent: NotificationMessage[] = [];
+
+  constructor(readonly channel: NotificationType.PUSH | NotificationType.SMS) {}
+
+  send(message: NotificationMessage): Promise<boolean> {
+    this.sent.push(message);
+    return Promise.resolve(true);
+  }
+}
+
+const settingsFor = (overrides: Record<string, unknown> = {}) => ({
+  user_id: ASSIGNEE_ID,
+  enabled: true,
+  muted_until: null,
+  in_app_enabled: true,
+  email_enabled: true,
+  push_enabled: true,
+  sms_enabled: true,
+  on_ticket_assigned: true,
+  ...overrides,
+});
+
+describe("NotificationsService", () => {
+  let service: NotificationsService;
+  let mail: FakeMailTransport;
+  let push: FakeChannel;
+  let sms: FakeChannel;
+  let settings: Record<string, unknown>;
+  let created: { channels: NotificationType[] }[];
+
+  const assign = () =>
+    service.notify({
+      event: NotificationEvent.TICKET_ASSIGNED,
+      recipients: [ASSIGNEE_ID, ACTOR_ID],
+      actor_id: ACTOR_ID,
+      title: '"Login page" was assigned to you',
+      ticket_id: 42,
+      project_id: 7,
+    });
+
+  beforeEach(async () => {
+    mail = new FakeMailTransport();
+    push = new FakeChannel(NotificationType.PUSH);
+    sms = new FakeChannel(NotificationType.SMS);
+    settings = settingsFor();
+    created = [];
+
+    const prisma = {
+      user_notification_settings: { upsert: jest.fn(() => Promise.resolve(settings)) },
+      notifications: {
+        create: jest.fn(({ data }: { data: { channels: NotificationType[] } }) => {
+          created.push(data);
+          return Promise.resolve({ id: `notification-${created.length}` });
+        }),
+      },
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        EmailChannel,
+        { provide: MAIL_TRANSPORT, useValue: mail },
+        {
+          provide: NOTIFICATION_CHANNELS,
+          useFactory: (email: EmailChannel) => [email, push, sms],
+          inject: [EmailChannel],
+        },
+        { provide: PrismaService, useValue: prisma },
+        { provide: LoggerClientService, useValue: { log: jest.fn(() => Promise.resolve()) } },
+        { provide: AuthUsersGatewayService, useValue: { getUser: jest.fn(() => Promise.resolve({ email: "assignee@gile.app", phone: "+33600000000" })) } },
+      ],
+    }).compile();
+
+    service = app.get<NotificationsService>(NotificationsService);
+  });
+
+  it("should deliver a ticket assignment on every enabled channel, never to the actor", async () => {
+    await expect(assign()).resolves.toBe(1);
+
+    expect(created).toHaveLength(1);
+    expect(created[0].channels).toEqual([NotificationType.EMAIL, NotificationType.IN_APP, NotificationType.PUSH, NotificationType.SMS]);
+    expect(mail.sent).toEqual([{ to: "assignee@gile.app", subject: '"Login page" was assigned to you', text: '"Login page" was assigned to you' }]);
+    expect(push.sent.map(message => message.recipient.user_id)).toEqual([ASSIGNEE_ID]);
+    expect(sms.sent.map(message => message.recipient.phone)).toEqual(["+33600000000"]);
+  });
+
+  it("should skip the recipient when on_ticket_assigned is disabled", async () => {
+    settings = settingsFor({ on_ticket_assigned: false });
+
+    await expect(assign()).resolves.toBe(0);
+
+    expect(created).toHaveLength(0);
+    expect(mail.sent).toHaveLength(0);
+    expect(push.sent).toHaveLength(0);
+    expect(sms.sent).toHaveLength(0);
+  });
+
+  it("should keep only the in-app notification while muted_until is in the future", async () => {
+    settings = settingsFor({ muted_until: new Date(Date.now() + 60 * 60 * 1000) });
+
+    await expect(assign()).resolves.toBe(1);
+
+    expect(created[0].channels).toEqual([NotificationType.IN_APP]);
+    expect(mail.sent).toHaveLength(0);
+    expect(push.sent).toHaveLength(0);
+    expect(sms.sent).toHaveLength(0);
+  });
+
+  it("should deliver on external channels again once muted_until has passed", async () => {
+    settings = settingsFor({ muted_until: new Date(Date.now() - 60 * 1000) });
+
+    await assign();
+
+    expect(created[0].channels).toContain(NotificationType.EMAIL);
+    expect(mail.sent).toHaveLength(1);
+  });
+
+  it("should honor the per-channel flags", async () => {
+    settings = settingsFor({ in_app_enabled: false, email_enabled: false, sms_enabled: false });
+
+    await expect(assign()).resolves.toBe(1);
+
+    expect(created[0].channels).toEqual([NotificationType.PUSH]);
+    expect(mail.sent).toHaveLength(0);
+    expect(sms.sent).toHaveLength(0);
+    expect(push.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,371 @@
+import { Inject, Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, user_notification_settings } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  CLOSED_TICKET_STATUSES,
+  COMPLETED_TICKET_STATUSES,
+  NotificationDto,
+  NotificationDtoSelect,
+  NotificationEvent,
+  NotificationFilterDto,
+  NotificationsListDto,
+  NotificationType,
+} from "@shared/types";
+import { isUUID } from "class-validator";
+import { AuthUsersGatewayService } from "libs/shared/utils/src/client/auth/auth-users.client";
+import { NOTIFICATION_CHANNELS, NotificationChannelAdapter, NotificationRecipient } from "./channels/notification-channel";
+
+const DEFAULT_DUE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const DUE_SOON_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+type NotificationRow = Prisma.notificationsGetPayload<{ select: typeof NotificationDtoSelect }>;
+
+/** Réglage activant chaque type d'événement dans user_notification_settings */
+const EVENT_TOGGLES: Record<NotificationEvent, keyof user_notification_settings> = {
+  [NotificationEvent.TICKET_ASSIGNED]: "on_ticket_assigned",
+  [NotificationEvent.TICKET_COMPLETED]: "on_ticket_completed",
+  [NotificationEvent.TICKET_COMMENT]: "on_ticket_comment",
+  [NotificationEvent.TICKET_DUE]: "on_ticket_due",
+  [NotificationEvent.MENTIONED]: "on_mentioned",
+  [NotificationEvent.PROJECT_UPDATE]: "on_project_update",
+  [NotificationEvent.SPRINT_STARTED]: "on_sprint_start",
+  [NotificationEvent.SPRINT_COMPLETED]: "on_sprint_end",
+};
+
+/** Réglage activant chaque canal dans user_notification_settings */
+const CHANNEL_TOGGLES: Record<NotificationType, keyof user_notification_settings> = {
+  [NotificationType.IN_APP]: "in_app_enabled",
+  [NotificationType.EMAIL]: "email_enabled",
+  [NotificationType.PUSH]: "push_enabled",
+  [NotificationType.SMS]: "sms_enabled",
+};
+
+export interface NotifyInput {
+  event: NotificationEvent;
+  recipients: (string | null | undefined)[];
+  actor_id?: string | null;
+  title: string;
+  body?: string | null;
+  project_id?: number | null;
+  ticket_id?: number | null;
+  sprint_id?: number | null;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Service de gestion des notifications
+ *
+ * - notify: Émet un événement vers une liste de destinataires selon leurs user_notification_settings
+ * - search: Boîte de réception in-app paginée de l'utilisateur
+ * - countUnread: Nombre de notifications in-app non lues
+ * - markRead / markAllRead: Passage des notifications à l'état lu
+ * - notifyDueTickets: Rappel des tickets arrivant à échéance (exécuté périodiquement)
+ *
+ * Chaque destinataire reçoit la notification sur les canaux qu'il a activés ; une mise en sourdine
+ * (muted_until) conserve la notification in-app mais coupe les canaux externes.
+ * L'auteur de l'action n'est jamais notifié. notify() ne lève jamais d'erreur.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class NotificationsService implements OnModuleInit, OnModuleDestroy {
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly authUsers: AuthUsersGatewayService,
+    @Inject(NOTIFICATION_CHANNELS) private readonly channels: NotificationChannelAdapter[],
+  ) {}
+
+  onModuleInit() {
+    const interval = Number(process.env.NOTIFICATIONS_DUE_SWEEP_INTERVAL_MS ?? DEFAULT_DUE_SWEEP_INTERVAL_MS);
+    if (interval > 0) {
+      this.sweepTimer = setInterval(() => void this.runDueSweep(), interval);
+      this.sweepTimer.unref();
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+  }
+
+  /**
+   * Crée et diffuse une notification pour chaque destinataire
+   *
+   * @param input Événement, destinataires et contenu de la notification
+   * @returns Nombre de notifications créées
+   */
+  async notify(input: NotifyInput): Promise<number> {
+    const recipients = [...new Set(input.recipients.filter((id): id is string => !!id && id !== input.actor_id))];
+    let created = 0;
+
+    for (const userId of recipients) {
+      try {
+        if (await this.deliver(userId, input)) created++;
+      } catch (error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "notifications.notify",
+          message: `Failed to notify user ${userId}`,
+          data: { error: error instanceof Error ? error.message : String(error), event: input.event, userId },
+        });
+      }
+    }
+
+    if (created > 0) {
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "notifications.notify",
+        message: `Notification ${input.event} sent to ${created} user(s)`,
+        data: { event: input.event, created, ticketId: input.ticket_id, sprintId: input.sprint_id },
+      });
+    }
+    return created;
+  }
+
+  /**
+   * Liste la boîte de réception in-app de l'utilisateur, les plus récentes en premier
+   *
+   * @param userId ID de l'utilisateur
+   * @param filter Filtre (non lues uniquement) et pagination
+   * @returns Liste paginée avec le nombre total de non lues
+   */
+  async search(userId: string, filter?: NotificationFilterDto): Promise<NotificationsListDto> {
+    const skip = filter?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, filter?.take, 25);
+
+    const inbox: Prisma.notificationsWhereInput = { user_id: userId, channels: { has: NotificationType.IN_APP } };
+    const where: Prisma.notificationsWhereInput = filter?.unread_only ? { ...inbox, is_read: false } : inbox;
+
+    const [items, total, unread] = await Promise.all([
+      this.prisma.notifications.findMany({ where, skip, take, orderBy: { created_at: "desc" }, select: NotificationDtoSelect }),
+      this.prisma.notifications.count({ where }),
+      this.prisma.notifications.count({ where: { ...inbox, is_read: false } }),
+    ]);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "project",
+      func: "notifications.search",
+      message: `Successfully fetched ${items.length} notifications out of ${total}`,
+      data: { userId, count: items.length, total, unread, skip, take },
+    });
+
+    return {
+      items: items.map(item => this.toDto(item)),
+      total,
+      skip,
+      take,
+      unread,
+    };
+  }
+
+  async countUnread(userId: string): Promise<number> {
+    return this.prisma.notifications.count({ where: { user_id: userId, is_read: false, channels: { has: NotificationType.IN_APP } } });
+  }
+
+  /**
+   * Marque une notification comme lue
+   *
+   * @throws ValidationError Si l'identifiant n'est pas un UUID
+   * @throws NotFoundException Si la notification n'existe pas ou n'appartient pas à l'utilisateur
+   */
+  async markRead(userId: string, id: string): Promise<NotificationDto> {
+    if (!isUUID(id)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid notification identifier" });
+    }
+
+    const existing = await this.prisma.notifications.findFirst({ where: { id, user_id: userId }, select: { id: true, is_read: true } });
+    if (!existing) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Notification with ID "${id}" not found` });
+    }
+
+    const updated = await this.prisma.notifications.update({
+      where: { id },
+      data: existing.is_read ? {} : { is_read: true, read_at: new Date() },
+      select: NotificationDtoSelect,
+    });
+    return this.toDto(updated);
+  }
+
+  /**
+   * Marque toutes les notifications de l'utilisateur comme lues
+   *
+   * @returns Nombre de notifications mises à jour
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const { count } = await this.prisma.notifications.updateMany({
+      where: { user_id: userId, is_read: false },
+      data: { is_read: true, read_at: new Date() },
+    });
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "project",
+      func: "notifications.markAllRead",
+      message: `Marked ${count} notifications as read`,
+      data: { userId, count },
+    });
+    return count;
+  }
+
+  /**
+   * Notifie les assignés des tickets ouverts arrivant à échéance dans les prochaines 24h.
+   * Un même ticket n'est rappelé qu'une fois par date d'échéance.
+   *
+   * @returns Nombre de notifications créées
+   */
+  async notifyDueTickets(now: Date = new Date()): Promise<number> {
+    const tickets = await this.prisma.tickets.findMany({
+      where: {
+        assigned_to: { not: null },
+        due_date: { gte: new Date(now.toISOString().slice(0, 10)), lte: new Date(now.getTime() + DUE_SOON_WINDOW_MS) },
+        status: { notIn: [...COMPLETED_TICKET_STATUSES, ...CLOSED_TICKET_STATUSES] },
+      },
+      select: { id: true, title: true, project_id: true, sprint_id: true, assigned_to: true, due_date: true },
+    });
+
+    let created = 0;
+    for (const ticket of tickets) {
+      const dueDate = ticket.due_date!.toISOString().slice(0, 10);
+      const alreadySent = await this.prisma.notifications.findFirst({
+        where: { event: NotificationEvent.TICKET_DUE, ticket_id: ticket.id, user_id: ticket.assigned_to!, metadata: { path: ["due_date"], equals: dueDate } },
+        select: { id: true },
+      });
+      if (alreadySent) continue;
+
+      created += await this.notify({
+        event: NotificationEvent.TICKET_DUE,
+        recipients: [ticket.assigned_to],
+        title: `"${ticket.title}" is due on ${dueDate}`,
+        project_id: ticket.project_id,
+        ticket_id: ticket.id,
+        sprint_id: ticket.sprint_id,
+        metadata: { due_date: dueDate },
+      });
+    }
+    return created;
+  }
+
+  // Helpers
+  private async runDueSweep(): Promise<void> {
+    try {
+      await this.notifyDueTickets();
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "error",
+        service: "project",
+        func: "notifications.dueSweep",
+        message: "Due date reminder sweep failed",
+        data: { error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  /**
+   * Applique les réglages du destinataire, persiste la notification puis la diffuse sur les canaux externes
+   *
+   * @returns true si une notification a été créée
+   */
+  private async deliver(userId: string, input: NotifyInput): Promise<boolean> {
+    const settings = await this.prisma.user_notification_settings.upsert({
+      where: { user_id: userId },
+      create: { user_id: userId, created_by: userId },
+      update: {},
+    });
+    if (!settings.enabled || !settings[EVENT_TOGGLES[input.event]]) return false;
+
+    const muted = !!settings.muted_until && settings.muted_until > new Date();
+    const channels = Object.values(NotificationType).filter(channel => settings[CHANNEL_TOGGLES[channel]] && (channel === NotificationType.IN_APP || !muted));
+    if (channels.length === 0) return false;
+
+    const notification = await this.prisma.notifications.create({
+      data: {
+        user_id: userId,
+        actor_id: input.actor_id ?? null,
+        event: input.event,
+        title: input.title,
+        body: input.body ?? null,
+        project_id: input.project_id ?? null,
+        ticket_id: input.ticket_id ?? null,
+        sprint_id: input.sprint_id ?? null,
+        metadata: (input.metadata ?? {}) as Prisma.InputJsonValue,
+        channels,
+      },
+      select: { id: true },
+    });
+
+    const adapters = this.channels.filter(adapter => channels.includes(adapter.channel));
+    if (adapters.length > 0) {
+      const recipient = await this.getRecipient(userId, adapters);
+      for (const adapter of adapters) {
+        await this.dispatch(adapter, { ...input, id: notification.id, recipient });
+      }
+    }
+    return true;
+  }
+
+  private async dispatch(adapter: NotificationChannelAdapter, message: Parameters<NotificationChannelAdapter["send"]>[0]): Promise<void> {
+    try {
+      const sent = await adapter.send(message);
+      if (!sent) {
+        await this.loggerClient.log({
+          level: "debug",
+          service: "project",
+          func: "notifications.dispatch",
+          message: `Channel ${adapter.channel} skipped (not configured or recipient unreachable)`,
+          data: { notificationId: message.id, userId: message.recipient.user_id },
+        });
+      }
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "project",
+        func: "notifications.dispatch",
+        message: `Channel ${adapter.channel} delivery failed`,
+        data: { error: error instanceof Error ? error.message : String(error), notificationId: message.id, userId: message.recipient.user_id },
+      });
+    }
+  }
+
+  /**
+   * Récupère les coordonnées (email, téléphone) du compte auprès du service d'authentification
+   * uniquement lorsqu'un canal qui en a besoin est ciblé
+   */
+  private async getRecipient(userId: string, adapters: NotificationChannelAdapter[]): Promise<NotificationRecipient> {
+    if (!adapters.some(adapter => adapter.channel === NotificationType.EMAIL || adapter.channel === NotificationType.SMS)) {
+      return { user_id: userId };
+    }
+    try {
+      const user = await this.authUsers.getUser(userId);
+      return { user_id: userId, email: user.email || null, phone: user.phone || null };
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "warn",
+        service: "project",
+        func: "notifications.getRecipient",
+        message: `Unable to resolve contact details for user ${userId}`,
+        data: { error: error instanceof Error ? error.message : String(error), userId },
+      });
+      return { user_id: userId };
+    }
+  }
+
+  private toDto(row: NotificationRow): NotificationDto {
+    return {
+      ...row,
+      event: row.event as NotificationEvent,
+      channels: row.channels as NotificationType[],
+      created_at: row.created_at.toISOString(),
+      read_at: row.read_at?.toISOString() ?? null,
+      metadata: (row.metadata ?? null) as Record<string, any> | null,
+    };
+  }
+}
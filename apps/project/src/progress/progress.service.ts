@@ -0,0 +1,300 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, UserRole } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { COMPLETED_TICKET_STATUSES, EpicStatus, ProgressRecalculationDto, ProjectStatus, TaskStatus, TicketStatus } from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+
+/** Statuts de ticket exclus du calcul de l'avancement */
+const IGNORED_TICKET_STATUSES: readonly string[] = [TicketStatus.CANCELLED, TicketStatus.REFUSED];
+
+/** Nombre de projets recalculés par transaction lors d'un recalcul complet */
+const RECALCULATION_BATCH_SIZE = 50;
+
+interface WeightedValue {
+  /** Avancement entre 0 et 1 */
+  value: number;
+  /** Poids (heures estimées, story points), null si non renseigné */
+  weight: number | null;
+}
+
+interface RefreshResult {
+  epics: number;
+  projects: number;
+  updated_epics: number;
+  updated_projects: number;
+}
+
+/**
+ * Service de calcul automatique de l'avancement des epics et des projets
+ *
+ * - refreshEpics: Recalcule des epics puis leurs projets
+ * - refreshTasks: Recalcule les epics de tâches (et des projets supplémentaires)
+ * - refreshProjects: Recalcule des projets
+ * - recalculate: Recalcul d'un projet, d'un workspace ou de l'ensemble des projets (rattrapage)
+ *
+ * Avancement d'une epic : moyenne de ses tâches non annulées, pondérée par `estimated_hours`
+ * (une tâche sans estimation pèse l'estimation moyenne des autres). Une tâche DONE compte pour 100 %,
+ * une autre tâche pour la part terminée (VALIDATED/PROD) de ses tickets liés. Une epic sans tâche vaut
+ * 100 % si elle est DONE, 0 % sinon.
+ *
+ * Avancement d'un projet : moyenne de l'avancement de ses epics non annulées et de la part terminée de
+ * ses tickets (pondérée par `story_points`), chaque composante ne comptant que si elle existe.
+ * Les tickets CANCELLED/REFUSED sont ignorés.
+ *
+ * Les méthodes `refresh*` s'exécutent dans la transaction de l'appelant.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class ProgressService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {}
+
+  /**
+   * Recalcule l'avancement d'epics puis celui de leurs projets
+   *
+   * @param tx Client de la transaction en cours
+   * @param epicIds IDs des epics
+   * @param projectIds Projets à recalculer en plus de ceux des epics
+   */
+  async refreshEpics(tx: Prisma.TransactionClient, epicIds: number[], projectIds: (number | null)[] = []): Promise<RefreshResult> {
+    const ids = [...new Set(epicIds)];
+    const epics = ids.length
+      ? await tx.epics.findMany({
+          where: { id: { in: ids } },
+          select: {
+            id: true,
+            project_id: true,
+            status: true,
+            progress: true,
+            tasks: { select: { status: true, estimated_hours: true, task_tickets: { select: { tickets: { select: { status: true } } } } } },
+          },
+        })
+      : [];
+
+    let updated = 0;
+    for (const epic of epics) {
+      const progress = this.epicProgress(epic);
+      if (progress !== epic.progress) {
+        await tx.epics.update({ where: { id: epic.id }, data: { progress } });
+        updated++;
+      }
+    }
+
+    const projects = await this.refreshProjects(tx, [...epics.map(epic => epic.project_id), ...projectIds]);
+    return { ...projects, epics: epics.length, updated_epics: updated };
+  }
+
+  /**
+   * Recalcule l'avancement des epics de tâches, puis celui de leurs projets
+   *
+   * @param tx Client de la transaction en cours
+   * @param taskIds IDs des tâches (ex. liées à un ticket modifié)
+   * @param projectIds Projets à recalculer en plus de ceux des epics (ex. projet du ticket)
+   */
+  async refreshTasks(tx: Prisma.TransactionClient, taskIds: number[], projectIds: (number | null)[] = []): Promise<RefreshResult> {
+    const tasks = taskIds.length ? await tx.tasks.findMany({ where: { id: { in: taskIds } }, select: { epic_id: true } }) : [];
+    return this.refreshEpics(
+      tx,
+      tasks.map(task => task.epic_id),
+      projectIds,
+    );
+  }
+
+  /**
+   * Recalcule l'avancement de projets à partir de leurs epics et de leurs tickets
+   *
+   * @param tx Client de la transaction en cours
+   * @param projectIds IDs des projets
+   */
+  async refreshProjects(tx: Prisma.TransactionClient, projectIds: (number | null)[]): Promise<Omit<RefreshResult, "epics" | "updated_epics">> {
+    const ids = [...new Set(projectIds.filter((id): id is number => id != null))];
+    if (!ids.length) {
+      return { projects: 0, updated_projects: 0 };
+    }
+
+    const [projects, epics, tickets] = await Promise.all([
+      tx.projects.findMany({ where: { id: { in: ids } }, select: { id: true, status: true, progress: true } }),
+      tx.epics.findMany({ where: { project_id: { in: ids }, status: { not: EpicStatus.CANCELLED } }, select: { project_id: true, progress: true } }),
+      tx.tickets.findMany({
+        where: { project_id: { in: ids }, status: { notIn: [...IGNORED_TICKET_STATUSES] as TicketStatus[] } },
+        select: { project_id: true, status: true, story_points: true },
+      }),
+    ]);
+
+    let updated = 0;
+    for (const project of projects) {
+      const epicValues = epics.filter(epic => epic.project_id === project.id).map(epic => epic.progress / 100);
+      const ticketValues = tickets
+        .filter(ticket => ticket.project_id === project.id)
+        .map(ticket => ({ value: COMPLETED_TICKET_STATUSES.includes(ticket.status as TicketStatus) ? 1 : 0, weight: ticket.story_points }));
+
+      const components: number[] = [];
+      if (epicValues.length) components.push(epicValues.reduce((sum, value) => sum + value, 0) / epicValues.length);
+      if (ticketValues.length) components.push(this.weightedAverage(ticketValues));
+
+      const progress = components.length
+        ? this.toPercent(components.reduce((sum, value) => sum + value, 0) / components.length)
+        : (project.status as ProjectStatus) === ProjectStatus.DONE
+          ? 100
+          : 0;
+
+      if (progress !== project.progress) {
+        await tx.projects.update({ where: { id: project.id }, data: { progress } });
+        updated++;
+      }
+    }
+
+    return { projects: projects.length, updated_projects: updated };
+  }
+
+  /**
+   * Recalcule l'avancement de toutes les epics et de tous les projets d'un périmètre
+   * Sans projet ni workspace, l'ensemble des projets est recalculé (SUPER_ADMIN uniquement).
+   *
+   * @param userId ID de l'utilisateur
+   * @param scope Projet ou workspace à recalculer
+   * @returns Nombre d'epics et de projets parcourus et modifiés
+   */
+  async recalculate(userId: string, scope: { project_id?: number; workspace_id?: string }): Promise<ProgressRecalculationDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "progress.recalculate",
+      message: `Recalculating progress`,
+      data: { userId, scope },
+    });
+
+    const where: Prisma.projectsWhereInput = {};
+    if (scope.project_id) {
+      const project = await this.prisma.projects.findUnique({ where: { id: Number(scope.project_id) }, select: { id: true, workspace_id: true } });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${scope.project_id}" not found` });
+      }
+      await this.assertCanRecalculate(project.workspace_id, userId);
+      where.id = project.id;
+    } else if (scope.workspace_id) {
+      await this.assertCanRecalculate(scope.workspace_id, userId);
+      where.workspace_id = scope.workspace_id;
+    } else {
+      await this.assertSuperAdmin(userId);
+    }
+
+    try {
+      const projectIds = (await this.prisma.projects.findMany({ where, select: { id: true }, orderBy: { id: "asc" } })).map(project => project.id);
+      const result: ProgressRecalculationDto = {
+        project_id: scope.project_id ? Number(scope.project_id) : null,
+        workspace_id: scope.workspace_id || null,
+        projects: 0,
+        epics: 0,
+        updated_projects: 0,
+        updated_epics: 0,
+      };
+
+      for (let index = 0; index < projectIds.length; index += RECALCULATION_BATCH_SIZE) {
+        const batch = projectIds.slice(index, index + RECALCULATION_BATCH_SIZE);
+        const refreshed = await this.prisma.$transaction(async tx => {
+          const epics = await tx.epics.findMany({ where: { project_id: { in: batch } }, select: { id: true } });
+          return this.refreshEpics(
+            tx,
+            epics.map(epic => epic.id),
+            batch,
+          );
+        });
+        result.projects += refreshed.projects;
+        result.epics += refreshed.epics;
+        result.updated_projects += refreshed.updated_projects;
+        result.updated_epics += refreshed.updated_epics;
+      }
+
+      await this.logger.log({
+        level: "info",
+        service: "project",
+        func: "progress.recalculate",
+        message: `Progress recalculated for ${result.projects} projects and ${result.epics} epics`,
+        data: { ...result },
+      });
+
+      return result;
+    } catch (error) {
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "progress.recalculate",
+        message: `Error recalculating progress: ${error instanceof Error ? error.message : String(error)}`,
+        data: { userId, scope },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while recalculating progress. Please try again." });
+    }
+  }
+
+  private epicProgress(epic: { status: string; tasks: { status: string; estimated_hours: number | null; task_tickets: { tickets: { status: string } }[] }[] }): number {
+    const tasks = epic.tasks.filter(task => (task.status as TaskStatus) !== TaskStatus.CANCELLED);
+    if (!tasks.length) {
+      return (epic.status as EpicStatus) === EpicStatus.DONE ? 100 : 0;
+    }
+
+    return this.toPercent(
+      this.weightedAverage(
+        tasks.map(task => {
+          if ((task.status as TaskStatus) === TaskStatus.DONE) {
+            return { value: 1, weight: task.estimated_hours };
+          }
+          const tickets = task.task_tickets.map(link => link.tickets).filter(ticket => !IGNORED_TICKET_STATUSES.includes(ticket.status));
+          const completed = tickets.filter(ticket => COMPLETED_TICKET_STATUSES.includes(ticket.status as TicketStatus)).length;
+          return { value: tickets.length ? completed / tickets.length : 0, weight: task.estimated_hours };
+        }),
+      ),
+    );
+  }
+
+  /**
+   * Moyenne pondérée ; un élément sans poids prend le poids moyen des éléments renseignés (1 à défaut)
+   */
+  private weightedAverage(values: WeightedValue[]): number {
+    if (!values.length) return 0;
+
+    const known = values.filter(item => item.weight != null && item.weight > 0).map(item => item.weight!);
+    const fallback = known.length ? known.reduce((sum, weight) => sum + weight, 0) / known.length : 1;
+
+    let total = 0;
+    let done = 0;
+    for (const item of values) {
+      const weight = item.weight != null && item.weight > 0 ? item.weight : fallback;
+      total += weight;
+      done += weight * item.value;
+    }
+    return total > 0 ? done / total : 0;
+  }
+
+  private toPercent(ratio: number): number {
+    return Math.min(100, Math.max(0, Math.round(ratio * 100)));
+  }
+
+  private async assertCanRecalculate(workspaceId: string, userId: string): Promise<void> {
+    const hasPermission = await this.workspaceMembersService.hasRight(workspaceId, userId, "update", "project");
+    if (!hasPermission) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to recalculate progress in this workspace" });
+    }
+  }
+
+  /**
+   * Le recalcul global n'est ouvert qu'à un SUPER_ADMIN actif dans au moins un workspace
+   */
+  private async assertSuperAdmin(userId: string): Promise<void> {
+    const membership = await this.prisma.workspace_members.findFirst({
+      where: { user_id: userId, role: UserRole.SUPER_ADMIN, is_active: true },
+      select: { id: true },
+    });
+    if (!membership) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "Only super administrators can recalculate the progress of every project" });
+    }
+  }
+}
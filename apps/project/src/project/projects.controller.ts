@@ -2,14 +2,16 @@ import { Controller } from "@nestjs/common";
 import { GrpcMethod } from "@nestjs/microservices";
 import { LoggerClientService } from "@shared/logger";
 import { ProjectsService } from "./projects.service";
+import { ProgressService } from "../progress/progress.service";
 import type { BaseSearchQueryDto } from "@shared/types";
 import { CreateProjectDto, UpdateProjectDto, ProjectDto, ProjectsListDto } from "@shared/types";
-import type { TeamOverview } from "@shared/types";
+import type { TeamOverview, ProgressRecalculationDto } from "@shared/types";
 
 @Controller()
 export class ProjectsController {
   constructor(
     private readonly projectsService: ProjectsService,
+    private readonly progressService: ProgressService,
     private readonly logger: LoggerClientService,
   ) {}
 
@@ -176,4 +178,28 @@ export class ProjectsController {
 
     return team;
   }
+
+  // Recalculate epic and project progress (backfill)
+  @GrpcMethod("Projects", "RecalculateProgress")
+  async recalculateProgress(data: { user_id: string; project_id?: number; workspace_id?: string }): Promise<ProgressRecalculationDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "projects.grpc.recalculateProgress",
+      message: "gRPC RecalculateProgress request",
+      data,
+    });
+
+    const result = await this.progressService.recalculate(data.user_id, { project_id: data.project_id, workspace_id: data.workspace_id });
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "projects.grpc.recalculateProgress",
+      message: "gRPC RecalculateProgress response",
+      data: result,
+    });
+
+    return result;
+  }
 }
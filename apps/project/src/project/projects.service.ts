@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import {
   CreateProjectDto,
@@ -21,11 +21,16 @@ import {
   TeamOverviewSelect,
   CreateTeamDto,
   FilterRule,
+  ActivityAction,
+  ActivityEntityType,
+  TICKET_PREFIX_SETTING,
 } from "@shared/types";
 import { plainToInstance } from "class-transformer";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
 import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
 import { TeamsService } from "apps/workspace/src/team/teams.service";
 import { TeamsGatewayService } from "libs/shared/utils/src/client/team/teams.client";
+import { TicketNumberingService } from "../ticket/ticket-numbering.service";
 
 /**
  * Service de gestion des projets
@@ -39,6 +44,8 @@ import { TeamsGatewayService } from "libs/shared/utils/src/client/team/teams.cli
  * - delete: Suppression d'un projet
  * - getTeam: Récupération de l'équipe d'un projet
  *
+ * Chaque projet reçoit à sa création un préfixe de tickets (`settings.ticket_prefix`) unique.
+ *
  * @author Bibz Project
  * @version 1.0.0
  */
@@ -50,6 +57,8 @@ export class ProjectsService {
     private readonly workspaceMembersService: WorkspaceMembersService,
     private readonly teamService: TeamsService,
     private readonly teamGatewayService: TeamsGatewayService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly ticketNumbering: TicketNumberingService,
   ) {}
 
   /**
@@ -134,10 +143,16 @@ export class ProjectsService {
           throw new RpcException({ code: status.ALREADY_EXISTS, message: `Project with slug "${slug}" already exists in this workspace` });
         }
 
+        const ticketPrefix =
+          dto.settings?.[TICKET_PREFIX_SETTING] !== undefined
+            ? await this.ticketNumbering.normalizePrefix(dto.settings[TICKET_PREFIX_SETTING])
+            : await this.ticketNumbering.assignDefaultPrefix(dto.name, undefined, tx);
+
         const createdProject = await tx.projects.create({
           data: {
             name: dto.name.trim(),
             slug,
+            settings: { ...(dto.settings ?? {}), [TICKET_PREFIX_SETTING]: ticketPrefix },
             description: dto.description?.trim() ?? null,
             full_description: dto.full_description?.trim() ?? null,
             workspace_id: workspaceId,
@@ -247,6 +262,16 @@ export class ProjectsService {
         data: { id: project.id, name: project.name },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: project.id,
+        project_id: project.id,
+        workspace_id: workspaceId,
+        after: project,
+      });
+
       return plainToInstance(ProjectDto, project, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof RpcException) {
@@ -273,7 +298,7 @@ export class ProjectsService {
    */
   async search(userId: string, workspaceId: string, params?: BaseSearchQueryDto): Promise<ProjectsListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
     // Vérifier que le workspace existe
     const workspace = await this.prisma.workspaces.findUnique({
@@ -469,7 +494,7 @@ export class ProjectsService {
    */
   async getOverview(workspaceId: string, userId: string, params?: BaseSearchQueryDto): Promise<ProjectsListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 10;
+    const take = await resolveTake(this.prisma, userId, params?.take, 10);
     const search = params?.search ?? "";
 
     try {
@@ -542,7 +567,6 @@ export class ProjectsService {
       // Vérifier que le projet existe
       const existingProject = await this.prisma.projects.findUnique({
         where: { id },
-        select: { id: true, workspace_id: true, name: true, slug: true },
       });
 
       if (!existingProject) {
@@ -597,7 +621,7 @@ export class ProjectsService {
       if (dto.actual_end_date !== undefined) updateData.actual_end_date = dto.actual_end_date ? new Date(dto.actual_end_date) : null;
       if (typeof dto.is_archived === "boolean") updateData.is_archived = dto.is_archived;
       if (typeof dto.is_public === "boolean") updateData.is_public = dto.is_public;
-      if (dto.settings !== undefined) updateData.settings = dto.settings;
+      if (dto.settings !== undefined) updateData.settings = await this.ticketNumbering.prepareSettings(dto.settings ?? {}, existingProject.settings, id);
       if (dto.custom_fields !== undefined) updateData.custom_fields = dto.custom_fields;
 
       const updated = await this.prisma.projects.update({
@@ -624,6 +648,22 @@ export class ProjectsService {
         data: { id: updated.id, name: updated.name, slug: updated.slug },
       });
 
+      await this.activityLogs.record({
+        user_id: updatedBy,
+        action:
+          typeof dto.is_archived === "boolean" && dto.is_archived !== existingProject.is_archived
+            ? dto.is_archived
+              ? ActivityAction.ARCHIVED
+              : ActivityAction.RESTORED
+            : ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: id,
+        project_id: id,
+        workspace_id: existingProject.workspace_id,
+        before: existingProject,
+        after: updated,
+      });
+
       return plainToInstance(ProjectDto, updated, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -662,7 +702,6 @@ export class ProjectsService {
       // Vérifier que le projet existe
       const existingProject = await this.prisma.projects.findUnique({
         where: { id },
-        select: { id: true, workspace_id: true, name: true },
       });
 
       if (!existingProject) {
@@ -687,6 +726,16 @@ export class ProjectsService {
         data: { id, name: existingProject.name },
       });
 
+      // project_id volontairement omis : les entrées liées au projet sont supprimées en cascade
+      await this.activityLogs.record({
+        user_id: deletedBy,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: id,
+        workspace_id: existingProject.workspace_id,
+        before: existingProject,
+      });
+
       return { success: true };
     } catch (error) {
       if (error instanceof RpcException) {
@@ -862,6 +911,16 @@ export class ProjectsService {
         data: { projectId, teamId, projectName: project.name, teamName: team.name },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.ASSIGNED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: projectId,
+        project_id: projectId,
+        workspace_id: project.workspace_id,
+        metadata: { team_id: teamId, team_name: team.name },
+      });
+
       return {
         success: true,
         message: `Team "${team.name}" has been successfully assigned to project "${project.name}"`,
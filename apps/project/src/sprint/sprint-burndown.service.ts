@@ -0,0 +1,276 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { ActivityAction, ActivityEntityType, activityEntityIds, COMPLETED_TICKET_STATUSES, SprintBurndownDto, SprintBurndownPointDto, TicketStatus } from "@shared/types";
+import { ProjectsService } from "../project/projects.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Champs du ticket rejoués depuis `activity_logs.metadata.changes` */
+const TRACKED_FIELDS = ["status", "story_points", "estimated_hours", "sprint_id"] as const;
+
+type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+interface TicketState {
+  exists: boolean;
+  status: string | null;
+  story_points: number | null;
+  estimated_hours: number | null;
+  sprint_id: number | null;
+}
+
+interface Totals {
+  remaining_points: number;
+  remaining_hours: number;
+  completed_points: number;
+  completed_hours: number;
+  scope_points: number;
+  scope_hours: number;
+}
+
+/**
+ * Service des graphiques burndown / burnup des sprints
+ *
+ * - getBurndown: Séries journalières (restant, terminé, périmètre) et ligne idéale d'un sprint
+ *
+ * L'état de chaque ticket en fin de journée est reconstruit en partant de son état actuel et en annulant,
+ * du plus récent au plus ancien, les changements de statut, d'estimation et de sprint journalisés dans
+ * `activity_logs`. Les séries restent donc exactes après la clôture du sprint et le report des tickets.
+ * Les tickets CANCELLED sortent du périmètre.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class SprintBurndownService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerClientService,
+    private readonly projectsService: ProjectsService,
+  ) {}
+
+  /**
+   * Calcule les séries burndown / burnup d'un sprint
+   *
+   * @param sprintId ID du sprint
+   * @param projectId ID du projet du sprint
+   * @param userId ID de l'utilisateur
+   * @returns Un point par jour entre le démarrage et la fin (prévue ou effective) du sprint
+   */
+  async getBurndown(sprintId: number, projectId: number, userId: string): Promise<SprintBurndownDto> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "sprint-burndown.getBurndown",
+      message: `Computing burndown for sprint ${sprintId}`,
+      data: { sprintId, projectId, userId },
+    });
+
+    if (!sprintId || Number.isNaN(Number(sprintId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid sprint identifier" });
+    }
+
+    // Validate project exists and user has access
+    await this.projectsService.getById(projectId, userId);
+
+    const sprint = await this.prisma.sprints.findFirst({
+      where: { id: Number(sprintId), project_id: projectId },
+      select: { id: true, start_date: true, end_date: true, actual_start_date: true, actual_end_date: true },
+    });
+    if (!sprint) {
+      throw new RpcException({ code: status.NOT_FOUND, message: "Sprint not found for this project" });
+    }
+
+    try {
+      const now = new Date();
+      const startedAt = await this.resolveStartInstant(sprint.id, sprint.actual_start_date ?? sprint.start_date);
+      const firstDay = this.startOfDay(startedAt);
+      const plannedLastDay = this.startOfDay(sprint.end_date ?? sprint.actual_end_date ?? now);
+      const closedAt = sprint.actual_end_date ? new Date(Math.max(sprint.actual_end_date.getTime() + DAY_MS - 1, firstDay.getTime())) : null;
+      const lastDay = new Date(Math.max(plannedLastDay.getTime(), closedAt ? this.startOfDay(closedAt).getTime() : 0, firstDay.getTime()));
+
+      const days: Date[] = [];
+      for (let day = firstDay; day <= lastDay; day = new Date(day.getTime() + DAY_MS)) {
+        days.push(day);
+      }
+
+      // Instant de chaque relevé : fin de journée, bornée par la clôture du sprint ; null pour les jours futurs
+      const cutoff = closedAt && closedAt < now ? closedAt : now;
+      const snapshots = days.map(day => (day.getTime() > cutoff.getTime() ? null : new Date(Math.min(day.getTime() + DAY_MS - 1, cutoff.getTime()))));
+
+      const states = await this.loadStates(sprint.id);
+      const logs = await this.prisma.activity_logs.findMany({
+        where: { entity_type: ActivityEntityType.TICKET, entity_id: { in: [...states.keys()] }, created_at: { gt: startedAt } },
+        orderBy: [{ created_at: "desc" }, { id: "desc" }],
+        select: { entity_id: true, action: true, metadata: true, created_at: true },
+      });
+
+      // Rejeu à rebours : les relevés sont parcourus du plus récent au plus ancien
+      const totals = new Array<Totals | null>(days.length).fill(null);
+      let cursor = 0;
+      for (let index = days.length - 1; index >= 0; index--) {
+        const at = snapshots[index];
+        if (!at) continue;
+        cursor = this.rewind(states, logs, cursor, at);
+        totals[index] = this.aggregate(states, sprint.id);
+      }
+      this.rewind(states, logs, cursor, startedAt);
+      const committed = this.aggregate(states, sprint.id);
+
+      const plannedSpan = Math.max(Math.round((plannedLastDay.getTime() - firstDay.getTime()) / DAY_MS), 0);
+      const points: SprintBurndownPointDto[] = days.map((day, index) => {
+        const ratio = plannedSpan === 0 ? 0 : Math.max(0, 1 - index / plannedSpan);
+        const actual = totals[index];
+        return {
+          date: this.formatDay(day),
+          remaining_points: actual ? actual.remaining_points : null,
+          remaining_hours: actual ? this.round(actual.remaining_hours) : null,
+          completed_points: actual ? actual.completed_points : null,
+          completed_hours: actual ? this.round(actual.completed_hours) : null,
+          scope_points: actual ? actual.scope_points : null,
+          scope_hours: actual ? this.round(actual.scope_hours) : null,
+          ideal_points: this.round(committed.scope_points * ratio),
+          ideal_hours: this.round(committed.scope_hours * ratio),
+        };
+      });
+
+      return {
+        sprint_id: sprint.id,
+        start_date: this.formatDay(firstDay),
+        end_date: this.formatDay(plannedLastDay),
+        committed_points: committed.scope_points,
+        committed_hours: this.round(committed.scope_hours),
+        days: points,
+      };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "sprint-burndown.getBurndown",
+        message: `Error computing burndown: ${error instanceof Error ? error.message : String(error)}`,
+        data: { sprintId, projectId, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while computing the sprint burndown. Please try again." });
+    }
+  }
+
+  /**
+   * État actuel des tickets ayant appartenu au sprint (actuellement ou d'après le journal), y compris supprimés
+   */
+  private async loadStates(sprintId: number): Promise<Map<number, TicketState>> {
+    const [current, moved] = await Promise.all([
+      this.prisma.tickets.findMany({ where: { sprint_id: sprintId }, select: { id: true } }),
+      this.prisma.activity_logs.findMany({
+        where: {
+          entity_type: ActivityEntityType.TICKET,
+          OR: [{ metadata: { path: ["changes", "sprint_id", "to"], equals: sprintId } }, { metadata: { path: ["changes", "sprint_id", "from"], equals: sprintId } }],
+        },
+        select: { entity_id: true },
+        distinct: ["entity_id"],
+      }),
+    ]);
+
+    const ids = [...new Set([...current.map(ticket => ticket.id), ...activityEntityIds(moved)])];
+    const tickets = await this.prisma.tickets.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, status: true, story_points: true, estimated_hours: true, sprint_id: true },
+    });
+
+    const states = new Map<number, TicketState>(ids.map(id => [id, { exists: false, status: null, story_points: null, estimated_hours: null, sprint_id: null }]));
+    for (const ticket of tickets) {
+      states.set(ticket.id, { exists: true, ...ticket });
+    }
+    return states;
+  }
+
+  /**
+   * Annule les entrées du journal postérieures à `at`
+   *
+   * @returns Position de la première entrée non annulée
+   */
+  private rewind(
+    states: Map<number, TicketState>,
+    logs: { entity_id: number | null; action: string; metadata: Prisma.JsonValue; created_at: Date }[],
+    cursor: number,
+    at: Date,
+  ): number {
+    while (cursor < logs.length && logs[cursor].created_at > at) {
+      const log = logs[cursor++];
+      const state = log.entity_id !== null ? states.get(log.entity_id) : undefined;
+      if (!state) continue;
+
+      const changes = this.changesOf(log.metadata);
+      for (const field of TRACKED_FIELDS) {
+        if (field in changes) {
+          this.assign(state, field, changes[field].from);
+        }
+      }
+      if ((log.action as ActivityAction) === ActivityAction.CREATED) state.exists = false;
+      if ((log.action as ActivityAction) === ActivityAction.DELETED) state.exists = true;
+    }
+    return cursor;
+  }
+
+  private aggregate(states: Map<number, TicketState>, sprintId: number): Totals {
+    const totals: Totals = { remaining_points: 0, remaining_hours: 0, completed_points: 0, completed_hours: 0, scope_points: 0, scope_hours: 0 };
+    for (const state of states.values()) {
+      if (!state.exists || state.sprint_id !== sprintId || state.status === TicketStatus.CANCELLED) continue;
+
+      const points = state.story_points ?? 0;
+      const hours = state.estimated_hours ?? 0;
+      totals.scope_points += points;
+      totals.scope_hours += hours;
+      if (COMPLETED_TICKET_STATUSES.includes(state.status as TicketStatus)) {
+        totals.completed_points += points;
+        totals.completed_hours += hours;
+      } else {
+        totals.remaining_points += points;
+        totals.remaining_hours += hours;
+      }
+    }
+    return totals;
+  }
+
+  private assign(state: TicketState, field: TrackedField, value: unknown): void {
+    if (field === "status") {
+      state.status = typeof value === "string" ? value : null;
+    } else {
+      state[field] = typeof value === "number" ? value : null;
+    }
+  }
+
+  private changesOf(metadata: Prisma.JsonValue): Record<string, { from: unknown; to: unknown }> {
+    const changes = metadata && typeof metadata === "object" && !Array.isArray(metadata) ? metadata.changes : null;
+    return changes && typeof changes === "object" && !Array.isArray(changes) ? (changes as Record<string, { from: unknown; to: unknown }>) : {};
+  }
+
+  /**
+   * Instant exact du démarrage (entrée ENABLED du journal), `actual_start_date` n'ayant qu'une précision au jour
+   */
+  private async resolveStartInstant(sprintId: number, fallback: Date): Promise<Date> {
+    const started = await this.prisma.activity_logs.findFirst({
+      where: { entity_type: ActivityEntityType.SPRINT, entity_id: sprintId, action: ActivityAction.ENABLED },
+      orderBy: { created_at: "desc" },
+      select: { created_at: true },
+    });
+    return started?.created_at ?? fallback;
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,416 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  DEFAULT_MEMBER_HOURS_PER_DAY,
+  DEFAULT_SPRINT_LENGTH_DAYS,
+  SprintCapacityPlanningDto,
+  SprintCapacityWarningDto,
+  SprintMemberCapacityDto,
+  SprintStatus,
+  TicketStatus,
+  UpsertSprintMemberCapacityDto,
+} from "@shared/types";
+import { ProjectsService } from "../project/projects.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SprintWindow {
+  id: number;
+  project_id: number;
+  status: string;
+  start_date: Date;
+  end_date: Date | null;
+  capacity: number | null;
+}
+
+interface Unassigned {
+  tickets: number;
+  hours: number;
+  points: number;
+}
+
+const SprintWindowSelect = { id: true, project_id: true, status: true, start_date: true, end_date: true, capacity: true } as const;
+
+/**
+ * Service de planification de la capacité des sprints par membre
+ *
+ * - getPlanning: Capacité et charge engagée de chaque membre d'un sprint
+ * - upsertMemberCapacity: Saisie des heures disponibles, jours d'absence et story points d'un membre
+ * - resetMemberCapacity: Retour aux valeurs par défaut pour un membre
+ * - assessMembers: Avertissements de surcharge pour des membres d'un sprint (assignations)
+ *
+ * Les membres sont ceux des équipes du projet (`project_teams` / `team_members`), complétés par les
+ * assignés des tickets du sprint. Sans saisie, un membre dispose de `DEFAULT_MEMBER_HOURS_PER_DAY` heures
+ * par jour ouvré (lundi à vendredi) du sprint, sans limite de story points.
+ * La charge engagée couvre les tickets du sprint assignés au membre, hors tickets CANCELLED.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class SprintCapacityService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerClientService,
+    private readonly projectsService: ProjectsService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  /**
+   * Compare la capacité de chaque membre à sa charge engagée sur le sprint
+   *
+   * @param sprintId ID du sprint
+   * @param projectId ID du projet du sprint
+   * @param userId ID de l'utilisateur
+   * @returns Vue de planification du sprint
+   */
+  async getPlanning(sprintId: number, projectId: number, userId: string): Promise<SprintCapacityPlanningDto> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "sprint-capacity.getPlanning",
+      message: `Computing capacity planning for sprint ${sprintId}`,
+      data: { sprintId, projectId, userId },
+    });
+
+    const sprint = await this.findSprint(sprintId, projectId, userId);
+
+    try {
+      const { members, unassigned } = await this.computeMembers(sprint);
+      const end = this.endDate(sprint);
+
+      return {
+        sprint_id: sprint.id,
+        start_date: this.formatDay(sprint.start_date),
+        end_date: this.formatDay(end),
+        working_days: this.workingDays(sprint.start_date, end),
+        sprint_capacity_points: sprint.capacity && sprint.capacity > 0 ? sprint.capacity : null,
+        total_capacity_hours: this.round(members.reduce((sum, member) => sum + member.capacity_hours, 0)),
+        total_committed_hours: this.round(members.reduce((sum, member) => sum + member.committed_hours, 0) + unassigned.hours),
+        total_committed_points: members.reduce((sum, member) => sum + member.committed_points, 0) + unassigned.points,
+        unassigned_tickets: unassigned.tickets,
+        unassigned_hours: this.round(unassigned.hours),
+        unassigned_points: unassigned.points,
+        overcommitted_members: members.filter(member => member.overcommitted).length,
+        members,
+      };
+    } catch (error) {
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "sprint-capacity.getPlanning",
+        message: `Error computing capacity planning: ${error instanceof Error ? error.message : String(error)}`,
+        data: { sprintId, projectId, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while computing the sprint capacity. Please try again." });
+    }
+  }
+
+  /**
+   * Enregistre la capacité d'un membre pour un sprint
+   *
+   * @param sprintId ID du sprint
+   * @param projectId ID du projet du sprint
+   * @param memberId ID du membre
+   * @param dto Heures par jour, jours d'absence, story points
+   * @param userId ID de l'utilisateur effectuant la saisie
+   * @returns Capacité et charge du membre
+   */
+  async upsertMemberCapacity(sprintId: number, projectId: number, memberId: string, dto: UpsertSprintMemberCapacityDto, userId: string): Promise<SprintMemberCapacityDto> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "sprint-capacity.upsertMemberCapacity",
+      message: `Updating capacity of member ${memberId} for sprint ${sprintId}`,
+      data: { sprintId, projectId, memberId, dto, userId },
+    });
+
+    const values: UpsertSprintMemberCapacityDto = dto ?? {};
+    this.assertValidCapacity(values);
+    const sprint = await this.findSprint(sprintId, projectId, userId);
+    await this.assertPlannableMember(sprint, memberId);
+
+    try {
+      const where = { sprint_id_user_id: { sprint_id: sprint.id, user_id: memberId } };
+      const before = await this.prisma.sprint_member_capacities.findUnique({ where });
+      const data = {
+        hours_per_day: values.hours_per_day != null ? Number(values.hours_per_day) : undefined,
+        days_off: values.days_off != null ? Number(values.days_off) : undefined,
+        capacity_points: values.capacity_points,
+        notes: values.notes !== undefined ? values.notes || null : undefined,
+      };
+      const after = await this.prisma.sprint_member_capacities.upsert({
+        where,
+        create: { ...data, sprint_id: sprint.id, user_id: memberId, created_by: userId },
+        update: { ...data, updated_by: userId, updated_at: new Date() },
+      });
+
+      await this.logger.log({
+        level: "info",
+        service: "project",
+        func: "sprint-capacity.upsertMemberCapacity",
+        message: `Capacity of member ${memberId} updated for sprint ${sprint.id}`,
+        data: { sprintId: sprint.id, memberId, hoursPerDay: after.hours_per_day, daysOff: after.days_off, capacityPoints: after.capacity_points },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.SPRINT,
+        entity_id: sprint.id,
+        project_id: sprint.project_id,
+        before: before ? this.capacityFields(before) : undefined,
+        after: this.capacityFields(after),
+        metadata: { member_capacity: memberId },
+      });
+
+      const { members } = await this.computeMembers(sprint, [memberId]);
+      return members[0];
+    } catch (error) {
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "sprint-capacity.upsertMemberCapacity",
+        message: `Error updating member capacity: ${error instanceof Error ? error.message : String(error)}`,
+        data: { sprintId, projectId, memberId, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while updating the member capacity. Please try again." });
+    }
+  }
+
+  /**
+   * Supprime la capacité saisie d'un membre, qui retrouve les valeurs par défaut
+   *
+   * @param sprintId ID du sprint
+   * @param projectId ID du projet du sprint
+   * @param memberId ID du membre
+   * @param userId ID de l'utilisateur
+   */
+  async resetMemberCapacity(sprintId: number, projectId: number, memberId: string, userId: string): Promise<boolean> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "sprint-capacity.resetMemberCapacity",
+      message: `Resetting capacity of member ${memberId} for sprint ${sprintId}`,
+      data: { sprintId, projectId, memberId, userId },
+    });
+
+    const sprint = await this.findSprint(sprintId, projectId, userId);
+    const before = await this.prisma.sprint_member_capacities.findUnique({ where: { sprint_id_user_id: { sprint_id: sprint.id, user_id: memberId } } });
+    if (!before) {
+      throw new RpcException({ code: status.NOT_FOUND, message: "No capacity recorded for this member in this sprint" });
+    }
+
+    await this.prisma.sprint_member_capacities.delete({ where: { id: before.id } });
+
+    await this.activityLogs.record({
+      user_id: userId,
+      action: ActivityAction.UPDATED,
+      entity_type: ActivityEntityType.SPRINT,
+      entity_id: sprint.id,
+      project_id: sprint.project_id,
+      before: this.capacityFields(before),
+      metadata: { member_capacity: memberId, reset: true },
+    });
+
+    return true;
+  }
+
+  /**
+   * Avertissements pour les membres dont la charge dépasse la capacité sur un sprint en cours ou à venir
+   * Sans effet (liste vide) pour un sprint terminé ou annulé ; une erreur de calcul n'est que journalisée,
+   * l'assignation qui déclenche l'évaluation ayant déjà eu lieu.
+   *
+   * @param sprintId ID du sprint
+   * @param userIds Membres à évaluer
+   */
+  async assessMembers(sprintId: number | null, userIds: (string | null)[]): Promise<SprintCapacityWarningDto[]> {
+    const ids = [...new Set(userIds.filter((id): id is string => !!id))];
+    if (!sprintId || !ids.length) return [];
+
+    try {
+      const sprint = await this.prisma.sprints.findUnique({ where: { id: sprintId }, select: SprintWindowSelect });
+      if (!sprint || (sprint.status as SprintStatus) === SprintStatus.COMPLETED || (sprint.status as SprintStatus) === SprintStatus.CANCELLED) {
+        return [];
+      }
+
+      const { members } = await this.computeMembers(sprint, ids);
+      return members.filter(member => member.overcommitted).map(member => this.toWarning(sprint.id, member));
+    } catch (error) {
+      await this.logger.log({
+        level: "warn",
+        service: "project",
+        func: "sprint-capacity.assessMembers",
+        message: `Unable to assess sprint capacity: ${error instanceof Error ? error.message : String(error)}`,
+        data: { sprintId, userIds: ids },
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Capacité et charge des membres du sprint (ou des seuls membres demandés)
+   */
+  private async computeMembers(sprint: SprintWindow, userIds?: string[]): Promise<{ members: SprintMemberCapacityDto[]; unassigned: Unassigned }> {
+    const only = userIds ? { in: userIds } : undefined;
+    const [teamMembers, entries, tickets] = await Promise.all([
+      this.prisma.team_members.findMany({
+        where: { teams: { teams: { some: { project_id: sprint.project_id } } }, user_id: only },
+        select: { user_id: true },
+        distinct: ["user_id"],
+      }),
+      this.prisma.sprint_member_capacities.findMany({ where: { sprint_id: sprint.id, user_id: only } }),
+      this.prisma.tickets.findMany({
+        where: { sprint_id: sprint.id, status: { not: TicketStatus.CANCELLED }, ...(only ? { assigned_to: only } : {}) },
+        select: { assigned_to: true, story_points: true, estimated_hours: true },
+      }),
+    ]);
+
+    const teamIds = new Set(teamMembers.map(member => member.user_id));
+    const entriesByUser = new Map(entries.map(entry => [entry.user_id, entry]));
+    const ids = [...new Set([...teamIds, ...entriesByUser.keys(), ...tickets.flatMap(ticket => (ticket.assigned_to ? [ticket.assigned_to] : []))])];
+    const profiles = ids.length ? await this.prisma.profiles.findMany({ where: { user_id: { in: ids } }, select: { user_id: true, username: true } }) : [];
+    const usernames = new Map(profiles.map(profile => [profile.user_id, profile.username]));
+    const workingDays = this.workingDays(sprint.start_date, this.endDate(sprint));
+
+    const members = ids.map((id): SprintMemberCapacityDto => {
+      const entry = entriesByUser.get(id);
+      const owned = tickets.filter(ticket => ticket.assigned_to === id);
+      const hoursPerDay = entry?.hours_per_day ?? DEFAULT_MEMBER_HOURS_PER_DAY;
+      const daysOff = entry?.days_off ?? 0;
+      const availableDays = Math.max(0, workingDays - daysOff);
+      const capacityHours = this.round(availableDays * hoursPerDay);
+      const capacityPoints = entry?.capacity_points ?? null;
+      const committedHours = this.round(owned.reduce((sum, ticket) => sum + (ticket.estimated_hours ?? 0), 0));
+      const committedPoints = owned.reduce((sum, ticket) => sum + (ticket.story_points ?? 0), 0);
+
+      return {
+        user_id: id,
+        username: usernames.get(id) ?? null,
+        is_team_member: teamIds.has(id),
+        has_custom_capacity: !!entry,
+        hours_per_day: hoursPerDay,
+        days_off: daysOff,
+        available_days: availableDays,
+        capacity_hours: capacityHours,
+        capacity_points: capacityPoints,
+        committed_tickets: owned.length,
+        committed_hours: committedHours,
+        committed_points: committedPoints,
+        load_ratio: capacityHours > 0 ? this.round(committedHours / capacityHours) : null,
+        overcommitted: committedHours > capacityHours || (capacityPoints !== null && committedPoints > capacityPoints),
+        notes: entry?.notes ?? null,
+      };
+    });
+    members.sort((a, b) => (a.username ?? a.user_id).localeCompare(b.username ?? b.user_id));
+
+    const unassignedTickets = tickets.filter(ticket => !ticket.assigned_to);
+    const unassigned: Unassigned = {
+      tickets: unassignedTickets.length,
+      hours: unassignedTickets.reduce((sum, ticket) => sum + (ticket.estimated_hours ?? 0), 0),
+      points: unassignedTickets.reduce((sum, ticket) => sum + (ticket.story_points ?? 0), 0),
+    };
+
+    return { members, unassigned };
+  }
+
+  private async findSprint(sprintId: number, projectId: number, userId: string): Promise<SprintWindow> {
+    if (!sprintId || Number.isNaN(Number(sprintId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid sprint identifier" });
+    }
+
+    // Validate project exists and user has access
+    await this.projectsService.getById(projectId, userId);
+
+    const sprint = await this.prisma.sprints.findFirst({ where: { id: Number(sprintId), project_id: projectId }, select: SprintWindowSelect });
+    if (!sprint) {
+      throw new RpcException({ code: status.NOT_FOUND, message: "Sprint not found for this project" });
+    }
+    return sprint;
+  }
+
+  /**
+   * Seuls les membres des équipes du projet et les assignés des tickets du sprint ont une capacité
+   */
+  private async assertPlannableMember(sprint: SprintWindow, memberId: string): Promise<void> {
+    if (!memberId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Member ID is required" });
+    }
+
+    const [teamMember, ticket] = await Promise.all([
+      this.prisma.team_members.findFirst({ where: { user_id: memberId, teams: { teams: { some: { project_id: sprint.project_id } } } }, select: { id: true } }),
+      this.prisma.tickets.findFirst({ where: { sprint_id: sprint.id, assigned_to: memberId }, select: { id: true } }),
+    ]);
+    if (!teamMember && !ticket) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: "User is neither a member of the project teams nor assigned to a ticket of this sprint" });
+    }
+  }
+
+  private assertValidCapacity(dto: UpsertSprintMemberCapacityDto): void {
+    if (dto.hours_per_day != null && (Number.isNaN(Number(dto.hours_per_day)) || dto.hours_per_day < 0 || dto.hours_per_day > 24)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Hours per day must be between 0 and 24" });
+    }
+    if (dto.days_off != null && (!Number.isInteger(Number(dto.days_off)) || dto.days_off < 0 || dto.days_off > 365)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Days off must be an integer between 0 and 365" });
+    }
+    if (dto.capacity_points != null && (!Number.isInteger(Number(dto.capacity_points)) || dto.capacity_points < 0 || dto.capacity_points > 500)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Story point capacity must be an integer between 0 and 500" });
+    }
+  }
+
+  private toWarning(sprintId: number, member: SprintMemberCapacityDto): SprintCapacityWarningDto {
+    const name = member.username ?? member.user_id;
+    const reasons: string[] = [];
+    if (member.committed_hours > member.capacity_hours) {
+      reasons.push(`${member.committed_hours}h committed for ${member.capacity_hours}h available`);
+    }
+    if (member.capacity_points !== null && member.committed_points > member.capacity_points) {
+      reasons.push(`${member.committed_points} story points committed for a capacity of ${member.capacity_points}`);
+    }
+
+    return {
+      sprint_id: sprintId,
+      user_id: member.user_id,
+      username: member.username,
+      committed_hours: member.committed_hours,
+      capacity_hours: member.capacity_hours,
+      committed_points: member.committed_points,
+      capacity_points: member.capacity_points,
+      message: `${name} is overcommitted in this sprint: ${reasons.join(", ")}`,
+    };
+  }
+
+  private capacityFields(entry: { user_id: string; hours_per_day: number; days_off: number; capacity_points: number | null; notes: string | null }) {
+    return { user_id: entry.user_id, hours_per_day: entry.hours_per_day, days_off: entry.days_off, capacity_points: entry.capacity_points, notes: entry.notes };
+  }
+
+  private endDate(sprint: SprintWindow): Date {
+    return sprint.end_date ?? new Date(sprint.start_date.getTime() + (DEFAULT_SPRINT_LENGTH_DAYS - 1) * DAY_MS);
+  }
+
+  /**
+   * Jours du lundi au vendredi entre deux dates incluses (UTC)
+   */
+  private workingDays(start: Date, end: Date): number {
+    let count = 0;
+    for (let day = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()); day <= end.getTime(); day += DAY_MS) {
+      const weekday = new Date(day).getUTCDay();
+      if (weekday !== 0 && weekday !== 6) count++;
+    }
+    return count;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
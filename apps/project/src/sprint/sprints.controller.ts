@@ -1,13 +1,29 @@
 import { Controller } from "@nestjs/common";
 import { GrpcMethod } from "@nestjs/microservices";
 import { LoggerClientService } from "@shared/logger";
-import { CreateSprintDto, UpdateSprintDto, SprintDto, BaseSearchQueryDto, SprintsListDto } from "@shared/types";
+import {
+  CreateSprintDto,
+  UpdateSprintDto,
+  SprintDto,
+  BaseSearchQueryDto,
+  SprintsListDto,
+  CompleteSprintDto,
+  SprintCompletionSummaryDto,
+  SprintBurndownDto,
+  SprintCapacityPlanningDto,
+  SprintMemberCapacityDto,
+  UpsertSprintMemberCapacityDto,
+} from "@shared/types";
 import { SprintsService } from "./sprints.service";
+import { SprintBurndownService } from "./sprint-burndown.service";
+import { SprintCapacityService } from "./sprint-capacity.service";
 
 @Controller()
 export class SprintsController {
   constructor(
     private readonly sprintsService: SprintsService,
+    private readonly sprintBurndownService: SprintBurndownService,
+    private readonly sprintCapacityService: SprintCapacityService,
     private readonly logger: LoggerClientService,
   ) {}
 
@@ -90,7 +106,7 @@ export class SprintsController {
       data,
     });
 
-    const list = await this.sprintsService.getOverview(data.projectId, data.params ?? {});
+    const list = await this.sprintsService.getOverview(data.projectId, data.params ?? {}, data.userId);
 
     await this.logger.log({
       level: "info",
@@ -219,7 +235,7 @@ export class SprintsController {
   }
 
   @GrpcMethod("SprintsService", "CompleteSprint")
-  async completeSprint(data: { sprintId: number; projectId: number; userId: string }): Promise<SprintDto> {
+  async completeSprint(data: { sprintId: number; projectId: number; userId: string; dto?: CompleteSprintDto }): Promise<SprintCompletionSummaryDto> {
     await this.logger.log({
       level: "info",
       service: "project",
@@ -228,16 +244,105 @@ export class SprintsController {
       data,
     });
 
-    const sprint = await this.sprintsService.completeSprint(data.sprintId, data.projectId, data.userId);
+    const summary = await this.sprintsService.completeSprint(data.sprintId, data.projectId, data.userId, data.dto);
 
     await this.logger.log({
       level: "info",
       service: "project",
       func: "sprints.grpc.completeSprint",
       message: `gRPC CompleteSprint response for sprint ${data.sprintId}`,
-      data: { sprintId: sprint?.id, status: sprint?.status },
+      data: { sprintId: summary.sprint?.id, velocity: summary.velocity, carriedOver: summary.carried_over_tickets, targetSprintId: summary.target_sprint_id },
     });
 
-    return sprint;
+    return summary;
+  }
+
+  @GrpcMethod("SprintsService", "GetBurndown")
+  async getBurndown(data: { sprintId: number; projectId: number; userId: string }): Promise<SprintBurndownDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.getBurndown",
+      message: `gRPC GetBurndown request for sprint ${data.sprintId}`,
+      data,
+    });
+
+    const burndown = await this.sprintBurndownService.getBurndown(data.sprintId, data.projectId, data.userId);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.getBurndown",
+      message: `gRPC GetBurndown response for sprint ${data.sprintId}`,
+      data: { sprintId: burndown.sprint_id, days: burndown.days.length, committedPoints: burndown.committed_points },
+    });
+
+    return burndown;
+  }
+
+  @GrpcMethod("SprintsService", "GetCapacityPlanning")
+  async getCapacityPlanning(data: { sprintId: number; projectId: number; userId: string }): Promise<SprintCapacityPlanningDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.getCapacityPlanning",
+      message: `gRPC GetCapacityPlanning request for sprint ${data.sprintId}`,
+      data,
+    });
+
+    const planning = await this.sprintCapacityService.getPlanning(data.sprintId, data.projectId, data.userId);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.getCapacityPlanning",
+      message: `gRPC GetCapacityPlanning response for sprint ${data.sprintId}`,
+      data: { sprintId: planning.sprint_id, members: planning.members.length, overcommitted: planning.overcommitted_members },
+    });
+
+    return planning;
+  }
+
+  @GrpcMethod("SprintsService", "UpsertMemberCapacity")
+  async upsertMemberCapacity(data: {
+    sprintId: number;
+    projectId: number;
+    userId: string;
+    memberId: string;
+    dto: UpsertSprintMemberCapacityDto;
+  }): Promise<SprintMemberCapacityDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.upsertMemberCapacity",
+      message: `gRPC UpsertMemberCapacity request for sprint ${data.sprintId} and member ${data.memberId}`,
+      data,
+    });
+
+    const member = await this.sprintCapacityService.upsertMemberCapacity(data.sprintId, data.projectId, data.memberId, data.dto, data.userId);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.upsertMemberCapacity",
+      message: `gRPC UpsertMemberCapacity response for sprint ${data.sprintId} and member ${data.memberId}`,
+      data: { capacityHours: member.capacity_hours, overcommitted: member.overcommitted },
+    });
+
+    return member;
+  }
+
+  @GrpcMethod("SprintsService", "ResetMemberCapacity")
+  async resetMemberCapacity(data: { sprintId: number; projectId: number; userId: string; memberId: string }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "sprints.grpc.resetMemberCapacity",
+      message: `gRPC ResetMemberCapacity request for sprint ${data.sprintId} and member ${data.memberId}`,
+      data,
+    });
+
+    const success = await this.sprintCapacityService.resetMemberCapacity(data.sprintId, data.projectId, data.memberId, data.userId);
+    return { success };
   }
 }
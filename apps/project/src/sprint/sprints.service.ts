@@ -1,21 +1,38 @@
 import { Injectable } from "@nestjs/common";
 import { LoggerClientService } from "@shared/logger";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import {
   CreateSprintDto,
   UpdateSprintDto,
   SprintDto,
   SprintsListDto,
+  SprintGroupDto,
+  SprintGroupField,
+  SprintSubGroupField,
   SprintStatus,
   BaseSearchQueryDto,
   SearchQueryBuilder,
   BasePaginationDto,
   SprintOverview,
   FilterRule,
+  ActivityAction,
+  ActivityEntityType,
+  activityEntityIds,
+  NotificationEvent,
+  CompleteSprintDto,
+  SprintCarryOverPolicy,
+  SprintCompletionSummaryDto,
+  COMPLETED_TICKET_STATUSES,
+  TicketStatus,
+  SavedViewEntityType,
 } from "@shared/types";
-import { Prisma } from "@prisma/client";
+import { Prisma, sprints } from "@prisma/client";
 import { plainToInstance } from "class-transformer";
 import { ProjectsService } from "../project/projects.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { NotificationsService } from "../notification/notifications.service";
+import { SavedViewsService } from "../view/saved-views.service";
+import { TicketRankingService } from "../ticket/ticket-ranking.service";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 
@@ -25,6 +42,10 @@ export class SprintsService {
     private readonly prisma: PrismaService,
     private readonly logger: LoggerClientService,
     private readonly projectsService: ProjectsService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly notifications: NotificationsService,
+    private readonly savedViews: SavedViewsService,
+    private readonly ticketRanking: TicketRankingService,
   ) {}
 
   async create(ownerId: string, dto: CreateSprintDto): Promise<SprintDto> {
@@ -78,6 +99,15 @@ export class SprintsService {
         },
       });
 
+      await this.activityLogs.record({
+        user_id: ownerId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.SPRINT,
+        entity_id: sprint.id,
+        project_id: sprint.project_id,
+        after: sprint,
+      });
+
       return plainToInstance(SprintDto, sprint);
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -106,7 +136,7 @@ export class SprintsService {
 
   async search(userId: string, projectId: number, params?: BaseSearchQueryDto): Promise<SprintsListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 50;
+    const take = await resolveTake(this.prisma, userId, params?.take, 50);
 
     await this.logger.log({
       level: "info",
@@ -119,6 +149,7 @@ export class SprintsService {
     try {
       // Validate project exists and user has access
       await this.projectsService.getById(projectId, userId);
+      params = await this.savedViews.applyView(userId, SavedViewEntityType.SPRINT, projectId, params);
 
       // Base where clause: sprints for the project
       let where: Prisma.sprintsWhereInput = {
@@ -200,7 +231,13 @@ export class SprintsService {
         data: { count: transformedItems, total, skip, take },
       });
 
-      return BasePaginationDto.create(transformedItems, total, skip, take, SprintsListDto);
+      const result = BasePaginationDto.create(transformedItems, total, skip, take, SprintsListDto);
+
+      if (params?.groupBy) {
+        result.groups = await this.searchGroups(where, orderBy, params);
+      }
+
+      return result;
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -218,6 +255,53 @@ export class SprintsService {
     }
   }
 
+  /**
+   * Calcule les groupes d'une recherche groupée sur l'ensemble des sprints filtrés
+   * Les story points et heures estimées sont la somme des tickets non annulés de chaque sprint
+   */
+  private async searchGroups(where: Prisma.sprintsWhereInput, orderBy: Prisma.sprintsOrderByWithRelationInput[], params: BaseSearchQueryDto): Promise<SprintGroupDto[]> {
+    const groupBy = params.groupBy!;
+    const subGroupBy = params.subGroupBy;
+    if (!(Object.values(SprintGroupField) as string[]).includes(groupBy.field)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid groupBy field: ${groupBy.field}` });
+    }
+    if (subGroupBy && !(Object.values(SprintSubGroupField) as string[]).includes(subGroupBy.field)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid subGroupBy field: ${subGroupBy.field}` });
+    }
+
+    const select: Record<string, true> = { id: true, [groupBy.field]: true };
+    if (subGroupBy) {
+      select[subGroupBy.field] = true;
+    }
+    const rows = (await this.prisma.sprints.findMany({ where, orderBy, select })) as unknown as Array<Record<string, unknown> & { id: number }>;
+
+    const sums = await this.prisma.tickets.groupBy({
+      by: ["sprint_id"],
+      where: { sprint_id: { in: rows.map(row => row.id) }, status: { not: TicketStatus.CANCELLED } },
+      _sum: { story_points: true, estimated_hours: true },
+    });
+    const measures = new Map(sums.map(sum => [sum.sprint_id, { story_points: sum._sum.story_points ?? 0, estimated_hours: sum._sum.estimated_hours ?? 0 }]));
+
+    const itemsTake = Math.min(Math.max(params.groupItemsTake ?? 0, 0), 100);
+    const groups = SearchQueryBuilder.buildGroups(rows, groupBy, subGroupBy, row => measures.get(row.id) ?? { story_points: 0, estimated_hours: 0 }, itemsTake);
+
+    const ids = [...new Set(SearchQueryBuilder.collectGroupItems(groups).map(row => row.id))];
+    const sprints =
+      ids.length > 0
+        ? await this.prisma.sprints.findMany({
+            where: { id: { in: ids } },
+            include: {
+              project: { select: { id: true, name: true, slug: true } },
+              created_by_user: { select: { user_id: true, username: true, avatar_url: true } },
+              updated_by_user: { select: { user_id: true, username: true, avatar_url: true } },
+            },
+          })
+        : [];
+    const items = new Map(sprints.map(sprint => [sprint.id, plainToInstance(SprintDto, sprint, { excludeExtraneousValues: true })]));
+
+    return SearchQueryBuilder.mapGroupItems(groups, row => items.get(row.id));
+  }
+
   async getById(id: string, userId?: string): Promise<SprintDto> {
     await this.logger.log({
       level: "debug",
@@ -293,9 +377,9 @@ export class SprintsService {
     }
   }
 
-  async getOverview(id: number, params: BaseSearchQueryDto): Promise<SprintsListDto> {
+  async getOverview(id: number, params: BaseSearchQueryDto, userId?: string): Promise<SprintsListDto> {
     const skip = params.skip ?? 0;
-    const take = params.take ?? 10;
+    const take = await resolveTake(this.prisma, userId, params.take, 10);
     const search = params.search ?? "";
     await this.logger.log({
       level: "info",
@@ -390,6 +474,24 @@ export class SprintsService {
     }
 
     try {
+      const previous = await this.prisma.sprints.findUnique({ where: { id: sprintId } });
+
+      // Le démarrage passe par StartSprint (journal ENABLED, notification) et la clôture
+      // par CompleteSprint (report des tickets, vélocité, bilan)
+      if (previous && dto.status && dto.status !== previous.status && (dto.status === SprintStatus.ACTIVE || dto.status === SprintStatus.COMPLETED)) {
+        await this.logger.log({
+          level: "warn",
+          service: "project",
+          func: "sprints.update",
+          message: `Refusing to move sprint ${sprintId} to ${dto.status} through update`,
+          data: { id: sprintId, previousStatus: previous.status, status: dto.status, updatedBy },
+        });
+        throw new RpcException({
+          code: status.FAILED_PRECONDITION,
+          message: dto.status === SprintStatus.ACTIVE ? "Use StartSprint to start a sprint" : "Use CompleteSprint to complete a sprint",
+        });
+      }
+
       const sprint = await this.prisma.sprints.update({
         where: { id: sprintId },
         data: {
@@ -401,7 +503,6 @@ export class SprintsService {
           actual_end_date: dto.actual_end_date ? new Date(dto.actual_end_date) : undefined,
           version: dto.version,
           status: dto.status,
-          velocity: dto.velocity,
           capacity: dto.capacity,
           review_notes: dto.review_notes,
           retrospective_notes: dto.retrospective_notes,
@@ -414,6 +515,18 @@ export class SprintsService {
         },
       });
 
+      if (updatedBy) {
+        await this.activityLogs.record({
+          user_id: updatedBy,
+          action: ActivityAction.UPDATED,
+          entity_type: ActivityEntityType.SPRINT,
+          entity_id: sprint.id,
+          project_id: sprint.project_id,
+          before: previous,
+          after: sprint,
+        });
+      }
+
       return plainToInstance(SprintDto, sprint);
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -462,6 +575,8 @@ export class SprintsService {
     }
 
     try {
+      const previous = await this.prisma.sprints.findUnique({ where: { id: sprintId } });
+
       await this.prisma.sprints.delete({ where: { id: sprintId } });
 
       await this.logger.log({
@@ -472,6 +587,17 @@ export class SprintsService {
         data: { sprintId, userId },
       });
 
+      if (userId) {
+        await this.activityLogs.record({
+          user_id: userId,
+          action: ActivityAction.DELETED,
+          entity_type: ActivityEntityType.SPRINT,
+          entity_id: sprintId,
+          project_id: previous?.project_id,
+          before: previous,
+        });
+      }
+
       return true;
     } catch (error) {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
@@ -623,6 +749,25 @@ export class SprintsService {
         data: { sprintId, projectId, userId, actualStartDate: sprint.actual_start_date },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.ENABLED,
+        entity_type: ActivityEntityType.SPRINT,
+        entity_id: sprintId,
+        project_id: projectId,
+        before: existingSprint,
+        after: sprint,
+      });
+
+      await this.notifications.notify({
+        event: NotificationEvent.SPRINT_STARTED,
+        recipients: await this.getSprintAudience(sprintId, projectId),
+        actor_id: userId,
+        title: `Sprint "${sprint.name}" has started`,
+        project_id: projectId,
+        sprint_id: sprintId,
+      });
+
       return plainToInstance(SprintDto, sprint);
     } catch (error) {
       if (error instanceof RpcException) {
@@ -644,17 +789,27 @@ export class SprintsService {
 
   /**
    * Complete a sprint
-   * Sets status to COMPLETED, sets end_date if not set, and sets actual_end_date to now
+   * Sets status to COMPLETED, sets end_date if not set, and sets actual_end_date to now.
+   * Unfinished tickets are carried over according to `dto.carry_over` (next PLANNED sprint by default),
+   * the achieved velocity is stored and review/retrospective notes are saved in the same transaction.
    */
-  async completeSprint(sprintId: number, projectId: number, userId: string): Promise<SprintDto> {
+  async completeSprint(sprintId: number, projectId: number, userId: string, dto?: CompleteSprintDto): Promise<SprintCompletionSummaryDto> {
     await this.logger.log({
       level: "info",
       service: "project",
       func: "sprints.completeSprint",
       message: `Completing sprint ${sprintId}`,
-      data: { sprintId, projectId, userId },
+      data: { sprintId, projectId, userId, dto },
     });
 
+    const policy = dto?.carry_over ?? SprintCarryOverPolicy.NEXT_SPRINT;
+    if (!Object.values(SprintCarryOverPolicy).includes(policy)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid carry-over policy "${policy}"` });
+    }
+    if (policy === SprintCarryOverPolicy.SPRINT && !dto?.target_sprint_id) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "target_sprint_id is required with the SPRINT carry-over policy" });
+    }
+
     try {
       // Validate project exists and user has access
       await this.projectsService.getById(projectId, userId);
@@ -673,37 +828,123 @@ export class SprintsService {
         throw new RpcException({ code: status.FAILED_PRECONDITION, message: "Sprint is already completed" });
       }
 
+      const sprintTickets = await this.prisma.tickets.findMany({
+        where: { sprint_id: sprintId },
+        select: { id: true, status: true, story_points: true },
+      });
+
+      const done = sprintTickets.filter(ticket => COMPLETED_TICKET_STATUSES.includes(ticket.status as TicketStatus));
+      const cancelled = sprintTickets.filter(ticket => ticket.status === TicketStatus.CANCELLED);
+      const unfinished = sprintTickets.filter(ticket => !done.includes(ticket) && !cancelled.includes(ticket));
+
+      const targetSprintId = await this.resolveCarryOverTarget(existingSprint, policy, dto?.target_sprint_id, unfinished.length);
+      const addedIds = await this.findTicketsAddedMidSprint(
+        existingSprint,
+        sprintTickets.map(ticket => ticket.id),
+      );
+      const points = (tickets: { story_points: number | null }[]) => tickets.reduce((sum, ticket) => sum + (ticket.story_points ?? 0), 0);
+      const velocity = points(done);
+
       const now = new Date();
       const updateData: Prisma.sprintsUpdateInput = {
         status: SprintStatus.COMPLETED,
         actual_end_date: now,
+        velocity,
         updated_by_user: { connect: { user_id: userId } },
+        updated_at: now,
       };
 
       // Set end_date to now if not already set
       if (!existingSprint.end_date) {
         updateData.end_date = now;
       }
+      if (dto?.review_notes !== undefined) updateData.review_notes = dto.review_notes?.trim() || null;
+      if (dto?.retrospective_notes !== undefined) updateData.retrospective_notes = dto.retrospective_notes?.trim() || null;
+
+      const sprint = await this.prisma.$transaction(async tx => {
+        if (unfinished.length > 0) {
+          await tx.tickets.updateMany({
+            where: { id: { in: unfinished.map(ticket => ticket.id) }, sprint_id: sprintId },
+            data: { sprint_id: targetSprintId, updated_by: userId, updated_at: now },
+          });
+          if (targetSprintId === null) {
+            await this.ticketRanking.appendToBacklog(
+              tx,
+              projectId,
+              unfinished.map(ticket => ticket.id),
+            );
+          }
+        }
 
-      const sprint = await this.prisma.sprints.update({
-        where: { id: sprintId },
-        data: updateData,
-        include: {
-          project: { select: { id: true, name: true, slug: true } },
-          created_by_user: { select: { user_id: true, username: true, avatar_url: true } },
-          updated_by_user: { select: { user_id: true, username: true, avatar_url: true } },
-        },
+        return tx.sprints.update({
+          where: { id: sprintId },
+          data: updateData,
+          include: {
+            project: { select: { id: true, name: true, slug: true } },
+            created_by_user: { select: { user_id: true, username: true, avatar_url: true } },
+            updated_by_user: { select: { user_id: true, username: true, avatar_url: true } },
+          },
+        });
       });
 
+      const summary: SprintCompletionSummaryDto = {
+        sprint: plainToInstance(SprintDto, sprint),
+        velocity,
+        committed_points: points(sprintTickets.filter(ticket => !addedIds.has(ticket.id))),
+        completed_tickets: done.length,
+        carried_over_tickets: unfinished.length,
+        carried_over_points: points(unfinished),
+        carried_over_ticket_ids: unfinished.map(ticket => ticket.id),
+        cancelled_tickets: cancelled.length,
+        added_mid_sprint_tickets: addedIds.size,
+        added_mid_sprint_points: points(sprintTickets.filter(ticket => addedIds.has(ticket.id))),
+        carry_over: policy,
+        target_sprint_id: targetSprintId,
+      };
+
       await this.logger.log({
         level: "info",
         service: "project",
         func: "sprints.completeSprint",
         message: `Sprint ${sprintId} completed successfully`,
-        data: { sprintId, projectId, userId, actualEndDate: sprint.actual_end_date },
+        data: { sprintId, projectId, userId, actualEndDate: sprint.actual_end_date, ...summary, sprint: undefined },
       });
 
-      return plainToInstance(SprintDto, sprint);
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.COMPLETED,
+        entity_type: ActivityEntityType.SPRINT,
+        entity_id: sprintId,
+        project_id: projectId,
+        before: existingSprint,
+        after: sprint,
+        metadata: { carry_over: policy, target_sprint_id: targetSprintId, carried_over_ticket_ids: summary.carried_over_ticket_ids },
+      });
+
+      for (const ticket of unfinished) {
+        await this.activityLogs.record({
+          user_id: userId,
+          action: ActivityAction.MOVED,
+          entity_type: ActivityEntityType.TICKET,
+          entity_id: ticket.id,
+          project_id: projectId,
+          ticket_id: ticket.id,
+          before: { sprint_id: sprintId },
+          after: { sprint_id: targetSprintId },
+          metadata: { carry_over: policy },
+        });
+      }
+
+      await this.notifications.notify({
+        event: NotificationEvent.SPRINT_COMPLETED,
+        recipients: await this.getSprintAudience(sprintId, projectId),
+        actor_id: userId,
+        title: `Sprint "${sprint.name}" has completed`,
+        project_id: projectId,
+        sprint_id: sprintId,
+      });
+
+      return summary;
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -721,4 +962,84 @@ export class SprintsService {
       throw error;
     }
   }
+
+  /**
+   * Détermine le sprint recevant les tickets non terminés (null : backlog)
+   */
+  private async resolveCarryOverTarget(sprint: sprints, policy: SprintCarryOverPolicy, targetSprintId: number | undefined, unfinished: number): Promise<number | null> {
+    if (policy === SprintCarryOverPolicy.BACKLOG) {
+      return null;
+    }
+
+    if (policy === SprintCarryOverPolicy.SPRINT) {
+      const target = await this.prisma.sprints.findFirst({
+        where: { id: Number(targetSprintId), project_id: sprint.project_id },
+        select: { id: true, status: true },
+      });
+      if (!target) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Target sprint ${targetSprintId} not found for this project` });
+      }
+      if (target.id === sprint.id) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Unfinished tickets cannot be carried over to the sprint being completed" });
+      }
+      if (target.status === SprintStatus.COMPLETED || target.status === SprintStatus.CANCELLED) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Target sprint ${target.id} is ${target.status} and cannot receive tickets` });
+      }
+      return target.id;
+    }
+
+    const next = await this.prisma.sprints.findFirst({
+      where: { project_id: sprint.project_id, status: SprintStatus.PLANNED, id: { not: sprint.id } },
+      orderBy: [{ version: "asc" }, { start_date: "asc" }, { id: "asc" }],
+      select: { id: true },
+    });
+    if (!next) {
+      if (unfinished === 0) return null;
+      throw new RpcException({
+        code: status.FAILED_PRECONDITION,
+        message: `NO_PLANNED_SPRINT: no PLANNED sprint can receive the ${unfinished} unfinished ticket(s); use the BACKLOG or SPRINT carry-over policy`,
+      });
+    }
+    return next.id;
+  }
+
+  /**
+   * Tickets du sprint qui y ont été ajoutés (création ou déplacement) après son démarrage, d'après le journal d'activité
+   */
+  private async findTicketsAddedMidSprint(sprint: sprints, ticketIds: number[]): Promise<Set<number>> {
+    if (ticketIds.length === 0 || !sprint.actual_start_date) {
+      return new Set();
+    }
+
+    // actual_start_date n'a qu'une précision au jour : l'heure exacte vient de l'entrée de démarrage du journal
+    const started = await this.prisma.activity_logs.findFirst({
+      where: { entity_type: ActivityEntityType.SPRINT, entity_id: sprint.id, action: ActivityAction.ENABLED },
+      orderBy: { created_at: "desc" },
+      select: { created_at: true },
+    });
+    const startedAt = started?.created_at ?? sprint.actual_start_date;
+
+    const additions = await this.prisma.activity_logs.findMany({
+      where: {
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: { in: ticketIds },
+        created_at: { gt: startedAt },
+        metadata: { path: ["changes", "sprint_id", "to"], equals: sprint.id },
+      },
+      select: { entity_id: true },
+      distinct: ["entity_id"],
+    });
+    return new Set(activityEntityIds(additions));
+  }
+
+  /**
+   * Destinataires des notifications de sprint : membres des équipes du projet et assignés des tickets du sprint
+   */
+  private async getSprintAudience(sprintId: number, projectId: number): Promise<string[]> {
+    const [members, tickets] = await Promise.all([
+      this.prisma.team_members.findMany({ where: { teams: { teams: { some: { project_id: projectId } } } }, select: { user_id: true } }),
+      this.prisma.tickets.findMany({ where: { sprint_id: sprintId, assigned_to: { not: null } }, select: { assigned_to: true } }),
+    ]);
+    return [...members.map(member => member.user_id), ...tickets.map(ticket => ticket.assigned_to!)];
+  }
 }
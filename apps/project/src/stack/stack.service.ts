@@ -2,10 +2,23 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
-import { CreateStackDto, UpdateStackDto, StackDto, StackListDto, BaseSearchQueryDto, StackDtoSelect, StackListSelect } from "@shared/types";
+import {
+  CreateStackDto,
+  UpdateStackDto,
+  StackDto,
+  StackListDto,
+  BaseSearchQueryDto,
+  StackDtoSelect,
+  StackListSelect,
+  StackType,
+  ActivityAction,
+  ActivityEntityType,
+} from "@shared/types";
 import { plainToInstance } from "class-transformer";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
 
 /**
  * Service de gestion des stacks technologiques
@@ -18,6 +31,8 @@ import { plainToInstance } from "class-transformer";
  * - getById: Récupération d'une stack par son ID
  * - getByProjectId: Récupération des stacks d'un projet
  *
+ * Un projet ne peut avoir qu'une seule stack principale (is_primary) par StackType.
+ *
  * @author Bibz Project
  * @version 1.0.0
  */
@@ -26,6 +41,8 @@ export class StackService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
   ) {}
 
   /**
@@ -63,29 +80,20 @@ export class StackService {
       throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
     }
 
+    if (!Object.values(StackType).includes(dto.type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid stack type: expected one of ${Object.values(StackType).join(", ")}` });
+    }
+
     try {
-      // Vérifier que le projet existe
-      const project = await this.prisma.projects.findUnique({
-        where: { id: projectId },
-        select: { id: true, name: true },
-      });
+      await this.assertProjectRight(projectId, userId, "update");
 
-      if (!project) {
-        throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+      if (dto.language_id) {
+        await this.assertLanguageExists(dto.language_id);
       }
 
-      // Si c'est une stack principale, s'assurer qu'il n'y en a pas déjà une
+      // Une seule stack principale par type
       if (dto.is_primary) {
-        const existingPrimaryStack = await this.prisma.stacks.findFirst({
-          where: {
-            project_id: projectId,
-            is_primary: true,
-          },
-        });
-
-        if (existingPrimaryStack) {
-          throw new RpcException({ code: status.ALREADY_EXISTS, message: "A primary stack already exists for this project" });
-        }
+        await this.assertPrimaryAvailable(projectId, dto.type);
       }
 
       const stack = await this.prisma.stacks.create({
@@ -111,8 +119,20 @@ export class StackService {
         data: { stackId: stack.id, projectId, userId },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.STACK,
+        entity_id: stack.id,
+        project_id: projectId,
+        after: stack,
+      });
+
       return plainToInstance(StackDto, stack);
     } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
       if (error instanceof Error) {
         await this.loggerClient.log({
           level: "error",
@@ -163,11 +183,17 @@ export class StackService {
       data: { stackId, projectId, userId, dto },
     });
 
+    if (dto.type !== undefined && !Object.values(StackType).includes(dto.type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid stack type: expected one of ${Object.values(StackType).join(", ")}` });
+    }
+
     try {
+      await this.assertProjectRight(projectId, userId, "update");
+
       // Vérifier que la stack existe et appartient au projet
       const existingStack = await this.prisma.stacks.findUnique({
         where: { id: stackId },
-        select: { id: true, project_id: true, is_primary: true, title: true },
+        select: StackDtoSelect,
       });
 
       if (!existingStack) {
@@ -178,19 +204,15 @@ export class StackService {
         throw new RpcException({ code: status.FAILED_PRECONDITION, message: "Stack does not belong to the specified project" });
       }
 
-      // Si on veut définir cette stack comme principale
-      if (dto.is_primary && !existingStack.is_primary) {
-        const existingPrimaryStack = await this.prisma.stacks.findFirst({
-          where: {
-            project_id: projectId,
-            is_primary: true,
-            id: { not: stackId },
-          },
-        });
+      if (dto.language_id) {
+        await this.assertLanguageExists(dto.language_id);
+      }
 
-        if (existingPrimaryStack) {
-          throw new RpcException({ code: status.ALREADY_EXISTS, message: "A primary stack already exists for this project" });
-        }
+      // Une seule stack principale par type : vérifier lorsque la stack devient principale ou change de type en l'étant
+      const willBePrimary = dto.is_primary ?? existingStack.is_primary;
+      const nextType = dto.type ?? (existingStack.type as StackType);
+      if (willBePrimary && (!existingStack.is_primary || nextType !== existingStack.type)) {
+        await this.assertPrimaryAvailable(projectId, nextType, stackId);
       }
 
       const updateData: Prisma.stacksUpdateInput = {
@@ -200,6 +222,7 @@ export class StackService {
 
       if (dto.title !== undefined) updateData.title = dto.title.trim();
       if (dto.type !== undefined) updateData.type = dto.type;
+      if (dto.language_id !== undefined) updateData.language = { connect: { id: dto.language_id } };
       if (dto.version !== undefined) updateData.version = dto.version?.trim();
       if (dto.description !== undefined) updateData.description = dto.description?.trim();
       if (dto.is_primary !== undefined) updateData.is_primary = dto.is_primary;
@@ -218,8 +241,21 @@ export class StackService {
         data: { stackId, projectId, userId },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.STACK,
+        entity_id: stackId,
+        project_id: projectId,
+        before: existingStack,
+        after: stack,
+      });
+
       return plainToInstance(StackDto, stack);
     } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
       if (error instanceof Error) {
         await this.loggerClient.log({
           level: "error",
@@ -265,10 +301,12 @@ export class StackService {
     });
 
     try {
+      await this.assertProjectRight(projectId, userId, "update");
+
       // Vérifier que la stack existe et appartient au projet
       const existingStack = await this.prisma.stacks.findUnique({
         where: { id: stackId },
-        select: { id: true, project_id: true, title: true },
+        select: StackDtoSelect,
       });
 
       if (!existingStack) {
@@ -291,6 +329,15 @@ export class StackService {
         data: { stackId, projectId, userId },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.STACK,
+        entity_id: stackId,
+        project_id: projectId,
+        before: existingStack,
+      });
+
       return { success: true };
     } catch (error) {
       if (error instanceof RpcException) {
@@ -337,11 +384,13 @@ export class StackService {
     });
 
     const skip = query?.skip || 0;
-    const take = query?.take || 25;
+    const take = await resolveTake(this.prisma, userId, query?.take, 25);
 
     const search = query?.search?.trim() || "";
 
     try {
+      await this.assertProjectRight(projectId, userId, "get");
+
       const where: Prisma.stacksWhereInput = {
         project_id: projectId,
       };
@@ -377,6 +426,9 @@ export class StackService {
         take,
       });
     } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
       if (error instanceof Error) {
         await this.loggerClient.log({
           level: "error",
@@ -412,6 +464,8 @@ export class StackService {
     });
 
     try {
+      await this.assertProjectRight(projectId, userId, "get");
+
       const stack = await this.prisma.stacks.findUnique({
         where: { id: stackId },
         select: StackDtoSelect,
@@ -471,6 +525,8 @@ export class StackService {
     });
 
     try {
+      await this.assertProjectRight(projectId, userId, "get");
+
       const stacks = await this.prisma.stacks.findMany({
         where: { project_id: projectId },
         select: StackDtoSelect,
@@ -487,6 +543,9 @@ export class StackService {
 
       return stacks.map(stack => plainToInstance(StackDto, stack));
     } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
       if (error instanceof Error) {
         await this.loggerClient.log({
           level: "error",
@@ -501,4 +560,60 @@ export class StackService {
       throw error;
     }
   }
+
+  // Helpers
+  /**
+   * Vérifie que le projet existe et que l'utilisateur a le droit demandé sur le projet dans son workspace
+   */
+  private async assertProjectRight(projectId: number, userId: string, action: "get" | "update"): Promise<void> {
+    if (!projectId || Number.isNaN(Number(projectId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+
+    const project = await this.prisma.projects.findUnique({
+      where: { id: Number(projectId) },
+      select: { id: true, workspace_id: true },
+    });
+
+    if (!project) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+    }
+
+    const allowed = await this.workspaceMembersService.hasRight(project.workspace_id, userId, action, "project");
+    if (!allowed) {
+      throw new RpcException({
+        code: status.PERMISSION_DENIED,
+        message: action === "get" ? "You don't have permission to view the stacks of this project" : "You don't have permission to manage the stacks of this project",
+      });
+    }
+  }
+
+  private async assertLanguageExists(languageId: number): Promise<void> {
+    const language = await this.prisma.languages.findUnique({ where: { id: languageId }, select: { id: true } });
+    if (!language) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Language with ID "${languageId}" not found` });
+    }
+  }
+
+  /**
+   * Vérifie qu'aucune autre stack principale du même type n'existe dans le projet
+   */
+  private async assertPrimaryAvailable(projectId: number, type: StackType, excludeStackId?: number): Promise<void> {
+    const existingPrimaryStack = await this.prisma.stacks.findFirst({
+      where: {
+        project_id: projectId,
+        type,
+        is_primary: true,
+        ...(excludeStackId ? { id: { not: excludeStackId } } : {}),
+      },
+      select: { id: true, title: true },
+    });
+
+    if (existingPrimaryStack) {
+      throw new RpcException({
+        code: status.ALREADY_EXISTS,
+        message: `A primary ${type} stack already exists for this project ("${existingPrimaryStack.title}")`,
+      });
+    }
+  }
 }
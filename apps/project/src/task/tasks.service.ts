@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import {
   CreateTaskDto,
@@ -16,9 +16,15 @@ import {
   ProfileOverviewSelect,
   TaskOverviewSelect,
   TaskOverview,
+  ActivityAction,
+  ActivityEntityType,
+  SavedViewEntityType,
 } from "@shared/types";
 import { plainToInstance } from "class-transformer";
 import { TeamMembersService } from "apps/workspace/src/team/team-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { ProgressService } from "../progress/progress.service";
+import { SavedViewsService } from "../view/saved-views.service";
 
 /**
  * Service for task management
@@ -31,6 +37,8 @@ import { TeamMembersService } from "apps/workspace/src/team/team-members.service
  * - update: Update an existing task
  * - delete: Delete a task
  *
+ * Epic and project progress is recalculated in the same transaction as every task change.
+ *
  * @author Bibz Project
  * @version 1.0.0
  */
@@ -40,6 +48,9 @@ export class TasksService {
     private readonly prisma: PrismaService,
     private readonly loggerClient: LoggerClientService,
     private readonly teamMembersService: TeamMembersService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly progress: ProgressService,
+    private readonly savedViews: SavedViewsService,
   ) {}
 
   private async getProjectTeamIdOrThrow(projectId: number): Promise<string> {
@@ -130,27 +141,32 @@ export class TasksService {
 
     try {
       // Create task
-      const task = await this.prisma.tasks.create({
-        data: {
-          title: dto.title.trim(),
-          description: dto.description?.trim() ?? null,
-          epic_id: epicId,
-          status: (dto.status as TaskStatus) ?? TaskStatus.TODO,
-          priority: dto.priority ?? 0,
-          estimated_hours: dto.estimated_hours ?? null,
-          actual_hours: dto.actual_hours ?? 0,
-          due_date: dto.due_date ? new Date(dto.due_date) : null,
-          created_by: userId,
-          updated_by: userId,
-        },
-        include: {
-          created_by_user: {
-            select: ProfileOverviewSelect,
+      const task = await this.prisma.$transaction(async tx => {
+        const created = await tx.tasks.create({
+          data: {
+            title: dto.title.trim(),
+            description: dto.description?.trim() ?? null,
+            epic_id: epicId,
+            status: (dto.status as TaskStatus) ?? TaskStatus.TODO,
+            priority: dto.priority ?? 0,
+            estimated_hours: dto.estimated_hours ?? null,
+            // actual_hours is the sum of the task worklogs
+            actual_hours: 0,
+            due_date: dto.due_date ? new Date(dto.due_date) : null,
+            created_by: userId,
+            updated_by: userId,
           },
-          updated_by_user: {
-            select: ProfileOverviewSelect,
+          include: {
+            created_by_user: {
+              select: ProfileOverviewSelect,
+            },
+            updated_by_user: {
+              select: ProfileOverviewSelect,
+            },
           },
-        },
+        });
+        await this.progress.refreshEpics(tx, [epicId]);
+        return created;
       });
 
       if (!task) {
@@ -165,6 +181,15 @@ export class TasksService {
         data: { id: task.id, title: task.title },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.TASK,
+        entity_id: task.id,
+        project_id: epic.project_id,
+        after: task,
+      });
+
       return plainToInstance(TaskDto, task, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof RpcException) {
@@ -193,7 +218,7 @@ export class TasksService {
    */
   async search(userId: string, epicId: number, projectId: number, params?: BaseSearchQueryDto): Promise<TaskListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
     // Verify epic exists and get workspace context
     const epic = await this.prisma.epics.findUnique({
@@ -225,6 +250,7 @@ export class TasksService {
         message: "You don't have permission to read tasks in this workspace",
       });
     }
+    params = await this.savedViews.applyView(userId, SavedViewEntityType.TASK, projectId, params);
 
     // Build base where clause
     let where: Prisma.tasksWhereInput = {
@@ -404,7 +430,7 @@ export class TasksService {
    */
   async getOverview(projectId: number, epicId: number, userId: string, params?: BaseSearchQueryDto): Promise<TaskListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 10;
+    const take = await resolveTake(this.prisma, userId, params?.take, 10);
     const search = params?.search ?? "";
 
     // Verify epic exists
@@ -497,19 +523,6 @@ export class TasksService {
       // Verify task exists
       const existingTask = await this.prisma.tasks.findUnique({
         where: { id },
-        select: {
-          id: true,
-          title: true,
-          epic: {
-            select: {
-              project: {
-                select: {
-                  workspace_id: true,
-                },
-              },
-            },
-          },
-        },
       });
 
       if (!existingTask) {
@@ -554,9 +567,6 @@ export class TasksService {
       if (dto.estimated_hours !== undefined) {
         updateData.estimated_hours = dto.estimated_hours;
       }
-      if (dto.actual_hours !== undefined) {
-        updateData.actual_hours = dto.actual_hours;
-      }
       if (dto.due_date !== undefined) {
         updateData.due_date = dto.due_date ? new Date(dto.due_date) : null;
       }
@@ -564,26 +574,32 @@ export class TasksService {
         updateData.completed_at = dto.completed_at ? new Date(dto.completed_at) : null;
       }
 
-      const updated = await this.prisma.tasks.update({
-        where: { id },
-        data: updateData,
-        include: {
-          created_by_user: {
-            select: ProfileOverviewSelect,
-          },
-          updated_by_user: {
-            select: ProfileOverviewSelect,
-          },
-          epic: {
-            select: {
-              id: true,
-              title: true,
-              status: true,
-              progress: true,
-              category: true,
+      const updated = await this.prisma.$transaction(async tx => {
+        const task = await tx.tasks.update({
+          where: { id },
+          data: updateData,
+          include: {
+            created_by_user: {
+              select: ProfileOverviewSelect,
+            },
+            updated_by_user: {
+              select: ProfileOverviewSelect,
+            },
+            epic: {
+              select: {
+                id: true,
+                title: true,
+                status: true,
+                progress: true,
+                category: true,
+              },
             },
           },
-        },
+        });
+        // Moving a task changes the progress of both the previous and the new epic
+        await this.progress.refreshEpics(tx, [existingTask.epic_id, task.epic_id]);
+        const epic = await tx.epics.findUnique({ where: { id: task.epic_id }, select: { progress: true } });
+        return { ...task, epic: { ...task.epic, progress: epic?.progress ?? task.epic.progress } };
       });
 
       await this.loggerClient.log({
@@ -594,6 +610,16 @@ export class TasksService {
         data: { id: updated.id, title: updated.title },
       });
 
+      await this.activityLogs.record({
+        user_id: updatedBy,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.TASK,
+        entity_id: id,
+        project_id: projectId,
+        before: existingTask,
+        after: updated,
+      });
+
       return plainToInstance(TaskDto, updated, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -632,19 +658,6 @@ export class TasksService {
       // Verify task exists
       const existingTask = await this.prisma.tasks.findUnique({
         where: { id },
-        select: {
-          id: true,
-          title: true,
-          epic: {
-            select: {
-              project: {
-                select: {
-                  workspace_id: true,
-                },
-              },
-            },
-          },
-        },
       });
 
       if (!existingTask) {
@@ -666,8 +679,11 @@ export class TasksService {
       }
 
       // Delete task
-      await this.prisma.tasks.delete({
-        where: { id },
+      await this.prisma.$transaction(async tx => {
+        await tx.tasks.delete({
+          where: { id },
+        });
+        await this.progress.refreshEpics(tx, [existingTask.epic_id]);
       });
 
       await this.loggerClient.log({
@@ -678,6 +694,15 @@ export class TasksService {
         data: { id, title: existingTask.title },
       });
 
+      await this.activityLogs.record({
+        user_id: deletedBy,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.TASK,
+        entity_id: id,
+        project_id: projectId,
+        before: existingTask,
+      });
+
       return { success: true };
     } catch (error) {
       if (error instanceof RpcException) {
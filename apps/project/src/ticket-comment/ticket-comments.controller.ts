@@ -0,0 +1,135 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod, RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { LoggerClientService } from "@shared/logger";
+import { BaseSearchQueryDto, CreateTicketCommentDto, TicketCommentDto, TicketCommentListDto, UpdateTicketCommentDto } from "@shared/types";
+import { TicketCommentsService } from "./ticket-comments.service";
+
+/** Forme filaire des commentaires : les pièces jointes transitent en JSON sérialisé */
+type GrpcTicketCommentDto = Omit<TicketCommentDto, "attachments"> & { attachments: string };
+type GrpcTicketCommentInput<T> = Omit<T, "attachments"> & { attachments?: string };
+
+@Controller()
+export class TicketCommentsController {
+  constructor(
+    private readonly ticketCommentsService: TicketCommentsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("TicketComments", "Create")
+  async create(data: { user_id: string; ticket_id: number; dto: GrpcTicketCommentInput<CreateTicketCommentDto> }): Promise<GrpcTicketCommentDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.create",
+      message: `gRPC Create comment request for ticket id ${data.ticket_id}`,
+    });
+
+    const comment = await this.ticketCommentsService.create(data.user_id, data.ticket_id, {
+      ...data.dto,
+      attachments: this.parseAttachments(data.dto?.attachments),
+    });
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.create",
+      message: `gRPC Create comment response for ticket id ${data.ticket_id}`,
+      data: { commentId: comment.id },
+    });
+
+    return this.toGrpc(comment);
+  }
+
+  @GrpcMethod("TicketComments", "Search")
+  async search(data: { user_id: string; ticket_id: number; params?: BaseSearchQueryDto }): Promise<Omit<TicketCommentListDto, "items"> & { items: GrpcTicketCommentDto[] }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.search",
+      message: "gRPC Search comments request",
+      data,
+    });
+
+    const list = await this.ticketCommentsService.search(data.user_id, data.ticket_id, data.params);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.search",
+      message: "gRPC Search comments response",
+      data: { total: list.total, count: list.items.length },
+    });
+
+    return { ...list, items: list.items.map(item => this.toGrpc(item)) };
+  }
+
+  @GrpcMethod("TicketComments", "Update")
+  async update(data: { user_id: string; id: number; ticket_id: number; dto: GrpcTicketCommentInput<UpdateTicketCommentDto> }): Promise<GrpcTicketCommentDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.update",
+      message: `gRPC Update comment request for id ${data.id}`,
+      data,
+    });
+
+    const comment = await this.ticketCommentsService.update(
+      data.id,
+      data.ticket_id,
+      {
+        ...data.dto,
+        // Les champs repeated arrivent toujours initialisés : une liste vide signifie "inchangé"
+        mentioned_users: data.dto?.mentioned_users?.length ? data.dto.mentioned_users : undefined,
+        attachments: this.parseAttachments(data.dto?.attachments),
+      },
+      data.user_id,
+    );
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.update",
+      message: `gRPC Update comment response for id ${data.id}`,
+      data: { commentId: comment.id },
+    });
+
+    return this.toGrpc(comment);
+  }
+
+  @GrpcMethod("TicketComments", "Delete")
+  async delete(data: { user_id: string; id: number; ticket_id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.delete",
+      message: `gRPC Delete comment request for id ${data.id}`,
+      data,
+    });
+
+    const result = await this.ticketCommentsService.delete(data.id, data.ticket_id, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-comments.grpc.delete",
+      message: `gRPC Delete comment response for id ${data.id}`,
+      data: { result },
+    });
+
+    return { success: result };
+  }
+
+  private parseAttachments(raw?: string): Record<string, any> | undefined {
+    if (!raw) return undefined;
+    try {
+      return JSON.parse(raw) as Record<string, any>;
+    } catch {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Attachments must be valid JSON" });
+    }
+  }
+
+  private toGrpc(comment: TicketCommentDto): GrpcTicketCommentDto {
+    return { ...comment, attachments: JSON.stringify(comment.attachments ?? []) };
+  }
+}
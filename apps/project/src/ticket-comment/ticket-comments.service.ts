@@ -0,0 +1,513 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  CreateTicketCommentDto,
+  UpdateTicketCommentDto,
+  TicketCommentDto,
+  TicketCommentListDto,
+  TicketCommentDtoSelect,
+  BaseSearchQueryDto,
+  BasePaginationDto,
+  ActivityAction,
+  ActivityEntityType,
+  NotificationEvent,
+} from "@shared/types";
+import { plainToInstance } from "class-transformer";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { NotificationsService } from "../notification/notifications.service";
+
+/**
+ * Capture les mentions `@username` dans le contenu d'un commentaire.
+ * Le point final éventuel (fin de phrase) n'est pas considéré comme faisant partie du nom.
+ */
+const MENTION_PATTERN = /(?:^|[^\w.@])@([A-Za-z0-9_][A-Za-z0-9_.-]{1,49})/g;
+
+/**
+ * Service de gestion des commentaires de tickets
+ *
+ * Ce service fournit les opérations CRUD pour les commentaires avec contrôle d'accès :
+ * - create: Ajout d'un commentaire (mentions @username résolues en mentioned_users)
+ * - search: Liste paginée des commentaires d'un ticket (commentaires internes masqués aux GUEST/VIEWER)
+ * - update: Modification d'un commentaire par son auteur
+ * - delete: Suppression d'un commentaire par son auteur ou un utilisateur habilité
+ *
+ * Les nouveaux commentaires notifient le créateur et l'assigné du ticket, les mentions notifient les utilisateurs mentionnés.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketCommentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly notifications: NotificationsService,
+  ) {}
+
+  /**
+   * Crée un commentaire sur un ticket
+   *
+   * @param userId ID de l'auteur du commentaire
+   * @param ticketId ID du ticket commenté
+   * @param dto DTO contenant le contenu du commentaire
+   * @returns Le commentaire créé
+   * @throws ValidationError Si le contenu est vide
+   * @throws NotFoundException Si le ticket n'existe pas
+   * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   */
+  async create(userId: string, ticketId: number, dto: CreateTicketCommentDto): Promise<TicketCommentDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-comments.create",
+      message: `Creating comment on ticket ${ticketId} for user ${userId}`,
+      data: { userId, ticketId, isInternal: dto?.is_internal },
+    });
+
+    if (!dto?.content?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Comment content is required" });
+    }
+
+    try {
+      const ticket = await this.getTicketContextOrThrow(ticketId);
+
+      const canComment = await this.workspaceMembersService.hasRight(ticket.workspace_id, userId, "update", "project");
+      if (!canComment) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to comment on this ticket" });
+      }
+
+      const mentionedUsers = await this.resolveMentions(dto.content, ticket.workspace_id, dto.mentioned_users);
+
+      const created = await this.prisma.ticket_comments.create({
+        data: {
+          ticket_id: ticket.id,
+          author_id: userId,
+          content: dto.content.trim(),
+          is_internal: dto.is_internal ?? false,
+          mentioned_users: mentionedUsers,
+          attachments: (dto.attachments ?? []) as Prisma.InputJsonValue,
+          created_by: userId,
+        },
+        select: TicketCommentDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-comments.create",
+        message: `Comment created successfully on ticket ${ticketId}`,
+        data: { commentId: created.id, ticketId, userId, mentions: mentionedUsers.length },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.COMMENTED,
+        entity_type: ActivityEntityType.COMMENT,
+        entity_id: created.id,
+        project_id: ticket.project_id,
+        ticket_id: ticket.id,
+        metadata: { is_internal: created.is_internal, mentioned_users: mentionedUsers },
+      });
+
+      await this.notifyComment(ticket, created.id, created.is_internal, created.content, mentionedUsers, userId);
+
+      return plainToInstance(TicketCommentDto, created, { excludeExtraneousValues: true });
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "ticket-comments.create",
+          message: "Error creating ticket comment",
+          data: { error: error.message, ticketId, userId },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to create comment: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Liste les commentaires d'un ticket avec pagination
+   * Les commentaires internes ne sont renvoyés qu'aux membres pouvant contribuer au projet.
+   *
+   * @param userId ID de l'utilisateur effectuant la recherche
+   * @param ticketId ID du ticket
+   * @param params Paramètres de recherche avec pagination
+   * @returns Liste paginée des commentaires
+   * @throws NotFoundException Si le ticket n'existe pas
+   * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   */
+  async search(userId: string, ticketId: number, params?: BaseSearchQueryDto): Promise<TicketCommentListDto> {
+    const skip = params?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
+
+    try {
+      const ticket = await this.getTicketContextOrThrow(ticketId);
+
+      const canRead = await this.workspaceMembersService.hasRight(ticket.workspace_id, userId, "get", "project");
+      if (!canRead) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view comments on this ticket" });
+      }
+
+      const canSeeInternal = await this.canSeeInternal(ticket.workspace_id, userId);
+
+      const where: Prisma.ticket_commentsWhereInput = { ticket_id: ticket.id };
+      if (!canSeeInternal) {
+        where.is_internal = false;
+      }
+      if (params?.search?.trim()) {
+        where.content = { contains: params.search.trim(), mode: "insensitive" };
+      }
+
+      const order = params?.sortBy?.order?.toLowerCase() === "desc" ? Prisma.SortOrder.desc : Prisma.SortOrder.asc;
+
+      const [items, total] = await Promise.all([
+        this.prisma.ticket_comments.findMany({
+          where,
+          skip,
+          take,
+          orderBy: { created_at: order },
+          select: TicketCommentDtoSelect,
+        }),
+        this.prisma.ticket_comments.count({ where }),
+      ]);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-comments.search",
+        message: `Successfully fetched ${items.length} comments out of ${total}`,
+        data: { ticketId, userId, count: items.length, total, skip, take, canSeeInternal },
+      });
+
+      return BasePaginationDto.create(
+        items.map(item => plainToInstance(TicketCommentDto, item, { excludeExtraneousValues: true })),
+        total,
+        skip,
+        take,
+        TicketCommentListDto,
+      );
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "ticket-comments.search",
+          message: `Failed to search ticket comments: ${error.message}`,
+          data: { error: error.message, ticketId, params },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Met à jour un commentaire. Seul l'auteur peut modifier son commentaire.
+   *
+   * @param id ID du commentaire
+   * @param ticketId ID du ticket auquel le commentaire doit appartenir
+   * @param dto DTO contenant les données de mise à jour
+   * @param userId ID de l'utilisateur effectuant la mise à jour
+   * @returns Le commentaire mis à jour
+   * @throws NotFoundException Si le commentaire n'existe pas sur ce ticket
+   * @throws UnauthorizedException Si l'utilisateur n'est pas l'auteur
+   */
+  async update(id: number, ticketId: number, dto: UpdateTicketCommentDto, userId: string): Promise<TicketCommentDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-comments.update",
+      message: `Updating comment ${id} for user ${userId}`,
+      data: { id, ticketId, userId, changes: Object.keys(dto ?? {}) },
+    });
+
+    if (dto?.content !== undefined && !dto.content.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Comment content cannot be empty" });
+    }
+
+    try {
+      const existing = await this.prisma.ticket_comments.findUnique({
+        where: { id },
+        select: { id: true, ticket_id: true, author_id: true, mentioned_users: true },
+      });
+
+      if (!existing || existing.ticket_id !== ticketId) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Comment with ID "${id}" not found` });
+      }
+
+      if (existing.author_id !== userId) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "Only the author can edit this comment" });
+      }
+
+      const ticket = await this.getTicketContextOrThrow(existing.ticket_id);
+
+      const data: Prisma.ticket_commentsUncheckedUpdateInput = {
+        updated_by: userId,
+        updated_at: new Date(),
+      };
+      if (dto.content !== undefined) {
+        data.content = dto.content.trim();
+        data.mentioned_users = await this.resolveMentions(dto.content, ticket.workspace_id, dto.mentioned_users);
+      } else if (dto.mentioned_users !== undefined) {
+        data.mentioned_users = await this.resolveMentions("", ticket.workspace_id, dto.mentioned_users);
+      }
+      if (typeof dto.is_internal === "boolean") data.is_internal = dto.is_internal;
+      if (dto.attachments !== undefined) data.attachments = dto.attachments as Prisma.InputJsonValue;
+
+      const updated = await this.prisma.ticket_comments.update({
+        where: { id },
+        data,
+        select: TicketCommentDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-comments.update",
+        message: `Comment ${id} updated successfully`,
+        data: { id, ticketId: existing.ticket_id, userId },
+      });
+
+      const addedMentions = (updated.mentioned_users ?? []).filter(mentioned => !existing.mentioned_users.includes(mentioned));
+      await this.notifyMentions(ticket, updated.id, updated.is_internal, updated.content, addedMentions, userId);
+
+      return plainToInstance(TicketCommentDto, updated, { excludeExtraneousValues: true });
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "ticket-comments.update",
+          message: "Error updating ticket comment",
+          data: { error: error.message, id, userId },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to update comment: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Supprime un commentaire. Autorisé pour l'auteur ou un utilisateur ayant le droit de suppression sur le projet.
+   *
+   * @param id ID du commentaire
+   * @param ticketId ID du ticket auquel le commentaire doit appartenir
+   * @param userId ID de l'utilisateur effectuant la suppression
+   * @returns Confirmation de suppression
+   * @throws NotFoundException Si le commentaire n'existe pas sur ce ticket
+   * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   */
+  async delete(id: number, ticketId: number, userId: string): Promise<boolean> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-comments.delete",
+      message: `Deleting comment ${id}`,
+      data: { id, ticketId, userId },
+    });
+
+    try {
+      const existing = await this.prisma.ticket_comments.findUnique({
+        where: { id },
+        select: { id: true, ticket_id: true, author_id: true },
+      });
+
+      if (!existing || existing.ticket_id !== ticketId) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Comment with ID "${id}" not found` });
+      }
+
+      if (existing.author_id !== userId) {
+        const ticket = await this.getTicketContextOrThrow(existing.ticket_id);
+        const canDelete = await this.workspaceMembersService.hasRight(ticket.workspace_id, userId, "delete", "project");
+        if (!canDelete) {
+          throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to delete this comment" });
+        }
+      }
+
+      await this.prisma.ticket_comments.delete({ where: { id } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-comments.delete",
+        message: `Comment ${id} deleted successfully`,
+        data: { id, ticketId: existing.ticket_id, userId },
+      });
+
+      return true;
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "ticket-comments.delete",
+          message: "Error deleting ticket comment",
+          data: { error: error.message, id, userId },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to delete comment: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Extrait les noms d'utilisateur mentionnés (`@username`) d'un contenu
+   *
+   * @param content Contenu du commentaire
+   * @returns Liste dédupliquée des noms d'utilisateur
+   */
+  static parseMentions(content: string): string[] {
+    const usernames = new Set<string>();
+    for (const match of content.matchAll(MENTION_PATTERN)) {
+      const username = match[1].replace(/[.-]+$/, "");
+      if (username) usernames.add(username);
+    }
+    return [...usernames];
+  }
+
+  // Helpers
+  private async getTicketContextOrThrow(ticketId: number): Promise<{ id: number; project_id: number; workspace_id: string }> {
+    if (Number.isNaN(Number(ticketId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid ticket identifier" });
+    }
+
+    const ticket = await this.prisma.tickets.findUnique({
+      where: { id: Number(ticketId) },
+      select: { id: true, project_id: true, project: { select: { workspace_id: true } } },
+    });
+
+    if (!ticket) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Ticket with ID "${ticketId}" not found` });
+    }
+
+    if (!ticket.project_id || !ticket.project) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Ticket with ID "${ticketId}" is not attached to a project` });
+    }
+
+    return { id: ticket.id, project_id: ticket.project_id, workspace_id: ticket.project.workspace_id };
+  }
+
+  /**
+   * Notifie le créateur et l'assigné du ticket d'un nouveau commentaire, puis les utilisateurs mentionnés.
+   * Un utilisateur mentionné ne reçoit que la notification de mention.
+   */
+  private async notifyComment(
+    ticket: { id: number; project_id: number; workspace_id: string },
+    commentId: number,
+    isInternal: boolean,
+    content: string,
+    mentionedUsers: string[],
+    userId: string,
+  ): Promise<void> {
+    const { title, created_by, assigned_to } = await this.prisma.tickets.findUniqueOrThrow({
+      where: { id: ticket.id },
+      select: { title: true, created_by: true, assigned_to: true },
+    });
+
+    const followers = await this.filterAllowedRecipients(
+      ticket.workspace_id,
+      isInternal,
+      [created_by, assigned_to].filter((id): id is string => !!id && !mentionedUsers.includes(id)),
+    );
+    await this.notifications.notify({
+      event: NotificationEvent.TICKET_COMMENT,
+      recipients: followers,
+      actor_id: userId,
+      title: `New comment on "${title}"`,
+      body: content,
+      project_id: ticket.project_id,
+      ticket_id: ticket.id,
+      metadata: { comment_id: commentId },
+    });
+
+    await this.notifyMentions(ticket, commentId, isInternal, content, mentionedUsers, userId, title);
+  }
+
+  private async notifyMentions(
+    ticket: { id: number; project_id: number; workspace_id: string },
+    commentId: number,
+    isInternal: boolean,
+    content: string,
+    mentionedUsers: string[],
+    userId: string,
+    ticketTitle?: string,
+  ): Promise<void> {
+    const recipients = await this.filterAllowedRecipients(ticket.workspace_id, isInternal, mentionedUsers);
+    if (recipients.length === 0) return;
+
+    const title = ticketTitle ?? (await this.prisma.tickets.findUniqueOrThrow({ where: { id: ticket.id }, select: { title: true } })).title;
+    await this.notifications.notify({
+      event: NotificationEvent.MENTIONED,
+      recipients,
+      actor_id: userId,
+      title: `You were mentioned in a comment on "${title}"`,
+      body: content,
+      project_id: ticket.project_id,
+      ticket_id: ticket.id,
+      metadata: { comment_id: commentId },
+    });
+  }
+
+  /**
+   * Un commentaire interne n'est notifié qu'aux utilisateurs autorisés à le lire
+   */
+  private async filterAllowedRecipients(workspaceId: string, isInternal: boolean, userIds: string[]): Promise<string[]> {
+    if (!isInternal) return userIds;
+    const allowed = await Promise.all(userIds.map(id => this.canSeeInternal(workspaceId, id)));
+    return userIds.filter((_, index) => allowed[index]);
+  }
+
+  /**
+   * Les commentaires internes sont réservés aux membres pouvant modifier le projet (GUEST et VIEWER exclus)
+   */
+  private async canSeeInternal(workspaceId: string, userId: string): Promise<boolean> {
+    return this.workspaceMembersService.hasRight(workspaceId, userId, "update", "project");
+  }
+
+  /**
+   * Résout les mentions `@username` en IDs utilisateurs, limitées aux membres actifs du workspace,
+   * et les fusionne avec les IDs explicitement fournis.
+   */
+  private async resolveMentions(content: string, workspaceId: string, explicitUserIds?: string[]): Promise<string[]> {
+    const usernames = TicketCommentsService.parseMentions(content);
+    const requestedIds = (explicitUserIds ?? []).filter(id => !!id?.trim());
+
+    if (usernames.length === 0 && requestedIds.length === 0) {
+      return [];
+    }
+
+    const members = await this.prisma.workspace_members.findMany({
+      where: {
+        workspace_id: workspaceId,
+        is_active: true,
+        OR: [{ user_id: { in: requestedIds } }, { profile: { username: { in: usernames } } }],
+      },
+      select: { user_id: true },
+    });
+
+    return [...new Set(members.map(m => m.user_id))];
+  }
+}
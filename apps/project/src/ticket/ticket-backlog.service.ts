@@ -0,0 +1,412 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  BacklogPlanningResultDto,
+  BacklogPosition,
+  BasePaginationDto,
+  COMPLETED_TICKET_STATUSES,
+  FilterOperator,
+  FilterValueType,
+  MAX_BACKLOG_PLANNING_COUNT,
+  MoveBacklogTicketDto,
+  PaginationQueryDto,
+  PlanSprintFromBacklogDto,
+  SprintCapacityWarningDto,
+  SprintStatus,
+  TICKET_RANK_MAX_LENGTH,
+  TicketAssignmentResultDto,
+  TicketDto,
+  TicketsListDto,
+  TicketStatus,
+  rankBetween,
+  rankSequence,
+} from "@shared/types";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { ProjectsService } from "../project/projects.service";
+import { TicketsService } from "./tickets.service";
+
+/** Statuts des tickets qui ne font plus partie du backlog */
+const CLOSED_TICKET_STATUSES = [...COMPLETED_TICKET_STATUSES, TicketStatus.CANCELLED, TicketStatus.REFUSED];
+
+/** Ordre du backlog : rang, puis tickets jamais classés par priorité décroissante et ancienneté */
+const BacklogOrderBy: Prisma.ticketsOrderByWithRelationInput[] = [{ backlog_rank: { sort: "asc", nulls: "last" } }, { priority: "desc" }, { created_at: "asc" }, { id: "asc" }];
+
+/** Nombre de tickets tirés par défaut lors d'une planification */
+const DEFAULT_PLANNING_COUNT = 10;
+
+interface RankedTicket {
+  id: number;
+  backlog_rank: string | null;
+}
+
+/**
+ * Service du backlog des projets
+ *
+ * - getBacklog: Tickets du backlog dans l'ordre de classement
+ * - moveTicket: Déplacement d'un ticket en tête, en fin, avant ou après un autre ticket
+ * - planSprint: Ajout des premiers tickets du backlog à un sprint, dans la limite de sa capacité
+ *
+ * Le backlog d'un projet regroupe ses tickets sans sprint qui ne sont ni terminés (VALIDATED/PROD),
+ * ni annulés, ni refusés. Le classement est porté par `tickets.backlog_rank` : un déplacement ne modifie
+ * que le rang du ticket déplacé. Les tickets sans rang (nouveaux tickets) suivent les tickets classés et
+ * reçoivent un rang au déplacement suivant ; le backlog est rééquilibré lorsque les rangs deviennent trop
+ * longs ou entrent en collision (ticket revenu d'un sprint avec son ancien rang).
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketBacklogService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly logger: LoggerClientService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly projectsService: ProjectsService,
+    private readonly ticketsService: TicketsService,
+  ) {}
+
+  /**
+   * Récupère le backlog d'un projet dans l'ordre de classement
+   *
+   * @param projectId ID du projet
+   * @param userId ID de l'utilisateur
+   * @param params Pagination
+   * @returns Liste paginée des tickets du backlog
+   */
+  async getBacklog(projectId: number, userId: string, params?: PaginationQueryDto): Promise<TicketsListDto> {
+    const skip = params?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, params?.take, 50);
+
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-backlog.getBacklog",
+      message: `Fetching backlog of project ${projectId}`,
+      data: { projectId, userId, skip, take },
+    });
+
+    // Validate project exists and user has access
+    await this.projectsService.getById(projectId, userId);
+
+    try {
+      const where = this.backlogWhere(projectId);
+      const [rows, total] = await Promise.all([
+        this.prisma.tickets.findMany({ where, orderBy: BacklogOrderBy, skip, take, select: { id: true } }),
+        this.prisma.tickets.count({ where }),
+      ]);
+
+      // Les tickets sont chargés par la recherche (relations, dépendances) puis remis dans l'ordre du backlog
+      const ids = rows.map(row => row.id);
+      const page = ids.length
+        ? await this.ticketsService.search(userId, projectId, {
+            take: ids.length,
+            filters: [{ field: "id", type: FilterValueType.NUMBER, op: FilterOperator.IN, values: ids }],
+          })
+        : null;
+      const byId = new Map((page?.items ?? []).map(item => [item.id, item]));
+      const items = ids.map(id => byId.get(id)).filter((item): item is TicketDto => item !== undefined);
+
+      return BasePaginationDto.create(items, total, skip, take, TicketsListDto);
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "ticket-backlog.getBacklog",
+        message: `Error fetching backlog: ${error instanceof Error ? error.message : String(error)}`,
+        data: { projectId, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while fetching the backlog. Please try again." });
+    }
+  }
+
+  /**
+   * Déplace un ticket dans le backlog
+   *
+   * @param projectId ID du projet
+   * @param ticketId ID du ticket à déplacer
+   * @param dto Position cible (et ticket de référence pour BEFORE / AFTER)
+   * @param userId ID de l'utilisateur
+   * @returns Le ticket avec son nouveau rang
+   */
+  async moveTicket(projectId: number, ticketId: number, dto: MoveBacklogTicketDto, userId: string): Promise<TicketDto> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-backlog.moveTicket",
+      message: `Moving ticket ${ticketId} to ${dto?.position} of the backlog`,
+      data: { projectId, ticketId, dto, userId },
+    });
+
+    if (!ticketId || Number.isNaN(Number(ticketId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid ticket identifier" });
+    }
+    if (!Object.values(BacklogPosition).includes(dto?.position)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid backlog position "${dto?.position}"` });
+    }
+    const relative = dto.position === BacklogPosition.BEFORE || dto.position === BacklogPosition.AFTER;
+    if (relative && !dto.reference_ticket_id) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `A reference ticket is required to move a ticket ${dto.position}` });
+    }
+    if (relative && Number(dto.reference_ticket_id) === Number(ticketId)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A ticket cannot be moved relative to itself" });
+    }
+
+    // Validate project exists and user has access
+    await this.projectsService.getById(projectId, userId);
+
+    try {
+      const { before, after } = await this.prisma.$transaction(async tx => {
+        const backlog = await this.ensureRanks(tx, projectId);
+        const current = backlog.find(ticket => ticket.id === Number(ticketId));
+        if (!current) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Ticket with ID "${ticketId}" not found in the backlog of this project` });
+        }
+
+        const previousRank = current.backlog_rank;
+        const others = backlog.filter(ticket => ticket.id !== current.id);
+        const index = this.targetIndex(others, dto);
+        const rank = rankBetween(others[index - 1]?.backlog_rank ?? null, others[index]?.backlog_rank ?? null);
+
+        if (rank.length > TICKET_RANK_MAX_LENGTH) {
+          await this.rebalance(tx, [...others.slice(0, index), current, ...others.slice(index)]);
+        } else {
+          current.backlog_rank = rank;
+          await tx.tickets.update({ where: { id: current.id }, data: { backlog_rank: rank } });
+        }
+
+        return { before: previousRank, after: current.backlog_rank };
+      });
+
+      await this.logger.log({
+        level: "info",
+        service: "project",
+        func: "ticket-backlog.moveTicket",
+        message: `Ticket ${ticketId} moved to ${dto.position} of the backlog`,
+        data: { projectId, ticketId, before, after },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.MOVED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: Number(ticketId),
+        project_id: projectId,
+        ticket_id: Number(ticketId),
+        before: { backlog_rank: before },
+        after: { backlog_rank: after },
+        metadata: { position: dto.position, reference_ticket_id: dto.reference_ticket_id ?? null },
+      });
+
+      return this.ticketsService.getById(Number(ticketId), userId);
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "ticket-backlog.moveTicket",
+        message: `Error moving ticket in backlog: ${error instanceof Error ? error.message : String(error)}`,
+        data: { projectId, ticketId, dto, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while moving the ticket in the backlog. Please try again." });
+    }
+  }
+
+  /**
+   * Ajoute les premiers tickets du backlog à un sprint PLANNED ou ACTIVE
+   * Les tickets sont pris dans l'ordre du backlog ; la planification s'arrête au premier ticket dont les
+   * story points dépasseraient la capacité du sprint (une capacité nulle ou à 0 n'impose pas de limite).
+   * Si un ticket ne peut pas être ajouté, la planification s'arrête sur lui et le signale dans `failure` ;
+   * les tickets déjà ajoutés restent dans le sprint.
+   * Les membres surchargés par les tickets ajoutés sont signalés dans `warnings`.
+   *
+   * @param projectId ID du projet
+   * @param dto Sprint cible et nombre maximal de tickets
+   * @param userId ID de l'utilisateur
+   * @returns Bilan de la planification
+   */
+  async planSprint(projectId: number, dto: PlanSprintFromBacklogDto, userId: string): Promise<BacklogPlanningResultDto> {
+    await this.logger.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-backlog.planSprint",
+      message: `Planning sprint ${dto?.sprint_id} from the backlog of project ${projectId}`,
+      data: { projectId, dto, userId },
+    });
+
+    if (!dto?.sprint_id || Number.isNaN(Number(dto.sprint_id))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid sprint identifier" });
+    }
+    const count = dto.count ? Number(dto.count) : DEFAULT_PLANNING_COUNT;
+    if (!Number.isInteger(count) || count < 1 || count > MAX_BACKLOG_PLANNING_COUNT) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Ticket count must be between 1 and ${MAX_BACKLOG_PLANNING_COUNT}` });
+    }
+
+    // Validate project exists and user has access
+    await this.projectsService.getById(projectId, userId);
+
+    const sprint = await this.prisma.sprints.findFirst({
+      where: { id: Number(dto.sprint_id), project_id: projectId },
+      select: { id: true, status: true, capacity: true },
+    });
+    if (!sprint) {
+      throw new RpcException({ code: status.NOT_FOUND, message: "Sprint not found for this project" });
+    }
+    if ((sprint.status as SprintStatus) !== SprintStatus.PLANNED && (sprint.status as SprintStatus) !== SprintStatus.ACTIVE) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Cannot plan tickets into a ${sprint.status} sprint` });
+    }
+
+    try {
+      const [committed, candidates] = await Promise.all([
+        this.prisma.tickets.aggregate({
+          where: { sprint_id: sprint.id, status: { not: TicketStatus.CANCELLED } },
+          _sum: { story_points: true },
+        }),
+        this.prisma.tickets.findMany({
+          where: this.backlogWhere(projectId),
+          orderBy: BacklogOrderBy,
+          take: count,
+          select: { id: true, story_points: true },
+        }),
+      ]);
+
+      const capacity = sprint.capacity && sprint.capacity > 0 ? sprint.capacity : null;
+      const committedPoints = committed._sum.story_points ?? 0;
+      const result: BacklogPlanningResultDto = {
+        sprint_id: sprint.id,
+        capacity,
+        committed_points: committedPoints,
+        added_ticket_ids: [],
+        added_points: 0,
+        remaining_capacity: null,
+        stopped_at_ticket_id: null,
+        warnings: [],
+        failure: null,
+      };
+      const warnings = new Map<string, SprintCapacityWarningDto>();
+
+      for (const ticket of candidates) {
+        const points = ticket.story_points ?? 0;
+        if (capacity !== null && committedPoints + result.added_points + points > capacity) {
+          result.stopped_at_ticket_id = ticket.id;
+          break;
+        }
+        let assignment: TicketAssignmentResultDto;
+        try {
+          assignment = await this.ticketsService.assignTicketToSprint(ticket.id, sprint.id, userId);
+        } catch (error) {
+          if (!(error instanceof RpcException)) throw error;
+          result.failure = this.ticketsService.toBulkFailure(ticket.id, error);
+          await this.logger.log({
+            level: "warn",
+            service: "project",
+            func: "ticket-backlog.planSprint",
+            message: `Planning of sprint ${sprint.id} stopped at ticket ${ticket.id}: ${result.failure.error}`,
+            data: { projectId, userId, failure: result.failure, added_ticket_ids: result.added_ticket_ids },
+          });
+          break;
+        }
+        assignment.warnings.forEach(warning => warnings.set(warning.user_id, warning));
+        result.added_ticket_ids.push(ticket.id);
+        result.added_points += points;
+      }
+      result.remaining_capacity = capacity !== null ? capacity - committedPoints - result.added_points : null;
+      result.warnings = [...warnings.values()];
+
+      await this.logger.log({
+        level: "info",
+        service: "project",
+        func: "ticket-backlog.planSprint",
+        message: `${result.added_ticket_ids.length} tickets planned into sprint ${sprint.id}`,
+        data: { projectId, ...result },
+      });
+
+      return result;
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      await this.logger.log({
+        level: "error",
+        service: "project",
+        func: "ticket-backlog.planSprint",
+        message: `Error planning sprint from backlog: ${error instanceof Error ? error.message : String(error)}`,
+        data: { projectId, dto, userId },
+      });
+      throw new RpcException({ code: status.INTERNAL, message: "An error occurred while planning the sprint. Please try again." });
+    }
+  }
+
+  private backlogWhere(projectId: number): Prisma.ticketsWhereInput {
+    return { project_id: projectId, sprint_id: null, status: { notIn: CLOSED_TICKET_STATUSES } };
+  }
+
+  /**
+   * Charge le backlog classé, en attribuant un rang aux tickets qui n'en ont pas
+   * Les tickets encore sans rang (antérieurs au classement) sont classés à la suite ; en cas de rangs dupliqués ou trop longs, tout le backlog est rééquilibré.
+   */
+  private async ensureRanks(tx: Prisma.TransactionClient, projectId: number): Promise<RankedTicket[]> {
+    const backlog: RankedTicket[] = await tx.tickets.findMany({
+      where: this.backlogWhere(projectId),
+      orderBy: BacklogOrderBy,
+      select: { id: true, backlog_rank: true },
+    });
+
+    const ranked = backlog.filter((ticket): ticket is RankedTicket & { backlog_rank: string } => ticket.backlog_rank !== null);
+    const consistent = ranked.every(
+      (ticket, index) => ticket.backlog_rank.length <= TICKET_RANK_MAX_LENGTH && (index === 0 || ranked[index - 1].backlog_rank < ticket.backlog_rank),
+    );
+    if (!consistent) {
+      await this.rebalance(tx, backlog);
+      return backlog;
+    }
+
+    let previous = ranked.length ? ranked[ranked.length - 1].backlog_rank : null;
+    for (const ticket of backlog.slice(ranked.length)) {
+      ticket.backlog_rank = rankBetween(previous, null);
+      await tx.tickets.update({ where: { id: ticket.id }, data: { backlog_rank: ticket.backlog_rank } });
+      previous = ticket.backlog_rank;
+    }
+    return backlog;
+  }
+
+  /**
+   * Réattribue des rangs régulièrement espacés aux tickets, dans l'ordre donné
+   */
+  private async rebalance(tx: Prisma.TransactionClient, tickets: RankedTicket[]): Promise<void> {
+    const ranks = rankSequence(tickets.length);
+    for (const [index, ticket] of tickets.entries()) {
+      ticket.backlog_rank = ranks[index];
+      await tx.tickets.update({ where: { id: ticket.id }, data: { backlog_rank: ticket.backlog_rank } });
+    }
+  }
+
+  /**
+   * Position d'insertion du ticket déplacé parmi les autres tickets du backlog
+   */
+  private targetIndex(others: RankedTicket[], dto: MoveBacklogTicketDto): number {
+    switch (dto.position) {
+      case BacklogPosition.TOP:
+        return 0;
+      case BacklogPosition.BOTTOM:
+        return others.length;
+      default: {
+        const reference = others.findIndex(ticket => ticket.id === Number(dto.reference_ticket_id));
+        if (reference === -1) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Reference ticket with ID "${dto.reference_ticket_id}" not found in the backlog of this project` });
+        }
+        return dto.position === BacklogPosition.BEFORE ? reference : reference + 1;
+      }
+    }
+  }
+}
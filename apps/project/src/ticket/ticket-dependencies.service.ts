@@ -0,0 +1,209 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { COMPLETED_TICKET_STATUSES, TicketDependencyGraphDto, TicketGraphDirection, TicketGraphEdgeDto, TicketGraphNodeDto, TicketStatus } from "@shared/types";
+
+/** Nombre maximal de tickets renvoyés dans un graphe de dépendances */
+const MAX_GRAPH_NODES = 200;
+
+const GraphTicketSelect = { id: true, ticket_number: true, title: true, status: true, project_id: true } as const;
+
+type GraphTicket = Prisma.ticketsGetPayload<{ select: typeof GraphTicketSelect }>;
+
+/**
+ * Service du graphe de dépendances entre tickets
+ *
+ * - assertValidDependencies: Refuse les auto-références, les liens inter-projets et les cycles
+ * - getGraph: Graphe transitif amont (prérequis) et aval (dépendants) d'un ticket
+ * - computeBlocked: Tickets dont au moins un prérequis n'est pas encore VALIDATED/PROD
+ *
+ * Une arête `ticket_id -> depends_on_ticket_id` signifie que `ticket_id` attend `depends_on_ticket_id`.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketDependenciesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+  ) {}
+
+  /**
+   * Vérifie que les prérequis d'un ticket peuvent être enregistrés.
+   * Doit être appelé dans la transaction qui remplace les dépendances.
+   *
+   * @param tx Client transactionnel
+   * @param ticket Ticket dépendant
+   * @param dependencyIds Prérequis demandés (les IDs inexistants sont ignorés par l'appelant)
+   * @throws FAILED_PRECONDITION avec le chemin fautif en cas d'auto-référence, de lien inter-projets ou de cycle
+   */
+  async assertValidDependencies(tx: Prisma.TransactionClient, ticket: { id: number; project_id: number | null }, dependencyIds: number[]): Promise<void> {
+    const requested = [...new Set(dependencyIds)];
+    if (requested.length === 0) return;
+
+    if (requested.includes(ticket.id)) {
+      const label = await this.describePath(tx, [ticket.id, ticket.id]);
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: `DEPENDENCY_CYCLE: a ticket cannot depend on itself (${label})` });
+    }
+
+    const prerequisites = await tx.tickets.findMany({ where: { id: { in: requested } }, select: GraphTicketSelect });
+    const foreign = prerequisites.filter(prerequisite => prerequisite.project_id !== ticket.project_id);
+    if (foreign.length > 0) {
+      throw new RpcException({
+        code: status.FAILED_PRECONDITION,
+        message: `CROSS_PROJECT_DEPENDENCY: ${foreign.map(t => this.label(t)).join(", ")} belong(s) to another project`,
+      });
+    }
+
+    // Parcours des prérequis en amont : atteindre le ticket lui-même signifie qu'une nouvelle arête fermerait un cycle
+    const parents = new Map<number, number>(prerequisites.map(prerequisite => [prerequisite.id, ticket.id]));
+    let frontier = prerequisites.map(prerequisite => prerequisite.id);
+    while (frontier.length > 0) {
+      const edges = await tx.ticket_dependencies.findMany({
+        where: { ticket_id: { in: frontier } },
+        select: { ticket_id: true, depends_on_ticket_id: true },
+      });
+
+      const next: number[] = [];
+      for (const edge of edges) {
+        if (edge.depends_on_ticket_id === ticket.id) {
+          const path = [ticket.id, ...this.unwind(parents, edge.ticket_id, ticket.id), ticket.id];
+          const label = await this.describePath(tx, path);
+          throw new RpcException({ code: status.FAILED_PRECONDITION, message: `DEPENDENCY_CYCLE: ${label}` });
+        }
+        if (!parents.has(edge.depends_on_ticket_id)) {
+          parents.set(edge.depends_on_ticket_id, edge.ticket_id);
+          next.push(edge.depends_on_ticket_id);
+        }
+      }
+      frontier = next;
+    }
+  }
+
+  /**
+   * Construit le graphe transitif des prérequis (amont) et des dépendants (aval) d'un ticket
+   *
+   * @param ticketId ID du ticket racine
+   * @returns Noeuds avec statut et blocage, arêtes avec leur état de satisfaction
+   */
+  async getGraph(ticketId: number): Promise<TicketDependencyGraphDto> {
+    if (!ticketId || Number.isNaN(Number(ticketId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid ticket identifier" });
+    }
+
+    const root = await this.prisma.tickets.findUnique({ where: { id: Number(ticketId) }, select: GraphTicketSelect });
+    if (!root) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Ticket with ID "${ticketId}" not found` });
+    }
+
+    const placement = new Map<number, { direction: TicketGraphDirection; depth: number }>([[root.id, { direction: TicketGraphDirection.ROOT, depth: 0 }]]);
+    const edges = new Map<string, { ticket_id: number; depends_on_ticket_id: number }>();
+    let truncated = false;
+
+    for (const direction of [TicketGraphDirection.UPSTREAM, TicketGraphDirection.DOWNSTREAM]) {
+      const upstream = direction === TicketGraphDirection.UPSTREAM;
+      let frontier = [root.id];
+      for (let depth = 1; frontier.length > 0 && !truncated; depth++) {
+        const found = await this.prisma.ticket_dependencies.findMany({
+          where: upstream ? { ticket_id: { in: frontier } } : { depends_on_ticket_id: { in: frontier } },
+          select: { ticket_id: true, depends_on_ticket_id: true },
+        });
+
+        const next: number[] = [];
+        for (const edge of found) {
+          const neighbour = upstream ? edge.depends_on_ticket_id : edge.ticket_id;
+          if (!placement.has(neighbour)) {
+            if (placement.size >= MAX_GRAPH_NODES) {
+              truncated = true;
+              break;
+            }
+            placement.set(neighbour, { direction, depth });
+            next.push(neighbour);
+          }
+          edges.set(`${edge.ticket_id}:${edge.depends_on_ticket_id}`, edge);
+        }
+        frontier = next;
+      }
+    }
+
+    const ids = [...placement.keys()];
+    const [tickets, blocked] = await Promise.all([this.prisma.tickets.findMany({ where: { id: { in: ids } }, select: GraphTicketSelect }), this.computeBlocked(ids)]);
+    const byId = new Map(tickets.map(ticket => [ticket.id, ticket]));
+
+    const nodes: TicketGraphNodeDto[] = tickets.map(ticket => ({
+      id: ticket.id,
+      ticket_number: ticket.ticket_number,
+      title: ticket.title,
+      status: ticket.status as TicketStatus,
+      project_id: ticket.project_id,
+      direction: placement.get(ticket.id)!.direction,
+      depth: placement.get(ticket.id)!.depth,
+      is_blocked: blocked.has(ticket.id),
+    }));
+    nodes.sort((a, b) => a.depth - b.depth || a.id - b.id);
+
+    const graphEdges: TicketGraphEdgeDto[] = [...edges.values()]
+      .filter(edge => byId.has(edge.ticket_id) && byId.has(edge.depends_on_ticket_id))
+      .map(edge => ({
+        ...edge,
+        satisfied: this.isCompleted(byId.get(edge.depends_on_ticket_id)!.status),
+      }));
+
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-dependencies.getGraph",
+      message: `Dependency graph built for ticket ${root.id}`,
+      data: { ticketId: root.id, nodes: nodes.length, edges: graphEdges.length, truncated },
+    });
+
+    return { root_id: root.id, nodes, edges: graphEdges, truncated };
+  }
+
+  /**
+   * Détermine les tickets bloqués parmi ceux fournis
+   *
+   * @param ticketIds IDs des tickets à évaluer
+   * @returns IDs des tickets ayant au moins un prérequis ni VALIDATED ni PROD
+   */
+  async computeBlocked(ticketIds: number[]): Promise<Set<number>> {
+    if (ticketIds.length === 0) return new Set();
+
+    const pending = await this.prisma.ticket_dependencies.findMany({
+      where: {
+        ticket_id: { in: ticketIds },
+        tickets_ticket_dependencies_depends_on_ticket_idTotickets: { status: { notIn: [...COMPLETED_TICKET_STATUSES] } },
+      },
+      select: { ticket_id: true },
+      distinct: ["ticket_id"],
+    });
+    return new Set(pending.map(dependency => dependency.ticket_id));
+  }
+
+  private isCompleted(ticketStatus: string): boolean {
+    return COMPLETED_TICKET_STATUSES.includes(ticketStatus as TicketStatus);
+  }
+
+  /** Remonte la chaîne de parents depuis `from` jusqu'à `root` (exclu), dans l'ordre de parcours */
+  private unwind(parents: Map<number, number>, from: number, root: number): number[] {
+    const chain: number[] = [];
+    for (let current: number | undefined = from; current !== undefined && current !== root; current = parents.get(current)) {
+      chain.unshift(current);
+    }
+    return chain;
+  }
+
+  private async describePath(tx: Prisma.TransactionClient, path: number[]): Promise<string> {
+    const tickets = await tx.tickets.findMany({ where: { id: { in: [...new Set(path)] } }, select: GraphTicketSelect });
+    const byId = new Map(tickets.map(ticket => [ticket.id, ticket]));
+    return path.map(id => (byId.has(id) ? this.label(byId.get(id)!) : `#${id}`)).join(" -> ");
+  }
+
+  private label(ticket: Pick<GraphTicket, "id" | "ticket_number">): string {
+    return ticket.ticket_number ?? `#${ticket.id}`;
+  }
+}
@@ -0,0 +1,485 @@
+import { Inject, Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  COMPLETED_TICKET_STATUSES,
+  CommitTicketDraftsDto,
+  CommitTicketDraftsResultDto,
+  CreateTicketDto,
+  DraftTicketsDto,
+  MAX_TICKET_DRAFTS,
+  ModelUsageSource,
+  PromptRoleType,
+  TICKET_DRAFT_NOTES_MAX_LENGTH,
+  TICKET_DRAFT_REF_PATTERN,
+  TicketCategory,
+  TicketDraftDto,
+  TicketDraftsDto,
+  TicketPriority,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { AgentsService } from "apps/workspace/src/agent/agents.service";
+import { LLM_PROVIDER, type LlmMessage, type LlmProvider, type LlmUsage } from "apps/chat/src/llm/llm-provider";
+import { ModelUsageService } from "apps/chat/src/usage/model-usage.service";
+import { estimateTokenCount } from "apps/chat/src/usage/model-price-table";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { TicketsService } from "./tickets.service";
+
+/** Taille maximale des catalogues (labels, epics, tâches, tickets ouverts) envoyés au modèle */
+const DRAFT_CATALOG_LIMIT = 200;
+
+/** Longueur maximale d'un titre de ticket (tickets.title) */
+const TICKET_TITLE_MAX_LENGTH = 255;
+
+const MAX_STORY_POINTS = 100;
+
+/** Contrat de sortie ajouté aux prompts CREATION de l'agent */
+const DRAFT_OUTPUT_INSTRUCTIONS = `Turn the notes into tickets for this project. Answer with a single JSON object and nothing else:
+{"drafts":[{"ref":"D1","title":"...","description":"...","category":"BUG|TASK|FEATURE","priority":"LOW|MEDIUM|HIGH|CRITICAL","story_points":3,"label_ids":[],"epic_id":null,"task_ids":[],"dependency_ticket_ids":[],"depends_on_refs":[],"rationale":"..."}]}
+- ref numbers the drafts D1, D2…; depends_on_refs lists the drafts that must be done first.
+- label_ids, epic_id, task_ids and dependency_ticket_ids must come from the catalog below; leave them empty when nothing fits.
+- Do not create a draft for work already covered by an open ticket; depend on it instead.`;
+
+/** Réponse attendue du modèle, avant validation */
+interface RawTicketDraft {
+  ref?: unknown;
+  title?: unknown;
+  description?: unknown;
+  category?: unknown;
+  priority?: unknown;
+  story_points?: unknown;
+  label_ids?: unknown;
+  epic_id?: unknown;
+  task_ids?: unknown;
+  dependency_ticket_ids?: unknown;
+  depends_on_refs?: unknown;
+  rationale?: unknown;
+}
+
+interface DraftCatalog {
+  labels: { id: number; name: string; description: string | null }[];
+  epics: { id: number; title: string }[];
+  tasks: { id: number; title: string; epic_id: number }[];
+  tickets: { id: number; ticket_number: string | null; title: string }[];
+}
+
+/**
+ * Service de rédaction de tickets assistée par le modèle
+ *
+ * - draft: Propose des tickets à partir d'un texte libre, sans rien enregistrer
+ * - commit: Crée les brouillons acceptés en une transaction, via TicketsService.create
+ *
+ * Les brouillons sont rédigés avec les prompts CREATION de l'agent demandé (ou TICKET_DRAFT_AGENT_CODE).
+ * Les labels, epics, tâches et tickets suggérés sont limités à ceux du workspace et du projet ; les
+ * suggestions inconnues sont écartées avec un avertissement. Les dépendances entre brouillons d'un même
+ * lot (`depends_on_refs`) sont résolues à la création, prérequis d'abord.
+ * Les deux opérations demandent le droit de modifier le projet ; la rédaction compte dans le quota de tokens du workspace.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketDraftsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly agentsService: AgentsService,
+    private readonly ticketsService: TicketsService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly modelUsageService: ModelUsageService,
+    @Inject(LLM_PROVIDER) private readonly llm: LlmProvider,
+  ) {}
+
+  /**
+   * Propose des tickets à partir de notes
+   *
+   * @param projectId ID du projet
+   * @param dto Notes, agent et nombre maximal de brouillons
+   * @param userId ID de l'utilisateur
+   * @returns Brouillons à relire
+   */
+  async draft(projectId: number, dto: DraftTicketsDto, userId: string): Promise<TicketDraftsDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-drafts.draft",
+      message: `Drafting tickets for project ${projectId}`,
+      data: { projectId, userId, notesLength: dto?.notes?.length, agentNameCode: dto?.agent_name_code, maxDrafts: dto?.max_drafts },
+    });
+
+    const notes = dto?.notes?.trim();
+    if (!notes) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Notes are required" });
+    }
+    if (notes.length > TICKET_DRAFT_NOTES_MAX_LENGTH) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Notes cannot exceed ${TICKET_DRAFT_NOTES_MAX_LENGTH} characters` });
+    }
+    const maxDrafts = dto.max_drafts || MAX_TICKET_DRAFTS;
+    if (!Number.isInteger(maxDrafts) || maxDrafts < 1 || maxDrafts > MAX_TICKET_DRAFTS) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `max_drafts must be between 1 and ${MAX_TICKET_DRAFTS}` });
+    }
+    const agentCode = dto.agent_name_code?.trim() || process.env.TICKET_DRAFT_AGENT_CODE;
+    if (!agentCode) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: "No ticket drafting agent configured: provide agent_name_code" });
+    }
+
+    try {
+      const project = await this.findEditableProject(projectId, userId);
+      await this.modelUsageService.assertQuota(project.workspace_id);
+
+      const composed = await this.agentsService.compose({ agent_name_code: agentCode, role_type: PromptRoleType.CREATION }, userId, project.workspace_id);
+      const catalog = await this.loadCatalog(project.id, project.workspace_id);
+      const messages: LlmMessage[] = [
+        ...(composed.content ? [{ role: "system" as const, content: composed.content }] : []),
+        { role: "system", content: `${DRAFT_OUTPUT_INSTRUCTIONS}\nAt most ${maxDrafts} drafts.\n\nProject: ${project.name}\nCatalog: ${JSON.stringify(catalog)}` },
+        { role: "user", content: notes },
+      ];
+
+      const answer = await this.complete(messages, { userId, workspaceId: project.workspace_id, projectId: project.id, agentId: composed.agent_id });
+      const drafts = this.parseDrafts(answer, catalog, project.id, maxDrafts);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-drafts.draft",
+        message: `${drafts.length} ticket draft(s) proposed for project ${project.id}`,
+        data: { projectId: project.id, userId, agentId: composed.agent_id, drafts: drafts.length },
+      });
+
+      return { project_id: project.id, agent_id: composed.agent_id, model: this.llm.model, drafts };
+    } catch (error) {
+      throw await this.handleError(error, "ticket-drafts.draft", { projectId, userId }, "Unable to draft tickets");
+    }
+  }
+
+  /**
+   * Crée les brouillons acceptés en une transaction : aucun ticket n'est créé si l'un d'eux échoue
+   *
+   * @param projectId ID du projet
+   * @param dto Brouillons acceptés, éventuellement modifiés
+   * @param userId ID de l'utilisateur
+   * @returns Tickets créés, prérequis d'abord
+   */
+  async commit(projectId: number, dto: CommitTicketDraftsDto, userId: string): Promise<CommitTicketDraftsResultDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-drafts.commit",
+      message: `Creating ${dto?.drafts?.length ?? 0} drafted ticket(s) in project ${projectId}`,
+      data: { projectId, userId, refs: dto?.drafts?.map(draft => draft.ref) },
+    });
+
+    const drafts = dto?.drafts ?? [];
+    if (drafts.length === 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "At least one draft is required" });
+    }
+    if (drafts.length > MAX_TICKET_DRAFTS) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `At most ${MAX_TICKET_DRAFTS} drafts can be created at once` });
+    }
+    const ordered = this.orderDrafts(drafts);
+
+    try {
+      const project = await this.findEditableProject(projectId, userId);
+      await this.assertReferences(project.id, project.workspace_id, drafts);
+
+      const ids = await this.prisma.$transaction(
+        async tx => {
+          const created = new Map<string, number>();
+          for (const draft of ordered) {
+            const ticket: CreateTicketDto = {
+              ...draft.ticket,
+              project_id: project.id,
+              dependency_ticket_ids: [...(draft.ticket.dependency_ticket_ids ?? []), ...(draft.depends_on_refs ?? []).map(ref => created.get(ref)!)],
+            };
+            created.set(draft.ref, await this.ticketsService.create(userId, ticket, tx));
+          }
+          return created;
+        },
+        { timeout: 30000 },
+      );
+
+      // Journal d'activité après validation : TicketsService.create ne journalise pas dans une transaction de l'appelant
+      const rows = await this.prisma.tickets.findMany({ where: { id: { in: [...ids.values()] } } });
+      for (const draft of ordered) {
+        const id = ids.get(draft.ref)!;
+        await this.activityLogs.record({
+          user_id: userId,
+          action: ActivityAction.CREATED,
+          entity_type: ActivityEntityType.TICKET,
+          entity_id: id,
+          project_id: project.id,
+          ticket_id: id,
+          after: rows.find(row => row.id === id),
+          metadata: {
+            source: "draft",
+            ref: draft.ref,
+            label_ids: draft.ticket.label_ids ?? [],
+            dependency_ticket_ids: [...(draft.ticket.dependency_ticket_ids ?? []), ...(draft.depends_on_refs ?? []).map(ref => ids.get(ref))],
+            task_ids: draft.ticket.task_ids ?? [],
+          },
+        });
+      }
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-drafts.commit",
+        message: `${ids.size} drafted ticket(s) created in project ${project.id}`,
+        data: { projectId: project.id, userId, tickets: Object.fromEntries(ids) },
+      });
+
+      const items = await Promise.all(ordered.map(async draft => ({ ref: draft.ref, ticket: await this.ticketsService.getById(ids.get(draft.ref)!, userId) })));
+      return { items };
+    } catch (error) {
+      throw await this.handleError(error, "ticket-drafts.commit", { projectId, userId }, "Unable to create the drafted tickets");
+    }
+  }
+
+  private async findEditableProject(projectId: number, userId: string): Promise<{ id: number; name: string; workspace_id: string }> {
+    if (!projectId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+    const project = await this.prisma.projects.findUnique({ where: { id: projectId }, select: { id: true, name: true, workspace_id: true } });
+    if (!project) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+    }
+    if (!(await this.workspaceMembersService.hasRight(project.workspace_id, userId, "update", "project"))) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have the right to create tickets in this project" });
+    }
+    return project;
+  }
+
+  /** Labels du workspace, epics et tâches du projet, tickets non terminés : ce que le modèle peut suggérer */
+  private async loadCatalog(projectId: number, workspaceId: string): Promise<DraftCatalog> {
+    const [labels, epics, tasks, tickets] = await Promise.all([
+      this.prisma.labels.findMany({
+        where: { workspace_id: workspaceId },
+        select: { id: true, name: true, description: true },
+        orderBy: { name: "asc" },
+        take: DRAFT_CATALOG_LIMIT,
+      }),
+      this.prisma.epics.findMany({ where: { project_id: projectId }, select: { id: true, title: true }, orderBy: { id: "desc" }, take: DRAFT_CATALOG_LIMIT }),
+      this.prisma.tasks.findMany({
+        where: { epic: { project_id: projectId } },
+        select: { id: true, title: true, epic_id: true },
+        orderBy: { id: "desc" },
+        take: DRAFT_CATALOG_LIMIT,
+      }),
+      this.prisma.tickets.findMany({
+        where: { project_id: projectId, status: { notIn: [...COMPLETED_TICKET_STATUSES] } },
+        select: { id: true, ticket_number: true, title: true },
+        orderBy: { id: "desc" },
+        take: DRAFT_CATALOG_LIMIT,
+      }),
+    ]);
+    return { labels, epics, tasks, tickets };
+  }
+
+  /** Réponse complète du modèle ; la consommation est enregistrée même si la réponse est inutilisable */
+  private async complete(messages: LlmMessage[], scope: { userId: string; workspaceId: string; projectId: number; agentId?: number }): Promise<string> {
+    let answer = "";
+    let usage: LlmUsage | undefined;
+    let failure: string | undefined;
+    try {
+      for await (const chunk of this.llm.stream({ messages, temperature: 0.2 })) {
+        answer += chunk.token ?? "";
+        usage = chunk.usage ?? usage;
+      }
+    } catch (error) {
+      failure = error instanceof Error ? error.message : String(error);
+    }
+
+    const promptTokens = usage?.prompt_tokens ?? messages.reduce((sum, message) => sum + estimateTokenCount(message.content), 0);
+    const completionTokens = usage?.completion_tokens ?? estimateTokenCount(answer);
+    await this.modelUsageService.record({
+      from: ModelUsageSource.TICKET_DRAFT,
+      model: this.llm.model,
+      user_token_count: promptTokens,
+      model_token_count: completionTokens,
+      total_token_count: usage?.total_tokens ?? promptTokens + completionTokens,
+      user_id: scope.userId,
+      workspace_id: scope.workspaceId,
+      project_id: scope.projectId,
+      agent_id: scope.agentId,
+    });
+
+    if (failure) {
+      await this.loggerClient.log({
+        level: "error",
+        service: "project",
+        func: "ticket-drafts.draft",
+        message: `LLM provider ${this.llm.name} failed: ${failure}`,
+        data: { ...scope },
+      });
+      throw new RpcException({ code: status.UNAVAILABLE, message: "The language model is unavailable. Please try again." });
+    }
+    return answer;
+  }
+
+  /** Valide la réponse du modèle et la ramène au catalogue du projet */
+  private parseDrafts(answer: string, catalog: DraftCatalog, projectId: number, maxDrafts: number): TicketDraftDto[] {
+    const raw = this.extractJson(answer);
+    const items = Array.isArray(raw) ? raw : Array.isArray((raw as { drafts?: unknown })?.drafts) ? (raw as { drafts: unknown[] }).drafts : null;
+    if (!items) {
+      throw new RpcException({ code: status.INTERNAL, message: "The language model did not return ticket drafts. Please try again." });
+    }
+
+    const labelIds = new Set(catalog.labels.map(label => label.id));
+    const epicIds = new Set(catalog.epics.map(epic => epic.id));
+    const taskIds = new Set(catalog.tasks.map(task => task.id));
+    const ticketIds = new Set(catalog.tickets.map(ticket => ticket.id));
+
+    const accepted = (items as RawTicketDraft[]).filter(item => typeof item?.title === "string" && item.title.trim()).slice(0, maxDrafts);
+    // Les références du modèle sont renumérotées D1, D2… dans l'ordre des brouillons retenus
+    const refs = new Map(accepted.map((item, i) => [JSON.stringify(item.ref ?? null), `D${i + 1}`]));
+
+    return accepted.map((item, i) => {
+      const warnings: string[] = [];
+      const pick = (values: unknown, known: Set<number>, kind: string): number[] => {
+        const ids = this.toIntegers(values);
+        ids.filter(id => !known.has(id)).forEach(id => warnings.push(`Unknown ${kind} ${id} ignored`));
+        return ids.filter(id => known.has(id));
+      };
+
+      const category = typeof item.category === "string" ? item.category.toUpperCase() : "";
+      const priority = typeof item.priority === "string" ? item.priority.toUpperCase() : "";
+      if (item.category != null && !Object.values(TicketCategory).includes(category as TicketCategory)) {
+        warnings.push(`Unknown category ${JSON.stringify(item.category)} replaced by TASK`);
+      }
+      if (item.priority != null && !Object.values(TicketPriority).includes(priority as TicketPriority)) {
+        warnings.push(`Unknown priority ${JSON.stringify(item.priority)} replaced by MEDIUM`);
+      }
+
+      const storyPoints = Number(item.story_points);
+      const validPoints = Number.isInteger(storyPoints) && storyPoints >= 0 && storyPoints <= MAX_STORY_POINTS;
+      if (item.story_points != null && !validPoints) warnings.push(`Invalid story points ${JSON.stringify(item.story_points)} ignored`);
+
+      const epicId = Number(item.epic_id);
+      const validEpic = item.epic_id != null && epicIds.has(epicId);
+      if (item.epic_id != null && !validEpic) warnings.push(`Unknown epic ${JSON.stringify(item.epic_id)} ignored`);
+
+      const dependsOn = (Array.isArray(item.depends_on_refs) ? (item.depends_on_refs as unknown[]) : []).flatMap(ref => {
+        const mapped = refs.get(JSON.stringify(ref));
+        if (!mapped || mapped === `D${i + 1}`) {
+          warnings.push(`Invalid draft dependency ${JSON.stringify(ref)} ignored`);
+          return [];
+        }
+        return [mapped];
+      });
+
+      return {
+        ref: `D${i + 1}`,
+        ticket: {
+          title: (item.title as string).trim().slice(0, TICKET_TITLE_MAX_LENGTH),
+          description: typeof item.description === "string" ? item.description.trim() : undefined,
+          category: Object.values(TicketCategory).includes(category as TicketCategory) ? (category as TicketCategory) : TicketCategory.TASK,
+          priority: Object.values(TicketPriority).includes(priority as TicketPriority) ? (priority as TicketPriority) : TicketPriority.MEDIUM,
+          story_points: validPoints ? storyPoints : undefined,
+          project_id: projectId,
+          label_ids: pick(item.label_ids, labelIds, "label"),
+          task_ids: pick(item.task_ids, taskIds, "task"),
+          dependency_ticket_ids: pick(item.dependency_ticket_ids, ticketIds, "ticket"),
+        },
+        depends_on_refs: [...new Set(dependsOn)],
+        epic_id: validEpic ? epicId : null,
+        rationale: typeof item.rationale === "string" ? item.rationale.trim() : undefined,
+        warnings,
+      };
+    });
+  }
+
+  /** Premier objet ou tableau JSON de la réponse (les modèles l'entourent parfois de texte ou d'un bloc ```json) */
+  private extractJson(answer: string): unknown {
+    const start = answer.search(/[[{]/);
+    const end = Math.max(answer.lastIndexOf("}"), answer.lastIndexOf("]"));
+    if (start === -1 || end <= start) return null;
+    try {
+      return JSON.parse(answer.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+  }
+
+  private toIntegers(values: unknown): number[] {
+    return Array.isArray(values) ? [...new Set(values.map(Number).filter(value => Number.isInteger(value) && value > 0))] : [];
+  }
+
+  /** Ordre de création : chaque brouillon après ceux dont il dépend ; refuse les références inconnues et les cycles */
+  private orderDrafts(drafts: TicketDraftDto[]): TicketDraftDto[] {
+    const byRef = new Map<string, TicketDraftDto>();
+    for (const draft of drafts) {
+      if (!draft?.ref || !TICKET_DRAFT_REF_PATTERN.test(draft.ref)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid draft reference "${draft?.ref}"` });
+      }
+      if (byRef.has(draft.ref)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Duplicate draft reference ${draft.ref}` });
+      }
+      if (!draft.ticket?.title?.trim()) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Title is required (draft ${draft.ref})` });
+      }
+      byRef.set(draft.ref, draft);
+    }
+    for (const draft of drafts) {
+      const unknown = (draft.depends_on_refs ?? []).filter(ref => !byRef.has(ref));
+      if (unknown.length > 0) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Draft ${draft.ref} depends on drafts that are not created: ${unknown.join(", ")}` });
+      }
+    }
+
+    const ordered: TicketDraftDto[] = [];
+    const state = new Map<string, "visiting" | "done">();
+    const visit = (draft: TicketDraftDto, path: string[]) => {
+      if (state.get(draft.ref) === "done") return;
+      if (state.get(draft.ref) === "visiting") {
+        const cycle = [...path.slice(path.indexOf(draft.ref)), draft.ref].join(" -> ");
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `DEPENDENCY_CYCLE between drafts: ${cycle}` });
+      }
+      state.set(draft.ref, "visiting");
+      for (const ref of draft.depends_on_refs ?? []) {
+        visit(byRef.get(ref)!, [...path, draft.ref]);
+      }
+      state.set(draft.ref, "done");
+      ordered.push(draft);
+    };
+    drafts.forEach(draft => visit(draft, []));
+    return ordered;
+  }
+
+  /** Les labels doivent appartenir au workspace et les tâches au projet (TicketsService.create ignore seulement les IDs inexistants) */
+  private async assertReferences(projectId: number, workspaceId: string, drafts: TicketDraftDto[]): Promise<void> {
+    const labelIds = [...new Set(drafts.flatMap(draft => draft.ticket.label_ids ?? []))];
+    const taskIds = [...new Set(drafts.flatMap(draft => draft.ticket.task_ids ?? []))];
+    const [labels, tasks] = await Promise.all([
+      this.prisma.labels.findMany({ where: { id: { in: labelIds }, workspace_id: workspaceId }, select: { id: true } }),
+      this.prisma.tasks.findMany({ where: { id: { in: taskIds }, epic: { project_id: projectId } }, select: { id: true } }),
+    ]);
+
+    const foreignLabels = labelIds.filter(id => !labels.some(label => label.id === id));
+    if (foreignLabels.length > 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Labels ${foreignLabels.join(", ")} do not belong to this workspace` });
+    }
+    const foreignTasks = taskIds.filter(id => !tasks.some(task => task.id === id));
+    if (foreignTasks.length > 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Tasks ${foreignTasks.join(", ")} do not belong to this project` });
+    }
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "project",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+}
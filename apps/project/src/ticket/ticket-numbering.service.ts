@@ -0,0 +1,173 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import { TICKET_PREFIX_PATTERN, TICKET_PREFIX_SETTING, TICKET_WORKFLOW_SETTING, deriveTicketPrefix, formatTicketKey } from "@shared/types";
+
+type ProjectSettings = Record<string, unknown>;
+
+/**
+ * Service de numérotation des tickets par projet
+ *
+ * - allocate: Attribue la prochaine clé (ex: GILE-142) dans la transaction de création du ticket
+ * - normalizePrefix: Valide un préfixe saisi et vérifie qu'il n'est pas utilisé par un autre projet
+ * - assignDefaultPrefix: Calcule un préfixe libre à partir du nom du projet
+ * - prepareSettings: Valide le préfixe de `projects.settings` et le conserve lorsqu'il n'est pas fourni
+ *
+ * Le compteur `projects.ticket_sequence` est incrémenté dans la transaction du ticket : le verrou de ligne
+ * sérialise les créations concurrentes d'un même projet et un rollback libère le numéro (pas de trou).
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketNumberingService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+  ) {}
+
+  /**
+   * Attribue la prochaine clé de ticket du projet. Doit être appelé dans la transaction qui crée le ticket.
+   * À la première attribution, les tickets existants sans numéro sont numérotés par ordre de création.
+   *
+   * @param tx Client transactionnel
+   * @param projectId ID du projet
+   * @returns La clé attribuée
+   */
+  async allocate(tx: Prisma.TransactionClient, projectId: number): Promise<string> {
+    // L'incrément pose le verrou de ligne sur le projet jusqu'à la fin de la transaction
+    const project = await tx.projects.update({
+      where: { id: projectId },
+      data: { ticket_sequence: { increment: 1 } },
+      select: { id: true, name: true, settings: true, ticket_sequence: true },
+    });
+
+    const settings = this.settingsOf(project.settings);
+    let prefix = typeof settings[TICKET_PREFIX_SETTING] === "string" ? settings[TICKET_PREFIX_SETTING] : null;
+    if (!prefix) {
+      prefix = await this.assignDefaultPrefix(project.name, projectId, tx);
+      await tx.projects.update({ where: { id: projectId }, data: { settings: { ...settings, [TICKET_PREFIX_SETTING]: prefix } as Prisma.InputJsonObject } });
+    }
+
+    let sequence = project.ticket_sequence;
+    if (sequence === 1) {
+      sequence = await this.backfill(tx, projectId, prefix);
+    }
+
+    return formatTicketKey(prefix, sequence);
+  }
+
+  /**
+   * Valide et normalise un préfixe saisi pour un projet
+   *
+   * @param prefix Préfixe demandé (la casse est ignorée)
+   * @param projectId ID du projet concerné
+   * @returns Le préfixe en majuscules
+   */
+  async normalizePrefix(prefix: unknown, projectId?: number): Promise<string> {
+    const normalized = typeof prefix === "string" ? prefix.trim().toUpperCase() : "";
+    if (!TICKET_PREFIX_PATTERN.test(normalized)) {
+      throw new RpcException({
+        code: status.INVALID_ARGUMENT,
+        message: "INVALID_TICKET_PREFIX: expected 2 to 10 letters or digits, starting with a letter",
+      });
+    }
+
+    if (!(await this.isPrefixAvailable(normalized, projectId))) {
+      throw new RpcException({ code: status.ALREADY_EXISTS, message: `Ticket prefix "${normalized}" is already used by another project` });
+    }
+    return normalized;
+  }
+
+  /**
+   * Prépare les paramètres d'un projet à enregistrer : le préfixe fourni est validé, sinon le préfixe
+   * courant est conservé pour ne pas changer la clé des prochains tickets par inadvertance.
+   * La surcharge de workflow n'est modifiable que via les endpoints de workflow : elle est toujours reportée.
+   *
+   * @param requested Paramètres envoyés par le client
+   * @param current Paramètres actuellement stockés
+   * @param projectId ID du projet
+   */
+  async prepareSettings(requested: Record<string, unknown>, current: Prisma.JsonValue | null, projectId: number): Promise<Prisma.InputJsonObject> {
+    const next: ProjectSettings = { ...requested };
+    const currentSettings = this.settingsOf(current);
+    const currentPrefix = currentSettings[TICKET_PREFIX_SETTING];
+
+    if (next[TICKET_PREFIX_SETTING] !== undefined && next[TICKET_PREFIX_SETTING] !== currentPrefix) {
+      next[TICKET_PREFIX_SETTING] = await this.normalizePrefix(next[TICKET_PREFIX_SETTING], projectId);
+    } else if (currentPrefix !== undefined) {
+      next[TICKET_PREFIX_SETTING] = currentPrefix;
+    }
+
+    delete next[TICKET_WORKFLOW_SETTING];
+    if (currentSettings[TICKET_WORKFLOW_SETTING] !== undefined) {
+      next[TICKET_WORKFLOW_SETTING] = currentSettings[TICKET_WORKFLOW_SETTING];
+    }
+    return next as Prisma.InputJsonObject;
+  }
+
+  /**
+   * Calcule un préfixe libre dérivé du nom du projet, suffixé d'un chiffre en cas de collision
+   */
+  async assignDefaultPrefix(name: string, projectId?: number, tx: Prisma.TransactionClient = this.prisma): Promise<string> {
+    const base = deriveTicketPrefix(name);
+    for (let attempt = 1; ; attempt++) {
+      const suffix = attempt === 1 ? "" : String(attempt);
+      const candidate = base.slice(0, 10 - suffix.length) + suffix;
+      if (await this.isPrefixAvailable(candidate, projectId, tx)) {
+        return candidate;
+      }
+    }
+  }
+
+  /**
+   * Un préfixe est libre s'il n'est configuré sur aucun autre projet et n'apparaît dans aucune clé existante d'un autre projet
+   */
+  private async isPrefixAvailable(prefix: string, projectId?: number, tx: Prisma.TransactionClient = this.prisma): Promise<boolean> {
+    const otherProject = projectId ? { id: { not: projectId } } : {};
+    const [configured, used] = await Promise.all([
+      tx.projects.count({ where: { ...otherProject, settings: { path: [TICKET_PREFIX_SETTING], equals: prefix } } }),
+      tx.tickets.count({ where: { ticket_number: { startsWith: `${prefix}-` }, ...(projectId ? { project_id: { not: projectId } } : {}) } }),
+    ]);
+    return configured === 0 && used === 0;
+  }
+
+  /**
+   * Numérote les tickets créés avant l'activation de la numérotation et repositionne le compteur
+   *
+   * @returns Le numéro à attribuer au ticket en cours de création
+   */
+  private async backfill(tx: Prisma.TransactionClient, projectId: number, prefix: string): Promise<number> {
+    const unnumbered = await tx.tickets.findMany({
+      where: { project_id: projectId, ticket_number: null },
+      orderBy: { id: "asc" },
+      select: { id: true },
+    });
+    if (unnumbered.length === 0) {
+      return 1;
+    }
+
+    for (const [index, ticket] of unnumbered.entries()) {
+      await tx.tickets.update({ where: { id: ticket.id }, data: { ticket_number: formatTicketKey(prefix, index + 1) } });
+    }
+
+    const next = unnumbered.length + 1;
+    await tx.projects.update({ where: { id: projectId }, data: { ticket_sequence: next } });
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "project",
+      func: "ticket-numbering.backfill",
+      message: `Numbered ${unnumbered.length} existing tickets with prefix ${prefix}`,
+      data: { projectId, prefix, count: unnumbered.length },
+    });
+    return next;
+  }
+
+  private settingsOf(settings: Prisma.JsonValue | null): ProjectSettings {
+    return settings && typeof settings === "object" && !Array.isArray(settings) ? { ...(settings as ProjectSettings) } : {};
+  }
+}
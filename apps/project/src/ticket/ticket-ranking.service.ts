@@ -0,0 +1,51 @@
+import { Injectable } from "@nestjs/common";
+import { Prisma } from "@prisma/client";
+import { rankBetween } from "@shared/types";
+
+/**
+ * Service de classement des tickets dans le backlog
+ *
+ * - nextRank: Rang placé après le dernier ticket classé du backlog du projet
+ * - appendToBacklog: Classe des tickets à la fin du backlog (retour d'un sprint)
+ *
+ * Les tickets arrivent dans le backlog déjà classés, un déplacement ne met donc à jour que le ticket déplacé.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketRankingService {
+  /**
+   * Calcule le rang d'un ticket ajouté à la fin du backlog
+   *
+   * @param tx Client transactionnel
+   * @param projectId ID du projet
+   * @param excludeIds Tickets ignorés (ceux en cours de reclassement)
+   * @returns Le rang suivant le dernier rang du backlog
+   */
+  async nextRank(tx: Prisma.TransactionClient, projectId: number, excludeIds: number[] = []): Promise<string> {
+    const last = await tx.tickets.findFirst({
+      where: { project_id: projectId, sprint_id: null, backlog_rank: { not: null }, ...(excludeIds.length && { id: { notIn: excludeIds } }) },
+      orderBy: { backlog_rank: "desc" },
+      select: { backlog_rank: true },
+    });
+    return rankBetween(last?.backlog_rank ?? null, null);
+  }
+
+  /**
+   * Classe les tickets à la fin du backlog, dans l'ordre donné
+   *
+   * @param tx Client transactionnel
+   * @param projectId ID du projet
+   * @param ticketIds Tickets revenus dans le backlog
+   */
+  async appendToBacklog(tx: Prisma.TransactionClient, projectId: number, ticketIds: number[]): Promise<void> {
+    if (ticketIds.length === 0) return;
+
+    let rank = await this.nextRank(tx, projectId, ticketIds);
+    for (const [index, id] of ticketIds.entries()) {
+      if (index > 0) rank = rankBetween(rank, null);
+      await tx.tickets.update({ where: { id }, data: { backlog_rank: rank } });
+    }
+  }
+}
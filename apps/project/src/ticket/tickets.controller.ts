@@ -1,13 +1,36 @@
 import { Controller } from "@nestjs/common";
 import { GrpcMethod } from "@nestjs/microservices";
 import { LoggerClientService } from "@shared/logger";
-import { CreateTicketDto, UpdateTicketDto, TicketDto, BaseSearchQueryDto, TicketsListDto } from "@shared/types";
+import {
+  CreateTicketDto,
+  UpdateTicketDto,
+  TicketDto,
+  BaseSearchQueryDto,
+  TicketsListDto,
+  TicketDependencyGraphDto,
+  MoveBacklogTicketDto,
+  PlanSprintFromBacklogDto,
+  BacklogPlanningResultDto,
+  TicketAssignmentResultDto,
+  BulkUpdateTicketsDto,
+  BulkUpdateTicketsResultDto,
+  DraftTicketsDto,
+  TicketDraftsDto,
+  CommitTicketDraftsDto,
+  CommitTicketDraftsResultDto,
+} from "@shared/types";
 import { TicketsService } from "./tickets.service";
+import { TicketDependenciesService } from "./ticket-dependencies.service";
+import { TicketBacklogService } from "./ticket-backlog.service";
+import { TicketDraftsService } from "./ticket-drafts.service";
 
 @Controller()
 export class TicketsController {
   constructor(
     private readonly ticketsService: TicketsService,
+    private readonly ticketDependencies: TicketDependenciesService,
+    private readonly ticketBacklog: TicketBacklogService,
+    private readonly ticketDrafts: TicketDraftsService,
     private readonly logger: LoggerClientService,
   ) {}
 
@@ -81,6 +104,29 @@ export class TicketsController {
     return ticket;
   }
 
+  @GrpcMethod("Tickets", "GetByKey")
+  async getByKey(data: { user_id: string; project_id: number; key: string }): Promise<TicketDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getByKey",
+      message: `gRPC GetByKey ticket request for key ${data.key}`,
+      data,
+    });
+
+    const ticket = await this.ticketsService.getByKey(data.project_id, data.key, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getByKey",
+      message: `gRPC GetByKey ticket response for key ${data.key}`,
+      data: { ticketId: ticket.id },
+    });
+
+    return ticket;
+  }
+
   @GrpcMethod("Tickets", "Update")
   async update(data: { user_id: string; id: string; dto: UpdateTicketDto }): Promise<TicketDto> {
     await this.logger.log({
@@ -150,6 +196,29 @@ export class TicketsController {
     return { success: result };
   }
 
+  @GrpcMethod("Tickets", "GetDependencyGraph")
+  async getDependencyGraph(data: { user_id: string; id: number }): Promise<TicketDependencyGraphDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getDependencyGraph",
+      message: `gRPC GetDependencyGraph request for ticket id ${data.id}`,
+      data,
+    });
+
+    const graph = await this.ticketDependencies.getGraph(data.id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getDependencyGraph",
+      message: `gRPC GetDependencyGraph response for ticket id ${data.id}`,
+      data: { nodes: graph.nodes.length, edges: graph.edges.length, truncated: graph.truncated },
+    });
+
+    return graph;
+  }
+
   @GrpcMethod("Tickets", "UpsertTicketLabels")
   async upsertTicketLabels(data: { user_id: string; ticket_id: number; label_ids: number[] }): Promise<{ success: boolean }> {
     await this.logger.log({
@@ -174,7 +243,7 @@ export class TicketsController {
   }
 
   @GrpcMethod("Tickets", "AssignTicket")
-  async assignTicket(data: { user_id: string; ticket_id: number; assigned_to_user_id: string }): Promise<{ success: boolean }> {
+  async assignTicket(data: { user_id: string; ticket_id: number; assigned_to_user_id: string }): Promise<TicketAssignmentResultDto> {
     await this.logger.log({
       level: "info",
       service: "project",
@@ -190,14 +259,14 @@ export class TicketsController {
       service: "project",
       func: "tickets.grpc.assignTicket",
       message: `gRPC AssignTicket response for ticket id ${data.ticket_id}`,
-      data: { result, assignedTo: data.assigned_to_user_id },
+      data: { success: result.success, warnings: result.warnings.length, assignedTo: data.assigned_to_user_id },
     });
 
-    return { success: result };
+    return result;
   }
 
   @GrpcMethod("Tickets", "AssignTicketToSprint")
-  async assignTicketToSprint(data: { user_id: string; ticket_id: number; sprint_id: number }): Promise<{ success: boolean }> {
+  async assignTicketToSprint(data: { user_id: string; ticket_id: number; sprint_id: number }): Promise<TicketAssignmentResultDto> {
     await this.logger.log({
       level: "info",
       service: "project",
@@ -213,9 +282,137 @@ export class TicketsController {
       service: "project",
       func: "tickets.grpc.assignTicketToSprint",
       message: `gRPC AssignTicketToSprint response for ticket id ${data.ticket_id}`,
-      data: { result, sprintId: data.sprint_id },
+      data: { success: result.success, warnings: result.warnings.length, sprintId: data.sprint_id },
     });
 
-    return { success: result };
+    return result;
+  }
+
+  @GrpcMethod("Tickets", "GetBacklog")
+  async getBacklog(data: { user_id: string; project_id: number; skip?: number; take?: number }): Promise<TicketsListDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getBacklog",
+      message: `gRPC GetBacklog request for project id ${data.project_id}`,
+      data,
+    });
+
+    const list = await this.ticketBacklog.getBacklog(data.project_id, data.user_id, { skip: data.skip, take: data.take });
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.getBacklog",
+      message: `gRPC GetBacklog response for project id ${data.project_id}`,
+      data: { total: list.total, count: list.items.length },
+    });
+
+    return list;
+  }
+
+  @GrpcMethod("Tickets", "MoveBacklogTicket")
+  async moveBacklogTicket(data: { user_id: string; project_id: number; ticket_id: number; dto: MoveBacklogTicketDto }): Promise<TicketDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.moveBacklogTicket",
+      message: `gRPC MoveBacklogTicket request for ticket id ${data.ticket_id}`,
+      data,
+    });
+
+    const ticket = await this.ticketBacklog.moveTicket(data.project_id, data.ticket_id, data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.moveBacklogTicket",
+      message: `gRPC MoveBacklogTicket response for ticket id ${data.ticket_id}`,
+      data: { backlogRank: ticket.backlog_rank },
+    });
+
+    return ticket;
+  }
+
+  @GrpcMethod("Tickets", "PlanSprintFromBacklog")
+  async planSprintFromBacklog(data: { user_id: string; project_id: number; dto: PlanSprintFromBacklogDto }): Promise<BacklogPlanningResultDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.planSprintFromBacklog",
+      message: `gRPC PlanSprintFromBacklog request for sprint id ${data.dto?.sprint_id}`,
+      data,
+    });
+
+    const result = await this.ticketBacklog.planSprint(data.project_id, data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.planSprintFromBacklog",
+      message: `gRPC PlanSprintFromBacklog response for sprint id ${result.sprint_id}`,
+      data: { ...result },
+    });
+
+    return result;
+  }
+
+  @GrpcMethod("Tickets", "BulkUpdate")
+  async bulkUpdate(data: { user_id: string; project_id: number; dto: BulkUpdateTicketsDto }): Promise<BulkUpdateTicketsResultDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.bulkUpdate",
+      message: `gRPC BulkUpdate request for project id ${data.project_id}`,
+      data,
+    });
+
+    const result = await this.ticketsService.bulkUpdate(data.project_id, data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.bulkUpdate",
+      message: `gRPC BulkUpdate response for project id ${data.project_id}`,
+      data: { matched: result.matched, succeeded: result.succeeded, failed: result.failed },
+    });
+
+    return result;
+  }
+
+  @GrpcMethod("Tickets", "DraftTickets")
+  async draftTickets(data: { user_id: string; project_id: number; dto: DraftTicketsDto }): Promise<TicketDraftsDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.draftTickets",
+      message: `gRPC DraftTickets request for project id ${data.project_id}`,
+      data: { user_id: data.user_id, project_id: data.project_id, notesLength: data.dto?.notes?.length },
+    });
+
+    return this.ticketDrafts.draft(data.project_id, data.dto, data.user_id);
+  }
+
+  @GrpcMethod("Tickets", "CommitTicketDrafts")
+  async commitTicketDrafts(data: { user_id: string; project_id: number; dto: CommitTicketDraftsDto }): Promise<CommitTicketDraftsResultDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.commitTicketDrafts",
+      message: `gRPC CommitTicketDrafts request for project id ${data.project_id}`,
+      data,
+    });
+
+    const result = await this.ticketDrafts.commit(data.project_id, data.dto, data.user_id);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "tickets.grpc.commitTicketDrafts",
+      message: `gRPC CommitTicketDrafts response for project id ${data.project_id}`,
+      data: { tickets: result.items.map(item => ({ ref: item.ref, id: item.ticket.id })) },
+    });
+
+    return result;
   }
 }
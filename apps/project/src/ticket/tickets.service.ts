@@ -1,8 +1,8 @@
 import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
-import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { Prisma, tickets } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import {
   CreateTicketDto,
@@ -20,19 +20,66 @@ import {
   LabelDtoSelect,
   LabelDto,
   SearchQueryBuilder,
+  TicketGroupDto,
+  TicketGroupField,
+  TicketSubGroupField,
+  ActivityAction,
+  ActivityEntityType,
+  COMPLETED_TICKET_STATUSES,
+  NotificationEvent,
+  parseTicketKey,
+  TicketAssignmentResultDto,
+  BulkUpdateTicketsDto,
+  BulkUpdateTicketsResultDto,
+  BulkTicketResultDto,
+  SprintCapacityWarningDto,
+  MAX_BULK_TICKETS,
+  SavedViewEntityType,
 } from "@shared/types";
 import { plainToInstance } from "class-transformer";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+import { NotificationsService } from "../notification/notifications.service";
+import { TicketNumberingService } from "./ticket-numbering.service";
+import { TicketRankingService } from "./ticket-ranking.service";
+import { TicketDependenciesService } from "./ticket-dependencies.service";
+import { TicketWorkflowsService } from "../workflow/ticket-workflows.service";
+import { ProgressService } from "../progress/progress.service";
+import { SprintCapacityService } from "../sprint/sprint-capacity.service";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { SavedViewsService } from "../view/saved-views.service";
+
+/** Relations chargées pour les tickets renvoyés par la recherche */
+const TicketSearchInclude = {
+  project: { select: { id: true, name: true, slug: true } },
+  sprint: { select: { id: true, name: true, version: true, status: true } },
+  assigned_to_user: { select: ProfileOverviewSelect },
+  created_by_user: { select: ProfileOverviewSelect },
+  updated_by_user: { select: ProfileOverviewSelect },
+  labels: { include: { label: { select: { id: true, name: true } } } },
+  task_tickets: { select: { task_id: true } },
+  ticket_dependencies_ticket_dependencies_ticket_idTotickets: { select: { depends_on_ticket_id: true } },
+} as const;
 
 /**
  * Service de gestion des tickets
  *
  * Ce service fournit les opérations CRUD pour les tickets avec contrôle d'accès :
  * - create: Création d'un nouveau ticket
- * - search: Recherche avec pagination et filtres
+ * - search: Recherche avec pagination, filtres et groupement (groupBy / subGroupBy), éventuellement issus d'une vue enregistrée
  * - getById: Récupération d'un ticket par son ID
+ * - getByKey: Récupération d'un ticket par sa clé lisible (ex: GILE-142)
  * - update: Mise à jour d'un ticket existant
  * - delete: Suppression d'un ticket
  *
+ * Les dépendances sont validées (ni auto-référence, ni lien inter-projets, ni cycle) et `is_blocked`
+ * est calculé tant qu'un prérequis n'est pas VALIDATED/PROD.
+ * Tout changement de statut doit respecter le workflow du projet (transitions, champs requis, rôles).
+ * Chaque ticket reçoit à sa création une clé `<préfixe>-<numéro>` attribuée sans trou par projet.
+ * Les assignations et passages à un statut terminé déclenchent les notifications correspondantes.
+ * L'avancement des epics et du projet est recalculé dans la transaction des changements qui l'affectent.
+ * Les assignations (utilisateur ou sprint) renvoient un avertissement lorsqu'un membre dépasse sa capacité sur le sprint.
+ * Les modifications groupées (bulkUpdate) vérifient chaque ticket puis appliquent les modifications valides en une transaction.
+ *
  * @author Bibz Project
  * @version 1.0.0
  */
@@ -41,6 +88,16 @@ export class TicketsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly loggerClient: LoggerClientService,
+    private readonly activityLogs: ActivityLogsService,
+    private readonly notifications: NotificationsService,
+    private readonly ticketNumbering: TicketNumberingService,
+    private readonly ticketRanking: TicketRankingService,
+    private readonly ticketDependencies: TicketDependenciesService,
+    private readonly ticketWorkflows: TicketWorkflowsService,
+    private readonly progress: ProgressService,
+    private readonly sprintCapacity: SprintCapacityService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly savedViews: SavedViewsService,
   ) {}
 
   /**
@@ -48,12 +105,14 @@ export class TicketsService {
    *
    * @param userId ID de l'utilisateur créateur
    * @param dto DTO contenant les données du ticket
+   * @param transaction Transaction de l'appelant (création de plusieurs tickets) ; l'entrée du journal d'activité
+   *   est alors à enregistrer par l'appelant une fois la transaction validée
    * @returns Le ticket créé
    * @throws ValidationError Si les données sont invalides
    * @throws NotFoundException Si le projet ou sprint n'existe pas
    * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
    */
-  async create(userId: string, dto: CreateTicketDto): Promise<number> {
+  async create(userId: string, dto: CreateTicketDto, transaction?: Prisma.TransactionClient): Promise<number> {
     await this.loggerClient.log({
       level: "debug",
       service: "project",
@@ -76,6 +135,7 @@ export class TicketsService {
     if (!dto.project_id) {
       throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
     }
+    const projectId = dto.project_id;
 
     try {
       // Vérifier le sprint si fourni
@@ -95,7 +155,7 @@ export class TicketsService {
           throw new RpcException({ code: status.NOT_FOUND, message: `Sprint with ID "${dto.sprint_id}" not found` });
         }
 
-        if (sprint.project_id !== dto.project_id) {
+        if (sprint.project_id !== projectId) {
           await this.loggerClient.log({
             level: "warn",
             service: "project",
@@ -106,9 +166,14 @@ export class TicketsService {
         }
       }
 
-      const id = await this.prisma.$transaction(async tx => {
-        const id = await tx.tickets.create({
+      const insert = async (tx: Prisma.TransactionClient) => {
+        const ticketNumber = await this.ticketNumbering.allocate(tx, projectId);
+        // Un ticket créé hors sprint est classé à la fin du backlog
+        const backlogRank = dto.sprint_id ? null : await this.ticketRanking.nextRank(tx, projectId);
+
+        const ticket = await tx.tickets.create({
           data: {
+            ticket_number: ticketNumber,
             title: dto.title,
             description: dto.description,
             status: TicketStatus.TODO,
@@ -117,17 +182,15 @@ export class TicketsService {
             story_points: dto.story_points,
             estimated_hours: dto.estimated_hours ? Number(dto.estimated_hours) : null,
             due_date: dto.due_date ? new Date(dto.due_date) : null,
-            project_id: dto.project_id,
+            project_id: projectId,
             sprint_id: dto.sprint_id ? dto.sprint_id : null,
+            backlog_rank: backlogRank,
             created_by: userId,
             assigned_to: userId,
           },
-          select: {
-            id: true,
-          },
         });
 
-        if (!id) {
+        if (!ticket) {
           await this.loggerClient.log({
             level: "warn",
             service: "project",
@@ -148,7 +211,7 @@ export class TicketsService {
             if (existingTask) {
               await tx.task_tickets.create({
                 data: {
-                  ticket_id: id.id,
+                  ticket_id: ticket.id,
                   task_id: taskId,
                 },
               });
@@ -162,6 +225,7 @@ export class TicketsService {
           dto.dependency_ticket_ids.forEach(d => deps.add(d));
         }
         if (deps.size > 0) {
+          await this.ticketDependencies.assertValidDependencies(tx, ticket, [...deps]);
           for (const depId of deps) {
             const existingTicket = await tx.tickets.findUnique({
               where: { id: depId },
@@ -170,7 +234,7 @@ export class TicketsService {
             if (existingTicket) {
               await tx.ticket_dependencies.create({
                 data: {
-                  ticket_id: id.id,
+                  ticket_id: ticket.id,
                   depends_on_ticket_id: depId,
                 },
               });
@@ -189,7 +253,7 @@ export class TicketsService {
             if (existingLabel) {
               await tx.ticket_labels.create({
                 data: {
-                  ticket_id: id.id,
+                  ticket_id: ticket.id,
                   label_id: labelId,
                   created_by: userId,
                 },
@@ -198,18 +262,36 @@ export class TicketsService {
           }
         }
 
-        return id;
-      });
+        await this.progress.refreshTasks(tx, dto.task_ids ?? [], [ticket.project_id]);
+
+        return ticket;
+      };
+      const created = transaction ? await insert(transaction) : await this.prisma.$transaction(insert);
 
       await this.loggerClient.log({
         level: "info",
         service: "project",
         func: "tickets.create",
         message: `Ticket created successfully`,
-        data: { ticketId: id.id, projectId: dto.project_id, userId },
+        data: { ticketId: created.id, projectId: dto.project_id, userId },
       });
 
-      return id.id;
+      if (transaction) {
+        return created.id;
+      }
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: created.id,
+        project_id: created.project_id ?? undefined,
+        ticket_id: created.id,
+        after: created,
+        metadata: { label_ids: dto.label_ids ?? [], dependency_ticket_ids: dto.dependency_ticket_ids ?? [], task_ids: dto.task_ids ?? [] },
+      });
+
+      return created.id;
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -254,7 +336,7 @@ export class TicketsService {
    */
   async search(userId: string, projectId: number, params?: BaseSearchQueryDto): Promise<TicketsListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 50;
+    const take = await resolveTake(this.prisma, userId, params?.take, 50);
 
     await this.loggerClient.log({
       level: "info",
@@ -265,13 +347,16 @@ export class TicketsService {
     });
 
     try {
+      // Vue enregistrée : ses filtres, tri et groupements complètent la requête
+      params = await this.savedViews.applyView(userId, SavedViewEntityType.TICKET, projectId, params);
+
       // Base where clause: tickets for the project
       let where: Prisma.ticketsWhereInput = {
         project_id: projectId,
       };
 
       // Apply text search across selected fields
-      const searchConditions = SearchQueryBuilder.buildSearchConditions(params?.search, ["title", "description"]);
+      const searchConditions = SearchQueryBuilder.buildSearchConditions(params?.search, ["title", "description"], "ticket_number");
       where = { ...where, ...searchConditions };
 
       await this.loggerClient.log({
@@ -323,22 +408,7 @@ export class TicketsService {
       const orderBy = orderByArray.length > 0 ? orderByArray : [{ created_at: Prisma.SortOrder.desc }];
 
       const [tickets, total] = await Promise.all([
-        this.prisma.tickets.findMany({
-          where,
-          skip,
-          take,
-          orderBy,
-          include: {
-            project: { select: { id: true, name: true, slug: true } },
-            sprint: { select: { id: true, name: true, version: true, status: true } },
-            assigned_to_user: { select: ProfileOverviewSelect },
-            created_by_user: { select: ProfileOverviewSelect },
-            updated_by_user: { select: ProfileOverviewSelect },
-            labels: { include: { label: { select: { id: true, name: true } } } },
-            task_tickets: { select: { task_id: true } },
-            ticket_dependencies_ticket_dependencies_ticket_idTotickets: { select: { depends_on_ticket_id: true } },
-          },
-        }),
+        this.prisma.tickets.findMany({ where, skip, take, orderBy, include: TicketSearchInclude }),
         this.prisma.tickets.count({ where }),
       ]);
 
@@ -350,19 +420,14 @@ export class TicketsService {
         data: { count: tickets.length, total, skip, take },
       });
 
-      const items = tickets.map(ticket => {
-        const transformedTicket = {
-          ...ticket,
-          estimated_hours: ticket.estimated_hours ? Number(ticket.estimated_hours) : null,
-          actual_hours: ticket.actual_hours ? Number(ticket.actual_hours) : null,
-          story_points: ticket.story_points ? Number(ticket.story_points) : null,
-          task_ids: ticket.task_tickets.map(tt => tt.task_id),
-          dependency_ticket_ids: ticket.ticket_dependencies_ticket_dependencies_ticket_idTotickets.map(td => td.depends_on_ticket_id),
-        };
-        return plainToInstance(TicketDto, transformedTicket, { excludeExtraneousValues: true });
-      });
+      const items = await this.toSearchItems(tickets);
+      const result = BasePaginationDto.create(items, total, skip, take, TicketsListDto);
+
+      if (params?.groupBy) {
+        result.groups = await this.searchGroups(where, orderBy, params);
+      }
 
-      return BasePaginationDto.create(items, total, skip, take, TicketsListDto);
+      return result;
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -380,6 +445,64 @@ export class TicketsService {
     }
   }
 
+  /**
+   * Calcule les groupes d'une recherche groupée sur l'ensemble des tickets filtrés
+   *
+   * Seuls les champs de groupement et les mesures sont lus pour tous les tickets ; les tickets
+   * renvoyés dans les groupes (`groupItemsTake`) sont chargés ensuite en une seule requête.
+   */
+  private async searchGroups(where: Prisma.ticketsWhereInput, orderBy: Prisma.ticketsOrderByWithRelationInput[], params: BaseSearchQueryDto): Promise<TicketGroupDto[]> {
+    const groupBy = params.groupBy!;
+    const subGroupBy = params.subGroupBy;
+    if (!(Object.values(TicketGroupField) as string[]).includes(groupBy.field)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid groupBy field: ${groupBy.field}` });
+    }
+    if (subGroupBy && !(Object.values(TicketSubGroupField) as string[]).includes(subGroupBy.field)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid subGroupBy field: ${subGroupBy.field}` });
+    }
+
+    const select: Record<string, true> = { id: true, story_points: true, estimated_hours: true, [groupBy.field]: true };
+    if (subGroupBy) {
+      select[subGroupBy.field] = true;
+    }
+    const rows = (await this.prisma.tickets.findMany({ where, orderBy, select })) as unknown as Array<
+      Record<string, unknown> & Pick<tickets, "id" | "story_points" | "estimated_hours">
+    >;
+
+    const itemsTake = Math.min(Math.max(params.groupItemsTake ?? 0, 0), 100);
+    const groups = SearchQueryBuilder.buildGroups(
+      rows,
+      groupBy,
+      subGroupBy,
+      row => ({ story_points: row.story_points ?? 0, estimated_hours: row.estimated_hours ?? 0 }),
+      itemsTake,
+    );
+
+    const ids = [...new Set(SearchQueryBuilder.collectGroupItems(groups).map(row => row.id))];
+    const tickets = ids.length > 0 ? await this.prisma.tickets.findMany({ where: { id: { in: ids } }, include: TicketSearchInclude }) : [];
+    const items = new Map((await this.toSearchItems(tickets)).map(item => [item.id, item]));
+
+    return SearchQueryBuilder.mapGroupItems(groups, row => items.get(row.id));
+  }
+
+  private async toSearchItems(tickets: Prisma.ticketsGetPayload<{ include: typeof TicketSearchInclude }>[]): Promise<TicketDto[]> {
+    const items = tickets.map(ticket => {
+      const transformedTicket = {
+        ...ticket,
+        estimated_hours: ticket.estimated_hours ? Number(ticket.estimated_hours) : null,
+        actual_hours: ticket.actual_hours ? Number(ticket.actual_hours) : null,
+        story_points: ticket.story_points ? Number(ticket.story_points) : null,
+        task_ids: ticket.task_tickets.map(tt => tt.task_id),
+        dependency_ticket_ids: ticket.ticket_dependencies_ticket_dependencies_ticket_idTotickets.map(td => td.depends_on_ticket_id),
+      };
+      return plainToInstance(TicketDto, transformedTicket, { excludeExtraneousValues: true });
+    });
+
+    const blocked = await this.ticketDependencies.computeBlocked(items.map(item => item.id));
+    items.forEach(item => (item.is_blocked = blocked.has(item.id)));
+    return items;
+  }
+
   /**
    * Récupère un ticket par son ID avec contrôle d'accès
    *
@@ -448,6 +571,7 @@ export class TicketsService {
         .then(items => items.map(item => plainToInstance(LabelDto, item.label, { excludeExtraneousValues: true })));
 
       ticketDto.labels = labels;
+      ticketDto.is_blocked = (await this.ticketDependencies.computeBlocked([ticket.id])).has(ticket.id);
       return ticketDto;
     } catch (error) {
       if (error instanceof RpcException) {
@@ -468,6 +592,31 @@ export class TicketsService {
     }
   }
 
+  /**
+   * Récupère un ticket d'un projet par sa clé lisible
+   *
+   * @param projectId ID du projet
+   * @param key Clé du ticket (ex: GILE-142, insensible à la casse)
+   * @param userId ID de l'utilisateur effectuant la requête
+   * @returns Le ticket trouvé
+   */
+  async getByKey(projectId: number, key: string, userId: string): Promise<TicketDto> {
+    const parsed = parseTicketKey(key ?? "");
+    if (!parsed) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid ticket key "${key}": expected PREFIX-NUMBER` });
+    }
+
+    const ticket = await this.prisma.tickets.findFirst({
+      where: { ticket_number: parsed.key, project_id: projectId },
+      select: { id: true },
+    });
+    if (!ticket) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Ticket "${parsed.key}" not found in project ${projectId}` });
+    }
+
+    return this.getById(ticket.id, userId);
+  }
+
   /**
    * Met à jour un ticket existant avec contrôle d'accès
    *
@@ -477,6 +626,7 @@ export class TicketsService {
    * @returns Le ticket mis à jour
    * @throws NotFoundException Si le ticket n'existe pas
    * @throws UnauthorizedException Si l'utilisateur n'a pas les droits
+   * @throws FAILED_PRECONDITION Si le changement de statut n'est pas permis par le workflow
    */
   async update(id: string, dto: UpdateTicketDto, userId: string): Promise<TicketDto> {
     await this.loggerClient.log({
@@ -526,8 +676,15 @@ export class TicketsService {
         dto.sprint_id = undefined;
       }
 
+      // Le changement de statut doit respecter le workflow, champs requis évalués après la mise à jour
+      if (dto.status && dto.status !== existingTicket.status) {
+        await this.ticketWorkflows.assertTransition(existingTicket, dto, userId);
+      }
+
       // Process DTO to handle date conversion and remove fields that shouldn't be directly updated
       const processedDto = { ...dto };
+      // actual_hours est la somme des worklogs du ticket
+      delete processedDto.actual_hours;
 
       // Convert due_date string to Date object if provided
       if (processedDto.due_date && typeof processedDto.due_date === "string") {
@@ -546,16 +703,29 @@ export class TicketsService {
         // Ensure project relation is maintained (if needed)
       };
 
-      const updatedTicket = await this.prisma.tickets.update({
-        where: { id: ticketId },
-        data: updateData,
-        include: {
-          assigned_to_user: { select: ProfileOverviewSelect },
-          created_by_user: { select: ProfileOverviewSelect },
-          updated_by_user: { select: ProfileOverviewSelect },
-          task_tickets: { select: { task_id: true } },
-          ticket_dependencies_ticket_dependencies_ticket_idTotickets: { select: { depends_on_ticket_id: true } },
-        },
+      const updatedTicket = await this.prisma.$transaction(async tx => {
+        const ticket = await tx.tickets.update({
+          where: { id: ticketId },
+          data: updateData,
+          include: {
+            assigned_to_user: { select: ProfileOverviewSelect },
+            created_by_user: { select: ProfileOverviewSelect },
+            updated_by_user: { select: ProfileOverviewSelect },
+            task_tickets: { select: { task_id: true } },
+            ticket_dependencies_ticket_dependencies_ticket_idTotickets: { select: { depends_on_ticket_id: true } },
+          },
+        });
+
+        // L'avancement des epics (tâches liées) et du projet dépend du statut et des story points
+        if (ticket.status !== existingTicket.status || ticket.story_points !== existingTicket.story_points) {
+          await this.progress.refreshTasks(
+            tx,
+            ticket.task_tickets.map(tt => tt.task_id),
+            [ticket.project_id],
+          );
+        }
+
+        return ticket;
       });
 
       await this.loggerClient.log({
@@ -566,6 +736,19 @@ export class TicketsService {
         data: { ticketId: id, userId, changes: dto },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: updatedTicket.project_id ?? undefined,
+        ticket_id: ticketId,
+        before: existingTicket,
+        after: updatedTicket,
+      });
+
+      await this.notifyTicketChanges(existingTicket, updatedTicket, userId);
+
       const transformedTicket = {
         ...updatedTicket,
         estimated_hours: updatedTicket.estimated_hours ? Number(updatedTicket.estimated_hours) : null,
@@ -573,6 +756,7 @@ export class TicketsService {
         story_points: updatedTicket.story_points ? Number(updatedTicket.story_points) : null,
         task_ids: updatedTicket.task_tickets.map(tt => tt.task_id),
         dependency_ticket_ids: updatedTicket.ticket_dependencies_ticket_dependencies_ticket_idTotickets.map(td => td.depends_on_ticket_id),
+        is_blocked: (await this.ticketDependencies.computeBlocked([updatedTicket.id])).has(updatedTicket.id),
       };
 
       return plainToInstance(TicketDto, transformedTicket);
@@ -651,8 +835,16 @@ export class TicketsService {
       //   throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to delete this ticket" });
       // }
 
-      await this.prisma.tickets.delete({
-        where: { id: ticketId },
+      await this.prisma.$transaction(async tx => {
+        const links = await tx.task_tickets.findMany({ where: { ticket_id: ticketId }, select: { task_id: true } });
+        await tx.tickets.delete({
+          where: { id: ticketId },
+        });
+        await this.progress.refreshTasks(
+          tx,
+          links.map(link => link.task_id),
+          [existingTicket.project_id],
+        );
       });
 
       await this.loggerClient.log({
@@ -663,6 +855,17 @@ export class TicketsService {
         data: { ticketId: id, userId },
       });
 
+      // ticket_id volontairement omis : les entrées liées au ticket sont supprimées en cascade
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: existingTicket.project_id ?? undefined,
+        workspace_id: existingTicket.project?.workspace_id,
+        before: existingTicket,
+      });
+
       return true;
     } catch (error) {
       if (error instanceof RpcException) {
@@ -702,6 +905,7 @@ export class TicketsService {
    * @param userId ID of the user performing the operation
    * @returns Success status
    * @throws NotFoundException If the ticket doesn't exist
+   * @throws FAILED_PRECONDITION If a dependency is the ticket itself, belongs to another project or closes a cycle
    * @throws UnauthorizedException If the user doesn't have permissions
    */
   async upsertDependencyTickets(ticketId: number, dependencyTicketIds: number[], userId: string): Promise<boolean> {
@@ -730,12 +934,19 @@ export class TicketsService {
 
       // TODO: Add workspace access validation
 
+      const previousDependencies = await this.prisma.ticket_dependencies.findMany({
+        where: { ticket_id: ticketId },
+        select: { depends_on_ticket_id: true },
+      });
+
       await this.prisma.$transaction(async tx => {
         // Remove existing dependencies
         await tx.ticket_dependencies.deleteMany({
           where: { ticket_id: ticketId },
         });
 
+        await this.ticketDependencies.assertValidDependencies(tx, existingTicket, dependencyTicketIds ?? []);
+
         // Add new dependencies
         if (dependencyTicketIds && dependencyTicketIds.length > 0) {
           for (const depId of dependencyTicketIds) {
@@ -773,6 +984,17 @@ export class TicketsService {
         data: { ticketId, count: dependencyTicketIds.length },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: existingTicket.project_id ?? undefined,
+        ticket_id: ticketId,
+        before: { dependency_ticket_ids: previousDependencies.map(d => d.depends_on_ticket_id).sort((a, b) => a - b) },
+        after: { dependency_ticket_ids: [...(dependencyTicketIds ?? [])].sort((a, b) => a - b) },
+      });
+
       return true;
     } catch (error) {
       if (error instanceof RpcException) {
@@ -829,6 +1051,11 @@ export class TicketsService {
 
       // TODO: Add workspace access validation
 
+      const previousLabels = await this.prisma.ticket_labels.findMany({
+        where: { ticket_id: ticketId },
+        select: { label_id: true },
+      });
+
       await this.prisma.$transaction(async tx => {
         // Remove existing labels
         await tx.ticket_labels.deleteMany({
@@ -873,6 +1100,17 @@ export class TicketsService {
         data: { ticketId, count: labelIds.length },
       });
 
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.LABELED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: existingTicket.project_id ?? undefined,
+        ticket_id: ticketId,
+        before: { label_ids: previousLabels.map(l => l.label_id).sort((a, b) => a - b) },
+        after: { label_ids: [...(labelIds ?? [])].sort((a, b) => a - b) },
+      });
+
       return true;
     } catch (error) {
       if (error instanceof RpcException) {
@@ -899,11 +1137,11 @@ export class TicketsService {
    * @param ticketId ID of the ticket to assign
    * @param assignedToUserId ID of the user to assign the ticket to
    * @param userId ID of the user performing the operation
-   * @returns Success status
+   * @returns Success status, with a warning when the assignee becomes overcommitted in the ticket's sprint
    * @throws NotFoundException If the ticket doesn't exist
    * @throws UnauthorizedException If the user doesn't have permissions
    */
-  async assignTicket(ticketId: number, assignedToUserId: string, userId: string): Promise<boolean> {
+  async assignTicket(ticketId: number, assignedToUserId: string, userId: string): Promise<TicketAssignmentResultDto> {
     await this.loggerClient.log({
       level: "debug",
       service: "project",
@@ -924,7 +1162,7 @@ export class TicketsService {
       // Verify ticket exists
       const existingTicket = await this.prisma.tickets.findUnique({
         where: { id: ticketId },
-        select: { id: true, project_id: true, assigned_to: true },
+        select: { id: true, title: true, project_id: true, sprint_id: true, assigned_to: true },
       });
 
       if (!existingTicket) {
@@ -961,7 +1199,23 @@ export class TicketsService {
         data: { ticketId, assignedToUserId, previousAssignee: existingTicket.assigned_to },
       });
 
-      return true;
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.ASSIGNED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: existingTicket.project_id ?? undefined,
+        ticket_id: ticketId,
+        before: { assigned_to: existingTicket.assigned_to },
+        after: { assigned_to: assignedToUserId },
+      });
+
+      if (existingTicket.assigned_to !== assignedToUserId) {
+        await this.notifyAssignment(existingTicket, assignedToUserId, userId);
+      }
+
+      const warnings = await this.sprintCapacity.assessMembers(existingTicket.sprint_id, [assignedToUserId]);
+      return { success: true, warnings };
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -987,11 +1241,11 @@ export class TicketsService {
    * @param ticketId ID of the ticket to assign
    * @param sprintId ID of the sprint to assign the ticket to (null to remove from sprint)
    * @param userId ID of the user performing the operation
-   * @returns Success status
+   * @returns Success status, with a warning when the assignee becomes overcommitted in the sprint
    * @throws NotFoundException If the ticket or sprint doesn't exist
    * @throws UnauthorizedException If the user doesn't have permissions
    */
-  async assignTicketToSprint(ticketId: number, sprintId: number | null, userId: string): Promise<boolean> {
+  async assignTicketToSprint(ticketId: number, sprintId: number | null, userId: string): Promise<TicketAssignmentResultDto> {
     await this.loggerClient.log({
       level: "debug",
       service: "project",
@@ -1008,7 +1262,7 @@ export class TicketsService {
       // Verify ticket exists
       const existingTicket = await this.prisma.tickets.findUnique({
         where: { id: ticketId },
-        select: { id: true, project_id: true, sprint_id: true },
+        select: { id: true, project_id: true, sprint_id: true, assigned_to: true },
       });
 
       if (!existingTicket) {
@@ -1033,14 +1287,19 @@ export class TicketsService {
 
       // TODO: Add workspace access validation
 
-      // Update ticket sprint assignment
-      await this.prisma.tickets.update({
-        where: { id: ticketId },
-        data: {
-          sprint_id: sprintId === null || sprintId === 0 ? null : sprintId,
-          updated_by: userId,
-          updated_at: new Date(),
-        },
+      // Update ticket sprint assignment, a ticket sent back to the backlog is ranked last
+      await this.prisma.$transaction(async tx => {
+        await tx.tickets.update({
+          where: { id: ticketId },
+          data: {
+            sprint_id: sprintId === null || sprintId === 0 ? null : sprintId,
+            updated_by: userId,
+            updated_at: new Date(),
+          },
+        });
+        if (!sprintId && existingTicket.sprint_id !== null && existingTicket.project_id !== null) {
+          await this.ticketRanking.appendToBacklog(tx, existingTicket.project_id, [ticketId]);
+        }
       });
 
       await this.loggerClient.log({
@@ -1051,7 +1310,19 @@ export class TicketsService {
         data: { ticketId, sprintId, previousSprint: existingTicket.sprint_id },
       });
 
-      return true;
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.MOVED,
+        entity_type: ActivityEntityType.TICKET,
+        entity_id: ticketId,
+        project_id: existingTicket.project_id ?? undefined,
+        ticket_id: ticketId,
+        before: { sprint_id: existingTicket.sprint_id },
+        after: { sprint_id: sprintId === null || sprintId === 0 ? null : sprintId },
+      });
+
+      const warnings = await this.sprintCapacity.assessMembers(sprintId || null, [existingTicket.assigned_to]);
+      return { success: true, warnings };
     } catch (error) {
       if (error instanceof RpcException) {
         throw error;
@@ -1070,4 +1341,321 @@ export class TicketsService {
       throw error;
     }
   }
+
+  /**
+   * Apply the same patch to a selection of tickets of a project
+   *
+   * Tickets are selected by ID or with search filters (at most MAX_BULK_TICKETS). Each ticket is checked
+   * on its own (membership to the project, workflow transition, role and required fields); the accepted
+   * tickets are updated in a single transaction and the others are reported with their gRPC error code.
+   *
+   * @param projectId ID of the project owning the tickets
+   * @param dto Selection (ticket_ids or filters) and patch to apply
+   * @param userId ID of the user performing the operation
+   * @returns Per-ticket results, with warnings for members overcommitted in their sprint
+   * @throws INVALID_ARGUMENT If the selection or the patch is invalid
+   * @throws NOT_FOUND If the project, the sprint, the assignee or a label doesn't exist
+   * @throws PERMISSION_DENIED If the user can't update the project
+   */
+  async bulkUpdate(projectId: number, dto: BulkUpdateTicketsDto, userId: string): Promise<BulkUpdateTicketsResultDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "tickets.bulkUpdate",
+      message: `Bulk updating tickets of project ${projectId}`,
+      data: { projectId, dto, userId },
+    });
+
+    const patch = dto?.patch ?? {};
+    const ticketIds = [...new Set(dto?.ticket_ids ?? [])];
+    const filters = dto?.filters ?? [];
+    const newStatus = patch.status || undefined;
+    const newPriority = patch.priority || undefined;
+    // Chaîne vide : retrait de l'assigné, 0 : retour au backlog
+    const newAssignee = patch.assigned_to == null ? undefined : patch.assigned_to.trim() || null;
+    const newSprintId = patch.sprint_id == null ? undefined : patch.sprint_id || null;
+    const addLabelIds = [...new Set(patch.add_label_ids ?? [])];
+    const removeLabelIds = [...new Set(patch.remove_label_ids ?? [])];
+
+    if (ticketIds.length && filters.length) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Select tickets either by ticket_ids or by filters, not both" });
+    }
+    if (!ticketIds.length && !filters.length) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "ticket_ids or filters are required" });
+    }
+    if (ticketIds.length > MAX_BULK_TICKETS) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `A bulk update is limited to ${MAX_BULK_TICKETS} tickets` });
+    }
+    if (newStatus === undefined && newPriority === undefined && newAssignee === undefined && newSprintId === undefined && !addLabelIds.length && !removeLabelIds.length) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "The patch doesn't change anything" });
+    }
+    if (newStatus && !Object.values(TicketStatus).includes(newStatus)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid status "${newStatus}"` });
+    }
+    if (newPriority && !Object.values(TicketPriority).includes(newPriority)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid priority "${newPriority}"` });
+    }
+    if (addLabelIds.some(id => removeLabelIds.includes(id))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A label can't be both added and removed" });
+    }
+
+    try {
+      const project = await this.prisma.projects.findUnique({ where: { id: projectId }, select: { id: true, workspace_id: true } });
+      if (!project) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+      }
+      if (!(await this.workspaceMembersService.hasRight(project.workspace_id, userId, "update", "project"))) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to update the tickets of this project" });
+      }
+
+      // Les références du patch sont communes à tous les tickets : vérifiées une seule fois
+      if (newSprintId) {
+        const sprint = await this.prisma.sprints.findUnique({ where: { id: newSprintId }, select: { id: true, project_id: true } });
+        if (!sprint) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Sprint with ID "${newSprintId}" not found` });
+        }
+        if (sprint.project_id !== projectId) {
+          throw new RpcException({ code: status.FAILED_PRECONDITION, message: "Sprint does not belong to the same project as the tickets" });
+        }
+      }
+      if (newAssignee) {
+        const assignee = await this.prisma.profiles.findUnique({ where: { user_id: newAssignee }, select: { user_id: true } });
+        if (!assignee) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `User with ID "${newAssignee}" not found` });
+        }
+      }
+      const labelIds = [...addLabelIds, ...removeLabelIds];
+      if (labelIds.length) {
+        const labels = await this.prisma.labels.findMany({ where: { id: { in: labelIds }, workspace_id: project.workspace_id }, select: { id: true } });
+        const missing = labelIds.filter(id => !labels.some(label => label.id === id));
+        if (missing.length) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Labels not found in the workspace: ${missing.join(", ")}` });
+        }
+      }
+
+      const where: Prisma.ticketsWhereInput = ticketIds.length
+        ? { project_id: projectId, id: { in: ticketIds } }
+        : { AND: [{ project_id: projectId }, SearchQueryBuilder.applyFilters({}, filters)] };
+      const selected = await this.prisma.tickets.findMany({
+        where,
+        orderBy: { id: "asc" },
+        take: MAX_BULK_TICKETS + 1,
+        include: { labels: { select: { label_id: true } }, task_tickets: { select: { task_id: true } } },
+      });
+      if (selected.length > MAX_BULK_TICKETS) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `The filters match more than ${MAX_BULK_TICKETS} tickets, narrow the selection` });
+      }
+
+      const results = new Map<number, BulkTicketResultDto>();
+      for (const id of ticketIds) {
+        if (!selected.some(ticket => ticket.id === id)) {
+          results.set(id, { ticket_id: id, success: false, code: status[status.NOT_FOUND], error: `Ticket with ID "${id}" not found in project ${projectId}` });
+        }
+      }
+
+      // Vérifications par ticket : workflow (transition, rôle, champs requis, temps saisi)
+      const accepted: typeof selected = [];
+      for (const ticket of selected) {
+        try {
+          if (newStatus && newStatus !== ticket.status) {
+            await this.ticketWorkflows.assertTransition(
+              ticket,
+              {
+                status: newStatus,
+                ...(newAssignee !== undefined && { assigned_to: newAssignee }),
+                ...(newSprintId !== undefined && { sprint_id: newSprintId }),
+              },
+              userId,
+            );
+          }
+          accepted.push(ticket);
+        } catch (error) {
+          if (!(error instanceof RpcException)) throw error;
+          results.set(ticket.id, this.toBulkFailure(ticket.id, error));
+        }
+      }
+
+      let updated: tickets[] = [];
+      if (accepted.length) {
+        const acceptedIds = accepted.map(ticket => ticket.id);
+        try {
+          updated = await this.prisma.$transaction(async tx => {
+            await tx.tickets.updateMany({
+              where: { id: { in: acceptedIds } },
+              data: {
+                ...(newStatus && { status: newStatus }),
+                ...(newPriority && { priority: newPriority }),
+                ...(newAssignee !== undefined && { assigned_to: newAssignee }),
+                ...(newSprintId !== undefined && { sprint_id: newSprintId }),
+                updated_by: userId,
+                updated_at: new Date(),
+              },
+            });
+            if (newSprintId === null) {
+              const leavingSprint = accepted.filter(ticket => ticket.sprint_id !== null).map(ticket => ticket.id);
+              await this.ticketRanking.appendToBacklog(tx, projectId, leavingSprint);
+            }
+
+            if (removeLabelIds.length) {
+              await tx.ticket_labels.deleteMany({ where: { ticket_id: { in: acceptedIds }, label_id: { in: removeLabelIds } } });
+            }
+            if (addLabelIds.length) {
+              await tx.ticket_labels.createMany({
+                data: acceptedIds.flatMap(ticket_id => addLabelIds.map(label_id => ({ ticket_id, label_id, created_by: userId }))),
+                skipDuplicates: true,
+              });
+            }
+
+            // L'avancement des epics (tâches liées) et du projet dépend du statut
+            if (newStatus) {
+              await this.progress.refreshTasks(tx, [...new Set(accepted.flatMap(ticket => ticket.task_tickets.map(tt => tt.task_id)))], [projectId]);
+            }
+
+            return tx.tickets.findMany({ where: { id: { in: acceptedIds } } });
+          });
+        } catch (error) {
+          if (!(error instanceof Error)) throw error;
+          await this.loggerClient.log({
+            level: "error",
+            service: "project",
+            func: "tickets.bulkUpdate",
+            message: "Error applying bulk ticket update",
+            data: { error: error.message, projectId, ticketIds: acceptedIds, userId },
+          });
+          for (const id of acceptedIds) {
+            results.set(id, { ticket_id: id, success: false, code: status[status.INTERNAL], error: "Unable to apply the bulk update: " + error.message });
+          }
+        }
+      }
+
+      const warningTargets = new Map<number, Set<string>>();
+      for (const after of updated) {
+        const before = accepted.find(ticket => ticket.id === after.id)!;
+        results.set(after.id, { ticket_id: after.id, success: true });
+
+        const labelIdsAfter = new Set(before.labels.map(l => l.label_id));
+        removeLabelIds.forEach(id => labelIdsAfter.delete(id));
+        addLabelIds.forEach(id => labelIdsAfter.add(id));
+        await this.activityLogs.record({
+          user_id: userId,
+          action: ActivityAction.UPDATED,
+          entity_type: ActivityEntityType.TICKET,
+          entity_id: after.id,
+          project_id: projectId,
+          ticket_id: after.id,
+          before: {
+            status: before.status,
+            priority: before.priority,
+            assigned_to: before.assigned_to,
+            sprint_id: before.sprint_id,
+            label_ids: before.labels.map(l => l.label_id).sort((a, b) => a - b),
+          },
+          after: {
+            status: after.status,
+            priority: after.priority,
+            assigned_to: after.assigned_to,
+            sprint_id: after.sprint_id,
+            label_ids: [...labelIdsAfter].sort((a, b) => a - b),
+          },
+        });
+
+        await this.notifyTicketChanges(before, after, userId);
+
+        if (after.sprint_id && after.assigned_to && (after.sprint_id !== before.sprint_id || after.assigned_to !== before.assigned_to)) {
+          warningTargets.set(after.sprint_id, (warningTargets.get(after.sprint_id) ?? new Set()).add(after.assigned_to));
+        }
+      }
+
+      const warnings: SprintCapacityWarningDto[] = [];
+      for (const [sprintId, userIds] of warningTargets) {
+        warnings.push(...(await this.sprintCapacity.assessMembers(sprintId, [...userIds])));
+      }
+
+      const order = ticketIds.length ? ticketIds : selected.map(ticket => ticket.id);
+      const items = order.map(id => results.get(id)!);
+      const succeeded = items.filter(item => item.success).length;
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "tickets.bulkUpdate",
+        message: `Bulk update of project ${projectId}: ${succeeded}/${items.length} tickets updated`,
+        data: { projectId, userId, succeeded, failed: items.length - succeeded },
+      });
+
+      return { matched: items.length, succeeded, failed: items.length - succeeded, results: items, warnings };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "project",
+          func: "tickets.bulkUpdate",
+          message: "Error bulk updating tickets",
+          data: { error: error.message, projectId, dto, userId },
+        });
+
+        throw new RpcException({ code: status.INTERNAL, message: "Unable to bulk update tickets: " + error.message });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Convertit l'erreur d'un ticket refusé en résultat d'opération groupée
+   */
+  toBulkFailure(ticketId: number, error: RpcException): BulkTicketResultDto {
+    const rpcError = error.getError();
+    if (typeof rpcError === "string") {
+      return { ticket_id: ticketId, success: false, code: status[status.UNKNOWN], error: rpcError };
+    }
+    const { code, message } = rpcError as { code?: status; message?: string };
+    return { ticket_id: ticketId, success: false, code: status[code ?? status.UNKNOWN], error: message ?? error.message };
+  }
+
+  // Helpers
+  private async notifyAssignment(
+    ticket: { id: number; title: string; project_id: number | null; sprint_id: number | null },
+    assignedToUserId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.notifications.notify({
+      event: NotificationEvent.TICKET_ASSIGNED,
+      recipients: [assignedToUserId],
+      actor_id: userId,
+      title: `You have been assigned to "${ticket.title}"`,
+      project_id: ticket.project_id,
+      ticket_id: ticket.id,
+      sprint_id: ticket.sprint_id,
+    });
+  }
+
+  /**
+   * Notifie le nouvel assigné et, lorsque le ticket passe à un statut terminé, son créateur et son assigné
+   */
+  private async notifyTicketChanges(
+    before: Pick<tickets, "assigned_to" | "status">,
+    after: Pick<tickets, "id" | "title" | "project_id" | "sprint_id" | "assigned_to" | "created_by" | "status">,
+    userId: string,
+  ): Promise<void> {
+    if (after.assigned_to && after.assigned_to !== before.assigned_to) {
+      await this.notifyAssignment(after, after.assigned_to, userId);
+    }
+
+    const isCompleted = (ticketStatus: string) => COMPLETED_TICKET_STATUSES.includes(ticketStatus as TicketStatus);
+    if (isCompleted(after.status) && !isCompleted(before.status)) {
+      await this.notifications.notify({
+        event: NotificationEvent.TICKET_COMPLETED,
+        recipients: [after.created_by, after.assigned_to],
+        actor_id: userId,
+        title: `"${after.title}" is now ${after.status}`,
+        project_id: after.project_id,
+        ticket_id: after.id,
+        sprint_id: after.sprint_id,
+        metadata: { previous_status: before.status, status: after.status },
+      });
+    }
+  }
 }
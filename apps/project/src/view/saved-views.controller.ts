@@ -0,0 +1,90 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { CreateSavedViewDto, SavedViewDto, SavedViewFilterDto, SavedViewListDto, UpdateSavedViewDto } from "@shared/types";
+import { SavedViewsService } from "./saved-views.service";
+
+/** Modification transmise en gRPC : les listes vides et les options absentes sont qualifiées par des drapeaux */
+type UpdateSavedViewMessage = UpdateSavedViewDto & {
+  replace_filters?: boolean;
+  replace_columns?: boolean;
+  clear_sort_by?: boolean;
+  clear_group_by?: boolean;
+  clear_sub_group_by?: boolean;
+};
+
+@Controller()
+export class SavedViewsController {
+  constructor(
+    private readonly savedViewsService: SavedViewsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("SavedViews", "Create")
+  async create(data: { user_id: string; workspace_id: string; dto: CreateSavedViewDto }): Promise<SavedViewDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "saved-views.grpc.create",
+      message: `gRPC Create saved view request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.savedViewsService.create(data.user_id, data.workspace_id, data.dto);
+  }
+
+  @GrpcMethod("SavedViews", "List")
+  async list(data: { user_id: string; workspace_id: string; filter?: SavedViewFilterDto }): Promise<SavedViewListDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "saved-views.grpc.list",
+      message: `gRPC List saved views request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.savedViewsService.list(data.user_id, data.workspace_id, data.filter);
+  }
+
+  @GrpcMethod("SavedViews", "GetById")
+  async getById(data: { user_id: string; id: number }): Promise<SavedViewDto> {
+    return this.savedViewsService.getById(data.id, data.user_id);
+  }
+
+  @GrpcMethod("SavedViews", "Update")
+  async update(data: { user_id: string; id: number; dto: UpdateSavedViewMessage }): Promise<SavedViewDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "saved-views.grpc.update",
+      message: `gRPC Update saved view request for id ${data.id}`,
+      data,
+    });
+
+    const { replace_filters, replace_columns, clear_sort_by, clear_group_by, clear_sub_group_by, ...message } = data.dto ?? {};
+    const dto: UpdateSavedViewDto = {
+      ...message,
+      filters: replace_filters ? (message.filters ?? []) : undefined,
+      columns: replace_columns ? (message.columns ?? []) : undefined,
+      sort_by: clear_sort_by ? null : message.sort_by,
+      group_by: clear_group_by ? null : message.group_by,
+      sub_group_by: clear_sub_group_by ? null : message.sub_group_by,
+    };
+
+    return this.savedViewsService.update(data.id, dto, data.user_id);
+  }
+
+  @GrpcMethod("SavedViews", "Delete")
+  async delete(data: { user_id: string; id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "saved-views.grpc.delete",
+      message: `gRPC Delete saved view request for id ${data.id}`,
+      data,
+    });
+
+    const result = await this.savedViewsService.delete(data.id, data.user_id);
+    return { success: result };
+  }
+}
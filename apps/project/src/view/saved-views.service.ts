@@ -0,0 +1,449 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  BaseSearchQueryDto,
+  CreateSavedViewDto,
+  FilterRule,
+  GroupByOption,
+  SavedViewDto,
+  SavedViewDtoSelect,
+  SavedViewEntityType,
+  SavedViewFilterDto,
+  SavedViewListDto,
+  SavedViewType,
+  SavedViewVisibility,
+  SortOption,
+  UpdateSavedViewDto,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+
+type SavedViewRow = Prisma.saved_viewsGetPayload<{ select: typeof SavedViewDtoSelect }>;
+
+/**
+ * Service des vues enregistrées (filtres, tri, groupement et colonnes d'une recherche)
+ *
+ * - create / update / delete: Gestion des vues (propriétaire uniquement, ou modérateur pour les vues partagées)
+ * - list: Vues visibles par l'utilisateur dans un espace de travail, par entité et par projet
+ * - getById: Récupération d'une vue visible
+ * - applyView: Fusion d'une vue avec les paramètres d'une recherche (`view_id`)
+ *
+ * Une vue est privée, partagée avec une équipe dont le propriétaire est membre, ou partagée avec
+ * l'espace de travail. Elle peut être limitée à un projet ; sinon elle s'applique à tous les projets
+ * de l'espace. Les paramètres explicites d'une recherche priment sur ceux de la vue, et ses filtres
+ * s'ajoutent à ceux de la vue.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class SavedViewsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+  ) {}
+
+  /**
+   * Enregistre une vue dans un espace de travail
+   *
+   * @param userId ID du propriétaire de la vue
+   * @param workspaceId ID de l'espace de travail
+   * @param dto Nom, entité, portée de partage et requête enregistrée
+   * @returns La vue créée
+   */
+  async create(userId: string, workspaceId: string, dto: CreateSavedViewDto): Promise<SavedViewDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "saved-views.create",
+      message: `Creating saved view in workspace ${workspaceId} for user ${userId}`,
+      data: { userId, workspaceId, dto },
+    });
+
+    const name = dto?.name?.trim();
+    if (!name) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "View name is required" });
+    }
+    if (!Object.values(SavedViewEntityType).includes(dto.entity_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid entity type "${dto.entity_type}"` });
+    }
+    const viewType = dto.view_type || SavedViewType.LIST;
+    const visibility = dto.visibility || SavedViewVisibility.PRIVATE;
+    this.assertValidOptions(viewType, visibility);
+
+    try {
+      await this.assertWorkspaceMember(workspaceId, userId);
+      if (dto.project_id) {
+        await this.assertProjectInWorkspace(dto.project_id, workspaceId);
+      }
+      const teamId = await this.resolveTeam(workspaceId, userId, visibility, dto.team_id);
+
+      const created = await this.prisma.saved_views.create({
+        data: {
+          created_by: userId,
+          workspace_id: workspaceId,
+          project_id: dto.project_id || null,
+          team_id: teamId,
+          name,
+          description: dto.description?.trim() || null,
+          entity_type: dto.entity_type,
+          view_type: viewType,
+          visibility,
+          filters: this.toJson(dto.filters ?? []),
+          sort_by: this.toNullableJson(this.presentOption(dto.sort_by)),
+          group_by: this.toNullableJson(this.presentOption(dto.group_by)),
+          sub_group_by: this.toNullableJson(this.presentOption(dto.sub_group_by)),
+          columns: this.cleanColumns(dto.columns),
+        },
+        select: SavedViewDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "saved-views.create",
+        message: `Saved view "${created.name}" created`,
+        data: { viewId: created.id, workspaceId, userId, visibility },
+      });
+
+      return this.toDto(created, true);
+    } catch (error) {
+      throw await this.handleError(error, "saved-views.create", { userId, workspaceId }, "Unable to create the view");
+    }
+  }
+
+  /**
+   * Vues visibles par l'utilisateur dans un espace de travail, par ordre alphabétique
+   *
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID de l'espace de travail
+   * @param filter Entité et projet (vues du projet et vues de tout l'espace)
+   * @returns Vues privées de l'utilisateur et vues partagées avec lui
+   */
+  async list(userId: string, workspaceId: string, filter?: SavedViewFilterDto): Promise<SavedViewListDto> {
+    try {
+      await this.assertWorkspaceMember(workspaceId, userId);
+
+      const where: Prisma.saved_viewsWhereInput = {
+        workspace_id: workspaceId,
+        entity_type: filter?.entity_type || undefined,
+        AND: [
+          {
+            OR: [{ created_by: userId }, { visibility: SavedViewVisibility.WORKSPACE }, { visibility: SavedViewVisibility.TEAM, team: { members: { some: { user_id: userId } } } }],
+          },
+          ...(filter?.project_id ? [{ OR: [{ project_id: null }, { project_id: Number(filter.project_id) }] }] : []),
+        ],
+      };
+
+      const views = await this.prisma.saved_views.findMany({ where, orderBy: [{ name: "asc" }, { id: "asc" }], select: SavedViewDtoSelect });
+      const canModerate = views.some(view => view.created_by !== userId) && (await this.canModerate(workspaceId, userId));
+
+      return { items: views.map(view => this.toDto(view, view.created_by === userId || (canModerate && view.visibility !== SavedViewVisibility.PRIVATE))) };
+    } catch (error) {
+      throw await this.handleError(error, "saved-views.list", { userId, workspaceId, filter }, "Unable to fetch views");
+    }
+  }
+
+  /**
+   * Récupère une vue visible par l'utilisateur
+   *
+   * @param id ID de la vue
+   * @param userId ID de l'utilisateur
+   */
+  async getById(id: number, userId: string): Promise<SavedViewDto> {
+    try {
+      const view = await this.findReadable(id, userId);
+      return this.toDto(view, await this.isEditable(view, userId));
+    } catch (error) {
+      throw await this.handleError(error, "saved-views.getById", { id, userId }, "Unable to fetch the view");
+    }
+  }
+
+  /**
+   * Modifie une vue (champs absents inchangés, `null` retire le tri ou le groupement)
+   *
+   * @param id ID de la vue
+   * @param dto Modifications
+   * @param userId ID de l'utilisateur (propriétaire, ou modérateur pour une vue partagée)
+   * @returns La vue modifiée
+   */
+  async update(id: number, dto: UpdateSavedViewDto, userId: string): Promise<SavedViewDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "saved-views.update",
+      message: `Updating saved view ${id} for user ${userId}`,
+      data: { id, dto, userId },
+    });
+
+    try {
+      const existing = await this.findEditable(id, userId);
+
+      const name = dto.name !== undefined ? dto.name.trim() : undefined;
+      if (name === "") {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: "View name is required" });
+      }
+      const viewType = (dto.view_type || existing.view_type) as SavedViewType;
+      const visibility = (dto.visibility || existing.visibility) as SavedViewVisibility;
+      this.assertValidOptions(viewType, visibility);
+
+      // L'équipe de partage reste une équipe du propriétaire, même lorsqu'un modérateur modifie la vue
+      const teamId = await this.resolveTeam(existing.workspace_id, existing.created_by, visibility, dto.team_id || existing.team_id);
+
+      const updated = await this.prisma.saved_views.update({
+        where: { id: existing.id },
+        data: {
+          name,
+          description: dto.description !== undefined ? dto.description?.trim() || null : undefined,
+          view_type: viewType,
+          visibility,
+          team_id: teamId,
+          filters: dto.filters !== undefined ? this.toJson(dto.filters ?? []) : undefined,
+          sort_by: dto.sort_by !== undefined ? this.toNullableJson(this.presentOption(dto.sort_by)) : undefined,
+          group_by: dto.group_by !== undefined ? this.toNullableJson(this.presentOption(dto.group_by)) : undefined,
+          sub_group_by: dto.sub_group_by !== undefined ? this.toNullableJson(this.presentOption(dto.sub_group_by)) : undefined,
+          columns: dto.columns !== undefined ? this.cleanColumns(dto.columns) : undefined,
+          updated_by: userId,
+          updated_at: new Date(),
+        },
+        select: SavedViewDtoSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "saved-views.update",
+        message: `Saved view ${id} updated`,
+        data: { viewId: id, userId },
+      });
+
+      return this.toDto(updated, true);
+    } catch (error) {
+      throw await this.handleError(error, "saved-views.update", { id, userId }, "Unable to update the view");
+    }
+  }
+
+  /**
+   * Supprime une vue
+   *
+   * @param id ID de la vue
+   * @param userId ID de l'utilisateur (propriétaire, ou modérateur pour une vue partagée)
+   */
+  async delete(id: number, userId: string): Promise<boolean> {
+    try {
+      const existing = await this.findEditable(id, userId);
+      await this.prisma.saved_views.delete({ where: { id: existing.id } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "saved-views.delete",
+        message: `Saved view ${id} deleted`,
+        data: { viewId: id, userId },
+      });
+
+      return true;
+    } catch (error) {
+      throw await this.handleError(error, "saved-views.delete", { id, userId }, "Unable to delete the view");
+    }
+  }
+
+  /**
+   * Applique la vue `params.view_id` aux paramètres d'une recherche
+   * Les filtres de la vue précèdent ceux de la requête ; le tri et les groupements de la requête priment.
+   *
+   * @param userId ID de l'utilisateur effectuant la recherche
+   * @param entityType Entité recherchée
+   * @param projectId Projet de la recherche
+   * @param params Paramètres de la recherche
+   * @returns Les paramètres complétés par la vue (inchangés sans `view_id`)
+   * @throws NOT_FOUND / PERMISSION_DENIED Si la vue n'existe pas ou n'est pas visible
+   * @throws INVALID_ARGUMENT Si la vue porte sur une autre entité
+   * @throws FAILED_PRECONDITION Si la vue ne s'applique pas au projet
+   */
+  async applyView(userId: string, entityType: SavedViewEntityType, projectId: number, params?: BaseSearchQueryDto): Promise<BaseSearchQueryDto | undefined> {
+    if (!params?.view_id) {
+      return params;
+    }
+
+    const view = await this.findReadable(params.view_id, userId);
+    if ((view.entity_type as SavedViewEntityType) !== entityType) {
+      throw new RpcException({
+        code: status.INVALID_ARGUMENT,
+        message: `View ${view.id} is a ${view.entity_type} view and can't be applied to a ${entityType} search`,
+      });
+    }
+
+    const project = await this.prisma.projects.findUnique({ where: { id: Number(projectId) }, select: { workspace_id: true } });
+    if (view.project_id ? view.project_id !== Number(projectId) : project?.workspace_id !== view.workspace_id) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: `View ${view.id} doesn't apply to project ${projectId}` });
+    }
+
+    const stored = this.toDto(view, false);
+    return {
+      ...params,
+      filters: [...stored.filters, ...(params.filters ?? [])],
+      sortBy: this.presentOption(params.sortBy) ?? stored.sort_by ?? undefined,
+      groupBy: this.presentOption(params.groupBy) ?? stored.group_by ?? undefined,
+      subGroupBy: this.presentOption(params.subGroupBy) ?? stored.sub_group_by ?? undefined,
+    };
+  }
+
+  // Helpers
+
+  private async findReadable(id: number, userId: string): Promise<SavedViewRow> {
+    if (!id || Number.isNaN(Number(id))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid view identifier" });
+    }
+
+    const view = await this.prisma.saved_views.findUnique({ where: { id: Number(id) }, select: SavedViewDtoSelect });
+    if (!view) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `View with ID "${id}" not found` });
+    }
+    if (view.created_by === userId) {
+      return view;
+    }
+
+    const visibility = view.visibility as SavedViewVisibility;
+    const allowed =
+      (visibility === SavedViewVisibility.WORKSPACE && (await this.workspaceMembersService.getUserRole(view.workspace_id, userId)) !== null) ||
+      (visibility === SavedViewVisibility.TEAM && !!view.team_id && (await this.isTeamMember(view.team_id, userId)));
+    if (!allowed) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "This view is not shared with you" });
+    }
+    return view;
+  }
+
+  private async findEditable(id: number, userId: string): Promise<SavedViewRow> {
+    const view = await this.findReadable(id, userId);
+    if (!(await this.isEditable(view, userId))) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "Only the owner of the view can modify it" });
+    }
+    return view;
+  }
+
+  /** Propriétaire, ou modérateur de l'espace pour une vue partagée */
+  private async isEditable(view: SavedViewRow, userId: string): Promise<boolean> {
+    if (view.created_by === userId) {
+      return true;
+    }
+    return (view.visibility as SavedViewVisibility) !== SavedViewVisibility.PRIVATE && (await this.canModerate(view.workspace_id, userId));
+  }
+
+  private async canModerate(workspaceId: string, userId: string): Promise<boolean> {
+    return (await this.workspaceMembersService.getUserRole(workspaceId, userId)) !== null && this.workspaceMembersService.hasRight(workspaceId, userId, "delete", "project");
+  }
+
+  private async isTeamMember(teamId: string, userId: string): Promise<boolean> {
+    const member = await this.prisma.team_members.findUnique({ where: { team_id_user_id: { team_id: teamId, user_id: userId } }, select: { id: true } });
+    return !!member;
+  }
+
+  private async assertWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+    if (!workspaceId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Workspace ID is required" });
+    }
+    if ((await this.workspaceMembersService.getUserRole(workspaceId, userId)) === null) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You are not a member of this workspace" });
+    }
+  }
+
+  private async assertProjectInWorkspace(projectId: number, workspaceId: string): Promise<void> {
+    const project = await this.prisma.projects.findUnique({ where: { id: Number(projectId) }, select: { workspace_id: true } });
+    if (!project) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+    }
+    if (project.workspace_id !== workspaceId) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: "Project does not belong to the view's workspace" });
+    }
+  }
+
+  /**
+   * Équipe de partage d'une vue TEAM : équipe de l'espace dont le propriétaire est membre
+   */
+  private async resolveTeam(workspaceId: string, ownerId: string, visibility: SavedViewVisibility, teamId?: string | null): Promise<string | null> {
+    if (visibility !== SavedViewVisibility.TEAM) {
+      return null;
+    }
+    if (!teamId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "team_id is required to share a view with a team" });
+    }
+
+    const team = await this.prisma.teams.findUnique({ where: { id: teamId }, select: { id: true, workspace_id: true } });
+    if (!team || team.workspace_id !== workspaceId) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Team with ID "${teamId}" not found in the workspace` });
+    }
+    if (!(await this.isTeamMember(team.id, ownerId))) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "A view can only be shared with a team its owner belongs to" });
+    }
+    return team.id;
+  }
+
+  private assertValidOptions(viewType: SavedViewType, visibility: SavedViewVisibility): void {
+    if (!Object.values(SavedViewType).includes(viewType)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid view type "${viewType}"` });
+    }
+    if (!Object.values(SavedViewVisibility).includes(visibility)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid visibility "${visibility}"` });
+    }
+  }
+
+  /** Les messages gRPC absents arrivent vides : un tri ou un groupement sans champ est ignoré */
+  private presentOption<T extends SortOption | GroupByOption>(option?: T | null): T | undefined {
+    return option?.field ? option : undefined;
+  }
+
+  private cleanColumns(columns?: string[]): string[] {
+    return [...new Set((columns ?? []).map(column => column.trim()).filter(Boolean))];
+  }
+
+  private toJson(value: FilterRule[]): Prisma.InputJsonValue {
+    return value as unknown as Prisma.InputJsonValue;
+  }
+
+  private toNullableJson(value?: SortOption | GroupByOption): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    return value ? (value as unknown as Prisma.InputJsonValue) : Prisma.DbNull;
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "project",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+
+  private toDto(view: SavedViewRow, canEdit: boolean): SavedViewDto {
+    return {
+      id: view.id,
+      workspace_id: view.workspace_id,
+      project_id: view.project_id,
+      team_id: view.team_id,
+      name: view.name,
+      description: view.description,
+      entity_type: view.entity_type as SavedViewEntityType,
+      view_type: view.view_type as SavedViewType,
+      visibility: view.visibility as SavedViewVisibility,
+      filters: Array.isArray(view.filters) ? (view.filters as unknown as FilterRule[]) : [],
+      sort_by: (view.sort_by as unknown as SortOption | null) ?? null,
+      group_by: (view.group_by as unknown as GroupByOption | null) ?? null,
+      sub_group_by: (view.sub_group_by as unknown as GroupByOption | null) ?? null,
+      columns: view.columns,
+      created_by: view.created_by,
+      owner: view.owner ?? undefined,
+      can_edit: canEdit,
+      created_at: view.created_at.toISOString(),
+      updated_at: view.updated_at?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { TicketWorkflowDto, UpdateTicketWorkflowDto } from "@shared/types";
+import { TicketWorkflowsService } from "./ticket-workflows.service";
+
+/**
+ * Controller gRPC des workflows de statut des tickets
+ *
+ * Endpoints exposés:
+ * - GetWorkspaceWorkflow: Workflow d'un workspace
+ * - UpdateWorkspaceWorkflow: Remplacement du workflow d'un workspace
+ * - ResetWorkspaceWorkflow: Retour au workflow par défaut
+ * - GetProjectWorkflow: Workflow effectif d'un projet
+ * - UpdateProjectWorkflow: Surcharge du workflow pour un projet
+ * - ResetProjectWorkflow: Suppression de la surcharge du projet
+ */
+@Controller()
+export class TicketWorkflowsController {
+  constructor(
+    private readonly ticketWorkflowsService: TicketWorkflowsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("TicketWorkflows", "GetWorkspaceWorkflow")
+  async getWorkspaceWorkflow(data: { workspace_id: string; user_id: string }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.getWorkspaceWorkflow",
+      message: `gRPC GetWorkspaceWorkflow request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.ticketWorkflowsService.getWorkspaceWorkflow(data.workspace_id, data.user_id);
+  }
+
+  @GrpcMethod("TicketWorkflows", "UpdateWorkspaceWorkflow")
+  async updateWorkspaceWorkflow(data: { workspace_id: string; user_id: string; dto: UpdateTicketWorkflowDto }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.updateWorkspaceWorkflow",
+      message: `gRPC UpdateWorkspaceWorkflow request for workspace ${data.workspace_id}`,
+      data: { workspace_id: data.workspace_id, user_id: data.user_id, transitions: data.dto?.transitions?.length ?? 0 },
+    });
+
+    return this.ticketWorkflowsService.updateWorkspaceWorkflow(data.workspace_id, data.dto, data.user_id);
+  }
+
+  @GrpcMethod("TicketWorkflows", "ResetWorkspaceWorkflow")
+  async resetWorkspaceWorkflow(data: { workspace_id: string; user_id: string }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.resetWorkspaceWorkflow",
+      message: `gRPC ResetWorkspaceWorkflow request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.ticketWorkflowsService.resetWorkspaceWorkflow(data.workspace_id, data.user_id);
+  }
+
+  @GrpcMethod("TicketWorkflows", "GetProjectWorkflow")
+  async getProjectWorkflow(data: { project_id: number; user_id: string }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.getProjectWorkflow",
+      message: `gRPC GetProjectWorkflow request for project ${data.project_id}`,
+      data,
+    });
+
+    return this.ticketWorkflowsService.getProjectWorkflow(data.project_id, data.user_id);
+  }
+
+  @GrpcMethod("TicketWorkflows", "UpdateProjectWorkflow")
+  async updateProjectWorkflow(data: { project_id: number; user_id: string; dto: UpdateTicketWorkflowDto }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.updateProjectWorkflow",
+      message: `gRPC UpdateProjectWorkflow request for project ${data.project_id}`,
+      data: { project_id: data.project_id, user_id: data.user_id, transitions: data.dto?.transitions?.length ?? 0 },
+    });
+
+    return this.ticketWorkflowsService.updateProjectWorkflow(data.project_id, data.dto, data.user_id);
+  }
+
+  @GrpcMethod("TicketWorkflows", "ResetProjectWorkflow")
+  async resetProjectWorkflow(data: { project_id: number; user_id: string }): Promise<TicketWorkflowDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "ticket-workflows.grpc.resetProjectWorkflow",
+      message: `gRPC ResetProjectWorkflow request for project ${data.project_id}`,
+      data,
+    });
+
+    return this.ticketWorkflowsService.resetProjectWorkflow(data.project_id, data.user_id);
+  }
+}
@@ -0,0 +1,474 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, tickets } from "@prisma/client";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ANY_TICKET_STATUS,
+  DEFAULT_TICKET_WORKFLOW,
+  TICKET_WORKFLOW_SETTING,
+  ActivityAction,
+  ActivityEntityType,
+  TicketStatus,
+  TicketWorkflowDto,
+  TicketWorkflowField,
+  TicketWorkflowSource,
+  TicketWorkflowTransitionDto,
+  UpdateTicketWorkflowDto,
+  WorkspaceRole,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+
+type JsonObject = Record<string, unknown>;
+
+/** Champs d'un ticket lus pour évaluer une transition */
+export type WorkflowTicket = Pick<tickets, "id" | "project_id" | "status" | `${TicketWorkflowField}`>;
+
+/** Valeurs modifiées par la mutation, appliquées avant la vérification des champs requis */
+export type WorkflowChanges = Partial<Record<`${TicketWorkflowField}`, unknown>> & { status?: TicketStatus | string | null };
+
+interface ResolvedWorkflow {
+  workspace_id: string;
+  project_id: number | null;
+  source: TicketWorkflowSource;
+  transitions: TicketWorkflowTransitionDto[];
+}
+
+/**
+ * Service des workflows de statut des tickets
+ *
+ * Le workflow d'un workspace est stocké dans `workspace_settings.workflow_states`, la surcharge d'un projet
+ * dans `projects.settings.workflow`. Sans définition, le workflow par défaut s'applique.
+ *
+ * - getWorkspaceWorkflow / updateWorkspaceWorkflow / resetWorkspaceWorkflow: Workflow d'un workspace
+ * - getProjectWorkflow / updateProjectWorkflow / resetProjectWorkflow: Workflow effectif et surcharge d'un projet
+ * - assertTransition: Vérifie qu'un changement de statut respecte le workflow (transition, champs requis, rôle)
+ *
+ * Lorsque `workspace_settings.require_time_tracking` est actif, un ticket ne peut passer à VALIDATED
+ * sans temps saisi (worklogs).
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class TicketWorkflowsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  /**
+   * Récupère le workflow d'un workspace
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow du workspace, ou celui par défaut
+   */
+  async getWorkspaceWorkflow(workspaceId: string, userId: string): Promise<TicketWorkflowDto> {
+    await this.assertWorkspaceRight(workspaceId, userId, "get");
+
+    const settings = await this.prisma.workspace_settings.findUnique({ where: { workspace_id: workspaceId }, select: { workflow_states: true } });
+    const transitions = this.parseTransitions(settings?.workflow_states);
+
+    return {
+      workspace_id: workspaceId,
+      project_id: null,
+      source: transitions ? TicketWorkflowSource.WORKSPACE : TicketWorkflowSource.DEFAULT,
+      transitions: transitions ?? DEFAULT_TICKET_WORKFLOW,
+    };
+  }
+
+  /**
+   * Remplace le workflow d'un workspace
+   *
+   * @param workspaceId ID du workspace
+   * @param dto Nouvelles transitions
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow enregistré
+   */
+  async updateWorkspaceWorkflow(workspaceId: string, dto: UpdateTicketWorkflowDto, userId: string): Promise<TicketWorkflowDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-workflows.updateWorkspaceWorkflow",
+      message: `Updating ticket workflow of workspace ${workspaceId}`,
+      data: { workspaceId, userId, dto },
+    });
+
+    await this.assertWorkspaceRight(workspaceId, userId, "update");
+    const transitions = this.validateTransitions(dto?.transitions);
+
+    try {
+      const before = await this.getWorkspaceWorkflow(workspaceId, userId);
+      await this.saveWorkspaceDefinition(workspaceId, { transitions } as unknown as Prisma.InputJsonObject, userId);
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.WORKSPACE,
+        entity_id: 0,
+        workspace_id: workspaceId,
+        before: { workflow: before.transitions },
+        after: { workflow: transitions },
+      });
+
+      return { workspace_id: workspaceId, project_id: null, source: TicketWorkflowSource.WORKSPACE, transitions };
+    } catch (error) {
+      throw await this.handleError(error, "ticket-workflows.updateWorkspaceWorkflow", { workspaceId, userId });
+    }
+  }
+
+  /**
+   * Supprime le workflow d'un workspace : le workflow par défaut s'applique à nouveau
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow par défaut
+   */
+  async resetWorkspaceWorkflow(workspaceId: string, userId: string): Promise<TicketWorkflowDto> {
+    await this.assertWorkspaceRight(workspaceId, userId, "update");
+
+    try {
+      const before = await this.getWorkspaceWorkflow(workspaceId, userId);
+      await this.saveWorkspaceDefinition(workspaceId, {}, userId);
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.WORKSPACE,
+        entity_id: 0,
+        workspace_id: workspaceId,
+        before: { workflow: before.transitions },
+        after: { workflow: DEFAULT_TICKET_WORKFLOW },
+      });
+
+      return { workspace_id: workspaceId, project_id: null, source: TicketWorkflowSource.DEFAULT, transitions: DEFAULT_TICKET_WORKFLOW };
+    } catch (error) {
+      throw await this.handleError(error, "ticket-workflows.resetWorkspaceWorkflow", { workspaceId, userId });
+    }
+  }
+
+  /**
+   * Récupère le workflow effectif d'un projet (surcharge projet, sinon workspace, sinon défaut)
+   *
+   * @param projectId ID du projet
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow appliqué aux tickets du projet et son origine
+   */
+  async getProjectWorkflow(projectId: number, userId: string): Promise<TicketWorkflowDto> {
+    const project = await this.assertProjectRight(projectId, userId, "get");
+    return this.resolve(project);
+  }
+
+  /**
+   * Définit la surcharge de workflow d'un projet
+   *
+   * @param projectId ID du projet
+   * @param dto Nouvelles transitions
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow enregistré
+   */
+  async updateProjectWorkflow(projectId: number, dto: UpdateTicketWorkflowDto, userId: string): Promise<TicketWorkflowDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "ticket-workflows.updateProjectWorkflow",
+      message: `Updating ticket workflow of project ${projectId}`,
+      data: { projectId, userId, dto },
+    });
+
+    const project = await this.assertProjectRight(projectId, userId, "update");
+    const transitions = this.validateTransitions(dto?.transitions);
+
+    try {
+      const before = await this.resolve(project);
+      await this.prisma.projects.update({
+        where: { id: project.id },
+        data: {
+          settings: { ...this.objectOf(project.settings), [TICKET_WORKFLOW_SETTING]: { transitions } } as unknown as Prisma.InputJsonObject,
+          updated_by: userId,
+          updated_at: new Date(),
+        },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: project.id,
+        project_id: project.id,
+        workspace_id: project.workspace_id,
+        before: { workflow: before.transitions },
+        after: { workflow: transitions },
+      });
+
+      return { workspace_id: project.workspace_id, project_id: project.id, source: TicketWorkflowSource.PROJECT, transitions };
+    } catch (error) {
+      throw await this.handleError(error, "ticket-workflows.updateProjectWorkflow", { projectId, userId });
+    }
+  }
+
+  /**
+   * Supprime la surcharge de workflow d'un projet : le workflow du workspace s'applique à nouveau
+   *
+   * @param projectId ID du projet
+   * @param userId ID de l'utilisateur
+   * @returns Le workflow désormais effectif
+   */
+  async resetProjectWorkflow(projectId: number, userId: string): Promise<TicketWorkflowDto> {
+    const project = await this.assertProjectRight(projectId, userId, "update");
+
+    try {
+      const before = await this.resolve(project);
+      const settings = this.objectOf(project.settings);
+      delete settings[TICKET_WORKFLOW_SETTING];
+
+      await this.prisma.projects.update({
+        where: { id: project.id },
+        data: { settings: settings as Prisma.InputJsonObject, updated_by: userId, updated_at: new Date() },
+      });
+
+      const after = await this.resolve({ ...project, settings: settings as Prisma.JsonObject });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.PROJECT,
+        entity_id: project.id,
+        project_id: project.id,
+        workspace_id: project.workspace_id,
+        before: { workflow: before.transitions },
+        after: { workflow: after.transitions },
+      });
+
+      return after;
+    } catch (error) {
+      throw await this.handleError(error, "ticket-workflows.resetProjectWorkflow", { projectId, userId });
+    }
+  }
+
+  /**
+   * Vérifie qu'un changement de statut est autorisé par le workflow du projet du ticket.
+   * Les champs requis sont évalués sur les valeurs du ticket après application de `changes`.
+   *
+   * @param ticket Ticket avant la mutation
+   * @param changes Valeurs modifiées, dont le nouveau statut
+   * @param userId ID de l'utilisateur effectuant la mutation
+   * @throws FAILED_PRECONDITION WORKFLOW_TRANSITION_NOT_ALLOWED, WORKFLOW_ROLE_REQUIRED, WORKFLOW_REQUIRED_FIELDS ou TIME_TRACKING_REQUIRED
+   */
+  async assertTransition(ticket: WorkflowTicket, changes: WorkflowChanges, userId: string): Promise<void> {
+    const from = ticket.status as TicketStatus;
+    const to = changes.status as TicketStatus | undefined;
+    if (!to || to === from) return;
+
+    const project = ticket.project_id
+      ? await this.prisma.projects.findUnique({ where: { id: ticket.project_id }, select: { id: true, workspace_id: true, settings: true } })
+      : null;
+    const workflow = project ? await this.resolve(project) : null;
+    const transitions = workflow?.transitions ?? DEFAULT_TICKET_WORKFLOW;
+    const source = workflow?.source ?? TicketWorkflowSource.DEFAULT;
+
+    // Une transition explicite prime sur une transition joker
+    const transition = transitions.find(t => t.from === from && t.to === to) ?? transitions.find(t => t.from === ANY_TICKET_STATUS && t.to === to);
+    if (!transition) {
+      const allowed = [...new Set(transitions.filter(t => t.from === from || t.from === ANY_TICKET_STATUS).map(t => t.to))].filter(s => s !== from);
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "ticket-workflows.assertTransition",
+        message: `Transition ${from} -> ${to} refused for ticket ${ticket.id}`,
+        data: { ticketId: ticket.id, from, to, source, userId },
+      });
+      throw new RpcException({
+        code: status.FAILED_PRECONDITION,
+        message: `WORKFLOW_TRANSITION_NOT_ALLOWED: ${from} -> ${to} is not allowed by the ${source.toLowerCase()} workflow (allowed from ${from}: ${allowed.join(", ") || "none"})`,
+      });
+    }
+
+    if (transition.roles?.length) {
+      const role = project ? await this.workspaceMembersService.getUserRole(project.workspace_id, userId) : null;
+      if (!role || !transition.roles.includes(role)) {
+        throw new RpcException({
+          code: status.FAILED_PRECONDITION,
+          message: `WORKFLOW_ROLE_REQUIRED: ${from} -> ${to} requires one of the roles ${transition.roles.join(", ")} (current role: ${role ?? "none"})`,
+        });
+      }
+    }
+
+    const missing = (transition.required_fields ?? []).filter(field => {
+      const value = field in changes && changes[field] !== undefined ? changes[field] : ticket[field];
+      return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+    });
+    if (missing.length > 0) {
+      throw new RpcException({
+        code: status.FAILED_PRECONDITION,
+        message: `WORKFLOW_REQUIRED_FIELDS: ${from} -> ${to} requires ${missing.join(", ")}`,
+      });
+    }
+
+    if (to === TicketStatus.VALIDATED && project && (await this.requiresTimeTracking(project.workspace_id))) {
+      const logged = await this.prisma.worklogs.count({ where: { ticket_id: ticket.id, duration_minutes: { gt: 0 } } });
+      if (!logged) {
+        throw new RpcException({
+          code: status.FAILED_PRECONDITION,
+          message: `TIME_TRACKING_REQUIRED: ${from} -> ${to} requires time logged on the ticket`,
+        });
+      }
+    }
+  }
+
+  private async requiresTimeTracking(workspaceId: string): Promise<boolean> {
+    const settings = await this.prisma.workspace_settings.findUnique({ where: { workspace_id: workspaceId }, select: { require_time_tracking: true } });
+    return settings?.require_time_tracking ?? false;
+  }
+
+  /**
+   * Détermine le workflow effectif d'un projet
+   */
+  private async resolve(project: { id: number; workspace_id: string; settings: Prisma.JsonValue | null }): Promise<ResolvedWorkflow> {
+    const override = this.parseTransitions(this.objectOf(project.settings)[TICKET_WORKFLOW_SETTING]);
+    if (override) {
+      return { workspace_id: project.workspace_id, project_id: project.id, source: TicketWorkflowSource.PROJECT, transitions: override };
+    }
+
+    const settings = await this.prisma.workspace_settings.findUnique({ where: { workspace_id: project.workspace_id }, select: { workflow_states: true } });
+    const inherited = this.parseTransitions(settings?.workflow_states);
+    return {
+      workspace_id: project.workspace_id,
+      project_id: project.id,
+      source: inherited ? TicketWorkflowSource.WORKSPACE : TicketWorkflowSource.DEFAULT,
+      transitions: inherited ?? DEFAULT_TICKET_WORKFLOW,
+    };
+  }
+
+  /**
+   * Valide une définition de workflow reçue du client
+   *
+   * @throws INVALID_ARGUMENT si une transition est invalide, dupliquée ou boucle sur elle-même
+   */
+  private validateTransitions(transitions: unknown): TicketWorkflowTransitionDto[] {
+    if (!Array.isArray(transitions) || transitions.length === 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A workflow requires at least one transition" });
+    }
+
+    const statuses = Object.values(TicketStatus) as string[];
+    const fields = Object.values(TicketWorkflowField) as string[];
+    const roles = Object.values(WorkspaceRole) as string[];
+    const seen = new Set<string>();
+
+    return (transitions as TicketWorkflowTransitionDto[]).map((transition, index) => {
+      const { from, to } = transition ?? {};
+      if (from !== ANY_TICKET_STATUS && !statuses.includes(from)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition #${index + 1}: invalid source status "${from}"` });
+      }
+      if (!statuses.includes(to)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition #${index + 1}: invalid target status "${to}"` });
+      }
+      if (from === to) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition #${index + 1}: source and target status are identical` });
+      }
+      if (seen.has(`${from}:${to}`)) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition ${from} -> ${to} is defined more than once` });
+      }
+      seen.add(`${from}:${to}`);
+
+      const requiredFields = [...new Set(transition.required_fields ?? [])];
+      const invalidField = requiredFields.find(field => !fields.includes(field));
+      if (invalidField) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition ${from} -> ${to}: unknown required field "${invalidField}"` });
+      }
+
+      const allowedRoles = [...new Set(transition.roles ?? [])];
+      const invalidRole = allowedRoles.find(role => !roles.includes(role));
+      if (invalidRole) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Transition ${from} -> ${to}: unknown role "${invalidRole}"` });
+      }
+
+      return {
+        from,
+        to,
+        ...(requiredFields.length > 0 ? { required_fields: requiredFields } : {}),
+        ...(allowedRoles.length > 0 ? { roles: allowedRoles } : {}),
+      };
+    });
+  }
+
+  /**
+   * Lit une définition stockée ; `null` si aucune transition n'est définie
+   */
+  private parseTransitions(definition: unknown): TicketWorkflowTransitionDto[] | null {
+    const transitions = this.objectOf(definition).transitions;
+    return Array.isArray(transitions) && transitions.length > 0 ? (transitions as TicketWorkflowTransitionDto[]) : null;
+  }
+
+  private async saveWorkspaceDefinition(workspaceId: string, definition: Prisma.InputJsonObject, userId: string): Promise<void> {
+    await this.prisma.workspace_settings.upsert({
+      where: { workspace_id: workspaceId },
+      create: { workspace_id: workspaceId, workflow_states: definition, created_by: userId },
+      update: { workflow_states: definition, updated_by: userId, updated_at: new Date() },
+    });
+  }
+
+  private objectOf(value: unknown): JsonObject {
+    return value && typeof value === "object" && !Array.isArray(value) ? { ...(value as JsonObject) } : {};
+  }
+
+  private async assertWorkspaceRight(workspaceId: string, userId: string, action: "get" | "update"): Promise<void> {
+    if (!workspaceId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Workspace ID is required" });
+    }
+
+    const workspace = await this.prisma.workspaces.findUnique({ where: { id: workspaceId }, select: { id: true } });
+    if (!workspace) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Workspace with ID "${workspaceId}" not found` });
+    }
+
+    const allowed = await this.workspaceMembersService.hasRight(workspaceId, userId, action, "workspace");
+    if (!allowed) {
+      throw new RpcException({
+        code: status.PERMISSION_DENIED,
+        message: action === "get" ? "You don't have permission to view the workflow of this workspace" : "You don't have permission to manage the workflow of this workspace",
+      });
+    }
+  }
+
+  private async assertProjectRight(projectId: number, userId: string, action: "get" | "update") {
+    if (!projectId || Number.isNaN(Number(projectId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+
+    const project = await this.prisma.projects.findUnique({
+      where: { id: Number(projectId) },
+      select: { id: true, workspace_id: true, settings: true },
+    });
+    if (!project) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+    }
+
+    const allowed = await this.workspaceMembersService.hasRight(project.workspace_id, userId, action, "project");
+    if (!allowed) {
+      throw new RpcException({
+        code: status.PERMISSION_DENIED,
+        message: action === "get" ? "You don't have permission to view the workflow of this project" : "You don't have permission to manage the workflow of this project",
+      });
+    }
+    return project;
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "project",
+      func,
+      message: "Error saving ticket workflow",
+      data: { ...data, error: error instanceof Error ? error.message : String(error) },
+    });
+    return new RpcException({ code: status.INTERNAL, message: "Failed to save ticket workflow" });
+  }
+}
@@ -0,0 +1,170 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import {
+  CreateWorklogDto,
+  RunningWorklogTimerDto,
+  StartWorklogTimerDto,
+  TimesheetDto,
+  TimesheetExportDto,
+  TimesheetQueryDto,
+  UpdateWorklogDto,
+  WorklogDto,
+  WorklogFilterDto,
+  WorklogListDto,
+} from "@shared/types";
+import { WorklogsService } from "./worklogs.service";
+
+@Controller()
+export class WorklogsController {
+  constructor(
+    private readonly worklogsService: WorklogsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Worklogs", "Create")
+  async create(data: { user_id: string; project_id: number; dto: CreateWorklogDto }): Promise<WorklogDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.create",
+      message: `gRPC Create worklog request for project id ${data.project_id}`,
+      data,
+    });
+
+    return this.worklogsService.create(data.user_id, data.project_id, data.dto);
+  }
+
+  @GrpcMethod("Worklogs", "Search")
+  async search(data: { user_id: string; project_id: number; filter?: WorklogFilterDto }): Promise<WorklogListDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.search",
+      message: `gRPC Search worklogs request for project id ${data.project_id}`,
+      data,
+    });
+
+    const list = await this.worklogsService.search(data.user_id, data.project_id, data.filter);
+
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.search",
+      message: "gRPC Search worklogs response",
+      data: { total: list.total, count: list.items.length },
+    });
+
+    return list;
+  }
+
+  @GrpcMethod("Worklogs", "Update")
+  async update(data: { user_id: string; id: number; dto: UpdateWorklogDto }): Promise<WorklogDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.update",
+      message: `gRPC Update worklog request for id ${data.id}`,
+      data,
+    });
+
+    return this.worklogsService.update(data.id, data.dto, data.user_id);
+  }
+
+  @GrpcMethod("Worklogs", "Delete")
+  async delete(data: { user_id: string; id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.delete",
+      message: `gRPC Delete worklog request for id ${data.id}`,
+      data,
+    });
+
+    const result = await this.worklogsService.delete(data.id, data.user_id);
+    return { success: result };
+  }
+
+  @GrpcMethod("Worklogs", "StartTimer")
+  async startTimer(data: { user_id: string; project_id: number; dto: StartWorklogTimerDto }): Promise<WorklogDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.startTimer",
+      message: `gRPC StartTimer request for project id ${data.project_id}`,
+      data,
+    });
+
+    return this.worklogsService.startTimer(data.user_id, data.project_id, data.dto);
+  }
+
+  @GrpcMethod("Worklogs", "StopTimer")
+  async stopTimer(data: { user_id: string; note?: string }): Promise<WorklogDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.stopTimer",
+      message: `gRPC StopTimer request for user ${data.user_id}`,
+      data,
+    });
+
+    return this.worklogsService.stopTimer(data.user_id, data.note || undefined);
+  }
+
+  @GrpcMethod("Worklogs", "GetRunningTimer")
+  async getRunningTimer(data: { user_id: string }): Promise<RunningWorklogTimerDto> {
+    return this.worklogsService.getRunningTimer(data.user_id);
+  }
+
+  @GrpcMethod("Worklogs", "GetProjectTimesheet")
+  async getProjectTimesheet(data: { user_id: string; project_id: number; query?: TimesheetQueryDto }): Promise<TimesheetDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.getProjectTimesheet",
+      message: `gRPC GetProjectTimesheet request for project id ${data.project_id}`,
+      data,
+    });
+
+    return this.worklogsService.getProjectTimesheet(data.user_id, data.project_id, data.query);
+  }
+
+  @GrpcMethod("Worklogs", "GetUserTimesheet")
+  async getUserTimesheet(data: { user_id: string; query?: TimesheetQueryDto }): Promise<TimesheetDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.getUserTimesheet",
+      message: `gRPC GetUserTimesheet request for user ${data.user_id}`,
+      data,
+    });
+
+    return this.worklogsService.getUserTimesheet(data.user_id, data.query);
+  }
+
+  @GrpcMethod("Worklogs", "ExportProjectTimesheet")
+  async exportProjectTimesheet(data: { user_id: string; project_id: number; query?: TimesheetQueryDto }): Promise<TimesheetExportDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.exportProjectTimesheet",
+      message: `gRPC ExportProjectTimesheet request for project id ${data.project_id}`,
+      data,
+    });
+
+    return this.worklogsService.exportProjectTimesheet(data.user_id, data.project_id, data.query);
+  }
+
+  @GrpcMethod("Worklogs", "ExportUserTimesheet")
+  async exportUserTimesheet(data: { user_id: string; query?: TimesheetQueryDto }): Promise<TimesheetExportDto> {
+    await this.logger.log({
+      level: "info",
+      service: "project",
+      func: "worklogs.grpc.exportUserTimesheet",
+      message: `gRPC ExportUserTimesheet request for user ${data.user_id}`,
+      data,
+    });
+
+    return this.worklogsService.exportUserTimesheet(data.user_id, data.query);
+  }
+}
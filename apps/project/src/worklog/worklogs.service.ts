@@ -0,0 +1,776 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  BasePaginationDto,
+  CreateWorklogDto,
+  DEFAULT_TIMESHEET_RANGE_DAYS,
+  MAX_TIMESHEET_RANGE_DAYS,
+  MAX_WORKLOG_MINUTES,
+  RunningWorklogTimerDto,
+  StartWorklogTimerDto,
+  TimesheetDayDto,
+  TimesheetDto,
+  TimesheetExportDto,
+  TimesheetQueryDto,
+  TimesheetRowDto,
+  UpdateWorklogDto,
+  WorklogDto,
+  WorklogDtoSelect,
+  WorklogFilterDto,
+  WorklogListDto,
+} from "@shared/types";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ActivityLogsService } from "../activity-log/activity-logs.service";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type WorklogRow = Prisma.worklogsGetPayload<{ select: typeof WorklogDtoSelect }>;
+
+/** Ticket ou tâche sur lequel du temps est saisi */
+interface WorkItem {
+  project_id: number;
+  ticket_id: number | null;
+  task_id: number | null;
+}
+
+interface DayRange {
+  from: Date;
+  to: Date;
+}
+
+/** Les chronomètres en cours (durée nulle) ne comptent ni dans les totaux ni dans `actual_hours` */
+const LoggedTimeWhere: Prisma.worklogsWhereInput = { duration_minutes: { gt: 0 } };
+
+const TIMESHEET_CSV_HEADER = ["date", "user", "project_id", "item", "title", "minutes", "hours", "note"];
+
+/**
+ * Service de saisie des temps (worklogs) sur les tickets et les tâches
+ *
+ * - create / update / delete: Saisie manuelle d'une entrée de temps
+ * - search: Entrées d'un projet, filtrées par ticket, tâche, membre ou période
+ * - startTimer / stopTimer / getRunningTimer: Chronomètre (un seul en cours par utilisateur)
+ * - getProjectTimesheet / getUserTimesheet: Feuilles de temps d'un projet ou d'un membre
+ * - exportProjectTimesheet / exportUserTimesheet: Export CSV des feuilles de temps
+ *
+ * `actual_hours` des tickets et des tâches est la somme des entrées saisies ; il est recalculé dans la
+ * transaction de chaque saisie, modification ou suppression et n'est plus modifiable directement.
+ * Saisir du temps requiert le droit de contribuer au projet ; seul l'auteur d'une entrée (ou un
+ * utilisateur autorisé à supprimer dans le projet) peut la modifier ou la supprimer.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class WorklogsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  /**
+   * Saisit du temps sur un ticket ou une tâche du projet
+   *
+   * @param userId ID de l'utilisateur qui a travaillé
+   * @param projectId ID du projet
+   * @param dto Ticket ou tâche, durée, jour et commentaire
+   * @returns L'entrée créée
+   */
+  async create(userId: string, projectId: number, dto: CreateWorklogDto): Promise<WorklogDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "worklogs.create",
+      message: `Logging time on project ${projectId} for user ${userId}`,
+      data: { userId, projectId, dto },
+    });
+
+    this.assertValidDuration(dto?.duration_minutes, true);
+    const workDate = dto.work_date ? this.toDay(dto.work_date) : this.today();
+
+    try {
+      await this.assertProjectRight(projectId, userId, "update");
+      const item = await this.resolveItem(projectId, dto.ticket_id, dto.task_id);
+
+      const created = await this.prisma.$transaction(async tx => {
+        const worklog = await tx.worklogs.create({
+          data: {
+            user_id: userId,
+            project_id: item.project_id,
+            ticket_id: item.ticket_id,
+            task_id: item.task_id,
+            work_date: workDate,
+            duration_minutes: Number(dto.duration_minutes),
+            note: dto.note?.trim() || null,
+          },
+          select: WorklogDtoSelect,
+        });
+        await this.refreshActualHours(tx, [worklog]);
+        return worklog;
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "worklogs.create",
+        message: `Logged ${created.duration_minutes} minutes on ${this.itemLabel(created)}`,
+        data: { worklogId: created.id, projectId, userId },
+      });
+
+      await this.recordActivity(ActivityAction.CREATED, created, userId, undefined, created);
+
+      return this.toDto(created);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.create", { userId, projectId }, "Unable to log time");
+    }
+  }
+
+  /**
+   * Liste paginée des entrées de temps d'un projet (chronomètres en cours inclus)
+   *
+   * @param userId ID de l'utilisateur effectuant la recherche
+   * @param projectId ID du projet
+   * @param filter Ticket, tâche, membre, période et pagination
+   * @returns Entrées, du jour le plus récent au plus ancien, et total des minutes filtrées
+   */
+  async search(userId: string, projectId: number, filter?: WorklogFilterDto): Promise<WorklogListDto> {
+    const skip = filter?.skip ?? 0;
+    const take = await resolveTake(this.prisma, userId, filter?.take, 25);
+
+    try {
+      await this.assertProjectRight(projectId, userId, "get");
+
+      const where: Prisma.worklogsWhereInput = {
+        project_id: Number(projectId),
+        ticket_id: filter?.ticket_id || undefined,
+        task_id: filter?.task_id || undefined,
+        user_id: filter?.user_id || undefined,
+      };
+      if (filter?.from || filter?.to) {
+        where.work_date = { gte: filter.from ? this.toDay(filter.from) : undefined, lte: filter.to ? this.toDay(filter.to) : undefined };
+      }
+
+      const [items, total, sum] = await Promise.all([
+        this.prisma.worklogs.findMany({ where, skip, take, orderBy: [{ work_date: "desc" }, { created_at: "desc" }], select: WorklogDtoSelect }),
+        this.prisma.worklogs.count({ where }),
+        this.prisma.worklogs.aggregate({ where, _sum: { duration_minutes: true } }),
+      ]);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "worklogs.search",
+        message: `Successfully fetched ${items.length} worklogs out of ${total}`,
+        data: { projectId, userId, count: items.length, total, skip, take },
+      });
+
+      const list = BasePaginationDto.create(
+        items.map(item => this.toDto(item)),
+        total,
+        skip,
+        take,
+        WorklogListDto,
+      );
+      list.total_minutes = sum._sum.duration_minutes ?? 0;
+      return list;
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.search", { userId, projectId, filter }, "Unable to fetch worklogs");
+    }
+  }
+
+  /**
+   * Modifie la durée, le jour ou le commentaire d'une entrée
+   *
+   * @param id ID de l'entrée
+   * @param dto Valeurs modifiées
+   * @param userId ID de l'utilisateur effectuant la modification
+   * @returns L'entrée modifiée
+   * @throws FAILED_PRECONDITION Si l'entrée est un chronomètre en cours
+   */
+  async update(id: number, dto: UpdateWorklogDto, userId: string): Promise<WorklogDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "worklogs.update",
+      message: `Updating worklog ${id} for user ${userId}`,
+      data: { id, dto, userId },
+    });
+
+    const values: UpdateWorklogDto = dto ?? {};
+    this.assertValidDuration(values.duration_minutes, false);
+
+    try {
+      const existing = await this.findEditable(id, userId);
+      if (this.isRunning(existing) && values.duration_minutes != null) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: "Stop the timer before changing its duration" });
+      }
+
+      const updated = await this.prisma.$transaction(async tx => {
+        const worklog = await tx.worklogs.update({
+          where: { id: existing.id },
+          data: {
+            duration_minutes: values.duration_minutes != null ? Number(values.duration_minutes) : undefined,
+            work_date: values.work_date ? this.toDay(values.work_date) : undefined,
+            note: values.note !== undefined ? values.note?.trim() || null : undefined,
+            updated_by: userId,
+            updated_at: new Date(),
+          },
+          select: WorklogDtoSelect,
+        });
+        await this.refreshActualHours(tx, [worklog]);
+        return worklog;
+      });
+
+      await this.recordActivity(ActivityAction.UPDATED, updated, userId, existing, updated);
+
+      return this.toDto(updated);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.update", { id, userId }, "Unable to update worklog");
+    }
+  }
+
+  /**
+   * Supprime une entrée de temps (ou abandonne un chronomètre en cours)
+   *
+   * @param id ID de l'entrée
+   * @param userId ID de l'utilisateur effectuant la suppression
+   */
+  async delete(id: number, userId: string): Promise<boolean> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "worklogs.delete",
+      message: `Deleting worklog ${id} for user ${userId}`,
+      data: { id, userId },
+    });
+
+    try {
+      const existing = await this.findEditable(id, userId);
+
+      await this.prisma.$transaction(async tx => {
+        await tx.worklogs.delete({ where: { id: existing.id } });
+        await this.refreshActualHours(tx, [existing]);
+      });
+
+      await this.recordActivity(ActivityAction.DELETED, existing, userId, existing, undefined);
+
+      return true;
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.delete", { id, userId }, "Unable to delete worklog");
+    }
+  }
+
+  /**
+   * Démarre un chronomètre sur un ticket ou une tâche
+   * Le chronomètre éventuellement en cours de l'utilisateur est arrêté et son temps enregistré.
+   *
+   * @param userId ID de l'utilisateur
+   * @param projectId ID du projet
+   * @param dto Ticket ou tâche et commentaire
+   * @returns Le chronomètre démarré
+   */
+  async startTimer(userId: string, projectId: number, dto: StartWorklogTimerDto): Promise<WorklogDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "worklogs.startTimer",
+      message: `Starting timer on project ${projectId} for user ${userId}`,
+      data: { userId, projectId, dto },
+    });
+
+    try {
+      await this.assertProjectRight(projectId, userId, "update");
+      const item = await this.resolveItem(projectId, dto?.ticket_id, dto?.task_id);
+      const now = new Date();
+
+      const { stopped, started } = await this.prisma.$transaction(async tx => {
+        const stoppedTimers = await this.stopRunning(tx, userId, now);
+        const timer = await tx.worklogs.create({
+          data: {
+            user_id: userId,
+            project_id: item.project_id,
+            ticket_id: item.ticket_id,
+            task_id: item.task_id,
+            work_date: this.toDay(now.toISOString()),
+            duration_minutes: 0,
+            started_at: now,
+            note: dto?.note?.trim() || null,
+          },
+          select: WorklogDtoSelect,
+        });
+        return { stopped: stoppedTimers, started: timer };
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "worklogs.startTimer",
+        message: `Timer started on ${this.itemLabel(started)}`,
+        data: { worklogId: started.id, userId, stoppedTimers: stopped.map(timer => timer.id) },
+      });
+
+      for (const timer of stopped) {
+        await this.recordActivity(ActivityAction.CREATED, timer, userId, undefined, timer);
+      }
+
+      return this.toDto(started);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.startTimer", { userId, projectId }, "Unable to start timer");
+    }
+  }
+
+  /**
+   * Arrête le chronomètre en cours de l'utilisateur et enregistre le temps écoulé
+   * La durée est arrondie à la minute (au moins une) et plafonnée à 24 heures.
+   *
+   * @param userId ID de l'utilisateur
+   * @param note Commentaire remplaçant celui du chronomètre
+   * @returns L'entrée enregistrée
+   * @throws NOT_FOUND Si aucun chronomètre n'est en cours
+   */
+  async stopTimer(userId: string, note?: string): Promise<WorklogDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "project",
+      func: "worklogs.stopTimer",
+      message: `Stopping timer for user ${userId}`,
+      data: { userId },
+    });
+
+    try {
+      const stopped = await this.prisma.$transaction(async tx => {
+        const [timer] = await this.stopRunning(tx, userId, new Date(), note);
+        return timer;
+      });
+      if (!stopped) {
+        throw new RpcException({ code: status.NOT_FOUND, message: "No running timer" });
+      }
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "project",
+        func: "worklogs.stopTimer",
+        message: `Timer stopped on ${this.itemLabel(stopped)} after ${stopped.duration_minutes} minutes`,
+        data: { worklogId: stopped.id, userId },
+      });
+
+      await this.recordActivity(ActivityAction.CREATED, stopped, userId, undefined, stopped);
+
+      return this.toDto(stopped);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.stopTimer", { userId }, "Unable to stop timer");
+    }
+  }
+
+  /**
+   * Chronomètre en cours de l'utilisateur, tous projets confondus
+   *
+   * @param userId ID de l'utilisateur
+   */
+  async getRunningTimer(userId: string): Promise<RunningWorklogTimerDto> {
+    const timer = await this.prisma.worklogs.findFirst({
+      where: { user_id: userId, started_at: { not: null }, stopped_at: null },
+      orderBy: { started_at: "desc" },
+      select: WorklogDtoSelect,
+    });
+    return { timer: timer ? this.toDto(timer) : null };
+  }
+
+  /**
+   * Feuille de temps d'un projet : temps de chaque membre par ticket ou tâche et par jour
+   *
+   * @param userId ID de l'utilisateur consultant la feuille
+   * @param projectId ID du projet
+   * @param query Période et membre éventuel
+   */
+  async getProjectTimesheet(userId: string, projectId: number, query?: TimesheetQueryDto): Promise<TimesheetDto> {
+    const range = this.resolveRange(query);
+
+    try {
+      await this.assertProjectRight(projectId, userId, "get");
+      const entries = await this.findLogged({ project_id: Number(projectId), user_id: query?.user_id || undefined }, range);
+      return this.buildTimesheet(entries, range, query?.user_id || null, Number(projectId));
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.getProjectTimesheet", { userId, projectId, query }, "Unable to build the timesheet");
+    }
+  }
+
+  /**
+   * Feuille de temps de l'utilisateur, sur tous ses projets ou sur un seul
+   *
+   * @param userId ID de l'utilisateur
+   * @param query Période et projet éventuel
+   */
+  async getUserTimesheet(userId: string, query?: TimesheetQueryDto): Promise<TimesheetDto> {
+    const range = this.resolveRange(query);
+
+    try {
+      if (query?.project_id) {
+        await this.assertProjectRight(query.project_id, userId, "get");
+      }
+      const entries = await this.findLogged({ user_id: userId, project_id: query?.project_id || undefined }, range);
+      return this.buildTimesheet(entries, range, userId, query?.project_id || null);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.getUserTimesheet", { userId, query }, "Unable to build the timesheet");
+    }
+  }
+
+  /**
+   * Export CSV de la feuille de temps d'un projet (une ligne par entrée)
+   */
+  async exportProjectTimesheet(userId: string, projectId: number, query?: TimesheetQueryDto): Promise<TimesheetExportDto> {
+    const range = this.resolveRange(query);
+
+    try {
+      await this.assertProjectRight(projectId, userId, "get");
+      const entries = await this.findLogged({ project_id: Number(projectId), user_id: query?.user_id || undefined }, range);
+      return this.toCsv(entries, `timesheet-project-${projectId}`, range);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.exportProjectTimesheet", { userId, projectId, query }, "Unable to export the timesheet");
+    }
+  }
+
+  /**
+   * Export CSV de la feuille de temps de l'utilisateur (une ligne par entrée)
+   */
+  async exportUserTimesheet(userId: string, query?: TimesheetQueryDto): Promise<TimesheetExportDto> {
+    const range = this.resolveRange(query);
+
+    try {
+      if (query?.project_id) {
+        await this.assertProjectRight(query.project_id, userId, "get");
+      }
+      const entries = await this.findLogged({ user_id: userId, project_id: query?.project_id || undefined }, range);
+      return this.toCsv(entries, "timesheet", range);
+    } catch (error) {
+      throw await this.handleError(error, "worklogs.exportUserTimesheet", { userId, query }, "Unable to export the timesheet");
+    }
+  }
+
+  /**
+   * Arrête les chronomètres en cours de l'utilisateur et met à jour `actual_hours` des éléments concernés
+   */
+  private async stopRunning(tx: Prisma.TransactionClient, userId: string, now: Date, note?: string): Promise<WorklogRow[]> {
+    const running = await tx.worklogs.findMany({ where: { user_id: userId, started_at: { not: null }, stopped_at: null }, select: { id: true, started_at: true } });
+
+    const stopped: WorklogRow[] = [];
+    for (const timer of running) {
+      const elapsed = Math.round((now.getTime() - timer.started_at!.getTime()) / 60000);
+      stopped.push(
+        await tx.worklogs.update({
+          where: { id: timer.id },
+          data: {
+            stopped_at: now,
+            duration_minutes: Math.min(MAX_WORKLOG_MINUTES, Math.max(1, elapsed)),
+            note: note !== undefined ? note.trim() || null : undefined,
+          },
+          select: WorklogDtoSelect,
+        }),
+      );
+    }
+
+    await this.refreshActualHours(tx, stopped);
+    return stopped;
+  }
+
+  /**
+   * Recalcule `actual_hours` (somme des entrées) des tickets et tâches des entrées données
+   */
+  private async refreshActualHours(tx: Prisma.TransactionClient, worklogs: Pick<WorklogRow, "ticket_id" | "task_id">[]): Promise<void> {
+    const ticketIds = [...new Set(worklogs.flatMap(worklog => (worklog.ticket_id ? [worklog.ticket_id] : [])))];
+    const taskIds = [...new Set(worklogs.flatMap(worklog => (worklog.task_id ? [worklog.task_id] : [])))];
+
+    if (ticketIds.length) {
+      const sums = await tx.worklogs.groupBy({ by: ["ticket_id"], where: { ticket_id: { in: ticketIds } }, _sum: { duration_minutes: true } });
+      const minutes = new Map(sums.map(sum => [sum.ticket_id, sum._sum.duration_minutes ?? 0]));
+      for (const id of ticketIds) {
+        await tx.tickets.update({ where: { id }, data: { actual_hours: this.toHours(minutes.get(id) ?? 0) } });
+      }
+    }
+
+    if (taskIds.length) {
+      const sums = await tx.worklogs.groupBy({ by: ["task_id"], where: { task_id: { in: taskIds } }, _sum: { duration_minutes: true } });
+      const minutes = new Map(sums.map(sum => [sum.task_id, sum._sum.duration_minutes ?? 0]));
+      for (const id of taskIds) {
+        await tx.tasks.update({ where: { id }, data: { actual_hours: this.toHours(minutes.get(id) ?? 0) } });
+      }
+    }
+  }
+
+  private async findLogged(where: Prisma.worklogsWhereInput, range: DayRange): Promise<WorklogRow[]> {
+    return this.prisma.worklogs.findMany({
+      where: { ...where, ...LoggedTimeWhere, work_date: { gte: range.from, lte: range.to } },
+      orderBy: [{ work_date: "asc" }, { created_at: "asc" }],
+      select: WorklogDtoSelect,
+    });
+  }
+
+  private buildTimesheet(entries: WorklogRow[], range: DayRange, userId: string | null, projectId: number | null): TimesheetDto {
+    const rows = new Map<string, TimesheetRowDto>();
+    const days = new Map<string, number>();
+
+    for (const entry of entries) {
+      const day = this.formatDay(entry.work_date);
+      days.set(day, (days.get(day) ?? 0) + entry.duration_minutes);
+
+      const key = `${entry.user_id}:${entry.ticket_id ?? ""}:${entry.task_id ?? ""}`;
+      const row = rows.get(key) ?? {
+        user_id: entry.user_id,
+        username: entry.profile?.username ?? null,
+        project_id: entry.project_id,
+        ticket_id: entry.ticket_id,
+        ticket_number: entry.ticket?.ticket_number ?? null,
+        task_id: entry.task_id,
+        title: this.itemTitle(entry),
+        days: [],
+        total_minutes: 0,
+        total_hours: 0,
+      };
+      const cell = row.days.find(existing => existing.date === day);
+      if (cell) {
+        cell.minutes += entry.duration_minutes;
+        cell.hours = this.toHours(cell.minutes);
+      } else {
+        row.days.push({ date: day, minutes: entry.duration_minutes, hours: this.toHours(entry.duration_minutes) });
+      }
+      row.total_minutes += entry.duration_minutes;
+      row.total_hours = this.toHours(row.total_minutes);
+      rows.set(key, row);
+    }
+
+    const calendar: TimesheetDayDto[] = [];
+    for (let day = range.from.getTime(); day <= range.to.getTime(); day += DAY_MS) {
+      const date = this.formatDay(new Date(day));
+      calendar.push({ date, minutes: days.get(date) ?? 0, hours: this.toHours(days.get(date) ?? 0) });
+    }
+
+    const totalMinutes = entries.reduce((sum, entry) => sum + entry.duration_minutes, 0);
+    return {
+      from: this.formatDay(range.from),
+      to: this.formatDay(range.to),
+      user_id: userId,
+      project_id: projectId,
+      days: calendar,
+      rows: [...rows.values()].sort((a, b) => (a.username ?? a.user_id).localeCompare(b.username ?? b.user_id) || b.total_minutes - a.total_minutes),
+      total_minutes: totalMinutes,
+      total_hours: this.toHours(totalMinutes),
+    };
+  }
+
+  private toCsv(entries: WorklogRow[], prefix: string, range: DayRange): TimesheetExportDto {
+    const lines = entries.map(entry =>
+      [
+        this.formatDay(entry.work_date),
+        entry.profile?.username ?? entry.user_id,
+        entry.project_id,
+        entry.ticket?.ticket_number ?? (entry.task_id ? `task-${entry.task_id}` : `ticket-${entry.ticket_id}`),
+        this.itemTitle(entry),
+        entry.duration_minutes,
+        this.toHours(entry.duration_minutes),
+        entry.note ?? "",
+      ]
+        .map(value => this.csvCell(value))
+        .join(","),
+    );
+
+    return {
+      filename: `${prefix}-${this.formatDay(range.from)}-${this.formatDay(range.to)}.csv`,
+      content_type: "text/csv; charset=utf-8",
+      content: [TIMESHEET_CSV_HEADER.join(","), ...lines].join("\n") + "\n",
+    };
+  }
+
+  /**
+   * Échappe une cellule CSV ; les valeurs interprétables comme formule par un tableur sont neutralisées
+   */
+  private csvCell(value: string | number): string {
+    let text = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private async resolveItem(projectId: number, ticketId?: number | null, taskId?: number | null): Promise<WorkItem> {
+    if (!!ticketId === !!taskId) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Exactly one of ticket_id or task_id is required" });
+    }
+
+    if (ticketId) {
+      const ticket = await this.prisma.tickets.findFirst({ where: { id: Number(ticketId), project_id: Number(projectId) }, select: { id: true } });
+      if (!ticket) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Ticket with ID "${ticketId}" not found in this project` });
+      }
+      return { project_id: Number(projectId), ticket_id: ticket.id, task_id: null };
+    }
+
+    const task = await this.prisma.tasks.findFirst({ where: { id: Number(taskId), epic: { project_id: Number(projectId) } }, select: { id: true } });
+    if (!task) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Task with ID "${taskId}" not found in this project` });
+    }
+    return { project_id: Number(projectId), ticket_id: null, task_id: task.id };
+  }
+
+  /**
+   * Entrée modifiable par l'utilisateur : la sienne, ou toute entrée s'il peut supprimer dans le projet
+   */
+  private async findEditable(id: number, userId: string): Promise<WorklogRow> {
+    if (!id || Number.isNaN(Number(id))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid worklog identifier" });
+    }
+
+    const worklog = await this.prisma.worklogs.findUnique({ where: { id: Number(id) }, select: WorklogDtoSelect });
+    if (!worklog) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Worklog with ID "${id}" not found` });
+    }
+
+    if (worklog.user_id !== userId) {
+      const project = await this.prisma.projects.findUnique({ where: { id: worklog.project_id }, select: { workspace_id: true } });
+      const allowed = project ? await this.workspaceMembersService.hasRight(project.workspace_id, userId, "delete", "project") : false;
+      if (!allowed) {
+        throw new RpcException({ code: status.PERMISSION_DENIED, message: "You can only edit your own worklogs" });
+      }
+    }
+    return worklog;
+  }
+
+  private async assertProjectRight(projectId: number, userId: string, action: "get" | "update"): Promise<void> {
+    if (!projectId || Number.isNaN(Number(projectId))) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Project ID is required" });
+    }
+
+    const project = await this.prisma.projects.findUnique({ where: { id: Number(projectId) }, select: { workspace_id: true } });
+    if (!project) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Project with ID "${projectId}" not found` });
+    }
+
+    const allowed = await this.workspaceMembersService.hasRight(project.workspace_id, userId, action, "project");
+    if (!allowed) {
+      throw new RpcException({
+        code: status.PERMISSION_DENIED,
+        message: action === "get" ? "You don't have permission to view the worklogs of this project" : "You don't have permission to log time on this project",
+      });
+    }
+  }
+
+  private assertValidDuration(minutes: number | undefined, required: boolean): void {
+    if (minutes == null) {
+      if (required) {
+        throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Duration is required" });
+      }
+      return;
+    }
+    if (!Number.isInteger(Number(minutes)) || minutes < 1 || minutes > MAX_WORKLOG_MINUTES) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Duration must be an integer between 1 and ${MAX_WORKLOG_MINUTES} minutes` });
+    }
+  }
+
+  private resolveRange(query?: TimesheetQueryDto): DayRange {
+    const to = query?.to ? this.toDay(query.to) : this.today();
+    const from = query?.from ? this.toDay(query.from) : new Date(to.getTime() - (DEFAULT_TIMESHEET_RANGE_DAYS - 1) * DAY_MS);
+
+    if (from > to) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invalid date range: from must be before to" });
+    }
+    if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_TIMESHEET_RANGE_DAYS) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid date range: a timesheet covers at most ${MAX_TIMESHEET_RANGE_DAYS} days` });
+    }
+    return { from, to };
+  }
+
+  /**
+   * Jour (minuit UTC) d'une date ISO 8601
+   */
+  private toDay(value: string): Date {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid date "${value}": expected an ISO 8601 date` });
+    }
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private today(): Date {
+    return this.toDay(new Date().toISOString());
+  }
+
+  private async recordActivity(action: ActivityAction, worklog: WorklogRow, userId: string, before?: WorklogRow, after?: WorklogRow): Promise<void> {
+    await this.activityLogs.record({
+      user_id: userId,
+      action,
+      entity_type: ActivityEntityType.WORKLOG,
+      entity_id: worklog.id,
+      project_id: worklog.project_id,
+      ticket_id: worklog.ticket_id ?? undefined,
+      before: before ? this.activityFields(before) : undefined,
+      after: after ? this.activityFields(after) : undefined,
+      metadata: { task_id: worklog.task_id, owner_id: worklog.user_id },
+    });
+  }
+
+  private activityFields(worklog: WorklogRow) {
+    return { work_date: this.formatDay(worklog.work_date), duration_minutes: worklog.duration_minutes, note: worklog.note };
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "project",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+
+  private toDto(worklog: WorklogRow): WorklogDto {
+    return {
+      id: worklog.id,
+      user_id: worklog.user_id,
+      user: worklog.profile ?? undefined,
+      project_id: worklog.project_id,
+      ticket_id: worklog.ticket_id,
+      ticket_number: worklog.ticket?.ticket_number ?? null,
+      task_id: worklog.task_id,
+      title: this.itemTitle(worklog),
+      work_date: this.formatDay(worklog.work_date),
+      duration_minutes: worklog.duration_minutes,
+      hours: this.toHours(worklog.duration_minutes),
+      started_at: worklog.started_at?.toISOString() ?? null,
+      stopped_at: worklog.stopped_at?.toISOString() ?? null,
+      is_running: this.isRunning(worklog),
+      note: worklog.note,
+      created_at: worklog.created_at.toISOString(),
+      updated_at: worklog.updated_at?.toISOString() ?? null,
+    };
+  }
+
+  private isRunning(worklog: Pick<WorklogRow, "started_at" | "stopped_at">): boolean {
+    return !!worklog.started_at && !worklog.stopped_at;
+  }
+
+  private itemTitle(worklog: WorklogRow): string {
+    return worklog.ticket?.title ?? worklog.task?.title ?? "";
+  }
+
+  private itemLabel(worklog: WorklogRow): string {
+    return worklog.ticket_id ? `ticket ${worklog.ticket?.ticket_number ?? worklog.ticket_id}` : `task ${worklog.task_id}`;
+  }
+
+  private formatDay(date: Date): string {
+    return date.toISOString().split("T")[0];
+  }
+
+  private toHours(minutes: number): number {
+    return Math.round((minutes / 60) * 100) / 100;
+  }
+}
@@ -6,6 +6,9 @@ import { RetryService } from "./retry.service";
 import { CircuitBreakerService } from "./circuit-breaker.service";
 import { VectorConfigService } from "../config/vector.config";
 import { MonitoringService } from "./monitoring.service";
+import { ModelUsageSource } from "@shared/types";
+import { ModelUsageService } from "apps/chat/src/usage/model-usage.service";
+import { estimateTokenCount } from "apps/chat/src/usage/model-price-table";
 
 @Injectable()
 export class VectorEmbeddingService {
@@ -17,6 +20,7 @@ export class VectorEmbeddingService {
     private readonly circuitBreakerService: CircuitBreakerService,
     private readonly configService: VectorConfigService,
     private readonly monitoringService: MonitoringService,
+    private readonly modelUsageService: ModelUsageService,
   ) {
     this.config = this.configService.getEmbeddingConfig();
   }
@@ -28,6 +32,11 @@ export class VectorEmbeddingService {
     const startTime = Date.now();
     const errorHandlingConfig = this.configService.getErrorHandlingConfig();
 
+    // Refuse the call before reaching the provider once the workspace quota is exhausted
+    if (workspaceId) {
+      await this.modelUsageService.assertQuota(workspaceId);
+    }
+
     try {
       const result = await this.circuitBreakerService.execute(async () => {
         return this.retryService.executeWithRetry(() => this.callEmbeddingAPI(text), errorHandlingConfig.retry);
@@ -53,6 +62,19 @@ export class VectorEmbeddingService {
         workspaceId,
       );
 
+      // Token consumption counted in the workspace quota (providers don't all report usage, so it is estimated)
+      if (workspaceId) {
+        const tokens = estimateTokenCount(text);
+        await this.modelUsageService.record({
+          from: ModelUsageSource.EMBEDDING,
+          model: (embeddingConfig as { model?: string }).model || undefined,
+          user_token_count: tokens,
+          model_token_count: 0,
+          total_token_count: tokens,
+          workspace_id: workspaceId,
+        });
+      }
+
       return result;
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -11,6 +11,9 @@ import { RetryService } from "./services/retry.service";
 import { VectorConfigService } from "./config/vector.config";
 import { PrismaService } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
+import { WorkspaceMembersService } from "apps/workspace/src/member/workspace-members.service";
+import { ModelUsageService } from "apps/chat/src/usage/model-usage.service";
+import { ModelPriceTable } from "apps/chat/src/usage/model-price-table";
 
 @Module({
   controllers: [VectorController],
@@ -33,6 +36,11 @@ import { LoggerClientService } from "@shared/logger";
     // Shared services
     PrismaService,
     LoggerClientService,
+
+    // Model usage metering
+    ModelUsageService,
+    ModelPriceTable,
+    WorkspaceMembersService,
   ],
   exports: [
     // Export services that might be used by other modules
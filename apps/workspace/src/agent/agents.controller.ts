@@ -0,0 +1,137 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import {
+  AgentDto,
+  AgentFilterDto,
+  AgentListDto,
+  AgentPromptDto,
+  AgentPromptListDto,
+  ComposeAgentPromptDto,
+  ComposedPromptDto,
+  CreateAgentDto,
+  CreateAgentPromptDto,
+  PromptRoleType,
+  UpdateAgentDto,
+  UpdateAgentPromptDto,
+} from "@shared/types";
+import { AgentsService } from "./agents.service";
+
+@Controller()
+export class AgentsController {
+  constructor(
+    private readonly agentsService: AgentsService,
+    private readonly logger: LoggerClientService,
+  ) {}
+
+  @GrpcMethod("Agents", "Create")
+  async create(data: { user_id: string; workspace_id: string; dto: CreateAgentDto }): Promise<AgentDto> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.create",
+      message: `gRPC Create agent request from workspace ${data.workspace_id}`,
+      data,
+    });
+
+    return this.agentsService.create(data.user_id, data.workspace_id, data.dto);
+  }
+
+  @GrpcMethod("Agents", "List")
+  async list(data: { user_id: string; workspace_id: string; filter?: AgentFilterDto; skip?: number; take?: number }): Promise<AgentListDto> {
+    return this.agentsService.list(data.user_id, data.workspace_id, data.filter, data.skip, data.take);
+  }
+
+  @GrpcMethod("Agents", "GetById")
+  async getById(data: { user_id: string; workspace_id: string; id: number }): Promise<AgentDto> {
+    return this.agentsService.getById(data.id, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "Update")
+  async update(data: { user_id: string; workspace_id: string; id: number; dto: UpdateAgentDto }): Promise<AgentDto> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.update",
+      message: `gRPC Update agent request for id ${data.id}`,
+      data,
+    });
+
+    return this.agentsService.update(data.id, data.dto ?? {}, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "Delete")
+  async delete(data: { user_id: string; workspace_id: string; id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.delete",
+      message: `gRPC Delete agent request for id ${data.id}`,
+      data,
+    });
+
+    return this.agentsService.delete(data.id, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "CreateVersion")
+  async createVersion(data: { user_id: string; workspace_id: string; id: number }): Promise<AgentDto> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.createVersion",
+      message: `gRPC CreateVersion agent request from id ${data.id}`,
+      data,
+    });
+
+    return this.agentsService.createVersion(data.id, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "ListPrompts")
+  async listPrompts(data: { user_id: string; workspace_id: string; agent_id: number; role_type?: PromptRoleType }): Promise<AgentPromptListDto> {
+    return this.agentsService.listPrompts(data.agent_id, data.user_id, data.workspace_id, data.role_type);
+  }
+
+  @GrpcMethod("Agents", "CreatePrompt")
+  async createPrompt(data: { user_id: string; workspace_id: string; agent_id: number; dto: CreateAgentPromptDto }): Promise<AgentPromptDto> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.createPrompt",
+      message: `gRPC CreatePrompt request for agent ${data.agent_id}`,
+      data: { user_id: data.user_id, workspace_id: data.workspace_id, agent_id: data.agent_id, part_type: data.dto?.part_type, role_type: data.dto?.role_type },
+    });
+
+    return this.agentsService.createPrompt(data.agent_id, data.dto, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "UpdatePrompt")
+  async updatePrompt(data: { user_id: string; workspace_id: string; id: number; dto: UpdateAgentPromptDto }): Promise<AgentPromptDto> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.updatePrompt",
+      message: `gRPC UpdatePrompt request for id ${data.id}`,
+      data: { user_id: data.user_id, workspace_id: data.workspace_id, id: data.id, changes: Object.keys(data.dto ?? {}) },
+    });
+
+    return this.agentsService.updatePrompt(data.id, data.dto ?? {}, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "DeletePrompt")
+  async deletePrompt(data: { user_id: string; workspace_id: string; id: number }): Promise<{ success: boolean }> {
+    await this.logger.log({
+      level: "info",
+      service: "workspace",
+      func: "agents.grpc.deletePrompt",
+      message: `gRPC DeletePrompt request for id ${data.id}`,
+      data,
+    });
+
+    return this.agentsService.deletePrompt(data.id, data.user_id, data.workspace_id);
+  }
+
+  @GrpcMethod("Agents", "Compose")
+  async compose(data: { user_id: string; workspace_id: string; dto: ComposeAgentPromptDto }): Promise<ComposedPromptDto> {
+    return this.agentsService.compose(data.dto, data.user_id, data.workspace_id);
+  }
+}
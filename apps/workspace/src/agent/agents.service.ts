@@ -0,0 +1,1002 @@
+import { Injectable } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, UserRole } from "@prisma/client";
+import { PrismaService, resolveTake } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  AGENT_NAME_CODE_PATTERN,
+  AGENT_RETRIEVAL_DOCUMENT_TYPES,
+  AGENT_RETRIEVAL_MAX_TOP_K,
+  AgentDto,
+  AgentDtoSelect,
+  AgentFilterDto,
+  AgentListDto,
+  AgentPromptDto,
+  AgentPromptDtoSelect,
+  AgentPromptListDto,
+  AgentRetrievalDto,
+  AgentStatus,
+  AgentType,
+  BasePaginationDto,
+  ComposeAgentPromptDto,
+  ComposedPromptDto,
+  ComposedPromptPartDto,
+  CreateAgentDto,
+  CreateAgentPromptDto,
+  PromptCreatorType,
+  PromptPartType,
+  PromptRoleType,
+  PromptStatus,
+  UpdateAgentDto,
+  UpdateAgentPromptDto,
+} from "@shared/types";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
+import { WorkspaceMembersService } from "../member/workspace-members.service";
+
+type AgentRow = Prisma.agentGetPayload<{ select: typeof AgentDtoSelect }>;
+type PromptRow = Prisma.promptGetPayload<{ select: typeof AgentPromptDtoSelect }>;
+
+/** Cycle de vie d'une version d'agent : chaque statut n'autorise que le suivant */
+const AGENT_STATUS_TRANSITIONS: Record<AgentStatus, AgentStatus | null> = {
+  [AgentStatus.DRAFT]: AgentStatus.ACTIVE,
+  [AgentStatus.ACTIVE]: AgentStatus.DEPRECATED,
+  [AgentStatus.DEPRECATED]: AgentStatus.ARCHIVED,
+  [AgentStatus.ARCHIVED]: null,
+};
+
+/** Ordre d'assemblage des parties d'un prompt */
+const PROMPT_PART_ORDER = Object.values(PromptPartType);
+
+/**
+ * Service du registre des agents et de leurs prompts
+ *
+ * - create / update / delete: Gestion des versions d'agent (seules les versions DRAFT sont modifiables)
+ * - list / getById: Consultation du registre
+ * - createVersion: Nouvelle version DRAFT d'un agent, copiée depuis une version existante
+ * - listPrompts / createPrompt / updatePrompt / deletePrompt: Prompts SYSTEM et surcharges du workspace
+ * - compose: Assemblage du prompt d'un agent pour un rôle, dans l'ordre des parties, avec ses paramètres de recherche de contexte
+ *
+ * Un agent est identifié par son code ; chaque version suit le cycle DRAFT → ACTIVE → DEPRECATED → ARCHIVED
+ * et une seule version est active à la fois. Les prompts SYSTEM d'une version publiée sont figés ; un workspace
+ * peut surcharger ceux qui sont `updatable`, les autres workspaces continuant d'utiliser le prompt SYSTEM.
+ * Les agents et les prompts SYSTEM étant communs à tous les workspaces, seuls les SUPER_ADMIN les gèrent ;
+ * les rôles du workspace ne portent que sur ses surcharges.
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class AgentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  /**
+   * Crée la première version (DRAFT) d'un agent
+   *
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace d'où l'action est faite (journal d'activité)
+   * @param dto Nom, code (déduit du nom s'il est absent), type et description
+   * @returns L'agent créé
+   */
+  async create(userId: string, workspaceId: string, dto: CreateAgentDto): Promise<AgentDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "agents.create",
+      message: `Creating agent "${dto?.display_name}" from workspace ${workspaceId}`,
+      data: { userId, workspaceId, dto },
+    });
+
+    const displayName = dto?.display_name?.trim();
+    if (!displayName) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Agent display name is required" });
+    }
+    if (!Object.values(AgentType).includes(dto.agent_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid agent type "${dto.agent_type}"` });
+    }
+    if (dto.status && dto.status !== AgentStatus.DRAFT) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Agents are created as DRAFT and published through an update" });
+    }
+    const code = dto.agent_name_code?.trim() || this.toNameCode(displayName);
+    if (!AGENT_NAME_CODE_PATTERN.test(code)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid agent code "${code}"` });
+    }
+    const retrieval = this.toRetrievalData(dto.retrieval);
+
+    try {
+      await this.assertSuperAdmin(userId);
+
+      const existing = await this.prisma.agent.findFirst({ where: { agent_name_code: code }, select: { id: true } });
+      if (existing) {
+        throw new RpcException({ code: status.ALREADY_EXISTS, message: `Agent ${code} already exists; create a new version instead` });
+      }
+
+      const created = await this.prisma.agent.create({
+        data: {
+          agent_name_code: code,
+          version: 1,
+          display_name: displayName,
+          description: dto.description?.trim() || null,
+          agent_type: dto.agent_type,
+          status: AgentStatus.DRAFT,
+          ...retrieval,
+        },
+        select: AgentDtoSelect,
+      });
+      const agent = this.toAgentDto(created, []);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.create",
+        message: `Agent ${code} v1 created`,
+        data: { agentId: agent.id, workspaceId, userId },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.AGENT,
+        entity_id: agent.id,
+        workspace_id: workspaceId,
+        after: agent,
+      });
+
+      return agent;
+    } catch (error) {
+      throw await this.handleError(error, "agents.create", { userId, workspaceId }, "Unable to create the agent");
+    }
+  }
+
+  /**
+   * Liste paginée des versions d'agents, par code puis de la plus récente à la plus ancienne
+   *
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @param filter Type, statut, code et recherche sur le nom ou le code
+   * @param skip Décalage
+   * @param take Taille de page (préférence de l'utilisateur par défaut)
+   * @returns Page d'agents
+   */
+  async list(userId: string, workspaceId: string, filter?: AgentFilterDto, skip?: number, take?: number): Promise<AgentListDto> {
+    try {
+      await this.assertRight(workspaceId, userId, "get", "agent");
+
+      const search = filter?.search?.trim();
+      const where: Prisma.agentWhereInput = {
+        agent_type: filter?.agent_type || undefined,
+        status: filter?.status || undefined,
+        agent_name_code: filter?.agent_name_code?.trim() || undefined,
+        ...(search ? { OR: [{ display_name: { contains: search, mode: "insensitive" } }, { agent_name_code: { contains: search, mode: "insensitive" } }] } : {}),
+      };
+      const offset = skip ?? 0;
+      const limit = await resolveTake(this.prisma, userId, take, 25);
+
+      const [rows, total] = await Promise.all([
+        this.prisma.agent.findMany({ where, select: AgentDtoSelect, orderBy: [{ agent_name_code: "asc" }, { version: "desc" }], skip: offset, take: limit }),
+        this.prisma.agent.count({ where }),
+      ]);
+
+      return BasePaginationDto.create(
+        rows.map(row => this.toAgentDto(row)),
+        total,
+        offset,
+        limit,
+        AgentListDto,
+      );
+    } catch (error) {
+      throw await this.handleError(error, "agents.list", { userId, workspaceId, filter }, "Unable to list agents");
+    }
+  }
+
+  /**
+   * Récupère une version d'agent avec ses prompts SYSTEM et les surcharges du workspace
+   *
+   * @param id ID de la version
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @returns L'agent
+   */
+  async getById(id: number, userId: string, workspaceId: string): Promise<AgentDto> {
+    try {
+      await this.assertRight(workspaceId, userId, "get", "agent");
+      return await this.loadAgent(await this.findAgent(id), workspaceId);
+    } catch (error) {
+      throw await this.handleError(error, "agents.getById", { id, userId, workspaceId }, "Unable to get the agent");
+    }
+  }
+
+  /**
+   * Modifie une version DRAFT ou fait avancer son statut
+   * La publication (DRAFT → ACTIVE) déprécie la version active précédente et active les prompts SYSTEM en brouillon
+   *
+   * @param id ID de la version
+   * @param dto Nom, description (DRAFT uniquement) et statut suivant
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace d'où l'action est faite (journal d'activité)
+   * @returns L'agent modifié
+   */
+  async update(id: number, dto: UpdateAgentDto, userId: string, workspaceId: string): Promise<AgentDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "agents.update",
+      message: `Updating agent ${id}`,
+      data: { id, userId, workspaceId, dto },
+    });
+
+    if (dto?.display_name !== undefined && !dto.display_name.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Agent display name cannot be empty" });
+    }
+    if (dto?.status && !Object.values(AgentStatus).includes(dto.status)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid agent status "${dto.status}"` });
+    }
+    const retrieval = dto?.retrieval ? this.toRetrievalData(dto.retrieval) : undefined;
+
+    try {
+      await this.assertSuperAdmin(userId);
+      const agent = await this.findAgent(id);
+      const before = this.toAgentDto(agent);
+
+      if ((dto.display_name !== undefined || dto.description !== undefined || retrieval) && agent.status !== AgentStatus.DRAFT) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} is published and immutable; create a new version` });
+      }
+      const nextStatus = dto.status && dto.status !== agent.status ? dto.status : undefined;
+      if (nextStatus && AGENT_STATUS_TRANSITIONS[agent.status as AgentStatus] !== nextStatus) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent status ${agent.status} -> ${nextStatus} is not allowed` });
+      }
+      const publishing = nextStatus === AgentStatus.ACTIVE;
+      if (publishing) {
+        const systemPrompts = await this.prisma.prompt.count({
+          where: { agent_id: agent.id, workspace_id: null, status: { not: PromptStatus.ARCHIVED } },
+        });
+        if (systemPrompts === 0) {
+          throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} has no SYSTEM prompt to publish` });
+        }
+      }
+
+      const now = new Date();
+      const updated = await this.prisma.$transaction(async tx => {
+        if (publishing) {
+          await tx.agent.updateMany({
+            where: { agent_name_code: agent.agent_name_code, status: AgentStatus.ACTIVE, id: { not: agent.id } },
+            data: { status: AgentStatus.DEPRECATED, updated_at: now },
+          });
+          await tx.prompt.updateMany({
+            where: { agent_id: agent.id, workspace_id: null, status: PromptStatus.DRAFT },
+            data: { status: PromptStatus.ACTIVE, updated_at: now },
+          });
+        }
+        return tx.agent.update({
+          where: { id: agent.id },
+          data: {
+            display_name: dto.display_name?.trim(),
+            description: dto.description !== undefined ? dto.description.trim() || null : undefined,
+            status: nextStatus,
+            published_at: publishing ? now : undefined,
+            ...retrieval,
+            updated_at: now,
+          },
+          select: AgentDtoSelect,
+        });
+      });
+      const result = await this.loadAgent(updated, workspaceId);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.update",
+        message: nextStatus ? `Agent ${agent.agent_name_code} v${agent.version}: ${agent.status} -> ${nextStatus}` : `Agent ${agent.agent_name_code} v${agent.version} updated`,
+        data: { id, userId, workspaceId },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: nextStatus === AgentStatus.ARCHIVED ? ActivityAction.ARCHIVED : ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.AGENT,
+        entity_id: result.id,
+        workspace_id: workspaceId,
+        before,
+        after: this.toAgentDto(updated),
+      });
+
+      return result;
+    } catch (error) {
+      throw await this.handleError(error, "agents.update", { id, userId, workspaceId }, "Unable to update the agent");
+    }
+  }
+
+  /**
+   * Supprime une version DRAFT et ses prompts ; les versions publiées sont archivées, jamais supprimées
+   *
+   * @param id ID de la version
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace d'où l'action est faite (journal d'activité)
+   * @returns Succès de la suppression
+   */
+  async delete(id: number, userId: string, workspaceId: string): Promise<{ success: boolean }> {
+    try {
+      await this.assertSuperAdmin(userId);
+      const agent = await this.findAgent(id);
+      if (agent.status !== AgentStatus.DRAFT) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Only DRAFT versions can be deleted; archive ${agent.agent_name_code} v${agent.version} instead` });
+      }
+      const usage = await this.prisma.model_usage.count({ where: { agent_id: agent.id } });
+      if (usage > 0) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} has recorded usage and cannot be deleted` });
+      }
+
+      await this.prisma.$transaction([this.prisma.prompt.deleteMany({ where: { agent_id: agent.id } }), this.prisma.agent.delete({ where: { id: agent.id } })]);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.delete",
+        message: `Agent ${agent.agent_name_code} v${agent.version} deleted`,
+        data: { id, userId, workspaceId },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.AGENT,
+        entity_id: Number(agent.id),
+        workspace_id: workspaceId,
+        before: this.toAgentDto(agent),
+      });
+
+      return { success: true };
+    } catch (error) {
+      throw await this.handleError(error, "agents.delete", { id, userId, workspaceId }, "Unable to delete the agent");
+    }
+  }
+
+  /**
+   * Crée la version suivante (DRAFT) d'un agent en copiant une de ses versions et ses prompts
+   * Un agent n'a qu'une version DRAFT à la fois
+   *
+   * @param id ID de la version source
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace d'où l'action est faite (journal d'activité)
+   * @returns La nouvelle version
+   */
+  async createVersion(id: number, userId: string, workspaceId: string): Promise<AgentDto> {
+    try {
+      await this.assertSuperAdmin(userId);
+      const source = await this.findAgent(id);
+
+      const draft = await this.prisma.agent.findFirst({
+        where: { agent_name_code: source.agent_name_code, status: AgentStatus.DRAFT },
+        select: { version: true },
+      });
+      if (draft) {
+        throw new RpcException({ code: status.ALREADY_EXISTS, message: `Agent ${source.agent_name_code} already has a DRAFT version (v${draft.version})` });
+      }
+      const latest = await this.prisma.agent.aggregate({ where: { agent_name_code: source.agent_name_code }, _max: { version: true } });
+      const prompts = await this.prisma.prompt.findMany({
+        where: { agent_id: source.id, status: { not: PromptStatus.ARCHIVED } },
+        select: AgentPromptDtoSelect,
+      });
+
+      const created = await this.prisma.$transaction(async tx => {
+        const agent = await tx.agent.create({
+          data: {
+            agent_name_code: source.agent_name_code,
+            version: (latest._max.version ?? source.version) + 1,
+            display_name: source.display_name,
+            description: source.description,
+            agent_type: source.agent_type,
+            status: AgentStatus.DRAFT,
+            retrieval_top_k: source.retrieval_top_k,
+            retrieval_min_score: source.retrieval_min_score,
+            retrieval_document_types: source.retrieval_document_types,
+          },
+          select: AgentDtoSelect,
+        });
+        if (prompts.length > 0) {
+          await tx.prompt.createMany({
+            data: prompts.map(prompt => ({
+              agent_id: agent.id,
+              prompt_code: prompt.prompt_code,
+              version: prompt.version,
+              creator_type: prompt.creator_type,
+              part_type: prompt.part_type,
+              role_type: prompt.role_type,
+              content: prompt.content,
+              description: prompt.description,
+              status: prompt.workspace_id ? prompt.status : PromptStatus.DRAFT,
+              updatable: prompt.updatable,
+              workspace_id: prompt.workspace_id,
+            })),
+          });
+        }
+        return agent;
+      });
+      const result = await this.loadAgent(created, workspaceId);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.createVersion",
+        message: `Agent ${created.agent_name_code} v${created.version} created from v${source.version}`,
+        data: { id, newId: result.id, userId, workspaceId, prompts: prompts.length },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.COPIED,
+        entity_type: ActivityEntityType.AGENT,
+        entity_id: result.id,
+        workspace_id: workspaceId,
+        after: this.toAgentDto(created),
+        metadata: { source_agent_id: Number(source.id), source_version: source.version },
+      });
+
+      return result;
+    } catch (error) {
+      throw await this.handleError(error, "agents.createVersion", { id, userId, workspaceId }, "Unable to create a new agent version");
+    }
+  }
+
+  /**
+   * Prompts d'une version : prompts SYSTEM et surcharges du workspace, par partie
+   *
+   * @param agentId ID de la version
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @param roleType Rôle (facultatif)
+   * @returns Liste des prompts
+   */
+  async listPrompts(agentId: number, userId: string, workspaceId: string, roleType?: PromptRoleType): Promise<AgentPromptListDto> {
+    if (roleType && !Object.values(PromptRoleType).includes(roleType)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt role "${roleType}"` });
+    }
+
+    try {
+      await this.assertRight(workspaceId, userId, "get", "prompt");
+      const agent = await this.findAgent(agentId);
+
+      const rows = await this.prisma.prompt.findMany({
+        where: { agent_id: agent.id, role_type: roleType || undefined, OR: [{ workspace_id: null }, { workspace_id: workspaceId }] },
+        select: AgentPromptDtoSelect,
+        orderBy: [{ part_type: "asc" }, { role_type: "asc" }, { id: "asc" }],
+      });
+
+      return BasePaginationDto.create(
+        rows.map(row => this.toPromptDto(row)),
+        rows.length,
+        0,
+        rows.length,
+        AgentPromptListDto,
+      );
+    } catch (error) {
+      throw await this.handleError(error, "agents.listPrompts", { agentId, userId, workspaceId }, "Unable to list agent prompts");
+    }
+  }
+
+  /**
+   * Ajoute un prompt à une version d'agent
+   * - SYSTEM : partie de la définition de l'agent, sur une version DRAFT uniquement (droit de modification de l'agent)
+   * - USER : surcharge, pour le workspace, d'un prompt SYSTEM `updatable` de même partie et de même rôle
+   *
+   * @param agentId ID de la version
+   * @param dto Partie, rôle, contenu et origine du prompt
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @returns Le prompt créé
+   */
+  async createPrompt(agentId: number, dto: CreateAgentPromptDto, userId: string, workspaceId: string): Promise<AgentPromptDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "agents.createPrompt",
+      message: `Creating ${dto?.creator_type || PromptCreatorType.USER} prompt for agent ${agentId}`,
+      data: { agentId, userId, workspaceId, partType: dto?.part_type, roleType: dto?.role_type },
+    });
+
+    if (!Object.values(PromptPartType).includes(dto?.part_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt part "${dto?.part_type}"` });
+    }
+    if (!dto.role_type || !Object.values(PromptRoleType).includes(dto.role_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A valid prompt role is required" });
+    }
+    if (!dto.content?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Prompt content is required" });
+    }
+    const creatorType = dto.creator_type || PromptCreatorType.USER;
+    if (!Object.values(PromptCreatorType).includes(creatorType)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt creator "${creatorType}"` });
+    }
+    this.assertPromptStatus(dto.status);
+
+    try {
+      const agent = await this.findAgent(agentId);
+      let data: Prisma.promptUncheckedCreateInput;
+
+      if (creatorType === PromptCreatorType.SYSTEM) {
+        if (dto.workspace_id) {
+          throw new RpcException({ code: status.INVALID_ARGUMENT, message: "SYSTEM prompts are shared by all workspaces and cannot target one" });
+        }
+        await this.assertSuperAdmin(userId);
+        this.assertDraft(agent);
+
+        const code = this.toPromptCode(dto.part_type, dto.role_type);
+        await this.assertSystemPromptAvailable(agent.id, code);
+        data = {
+          agent_id: agent.id,
+          prompt_code: code,
+          creator_type: PromptCreatorType.SYSTEM,
+          part_type: dto.part_type,
+          role_type: dto.role_type,
+          content: dto.content.trim(),
+          description: dto.description?.trim() || null,
+          status: dto.status || PromptStatus.DRAFT,
+          updatable: dto.updatable ?? false,
+          workspace_id: null,
+        };
+      } else {
+        if (dto.workspace_id && dto.workspace_id !== workspaceId) {
+          throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Prompt overrides can only target the current workspace" });
+        }
+        await this.assertRight(workspaceId, userId, "create", "prompt");
+        if (agent.status === AgentStatus.ARCHIVED) {
+          throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} is archived` });
+        }
+
+        const base = await this.prisma.prompt.findFirst({
+          where: { agent_id: agent.id, workspace_id: null, part_type: dto.part_type, role_type: dto.role_type, status: { not: PromptStatus.ARCHIVED } },
+          select: { prompt_code: true, updatable: true },
+        });
+        if (!base) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Agent ${agent.agent_name_code} has no ${dto.part_type}/${dto.role_type} SYSTEM prompt to override` });
+        }
+        if (!base.updatable) {
+          throw new RpcException({ code: status.FAILED_PRECONDITION, message: `SYSTEM prompt ${base.prompt_code} cannot be overridden` });
+        }
+        const existing = await this.prisma.prompt.findFirst({
+          where: { agent_id: agent.id, workspace_id: workspaceId, prompt_code: base.prompt_code, status: { not: PromptStatus.ARCHIVED } },
+          select: { id: true },
+        });
+        if (existing) {
+          throw new RpcException({ code: status.ALREADY_EXISTS, message: `Prompt ${base.prompt_code} is already overridden in this workspace (prompt ${existing.id})` });
+        }
+        data = {
+          agent_id: agent.id,
+          prompt_code: base.prompt_code,
+          creator_type: PromptCreatorType.USER,
+          part_type: dto.part_type,
+          role_type: dto.role_type,
+          content: dto.content.trim(),
+          description: dto.description?.trim() || null,
+          status: dto.status || PromptStatus.DRAFT,
+          updatable: false,
+          workspace_id: workspaceId,
+        };
+      }
+
+      const created = await this.prisma.prompt.create({ data, select: AgentPromptDtoSelect });
+      const prompt = this.toPromptDto(created);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.createPrompt",
+        message: `${creatorType} prompt ${prompt.prompt_code} created for agent ${agent.agent_name_code} v${agent.version}`,
+        data: { promptId: prompt.id, agentId, userId, workspaceId },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.PROMPT,
+        entity_id: prompt.id,
+        workspace_id: workspaceId,
+        after: prompt,
+      });
+
+      return prompt;
+    } catch (error) {
+      throw await this.handleError(error, "agents.createPrompt", { agentId, userId, workspaceId }, "Unable to create the prompt");
+    }
+  }
+
+  /**
+   * Modifie un prompt SYSTEM d'une version DRAFT, ou une surcharge du workspace
+   * Une surcharge garde la partie et le rôle du prompt qu'elle remplace ; tout changement de contenu incrémente sa version
+   *
+   * @param id ID du prompt
+   * @param dto Modifications
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @returns Le prompt modifié
+   */
+  async updatePrompt(id: number, dto: UpdateAgentPromptDto, userId: string, workspaceId: string): Promise<AgentPromptDto> {
+    if (dto?.part_type && !Object.values(PromptPartType).includes(dto.part_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt part "${dto.part_type}"` });
+    }
+    if (dto?.role_type && !Object.values(PromptRoleType).includes(dto.role_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt role "${dto.role_type}"` });
+    }
+    if (dto?.content !== undefined && !dto.content.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Prompt content cannot be empty" });
+    }
+    this.assertPromptStatus(dto?.status);
+
+    try {
+      const prompt = await this.findPrompt(id, workspaceId);
+      const partType = dto.part_type || prompt.part_type;
+      const roleType = dto.role_type || prompt.role_type;
+      let promptCode = prompt.prompt_code;
+
+      if (prompt.workspace_id === null) {
+        if (dto.workspace_id) {
+          throw new RpcException({ code: status.INVALID_ARGUMENT, message: "SYSTEM prompts are shared by all workspaces and cannot target one" });
+        }
+        await this.assertSuperAdmin(userId);
+        this.assertDraft(await this.findAgent(Number(prompt.agent_id)));
+        promptCode = this.toPromptCode(partType as PromptPartType, roleType as PromptRoleType);
+        if (promptCode !== prompt.prompt_code) {
+          await this.assertSystemPromptAvailable(prompt.agent_id, promptCode);
+        }
+      } else {
+        if (partType !== prompt.part_type || roleType !== prompt.role_type || (dto.workspace_id && dto.workspace_id !== prompt.workspace_id)) {
+          throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A prompt override keeps the part, role and workspace of the SYSTEM prompt it replaces" });
+        }
+        await this.assertRight(workspaceId, userId, "update", "prompt");
+      }
+
+      const content = dto.content?.trim();
+      const updated = await this.prisma.prompt.update({
+        where: { id: prompt.id },
+        data: {
+          prompt_code: promptCode,
+          part_type: partType,
+          role_type: roleType,
+          content,
+          description: dto.description !== undefined ? dto.description.trim() || null : undefined,
+          status: dto.status || undefined,
+          version: content !== undefined && content !== prompt.content ? { increment: 1 } : undefined,
+          updated_at: new Date(),
+        },
+        select: AgentPromptDtoSelect,
+      });
+      const result = this.toPromptDto(updated);
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.updatePrompt",
+        message: `Prompt ${result.prompt_code} (${id}) updated to v${result.version}`,
+        data: { id, userId, workspaceId },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.PROMPT,
+        entity_id: result.id,
+        workspace_id: workspaceId,
+        before: this.toPromptDto(prompt),
+        after: result,
+      });
+
+      return result;
+    } catch (error) {
+      throw await this.handleError(error, "agents.updatePrompt", { id, userId, workspaceId }, "Unable to update the prompt");
+    }
+  }
+
+  /**
+   * Supprime une surcharge du workspace, ou un prompt SYSTEM d'une version DRAFT avec ses surcharges
+   *
+   * @param id ID du prompt
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace portant les droits
+   * @returns Succès de la suppression
+   */
+  async deletePrompt(id: number, userId: string, workspaceId: string): Promise<{ success: boolean }> {
+    try {
+      const prompt = await this.findPrompt(id, workspaceId);
+
+      if (prompt.workspace_id === null) {
+        await this.assertSuperAdmin(userId);
+        this.assertDraft(await this.findAgent(Number(prompt.agent_id)));
+        await this.prisma.prompt.deleteMany({ where: { agent_id: prompt.agent_id, prompt_code: prompt.prompt_code } });
+      } else {
+        await this.assertRight(workspaceId, userId, "delete", "prompt");
+        await this.prisma.prompt.delete({ where: { id: prompt.id } });
+      }
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "agents.deletePrompt",
+        message: `Prompt ${prompt.prompt_code} (${id}) deleted`,
+        data: { id, userId, workspaceId, override: prompt.workspace_id !== null },
+      });
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.PROMPT,
+        entity_id: Number(prompt.id),
+        workspace_id: workspaceId,
+        before: this.toPromptDto(prompt),
+      });
+
+      return { success: true };
+    } catch (error) {
+      throw await this.handleError(error, "agents.deletePrompt", { id, userId, workspaceId }, "Unable to delete the prompt");
+    }
+  }
+
+  /**
+   * Assemble le prompt d'un agent pour un rôle et un workspace
+   * Les prompts CREATION_UPDATE servent aux rôles CREATION et UPDATE ; chaque prompt SYSTEM `updatable` est
+   * remplacé par la surcharge active du workspace si elle existe. Une version DRAFT est assemblée avec ses
+   * prompts en brouillon (aperçu), une version publiée avec ses prompts actifs uniquement.
+   *
+   * @param dto Agent (ID, ou code pour la version active) et rôle
+   * @param userId ID de l'utilisateur
+   * @param workspaceId ID du workspace
+   * @returns Parties du prompt dans l'ordre de `PromptPartType` et contenu assemblé
+   */
+  async compose(dto: ComposeAgentPromptDto, userId: string, workspaceId: string): Promise<ComposedPromptDto> {
+    if (!dto?.role_type || !Object.values(PromptRoleType).includes(dto.role_type)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A valid prompt role is required" });
+    }
+    if (!dto.agent_id && !dto.agent_name_code?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Agent ID or agent code is required" });
+    }
+
+    try {
+      await this.assertRight(workspaceId, userId, "get", "agent");
+
+      let agent: AgentRow;
+      if (dto.agent_id) {
+        agent = await this.findAgent(dto.agent_id);
+      } else {
+        const code = dto.agent_name_code!.trim();
+        const active = await this.prisma.agent.findFirst({ where: { agent_name_code: code, status: AgentStatus.ACTIVE }, select: AgentDtoSelect });
+        if (!active) {
+          throw new RpcException({ code: status.NOT_FOUND, message: `Agent ${code} has no ACTIVE version` });
+        }
+        agent = active;
+      }
+      if (agent.status === AgentStatus.ARCHIVED) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} is archived` });
+      }
+
+      const roles = dto.role_type === PromptRoleType.CREATION || dto.role_type === PromptRoleType.UPDATE ? [PromptRoleType.CREATION_UPDATE, dto.role_type] : [dto.role_type];
+      const statuses = agent.status === AgentStatus.DRAFT ? [PromptStatus.DRAFT, PromptStatus.ACTIVE] : [PromptStatus.ACTIVE];
+      const rows = await this.prisma.prompt.findMany({
+        where: { agent_id: agent.id, role_type: { in: roles }, status: { in: statuses }, OR: [{ workspace_id: null }, { workspace_id: workspaceId }] },
+        select: AgentPromptDtoSelect,
+        orderBy: { id: "asc" },
+      });
+
+      const overrides = new Map(rows.filter(row => row.workspace_id !== null).map(row => [row.prompt_code, row]));
+      const parts: ComposedPromptPartDto[] = rows
+        .filter(row => row.workspace_id === null)
+        .map(row => (row.updatable ? (overrides.get(row.prompt_code) ?? row) : row))
+        .sort(
+          (a, b) =>
+            PROMPT_PART_ORDER.indexOf(a.part_type as PromptPartType) - PROMPT_PART_ORDER.indexOf(b.part_type as PromptPartType) ||
+            roles.indexOf(a.role_type as PromptRoleType) - roles.indexOf(b.role_type as PromptRoleType),
+        )
+        .map(row => ({
+          part_type: row.part_type as PromptPartType,
+          role_type: row.role_type as PromptRoleType,
+          prompt_id: Number(row.id),
+          prompt_code: row.prompt_code,
+          version: row.version,
+          source: row.creator_type as PromptCreatorType,
+          content: row.content,
+        }));
+
+      await this.loggerClient.log({
+        level: "debug",
+        service: "workspace",
+        func: "agents.compose",
+        message: `Composed ${parts.length} prompt parts for agent ${agent.agent_name_code} v${agent.version} (${dto.role_type})`,
+        data: { agentId: Number(agent.id), workspaceId, userId, overrides: parts.filter(part => part.source === PromptCreatorType.USER).length },
+      });
+
+      return {
+        agent_id: Number(agent.id),
+        agent_name_code: agent.agent_name_code,
+        version: agent.version,
+        role_type: dto.role_type,
+        workspace_id: workspaceId,
+        parts,
+        content: parts.map(part => part.content).join("\n\n"),
+        retrieval: this.toRetrievalDto(agent),
+      };
+    } catch (error) {
+      throw await this.handleError(error, "agents.compose", { dto, userId, workspaceId }, "Unable to compose the agent prompt");
+    }
+  }
+
+  private async assertRight(workspaceId: string, userId: string, action: "create" | "get" | "update" | "delete", resource: "agent" | "prompt"): Promise<void> {
+    if (!workspaceId?.trim() || !userId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Workspace ID and user ID are required" });
+    }
+    const allowed = await this.workspaceMembersService.hasRight(workspaceId, userId, action, resource);
+    if (!allowed) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: `You don't have permission to ${action} ${resource}s in this workspace` });
+    }
+  }
+
+  /**
+   * Les agents et leurs prompts SYSTEM sont partagés par tous les workspaces : leur cycle de vie n'est ouvert
+   * qu'à un SUPER_ADMIN actif, quel que soit le rôle de l'utilisateur dans le workspace courant
+   */
+  private async assertSuperAdmin(userId: string): Promise<void> {
+    if (!userId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "User ID is required" });
+    }
+    const membership = await this.prisma.workspace_members.findFirst({
+      where: { user_id: userId, role: UserRole.SUPER_ADMIN, is_active: true },
+      select: { id: true },
+    });
+    if (!membership) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "Only super administrators can manage agents and their SYSTEM prompts" });
+    }
+  }
+
+  private async findAgent(id: number): Promise<AgentRow> {
+    if (!Number.isInteger(Number(id)) || Number(id) <= 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A valid agent ID is required" });
+    }
+    const agent = await this.prisma.agent.findUnique({ where: { id: BigInt(id) }, select: AgentDtoSelect });
+    if (!agent) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Agent ${id} not found` });
+    }
+    return agent;
+  }
+
+  /** Prompt SYSTEM ou surcharge du workspace ; les surcharges des autres workspaces sont introuvables */
+  private async findPrompt(id: number, workspaceId: string): Promise<PromptRow> {
+    if (!Number.isInteger(Number(id)) || Number(id) <= 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "A valid prompt ID is required" });
+    }
+    const prompt = await this.prisma.prompt.findFirst({
+      where: { id: BigInt(id), OR: [{ workspace_id: null }, { workspace_id: workspaceId }] },
+      select: AgentPromptDtoSelect,
+    });
+    if (!prompt) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Prompt ${id} not found` });
+    }
+    return prompt;
+  }
+
+  private async loadAgent(agent: AgentRow, workspaceId: string): Promise<AgentDto> {
+    const prompts = await this.prisma.prompt.findMany({
+      where: { agent_id: agent.id, OR: [{ workspace_id: null }, { workspace_id: workspaceId }] },
+      select: { id: true, prompt_code: true, part_type: true, role_type: true, status: true },
+      orderBy: [{ part_type: "asc" }, { role_type: "asc" }, { id: "asc" }],
+    });
+    return this.toAgentDto(agent, prompts);
+  }
+
+  private assertDraft(agent: AgentRow): void {
+    if (agent.status !== AgentStatus.DRAFT) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: `Agent ${agent.agent_name_code} v${agent.version} is published and immutable; create a new version` });
+    }
+  }
+
+  private assertPromptStatus(value?: PromptStatus): void {
+    if (value && !Object.values(PromptStatus).includes(value)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid prompt status "${value}"` });
+    }
+  }
+
+  /** Un seul prompt SYSTEM par partie et par rôle dans une version */
+  private async assertSystemPromptAvailable(agentId: bigint, promptCode: string): Promise<void> {
+    const existing = await this.prisma.prompt.findFirst({
+      where: { agent_id: agentId, workspace_id: null, prompt_code: promptCode, status: { not: PromptStatus.ARCHIVED } },
+      select: { id: true },
+    });
+    if (existing) {
+      throw new RpcException({ code: status.ALREADY_EXISTS, message: `SYSTEM prompt ${promptCode} already exists for this agent version (prompt ${existing.id})` });
+    }
+  }
+
+  /** Colonnes retrieval_* d'une création ou d'une mise à jour ; seuls les champs fournis sont renseignés */
+  private toRetrievalData(dto?: AgentRetrievalDto): { retrieval_top_k?: number; retrieval_min_score?: number; retrieval_document_types?: string[] } {
+    if (!dto) return {};
+    if (dto.top_k != null && (!Number.isInteger(dto.top_k) || dto.top_k < 0 || dto.top_k > AGENT_RETRIEVAL_MAX_TOP_K)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Retrieval top_k must be an integer between 0 and ${AGENT_RETRIEVAL_MAX_TOP_K}` });
+    }
+    if (dto.min_score != null && (Number.isNaN(dto.min_score) || dto.min_score < 0 || dto.min_score > 1)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Retrieval min_score must be between 0 and 1" });
+    }
+    const invalid = (dto.document_types ?? []).filter(type => !AGENT_RETRIEVAL_DOCUMENT_TYPES.includes(type));
+    if (invalid.length > 0) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Invalid retrieval document types: ${invalid.join(", ")}` });
+    }
+    return {
+      retrieval_top_k: dto.top_k ?? undefined,
+      retrieval_min_score: dto.min_score ?? undefined,
+      retrieval_document_types: dto.document_types ? [...new Set(dto.document_types)] : undefined,
+    };
+  }
+
+  private toRetrievalDto(agent: AgentRow): Required<AgentRetrievalDto> {
+    return {
+      top_k: agent.retrieval_top_k,
+      min_score: agent.retrieval_min_score,
+      document_types: agent.retrieval_document_types as Required<AgentRetrievalDto>["document_types"],
+    };
+  }
+
+  private toNameCode(displayName: string): string {
+    const code = displayName
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toUpperCase()
+      .replace(/[^A-Z0-9]+/g, "_")
+      .replace(/^_+|_+$/g, "");
+    return (/^[A-Z]/.test(code) ? code : `AGENT_${code}`).slice(0, 50);
+  }
+
+  private toPromptCode(partType: PromptPartType, roleType: PromptRoleType): string {
+    return `${partType}_${roleType}`;
+  }
+
+  private async handleError(error: unknown, func: string, data: Record<string, unknown>, message: string): Promise<RpcException> {
+    if (error instanceof RpcException) {
+      return error;
+    }
+    await this.loggerClient.log({
+      level: "error",
+      service: "workspace",
+      func,
+      message: `${message}: ${error instanceof Error ? error.message : String(error)}`,
+      data,
+    });
+    return new RpcException({ code: status.INTERNAL, message: `${message}. Please try again.` });
+  }
+
+  private toAgentDto(agent: AgentRow, prompts?: { id: bigint; prompt_code: string; part_type: string; role_type: string; status: string }[]): AgentDto {
+    return {
+      id: Number(agent.id),
+      agent_name_code: agent.agent_name_code,
+      version: agent.version,
+      display_name: agent.display_name,
+      description: agent.description ?? undefined,
+      agent_type: agent.agent_type as AgentType,
+      status: agent.status as AgentStatus,
+      published_at: agent.published_at?.toISOString(),
+      created_at: agent.created_at.toISOString(),
+      updated_at: agent.updated_at.toISOString(),
+      retrieval: this.toRetrievalDto(agent),
+      prompts: prompts?.map(prompt => ({
+        id: Number(prompt.id),
+        prompt_code: prompt.prompt_code,
+        part_type: prompt.part_type as PromptPartType,
+        role_type: prompt.role_type as PromptRoleType,
+        status: prompt.status as PromptStatus,
+      })),
+    };
+  }
+
+  private toPromptDto(prompt: PromptRow): AgentPromptDto {
+    return {
+      id: Number(prompt.id),
+      agent_id: Number(prompt.agent_id),
+      prompt_code: prompt.prompt_code,
+      version: prompt.version,
+      creator_type: prompt.creator_type as PromptCreatorType,
+      part_type: prompt.part_type as PromptPartType,
+      role_type: prompt.role_type as PromptRoleType,
+      content: prompt.content,
+      description: prompt.description ?? undefined,
+      status: prompt.status as PromptStatus,
+      created_at: prompt.created_at.toISOString(),
+      updated_at: prompt.updated_at.toISOString(),
+      updatable: prompt.updatable,
+      workspace_id: prompt.workspace_id ?? undefined,
+    };
+  }
+}
@@ -6,15 +6,32 @@ import { TeamMembersService } from "./team/team-members.service";
 import { WorkspacesService } from "./workspace/workspaces.service";
 import { WorkspaceMembersService } from "./member/workspace-members.service";
 import { WorkspaceMembersController } from "./member/workspace-members.controller";
+import { WorkspaceInvitationsService } from "./invitation/workspace-invitations.service";
+import { WorkspaceInvitationsController } from "./invitation/workspace-invitations.controller";
 import { LoggerClientModule } from "@shared/logger";
 import { PrismaModule } from "@shared/prisma";
 import { TeamsController } from "./team/teams.controller";
 import { LabelService } from "./workspace/label.service";
 import { LabelController } from "./workspace/label.controller";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
+import { APP_INTERCEPTOR } from "@nestjs/core";
+import { GrpcRequestContextInterceptor } from "@shared/utils";
+import { AgentsService } from "./agent/agents.service";
+import { AgentsController } from "./agent/agents.controller";
 
 @Module({
   imports: [LoggerClientModule, PrismaModule],
-  controllers: [HealthController, WorkspacesController, TeamsController, LabelController, WorkspaceMembersController],
-  providers: [WorkspacesService, WorkspaceMembersService, TeamMembersService, TeamsService, LabelService],
+  controllers: [HealthController, WorkspacesController, TeamsController, LabelController, WorkspaceMembersController, WorkspaceInvitationsController, AgentsController],
+  providers: [
+    WorkspacesService,
+    WorkspaceMembersService,
+    WorkspaceInvitationsService,
+    TeamMembersService,
+    TeamsService,
+    LabelService,
+    ActivityLogsService,
+    AgentsService,
+    { provide: APP_INTERCEPTOR, useClass: GrpcRequestContextInterceptor },
+  ],
 })
 export class AppModule {}
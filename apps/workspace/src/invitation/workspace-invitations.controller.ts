@@ -0,0 +1,178 @@
+import { Controller } from "@nestjs/common";
+import { GrpcMethod } from "@nestjs/microservices";
+import { LoggerClientService } from "@shared/logger";
+import { InviteWorkspaceMemberDto, WorkspaceInvitationDto, WorkspaceInvitationsListDto } from "@shared/types";
+import { AcceptedInvitation, WorkspaceInvitationsService } from "./workspace-invitations.service";
+
+@Controller()
+export class WorkspaceInvitationsController {
+  constructor(
+    private readonly invitationsService: WorkspaceInvitationsService,
+    private readonly loggerClient: LoggerClientService,
+  ) {}
+
+  // Invite a user to a workspace
+  @GrpcMethod("WorkspaceInvitations", "Invite")
+  async invite(data: { user_id: string; workspace_id: string; dto: InviteWorkspaceMemberDto }): Promise<WorkspaceInvitationDto> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.invite",
+      message: `gRPC Invite request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    const result = await this.invitationsService.invite(data.workspace_id, data.dto, data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.invite",
+      message: `gRPC Invite response for workspace ${data.workspace_id}`,
+      data: { id: result.id, userId: result.user_id, role: result.role },
+    });
+
+    return result;
+  }
+
+  // List pending invitations of a workspace
+  @GrpcMethod("WorkspaceInvitations", "List")
+  async list(data: { user_id: string; workspace_id: string; include_expired?: boolean }): Promise<WorkspaceInvitationsListDto> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.list",
+      message: `gRPC List invitations request for workspace ${data.workspace_id}`,
+      data,
+    });
+
+    const result = await this.invitationsService.list(data.workspace_id, data.user_id, data.include_expired ?? false);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.list",
+      message: `gRPC List invitations response for workspace ${data.workspace_id}`,
+      data: { total: result.total },
+    });
+
+    return result;
+  }
+
+  // List pending invitations addressed to the current user
+  @GrpcMethod("WorkspaceInvitations", "ListMine")
+  async listMine(data: { user_id: string }): Promise<WorkspaceInvitationsListDto> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.listMine",
+      message: `gRPC ListMine invitations request for user ${data.user_id}`,
+    });
+
+    const result = await this.invitationsService.listMine(data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.listMine",
+      message: `gRPC ListMine invitations response for user ${data.user_id}`,
+      data: { total: result.total },
+    });
+
+    return result;
+  }
+
+  // Revoke a pending invitation
+  @GrpcMethod("WorkspaceInvitations", "Revoke")
+  async revoke(data: { user_id: string; workspace_id: string; id: string }): Promise<{ success: boolean }> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.revoke",
+      message: `gRPC Revoke invitation request ${data.id}`,
+      data,
+    });
+
+    const result = await this.invitationsService.revoke(data.id, data.workspace_id, data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.revoke",
+      message: `gRPC Revoke invitation response ${data.id}`,
+      data: result,
+    });
+
+    return result;
+  }
+
+  // Regenerate the token of an invitation and extend its validity
+  @GrpcMethod("WorkspaceInvitations", "Resend")
+  async resend(data: { user_id: string; workspace_id: string; id: string }): Promise<WorkspaceInvitationDto> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.resend",
+      message: `gRPC Resend invitation request ${data.id}`,
+      data,
+    });
+
+    const result = await this.invitationsService.resend(data.id, data.workspace_id, data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.resend",
+      message: `gRPC Resend invitation response ${data.id}`,
+      data: { id: result.id, expiresAt: result.expires_at },
+    });
+
+    return result;
+  }
+
+  // Accept an invitation (the token is never logged)
+  @GrpcMethod("WorkspaceInvitations", "Accept")
+  async accept(data: { user_id: string; token: string }): Promise<AcceptedInvitation> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.accept",
+      message: `gRPC Accept invitation request for user ${data.user_id}`,
+    });
+
+    const result = await this.invitationsService.accept(data.token, data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.accept",
+      message: `gRPC Accept invitation response for user ${data.user_id}`,
+      data: result,
+    });
+
+    return result;
+  }
+
+  // Decline an invitation (the token is never logged)
+  @GrpcMethod("WorkspaceInvitations", "Decline")
+  async decline(data: { user_id: string; token: string }): Promise<{ success: boolean }> {
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.decline",
+      message: `gRPC Decline invitation request for user ${data.user_id}`,
+    });
+
+    const result = await this.invitationsService.decline(data.token, data.user_id);
+
+    await this.loggerClient.log({
+      level: "info",
+      service: "workspace",
+      func: "workspace-invitations.grpc.decline",
+      message: `gRPC Decline invitation response for user ${data.user_id}`,
+      data: result,
+    });
+
+    return result;
+  }
+}
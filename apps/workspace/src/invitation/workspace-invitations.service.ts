@@ -0,0 +1,646 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from "@nestjs/common";
+import { RpcException } from "@nestjs/microservices";
+import { status } from "@grpc/grpc-js";
+import { Prisma, UserRole } from "@prisma/client";
+import { randomBytes } from "node:crypto";
+import { PrismaService } from "@shared/prisma";
+import { LoggerClientService } from "@shared/logger";
+import {
+  ActivityAction,
+  ActivityEntityType,
+  InviteWorkspaceMemberDto,
+  WorkspaceInvitationDto,
+  WorkspaceInvitationDtoSelect,
+  WorkspaceInvitationsListDto,
+  WorkspaceRole,
+} from "@shared/types";
+import { plainToInstance } from "class-transformer";
+import { WorkspaceMembersService } from "../member/workspace-members.service";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
+
+/** Durée de validité d'une invitation (identique au défaut de la colonne expires_at) */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Intervalle par défaut entre deux purges des invitations expirées */
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+/** Rôles qui ne peuvent pas être attribués par invitation */
+const NON_INVITABLE_ROLES: WorkspaceRole[] = [WorkspaceRole.WORKSPACE_OWNER, WorkspaceRole.SUPER_ADMIN];
+
+const InvitationWithTokenSelect = { ...WorkspaceInvitationDtoSelect, token: true } as const;
+
+type InvitationRow = Prisma.workspace_invitationsGetPayload<{ select: typeof WorkspaceInvitationDtoSelect }> & { token?: string };
+
+export interface AcceptedInvitation {
+  workspace_id: string;
+  member_id: string;
+  role: WorkspaceRole;
+}
+
+/**
+ * Service de gestion des invitations de workspace
+ *
+ * Ce service gère le cycle de vie des invitations :
+ * - invite: Invitation d'un utilisateur avec le rôle qu'il obtiendra
+ * - list: Liste des invitations en attente d'un workspace
+ * - listMine: Liste des invitations en attente de l'utilisateur courant
+ * - revoke: Annulation d'une invitation en attente
+ * - resend: Régénération du token et prolongation de la validité
+ * - accept: Acceptation d'une invitation (création du membre)
+ * - decline: Refus d'une invitation
+ * - expireStaleInvitations: Purge périodique des invitations expirées
+ *
+ * @author Bibz Project
+ * @version 1.0.0
+ */
+@Injectable()
+export class WorkspaceInvitationsService implements OnModuleInit, OnModuleDestroy {
+  private sweepInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly loggerClient: LoggerClientService,
+    private readonly membersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
+  ) {}
+
+  onModuleInit() {
+    this.startExpirationSweep();
+  }
+
+  onModuleDestroy() {
+    if (this.sweepInterval) {
+      clearInterval(this.sweepInterval);
+      this.sweepInterval = null;
+    }
+  }
+
+  /**
+   * Invite un utilisateur dans un workspace.
+   * Une seule invitation en attente est autorisée par utilisateur et par workspace.
+   *
+   * @param workspaceId ID du workspace
+   * @param dto DTO contenant l'utilisateur invité et son futur rôle
+   * @param invitedBy ID de l'utilisateur qui invite
+   * @returns L'invitation créée, token inclus
+   * @throws PERMISSION_DENIED si l'utilisateur n'a pas le droit d'ajouter des membres
+   * @throws NOT_FOUND si le workspace ou l'utilisateur invité n'existe pas
+   * @throws ALREADY_EXISTS si l'utilisateur est déjà membre ou déjà invité
+   */
+  async invite(workspaceId: string, dto: InviteWorkspaceMemberDto, invitedBy: string): Promise<WorkspaceInvitationDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "workspace-invitations.invite",
+      message: `Inviting user to workspace: ${workspaceId}`,
+      data: { workspaceId, dto, invitedBy },
+    });
+
+    const hasPermission = await this.membersService.hasRight(workspaceId, invitedBy, "create", "member");
+    if (!hasPermission) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to invite members to this workspace" });
+    }
+
+    if (!dto?.userId?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "User ID is required" });
+    }
+
+    const role = dto.role ?? WorkspaceRole.VIEWER;
+    if (NON_INVITABLE_ROLES.includes(role)) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: `Role "${role}" cannot be granted through an invitation` });
+    }
+
+    try {
+      const workspace = await this.prisma.workspaces.findUnique({
+        where: { id: workspaceId },
+        select: { id: true },
+      });
+
+      if (!workspace) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `Workspace with ID "${workspaceId}" not found` });
+      }
+
+      const user = await this.prisma.profiles.findUnique({
+        where: { user_id: dto.userId },
+        select: { user_id: true },
+      });
+
+      if (!user) {
+        throw new RpcException({ code: status.NOT_FOUND, message: `User with ID "${dto.userId}" not found` });
+      }
+
+      if (await this.membersService.isMember(workspaceId, dto.userId)) {
+        throw new RpcException({ code: status.ALREADY_EXISTS, message: `User "${dto.userId}" is already a member of workspace "${workspaceId}"` });
+      }
+
+      const pending = await this.prisma.workspace_invitations.findFirst({
+        where: { workspace_id: workspaceId, user_id: dto.userId, accepted: false, expires_at: { gt: new Date() } },
+        select: { id: true },
+      });
+
+      if (pending) {
+        throw new RpcException({ code: status.ALREADY_EXISTS, message: `User "${dto.userId}" already has a pending invitation (${pending.id}), resend it instead` });
+      }
+
+      const created = await this.prisma.workspace_invitations.create({
+        data: {
+          workspace_id: workspaceId,
+          user_id: dto.userId,
+          invited_by: invitedBy,
+          created_by: invitedBy,
+          role: role as UserRole,
+        },
+        select: InvitationWithTokenSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.invite",
+        message: `Invitation created successfully for workspace: ${workspaceId}`,
+        data: { id: created.id, workspaceId, userId: dto.userId, role: created.role },
+      });
+
+      await this.activityLogs.record({
+        user_id: invitedBy,
+        action: ActivityAction.INVITED,
+        entity_type: ActivityEntityType.INVITATION,
+        entity_uuid: created.id,
+        workspace_id: workspaceId,
+        metadata: { invited_user_id: dto.userId, role: created.role },
+      });
+
+      return this.toDto(created);
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.invite",
+          message: `Failed to invite user to workspace: ${error.message}`,
+          data: { error: error.message, workspaceId, userId: dto.userId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Liste les invitations en attente d'un workspace (tokens exclus)
+   *
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur qui consulte
+   * @param includeExpired Inclure les invitations expirées pas encore purgées
+   * @returns Liste des invitations non acceptées
+   * @throws PERMISSION_DENIED si l'utilisateur ne peut pas consulter les membres
+   */
+  async list(workspaceId: string, userId: string, includeExpired = false): Promise<WorkspaceInvitationsListDto> {
+    const hasPermission = await this.membersService.hasRight(workspaceId, userId, "get", "member");
+    if (!hasPermission) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to view the invitations of this workspace" });
+    }
+
+    try {
+      const items = await this.prisma.workspace_invitations.findMany({
+        where: {
+          workspace_id: workspaceId,
+          accepted: false,
+          ...(includeExpired ? {} : { expires_at: { gt: new Date() } }),
+        },
+        select: WorkspaceInvitationDtoSelect,
+        orderBy: { created_at: "desc" },
+      });
+
+      return plainToInstance(
+        WorkspaceInvitationsListDto,
+        { items: items.map(item => this.toPlain(item)), total: items.length, skip: 0, take: items.length },
+        { excludeExtraneousValues: true },
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.list",
+          message: `Failed to list workspace invitations: ${error.message}`,
+          data: { error: error.message, workspaceId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Liste les invitations en attente adressées à un utilisateur, tokens inclus
+   *
+   * @param userId ID de l'utilisateur invité
+   * @returns Liste des invitations valides
+   */
+  async listMine(userId: string): Promise<WorkspaceInvitationsListDto> {
+    try {
+      const items = await this.prisma.workspace_invitations.findMany({
+        where: { user_id: userId, accepted: false, expires_at: { gt: new Date() } },
+        select: InvitationWithTokenSelect,
+        orderBy: { created_at: "desc" },
+      });
+
+      return plainToInstance(
+        WorkspaceInvitationsListDto,
+        { items: items.map(item => this.toPlain(item)), total: items.length, skip: 0, take: items.length },
+        { excludeExtraneousValues: true },
+      );
+    } catch (error) {
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.listMine",
+          message: `Failed to list user invitations: ${error.message}`,
+          data: { error: error.message, userId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Révoque une invitation en attente
+   *
+   * @param id ID de l'invitation
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur qui révoque
+   * @returns Résultat de la révocation
+   * @throws NOT_FOUND si l'invitation n'existe pas dans ce workspace
+   * @throws FAILED_PRECONDITION si l'invitation a déjà été acceptée
+   */
+  async revoke(id: string, workspaceId: string, userId: string): Promise<{ success: boolean }> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "workspace-invitations.revoke",
+      message: `Revoking invitation: ${id}`,
+      data: { id, workspaceId, userId },
+    });
+
+    const hasPermission = await this.membersService.hasRight(workspaceId, userId, "create", "member");
+    if (!hasPermission) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to revoke invitations of this workspace" });
+    }
+
+    try {
+      const invitation = await this.getPendingOrThrow(id, workspaceId);
+
+      await this.prisma.workspace_invitations.delete({ where: { id } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.revoke",
+        message: `Invitation revoked successfully: ${id}`,
+        data: { id, workspaceId, invitedUserId: invitation.user_id },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.INVITATION,
+        entity_uuid: id,
+        workspace_id: workspaceId,
+        metadata: { invited_user_id: invitation.user_id },
+      });
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.revoke",
+          message: `Failed to revoke invitation: ${error.message}`,
+          data: { error: error.message, id, workspaceId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Renvoie une invitation : un nouveau token est généré (l'ancien lien devient invalide)
+   * et la validité repart pour 7 jours. Fonctionne aussi sur une invitation expirée non purgée.
+   *
+   * @param id ID de l'invitation
+   * @param workspaceId ID du workspace
+   * @param userId ID de l'utilisateur qui renvoie l'invitation
+   * @returns L'invitation mise à jour, token inclus
+   */
+  async resend(id: string, workspaceId: string, userId: string): Promise<WorkspaceInvitationDto> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "workspace-invitations.resend",
+      message: `Resending invitation: ${id}`,
+      data: { id, workspaceId, userId },
+    });
+
+    const hasPermission = await this.membersService.hasRight(workspaceId, userId, "create", "member");
+    if (!hasPermission) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "You don't have permission to resend invitations of this workspace" });
+    }
+
+    try {
+      await this.getPendingOrThrow(id, workspaceId);
+
+      const updated = await this.prisma.workspace_invitations.update({
+        where: { id },
+        data: {
+          token: randomBytes(32).toString("hex"),
+          expires_at: new Date(Date.now() + INVITATION_TTL_MS),
+        },
+        select: InvitationWithTokenSelect,
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.resend",
+        message: `Invitation resent successfully: ${id}`,
+        data: { id, workspaceId, expiresAt: updated.expires_at },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.INVITED,
+        entity_type: ActivityEntityType.INVITATION,
+        entity_uuid: id,
+        workspace_id: workspaceId,
+        metadata: { invited_user_id: updated.user_id, role: updated.role, resent: true },
+      });
+
+      return this.toDto(updated);
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.resend",
+          message: `Failed to resend invitation: ${error.message}`,
+          data: { error: error.message, id, workspaceId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Accepte une invitation : crée (ou réactive) le membre avec le rôle de l'invitation
+   *
+   * @param token Token de l'invitation
+   * @param userId ID de l'utilisateur courant (doit être l'invité)
+   * @returns Le workspace rejoint, l'ID du membre et son rôle
+   * @throws NOT_FOUND si le token est inconnu
+   * @throws PERMISSION_DENIED si l'invitation est destinée à un autre utilisateur
+   * @throws FAILED_PRECONDITION si l'invitation est déjà acceptée ou expirée
+   */
+  async accept(token: string, userId: string): Promise<AcceptedInvitation> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "workspace-invitations.accept",
+      message: `Accepting invitation for user: ${userId}`,
+      data: { userId },
+    });
+
+    try {
+      const invitation = await this.getRedeemableOrThrow(token, userId);
+
+      if (invitation.expires_at.getTime() <= Date.now()) {
+        throw new RpcException({ code: status.FAILED_PRECONDITION, message: "This invitation has expired" });
+      }
+
+      if (await this.membersService.isMember(invitation.workspace_id, userId)) {
+        throw new RpcException({ code: status.ALREADY_EXISTS, message: `User "${userId}" is already a member of workspace "${invitation.workspace_id}"` });
+      }
+
+      // Un membre désactivé conserve sa ligne (unicité workspace_id/user_id) : on la réactive
+      const member = await this.prisma.$transaction(async tx => {
+        const upserted = await tx.workspace_members.upsert({
+          where: { workspace_id_user_id: { workspace_id: invitation.workspace_id, user_id: userId } },
+          create: {
+            workspace_id: invitation.workspace_id,
+            user_id: userId,
+            role: invitation.role,
+            created_by: invitation.invited_by,
+          },
+          update: {
+            role: invitation.role,
+            is_active: true,
+            updated_by: userId,
+            updated_at: new Date(),
+          },
+          select: { id: true, role: true },
+        });
+
+        await tx.workspace_invitations.update({
+          where: { id: invitation.id },
+          data: { accepted: true, accepted_at: new Date() },
+        });
+
+        return upserted;
+      });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.accept",
+        message: `Invitation accepted successfully: ${invitation.id}`,
+        data: { id: invitation.id, workspaceId: invitation.workspace_id, memberId: member.id, role: member.role },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.ACCEPTED_INVITATION,
+        entity_type: ActivityEntityType.INVITATION,
+        entity_uuid: invitation.id,
+        workspace_id: invitation.workspace_id,
+        metadata: { member_id: member.id, role: member.role },
+      });
+
+      return { workspace_id: invitation.workspace_id, member_id: member.id, role: member.role as WorkspaceRole };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.accept",
+          message: `Failed to accept invitation: ${error.message}`,
+          data: { error: error.message, userId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Refuse une invitation : elle est supprimée, même si elle a expiré
+   *
+   * @param token Token de l'invitation
+   * @param userId ID de l'utilisateur courant (doit être l'invité)
+   * @returns Résultat du refus
+   */
+  async decline(token: string, userId: string): Promise<{ success: boolean }> {
+    await this.loggerClient.log({
+      level: "debug",
+      service: "workspace",
+      func: "workspace-invitations.decline",
+      message: `Declining invitation for user: ${userId}`,
+      data: { userId },
+    });
+
+    try {
+      const invitation = await this.getRedeemableOrThrow(token, userId);
+
+      await this.prisma.workspace_invitations.delete({ where: { id: invitation.id } });
+
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.decline",
+        message: `Invitation declined successfully: ${invitation.id}`,
+        data: { id: invitation.id, workspaceId: invitation.workspace_id },
+      });
+
+      await this.activityLogs.record({
+        user_id: userId,
+        action: ActivityAction.DECLINED_INVITATION,
+        entity_type: ActivityEntityType.INVITATION,
+        entity_uuid: invitation.id,
+        workspace_id: invitation.workspace_id,
+        metadata: { role: invitation.role },
+      });
+
+      return { success: true };
+    } catch (error) {
+      if (error instanceof RpcException) {
+        throw error;
+      }
+      if (error instanceof Error) {
+        await this.loggerClient.log({
+          level: "error",
+          service: "workspace",
+          func: "workspace-invitations.decline",
+          message: `Failed to decline invitation: ${error.message}`,
+          data: { error: error.message, userId },
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Supprime les invitations expirées et non acceptées
+   *
+   * @returns Nombre d'invitations supprimées
+   */
+  async expireStaleInvitations(): Promise<number> {
+    const { count } = await this.prisma.workspace_invitations.deleteMany({
+      where: { accepted: false, expires_at: { lte: new Date() } },
+    });
+
+    if (count > 0) {
+      await this.loggerClient.log({
+        level: "info",
+        service: "workspace",
+        func: "workspace-invitations.expireStaleInvitations",
+        message: `Expired ${count} stale invitation(s)`,
+        data: { count },
+      });
+    }
+
+    return count;
+  }
+
+  /**
+   * Démarre la purge périodique des invitations expirées
+   * (intervalle configurable via WORKSPACE_INVITATIONS_SWEEP_INTERVAL_MS)
+   */
+  private startExpirationSweep(): void {
+    const interval = Number(process.env.WORKSPACE_INVITATIONS_SWEEP_INTERVAL_MS) || DEFAULT_SWEEP_INTERVAL_MS;
+
+    this.sweepInterval = setInterval(() => void this.runExpirationSweep(), interval);
+    this.sweepInterval.unref();
+  }
+
+  private async runExpirationSweep(): Promise<void> {
+    try {
+      await this.expireStaleInvitations();
+    } catch (error) {
+      await this.loggerClient.log({
+        level: "error",
+        service: "workspace",
+        func: "workspace-invitations.runExpirationSweep",
+        message: "Failed to expire stale invitations",
+        data: { error: error instanceof Error ? error.message : String(error) },
+      });
+    }
+  }
+
+  private async getPendingOrThrow(id: string, workspaceId: string) {
+    const invitation = await this.prisma.workspace_invitations.findFirst({
+      where: { id, workspace_id: workspaceId },
+      select: { id: true, user_id: true, accepted: true },
+    });
+
+    if (!invitation) {
+      throw new RpcException({ code: status.NOT_FOUND, message: `Invitation with ID "${id}" not found` });
+    }
+    if (invitation.accepted) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: "This invitation has already been accepted" });
+    }
+
+    return invitation;
+  }
+
+  private async getRedeemableOrThrow(token: string, userId: string) {
+    if (!token?.trim()) {
+      throw new RpcException({ code: status.INVALID_ARGUMENT, message: "Invitation token is required" });
+    }
+
+    const invitation = await this.prisma.workspace_invitations.findUnique({
+      where: { token },
+      select: { id: true, workspace_id: true, user_id: true, invited_by: true, role: true, accepted: true, expires_at: true },
+    });
+
+    if (!invitation) {
+      throw new RpcException({ code: status.NOT_FOUND, message: "Invitation not found" });
+    }
+    if (invitation.user_id !== userId) {
+      throw new RpcException({ code: status.PERMISSION_DENIED, message: "This invitation is addressed to another user" });
+    }
+    if (invitation.accepted) {
+      throw new RpcException({ code: status.FAILED_PRECONDITION, message: "This invitation has already been accepted" });
+    }
+
+    return invitation;
+  }
+
+  private toPlain(row: InvitationRow) {
+    const { user_id_to_profiles, ...rest } = row;
+    return { ...rest, user: user_id_to_profiles };
+  }
+
+  private toDto(row: InvitationRow): WorkspaceInvitationDto {
+    return plainToInstance(WorkspaceInvitationDto, this.toPlain(row), { excludeExtraneousValues: true });
+  }
+}
@@ -8,13 +8,15 @@ async function bootstrap() {
     transport: Transport.GRPC,
     options: {
       url: process.env.WORKSPACE_GRPC_URL ?? "0.0.0.0:50052",
-      package: ["health.v1", "workspace.v1", "teams.v1", "labels.v1", "members.v1"],
+      package: ["health.v1", "workspace.v1", "teams.v1", "labels.v1", "members.v1", "invitations.v1", "agents.v1"],
       protoPath: [
         join(process.cwd(), "libs/proto/health/v1/health.proto"),
         join(process.cwd(), "libs/proto/workspace/v1/workspace.proto"),
         join(process.cwd(), "libs/proto/teams/v1/teams.proto"),
         join(process.cwd(), "libs/proto/labels/v1/labels.proto"),
         join(process.cwd(), "libs/proto/members/v1/workspace-members.proto"),
+        join(process.cwd(), "libs/proto/invitations/v1/workspace-invitations.proto"),
+        join(process.cwd(), "libs/proto/agents/v1/agents.proto"),
       ],
       loader: {
         keepCase: true,
@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { TeamRole } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import { WorkspaceMembersService } from "../member/workspace-members.service";
 import {
@@ -276,7 +276,7 @@ export class TeamMembersService {
    */
   async getOverview(team_id: string, userId: string, params?: BaseSearchQueryDto): Promise<TeamMemberListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
     const search = params?.search ?? "";
 
@@ -2,7 +2,7 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma, TeamRole } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import { WorkspaceMembersService } from "../member/workspace-members.service";
 import { CreateTeamDto, UpdateTeamDto, TeamDto, TeamListDto, TeamOverview, BaseSearchQueryDto, BasePaginationDto, ProfileOverviewSelect, TeamOverviewSelect } from "@shared/types";
@@ -204,7 +204,7 @@ export class TeamsService {
    */
   async getOverview(userId: string, workspace_id: string, params?: BaseSearchQueryDto): Promise<TeamListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
     const search = params?.search ?? "";
 
@@ -2,10 +2,11 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import { WorkspaceMembersService } from "../member/workspace-members.service";
-import { CreateLabelDto, UpdateLabelDto, LabelDto, LabelsListDto, BaseSearchQueryDto, BasePaginationDto, LabelDtoSelect } from "@shared/types";
+import { CreateLabelDto, UpdateLabelDto, LabelDto, LabelsListDto, BaseSearchQueryDto, BasePaginationDto, LabelDtoSelect, ActivityAction, ActivityEntityType } from "@shared/types";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
 import { plainToInstance } from "class-transformer";
 
 /**
@@ -27,6 +28,7 @@ export class LabelService {
     private readonly prisma: PrismaService,
     private readonly loggerClient: LoggerClientService,
     private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
   ) {}
 
   /**
@@ -107,6 +109,15 @@ export class LabelService {
         data: { id: created.id, name: created.name, workspaceId },
       });
 
+      await this.activityLogs.record({
+        user_id: createdBy,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.LABEL,
+        entity_id: created.id,
+        workspace_id: workspaceId,
+        after: created,
+      });
+
       return plainToInstance(LabelDto, created, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof RpcException) {
@@ -205,6 +216,16 @@ export class LabelService {
         data: { id: updated.id, name: updated.name },
       });
 
+      await this.activityLogs.record({
+        user_id: updatedBy,
+        action: ActivityAction.UPDATED,
+        entity_type: ActivityEntityType.LABEL,
+        entity_id: id,
+        workspace_id: existingLabel.workspace_id,
+        before: existingLabel,
+        after: updated,
+      });
+
       return plainToInstance(LabelDto, updated, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -272,6 +293,15 @@ export class LabelService {
         data: { id, name: existingLabel.name },
       });
 
+      await this.activityLogs.record({
+        user_id: deletedBy,
+        action: ActivityAction.DELETED,
+        entity_type: ActivityEntityType.LABEL,
+        entity_id: id,
+        workspace_id: existingLabel.workspace_id,
+        before: existingLabel,
+      });
+
       return { success: true };
     } catch (error) {
       if (error instanceof RpcException) {
@@ -361,7 +391,7 @@ export class LabelService {
     });
 
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 25;
+    const take = await resolveTake(this.prisma, userId, params?.take, 25);
 
     const search = params?.search?.trim() ?? "";
 
@@ -2,9 +2,10 @@ import { Injectable } from "@nestjs/common";
 import { RpcException } from "@nestjs/microservices";
 import { status } from "@grpc/grpc-js";
 import { Prisma } from "@prisma/client";
-import { PrismaService } from "@shared/prisma";
+import { PrismaService, resolveTake } from "@shared/prisma";
 import { LoggerClientService } from "@shared/logger";
 import { WorkspaceMembersService } from "../member/workspace-members.service";
+import { ActivityLogsService } from "apps/project/src/activity-log/activity-logs.service";
 import {
   CreateWorkspaceDto,
   UpdateWorkspaceDto,
@@ -18,6 +19,8 @@ import {
   WorkspaceOverviewSelect,
   WorkspaceOverview,
   WorkspaceRole,
+  ActivityAction,
+  ActivityEntityType,
 } from "@shared/types";
 import { plainToInstance } from "class-transformer";
 
@@ -41,6 +44,7 @@ export class WorkspacesService {
     private readonly prisma: PrismaService,
     private readonly loggerClient: LoggerClientService,
     private readonly workspaceMembersService: WorkspaceMembersService,
+    private readonly activityLogs: ActivityLogsService,
   ) {}
 
   /**
@@ -159,6 +163,15 @@ export class WorkspacesService {
         data: { id: created.id, name: created.name },
       });
 
+      await this.activityLogs.record({
+        user_id: ownerId,
+        action: ActivityAction.CREATED,
+        entity_type: ActivityEntityType.WORKSPACE,
+        entity_uuid: created.id,
+        workspace_id: created.id,
+        after: created,
+      });
+
       return plainToInstance(WorkspaceDto, created, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof RpcException) {
@@ -325,7 +338,7 @@ export class WorkspacesService {
    */
   async getOverview(params?: BaseSearchQueryDto, userId?: string): Promise<WorkspacesListDto> {
     const skip = params?.skip ?? 0;
-    const take = params?.take ?? 10;
+    const take = await resolveTake(this.prisma, userId, params?.take, 10);
 
     const search = params?.search ?? "";
 
@@ -508,6 +521,18 @@ export class WorkspacesService {
         data: { id: updated.id, name: updated.name, slug: updated.slug },
       });
 
+      if (updatedBy) {
+        await this.activityLogs.record({
+          user_id: updatedBy,
+          action: ActivityAction.UPDATED,
+          entity_type: ActivityEntityType.WORKSPACE,
+          entity_uuid: id,
+          workspace_id: id,
+          before: existingWorkspace,
+          after: updated,
+        });
+      }
+
       return plainToInstance(WorkspaceDto, updated, { excludeExtraneousValues: true });
     } catch (error) {
       if (error instanceof Error) {
@@ -573,6 +598,17 @@ export class WorkspacesService {
         data: { id, name: existingWorkspace.name },
       });
 
+      if (deletedBy) {
+        await this.activityLogs.record({
+          user_id: deletedBy,
+          action: ActivityAction.DELETED,
+          entity_type: ActivityEntityType.WORKSPACE,
+          entity_uuid: id,
+          workspace_id: id,
+          before: existingWorkspace,
+        });
+      }
+
       return { success: true };
     } catch (error) {
       if (error instanceof RpcException) {
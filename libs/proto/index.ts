@@ -33,6 +33,58 @@ export const PROTO_LABELS_PATH = "libs/proto/labels/v1/labels.proto";
 export const PROTO_LABELS_PACKAGE = "labels.v1";
 export const LABELS_SERVICE_NAME = "Labels";
 
+export const PROTO_WORKSPACE_INVITATIONS_PATH = "libs/proto/invitations/v1/workspace-invitations.proto";
+export const PROTO_WORKSPACE_INVITATIONS_PACKAGE = "invitations.v1";
+export const WORKSPACE_INVITATIONS_SERVICE_NAME = "WorkspaceInvitations";
+
+export const PROTO_TICKET_COMMENTS_PATH = "libs/proto/ticket-comments/v1/ticket-comments.proto";
+export const PROTO_TICKET_COMMENTS_PACKAGE = "ticket_comments.v1";
+export const TICKET_COMMENTS_SERVICE_NAME = "TicketComments";
+
+export const PROTO_ACTIVITY_LOGS_PATH = "libs/proto/activity-logs/v1/activity-logs.proto";
+export const PROTO_ACTIVITY_LOGS_PACKAGE = "activity_logs.v1";
+export const ACTIVITY_LOGS_SERVICE_NAME = "ActivityLogs";
+
 export const PROTO_VECTOR_PATH = "libs/proto/vector/v1/vector.proto";
 export const PROTO_VECTOR_PACKAGE = "vector.v1";
 export const VECTOR_SERVICE_NAME = "VectorService";
+
+export const PROTO_NOTIFICATIONS_PATH = "libs/proto/notifications/v1/notifications.proto";
+export const PROTO_NOTIFICATIONS_PACKAGE = "notifications.v1";
+export const NOTIFICATIONS_SERVICE_NAME = "Notifications";
+
+export const PROTO_STACKS_PATH = "libs/proto/stacks/v1/stacks.proto";
+export const PROTO_STACKS_PACKAGE = "stacks.v1";
+export const STACKS_SERVICE_NAME = "Stack";
+
+export const PROTO_LANGUAGES_PATH = "libs/proto/languages/v1/languages.proto";
+export const PROTO_LANGUAGES_PACKAGE = "languages.v1";
+export const LANGUAGES_SERVICE_NAME = "Languages";
+
+export const PROTO_TICKET_WORKFLOWS_PATH = "libs/proto/ticket-workflows/v1/ticket-workflows.proto";
+export const PROTO_TICKET_WORKFLOWS_PACKAGE = "ticket_workflows.v1";
+export const TICKET_WORKFLOWS_SERVICE_NAME = "TicketWorkflows";
+
+export const PROTO_ANALYTICS_PATH = "libs/proto/analytics/v1/analytics.proto";
+export const PROTO_ANALYTICS_PACKAGE = "analytics.v1";
+export const ANALYTICS_SERVICE_NAME = "Analytics";
+
+export const PROTO_WORKLOGS_PATH = "libs/proto/worklogs/v1/worklogs.proto";
+export const PROTO_WORKLOGS_PACKAGE = "worklogs.v1";
+export const WORKLOGS_SERVICE_NAME = "Worklogs";
+
+export const PROTO_SAVED_VIEWS_PATH = "libs/proto/saved-views/v1/saved-views.proto";
+export const PROTO_SAVED_VIEWS_PACKAGE = "saved_views.v1";
+export const SAVED_VIEWS_SERVICE_NAME = "SavedViews";
+
+export const PROTO_AGENTS_PATH = "libs/proto/agents/v1/agents.proto";
+export const PROTO_AGENTS_PACKAGE = "agents.v1";
+export const AGENTS_SERVICE_NAME = "Agents";
+
+export const PROTO_CHATS_PATH = "libs/proto/chats/v1/chats.proto";
+export const PROTO_CHATS_PACKAGE = "chats.v1";
+export const CHATS_SERVICE_NAME = "Chats";
+
+export const PROTO_MODEL_USAGE_PATH = "libs/proto/model-usage/v1/model-usage.proto";
+export const PROTO_MODEL_USAGE_PACKAGE = "model_usage.v1";
+export const MODEL_USAGE_SERVICE_NAME = "ModelUsage";
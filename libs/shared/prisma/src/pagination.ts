@@ -0,0 +1,25 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * Résout le nombre d'éléments à retourner par une recherche.
+ *
+ * Ordre de priorité : la valeur demandée, puis la préférence `items_per_page` de l'utilisateur,
+ * puis la valeur par défaut du service appelant. Un `take` à 0 est considéré comme absent :
+ * c'est la valeur que reçoivent les microservices quand le champ int32 n'est pas renseigné.
+ *
+ * @param prisma Client Prisma du service appelant
+ * @param userId Utilisateur à l'origine de la recherche (optionnel)
+ * @param take Valeur demandée
+ * @param fallback Valeur par défaut du service
+ */
+export async function resolveTake(prisma: PrismaClient, userId: string | undefined, take: number | undefined, fallback: number): Promise<number> {
+  if (take) return take;
+  if (!userId) return fallback;
+
+  const preferences = await prisma.user_preferences.findUnique({
+    where: { user_id: userId },
+    select: { items_per_page: true },
+  });
+
+  return preferences?.items_per_page ?? fallback;
+}
@@ -1,6 +1,6 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { IsEnum, IsOptional, IsString, IsInt, IsDateString, IsUUID, IsIP, Min, Max } from "class-validator";
-import { ProfileOverview } from "../profile/dtos";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
 
 export enum ActivityAction {
   CREATED = "CREATED",
@@ -109,6 +109,7 @@ export enum ActivityEntityType {
   THEME = "THEME",
   PLUGIN = "PLUGIN",
   EXTENSION = "EXTENSION",
+  WORKLOG = "WORKLOG",
 }
 
 export class CreateActivityLogDto {
@@ -121,8 +122,15 @@ export class CreateActivityLogDto {
   @ApiProperty({ enum: ActivityEntityType, example: ActivityEntityType.PROJECT })
   entity_type!: ActivityEntityType;
 
-  @ApiProperty({ example: 123, description: "Entity ID" })
-  entity_id!: number;
+  @ApiPropertyOptional({ example: 123, description: "Entity ID (entities with an integer ID)" })
+  @IsOptional()
+  @IsInt()
+  entity_id?: number;
+
+  @ApiPropertyOptional({ example: "3c9d6a0e-5b2f-4f7a-9c1e-8d4b2a6f0e13", description: "Entity UUID (workspaces, invitations…)" })
+  @IsOptional()
+  @IsUUID()
+  entity_uuid?: string;
 
   @ApiPropertyOptional({ example: 1, description: "Project ID" })
   @IsOptional()
@@ -189,8 +197,11 @@ export class ActivityLogDto {
   @ApiProperty({ example: "PROJECT" })
   entity_type!: string;
 
-  @ApiProperty({ example: 123 })
-  entity_id!: number;
+  @ApiProperty({ example: 123, nullable: true })
+  entity_id!: number | null;
+
+  @ApiProperty({ example: null, nullable: true, description: "UUID of the entity when it has no integer ID" })
+  entity_uuid!: string | null;
 
   @ApiProperty({ example: 1, nullable: true })
   project_id?: number | null;
@@ -266,8 +277,11 @@ export class ActivityLogOverview {
   @ApiProperty({ example: "PROJECT" })
   entity_type!: string;
 
-  @ApiProperty({ example: 123 })
-  entity_id!: number;
+  @ApiProperty({ example: 123, nullable: true })
+  entity_id!: number | null;
+
+  @ApiProperty({ example: null, nullable: true, description: "UUID of the entity when it has no integer ID" })
+  entity_uuid!: string | null;
 }
 
 export class ActivityLogsListDto {
@@ -325,6 +339,16 @@ export class ActivityLogFilterDto {
   @IsEnum(ActivityEntityType)
   entity_type?: ActivityEntityType;
 
+  @ApiPropertyOptional({ example: 123, description: "Filter by entity ID" })
+  @IsOptional()
+  @IsInt()
+  entity_id?: number;
+
+  @ApiPropertyOptional({ example: "3c9d6a0e-5b2f-4f7a-9c1e-8d4b2a6f0e13", description: "Filter by entity UUID" })
+  @IsOptional()
+  @IsUUID()
+  entity_uuid?: string;
+
   @ApiPropertyOptional({ example: "b3fb243f-8368-47aa-bcc7-072f049db8af", description: "Filter by user ID" })
   @IsOptional()
   @IsUUID()
@@ -362,6 +386,16 @@ export class ActivityLogFilterDto {
   take?: number;
 }
 
+/**
+ * Périmètre d'une requête sur le journal d'activité (un seul critère renseigné)
+ */
+export interface ActivityLogScope {
+  ticket_id?: number;
+  project_id?: number;
+  workspace_id?: string;
+  target_user_id?: string;
+}
+
 export class BulkActivityLogDto {
   @ApiProperty({ type: [Number], example: [123, 456, 789] })
   activity_log_ids!: number[];
@@ -370,3 +404,46 @@ export class BulkActivityLogDto {
   @IsOptional()
   metadata?: Record<string, any>;
 }
+
+// Prisma select types for type-safe queries
+export const ActivityLogDtoSelect = {
+  id: true,
+  created_at: true,
+  user_id: true,
+  action: true,
+  entity_type: true,
+  entity_id: true,
+  entity_uuid: true,
+  project_id: true,
+  ticket_id: true,
+  metadata: true,
+  ip_address: true,
+  user_agent: true,
+  session_id: true,
+  profile: {
+    select: {
+      ...ProfileOverviewSelect,
+    },
+  },
+  project: {
+    select: {
+      id: true,
+      name: true,
+      slug: true,
+    },
+  },
+  ticket: {
+    select: {
+      id: true,
+      title: true,
+      status: true,
+    },
+  },
+} as const;
+
+/**
+ * IDs entiers des entités journalisées (les entrées d'entités identifiées par UUID sont ignorées)
+ */
+export function activityEntityIds(logs: { entity_id: number | null }[]): number[] {
+  return logs.flatMap(log => (log.entity_id === null ? [] : [log.entity_id]));
+}
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsNumber, IsOptional, IsString } from "class-validator";
+import { Expose, Type } from "class-transformer";
+import { AgentRetrievalDto, PromptCreatorType, PromptPartType, PromptRoleType } from "./dtos";
+
+/**
+ * DTO d'assemblage du prompt d'un agent pour un rôle
+ * L'agent est désigné par son ID ou par son code (version active)
+ */
+export class ComposeAgentPromptDto {
+  @ApiPropertyOptional({ description: "ID de la version de l'agent", example: 123 })
+  @Expose()
+  @IsOptional()
+  @IsNumber({}, { message: "L'ID de l'agent doit être un nombre" })
+  agent_id?: number;
+
+  @ApiPropertyOptional({ description: "Code de l'agent (sa version active est utilisée)", example: "PROJECT_ASSISTANT" })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le code agent doit être une chaîne de caractères" })
+  agent_name_code?: string;
+
+  @ApiProperty({ enum: PromptRoleType, enumName: "PromptRoleType", example: PromptRoleType.GENERATION })
+  @Expose()
+  @IsEnum(PromptRoleType, { message: "Type de rôle du prompt invalide" })
+  role_type!: PromptRoleType;
+}
+
+/**
+ * Partie d'un prompt assemblé : prompt système ou surcharge du workspace
+ */
+export class ComposedPromptPartDto {
+  @ApiProperty({ enum: PromptPartType, enumName: "PromptPartType", example: PromptPartType.INSTRUCTION })
+  @Expose()
+  part_type!: PromptPartType;
+
+  @ApiProperty({ enum: PromptRoleType, enumName: "PromptRoleType", example: PromptRoleType.GENERATION })
+  @Expose()
+  role_type!: PromptRoleType;
+
+  @ApiProperty({ example: 456 })
+  @Expose()
+  prompt_id!: number;
+
+  @ApiProperty({ example: "INSTRUCTION_GENERATION" })
+  @Expose()
+  prompt_code!: string;
+
+  @ApiProperty({ example: 2 })
+  @Expose()
+  version!: number;
+
+  @ApiProperty({ enum: PromptCreatorType, enumName: "PromptCreatorType", description: "SYSTEM, ou USER pour une surcharge du workspace", example: PromptCreatorType.SYSTEM })
+  @Expose()
+  source!: PromptCreatorType;
+
+  @ApiProperty({ example: "Analyze the provided project requirements and provide detailed technical specifications." })
+  @Expose()
+  content!: string;
+}
+
+/**
+ * Prompt assemblé d'un agent : parties dans l'ordre de `PromptPartType`
+ */
+export class ComposedPromptDto {
+  @ApiProperty({ example: 123 })
+  @Expose()
+  agent_id!: number;
+
+  @ApiProperty({ example: "PROJECT_ASSISTANT" })
+  @Expose()
+  agent_name_code!: string;
+
+  @ApiProperty({ example: 2 })
+  @Expose()
+  version!: number;
+
+  @ApiProperty({ enum: PromptRoleType, enumName: "PromptRoleType", example: PromptRoleType.GENERATION })
+  @Expose()
+  role_type!: PromptRoleType;
+
+  @ApiProperty({ format: "uuid", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  workspace_id!: string;
+
+  @ApiProperty({ type: [ComposedPromptPartDto] })
+  @Expose()
+  @Type(() => ComposedPromptPartDto)
+  parts!: ComposedPromptPartDto[];
+
+  @ApiProperty({ description: "Contenu des parties séparées par une ligne vide" })
+  @Expose()
+  content!: string;
+
+  @ApiProperty({ description: "Paramètres de recherche de contexte de cette version", type: AgentRetrievalDto })
+  @Expose()
+  @Type(() => AgentRetrievalDto)
+  retrieval!: Required<AgentRetrievalDto>;
+}
@@ -1,6 +1,24 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsEnum, IsOptional, IsString, IsBoolean, IsUUID, IsNumber, IsDateString, MinLength, MaxLength, IsNotEmpty } from "class-validator";
-import { Expose, Transform } from "class-transformer";
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsBoolean,
+  IsUUID,
+  IsNumber,
+  IsDateString,
+  MinLength,
+  MaxLength,
+  IsNotEmpty,
+  Matches,
+  IsInt,
+  Min,
+  Max,
+  IsArray,
+  IsIn,
+  ValidateNested,
+} from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
 import { BasePaginationDto } from "../common/page";
 
 /**
@@ -80,6 +98,48 @@ export enum AgentType {
   AUTOMATION_AGENT = "AUTOMATION_AGENT",
 }
 
+/** Format d'un code agent : commun à toutes les versions d'un même agent */
+export const AGENT_NAME_CODE_PATTERN = /^[A-Z][A-Z0-9_]{2,49}$/;
+
+/** Types de documents indexés (vector_documents.document_type) qu'un agent peut consulter */
+export const AGENT_RETRIEVAL_DOCUMENT_TYPES = ["ticket", "epic", "sprint", "task"] as const;
+export type AgentRetrievalDocumentType = (typeof AGENT_RETRIEVAL_DOCUMENT_TYPES)[number];
+
+/** Nombre maximal de documents injectés dans le contexte d'une question */
+export const AGENT_RETRIEVAL_MAX_TOP_K = 20;
+
+/**
+ * Paramètres de recherche de contexte (RAG) d'un agent
+ * top_k à 0 désactive la recherche ; une liste de types vide consulte tous les types
+ */
+export class AgentRetrievalDto {
+  @ApiPropertyOptional({ description: "Nombre de documents injectés dans le contexte (0 : aucun)", example: 5, minimum: 0, maximum: AGENT_RETRIEVAL_MAX_TOP_K, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Le nombre de documents doit être un entier" })
+  @Min(0, { message: "Le nombre de documents ne peut pas être négatif" })
+  @Max(AGENT_RETRIEVAL_MAX_TOP_K, { message: `Le nombre de documents ne peut pas dépasser ${AGENT_RETRIEVAL_MAX_TOP_K}` })
+  top_k?: number;
+
+  @ApiPropertyOptional({ description: "Score de similarité minimal (0-1)", example: 0.7, minimum: 0, maximum: 1, type: "number" })
+  @Expose()
+  @IsOptional()
+  @IsNumber({}, { message: "Le score minimal doit être un nombre" })
+  @Min(0, { message: "Le score minimal doit être compris entre 0 et 1" })
+  @Max(1, { message: "Le score minimal doit être compris entre 0 et 1" })
+  min_score?: number;
+
+  @ApiPropertyOptional({ description: "Types de documents consultés (tous si vide)", example: ["ticket", "epic"], enum: AGENT_RETRIEVAL_DOCUMENT_TYPES, isArray: true })
+  @Expose()
+  @IsOptional()
+  @IsArray({ message: "Les types de documents doivent être une liste" })
+  @IsIn(AGENT_RETRIEVAL_DOCUMENT_TYPES, { each: true, message: `Type de document invalide (${AGENT_RETRIEVAL_DOCUMENT_TYPES.join(", ")})` })
+  document_types?: AgentRetrievalDocumentType[];
+}
+
+/** Paramètres appliqués sans agent, ou pour les agents créés sans paramètres */
+export const DEFAULT_AGENT_RETRIEVAL: Required<AgentRetrievalDto> = { top_k: 5, min_score: 0.7, document_types: [] };
+
 /**
  * DTO pour la création d'un agent
  * Utilisé dans les endpoints REST et gRPC
@@ -101,6 +161,17 @@ export class CreateAgentDto {
   @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
   display_name!: string;
 
+  @ApiPropertyOptional({
+    description: "Code technique de l'agent (déduit du nom d'affichage s'il est absent)",
+    example: "PROJECT_ASSISTANT",
+    pattern: "^[A-Z][A-Z0-9_]{2,49}$",
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @Matches(AGENT_NAME_CODE_PATTERN, { message: "Le code agent doit contenir 3 à 50 majuscules, chiffres ou underscores" })
+  agent_name_code?: string;
+
   @ApiPropertyOptional({
     description: "Description de l'agent",
     example: "AI assistant specialized in project management and analysis",
@@ -135,6 +206,13 @@ export class CreateAgentDto {
   @IsOptional()
   @IsEnum(AgentStatus, { message: "Statut d'agent invalide" })
   status?: AgentStatus = AgentStatus.DRAFT;
+
+  @ApiPropertyOptional({ description: "Paramètres de recherche de contexte", type: AgentRetrievalDto })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentRetrievalDto)
+  retrieval?: AgentRetrievalDto;
 }
 
 /**
@@ -181,6 +259,13 @@ export class UpdateAgentDto {
   @IsOptional()
   @IsEnum(AgentStatus, { message: "Statut d'agent invalide" })
   status?: AgentStatus;
+
+  @ApiPropertyOptional({ description: "Paramètres de recherche de contexte (version DRAFT uniquement)", type: AgentRetrievalDto })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AgentRetrievalDto)
+  retrieval?: AgentRetrievalDto;
 }
 
 /**
@@ -302,6 +387,10 @@ export class AgentDto extends AgentOverview {
   @IsDateString({}, { message: "La date de modification doit être une date valide ISO 8601" })
   updated_at!: string;
 
+  @ApiProperty({ description: "Paramètres de recherche de contexte", type: AgentRetrievalDto })
+  @Expose()
+  retrieval!: Required<AgentRetrievalDto>;
+
   @ApiPropertyOptional({
     description: "Prompts associés à cet agent",
     type: "array",
@@ -373,6 +462,15 @@ export class AgentFilterDto {
   @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
   search?: string;
 
+  @ApiPropertyOptional({
+    description: "Filtrer par code agent (toutes les versions d'un agent)",
+    example: "PROJECT_ASSISTANT",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le code agent doit être une chaîne de caractères" })
+  agent_name_code?: string;
+
   @ApiPropertyOptional({
     description: "Filtrer par workspace ID",
     format: "uuid",
@@ -737,3 +835,36 @@ export class AgentPromptListDto extends BasePaginationDto<AgentPromptDto> {
   })
   items!: AgentPromptDto[];
 }
+
+export const AgentDtoSelect = {
+  id: true,
+  agent_name_code: true,
+  version: true,
+  display_name: true,
+  description: true,
+  agent_type: true,
+  status: true,
+  published_at: true,
+  created_at: true,
+  updated_at: true,
+  retrieval_top_k: true,
+  retrieval_min_score: true,
+  retrieval_document_types: true,
+} as const;
+
+export const AgentPromptDtoSelect = {
+  id: true,
+  agent_id: true,
+  prompt_code: true,
+  version: true,
+  creator_type: true,
+  part_type: true,
+  role_type: true,
+  content: true,
+  description: true,
+  status: true,
+  created_at: true,
+  updated_at: true,
+  updatable: true,
+  workspace_id: true,
+} as const;
@@ -0,0 +1,312 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsEnum, IsInt, IsOptional, Max, Min } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+import { Granularity } from "../common/search";
+import { TicketCategory, TicketStatus } from "../tickets/dtos";
+
+/** Période analysée par défaut lorsque `from` n'est pas fourni */
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 90;
+
+/** Nombre de sprints retenus par défaut pour la vélocité moyenne */
+export const DEFAULT_VELOCITY_SPRINTS = 5;
+
+/** Périmètre d'un rapport : un projet ou l'ensemble des projets d'un workspace */
+export enum AnalyticsScope {
+  PROJECT = "PROJECT",
+  WORKSPACE = "WORKSPACE",
+}
+
+/**
+ * Filtres communs des rapports d'analyse
+ * Les bornes s'appliquent à la date de fin des tickets (premier passage VALIDATED/PROD)
+ */
+export class AnalyticsFilterDto {
+  @ApiPropertyOptional({ description: "Début de la période (inclus)", example: "2025-07-01", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de début doit être au format ISO 8601" })
+  from?: string;
+
+  @ApiPropertyOptional({ description: "Fin de la période (incluse, défaut : maintenant)", example: "2025-09-30", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de fin doit être au format ISO 8601" })
+  to?: string;
+
+  @ApiPropertyOptional({ description: "Granularité des séries temporelles", enum: Granularity, example: Granularity.WEEK })
+  @Expose()
+  @IsOptional()
+  @IsEnum(Granularity, { message: "Granularité invalide" })
+  granularity?: Granularity;
+
+  @ApiPropertyOptional({ description: "Nombre de sprints terminés pour la vélocité moyenne", example: DEFAULT_VELOCITY_SPRINTS, minimum: 1, maximum: 50 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Le nombre de sprints doit être un entier" })
+  @Min(1, { message: "Le nombre de sprints doit être au moins 1" })
+  @Max(50, { message: "Le nombre de sprints ne peut pas dépasser 50" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  sprints?: number;
+}
+
+/**
+ * Délais de traitement d'une catégorie de tickets
+ * Lead time : création → premier passage VALIDATED/PROD ; cycle time : premier passage ACTIVE → fin
+ */
+export class CycleTimeStatsDto {
+  @ApiPropertyOptional({ enum: TicketCategory, description: "Catégorie (absente pour le total)", example: TicketCategory.BUG })
+  @Expose()
+  category?: TicketCategory;
+
+  @ApiProperty({ description: "Tickets terminés sur la période", example: 14 })
+  @Expose()
+  completed_tickets!: number;
+
+  @ApiPropertyOptional({ description: "Lead time moyen en heures", example: 96.5, nullable: true })
+  @Expose()
+  avg_lead_time_hours!: number | null;
+
+  @ApiPropertyOptional({ description: "Lead time médian en heures", example: 72, nullable: true })
+  @Expose()
+  median_lead_time_hours!: number | null;
+
+  @ApiPropertyOptional({ description: "Cycle time moyen en heures (tickets passés par ACTIVE)", example: 30.25, nullable: true })
+  @Expose()
+  avg_cycle_time_hours!: number | null;
+
+  @ApiPropertyOptional({ description: "Cycle time médian en heures", example: 24, nullable: true })
+  @Expose()
+  median_cycle_time_hours!: number | null;
+}
+
+export class CycleTimeReportDto {
+  @ApiProperty({ example: "2025-07-01T00:00:00.000Z" })
+  @Expose()
+  from!: string;
+
+  @ApiProperty({ example: "2025-09-30T23:59:59.999Z" })
+  @Expose()
+  to!: string;
+
+  @ApiProperty({ type: CycleTimeStatsDto })
+  @Expose()
+  @Type(() => CycleTimeStatsDto)
+  overall!: CycleTimeStatsDto;
+
+  @ApiProperty({ type: [CycleTimeStatsDto] })
+  @Expose()
+  @Type(() => CycleTimeStatsDto)
+  items!: CycleTimeStatsDto[];
+}
+
+export class ThroughputBucketDto {
+  @ApiProperty({ description: "Début de la période (UTC)", example: "2025-09-22" })
+  @Expose()
+  period_start!: string;
+
+  @ApiProperty({ example: 6 })
+  @Expose()
+  completed_tickets!: number;
+
+  @ApiProperty({ example: 19 })
+  @Expose()
+  completed_points!: number;
+}
+
+export class ThroughputReportDto {
+  @ApiProperty({ example: "2025-07-01T00:00:00.000Z" })
+  @Expose()
+  from!: string;
+
+  @ApiProperty({ example: "2025-09-30T23:59:59.999Z" })
+  @Expose()
+  to!: string;
+
+  @ApiProperty({ enum: Granularity, example: Granularity.WEEK })
+  @Expose()
+  granularity!: Granularity;
+
+  @ApiProperty({ type: [ThroughputBucketDto] })
+  @Expose()
+  @Type(() => ThroughputBucketDto)
+  buckets!: ThroughputBucketDto[];
+}
+
+export class WipStatusDto {
+  @ApiProperty({ enum: TicketStatus, example: TicketStatus.ACTIVE })
+  @Expose()
+  status!: TicketStatus;
+
+  @ApiProperty({ example: 5 })
+  @Expose()
+  tickets!: number;
+
+  @ApiProperty({ example: 13 })
+  @Expose()
+  story_points!: number;
+
+  @ApiProperty({ example: 21.5 })
+  @Expose()
+  estimated_hours!: number;
+}
+
+/**
+ * Travail en cours : tickets ni terminés (VALIDATED/PROD) ni annulés, par statut
+ */
+export class WipReportDto {
+  @ApiProperty({ example: 17 })
+  @Expose()
+  total_tickets!: number;
+
+  @ApiProperty({ type: [WipStatusDto] })
+  @Expose()
+  @Type(() => WipStatusDto)
+  items!: WipStatusDto[];
+}
+
+export class VelocitySprintDto {
+  @ApiProperty({ example: 123 })
+  @Expose()
+  sprint_id!: number;
+
+  @ApiProperty({ example: "Sprint 12" })
+  @Expose()
+  name!: string;
+
+  @ApiProperty({ example: 4 })
+  @Expose()
+  project_id!: number;
+
+  @ApiProperty({ description: "Story points terminés", example: 21 })
+  @Expose()
+  velocity!: number;
+
+  @ApiProperty({ example: 40 })
+  @Expose()
+  capacity!: number;
+
+  @ApiPropertyOptional({ example: "2025-09-30", nullable: true })
+  @Expose()
+  completed_at!: string | null;
+}
+
+export class VelocityReportDto {
+  @ApiProperty({ description: "Vélocité moyenne des sprints retenus", example: 19.6 })
+  @Expose()
+  average_velocity!: number;
+
+  @ApiProperty({ type: [VelocitySprintDto], description: "Derniers sprints terminés, du plus récent au plus ancien" })
+  @Expose()
+  @Type(() => VelocitySprintDto)
+  sprints!: VelocitySprintDto[];
+}
+
+/**
+ * Précision des estimations : `estimated_hours` comparé à `actual_hours` sur les tickets terminés
+ */
+export class EstimateAccuracyStatsDto {
+  @ApiPropertyOptional({ enum: TicketCategory, description: "Catégorie (absente pour le total)", example: TicketCategory.FEATURE })
+  @Expose()
+  category?: TicketCategory;
+
+  @ApiProperty({ description: "Tickets terminés ayant une estimation et un temps réel", example: 12 })
+  @Expose()
+  tickets!: number;
+
+  @ApiProperty({ example: 48 })
+  @Expose()
+  estimated_hours!: number;
+
+  @ApiProperty({ example: 61.5 })
+  @Expose()
+  actual_hours!: number;
+
+  @ApiPropertyOptional({ description: "Temps réel / temps estimé (1 = estimation exacte)", example: 1.28, nullable: true })
+  @Expose()
+  accuracy_ratio!: number | null;
+
+  @ApiPropertyOptional({ description: "Écart absolu moyen en heures", example: 2.4, nullable: true })
+  @Expose()
+  mean_absolute_error_hours!: number | null;
+
+  @ApiProperty({ description: "Tickets ayant dépassé leur estimation", example: 7 })
+  @Expose()
+  underestimated_tickets!: number;
+
+  @ApiProperty({ description: "Tickets terminés sous leur estimation", example: 3 })
+  @Expose()
+  overestimated_tickets!: number;
+}
+
+export class EstimateAccuracyReportDto {
+  @ApiProperty({ example: "2025-07-01T00:00:00.000Z" })
+  @Expose()
+  from!: string;
+
+  @ApiProperty({ example: "2025-09-30T23:59:59.999Z" })
+  @Expose()
+  to!: string;
+
+  @ApiProperty({ type: EstimateAccuracyStatsDto })
+  @Expose()
+  @Type(() => EstimateAccuracyStatsDto)
+  overall!: EstimateAccuracyStatsDto;
+
+  @ApiProperty({ type: [EstimateAccuracyStatsDto] })
+  @Expose()
+  @Type(() => EstimateAccuracyStatsDto)
+  items!: EstimateAccuracyStatsDto[];
+}
+
+export class AssigneeLoadDto {
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  user_id!: string;
+
+  @ApiPropertyOptional({ example: "jdoe", nullable: true })
+  @Expose()
+  username!: string | null;
+
+  @ApiProperty({ description: "Tickets ouverts assignés", example: 6 })
+  @Expose()
+  open_tickets!: number;
+
+  @ApiProperty({ description: "Tickets en ACTIVE ou IN_REVIEW", example: 2 })
+  @Expose()
+  in_progress_tickets!: number;
+
+  @ApiProperty({ example: 15 })
+  @Expose()
+  open_points!: number;
+
+  @ApiProperty({ example: 28 })
+  @Expose()
+  open_estimated_hours!: number;
+
+  @ApiProperty({ description: "Tickets terminés sur la période", example: 9 })
+  @Expose()
+  completed_tickets!: number;
+
+  @ApiProperty({ example: 22 })
+  @Expose()
+  completed_points!: number;
+}
+
+export class AssigneeLoadReportDto {
+  @ApiProperty({ example: "2025-07-01T00:00:00.000Z" })
+  @Expose()
+  from!: string;
+
+  @ApiProperty({ example: "2025-09-30T23:59:59.999Z" })
+  @Expose()
+  to!: string;
+
+  @ApiProperty({ description: "Tickets ouverts sans assigné", example: 4 })
+  @Expose()
+  unassigned_open_tickets!: number;
+
+  @ApiProperty({ type: [AssigneeLoadDto] })
+  @Expose()
+  @Type(() => AssigneeLoadDto)
+  items!: AssigneeLoadDto[];
+}
@@ -328,6 +328,18 @@ export class AuthUserDto {
   @IsString({ message: "La date de dernière connexion doit être une chaîne de caractères" })
   @IsDateString({}, { message: "La date de dernière connexion doit être au format ISO 8601" })
   last_sign_in_at?: string;
+
+  @ApiProperty({
+    description: "Numéro de téléphone (E.164), utilisé pour les notifications SMS",
+    example: "+33612345678",
+    type: "string",
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le numéro de téléphone doit être une chaîne de caractères" })
+  phone?: string;
 }
 
 /**
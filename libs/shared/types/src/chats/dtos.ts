@@ -1,7 +1,7 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { IsOptional, IsString, IsUUID, IsObject, IsPositive, MinLength, MaxLength, IsNotEmpty, ValidateNested, Min, Max } from "class-validator";
 import { Type, Transform, Expose } from "class-transformer";
-import { ProfileOverview } from "../profile/dtos";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
 import { BasePaginationDto } from "../common/page";
 
 export enum MessageRole {
@@ -167,6 +167,7 @@ export class ChatOverview {
     example: "Discussion sur la planification du projet Q4",
     maxLength: 255,
   })
+  @Expose()
   title?: string;
 
   @ApiProperty({
@@ -326,6 +327,35 @@ export class ChatListDto extends BasePaginationDto<ChatDto> {
   items!: ChatDto[];
 }
 
+/**
+ * Document du projet injecté dans le contexte d'une réponse ; `index` est le repère [n] cité par l'assistant
+ */
+export class MessageCitationDto {
+  @ApiProperty({ description: "Repère du document dans le contexte ([1], [2]…)", example: 1 })
+  @Expose()
+  index!: number;
+
+  @ApiProperty({ description: "Table source du document", example: "tickets" })
+  @Expose()
+  source_table!: string;
+
+  @ApiProperty({ description: "Identifiant de l'élément source", example: 42 })
+  @Expose()
+  source_id!: number;
+
+  @ApiPropertyOptional({ description: "Type de document", example: "ticket" })
+  @Expose()
+  document_type?: string;
+
+  @ApiPropertyOptional({ description: "Titre de l'élément, s'il est indexé", example: "Corriger l'export CSV" })
+  @Expose()
+  title?: string;
+
+  @ApiProperty({ description: "Score de similarité (0-1)", example: 0.83 })
+  @Expose()
+  score!: number;
+}
+
 export class MessageOverview {
   @ApiProperty({
     description: "Identifiant unique du message",
@@ -524,6 +554,14 @@ export class MessageDto extends MessageOverview {
   @Max(1)
   confidence?: number;
 
+  @ApiPropertyOptional({
+    description: "Documents du projet fournis comme contexte à l'assistant",
+    type: [MessageCitationDto],
+  })
+  @Expose()
+  @Type(() => MessageCitationDto)
+  citations?: MessageCitationDto[];
+
   @ApiPropertyOptional({
     description: "Message précédent dans la conversation",
     example: {
@@ -564,3 +602,48 @@ export class MessageListDto extends BasePaginationDto<MessageDto> {
   })
   items!: MessageDto[];
 }
+
+export const ChatDtoSelect = {
+  id: true,
+  session_id: true,
+  title: true,
+  created_at: true,
+  updated_at: true,
+  last_message_at: true,
+  metadata: true,
+  project_id: true,
+  workspace_id: true,
+  workflow_definition_id: true,
+  completion_definition_id: true,
+  chatbot_config_id: true,
+  agent_task_definition_id: true,
+  created_by: true,
+  updated_by: true,
+  created_by_user: { select: ProfileOverviewSelect },
+  updated_by_user: { select: ProfileOverviewSelect },
+  _count: { select: { messages: true } },
+} as const;
+
+export const MessageDtoSelect = {
+  id: true,
+  chat_id: true,
+  message_role: true,
+  step: true,
+  message: true,
+  markdown: true,
+  raw_message_json: true,
+  model: true,
+  token_count: true,
+  tools: true,
+  references: true,
+  performance_metadata: true,
+  referenced_messages: true,
+  confidence: true,
+  response_time_ms: true,
+  error_message: true,
+  citations: true,
+  created_at: true,
+  updated_at: true,
+  created_by_user: { select: ProfileOverviewSelect },
+  updated_by_user: { select: ProfileOverviewSelect },
+} as const;
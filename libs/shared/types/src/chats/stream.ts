@@ -0,0 +1,65 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from "class-validator";
+import { Expose, Type } from "class-transformer";
+import { MessageDto } from "./dtos";
+
+/** Nombre de messages précédents transmis au modèle avec une question */
+export const CHAT_HISTORY_LIMIT = 20;
+
+/** Longueur maximale de l'extrait d'un document du projet ajouté au contexte */
+export const CHAT_CONTEXT_EXCERPT_LENGTH = 1200;
+
+/**
+ * DTO d'envoi d'un message dans une conversation
+ */
+export class SendMessageDto {
+  @ApiProperty({ description: "Question de l'utilisateur", example: "Quels tickets bloquent la livraison du sprint ?", maxLength: 10000 })
+  @Expose()
+  @IsNotEmpty({ message: "Le message est requis" })
+  @IsString({ message: "Le message doit être une chaîne de caractères" })
+  @MaxLength(10000, { message: "Le message ne peut pas dépasser 10 000 caractères" })
+  message!: string;
+
+  @ApiPropertyOptional({ description: "Étape du workflow", example: "analyse", maxLength: 100 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "L'étape doit être une chaîne de caractères" })
+  @MaxLength(100, { message: "L'étape ne peut pas dépasser 100 caractères" })
+  step?: string;
+}
+
+/**
+ * Types d'évènements du flux de réponse
+ * - USER_MESSAGE : question enregistrée
+ * - TOKEN : fragment de la réponse de l'assistant
+ * - DONE : réponse complète enregistrée
+ * - ERROR : échec du modèle (la réponse partielle est enregistrée avec l'erreur)
+ */
+export enum ChatStreamEventType {
+  USER_MESSAGE = "USER_MESSAGE",
+  TOKEN = "TOKEN",
+  DONE = "DONE",
+  ERROR = "ERROR",
+}
+
+/**
+ * Évènement du flux de réponse d'une conversation (gRPC server streaming, SSE dans la gateway)
+ */
+export class ChatStreamEventDto {
+  @ApiProperty({ enum: ChatStreamEventType, example: ChatStreamEventType.TOKEN })
+  @Expose()
+  type!: ChatStreamEventType;
+
+  @ApiPropertyOptional({ type: MessageDto, description: "Message enregistré (USER_MESSAGE, DONE, ERROR)" })
+  @Expose()
+  @Type(() => MessageDto)
+  message?: MessageDto;
+
+  @ApiPropertyOptional({ description: "Fragment de réponse (TOKEN)", example: "Trois " })
+  @Expose()
+  token?: string;
+
+  @ApiPropertyOptional({ description: "Erreur du modèle (ERROR)", example: "LLM provider timed out" })
+  @Expose()
+  error?: string;
+}
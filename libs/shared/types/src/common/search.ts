@@ -1,7 +1,8 @@
 import { ApiProperty } from "@nestjs/swagger";
-import { IsOptional, IsString, IsObject, IsEnum, IsArray } from "class-validator";
+import { IsOptional, IsString, IsObject, IsEnum, IsArray, IsInt, Min, Max } from "class-validator";
 import { Expose, Type } from "class-transformer";
 import { BasePaginationDto, PaginationQueryDto, PaginationMeta } from "./page";
+import { parseTicketKey } from "../tickets/keys";
 
 /**
  * Options de tri pour les requêtes de recherche
@@ -195,6 +196,90 @@ export class BaseSearchQueryDto extends PaginationQueryDto {
   @Expose()
   @IsOptional()
   filters?: FilterRule[];
+
+  @ApiProperty({
+    description: "Nombre d'éléments renvoyés dans chaque groupe (0 : compteurs et sommes uniquement)",
+    example: 10,
+    type: "integer",
+    minimum: 0,
+    maximum: 100,
+    default: 0,
+    required: false,
+  })
+  @Expose()
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: "Le nombre d'éléments par groupe doit être un entier" })
+  @Min(0, { message: "Le nombre d'éléments par groupe ne peut pas être négatif" })
+  @Max(100, { message: "Le nombre d'éléments par groupe ne peut pas dépasser 100" })
+  groupItemsTake?: number;
+
+  @ApiProperty({
+    description: "Vue enregistrée dont les filtres, le tri et le groupement sont appliqués (les paramètres de la requête priment)",
+    example: 18,
+    type: "integer",
+    required: false,
+  })
+  @Expose()
+  @Type(() => Number)
+  @IsOptional()
+  @IsInt({ message: "L'ID de la vue doit être un entier" })
+  view_id?: number;
+}
+
+/**
+ * Groupe d'une recherche groupée (`groupBy` / `subGroupBy`)
+ * Les compteurs et les sommes portent sur l'ensemble des résultats filtrés, indépendamment de la pagination
+ */
+export abstract class BaseSearchGroupDto<T> {
+  @ApiProperty({
+    description: "Valeur du champ de groupement (date tronquée selon la granularité, null si non renseigné)",
+    example: "2025-09-22",
+    type: "string",
+    nullable: true,
+  })
+  @Expose()
+  key!: string | null;
+
+  @ApiProperty({ description: "Nombre d'éléments du groupe", example: 12, type: "integer" })
+  @Expose()
+  count!: number;
+
+  @ApiProperty({ description: "Somme des story points du groupe", example: 34 })
+  @Expose()
+  story_points!: number;
+
+  @ApiProperty({ description: "Somme des heures estimées du groupe", example: 56.5 })
+  @Expose()
+  estimated_hours!: number;
+
+  @ApiProperty({ description: "Premiers éléments du groupe (selon `groupItemsTake`)", isArray: true, required: false })
+  @Expose()
+  abstract items?: T[];
+
+  @ApiProperty({ description: "Sous-groupes (selon `subGroupBy`)", isArray: true, required: false })
+  @Expose()
+  abstract sub_groups?: BaseSearchGroupDto<T>[];
+}
+
+/**
+ * Groupe intermédiaire calculé par `SearchQueryBuilder.buildGroups`
+ */
+export interface SearchGroup<R> {
+  key: string | null;
+  count: number;
+  story_points: number;
+  estimated_hours: number;
+  items: R[];
+  sub_groups?: SearchGroup<R>[];
+}
+
+/**
+ * Mesures cumulées d'un élément dans un groupe
+ */
+export interface SearchGroupMeasures {
+  story_points: number;
+  estimated_hours: number;
 }
 
 /**
@@ -239,20 +324,28 @@ export class SearchQueryBuilder {
 
   /**
    * Construit les conditions de recherche pour Prisma
+   *
+   * @param keyField Champ contenant une clé lisible (ex: ticket_number). Une recherche ayant la forme
+   * d'une clé complète (ex: "gile-142") y est recherchée exactement, sinon par correspondance partielle.
    */
-  static buildSearchConditions(search?: string, searchFields: string[] = ["name", "description"]): Record<string, any> {
+  static buildSearchConditions(search?: string, searchFields: string[] = ["name", "description"], keyField?: string): Record<string, any> {
     if (!search) {
       return {};
     }
 
-    return {
-      OR: searchFields.map(field => ({
-        [field]: {
-          contains: search,
-          mode: "insensitive" as const,
-        },
-      })),
-    };
+    const conditions: Record<string, any>[] = searchFields.map(field => ({
+      [field]: {
+        contains: search,
+        mode: "insensitive" as const,
+      },
+    }));
+
+    if (keyField) {
+      const key = parseTicketKey(search);
+      conditions.push(key ? { [keyField]: { equals: key.key } } : { [keyField]: { contains: search.trim(), mode: "insensitive" as const } });
+    }
+
+    return { OR: conditions };
   }
 
   /**
@@ -379,6 +472,117 @@ export class SearchQueryBuilder {
     return where;
   }
 
+  /**
+   * Répartit des lignes (déjà triées) en groupes et sous-groupes
+   *
+   * Les champs date sont tronqués selon la granularité (semaines ISO débutant le lundi, en UTC).
+   * Les groupes sont triés par clé croissante, le groupe `null` en dernier ; chaque groupe conserve
+   * les `itemsTake` premières lignes dans l'ordre reçu.
+   *
+   * @param rows Lignes à grouper
+   * @param groupBy Groupement principal
+   * @param subGroupBy Sous-groupement (optionnel)
+   * @param measure Story points et heures estimées d'une ligne
+   * @param itemsTake Nombre de lignes conservées par groupe
+   */
+  static buildGroups<R extends Record<string, any>>(
+    rows: R[],
+    groupBy: GroupByOption,
+    subGroupBy: GroupByOption | undefined,
+    measure: (row: R) => SearchGroupMeasures,
+    itemsTake = 0,
+  ): SearchGroup<R>[] {
+    const buckets = new Map<string | null, { group: SearchGroup<R>; rows: R[] }>();
+
+    for (const row of rows) {
+      const key = this.groupKey(row[groupBy.field], groupBy.fieldGranularity);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = { group: { key, count: 0, story_points: 0, estimated_hours: 0, items: [] }, rows: [] };
+        buckets.set(key, bucket);
+      }
+
+      const { story_points, estimated_hours } = measure(row);
+      bucket.group.count++;
+      bucket.group.story_points += story_points;
+      bucket.group.estimated_hours += estimated_hours;
+      if (bucket.group.items.length < itemsTake) {
+        bucket.group.items.push(row);
+      }
+      bucket.rows.push(row);
+    }
+
+    return [...buckets.values()]
+      .sort((a, b) => this.compareKeys(a.group.key, b.group.key))
+      .map(({ group, rows: groupRows }) => ({
+        ...group,
+        story_points: Math.round(group.story_points * 100) / 100,
+        estimated_hours: Math.round(group.estimated_hours * 100) / 100,
+        sub_groups: subGroupBy ? this.buildGroups(groupRows, subGroupBy, undefined, measure, itemsTake) : undefined,
+      }));
+  }
+
+  /**
+   * Remplace les lignes conservées dans les groupes par leur représentation finale
+   */
+  static mapGroupItems<R, T>(groups: SearchGroup<R>[], mapper: (row: R) => T | undefined): SearchGroup<T>[] {
+    return groups.map(group => ({
+      ...group,
+      items: group.items.map(mapper).filter((item): item is T => item !== undefined),
+      sub_groups: group.sub_groups ? this.mapGroupItems(group.sub_groups, mapper) : undefined,
+    }));
+  }
+
+  /**
+   * Liste les lignes conservées dans les groupes et sous-groupes
+   */
+  static collectGroupItems<R>(groups: SearchGroup<R>[]): R[] {
+    return groups.flatMap(group => [...group.items, ...(group.sub_groups ? this.collectGroupItems(group.sub_groups) : [])]);
+  }
+
+  /**
+   * Clé de groupe d'une valeur : date tronquée (AAAA-MM-JJ), chaîne, ou null
+   */
+  static groupKey(value: unknown, granularity?: Granularity): string | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (value instanceof Date) {
+      return this.truncateDate(value, granularity ?? Granularity.DAY)
+        .toISOString()
+        .split("T")[0];
+    }
+    return String(value as string | number | boolean);
+  }
+
+  /**
+   * Tronque une date au début de sa période (UTC)
+   */
+  static truncateDate(date: Date, granularity: Granularity): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (granularity) {
+      case Granularity.YEAR:
+        return new Date(Date.UTC(year, 0, 1));
+      case Granularity.MONTH:
+        return new Date(Date.UTC(year, month, 1));
+      case Granularity.WEEK:
+        return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+      case Granularity.DAY:
+      default:
+        return new Date(Date.UTC(year, month, day));
+    }
+  }
+
+  private static compareKeys(a: string | null, b: string | null): number {
+    if (a === b) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return a.localeCompare(b, undefined, { numeric: true });
+  }
+
   /**
    * Calcule les métadonnées de pagination
    */
@@ -14,22 +14,39 @@ export * from "./workspace/dtos";
 export * from "./tickets/dtos";
 export * from "./sprints/dtos";
 export * from "./sprints/options";
+export * from "./sprints/burndown";
+export * from "./sprints/capacity";
 export * from "./tickets/options";
+export * from "./tickets/keys";
+export * from "./tickets/rank";
+export * from "./tickets/backlog";
+export * from "./tickets/bulk";
+export * from "./tickets/drafts";
+export * from "./ticket-workflows/dtos";
+export * from "./ticket-comments/dtos";
+export * from "./worklogs/dtos";
+export * from "./saved-views/dtos";
 export * from "./projects/options";
 export * from "./user-preferences/dtos";
 export * from "./notifications/dtos";
 export * from "./activity-logs/dtos";
+export * from "./analytics/dtos";
 export * from "./model-usage/dtos";
+export * from "./model-usage/reports";
 export * from "./workflow-definitions/dtos";
 export * from "./conversation-types/dtos";
 export * from "./chatbot-configurations/dtos";
 export * from "./completion-definitions/dtos";
 export * from "./projects/dtos";
+export * from "./projects/progress";
 export * from "./agents/dtos";
+export * from "./agents/compose";
 export * from "./labels/dtos";
 export * from "./teams/dtos";
 export * from "./stacks/dtos";
+export * from "./languages/dtos";
 export * from "./chats/dtos";
+export * from "./chats/stream";
 export * from "./epics/dtos";
 export * from "./tasks/dtos";
 export * from "./common/page";
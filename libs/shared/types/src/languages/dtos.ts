@@ -0,0 +1,175 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsHexColor, IsInt, IsOptional, IsString, Length, MaxLength, Min } from "class-validator";
+import { Expose, Transform } from "class-transformer";
+import { BasePaginationDto } from "../common/page";
+
+/**
+ * DTO pour la création d'un langage du catalogue
+ * Compatible avec Prisma model languages
+ */
+export class CreateLanguageDto {
+  @ApiProperty({
+    description: "Nom unique du langage",
+    example: "TypeScript",
+    minLength: 1,
+    maxLength: 100,
+    type: "string",
+  })
+  @Expose()
+  @IsString({ message: "Le nom doit être une chaîne de caractères" })
+  @Length(1, 100, { message: "Le nom doit contenir entre 1 et 100 caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  name!: string;
+
+  @ApiPropertyOptional({
+    description: "Icône du langage (nom ou URL courte)",
+    example: "typescript",
+    maxLength: 100,
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "L'icône doit être une chaîne de caractères" })
+  @MaxLength(100, { message: "L'icône ne peut pas dépasser 100 caractères" })
+  icon?: string;
+
+  @ApiPropertyOptional({
+    description: "Couleur hexadécimale du langage",
+    example: "#3178C6",
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsHexColor({ message: "La couleur doit être au format hexadécimal (#RRGGBB)" })
+  color?: string;
+
+  @ApiPropertyOptional({
+    description: "Description du langage",
+    example: "Typed superset of JavaScript",
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "La description doit être une chaîne de caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  description?: string;
+}
+
+/**
+ * DTO pour la mise à jour d'un langage
+ * Tous les champs sont optionnels pour permettre les mises à jour partielles
+ */
+export class UpdateLanguageDto {
+  @ApiPropertyOptional({
+    description: "Nom unique du langage",
+    example: "TypeScript",
+    minLength: 1,
+    maxLength: 100,
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le nom doit être une chaîne de caractères" })
+  @Length(1, 100, { message: "Le nom doit contenir entre 1 et 100 caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: "Icône du langage (nom ou URL courte)",
+    example: "typescript",
+    maxLength: 100,
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "L'icône doit être une chaîne de caractères" })
+  @MaxLength(100, { message: "L'icône ne peut pas dépasser 100 caractères" })
+  icon?: string;
+
+  @ApiPropertyOptional({
+    description: "Couleur hexadécimale du langage",
+    example: "#3178C6",
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsHexColor({ message: "La couleur doit être au format hexadécimal (#RRGGBB)" })
+  color?: string;
+
+  @ApiPropertyOptional({
+    description: "Description du langage",
+    example: "Typed superset of JavaScript",
+    type: "string",
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "La description doit être une chaîne de caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  description?: string;
+}
+
+/**
+ * DTO complet d'un langage du catalogue
+ * Compatible avec gRPC message LanguageDto
+ */
+export class LanguageDto {
+  @ApiProperty({
+    description: "ID unique du langage",
+    example: 1,
+    type: "integer",
+    minimum: 1,
+  })
+  @Expose()
+  @IsInt({ message: "L'ID doit être un nombre entier" })
+  @Min(1, { message: "L'ID doit être positif" })
+  id!: number;
+
+  @ApiProperty({ description: "Nom unique du langage", example: "TypeScript" })
+  @Expose()
+  name!: string;
+
+  @ApiPropertyOptional({ description: "Icône du langage", example: "typescript", nullable: true })
+  @Expose()
+  icon?: string | null;
+
+  @ApiPropertyOptional({ description: "Couleur hexadécimale du langage", example: "#3178C6", nullable: true })
+  @Expose()
+  color?: string | null;
+
+  @ApiPropertyOptional({ description: "Description du langage", example: "Typed superset of JavaScript", nullable: true })
+  @Expose()
+  description?: string | null;
+
+  @ApiProperty({ description: "Nombre de stacks utilisant ce langage", example: 4, type: "integer" })
+  @Expose()
+  stacks_count!: number;
+
+  @ApiProperty({ description: "Date de création (ISO 8601)", example: "2024-01-15T10:00:00Z", format: "date-time" })
+  @Expose()
+  created_at!: string;
+
+  @ApiPropertyOptional({ description: "Date de dernière modification (ISO 8601)", example: "2024-01-15T14:30:00Z", format: "date-time", nullable: true })
+  @Expose()
+  updated_at?: string | null;
+}
+
+export class LanguageListDto extends BasePaginationDto<LanguageDto> {
+  @ApiProperty({
+    type: [LanguageDto],
+    description: "Liste des langages",
+  })
+  @Expose()
+  items!: LanguageDto[];
+}
+
+// Prisma select types for type-safe queries
+export const LanguageDtoSelect = {
+  id: true,
+  name: true,
+  icon: true,
+  color: true,
+  description: true,
+  created_at: true,
+  updated_at: true,
+  _count: { select: { stacks: true } },
+} as const;
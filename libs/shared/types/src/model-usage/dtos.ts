@@ -41,8 +41,9 @@ export class CreateModelUsageDto {
   @IsString()
   from?: string;
 
-  @ApiProperty({ example: "b3fb243f-8368-47aa-bcc7-072f049db8af", description: "User ID" })
-  user_id!: string;
+  @ApiPropertyOptional({ example: "b3fb243f-8368-47aa-bcc7-072f049db8af", description: "User ID (absent for background calls such as indexing)" })
+  @IsOptional()
+  user_id?: string;
 
   @ApiProperty({ example: "workspace-uuid-123", description: "Workspace ID" })
   workspace_id!: string;
@@ -51,8 +52,9 @@ export class CreateModelUsageDto {
   @IsOptional()
   project_id?: number;
 
-  @ApiProperty({ example: 123, description: "Agent ID" })
-  agent_id!: number;
+  @ApiPropertyOptional({ example: 123, description: "Agent ID" })
+  @IsOptional()
+  agent_id?: number;
 }
 
 export class ModelUsageOverview {
@@ -71,6 +73,9 @@ export class ModelUsageOverview {
   @ApiProperty({ example: "gpt-4", nullable: true })
   model?: string | null;
 
+  @ApiProperty({ example: 0.0012, nullable: true, description: "Cost in USD from the model price table (null if the model is not priced)" })
+  cost?: number | null;
+
   @ApiProperty({
     type: ProfileOverview,
     example: {
@@ -79,7 +84,7 @@ export class ModelUsageOverview {
       avatar_url: null,
     },
   })
-  user!: ProfileOverview;
+  user?: ProfileOverview | null;
 
   @ApiProperty({
     type: AgentOverview,
@@ -0,0 +1,191 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, IsUUID, Min, ValidateIf } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+
+/** Contextes d'appel enregistrés dans model_usage.from */
+export enum ModelUsageSource {
+  CHAT = "chat",
+  EMBEDDING = "embedding",
+  TICKET_DRAFT = "ticket_draft",
+}
+
+/** Durée maximale d'un rapport de consommation, en jours */
+export const MODEL_USAGE_REPORT_MAX_DAYS = 366;
+
+/**
+ * Axe de regroupement d'un rapport de consommation
+ */
+export enum ModelUsageGroupBy {
+  DAY = "DAY",
+  AGENT = "AGENT",
+  USER = "USER",
+  PROJECT = "PROJECT",
+  MODEL = "MODEL",
+}
+
+/**
+ * Paramètres d'un rapport de consommation des modèles d'un workspace
+ * Par défaut : du premier jour du mois courant à aujourd'hui (UTC)
+ */
+export class ModelUsageReportQueryDto {
+  @ApiProperty({ enum: ModelUsageGroupBy, enumName: "ModelUsageGroupBy", example: ModelUsageGroupBy.DAY })
+  @Expose()
+  @IsEnum(ModelUsageGroupBy, { message: "Regroupement invalide" })
+  group_by!: ModelUsageGroupBy;
+
+  @ApiPropertyOptional({ description: "Premier jour inclus", example: "2025-09-01", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de début doit être au format ISO 8601" })
+  from_date?: string;
+
+  @ApiPropertyOptional({ description: "Dernier jour inclus", example: "2025-09-30", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de fin doit être au format ISO 8601" })
+  to_date?: string;
+
+  @ApiPropertyOptional({ description: "Restreint le rapport à un projet", example: 42, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du projet doit être un entier" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  project_id?: number;
+
+  @ApiPropertyOptional({ description: "Restreint le rapport à une version d'agent", example: 3, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID de l'agent doit être un entier" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  agent_id?: number;
+
+  @ApiPropertyOptional({ description: "Restreint le rapport à un utilisateur", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  @IsOptional()
+  @IsUUID("all", { message: "L'ID de l'utilisateur doit être un UUID" })
+  user_id?: string;
+
+  @ApiPropertyOptional({ description: "Restreint le rapport à un contexte d'appel", enum: ModelUsageSource, example: ModelUsageSource.CHAT })
+  @Expose()
+  @IsOptional()
+  @IsString()
+  source?: string;
+}
+
+/**
+ * Ligne d'un rapport de consommation
+ * `key` vaut la date (DAY), l'ID de l'agent, de l'utilisateur ou du projet, ou le nom du modèle ; null pour les appels sans rattachement
+ */
+export class ModelUsageReportRowDto {
+  @ApiProperty({ example: "2025-09-24", nullable: true })
+  @Expose()
+  key!: string | null;
+
+  @ApiProperty({ example: "Project Assistant v2", nullable: true })
+  @Expose()
+  label!: string | null;
+
+  @ApiProperty({ example: 12 })
+  @Expose()
+  requests!: number;
+
+  @ApiProperty({ description: "Tokens envoyés au modèle", example: 5400 })
+  @Expose()
+  input_tokens!: number;
+
+  @ApiProperty({ description: "Tokens générés par le modèle", example: 1800 })
+  @Expose()
+  output_tokens!: number;
+
+  @ApiProperty({ example: 0 })
+  @Expose()
+  cached_tokens!: number;
+
+  @ApiProperty({ example: 7200 })
+  @Expose()
+  total_tokens!: number;
+
+  @ApiProperty({ description: "Coût en USD des appels dont le modèle a un prix", example: 0.00189 })
+  @Expose()
+  cost!: number;
+
+  @ApiProperty({ description: "Appels dont le modèle n'a pas de prix", example: 0 })
+  @Expose()
+  unpriced_requests!: number;
+}
+
+/**
+ * Rapport de consommation des modèles d'un workspace
+ */
+export class ModelUsageReportDto {
+  @ApiProperty({ format: "uuid", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  workspace_id!: string;
+
+  @ApiProperty({ enum: ModelUsageGroupBy, enumName: "ModelUsageGroupBy" })
+  @Expose()
+  group_by!: ModelUsageGroupBy;
+
+  @ApiProperty({ example: "2025-09-01", format: "date" })
+  @Expose()
+  from_date!: string;
+
+  @ApiProperty({ example: "2025-09-30", format: "date" })
+  @Expose()
+  to_date!: string;
+
+  @ApiProperty({ type: [ModelUsageReportRowDto], description: "Lignes par jour croissant, sinon par nombre de tokens décroissant" })
+  @Expose()
+  @Type(() => ModelUsageReportRowDto)
+  rows!: ModelUsageReportRowDto[];
+
+  @ApiProperty({ type: ModelUsageReportRowDto })
+  @Expose()
+  @Type(() => ModelUsageReportRowDto)
+  totals!: ModelUsageReportRowDto;
+}
+
+/**
+ * Quota mensuel de tokens d'un workspace et consommation du mois courant (UTC)
+ */
+export class WorkspaceTokenQuotaDto {
+  @ApiProperty({ format: "uuid", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  workspace_id!: string;
+
+  @ApiProperty({ description: "Quota mensuel (null : illimité)", example: 2000000, nullable: true })
+  @Expose()
+  monthly_token_quota!: number | null;
+
+  @ApiProperty({ example: 154000 })
+  @Expose()
+  used_tokens!: number;
+
+  @ApiProperty({ example: 1846000, nullable: true })
+  @Expose()
+  remaining_tokens!: number | null;
+
+  @ApiProperty({ example: false })
+  @Expose()
+  exceeded!: boolean;
+
+  @ApiProperty({ example: "2025-09-01T00:00:00.000Z", format: "date-time" })
+  @Expose()
+  period_start!: string;
+
+  @ApiProperty({ example: "2025-10-01T00:00:00.000Z", format: "date-time" })
+  @Expose()
+  period_end!: string;
+}
+
+/**
+ * Modification du quota mensuel de tokens d'un workspace
+ */
+export class UpdateWorkspaceTokenQuotaDto {
+  @ApiProperty({ description: "Quota mensuel de tokens (null : illimité)", example: 2000000, nullable: true, type: "integer" })
+  @Expose()
+  @ValidateIf((_, value) => value !== null)
+  @IsInt({ message: "Le quota doit être un entier" })
+  @Min(0, { message: "Le quota ne peut pas être négatif" })
+  monthly_token_quota!: number | null;
+}
@@ -1,6 +1,24 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsOptional, IsString, IsBoolean, IsDateString } from "class-validator";
-import { ProfileOverview } from "../profile/dtos";
+import { IsOptional, IsBoolean, IsDateString, IsMilitaryTime, IsInt, Min, Max } from "class-validator";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
+
+export enum NotificationType {
+  EMAIL = "EMAIL",
+  IN_APP = "IN_APP",
+  PUSH = "PUSH",
+  SMS = "SMS",
+}
+
+export enum NotificationEvent {
+  TICKET_ASSIGNED = "TICKET_ASSIGNED",
+  TICKET_COMPLETED = "TICKET_COMPLETED",
+  TICKET_COMMENT = "TICKET_COMMENT",
+  TICKET_DUE = "TICKET_DUE",
+  MENTIONED = "MENTIONED",
+  PROJECT_UPDATE = "PROJECT_UPDATE",
+  SPRINT_STARTED = "SPRINT_STARTED",
+  SPRINT_COMPLETED = "SPRINT_COMPLETED",
+}
 
 export class CreateUserNotificationSettingsDto {
   @ApiPropertyOptional({ example: true, description: "Global notifications enabled" })
@@ -85,7 +103,7 @@ export class CreateUserNotificationSettingsDto {
 
   @ApiPropertyOptional({ example: "09:00", description: "Digest notification time (HH:MM)" })
   @IsOptional()
-  @IsString()
+  @IsMilitaryTime()
   digest_time?: string;
 }
 
@@ -172,7 +190,7 @@ export class UpdateUserNotificationSettingsDto {
 
   @ApiPropertyOptional({ example: "14:30", description: "Digest notification time (HH:MM)" })
   @IsOptional()
-  @IsString()
+  @IsMilitaryTime()
   digest_time?: string;
 }
 
@@ -255,3 +273,184 @@ export class UserNotificationSettingsDto {
   })
   updated_by?: ProfileOverview;
 }
+
+export class NotificationDto {
+  @ApiProperty({ example: "b3fb243f-8368-47aa-bcc7-072f049db8af" })
+  id!: string;
+
+  @ApiProperty({ example: "2025-09-23T10:30:15.456Z" })
+  created_at!: string;
+
+  @ApiProperty({ example: "b3fb243f-8368-47aa-bcc7-072f049db8af", description: "Recipient user ID" })
+  user_id!: string;
+
+  @ApiProperty({ enum: NotificationEvent, example: NotificationEvent.TICKET_ASSIGNED })
+  event!: NotificationEvent;
+
+  @ApiProperty({ example: 'You have been assigned to "Fix login issue"' })
+  title!: string;
+
+  @ApiProperty({ example: "johnsmith assigned this ticket to you", nullable: true })
+  body?: string | null;
+
+  @ApiProperty({ example: 1, nullable: true })
+  project_id?: number | null;
+
+  @ApiProperty({ example: 456, nullable: true })
+  ticket_id?: number | null;
+
+  @ApiProperty({ example: 12, nullable: true })
+  sprint_id?: number | null;
+
+  @ApiProperty({ type: Object, example: { comment_id: 42 }, nullable: true })
+  metadata?: Record<string, any> | null;
+
+  @ApiProperty({ enum: NotificationType, isArray: true, example: [NotificationType.IN_APP, NotificationType.EMAIL] })
+  channels!: NotificationType[];
+
+  @ApiProperty({ example: false })
+  is_read!: boolean;
+
+  @ApiProperty({ example: "2025-09-23T11:00:00.000Z", nullable: true })
+  read_at?: string | null;
+
+  @ApiPropertyOptional({ type: ProfileOverview, description: "User who triggered the notification", nullable: true })
+  actor?: ProfileOverview | null;
+}
+
+export class NotificationsListDto {
+  @ApiProperty({ type: [NotificationDto] })
+  items!: NotificationDto[];
+
+  @ApiProperty({ example: 100 })
+  total!: number;
+
+  @ApiProperty({ example: 0 })
+  skip!: number;
+
+  @ApiProperty({ example: 25 })
+  take!: number;
+
+  @ApiProperty({ example: 3, description: "Number of unread notifications in the inbox" })
+  unread!: number;
+}
+
+export class NotificationFilterDto {
+  @ApiPropertyOptional({ example: true, description: "Only return unread notifications" })
+  @IsOptional()
+  @IsBoolean()
+  unread_only?: boolean;
+
+  @ApiPropertyOptional({ example: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  skip?: number;
+
+  @ApiPropertyOptional({ example: 25 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  take?: number;
+}
+
+export const NotificationDtoSelect = {
+  id: true,
+  created_at: true,
+  user_id: true,
+  event: true,
+  title: true,
+  body: true,
+  project_id: true,
+  ticket_id: true,
+  sprint_id: true,
+  metadata: true,
+  channels: true,
+  is_read: true,
+  read_at: true,
+  actor: { select: ProfileOverviewSelect },
+} as const;
+
+export enum DigestPeriod {
+  DAILY = "DAILY",
+  WEEKLY = "WEEKLY",
+}
+
+export class DigestTicketItem {
+  @ApiProperty({ example: 456 })
+  id!: number;
+
+  @ApiProperty({ example: "Fix login issue" })
+  title!: string;
+
+  @ApiProperty({ example: "GILE-142", nullable: true })
+  ticket_number?: string | null;
+
+  @ApiProperty({ example: "VALIDATED" })
+  status!: string;
+
+  @ApiProperty({ example: "Gile Backend", nullable: true })
+  project_name?: string | null;
+
+  @ApiProperty({ example: "2025-09-25", nullable: true })
+  due_date?: string | null;
+}
+
+export class DigestSprintItem {
+  @ApiProperty({ example: 12 })
+  id!: number;
+
+  @ApiProperty({ example: "Sprint 12" })
+  name!: string;
+
+  @ApiProperty({ example: "ACTIVE", description: "Status after the change" })
+  status!: string;
+
+  @ApiProperty({ example: "PLANNED", nullable: true, description: "Status before the change" })
+  previous_status?: string | null;
+
+  @ApiProperty({ example: "Gile Backend" })
+  project_name!: string;
+
+  @ApiProperty({ example: "2025-09-23T10:30:15.456Z" })
+  changed_at!: string;
+}
+
+export class NotificationDigestDto {
+  @ApiProperty({ enum: DigestPeriod, example: DigestPeriod.DAILY })
+  period!: DigestPeriod;
+
+  @ApiProperty({ example: "2025-09-22T09:00:00.000Z", description: "Start of the covered period" })
+  since!: string;
+
+  @ApiProperty({ example: "2025-09-23T09:00:00.000Z", description: "End of the covered period" })
+  until!: string;
+
+  @ApiProperty({ example: "Europe/Paris" })
+  timezone!: string;
+
+  @ApiProperty({ type: [DigestTicketItem], description: "Tickets assigned to the user during the period" })
+  assigned!: DigestTicketItem[];
+
+  @ApiProperty({ type: [DigestTicketItem], description: "User's tickets moved to VALIDATED or PROD during the period" })
+  completed!: DigestTicketItem[];
+
+  @ApiProperty({ type: [DigestTicketItem], description: "Open tickets assigned to the user with an upcoming due date" })
+  due_soon!: DigestTicketItem[];
+
+  @ApiProperty({ type: [DigestSprintItem], description: "Sprint status changes across the user's workspaces" })
+  sprints!: DigestSprintItem[];
+
+  @ApiProperty({ example: false, description: "True when there is nothing to report (such digests are not sent)" })
+  is_empty!: boolean;
+
+  @ApiProperty({ example: "Your daily Gile digest" })
+  subject!: string;
+
+  @ApiProperty({ description: "Plain text rendering" })
+  text!: string;
+
+  @ApiProperty({ description: "HTML rendering" })
+  html!: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Expose } from "class-transformer";
+
+/**
+ * Résultat d'un recalcul de l'avancement des epics et des projets
+ */
+export class ProgressRecalculationDto {
+  @ApiPropertyOptional({ description: "Projet recalculé (absent pour un workspace ou l'ensemble des projets)", example: 4, nullable: true })
+  @Expose()
+  project_id?: number | null;
+
+  @ApiPropertyOptional({ description: "Workspace recalculé", example: "0b6f1c2e-4d1a-4a8b-9f3e-2c5d7e8f9a10", nullable: true })
+  @Expose()
+  workspace_id?: string | null;
+
+  @ApiProperty({ description: "Projets parcourus", example: 12 })
+  @Expose()
+  projects!: number;
+
+  @ApiProperty({ description: "Epics parcourues", example: 48 })
+  @Expose()
+  epics!: number;
+
+  @ApiProperty({ description: "Projets dont l'avancement a changé", example: 3 })
+  @Expose()
+  updated_projects!: number;
+
+  @ApiProperty({ description: "Epics dont l'avancement a changé", example: 17 })
+  @Expose()
+  updated_epics!: number;
+}
@@ -0,0 +1,338 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ArrayMaxSize, IsArray, IsEnum, IsInt, IsOptional, IsString, IsUUID, MaxLength, Min, MinLength, ValidateNested } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+import { FilterRule, GroupByOption, SortOption } from "../common/search";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
+
+/** Nombre maximal de colonnes visibles d'une vue */
+export const MAX_SAVED_VIEW_COLUMNS = 50;
+
+/** Nombre maximal de filtres enregistrés dans une vue */
+export const MAX_SAVED_VIEW_FILTERS = 50;
+
+/**
+ * Entités dont la recherche accepte une vue enregistrée (`viewId`)
+ */
+export enum SavedViewEntityType {
+  TICKET = "TICKET",
+  EPIC = "EPIC",
+  TASK = "TASK",
+  SPRINT = "SPRINT",
+}
+
+/**
+ * Présentation de la vue côté client
+ */
+export enum SavedViewType {
+  KANBAN = "KANBAN",
+  LIST = "LIST",
+  TIMELINE = "TIMELINE",
+}
+
+/**
+ * Portée de partage d'une vue
+ * - PRIVATE : visible de son seul propriétaire
+ * - TEAM : visible des membres de l'équipe `team_id`
+ * - WORKSPACE : visible de tous les membres de l'espace de travail
+ */
+export enum SavedViewVisibility {
+  PRIVATE = "PRIVATE",
+  TEAM = "TEAM",
+  WORKSPACE = "WORKSPACE",
+}
+
+/**
+ * DTO de création d'une vue enregistrée
+ * Les filtres, le tri et le groupement sont ceux des endpoints de recherche de l'entité
+ */
+export class CreateSavedViewDto {
+  @ApiProperty({ description: "Nom de la vue", example: "My open bugs", maxLength: 100 })
+  @Expose()
+  @IsString({ message: "Le nom doit être une chaîne de caractères" })
+  @MinLength(1, { message: "Le nom est requis" })
+  @MaxLength(100, { message: "Le nom ne peut pas dépasser 100 caractères" })
+  name!: string;
+
+  @ApiPropertyOptional({ example: "Bugs assigned to me that are not validated yet", maxLength: 1000 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "La description doit être une chaîne de caractères" })
+  @MaxLength(1000, { message: "La description ne peut pas dépasser 1000 caractères" })
+  description?: string;
+
+  @ApiProperty({ enum: SavedViewEntityType, example: SavedViewEntityType.TICKET })
+  @Expose()
+  @IsEnum(SavedViewEntityType, { message: "Type d'entité invalide" })
+  entity_type!: SavedViewEntityType;
+
+  @ApiPropertyOptional({ enum: SavedViewType, default: SavedViewType.LIST })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SavedViewType, { message: "Type de vue invalide" })
+  view_type?: SavedViewType;
+
+  @ApiPropertyOptional({ enum: SavedViewVisibility, default: SavedViewVisibility.PRIVATE })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SavedViewVisibility, { message: "Visibilité invalide" })
+  visibility?: SavedViewVisibility;
+
+  @ApiPropertyOptional({ description: "Équipe avec laquelle la vue est partagée (requise pour la visibilité TEAM)", format: "uuid" })
+  @Expose()
+  @IsOptional()
+  @IsUUID("4", { message: "L'ID de l'équipe doit être un UUID" })
+  team_id?: string;
+
+  @ApiPropertyOptional({ description: "Projet auquel la vue est limitée (toutes les recherches de l'espace si absent)", example: 42, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du projet doit être un entier" })
+  @Min(1, { message: "L'ID du projet doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  project_id?: number;
+
+  @ApiPropertyOptional({ type: [FilterRule], description: "Filtres appliqués par la vue" })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_SAVED_VIEW_FILTERS, { message: `Une vue ne peut pas contenir plus de ${MAX_SAVED_VIEW_FILTERS} filtres` })
+  @ValidateNested({ each: true })
+  @Type(() => FilterRule)
+  filters?: FilterRule[];
+
+  @ApiPropertyOptional({ type: SortOption })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SortOption)
+  sort_by?: SortOption;
+
+  @ApiPropertyOptional({ type: GroupByOption })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GroupByOption)
+  group_by?: GroupByOption;
+
+  @ApiPropertyOptional({ type: GroupByOption })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GroupByOption)
+  sub_group_by?: GroupByOption;
+
+  @ApiPropertyOptional({ type: [String], description: "Colonnes visibles, dans l'ordre d'affichage", example: ["ticket_number", "title", "status", "assigned_to"] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_SAVED_VIEW_COLUMNS, { message: `Une vue ne peut pas afficher plus de ${MAX_SAVED_VIEW_COLUMNS} colonnes` })
+  @IsString({ each: true, message: "Les colonnes doivent être des chaînes de caractères" })
+  columns?: string[];
+}
+
+/**
+ * DTO de modification d'une vue enregistrée (l'entité et le projet ne changent pas)
+ */
+export class UpdateSavedViewDto {
+  @ApiPropertyOptional({ example: "My open bugs", maxLength: 100 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le nom doit être une chaîne de caractères" })
+  @MinLength(1, { message: "Le nom est requis" })
+  @MaxLength(100, { message: "Le nom ne peut pas dépasser 100 caractères" })
+  name?: string;
+
+  @ApiPropertyOptional({ maxLength: 1000, nullable: true })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "La description doit être une chaîne de caractères" })
+  @MaxLength(1000, { message: "La description ne peut pas dépasser 1000 caractères" })
+  description?: string;
+
+  @ApiPropertyOptional({ enum: SavedViewType })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SavedViewType, { message: "Type de vue invalide" })
+  view_type?: SavedViewType;
+
+  @ApiPropertyOptional({ enum: SavedViewVisibility })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SavedViewVisibility, { message: "Visibilité invalide" })
+  visibility?: SavedViewVisibility;
+
+  @ApiPropertyOptional({ description: "Équipe de partage (requise pour la visibilité TEAM)", format: "uuid" })
+  @Expose()
+  @IsOptional()
+  @IsUUID("4", { message: "L'ID de l'équipe doit être un UUID" })
+  team_id?: string;
+
+  @ApiPropertyOptional({ type: [FilterRule], description: "Remplace les filtres de la vue" })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_SAVED_VIEW_FILTERS, { message: `Une vue ne peut pas contenir plus de ${MAX_SAVED_VIEW_FILTERS} filtres` })
+  @ValidateNested({ each: true })
+  @Type(() => FilterRule)
+  filters?: FilterRule[];
+
+  @ApiPropertyOptional({ type: SortOption, nullable: true })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => SortOption)
+  sort_by?: SortOption | null;
+
+  @ApiPropertyOptional({ type: GroupByOption, nullable: true })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GroupByOption)
+  group_by?: GroupByOption | null;
+
+  @ApiPropertyOptional({ type: GroupByOption, nullable: true })
+  @Expose()
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => GroupByOption)
+  sub_group_by?: GroupByOption | null;
+
+  @ApiPropertyOptional({ type: [String], description: "Remplace les colonnes visibles" })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_SAVED_VIEW_COLUMNS, { message: `Une vue ne peut pas afficher plus de ${MAX_SAVED_VIEW_COLUMNS} colonnes` })
+  @IsString({ each: true, message: "Les colonnes doivent être des chaînes de caractères" })
+  columns?: string[];
+}
+
+/**
+ * Filtres de la liste des vues d'un espace de travail
+ */
+export class SavedViewFilterDto {
+  @ApiPropertyOptional({ enum: SavedViewEntityType })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SavedViewEntityType, { message: "Type d'entité invalide" })
+  entity_type?: SavedViewEntityType;
+
+  @ApiPropertyOptional({ description: "Vues utilisables sur ce projet (vues du projet et vues de l'espace)", example: 42, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du projet doit être un entier" })
+  project_id?: number;
+}
+
+/**
+ * Vue enregistrée
+ */
+export class SavedViewDto {
+  @ApiProperty({ example: 18 })
+  @Expose()
+  id!: number;
+
+  @ApiProperty({ example: "3f1c2b4a-9d8e-4f7a-b6c5-1a2b3c4d5e6f" })
+  @Expose()
+  workspace_id!: string;
+
+  @ApiPropertyOptional({ example: 42, nullable: true })
+  @Expose()
+  project_id!: number | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  team_id!: string | null;
+
+  @ApiProperty({ example: "My open bugs" })
+  @Expose()
+  name!: string;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  description!: string | null;
+
+  @ApiProperty({ enum: SavedViewEntityType, example: SavedViewEntityType.TICKET })
+  @Expose()
+  entity_type!: SavedViewEntityType;
+
+  @ApiProperty({ enum: SavedViewType, example: SavedViewType.KANBAN })
+  @Expose()
+  view_type!: SavedViewType;
+
+  @ApiProperty({ enum: SavedViewVisibility, example: SavedViewVisibility.PRIVATE })
+  @Expose()
+  visibility!: SavedViewVisibility;
+
+  @ApiProperty({ type: [FilterRule] })
+  @Expose()
+  @Type(() => FilterRule)
+  filters!: FilterRule[];
+
+  @ApiPropertyOptional({ type: SortOption, nullable: true })
+  @Expose()
+  @Type(() => SortOption)
+  sort_by!: SortOption | null;
+
+  @ApiPropertyOptional({ type: GroupByOption, nullable: true })
+  @Expose()
+  @Type(() => GroupByOption)
+  group_by!: GroupByOption | null;
+
+  @ApiPropertyOptional({ type: GroupByOption, nullable: true })
+  @Expose()
+  @Type(() => GroupByOption)
+  sub_group_by!: GroupByOption | null;
+
+  @ApiProperty({ type: [String], example: ["ticket_number", "title", "status"] })
+  @Expose()
+  columns!: string[];
+
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  created_by!: string;
+
+  @ApiPropertyOptional({ type: ProfileOverview })
+  @Expose()
+  @Type(() => ProfileOverview)
+  owner?: ProfileOverview;
+
+  @ApiProperty({ description: "L'utilisateur courant peut modifier la vue", example: true })
+  @Expose()
+  can_edit!: boolean;
+
+  @ApiProperty({ example: "2025-09-24T10:00:00.000Z" })
+  @Expose()
+  created_at!: string;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  updated_at!: string | null;
+}
+
+export class SavedViewListDto {
+  @ApiProperty({ type: [SavedViewDto] })
+  @Expose()
+  @Type(() => SavedViewDto)
+  items!: SavedViewDto[];
+}
+
+export const SavedViewDtoSelect = {
+  id: true,
+  workspace_id: true,
+  project_id: true,
+  team_id: true,
+  name: true,
+  description: true,
+  entity_type: true,
+  view_type: true,
+  visibility: true,
+  filters: true,
+  sort_by: true,
+  group_by: true,
+  sub_group_by: true,
+  columns: true,
+  created_by: true,
+  created_at: true,
+  updated_at: true,
+  owner: { select: ProfileOverviewSelect },
+} as const;
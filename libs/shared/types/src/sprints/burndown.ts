@@ -0,0 +1,74 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { Expose, Type } from "class-transformer";
+
+/**
+ * Point journalier des graphiques burndown / burnup d'un sprint
+ * Les valeurs réelles sont `null` pour les jours futurs ; la ligne idéale couvre toute la durée prévue.
+ */
+export class SprintBurndownPointDto {
+  @ApiProperty({ description: "Jour (UTC)", example: "2025-09-24", format: "date" })
+  @Expose()
+  date!: string;
+
+  @ApiPropertyOptional({ description: "Story points restants en fin de journée", example: 13, nullable: true })
+  @Expose()
+  remaining_points!: number | null;
+
+  @ApiPropertyOptional({ description: "Heures estimées restantes en fin de journée", example: 26.5, nullable: true })
+  @Expose()
+  remaining_hours!: number | null;
+
+  @ApiPropertyOptional({ description: "Story points terminés (VALIDATED/PROD)", example: 8, nullable: true })
+  @Expose()
+  completed_points!: number | null;
+
+  @ApiPropertyOptional({ description: "Heures estimées des tickets terminés", example: 12, nullable: true })
+  @Expose()
+  completed_hours!: number | null;
+
+  @ApiPropertyOptional({ description: "Périmètre total en story points (burnup)", example: 21, nullable: true })
+  @Expose()
+  scope_points!: number | null;
+
+  @ApiPropertyOptional({ description: "Périmètre total en heures estimées (burnup)", example: 38.5, nullable: true })
+  @Expose()
+  scope_hours!: number | null;
+
+  @ApiProperty({ description: "Story points restants selon la ligne idéale", example: 14.4 })
+  @Expose()
+  ideal_points!: number;
+
+  @ApiProperty({ description: "Heures restantes selon la ligne idéale", example: 27.2 })
+  @Expose()
+  ideal_hours!: number;
+}
+
+/**
+ * Séries burndown / burnup d'un sprint reconstruites depuis l'historique des tickets
+ */
+export class SprintBurndownDto {
+  @ApiProperty({ example: 123 })
+  @Expose()
+  sprint_id!: number;
+
+  @ApiProperty({ description: "Premier jour de la série (démarrage effectif, sinon prévu)", example: "2025-09-23", format: "date" })
+  @Expose()
+  start_date!: string;
+
+  @ApiProperty({ description: "Fin prévue du sprint, où la ligne idéale atteint zéro", example: "2025-10-07", format: "date" })
+  @Expose()
+  end_date!: string;
+
+  @ApiProperty({ description: "Story points engagés au démarrage", example: 18 })
+  @Expose()
+  committed_points!: number;
+
+  @ApiProperty({ description: "Heures estimées engagées au démarrage", example: 34 })
+  @Expose()
+  committed_hours!: number;
+
+  @ApiProperty({ type: [SprintBurndownPointDto] })
+  @Expose()
+  @Type(() => SprintBurndownPointDto)
+  days!: SprintBurndownPointDto[];
+}
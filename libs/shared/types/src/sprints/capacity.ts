@@ -0,0 +1,218 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsInt, IsNumber, IsOptional, IsString, Max, MaxLength, Min } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+
+/** Heures disponibles par jour ouvré d'un membre sans capacité saisie */
+export const DEFAULT_MEMBER_HOURS_PER_DAY = 6;
+
+/** Durée retenue (en jours calendaires) pour un sprint sans date de fin */
+export const DEFAULT_SPRINT_LENGTH_DAYS = 14;
+
+/**
+ * DTO de saisie de la capacité d'un membre pour un sprint
+ * Les champs absents reprennent les valeurs par défaut
+ */
+export class UpsertSprintMemberCapacityDto {
+  @ApiPropertyOptional({
+    description: "Heures disponibles par jour ouvré",
+    example: DEFAULT_MEMBER_HOURS_PER_DAY,
+    type: "number",
+    minimum: 0,
+    maximum: 24,
+    default: DEFAULT_MEMBER_HOURS_PER_DAY,
+  })
+  @Expose()
+  @IsOptional()
+  @IsNumber({}, { message: "Les heures par jour doivent être un nombre" })
+  @Min(0, { message: "Les heures par jour ne peuvent pas être négatives" })
+  @Max(24, { message: "Les heures par jour ne peuvent pas dépasser 24" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseFloat(value) : value))
+  hours_per_day?: number;
+
+  @ApiPropertyOptional({ description: "Jours ouvrés d'absence pendant le sprint", example: 2, type: "integer", minimum: 0, maximum: 365, default: 0 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Les jours d'absence doivent être un nombre entier" })
+  @Min(0, { message: "Les jours d'absence ne peuvent pas être négatifs" })
+  @Max(365, { message: "Les jours d'absence ne peuvent pas dépasser 365" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  days_off?: number;
+
+  @ApiPropertyOptional({ description: "Capacité en story points (aucune limite si absente)", example: 8, type: "integer", minimum: 0, maximum: 500, nullable: true })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "La capacité en story points doit être un nombre entier" })
+  @Min(0, { message: "La capacité en story points ne peut pas être négative" })
+  @Max(500, { message: "La capacité en story points ne peut pas dépasser 500" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  capacity_points?: number | null;
+
+  @ApiPropertyOptional({ description: "Commentaire (congés, formation…)", example: "Off on Friday", maxLength: 500 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le commentaire doit être une chaîne de caractères" })
+  @MaxLength(500, { message: "Le commentaire ne peut pas dépasser 500 caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  notes?: string;
+}
+
+/**
+ * Capacité et charge d'un membre sur un sprint
+ * La charge engagée couvre les tickets du sprint assignés au membre, hors tickets CANCELLED
+ */
+export class SprintMemberCapacityDto {
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  user_id!: string;
+
+  @ApiPropertyOptional({ example: "jdoe", nullable: true })
+  @Expose()
+  username!: string | null;
+
+  @ApiProperty({ description: "Membre d'une équipe du projet", example: true })
+  @Expose()
+  is_team_member!: boolean;
+
+  @ApiProperty({ description: "Capacité saisie pour ce sprint (sinon valeurs par défaut)", example: true })
+  @Expose()
+  has_custom_capacity!: boolean;
+
+  @ApiProperty({ example: 6 })
+  @Expose()
+  hours_per_day!: number;
+
+  @ApiProperty({ example: 2 })
+  @Expose()
+  days_off!: number;
+
+  @ApiProperty({ description: "Jours ouvrés disponibles", example: 8 })
+  @Expose()
+  available_days!: number;
+
+  @ApiProperty({ example: 48 })
+  @Expose()
+  capacity_hours!: number;
+
+  @ApiPropertyOptional({ example: 8, nullable: true })
+  @Expose()
+  capacity_points!: number | null;
+
+  @ApiProperty({ example: 5 })
+  @Expose()
+  committed_tickets!: number;
+
+  @ApiProperty({ example: 52.5 })
+  @Expose()
+  committed_hours!: number;
+
+  @ApiProperty({ example: 11 })
+  @Expose()
+  committed_points!: number;
+
+  @ApiPropertyOptional({ description: "Heures engagées / heures disponibles", example: 1.09, nullable: true })
+  @Expose()
+  load_ratio!: number | null;
+
+  @ApiProperty({ description: "Heures ou story points engagés au-delà de la capacité", example: true })
+  @Expose()
+  overcommitted!: boolean;
+
+  @ApiPropertyOptional({ example: "Off on Friday", nullable: true })
+  @Expose()
+  notes!: string | null;
+}
+
+/**
+ * Planification d'un sprint : capacité de chaque membre comparée à sa charge engagée
+ */
+export class SprintCapacityPlanningDto {
+  @ApiProperty({ example: 123 })
+  @Expose()
+  sprint_id!: number;
+
+  @ApiProperty({ example: "2025-09-22", format: "date" })
+  @Expose()
+  start_date!: string;
+
+  @ApiProperty({ description: "Fin prévue (ou durée par défaut si le sprint n'a pas de date de fin)", example: "2025-10-03", format: "date" })
+  @Expose()
+  end_date!: string;
+
+  @ApiProperty({ description: "Jours ouvrés (lundi à vendredi) du sprint", example: 10 })
+  @Expose()
+  working_days!: number;
+
+  @ApiPropertyOptional({ description: "Capacité globale du sprint en story points (`sprints.capacity`)", example: 40, nullable: true })
+  @Expose()
+  sprint_capacity_points!: number | null;
+
+  @ApiProperty({ example: 184 })
+  @Expose()
+  total_capacity_hours!: number;
+
+  @ApiProperty({ example: 171.5 })
+  @Expose()
+  total_committed_hours!: number;
+
+  @ApiProperty({ example: 36 })
+  @Expose()
+  total_committed_points!: number;
+
+  @ApiProperty({ description: "Tickets du sprint sans assigné", example: 2 })
+  @Expose()
+  unassigned_tickets!: number;
+
+  @ApiProperty({ example: 6 })
+  @Expose()
+  unassigned_hours!: number;
+
+  @ApiProperty({ example: 3 })
+  @Expose()
+  unassigned_points!: number;
+
+  @ApiProperty({ example: 1 })
+  @Expose()
+  overcommitted_members!: number;
+
+  @ApiProperty({ type: [SprintMemberCapacityDto] })
+  @Expose()
+  @Type(() => SprintMemberCapacityDto)
+  members!: SprintMemberCapacityDto[];
+}
+
+/**
+ * Avertissement de surcharge renvoyé lors d'une assignation (l'opération est tout de même effectuée)
+ */
+export class SprintCapacityWarningDto {
+  @ApiProperty({ example: 123 })
+  @Expose()
+  sprint_id!: number;
+
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  user_id!: string;
+
+  @ApiPropertyOptional({ example: "jdoe", nullable: true })
+  @Expose()
+  username!: string | null;
+
+  @ApiProperty({ example: 52.5 })
+  @Expose()
+  committed_hours!: number;
+
+  @ApiProperty({ example: 48 })
+  @Expose()
+  capacity_hours!: number;
+
+  @ApiProperty({ example: 11 })
+  @Expose()
+  committed_points!: number;
+
+  @ApiPropertyOptional({ example: 8, nullable: true })
+  @Expose()
+  capacity_points!: number | null;
+
+  @ApiProperty({ example: "jdoe is overcommitted in this sprint: 52.5h committed for 48h available" })
+  @Expose()
+  message!: string;
+}
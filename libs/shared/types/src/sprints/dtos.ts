@@ -3,6 +3,7 @@ import { IsString, IsNotEmpty, IsOptional, IsInt, IsNumber, IsDateString, IsEnum
 import { Expose, Transform, Type } from "class-transformer";
 import { ProfileOverview } from "../profile/dtos.js";
 import { BasePaginationDto } from "../common/page.js";
+import { BaseSearchGroupDto } from "../common/search.js";
 
 /**
  * Enumération des statuts de sprint
@@ -253,7 +254,7 @@ export class UpdateSprintDto {
   version?: number;
 
   @ApiPropertyOptional({
-    description: "Statut mis à jour du sprint",
+    description: "Statut mis à jour du sprint (le démarrage passe par StartSprint, la clôture par CompleteSprint)",
     enum: SprintStatus,
     example: SprintStatus.ACTIVE,
     type: "string",
@@ -264,22 +265,6 @@ export class UpdateSprintDto {
   @IsEnum(SprintStatus, { message: "Statut de sprint invalide" })
   status?: SprintStatus;
 
-  @ApiPropertyOptional({
-    description: "Vélocité mise à jour du sprint",
-    example: 25,
-    type: "integer",
-    minimum: 0,
-    maximum: 1000,
-    required: false,
-  })
-  @Expose()
-  @IsOptional()
-  @IsInt({ message: "La vélocité doit être un nombre entier" })
-  @Min(0, { message: "La vélocité doit être positive ou nulle" })
-  @Max(1000, { message: "La vélocité ne peut pas dépasser 1000 points" })
-  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
-  velocity?: number;
-
   @ApiPropertyOptional({
     description: "Capacité mise à jour du sprint",
     example: 45,
@@ -638,6 +623,155 @@ export class SprintsListDto extends BasePaginationDto<SprintDto | SprintOverview
   })
   @Expose()
   items!: (SprintDto | SprintOverview)[];
+
+  @ApiProperty({
+    description: "Groupes de sprints lorsque `groupBy` est renseigné",
+    type: () => [SprintGroupDto],
+    required: false,
+  })
+  @Expose()
+  groups?: SprintGroupDto[];
+}
+
+/**
+ * Groupe de sprints d'une recherche groupée
+ * Les story points et heures estimées sont ceux des tickets des sprints du groupe
+ */
+export class SprintGroupDto extends BaseSearchGroupDto<SprintDto> {
+  @ApiProperty({ type: [SprintDto], required: false })
+  @Expose()
+  items?: SprintDto[];
+
+  @ApiProperty({ type: () => [SprintGroupDto], required: false })
+  @Expose()
+  sub_groups?: SprintGroupDto[];
+}
+
+/**
+ * Destination des tickets non terminés à la clôture d'un sprint
+ */
+export enum SprintCarryOverPolicy {
+  /** Prochain sprint PLANNED du projet (par version puis date de début) */
+  NEXT_SPRINT = "NEXT_SPRINT",
+  /** Sprint désigné par `target_sprint_id` */
+  SPRINT = "SPRINT",
+  /** Retour au backlog (`sprint_id = null`) */
+  BACKLOG = "BACKLOG",
+}
+
+/**
+ * DTO de clôture d'un sprint
+ * Définit le report des tickets non terminés et les notes de revue/rétrospective
+ */
+export class CompleteSprintDto {
+  @ApiPropertyOptional({
+    description: "Destination des tickets non terminés",
+    enum: SprintCarryOverPolicy,
+    example: SprintCarryOverPolicy.NEXT_SPRINT,
+    default: SprintCarryOverPolicy.NEXT_SPRINT,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsEnum(SprintCarryOverPolicy, { message: "Politique de report invalide" })
+  carry_over?: SprintCarryOverPolicy;
+
+  @ApiPropertyOptional({
+    description: "Sprint de destination, requis avec la politique SPRINT",
+    example: 124,
+    type: "integer",
+    minimum: 1,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du sprint de destination doit être un entier" })
+  @Min(1, { message: "L'ID du sprint de destination doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  target_sprint_id?: number;
+
+  @ApiPropertyOptional({
+    description: "Notes de revue du sprint",
+    example: "Authentication epic delivered, payment flow postponed",
+    type: "string",
+    maxLength: 2000,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Les notes de révision doivent être une chaîne de caractères" })
+  @MaxLength(2000, { message: "Les notes de révision ne peuvent pas dépasser 2000 caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  review_notes?: string;
+
+  @ApiPropertyOptional({
+    description: "Notes de rétrospective du sprint",
+    example: "Too much scope added mid-sprint, freeze the backlog after planning",
+    type: "string",
+    maxLength: 2000,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Les notes de rétrospective doivent être une chaîne de caractères" })
+  @MaxLength(2000, { message: "Les notes de rétrospective ne peuvent pas dépasser 2000 caractères" })
+  @Transform(({ value }): string | undefined => (typeof value === "string" ? value.trim() : value))
+  retrospective_notes?: string;
+}
+
+/**
+ * Bilan de clôture d'un sprint
+ * Les tickets VALIDATED/PROD sont terminés ; les tickets CANCELLED ne sont ni terminés ni reportés
+ */
+export class SprintCompletionSummaryDto {
+  @ApiProperty({ description: "Sprint clôturé", type: () => SprintDto })
+  @Expose()
+  @Type(() => SprintDto)
+  sprint!: SprintDto;
+
+  @ApiProperty({ description: "Vélocité réalisée (story points des tickets terminés)", example: 21, type: "integer" })
+  @Expose()
+  velocity!: number;
+
+  @ApiProperty({ description: "Story points engagés au démarrage du sprint", example: 24, type: "integer" })
+  @Expose()
+  committed_points!: number;
+
+  @ApiProperty({ description: "Nombre de tickets terminés", example: 8, type: "integer" })
+  @Expose()
+  completed_tickets!: number;
+
+  @ApiProperty({ description: "Nombre de tickets reportés", example: 3, type: "integer" })
+  @Expose()
+  carried_over_tickets!: number;
+
+  @ApiProperty({ description: "Story points des tickets reportés", example: 8, type: "integer" })
+  @Expose()
+  carried_over_points!: number;
+
+  @ApiProperty({ description: "IDs des tickets reportés", example: [42, 57], type: [Number] })
+  @Expose()
+  carried_over_ticket_ids!: number[];
+
+  @ApiProperty({ description: "Nombre de tickets annulés", example: 1, type: "integer" })
+  @Expose()
+  cancelled_tickets!: number;
+
+  @ApiProperty({ description: "Tickets ajoutés après le démarrage du sprint", example: 2, type: "integer" })
+  @Expose()
+  added_mid_sprint_tickets!: number;
+
+  @ApiProperty({ description: "Story points ajoutés après le démarrage du sprint", example: 5, type: "integer" })
+  @Expose()
+  added_mid_sprint_points!: number;
+
+  @ApiProperty({ description: "Politique de report appliquée", enum: SprintCarryOverPolicy, example: SprintCarryOverPolicy.NEXT_SPRINT })
+  @Expose()
+  carry_over!: SprintCarryOverPolicy;
+
+  @ApiPropertyOptional({ description: "Sprint ayant reçu les tickets reportés (null : backlog)", example: 124, type: "integer", nullable: true })
+  @Expose()
+  target_sprint_id?: number | null;
 }
 
 // ============================================================================
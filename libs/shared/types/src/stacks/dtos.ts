@@ -94,7 +94,7 @@ export class CreateStackDto {
   description?: string;
 
   @ApiPropertyOptional({
-    description: "La stack est-elle la principale pour le projet",
+    description: "La stack est-elle la principale de son type pour le projet (une seule par type)",
     example: true,
     type: "boolean",
     default: false,
@@ -135,6 +135,18 @@ export class UpdateStackDto {
   @IsEnum(StackType, { message: "Type de stack invalide" })
   type?: StackType;
 
+  @ApiPropertyOptional({
+    description: "ID du langage de programmation",
+    example: 1,
+    type: "integer",
+    minimum: 1,
+  })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du langage doit être un nombre entier" })
+  @Min(1, { message: "L'ID du langage doit être positif" })
+  language_id?: number;
+
   @ApiPropertyOptional({
     description: "Version mise à jour",
     example: "18.3.0",
@@ -161,7 +173,7 @@ export class UpdateStackDto {
   description?: string;
 
   @ApiPropertyOptional({
-    description: "La stack est-elle la principale pour le projet",
+    description: "La stack est-elle la principale de son type pour le projet (une seule par type)",
     example: false,
     type: "boolean",
   })
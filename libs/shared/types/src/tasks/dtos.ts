@@ -116,7 +116,7 @@ export class CreateTaskDto {
 
   @Expose()
   @ApiPropertyOptional({
-    description: "Actual hours spent working on the task",
+    description: "Actual hours spent working on the task (ignored: computed from the task worklogs)",
     default: 0,
     example: 6.5,
   })
@@ -248,7 +248,7 @@ export class UpdateTaskDto {
 
   @Expose()
   @ApiPropertyOptional({
-    description: "Updated actual hours spent working on the task",
+    description: "Updated actual hours spent working on the task (ignored: computed from the task worklogs)",
     example: 10.5,
   })
   @IsOptional()
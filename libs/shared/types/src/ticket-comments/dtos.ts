@@ -1,7 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
 import { IsArray, IsBoolean, IsOptional, IsString, IsInt } from "class-validator";
-import { ProfileOverview } from "../profile/dtos";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
 import { BasePaginationDto } from "../common/page";
+import { Expose, Type } from "class-transformer";
 
 export class CreateTicketCommentDto {
   @ApiProperty({
@@ -101,18 +102,21 @@ export class TicketCommentOverview {
     description: "ID du commentaire",
     example: 456,
   })
+  @Expose()
   id!: number;
 
   @ApiProperty({
     description: "Contenu du commentaire (tronqué)",
     example: "This issue has been resolved...",
   })
+  @Expose()
   content!: string;
 
   @ApiProperty({
     description: "Date de création",
     example: "2024-01-15T10:30:00Z",
   })
+  @Expose()
   created_at!: string;
 
   @ApiProperty({
@@ -123,14 +127,24 @@ export class TicketCommentOverview {
       avatar_url: null,
     },
   })
+  @Expose()
+  @Type(() => ProfileOverview)
   author?: ProfileOverview;
 }
 
 export class TicketCommentDto extends TicketCommentOverview {
+  @ApiProperty({
+    description: "ID du ticket",
+    example: 123,
+  })
+  @Expose()
+  ticket_id!: number;
+
   @ApiPropertyOptional({
     description: "Le commentaire est interne",
     example: false,
   })
+  @Expose()
   is_internal?: boolean;
 
   @ApiPropertyOptional({
@@ -138,6 +152,7 @@ export class TicketCommentDto extends TicketCommentOverview {
     type: [String],
     example: ["user-uuid-1", "user-uuid-2"],
   })
+  @Expose()
   mentioned_users?: string[];
 
   @ApiPropertyOptional({
@@ -154,12 +169,14 @@ export class TicketCommentDto extends TicketCommentOverview {
       ],
     },
   })
+  @Expose()
   attachments?: Record<string, any>;
 
   @ApiPropertyOptional({
     description: "Date de dernière modification",
     example: "2024-01-15T11:00:00Z",
   })
+  @Expose()
   updated_at?: string;
 
   @ApiProperty({
@@ -170,6 +187,8 @@ export class TicketCommentDto extends TicketCommentOverview {
       avatar_url: null,
     },
   })
+  @Expose()
+  @Type(() => ProfileOverview)
   created_by_user?: ProfileOverview;
 
   @ApiProperty({
@@ -180,6 +199,8 @@ export class TicketCommentDto extends TicketCommentOverview {
       avatar_url: null,
     },
   })
+  @Expose()
+  @Type(() => ProfileOverview)
   updated_by_user?: ProfileOverview;
 }
 
@@ -188,5 +209,33 @@ export class TicketCommentListDto extends BasePaginationDto<TicketCommentDto> {
     type: [TicketCommentDto],
     description: "Array of ticket overview objects",
   })
+  @Expose()
   items!: TicketCommentDto[];
 }
+
+// Prisma select types for type-safe queries
+export const TicketCommentDtoSelect = {
+  id: true,
+  ticket_id: true,
+  content: true,
+  is_internal: true,
+  mentioned_users: true,
+  attachments: true,
+  created_at: true,
+  updated_at: true,
+  author: {
+    select: {
+      ...ProfileOverviewSelect,
+    },
+  },
+  created_by_user: {
+    select: {
+      ...ProfileOverviewSelect,
+    },
+  },
+  updated_by_user: {
+    select: {
+      ...ProfileOverviewSelect,
+    },
+  },
+} as const;
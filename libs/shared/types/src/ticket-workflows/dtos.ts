@@ -0,0 +1,117 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ArrayUnique, IsArray, IsEnum, IsIn, IsOptional, ValidateNested } from "class-validator";
+import { Expose, Type } from "class-transformer";
+import { TicketStatus } from "../tickets/dtos";
+import { WorkspaceRole } from "../workspace/dtos";
+
+/** Joker accepté dans `from` : la transition est possible depuis n'importe quel statut */
+export const ANY_TICKET_STATUS = "*";
+
+/**
+ * Champs d'un ticket pouvant être exigés avant une transition
+ * Ils doivent être renseignés (non vides) après application de la mise à jour
+ */
+export enum TicketWorkflowField {
+  DESCRIPTION = "description",
+  ASSIGNED_TO = "assigned_to",
+  SPRINT_ID = "sprint_id",
+  STORY_POINTS = "story_points",
+  ESTIMATED_HOURS = "estimated_hours",
+  ACTUAL_HOURS = "actual_hours",
+  DUE_DATE = "due_date",
+  IMPLEMENTATION_NOTES = "implementation_notes",
+  TESTING_NOTES = "testing_notes",
+}
+
+/** Clé de `projects.settings` contenant la surcharge de workflow du projet */
+export const TICKET_WORKFLOW_SETTING = "workflow";
+
+/** Origine du workflow appliqué à un projet */
+export enum TicketWorkflowSource {
+  DEFAULT = "DEFAULT",
+  WORKSPACE = "WORKSPACE",
+  PROJECT = "PROJECT",
+}
+
+/**
+ * Transition autorisée entre deux statuts de ticket
+ */
+export class TicketWorkflowTransitionDto {
+  @ApiProperty({ description: "Statut de départ, ou * pour tout statut", example: TicketStatus.IN_REVIEW, enum: [...Object.values(TicketStatus), ANY_TICKET_STATUS] })
+  @Expose()
+  @IsIn([...Object.values(TicketStatus), ANY_TICKET_STATUS], { message: "Statut de départ invalide" })
+  from!: TicketStatus | typeof ANY_TICKET_STATUS;
+
+  @ApiProperty({ description: "Statut d'arrivée", enum: TicketStatus, example: TicketStatus.VALIDATED })
+  @Expose()
+  @IsEnum(TicketStatus, { message: "Statut d'arrivée invalide" })
+  to!: TicketStatus;
+
+  @ApiPropertyOptional({ description: "Champs à renseigner avant la transition", enum: TicketWorkflowField, isArray: true, example: [TicketWorkflowField.TESTING_NOTES] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(TicketWorkflowField, { each: true, message: "Champ requis invalide" })
+  required_fields?: TicketWorkflowField[];
+
+  @ApiPropertyOptional({ description: "Rôles autorisés à effectuer la transition (vide : tous les membres)", enum: WorkspaceRole, isArray: true, example: [] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(WorkspaceRole, { each: true, message: "Rôle invalide" })
+  roles?: WorkspaceRole[];
+}
+
+/**
+ * DTO de mise à jour d'un workflow (workspace ou surcharge projet)
+ */
+export class UpdateTicketWorkflowDto {
+  @ApiProperty({ type: [TicketWorkflowTransitionDto], description: "Transitions autorisées ; toute autre transition est refusée" })
+  @Expose()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TicketWorkflowTransitionDto)
+  transitions!: TicketWorkflowTransitionDto[];
+}
+
+/**
+ * Workflow effectif d'un workspace ou d'un projet
+ */
+export class TicketWorkflowDto {
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  workspace_id!: string;
+
+  @ApiPropertyOptional({ example: 4, nullable: true })
+  @Expose()
+  project_id?: number | null;
+
+  @ApiProperty({ enum: TicketWorkflowSource, example: TicketWorkflowSource.WORKSPACE, description: "Niveau où le workflow est défini" })
+  @Expose()
+  source!: TicketWorkflowSource;
+
+  @ApiProperty({ type: [TicketWorkflowTransitionDto] })
+  @Expose()
+  transitions!: TicketWorkflowTransitionDto[];
+}
+
+const MANAGER_ROLES = [WorkspaceRole.SUPER_ADMIN, WorkspaceRole.WORKSPACE_OWNER, WorkspaceRole.WORKSPACE_ADMIN, WorkspaceRole.PROJECT_MANAGER];
+
+/**
+ * Workflow appliqué lorsqu'aucun n'est configuré sur le workspace ni sur le projet
+ */
+export const DEFAULT_TICKET_WORKFLOW: TicketWorkflowTransitionDto[] = [
+  { from: TicketStatus.TODO, to: TicketStatus.ACTIVE },
+  { from: TicketStatus.ACTIVE, to: TicketStatus.TODO },
+  { from: TicketStatus.ACTIVE, to: TicketStatus.IN_REVIEW },
+  { from: TicketStatus.IN_REVIEW, to: TicketStatus.ACTIVE },
+  { from: TicketStatus.IN_REVIEW, to: TicketStatus.VALIDATED, required_fields: [TicketWorkflowField.TESTING_NOTES] },
+  { from: TicketStatus.IN_REVIEW, to: TicketStatus.REFUSED },
+  { from: TicketStatus.VALIDATED, to: TicketStatus.IN_REVIEW },
+  { from: TicketStatus.VALIDATED, to: TicketStatus.PROD, roles: MANAGER_ROLES },
+  { from: ANY_TICKET_STATUS, to: TicketStatus.CANCELLED },
+  { from: TicketStatus.CANCELLED, to: TicketStatus.TODO },
+  { from: TicketStatus.REFUSED, to: TicketStatus.TODO },
+];
@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsEnum, IsInt, IsOptional, Max, Min, ValidateIf } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+import { SprintCapacityWarningDto } from "../sprints/capacity";
+import { BulkTicketResultDto } from "./bulk";
+
+/** Nombre maximal de tickets tirés du backlog en une planification */
+export const MAX_BACKLOG_PLANNING_COUNT = 100;
+
+/** Destination d'un ticket déplacé dans le backlog */
+export enum BacklogPosition {
+  TOP = "TOP",
+  BOTTOM = "BOTTOM",
+  BEFORE = "BEFORE",
+  AFTER = "AFTER",
+}
+
+/**
+ * DTO de déplacement d'un ticket dans le backlog
+ * `reference_ticket_id` est requis avec les positions BEFORE et AFTER
+ */
+export class MoveBacklogTicketDto {
+  @ApiProperty({ description: "Nouvelle position du ticket", enum: BacklogPosition, example: BacklogPosition.BEFORE })
+  @Expose()
+  @IsEnum(BacklogPosition, { message: "Position invalide" })
+  position!: BacklogPosition;
+
+  @ApiPropertyOptional({ description: "Ticket de référence (positions BEFORE et AFTER)", example: 87, type: "integer", minimum: 1 })
+  @Expose()
+  @ValidateIf((dto: MoveBacklogTicketDto) => dto.position === BacklogPosition.BEFORE || dto.position === BacklogPosition.AFTER)
+  @IsInt({ message: "L'ID du ticket de référence doit être un entier" })
+  @Min(1, { message: "L'ID du ticket de référence doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  reference_ticket_id?: number;
+}
+
+/**
+ * DTO de planification d'un sprint depuis le backlog
+ * Les premiers tickets du backlog sont ajoutés au sprint dans l'ordre, tant que sa capacité le permet
+ */
+export class PlanSprintFromBacklogDto {
+  @ApiProperty({ description: "Sprint à remplir", example: 124, type: "integer", minimum: 1 })
+  @Expose()
+  @IsInt({ message: "L'ID du sprint doit être un entier" })
+  @Min(1, { message: "L'ID du sprint doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  sprint_id!: number;
+
+  @ApiPropertyOptional({
+    description: "Nombre maximal de tickets à tirer du haut du backlog",
+    example: 10,
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_BACKLOG_PLANNING_COUNT,
+    default: 10,
+  })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Le nombre de tickets doit être un entier" })
+  @Min(1, { message: "Le nombre de tickets doit être au moins 1" })
+  @Max(MAX_BACKLOG_PLANNING_COUNT, { message: `Le nombre de tickets ne peut pas dépasser ${MAX_BACKLOG_PLANNING_COUNT}` })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  count?: number;
+}
+
+/**
+ * Bilan d'une planification depuis le backlog
+ * La planification s'arrête au premier ticket qui dépasserait la capacité, afin de respecter l'ordre du backlog,
+ * ou au premier ticket qui n'a pas pu être déplacé : les tickets déjà ajoutés restent dans le sprint
+ */
+export class BacklogPlanningResultDto {
+  @ApiProperty({ example: 124 })
+  @Expose()
+  sprint_id!: number;
+
+  @ApiPropertyOptional({ description: "Capacité du sprint en story points (null : pas de limite)", example: 30, nullable: true })
+  @Expose()
+  capacity!: number | null;
+
+  @ApiProperty({ description: "Story points déjà engagés avant la planification", example: 12 })
+  @Expose()
+  committed_points!: number;
+
+  @ApiProperty({ type: [Number], description: "Tickets ajoutés au sprint, dans l'ordre du backlog", example: [87, 93, 95] })
+  @Expose()
+  added_ticket_ids!: number[];
+
+  @ApiProperty({ description: "Story points ajoutés", example: 16 })
+  @Expose()
+  added_points!: number;
+
+  @ApiPropertyOptional({ description: "Capacité restante après planification (null : pas de limite)", example: 2, nullable: true })
+  @Expose()
+  remaining_capacity!: number | null;
+
+  @ApiPropertyOptional({ description: "Premier ticket laissé dans le backlog faute de capacité", example: 101, nullable: true })
+  @Expose()
+  stopped_at_ticket_id!: number | null;
+
+  @ApiPropertyOptional({ type: BulkTicketResultDto, description: "Ticket dont l'ajout au sprint a échoué et qui a interrompu la planification", nullable: true })
+  @Expose()
+  @Type(() => BulkTicketResultDto)
+  failure?: BulkTicketResultDto | null;
+
+  @ApiProperty({ type: [SprintCapacityWarningDto], description: "Membres surchargés après la planification" })
+  @Expose()
+  @Type(() => SprintCapacityWarningDto)
+  warnings!: SprintCapacityWarningDto[];
+}
@@ -0,0 +1,129 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ArrayMaxSize, IsArray, IsEnum, IsInt, IsOptional, IsString, ValidateNested } from "class-validator";
+import { Expose, Type } from "class-transformer";
+import { FilterRule } from "../common/search";
+import { SprintCapacityWarningDto } from "../sprints/capacity";
+import { TicketPriority, TicketStatus } from "./dtos";
+
+/** Nombre maximal de tickets modifiés par une opération groupée */
+export const MAX_BULK_TICKETS = 200;
+
+/**
+ * Modifications appliquées à chaque ticket d'une opération groupée
+ * `assigned_to` vide retire l'assigné, `sprint_id` à 0 renvoie les tickets au backlog
+ */
+export class BulkTicketPatchDto {
+  @ApiPropertyOptional({ enum: TicketStatus, description: "Nouveau statut (soumis au workflow du projet)", example: TicketStatus.ACTIVE })
+  @Expose()
+  @IsOptional()
+  @IsEnum(TicketStatus, { message: "Statut invalide" })
+  status?: TicketStatus;
+
+  @ApiPropertyOptional({ enum: TicketPriority, example: TicketPriority.HIGH })
+  @Expose()
+  @IsOptional()
+  @IsEnum(TicketPriority, { message: "Priorité invalide" })
+  priority?: TicketPriority;
+
+  @ApiPropertyOptional({ description: "Nouvel assigné (chaîne vide : aucun)", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f", nullable: true })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "L'assigné doit être un UUID" })
+  assigned_to?: string | null;
+
+  @ApiPropertyOptional({ description: "Nouveau sprint (0 : backlog)", example: 124, nullable: true })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du sprint doit être un entier" })
+  sprint_id?: number | null;
+
+  @ApiPropertyOptional({ type: [Number], description: "Labels ajoutés", example: [3] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true, message: "Les IDs de labels doivent être des entiers" })
+  add_label_ids?: number[];
+
+  @ApiPropertyOptional({ type: [Number], description: "Labels retirés", example: [7] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true, message: "Les IDs de labels doivent être des entiers" })
+  remove_label_ids?: number[];
+}
+
+/**
+ * DTO d'une opération groupée : sélection par IDs ou par filtres (exclusifs), et modifications
+ */
+export class BulkUpdateTicketsDto {
+  @ApiPropertyOptional({ type: [Number], description: `Tickets à modifier (au plus ${MAX_BULK_TICKETS})`, example: [87, 93, 95] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_BULK_TICKETS, { message: `Une opération groupée porte sur au plus ${MAX_BULK_TICKETS} tickets` })
+  @IsInt({ each: true, message: "Les IDs de tickets doivent être des entiers" })
+  ticket_ids?: number[];
+
+  @ApiPropertyOptional({ type: [FilterRule], description: "Sélection des tickets du projet par filtres (comme la recherche)" })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => FilterRule)
+  filters?: FilterRule[];
+
+  @ApiProperty({ type: BulkTicketPatchDto })
+  @Expose()
+  @ValidateNested()
+  @Type(() => BulkTicketPatchDto)
+  patch!: BulkTicketPatchDto;
+}
+
+/**
+ * Résultat d'une opération groupée pour un ticket
+ */
+export class BulkTicketResultDto {
+  @ApiProperty({ example: 87 })
+  @Expose()
+  ticket_id!: number;
+
+  @ApiProperty({ example: false })
+  @Expose()
+  success!: boolean;
+
+  @ApiPropertyOptional({ description: "Code d'erreur gRPC (NOT_FOUND, PERMISSION_DENIED, FAILED_PRECONDITION…)", example: "FAILED_PRECONDITION", nullable: true })
+  @Expose()
+  code?: string | null;
+
+  @ApiPropertyOptional({ example: "WORKFLOW_TRANSITION_NOT_ALLOWED: TODO -> VALIDATED is not allowed by the default workflow", nullable: true })
+  @Expose()
+  error?: string | null;
+}
+
+/**
+ * Bilan d'une opération groupée
+ * Les tickets valides sont modifiés dans une seule transaction, les autres sont signalés en échec
+ */
+export class BulkUpdateTicketsResultDto {
+  @ApiProperty({ description: "Tickets sélectionnés", example: 3 })
+  @Expose()
+  matched!: number;
+
+  @ApiProperty({ example: 2 })
+  @Expose()
+  succeeded!: number;
+
+  @ApiProperty({ example: 1 })
+  @Expose()
+  failed!: number;
+
+  @ApiProperty({ type: [BulkTicketResultDto] })
+  @Expose()
+  @Type(() => BulkTicketResultDto)
+  results!: BulkTicketResultDto[];
+
+  @ApiProperty({ type: [SprintCapacityWarningDto], description: "Membres surchargés après l'opération" })
+  @Expose()
+  @Type(() => SprintCapacityWarningDto)
+  warnings!: SprintCapacityWarningDto[];
+}
@@ -0,0 +1,145 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsInt, IsNotEmpty, IsOptional, IsString, Matches, Max, MaxLength, Min, ValidateNested } from "class-validator";
+import { Expose, Type } from "class-transformer";
+import { CreateTicketDto, TicketDto } from "./dtos";
+
+/** Nombre maximal de brouillons proposés ou créés en une fois */
+export const MAX_TICKET_DRAFTS = 20;
+
+/** Longueur maximale des notes envoyées au modèle, en caractères */
+export const TICKET_DRAFT_NOTES_MAX_LENGTH = 20000;
+
+/** Référence d'un brouillon dans un lot (D1, D2…), utilisée pour les dépendances entre brouillons */
+export const TICKET_DRAFT_REF_PATTERN = /^D\d{1,3}$/;
+
+/**
+ * Demande de brouillons de tickets à partir d'un texte libre (notes de réunion, compte rendu…)
+ */
+export class DraftTicketsDto {
+  @ApiProperty({ description: "Texte libre décrivant le travail à faire", example: "Retours démo : le login Google échoue sur Safari, ajouter l'export CSV des sprints…" })
+  @Expose()
+  @IsString()
+  @IsNotEmpty({ message: "Les notes sont requises" })
+  @MaxLength(TICKET_DRAFT_NOTES_MAX_LENGTH, { message: `Les notes ne peuvent pas dépasser ${TICKET_DRAFT_NOTES_MAX_LENGTH} caractères` })
+  notes!: string;
+
+  @ApiPropertyOptional({ description: "Agent dont les prompts CREATION sont utilisés (par défaut : TICKET_DRAFT_AGENT_CODE)", example: "TICKET_WRITER" })
+  @Expose()
+  @IsOptional()
+  @IsString()
+  agent_name_code?: string;
+
+  @ApiPropertyOptional({ description: `Nombre maximal de brouillons (au plus ${MAX_TICKET_DRAFTS})`, example: 10, default: MAX_TICKET_DRAFTS })
+  @Expose()
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_TICKET_DRAFTS)
+  max_drafts?: number;
+}
+
+/**
+ * Ticket proposé, à relire avant création
+ * `ticket` est le CreateTicketDto qui sera créé ; les labels, tâches et dépendances suggérés y sont déjà
+ * restreints à ceux du workspace et du projet. `depends_on_refs` désigne les brouillons du même lot dont
+ * celui-ci dépend.
+ */
+export class TicketDraftDto {
+  @ApiProperty({ example: "D1" })
+  @Expose()
+  @IsString()
+  @Matches(TICKET_DRAFT_REF_PATTERN, { message: "La référence d'un brouillon est de la forme D1, D2…" })
+  ref!: string;
+
+  @ApiProperty({ type: CreateTicketDto })
+  @Expose()
+  @ValidateNested()
+  @Type(() => CreateTicketDto)
+  ticket!: CreateTicketDto;
+
+  @ApiPropertyOptional({ type: [String], description: "Brouillons du lot dont ce ticket dépend", example: ["D1"] })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @Matches(TICKET_DRAFT_REF_PATTERN, { each: true, message: "La référence d'un brouillon est de la forme D1, D2…" })
+  depends_on_refs?: string[];
+
+  @ApiPropertyOptional({ description: "Epic suggérée ; un ticket est rattaché à une epic par ses tâches", example: 12, nullable: true })
+  @Expose()
+  @IsOptional()
+  @IsInt()
+  epic_id?: number | null;
+
+  @ApiPropertyOptional({ description: "Justification du modèle", example: "Bug bloquant remonté pendant la démo" })
+  @Expose()
+  @IsOptional()
+  @IsString()
+  rationale?: string;
+
+  @ApiPropertyOptional({ type: [String], description: "Suggestions écartées (label, tâche ou ticket inconnu du projet)" })
+  @Expose()
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  warnings?: string[];
+}
+
+/**
+ * Brouillons proposés pour un projet
+ */
+export class TicketDraftsDto {
+  @ApiProperty({ example: 42 })
+  @Expose()
+  project_id!: number;
+
+  @ApiPropertyOptional({ description: "Version d'agent utilisée", example: 3, nullable: true })
+  @Expose()
+  agent_id?: number | null;
+
+  @ApiProperty({ example: "gpt-4o-mini" })
+  @Expose()
+  model!: string;
+
+  @ApiProperty({ type: [TicketDraftDto] })
+  @Expose()
+  @Type(() => TicketDraftDto)
+  drafts!: TicketDraftDto[];
+}
+
+/**
+ * Brouillons acceptés (éventuellement modifiés) à créer en une transaction
+ */
+export class CommitTicketDraftsDto {
+  @ApiProperty({ type: [TicketDraftDto], description: `Brouillons à créer (au plus ${MAX_TICKET_DRAFTS})` })
+  @Expose()
+  @IsArray()
+  @ArrayMinSize(1, { message: "Au moins un brouillon est requis" })
+  @ArrayMaxSize(MAX_TICKET_DRAFTS, { message: `Au plus ${MAX_TICKET_DRAFTS} brouillons peuvent être créés en une fois` })
+  @ValidateNested({ each: true })
+  @Type(() => TicketDraftDto)
+  drafts!: TicketDraftDto[];
+}
+
+/**
+ * Ticket créé depuis un brouillon
+ */
+export class CommittedTicketDraftDto {
+  @ApiProperty({ example: "D1" })
+  @Expose()
+  ref!: string;
+
+  @ApiProperty({ type: TicketDto })
+  @Expose()
+  @Type(() => TicketDto)
+  ticket!: TicketDto;
+}
+
+/**
+ * Résultat de la création des brouillons, dans l'ordre de création (prérequis d'abord)
+ */
+export class CommitTicketDraftsResultDto {
+  @ApiProperty({ type: [CommittedTicketDraftDto] })
+  @Expose()
+  @Type(() => CommittedTicketDraftDto)
+  items!: CommittedTicketDraftDto[];
+}
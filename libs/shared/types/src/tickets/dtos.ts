@@ -1,8 +1,10 @@
 import { ApiProperty } from "@nestjs/swagger";
 import { ProfileOverview } from "../profile/dtos";
 import { SprintOverview } from "../sprints/dtos";
+import { SprintCapacityWarningDto } from "../sprints/capacity";
 import { LabelDto } from "../labels/dtos";
 import { BasePaginationDto } from "../common/page";
+import { BaseSearchGroupDto } from "../common/search";
 import { Expose } from "class-transformer";
 
 export enum TicketStatus {
@@ -15,6 +17,12 @@ export enum TicketStatus {
   REFUSED = "REFUSED",
 }
 
+/** Statuts d'un ticket livré (terminé avec succès) */
+export const COMPLETED_TICKET_STATUSES: readonly TicketStatus[] = [TicketStatus.VALIDATED, TicketStatus.PROD];
+
+/** Statuts d'un ticket clos sans livraison */
+export const CLOSED_TICKET_STATUSES: readonly TicketStatus[] = [TicketStatus.CANCELLED, TicketStatus.REFUSED];
+
 export enum TicketPriority {
   LOW = "LOW",
   MEDIUM = "MEDIUM",
@@ -88,7 +96,7 @@ export class UpdateTicketDto {
   @ApiProperty({ example: 16, description: "Estimated hours", required: false })
   estimated_hours?: number;
 
-  @ApiProperty({ example: 8, description: "Actual hours", required: false })
+  @ApiProperty({ example: 8, description: "Actual hours (ignored: computed from the ticket worklogs)", required: false })
   actual_hours?: number;
 
   @ApiProperty({ example: "2025-09-23", description: "Due date", required: false })
@@ -258,6 +266,123 @@ export class TicketDto extends TicketOverview {
     required: false,
   })
   dependency_ticket_ids?: number[];
+
+  @Expose()
+  @ApiProperty({
+    example: false,
+    description: "True while at least one prerequisite ticket is not VALIDATED or PROD",
+    required: false,
+  })
+  is_blocked?: boolean;
+
+  @Expose()
+  @ApiProperty({
+    example: "i0k",
+    description: "Position in the project backlog (lexicographic order, null until the backlog is first reordered)",
+    required: false,
+    nullable: true,
+  })
+  backlog_rank?: string | null;
+}
+
+/** Position d'un ticket dans le graphe de dépendances par rapport au ticket racine */
+export enum TicketGraphDirection {
+  ROOT = "ROOT",
+  UPSTREAM = "UPSTREAM",
+  DOWNSTREAM = "DOWNSTREAM",
+}
+
+export class TicketGraphNodeDto {
+  @Expose()
+  @ApiProperty({ example: 93 })
+  id!: number;
+
+  @Expose()
+  @ApiProperty({ example: "GILE-142", nullable: true })
+  ticket_number!: string | null;
+
+  @Expose()
+  @ApiProperty({ example: "Expose the dependency graph" })
+  title!: string;
+
+  @Expose()
+  @ApiProperty({ enum: TicketStatus, example: TicketStatus.ACTIVE })
+  status!: TicketStatus;
+
+  @Expose()
+  @ApiProperty({ example: 4, nullable: true })
+  project_id!: number | null;
+
+  @Expose()
+  @ApiProperty({ enum: TicketGraphDirection, example: TicketGraphDirection.UPSTREAM })
+  direction!: TicketGraphDirection;
+
+  @Expose()
+  @ApiProperty({ example: 1, description: "Distance from the root ticket" })
+  depth!: number;
+
+  @Expose()
+  @ApiProperty({ example: false })
+  is_blocked!: boolean;
+}
+
+export class TicketGraphEdgeDto {
+  @Expose()
+  @ApiProperty({ example: 93, description: "Dependent ticket" })
+  ticket_id!: number;
+
+  @Expose()
+  @ApiProperty({ example: 87, description: "Prerequisite ticket" })
+  depends_on_ticket_id!: number;
+
+  @Expose()
+  @ApiProperty({ example: true, description: "True once the prerequisite is VALIDATED or PROD" })
+  satisfied!: boolean;
+}
+
+export class TicketDependencyGraphDto {
+  @Expose()
+  @ApiProperty({ example: 93 })
+  root_id!: number;
+
+  @Expose()
+  @ApiProperty({ type: [TicketGraphNodeDto] })
+  nodes!: TicketGraphNodeDto[];
+
+  @Expose()
+  @ApiProperty({ type: [TicketGraphEdgeDto] })
+  edges!: TicketGraphEdgeDto[];
+
+  @Expose()
+  @ApiProperty({ example: false, description: "True when the graph exceeded the node limit and was cut" })
+  truncated!: boolean;
+}
+
+/**
+ * Résultat d'une assignation (utilisateur ou sprint)
+ * Les avertissements signalent un membre dont la charge dépasse sa capacité sur le sprint du ticket
+ */
+export class TicketAssignmentResultDto {
+  @Expose()
+  @ApiProperty({ example: true })
+  success!: boolean;
+
+  @Expose()
+  @ApiProperty({ type: [SprintCapacityWarningDto] })
+  warnings!: SprintCapacityWarningDto[];
+}
+
+/**
+ * Groupe de tickets d'une recherche groupée
+ */
+export class TicketGroupDto extends BaseSearchGroupDto<TicketDto> {
+  @ApiProperty({ type: [TicketDto], required: false })
+  @Expose()
+  items?: TicketDto[];
+
+  @ApiProperty({ type: () => [TicketGroupDto], required: false })
+  @Expose()
+  sub_groups?: TicketGroupDto[];
 }
 
 export class TicketsListDto extends BasePaginationDto<TicketDto> {
@@ -266,6 +391,14 @@ export class TicketsListDto extends BasePaginationDto<TicketDto> {
     description: "Array of ticket overview objects",
   })
   items!: TicketDto[];
+
+  @ApiProperty({
+    type: [TicketGroupDto],
+    description: "Groups of the matching tickets when `groupBy` is set",
+    required: false,
+  })
+  @Expose()
+  groups?: TicketGroupDto[];
 }
 
 // ============================================================================
@@ -0,0 +1,46 @@
+/**
+ * Clés lisibles des tickets (ex: GILE-142)
+ * La clé est `<préfixe du projet>-<numéro séquentiel>` et est stockée dans `tickets.ticket_number`.
+ */
+
+/** Préfixe de projet : une lettre majuscule suivie de 1 à 9 lettres ou chiffres */
+export const TICKET_PREFIX_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+/** Clé de ticket complète, insensible à la casse */
+export const TICKET_KEY_PATTERN = /^([A-Za-z][A-Za-z0-9]{1,9})-(\d+)$/;
+
+/** Clé de `projects.settings` contenant le préfixe des tickets */
+export const TICKET_PREFIX_SETTING = "ticket_prefix";
+
+export function formatTicketKey(prefix: string, number: number): string {
+  return `${prefix}-${number}`;
+}
+
+/**
+ * Analyse une clé saisie par un utilisateur
+ * @returns Le préfixe normalisé et le numéro, ou null si la chaîne n'est pas une clé
+ */
+export function parseTicketKey(key: string): { prefix: string; number: number; key: string } | null {
+  const match = TICKET_KEY_PATTERN.exec(key.trim());
+  if (!match) return null;
+  const prefix = match[1].toUpperCase();
+  const number = Number(match[2]);
+  return { prefix, number, key: formatTicketKey(prefix, number) };
+}
+
+/**
+ * Dérive un préfixe par défaut du nom du projet (ex: "Gile Back" -> "GB", "Gilentry" -> "GILE")
+ */
+export function deriveTicketPrefix(name: string): string {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toUpperCase()
+    .split(/[^A-Z0-9]+/)
+    .filter(Boolean);
+
+  let prefix = words.length > 1 ? words.map(word => word[0]).join("") : (words[0] ?? "").slice(0, 4);
+  prefix = prefix.replace(/^[0-9]+/, "").slice(0, 10);
+
+  return prefix.length >= 2 ? prefix : `P${prefix || "R"}`;
+}
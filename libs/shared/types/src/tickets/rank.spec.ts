@@ -0,0 +1,82 @@
+import { TICKET_RANK_PATTERN, rankBetween, rankSequence } from "./rank";
+
+const expectBetween = (rank: string, before: string | null, after: string | null) => {
+  expect(rank).toMatch(TICKET_RANK_PATTERN);
+  if (before !== null) expect(rank > before).toBe(true);
+  if (after !== null) expect(rank < after).toBe(true);
+};
+
+describe("ticket ranks", () => {
+  it("should start an empty backlog in the middle of the grid", () => {
+    expect(rankBetween(null, null)).toBe("i");
+  });
+
+  it("should append after the grid ceiling by extending the rank", () => {
+    const rank = rankBetween("zzzzzz", null);
+
+    expectBetween(rank, "zzzzzz", null);
+    expect(rank).toBe("zzzzzzi");
+  });
+
+  it("should prepend before a rank close to zero without reaching zero", () => {
+    const rank = rankBetween(null, "000001");
+
+    expectBetween(rank, null, "000001");
+    expect(rank).toBe("000000i");
+  });
+
+  it("should insert between adjacent digits by going one level deeper", () => {
+    expect(rankBetween("a", "b")).toBe("ai");
+    expectBetween(rankBetween("a", "b"), "a", "b");
+    expectBetween(rankBetween("azz", "b"), "azz", "b");
+    expectBetween(rankBetween("0001", "0002"), "0001", "0002");
+  });
+
+  it("should never produce a rank ending in 0 when inserting repeatedly at the same place", () => {
+    let upper = "b";
+    for (let index = 0; index < 200; index++) {
+      const rank = rankBetween("a", upper);
+      expectBetween(rank, "a", upper);
+      upper = rank;
+    }
+
+    let lower = "a";
+    for (let index = 0; index < 200; index++) {
+      const rank = rankBetween(lower, "b");
+      expectBetween(rank, lower, "b");
+      lower = rank;
+    }
+  });
+
+  it("should keep appended and prepended ranks well formed past the grid bounds", () => {
+    let last: string | null = null;
+    let first: string | null = null;
+    for (let index = 0; index < 2000; index++) {
+      const appended = rankBetween(last, null);
+      expectBetween(appended, last, null);
+      last = appended;
+
+      const prepended = rankBetween(null, first);
+      expectBetween(prepended, null, first);
+      first = prepended;
+    }
+  });
+
+  it("should spread a sequence of increasing, well formed ranks", () => {
+    for (const count of [1, 35, 36, 1000, 2000]) {
+      const ranks = rankSequence(count);
+
+      expect(ranks).toHaveLength(count);
+      ranks.forEach((rank, index) => {
+        expect(rank).toMatch(TICKET_RANK_PATTERN);
+        if (index > 0) expect(rank > ranks[index - 1]).toBe(true);
+      });
+    }
+  });
+
+  it("should reject malformed or unordered bounds", () => {
+    expect(() => rankBetween("a0", null)).toThrow('Invalid ticket rank "a0"');
+    expect(() => rankBetween("b", "a")).toThrow('Ticket rank "b" must be lower than "a"');
+    expect(() => rankBetween("a", "a")).toThrow();
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Rangs du backlog (ordonnancement de type lexorank)
+ * Un rang est une chaîne en base 36 (`0-9a-z`) lue comme la partie décimale d'un nombre : l'ordre
+ * lexicographique des rangs est l'ordre du backlog. Insérer un ticket entre deux autres revient à
+ * calculer un rang intermédiaire, sans toucher aux rangs des autres tickets.
+ * Les rangs générés ne se terminent jamais par `0`, ce qui laisse toujours de la place entre deux rangs.
+ */
+
+export const TICKET_RANK_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/** Rang bien formé : au moins un caractère, sans `0` final */
+export const TICKET_RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/** Longueur au-delà de laquelle le backlog est rééquilibré (la colonne accepte 64 caractères) */
+export const TICKET_RANK_MAX_LENGTH = 32;
+
+const BASE = TICKET_RANK_ALPHABET.length;
+
+/** Les ajouts en tête ou en fin de backlog avancent d'un pas fixe sur une grille de 6 caractères */
+const RANK_WIDTH = 6;
+const RANK_SPACE = BASE ** RANK_WIDTH;
+const RANK_STEP = BASE ** 2;
+
+/**
+ * Calcule un rang strictement compris entre deux rangs
+ *
+ * @param before Rang du ticket précédent (null : début du backlog)
+ * @param after Rang du ticket suivant (null : fin du backlog)
+ * @throws Error Si un rang est mal formé ou si `before` n'est pas strictement inférieur à `after`
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  for (const rank of [before, after]) {
+    if (rank !== null && !TICKET_RANK_PATTERN.test(rank)) {
+      throw new Error(`Invalid ticket rank "${rank}"`);
+    }
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Ticket rank "${before}" must be lower than "${after}"`);
+  }
+
+  if (before === null && after === null) {
+    return fromGridValue(RANK_SPACE / 2);
+  }
+  if (after === null) {
+    const value = toGridValue(before!) + RANK_STEP;
+    if (value < RANK_SPACE) return fromGridValue(value);
+  }
+  if (before === null) {
+    const value = toGridValue(after!) - RANK_STEP;
+    if (value > 0) return fromGridValue(value);
+  }
+
+  return midpoint(before ?? "", after);
+}
+
+/**
+ * Génère `count` rangs croissants répartis uniformément (initialisation ou rééquilibrage du backlog)
+ */
+export function rankSequence(count: number): string[] {
+  const width = Math.max(RANK_WIDTH, Math.ceil(Math.log(count + 2) / Math.log(BASE)) + 1);
+  const space = BASE ** width;
+  const step = Math.floor(space / (count + 1));
+
+  return Array.from({ length: count }, (_, index) => fromGridValue((index + 1) * step, width));
+}
+
+/**
+ * Milieu de deux rangs, calculé chiffre par chiffre (`after` null : borne supérieure ouverte)
+ */
+function midpoint(before: string, after: string | null): string {
+  let upper = after;
+  let result = "";
+
+  for (let index = 0; ; index++) {
+    const low = index < before.length ? TICKET_RANK_ALPHABET.indexOf(before[index]) : 0;
+    const high = upper !== null && index < upper.length ? TICKET_RANK_ALPHABET.indexOf(upper[index]) : BASE;
+
+    if (low === high) {
+      result += TICKET_RANK_ALPHABET[low];
+      continue;
+    }
+
+    const middle = Math.floor((low + high) / 2);
+    if (middle > low) {
+      return result + TICKET_RANK_ALPHABET[middle];
+    }
+
+    // Chiffres consécutifs : on garde celui du bas et on poursuit sans borne supérieure
+    result += TICKET_RANK_ALPHABET[low];
+    upper = null;
+  }
+}
+
+/** Valeur entière des `RANK_WIDTH` premiers caractères du rang */
+function toGridValue(rank: string): number {
+  let value = 0;
+  for (let index = 0; index < RANK_WIDTH; index++) {
+    value = value * BASE + (index < rank.length ? TICKET_RANK_ALPHABET.indexOf(rank[index]) : 0);
+  }
+  return value;
+}
+
+function fromGridValue(value: number, width = RANK_WIDTH): string {
+  return value.toString(BASE).padStart(width, "0").replace(/0+$/, "");
+}
@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
-import { IsEnum, IsOptional, IsString, IsBoolean, IsInt, Min, Max, IsArray } from "class-validator";
+import { IsEnum, IsOptional, IsString, IsBoolean, IsInt, Min, Max, IsArray, IsTimeZone } from "class-validator";
 
 export enum ThemeMode {
   LIGHT = "LIGHT",
@@ -34,7 +34,7 @@ export class CreateUserPreferencesDto {
 
   @ApiPropertyOptional({ example: "Europe/Paris", description: "Timezone (IANA format)" })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 
   @ApiPropertyOptional({ enum: DateFormat, example: DateFormat.DD_MM_YYYY, description: "Date format" })
@@ -114,7 +114,7 @@ export class UpdateUserPreferencesDto {
 
   @ApiPropertyOptional({ example: "America/New_York", description: "Timezone (IANA format)" })
   @IsOptional()
-  @IsString()
+  @IsTimeZone()
   timezone?: string;
 
   @ApiPropertyOptional({ enum: DateFormat, example: DateFormat.MM_DD_YYYY, description: "Date format" })
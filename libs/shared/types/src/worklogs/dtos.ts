@@ -0,0 +1,430 @@
+import { ApiProperty, ApiPropertyOptional } from "@nestjs/swagger";
+import { IsDateString, IsInt, IsOptional, IsString, IsUUID, Max, MaxLength, Min } from "class-validator";
+import { Expose, Transform, Type } from "class-transformer";
+import { ProfileOverview, ProfileOverviewSelect } from "../profile/dtos";
+import { BasePaginationDto } from "../common/page";
+
+/** Durée maximale d'une entrée de temps (une journée) */
+export const MAX_WORKLOG_MINUTES = 24 * 60;
+
+/** Période couverte par défaut par une feuille de temps lorsque `from` n'est pas fourni */
+export const DEFAULT_TIMESHEET_RANGE_DAYS = 7;
+
+/** Période maximale d'une feuille de temps */
+export const MAX_TIMESHEET_RANGE_DAYS = 366;
+
+/**
+ * DTO de saisie d'une entrée de temps
+ * L'entrée porte soit sur un ticket, soit sur une tâche du projet
+ */
+export class CreateWorklogDto {
+  @ApiPropertyOptional({ description: "Ticket concerné (exclusif avec task_id)", example: 87, type: "integer", minimum: 1 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du ticket doit être un entier" })
+  @Min(1, { message: "L'ID du ticket doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  ticket_id?: number;
+
+  @ApiPropertyOptional({ description: "Tâche concernée (exclusif avec ticket_id)", example: 12, type: "integer", minimum: 1 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID de la tâche doit être un entier" })
+  @Min(1, { message: "L'ID de la tâche doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  task_id?: number;
+
+  @ApiProperty({ description: "Durée en minutes", example: 90, type: "integer", minimum: 1, maximum: MAX_WORKLOG_MINUTES })
+  @Expose()
+  @IsInt({ message: "La durée doit être un nombre entier de minutes" })
+  @Min(1, { message: "La durée doit être d'au moins une minute" })
+  @Max(MAX_WORKLOG_MINUTES, { message: "La durée ne peut pas dépasser 24 heures" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  duration_minutes!: number;
+
+  @ApiPropertyOptional({ description: "Jour travaillé (défaut : aujourd'hui)", example: "2025-09-24", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date doit être au format ISO 8601" })
+  work_date?: string;
+
+  @ApiPropertyOptional({ description: "Commentaire", example: "Pair programming on the OAuth callback", maxLength: 1000 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le commentaire doit être une chaîne de caractères" })
+  @MaxLength(1000, { message: "Le commentaire ne peut pas dépasser 1000 caractères" })
+  note?: string;
+}
+
+/**
+ * DTO de modification d'une entrée de temps (le ticket ou la tâche ne change pas)
+ */
+export class UpdateWorklogDto {
+  @ApiPropertyOptional({ description: "Durée en minutes", example: 120, type: "integer", minimum: 1, maximum: MAX_WORKLOG_MINUTES })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "La durée doit être un nombre entier de minutes" })
+  @Min(1, { message: "La durée doit être d'au moins une minute" })
+  @Max(MAX_WORKLOG_MINUTES, { message: "La durée ne peut pas dépasser 24 heures" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  duration_minutes?: number;
+
+  @ApiPropertyOptional({ description: "Jour travaillé", example: "2025-09-24", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date doit être au format ISO 8601" })
+  work_date?: string;
+
+  @ApiPropertyOptional({ description: "Commentaire", example: "Code review included", maxLength: 1000 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le commentaire doit être une chaîne de caractères" })
+  @MaxLength(1000, { message: "Le commentaire ne peut pas dépasser 1000 caractères" })
+  note?: string;
+}
+
+/**
+ * DTO de démarrage d'un chronomètre sur un ticket ou une tâche
+ */
+export class StartWorklogTimerDto {
+  @ApiPropertyOptional({ description: "Ticket concerné (exclusif avec task_id)", example: 87, type: "integer", minimum: 1 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du ticket doit être un entier" })
+  @Min(1, { message: "L'ID du ticket doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  ticket_id?: number;
+
+  @ApiPropertyOptional({ description: "Tâche concernée (exclusif avec ticket_id)", example: 12, type: "integer", minimum: 1 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID de la tâche doit être un entier" })
+  @Min(1, { message: "L'ID de la tâche doit être positif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  task_id?: number;
+
+  @ApiPropertyOptional({ description: "Commentaire", example: "Investigating the flaky test", maxLength: 1000 })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le commentaire doit être une chaîne de caractères" })
+  @MaxLength(1000, { message: "Le commentaire ne peut pas dépasser 1000 caractères" })
+  note?: string;
+}
+
+/**
+ * Filtres de la liste des entrées de temps d'un projet
+ */
+export class WorklogFilterDto {
+  @ApiPropertyOptional({ example: 87, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du ticket doit être un entier" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  ticket_id?: number;
+
+  @ApiPropertyOptional({ example: 12, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID de la tâche doit être un entier" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  task_id?: number;
+
+  @ApiPropertyOptional({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  @IsOptional()
+  @IsUUID("all", { message: "L'ID de l'utilisateur doit être un UUID" })
+  user_id?: string;
+
+  @ApiPropertyOptional({ description: "Premier jour inclus", example: "2025-09-22", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de début doit être au format ISO 8601" })
+  from?: string;
+
+  @ApiPropertyOptional({ description: "Dernier jour inclus", example: "2025-09-28", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de fin doit être au format ISO 8601" })
+  to?: string;
+
+  @ApiPropertyOptional({ example: 0, type: "integer", minimum: 0, default: 0 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Le skip doit être un entier" })
+  @Min(0, { message: "Le skip ne peut pas être négatif" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  skip?: number;
+
+  @ApiPropertyOptional({ example: 25, type: "integer", minimum: 1, maximum: 100 })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "Le take doit être un entier" })
+  @Min(1, { message: "Le take doit être au minimum 1" })
+  @Max(100, { message: "Le take ne peut pas dépasser 100" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  take?: number;
+}
+
+/**
+ * Période et filtres d'une feuille de temps
+ * Sans bornes, la feuille couvre les `DEFAULT_TIMESHEET_RANGE_DAYS` derniers jours
+ */
+export class TimesheetQueryDto {
+  @ApiPropertyOptional({ description: "Premier jour inclus", example: "2025-09-22", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de début doit être au format ISO 8601" })
+  from?: string;
+
+  @ApiPropertyOptional({ description: "Dernier jour inclus (défaut : aujourd'hui)", example: "2025-09-28", format: "date" })
+  @Expose()
+  @IsOptional()
+  @IsDateString({}, { message: "La date de fin doit être au format ISO 8601" })
+  to?: string;
+
+  @ApiPropertyOptional({ description: "Restreint une feuille de projet à un membre", example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  @IsOptional()
+  @IsUUID("all", { message: "L'ID de l'utilisateur doit être un UUID" })
+  user_id?: string;
+
+  @ApiPropertyOptional({ description: "Restreint une feuille personnelle à un projet", example: 42, type: "integer" })
+  @Expose()
+  @IsOptional()
+  @IsInt({ message: "L'ID du projet doit être un entier" })
+  @Transform(({ value }): number | undefined => (typeof value === "string" ? parseInt(value, 10) : value))
+  project_id?: number;
+}
+
+/**
+ * Entrée de temps
+ * Un chronomètre en cours est une entrée sans `stopped_at`, dont la durée reste à 0 jusqu'à l'arrêt
+ */
+export class WorklogDto {
+  @ApiProperty({ example: 512 })
+  @Expose()
+  id!: number;
+
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  user_id!: string;
+
+  @ApiPropertyOptional({ type: ProfileOverview })
+  @Expose()
+  @Type(() => ProfileOverview)
+  user?: ProfileOverview;
+
+  @ApiProperty({ example: 42 })
+  @Expose()
+  project_id!: number;
+
+  @ApiPropertyOptional({ example: 87, nullable: true })
+  @Expose()
+  ticket_id!: number | null;
+
+  @ApiPropertyOptional({ example: "GILE-87", nullable: true })
+  @Expose()
+  ticket_number!: string | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  task_id!: number | null;
+
+  @ApiProperty({ description: "Titre du ticket ou de la tâche", example: "Fix login issue" })
+  @Expose()
+  title!: string;
+
+  @ApiProperty({ example: "2025-09-24", format: "date" })
+  @Expose()
+  work_date!: string;
+
+  @ApiProperty({ example: 90 })
+  @Expose()
+  duration_minutes!: number;
+
+  @ApiProperty({ example: 1.5 })
+  @Expose()
+  hours!: number;
+
+  @ApiPropertyOptional({ example: "2025-09-24T08:30:00.000Z", nullable: true })
+  @Expose()
+  started_at!: string | null;
+
+  @ApiPropertyOptional({ example: "2025-09-24T10:00:00.000Z", nullable: true })
+  @Expose()
+  stopped_at!: string | null;
+
+  @ApiProperty({ description: "Chronomètre en cours", example: false })
+  @Expose()
+  is_running!: boolean;
+
+  @ApiPropertyOptional({ example: "Pair programming on the OAuth callback", nullable: true })
+  @Expose()
+  note!: string | null;
+
+  @ApiProperty({ example: "2025-09-24T10:00:00.000Z" })
+  @Expose()
+  created_at!: string;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  updated_at!: string | null;
+}
+
+export class WorklogListDto extends BasePaginationDto<WorklogDto> {
+  @ApiProperty({ type: [WorklogDto] })
+  @Expose()
+  @Type(() => WorklogDto)
+  items!: WorklogDto[];
+
+  @ApiProperty({ description: "Total des minutes des entrées filtrées (toutes pages)", example: 1260 })
+  @Expose()
+  total_minutes!: number;
+}
+
+/**
+ * Chronomètre en cours de l'utilisateur (absent si aucun)
+ */
+export class RunningWorklogTimerDto {
+  @ApiPropertyOptional({ type: WorklogDto, nullable: true })
+  @Expose()
+  @Type(() => WorklogDto)
+  timer?: WorklogDto | null;
+}
+
+/** Total d'une journée de la feuille de temps */
+export class TimesheetDayDto {
+  @ApiProperty({ example: "2025-09-24", format: "date" })
+  @Expose()
+  date!: string;
+
+  @ApiProperty({ example: 420 })
+  @Expose()
+  minutes!: number;
+
+  @ApiProperty({ example: 7 })
+  @Expose()
+  hours!: number;
+}
+
+/**
+ * Ligne de la feuille de temps : temps d'un membre sur un ticket ou une tâche, jour par jour
+ */
+export class TimesheetRowDto {
+  @ApiProperty({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f" })
+  @Expose()
+  user_id!: string;
+
+  @ApiPropertyOptional({ example: "jdoe", nullable: true })
+  @Expose()
+  username!: string | null;
+
+  @ApiProperty({ example: 42 })
+  @Expose()
+  project_id!: number;
+
+  @ApiPropertyOptional({ example: 87, nullable: true })
+  @Expose()
+  ticket_id!: number | null;
+
+  @ApiPropertyOptional({ example: "GILE-87", nullable: true })
+  @Expose()
+  ticket_number!: string | null;
+
+  @ApiPropertyOptional({ example: null, nullable: true })
+  @Expose()
+  task_id!: number | null;
+
+  @ApiProperty({ example: "Fix login issue" })
+  @Expose()
+  title!: string;
+
+  @ApiProperty({ type: [TimesheetDayDto], description: "Jours comportant du temps saisi" })
+  @Expose()
+  @Type(() => TimesheetDayDto)
+  days!: TimesheetDayDto[];
+
+  @ApiProperty({ example: 300 })
+  @Expose()
+  total_minutes!: number;
+
+  @ApiProperty({ example: 5 })
+  @Expose()
+  total_hours!: number;
+}
+
+/**
+ * Feuille de temps d'un membre (tous projets) ou d'un projet (tous membres)
+ * Les chronomètres en cours ne sont pas comptés
+ */
+export class TimesheetDto {
+  @ApiProperty({ example: "2025-09-22", format: "date" })
+  @Expose()
+  from!: string;
+
+  @ApiProperty({ example: "2025-09-28", format: "date" })
+  @Expose()
+  to!: string;
+
+  @ApiPropertyOptional({ example: "2b7c6a3e-5a1f-4f0e-9d3c-1b2a3c4d5e6f", nullable: true })
+  @Expose()
+  user_id!: string | null;
+
+  @ApiPropertyOptional({ example: 42, nullable: true })
+  @Expose()
+  project_id!: number | null;
+
+  @ApiProperty({ type: [TimesheetDayDto], description: "Totaux de chaque jour de la période" })
+  @Expose()
+  @Type(() => TimesheetDayDto)
+  days!: TimesheetDayDto[];
+
+  @ApiProperty({ type: [TimesheetRowDto] })
+  @Expose()
+  @Type(() => TimesheetRowDto)
+  rows!: TimesheetRowDto[];
+
+  @ApiProperty({ example: 1260 })
+  @Expose()
+  total_minutes!: number;
+
+  @ApiProperty({ example: 21 })
+  @Expose()
+  total_hours!: number;
+}
+
+/**
+ * Export CSV d'une feuille de temps : une ligne par entrée
+ */
+export class TimesheetExportDto {
+  @ApiProperty({ example: "timesheet-project-42-2025-09-22-2025-09-28.csv" })
+  @Expose()
+  filename!: string;
+
+  @ApiProperty({ example: "text/csv; charset=utf-8" })
+  @Expose()
+  content_type!: string;
+
+  @ApiProperty({ example: "date,user,project_id,item,title,minutes,hours,note\n2025-09-24,jdoe,42,GILE-87,Fix login issue,90,1.5,\n" })
+  @Expose()
+  content!: string;
+}
+
+// Prisma select types for type-safe queries
+export const WorklogDtoSelect = {
+  id: true,
+  user_id: true,
+  project_id: true,
+  ticket_id: true,
+  task_id: true,
+  work_date: true,
+  duration_minutes: true,
+  started_at: true,
+  stopped_at: true,
+  note: true,
+  created_at: true,
+  updated_at: true,
+  profile: { select: ProfileOverviewSelect },
+  ticket: { select: { ticket_number: true, title: true } },
+  task: { select: { title: true } },
+} as const;
@@ -567,6 +567,185 @@ export class WorkspaceMembersListDto extends BasePaginationDto<WorkspaceMemberDt
   items!: WorkspaceMemberDto[];
 }
 
+/**
+ * DTO pour inviter un utilisateur dans un workspace
+ * Compatible avec Prisma model workspace_invitations et gRPC WorkspaceInvitations
+ * L'invitation porte le rôle qui sera attribué au membre lors de son acceptation
+ */
+export class InviteWorkspaceMemberDto {
+  @ApiProperty({
+    description: "ID de l'utilisateur à inviter dans le workspace",
+    example: "550e8400-e29b-41d4-a716-446655440000",
+    type: "string",
+    format: "uuid",
+    required: true,
+  })
+  @Expose()
+  @IsUUID(4, { message: "L'ID utilisateur doit être un UUID valide" })
+  @IsNotEmpty({ message: "L'ID utilisateur est requis" })
+  userId: string;
+
+  @ApiPropertyOptional({
+    description: "Rôle attribué à l'utilisateur lorsqu'il acceptera l'invitation",
+    example: WorkspaceRole.DEVELOPER,
+    enum: WorkspaceRole,
+    default: WorkspaceRole.VIEWER,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsEnum(WorkspaceRole, { message: "Le rôle doit être une valeur valide de WorkspaceRole" })
+  role?: WorkspaceRole = WorkspaceRole.VIEWER;
+}
+
+/**
+ * DTO complet pour une invitation à un workspace
+ * Compatible avec Prisma model workspace_invitations et gRPC WorkspaceInvitations
+ * Le token n'est renvoyé qu'à l'invité et lors de l'émission (invite / resend)
+ */
+export class WorkspaceInvitationDto {
+  @ApiProperty({
+    description: "Identifiant unique de l'invitation",
+    example: "b3fb243f-8368-47aa-bcc7-072f049db8af",
+    format: "uuid",
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsString({ message: "L'ID de l'invitation doit être une chaîne de caractères" })
+  id!: string;
+
+  @ApiProperty({
+    description: "Identifiant du workspace",
+    example: "b3fb243f-8368-47aa-bcc7-072f049db8af",
+    format: "uuid",
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsString({ message: "L'ID du workspace doit être une chaîne de caractères" })
+  workspace_id!: string;
+
+  @ApiProperty({
+    description: "Identifiant de l'utilisateur invité",
+    example: "b3fb243f-8368-47aa-bcc7-072f049db8af",
+    format: "uuid",
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsString({ message: "L'ID utilisateur doit être une chaîne de caractères" })
+  user_id!: string;
+
+  @ApiProperty({
+    description: "Rôle attribué lors de l'acceptation",
+    enum: WorkspaceRole,
+    example: WorkspaceRole.DEVELOPER,
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsEnum(WorkspaceRole, { message: "Rôle utilisateur invalide" })
+  role!: WorkspaceRole;
+
+  @ApiPropertyOptional({
+    description: "Token d'invitation à utiliser pour accepter ou refuser",
+    example: "3f2a9c...",
+    type: "string",
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "Le token doit être une chaîne de caractères" })
+  token?: string;
+
+  @ApiProperty({
+    description: "Date d'expiration de l'invitation",
+    example: "2025-09-30T09:41:59.298Z",
+    format: "date-time",
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsString({ message: "La date d'expiration doit être une chaîne de caractères" })
+  expires_at!: string;
+
+  @ApiProperty({
+    description: "Indique si l'invitation a été acceptée",
+    example: false,
+    type: "boolean",
+    required: true,
+  })
+  @Expose()
+  @IsBoolean({ message: "Le statut d'acceptation doit être un booléen" })
+  accepted!: boolean;
+
+  @ApiPropertyOptional({
+    description: "Date d'acceptation de l'invitation",
+    example: "2025-09-24T09:41:59.298Z",
+    format: "date-time",
+    type: "string",
+    nullable: true,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @IsString({ message: "La date d'acceptation doit être une chaîne de caractères" })
+  accepted_at?: string | null;
+
+  @ApiProperty({
+    description: "Date de création de l'invitation",
+    example: "2025-09-23T09:41:59.298Z",
+    format: "date-time",
+    type: "string",
+    required: true,
+  })
+  @Expose()
+  @IsString({ message: "La date de création doit être une chaîne de caractères" })
+  created_at!: string;
+
+  @ApiPropertyOptional({
+    description: "Utilisateur ayant émis l'invitation",
+    type: () => ProfileOverview,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @Type(() => ProfileOverview)
+  invited_by_user?: ProfileOverview;
+
+  @ApiPropertyOptional({
+    description: "Utilisateur invité",
+    type: () => ProfileOverview,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @Type(() => ProfileOverview)
+  user?: ProfileOverview;
+
+  @ApiPropertyOptional({
+    description: "Workspace concerné par l'invitation",
+    type: () => WorkspaceOverview,
+    required: false,
+  })
+  @Expose()
+  @IsOptional()
+  @Type(() => WorkspaceOverview)
+  workspace?: WorkspaceOverview;
+}
+
+export class WorkspaceInvitationsListDto extends BasePaginationDto<WorkspaceInvitationDto> {
+  @ApiProperty({
+    description: "Liste des invitations",
+    type: [WorkspaceInvitationDto],
+    required: true,
+  })
+  @Expose()
+  @Type(() => WorkspaceInvitationDto)
+  items!: WorkspaceInvitationDto[];
+}
+
 // ============================================================================
 // PRISMA SELECT TYPES
 // ============================================================================
@@ -681,6 +860,30 @@ export const WorkspaceMemberListSelect = {
   },
 } as const;
 
+/**
+ * Type de sélection Prisma pour WorkspaceInvitationDto
+ * Le token est volontairement exclu : il est ajouté explicitement là où il peut être exposé
+ */
+export const WorkspaceInvitationDtoSelect = {
+  id: true,
+  workspace_id: true,
+  user_id: true,
+  role: true,
+  expires_at: true,
+  accepted: true,
+  accepted_at: true,
+  created_at: true,
+  invited_by_user: {
+    select: ProfileOverviewSelect,
+  },
+  user_id_to_profiles: {
+    select: ProfileOverviewSelect,
+  },
+  workspace: {
+    select: WorkspaceOverviewSelect,
+  },
+} as const;
+
 // ============================================================================
 // TYPE HELPERS
 // ============================================================================
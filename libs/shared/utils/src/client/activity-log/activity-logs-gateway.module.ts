@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { ActivityLogsGatewayService } from "./activity-logs.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "ACTIVITY_LOGS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
+          package: "activity_logs.v1",
+          protoPath: [join(process.cwd(), "libs/proto/activity-logs/v1/activity-logs.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [ActivityLogsGatewayService],
+  exports: [ActivityLogsGatewayService],
+})
+export class ActivityLogsGatewayModule {}
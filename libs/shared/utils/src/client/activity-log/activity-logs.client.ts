@@ -0,0 +1,43 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import { ActivityLogDto, ActivityLogFilterDto, ActivityLogScope, ActivityLogsListDto, ActivityLogStatsDto } from "@shared/types";
+
+type ActivityLogScopeRequest = ActivityLogScope & { user_id: string; filter?: ActivityLogFilterDto };
+// L'id (int64) arrive en chaîne et les métadonnées en JSON sérialisé
+type GrpcActivityLog = Omit<ActivityLogDto, "id" | "metadata"> & { id: string | number; metadata?: string };
+
+interface ActivityLogsGrpc {
+  Search(request: ActivityLogScopeRequest): Observable<Omit<ActivityLogsListDto, "items"> & { items?: GrpcActivityLog[] }>;
+  GetStats(request: ActivityLogScopeRequest): Observable<ActivityLogStatsDto>;
+}
+
+@Injectable()
+export class ActivityLogsGatewayService implements OnModuleInit {
+  private svc!: ActivityLogsGrpc;
+
+  constructor(@Inject("ACTIVITY_LOGS_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<ActivityLogsGrpc>("ActivityLogs");
+  }
+
+  async search(user_id: string, scope: ActivityLogScope, filter?: ActivityLogFilterDto): Promise<ActivityLogsListDto> {
+    const list = await firstValueFrom(this.svc.Search({ user_id, ...scope, filter }));
+    return { ...list, items: (list.items ?? []).map(item => this.deserialize(item)) };
+  }
+
+  async getStats(user_id: string, scope: ActivityLogScope, filter?: ActivityLogFilterDto): Promise<ActivityLogStatsDto> {
+    return await firstValueFrom(this.svc.GetStats({ user_id, ...scope, filter }));
+  }
+
+  private deserialize(log: GrpcActivityLog): ActivityLogDto {
+    let metadata: Record<string, any> | null = null;
+    try {
+      metadata = log.metadata ? (JSON.parse(log.metadata) as Record<string, any>) : null;
+    } catch {
+      metadata = null;
+    }
+    return { ...log, id: Number(log.id), metadata };
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { AgentsGatewayService } from "./agents.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "AGENTS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
+          package: "agents.v1",
+          protoPath: [join(process.cwd(), "libs/proto/agents/v1/agents.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [AgentsGatewayService],
+  exports: [AgentsGatewayService],
+})
+export class AgentsGatewayModule {}
@@ -0,0 +1,89 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import {
+  AgentDto,
+  AgentFilterDto,
+  AgentListDto,
+  AgentPromptDto,
+  AgentPromptListDto,
+  ComposeAgentPromptDto,
+  ComposedPromptDto,
+  CreateAgentDto,
+  CreateAgentPromptDto,
+  PromptRoleType,
+  UpdateAgentDto,
+  UpdateAgentPromptDto,
+} from "@shared/types";
+
+interface AgentsGrpcClient {
+  Create(request: { user_id: string; workspace_id: string; dto: CreateAgentDto }): Observable<AgentDto>;
+  List(request: { user_id: string; workspace_id: string; filter?: AgentFilterDto; skip?: number; take?: number }): Observable<AgentListDto>;
+  GetById(request: { user_id: string; workspace_id: string; id: number }): Observable<AgentDto>;
+  Update(request: { user_id: string; workspace_id: string; id: number; dto: UpdateAgentDto }): Observable<AgentDto>;
+  Delete(request: { user_id: string; workspace_id: string; id: number }): Observable<{ success: boolean }>;
+  CreateVersion(request: { user_id: string; workspace_id: string; id: number }): Observable<AgentDto>;
+  ListPrompts(request: { user_id: string; workspace_id: string; agent_id: number; role_type?: PromptRoleType }): Observable<AgentPromptListDto>;
+  CreatePrompt(request: { user_id: string; workspace_id: string; agent_id: number; dto: CreateAgentPromptDto }): Observable<AgentPromptDto>;
+  UpdatePrompt(request: { user_id: string; workspace_id: string; id: number; dto: UpdateAgentPromptDto }): Observable<AgentPromptDto>;
+  DeletePrompt(request: { user_id: string; workspace_id: string; id: number }): Observable<{ success: boolean }>;
+  Compose(request: { user_id: string; workspace_id: string; dto: ComposeAgentPromptDto }): Observable<ComposedPromptDto>;
+}
+
+@Injectable()
+export class AgentsGatewayService {
+  private client!: AgentsGrpcClient;
+
+  constructor(@Inject("AGENTS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<AgentsGrpcClient>("Agents");
+  }
+
+  async create(userId: string, workspaceId: string, dto: CreateAgentDto): Promise<AgentDto> {
+    return firstValueFrom(this.client.Create({ user_id: userId, workspace_id: workspaceId, dto }));
+  }
+
+  async list(userId: string, workspaceId: string, filter?: AgentFilterDto, skip?: number, take?: number): Promise<AgentListDto> {
+    return firstValueFrom(this.client.List({ user_id: userId, workspace_id: workspaceId, filter, skip, take }));
+  }
+
+  async findById(id: number, userId: string, workspaceId: string): Promise<AgentDto> {
+    return firstValueFrom(this.client.GetById({ user_id: userId, workspace_id: workspaceId, id }));
+  }
+
+  async update(id: number, dto: UpdateAgentDto, userId: string, workspaceId: string): Promise<AgentDto> {
+    return firstValueFrom(this.client.Update({ user_id: userId, workspace_id: workspaceId, id, dto }));
+  }
+
+  async remove(id: number, userId: string, workspaceId: string): Promise<boolean> {
+    const result = await firstValueFrom(this.client.Delete({ user_id: userId, workspace_id: workspaceId, id }));
+    return result.success;
+  }
+
+  async createVersion(id: number, userId: string, workspaceId: string): Promise<AgentDto> {
+    return firstValueFrom(this.client.CreateVersion({ user_id: userId, workspace_id: workspaceId, id }));
+  }
+
+  async listPrompts(agentId: number, userId: string, workspaceId: string, roleType?: PromptRoleType): Promise<AgentPromptListDto> {
+    return firstValueFrom(this.client.ListPrompts({ user_id: userId, workspace_id: workspaceId, agent_id: agentId, role_type: roleType }));
+  }
+
+  async createPrompt(agentId: number, dto: CreateAgentPromptDto, userId: string, workspaceId: string): Promise<AgentPromptDto> {
+    return firstValueFrom(this.client.CreatePrompt({ user_id: userId, workspace_id: workspaceId, agent_id: agentId, dto }));
+  }
+
+  async updatePrompt(id: number, dto: UpdateAgentPromptDto, userId: string, workspaceId: string): Promise<AgentPromptDto> {
+    return firstValueFrom(this.client.UpdatePrompt({ user_id: userId, workspace_id: workspaceId, id, dto }));
+  }
+
+  async removePrompt(id: number, userId: string, workspaceId: string): Promise<boolean> {
+    const result = await firstValueFrom(this.client.DeletePrompt({ user_id: userId, workspace_id: workspaceId, id }));
+    return result.success;
+  }
+
+  async compose(dto: ComposeAgentPromptDto, userId: string, workspaceId: string): Promise<ComposedPromptDto> {
+    return firstValueFrom(this.client.Compose({ user_id: userId, workspace_id: workspaceId, dto }));
+  }
+}
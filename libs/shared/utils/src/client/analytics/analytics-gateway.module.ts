@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { AnalyticsGatewayService } from "./analytics.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "ANALYTICS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.ANALYTICS_GRPC_URL ?? "localhost:50055",
+          channelOptions: requestContextChannelOptions,
+          package: "analytics.v1",
+          protoPath: [join(process.cwd(), "libs/proto/analytics/v1/analytics.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [AnalyticsGatewayService],
+  exports: [AnalyticsGatewayService],
+})
+export class AnalyticsGatewayModule {}
@@ -0,0 +1,75 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import {
+  AnalyticsFilterDto,
+  AnalyticsScope,
+  AssigneeLoadReportDto,
+  CycleTimeReportDto,
+  EstimateAccuracyReportDto,
+  ThroughputReportDto,
+  VelocityReportDto,
+  WipReportDto,
+} from "@shared/types";
+
+interface AnalyticsRequest {
+  user_id: string;
+  project_id?: number;
+  workspace_id?: string;
+  filter?: AnalyticsFilterDto;
+}
+
+interface AnalyticsGrpcClient {
+  GetCycleTime(request: AnalyticsRequest): Observable<CycleTimeReportDto>;
+  GetThroughput(request: AnalyticsRequest): Observable<ThroughputReportDto>;
+  GetWip(request: AnalyticsRequest): Observable<WipReportDto>;
+  GetVelocity(request: AnalyticsRequest): Observable<VelocityReportDto>;
+  GetEstimateAccuracy(request: AnalyticsRequest): Observable<EstimateAccuracyReportDto>;
+  GetAssigneeLoad(request: AnalyticsRequest): Observable<AssigneeLoadReportDto>;
+}
+
+/** Périmètre d'un rapport côté gateway */
+export interface AnalyticsTargetRef {
+  scope: AnalyticsScope;
+  id: number | string;
+}
+
+@Injectable()
+export class AnalyticsGatewayService {
+  private client!: AnalyticsGrpcClient;
+
+  constructor(@Inject("ANALYTICS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<AnalyticsGrpcClient>("Analytics");
+  }
+
+  async getCycleTime(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): Promise<CycleTimeReportDto> {
+    return firstValueFrom(this.client.GetCycleTime(this.request(target, userId, filter)));
+  }
+
+  async getThroughput(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): Promise<ThroughputReportDto> {
+    return firstValueFrom(this.client.GetThroughput(this.request(target, userId, filter)));
+  }
+
+  async getWip(target: AnalyticsTargetRef, userId: string): Promise<WipReportDto> {
+    return firstValueFrom(this.client.GetWip(this.request(target, userId)));
+  }
+
+  async getVelocity(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): Promise<VelocityReportDto> {
+    return firstValueFrom(this.client.GetVelocity(this.request(target, userId, filter)));
+  }
+
+  async getEstimateAccuracy(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): Promise<EstimateAccuracyReportDto> {
+    return firstValueFrom(this.client.GetEstimateAccuracy(this.request(target, userId, filter)));
+  }
+
+  async getAssigneeLoad(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): Promise<AssigneeLoadReportDto> {
+    return firstValueFrom(this.client.GetAssigneeLoad(this.request(target, userId, filter)));
+  }
+
+  private request(target: AnalyticsTargetRef, userId: string, filter?: AnalyticsFilterDto): AnalyticsRequest {
+    return target.scope === AnalyticsScope.PROJECT ? { user_id: userId, project_id: Number(target.id), filter } : { user_id: userId, workspace_id: String(target.id), filter };
+  }
+}
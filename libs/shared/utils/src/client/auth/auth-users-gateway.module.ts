@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { AuthUsersGatewayService } from "./auth-users.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "AUTH_USERS_CLIENT",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.AUTH_GRPC_URL ?? "localhost:50051",
+          channelOptions: requestContextChannelOptions,
+          package: "auth.v1",
+          protoPath: [join(process.cwd(), "libs/proto/auth/v1/auth.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [AuthUsersGatewayService],
+  exports: [AuthUsersGatewayService],
+})
+export class AuthUsersGatewayModule {}
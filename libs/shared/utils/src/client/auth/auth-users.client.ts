@@ -0,0 +1,27 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import type { AuthUserDto } from "@shared/types";
+
+interface AuthUsersGrpc {
+  GetUser(request: { user_id: string }): Observable<AuthUserDto>;
+}
+
+/**
+ * Client gRPC du service d'authentification pour les microservices
+ * (lecture des coordonnées des comptes : email, téléphone)
+ */
+@Injectable()
+export class AuthUsersGatewayService implements OnModuleInit {
+  private svc!: AuthUsersGrpc;
+
+  constructor(@Inject("AUTH_USERS_CLIENT") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<AuthUsersGrpc>("Auth");
+  }
+
+  async getUser(user_id: string): Promise<AuthUserDto> {
+    return await firstValueFrom(this.svc.GetUser({ user_id }));
+  }
+}
@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { ChatsGatewayService } from "./chats.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "CHATS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.CHAT_GRPC_URL ?? "localhost:50054",
+          channelOptions: requestContextChannelOptions,
+          package: "chats.v1",
+          protoPath: [join(process.cwd(), "libs/proto/chats/v1/chats.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [ChatsGatewayService],
+  exports: [ChatsGatewayService],
+})
+export class ChatsGatewayModule {}
@@ -0,0 +1,92 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, map, type Observable } from "rxjs";
+import { ChatDto, ChatListDto, ChatStreamEventDto, CreateChatDto, MessageDto, MessageListDto, SendMessageDto, UpdateChatDto } from "@shared/types";
+
+// Les objets JSON libres transitent sérialisés
+type GrpcChat = Omit<ChatDto, "metadata"> & { metadata?: string };
+type GrpcMessage = Omit<MessageDto, "rawMessageJson" | "performanceMetadata"> & { rawMessageJson?: string; performanceMetadata?: string };
+type GrpcChatStreamEvent = Omit<ChatStreamEventDto, "message"> & { message?: GrpcMessage };
+
+interface ChatsGrpc {
+  Create(request: { user_id: string; dto: Omit<CreateChatDto, "metadata"> & { metadata?: string } }): Observable<GrpcChat>;
+  List(request: { user_id: string; project_id: number; search?: string; skip?: number; take?: number }): Observable<Omit<ChatListDto, "items"> & { items?: GrpcChat[] }>;
+  GetById(request: { user_id: string; id: number }): Observable<GrpcChat>;
+  Update(request: { user_id: string; id: number; dto: Omit<UpdateChatDto, "metadata"> & { metadata?: string } }): Observable<GrpcChat>;
+  Delete(request: { user_id: string; id: number }): Observable<{ success: boolean }>;
+  ListMessages(request: { user_id: string; chat_id: number; skip?: number; take?: number }): Observable<Omit<MessageListDto, "items"> & { items?: GrpcMessage[] }>;
+  SendMessage(request: { user_id: string; chat_id: number; dto: SendMessageDto }): Observable<GrpcChatStreamEvent>;
+}
+
+@Injectable()
+export class ChatsGatewayService implements OnModuleInit {
+  private svc!: ChatsGrpc;
+
+  constructor(@Inject("CHATS_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<ChatsGrpc>("Chats");
+  }
+
+  async create(user_id: string, dto: CreateChatDto): Promise<ChatDto> {
+    const chat = await firstValueFrom(this.svc.Create({ user_id, dto: { ...dto, metadata: this.stringify(dto.metadata) } }));
+    return this.deserializeChat(chat);
+  }
+
+  async list(user_id: string, project_id: number, search?: string, skip?: number, take?: number): Promise<ChatListDto> {
+    const list = await firstValueFrom(this.svc.List({ user_id, project_id, search, skip, take }));
+    return { ...list, items: (list.items ?? []).map(chat => this.deserializeChat(chat)) } as ChatListDto;
+  }
+
+  async findById(user_id: string, id: number): Promise<ChatDto> {
+    return this.deserializeChat(await firstValueFrom(this.svc.GetById({ user_id, id })));
+  }
+
+  async update(user_id: string, id: number, dto: UpdateChatDto): Promise<ChatDto> {
+    const chat = await firstValueFrom(this.svc.Update({ user_id, id, dto: { ...dto, metadata: this.stringify(dto.metadata) } }));
+    return this.deserializeChat(chat);
+  }
+
+  async remove(user_id: string, id: number): Promise<boolean> {
+    const result = await firstValueFrom(this.svc.Delete({ user_id, id }));
+    return result.success;
+  }
+
+  async listMessages(user_id: string, chat_id: number, skip?: number, take?: number): Promise<MessageListDto> {
+    const list = await firstValueFrom(this.svc.ListMessages({ user_id, chat_id, skip, take }));
+    return { ...list, items: (list.items ?? []).map(message => this.deserializeMessage(message)) } as MessageListDto;
+  }
+
+  /** Flux de la réponse : question enregistrée, tokens, puis réponse enregistrée ou erreur du modèle */
+  sendMessage(user_id: string, chat_id: number, dto: SendMessageDto): Observable<ChatStreamEventDto> {
+    return this.svc.SendMessage({ user_id, chat_id, dto }).pipe(map(event => ({ ...event, message: event.message ? this.deserializeMessage(event.message) : undefined })));
+  }
+
+  private stringify(value?: Record<string, any>): string | undefined {
+    return value === undefined ? undefined : JSON.stringify(value);
+  }
+
+  private parse(value?: string): Record<string, any> | undefined {
+    try {
+      return value ? (JSON.parse(value) as Record<string, any>) : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private deserializeChat(chat: GrpcChat): ChatDto {
+    return { ...chat, metadata: this.parse(chat.metadata) };
+  }
+
+  private deserializeMessage(message: GrpcMessage): MessageDto {
+    return {
+      ...message,
+      tools: message.tools ?? [],
+      references: message.references ?? [],
+      referencedMessages: message.referencedMessages ?? [],
+      citations: message.citations ?? [],
+      rawMessageJson: this.parse(message.rawMessageJson),
+      performanceMetadata: this.parse(message.performanceMetadata),
+    };
+  }
+}
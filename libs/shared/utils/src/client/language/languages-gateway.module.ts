@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { LanguagesGatewayService } from "./languages.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "LANGUAGES_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
+          package: "languages.v1",
+          protoPath: [join(process.cwd(), "libs/proto/languages/v1/languages.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [LanguagesGatewayService],
+  exports: [LanguagesGatewayService],
+})
+export class LanguagesGatewayModule {}
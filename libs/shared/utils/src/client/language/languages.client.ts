@@ -0,0 +1,44 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import { LanguageDto, LanguageListDto, CreateLanguageDto, UpdateLanguageDto, BaseSearchQueryDto } from "@shared/types";
+
+interface LanguagesGrpcClient {
+  Create(request: { user_id: string; dto: CreateLanguageDto }): Observable<LanguageDto>;
+  Search(request: { user_id: string; params?: BaseSearchQueryDto }): Observable<LanguageListDto>;
+  GetById(request: { user_id: string; id: number }): Observable<LanguageDto>;
+  Update(request: { user_id: string; id: number; dto: UpdateLanguageDto }): Observable<LanguageDto>;
+  Delete(request: { user_id: string; id: number }): Observable<Record<string, never>>;
+}
+
+@Injectable()
+export class LanguagesGatewayService {
+  private client!: LanguagesGrpcClient;
+
+  constructor(@Inject("LANGUAGES_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<LanguagesGrpcClient>("Languages");
+  }
+
+  async create(userId: string, dto: CreateLanguageDto): Promise<LanguageDto> {
+    return firstValueFrom(this.client.Create({ user_id: userId, dto }));
+  }
+
+  async search(userId: string, params?: BaseSearchQueryDto): Promise<LanguageListDto> {
+    return firstValueFrom(this.client.Search({ user_id: userId, params }));
+  }
+
+  async findById(userId: string, id: number): Promise<LanguageDto> {
+    return firstValueFrom(this.client.GetById({ user_id: userId, id }));
+  }
+
+  async update(userId: string, id: number, dto: UpdateLanguageDto): Promise<LanguageDto> {
+    return firstValueFrom(this.client.Update({ user_id: userId, id, dto }));
+  }
+
+  async remove(userId: string, id: number): Promise<void> {
+    await firstValueFrom(this.client.Delete({ user_id: userId, id }));
+  }
+}
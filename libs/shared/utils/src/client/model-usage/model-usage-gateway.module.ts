@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { ModelUsageGatewayService } from "./model-usage.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "MODEL_USAGE_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.CHAT_GRPC_URL ?? "localhost:50054",
+          channelOptions: requestContextChannelOptions,
+          package: "model_usage.v1",
+          protoPath: [join(process.cwd(), "libs/proto/model-usage/v1/model-usage.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [ModelUsageGatewayService],
+  exports: [ModelUsageGatewayService],
+})
+export class ModelUsageGatewayModule {}
@@ -0,0 +1,101 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import { ModelUsageGroupBy, ModelUsageReportDto, ModelUsageReportQueryDto, ModelUsageReportRowDto, WorkspaceTokenQuotaDto } from "@shared/types";
+
+// Les int64 transitent en chaînes (longs: String) et les champs optionnels absents ne sont pas renseignés
+type GrpcLong = string | number;
+type GrpcReportRow = Omit<ModelUsageReportRowDto, "key" | "label" | "input_tokens" | "output_tokens" | "cached_tokens" | "total_tokens"> & {
+  key?: string;
+  label?: string;
+  input_tokens: GrpcLong;
+  output_tokens: GrpcLong;
+  cached_tokens: GrpcLong;
+  total_tokens: GrpcLong;
+};
+type GrpcReport = Omit<ModelUsageReportDto, "rows" | "totals"> & { rows?: GrpcReportRow[]; totals?: GrpcReportRow };
+type GrpcQuota = Omit<WorkspaceTokenQuotaDto, "monthly_token_quota" | "used_tokens" | "remaining_tokens"> & {
+  monthly_token_quota?: number;
+  used_tokens: GrpcLong;
+  remaining_tokens?: GrpcLong;
+};
+
+interface ModelUsageGrpc {
+  Report(request: {
+    user_id: string;
+    workspace_id: string;
+    group_by: ModelUsageGroupBy;
+    from_date?: string;
+    to_date?: string;
+    project_id?: number;
+    agent_id?: number;
+    filter_user_id?: string;
+    source?: string;
+  }): Observable<GrpcReport>;
+  GetQuota(request: { user_id: string; workspace_id: string }): Observable<GrpcQuota>;
+  SetQuota(request: { user_id: string; workspace_id: string; monthly_token_quota?: number }): Observable<GrpcQuota>;
+}
+
+@Injectable()
+export class ModelUsageGatewayService implements OnModuleInit {
+  private svc!: ModelUsageGrpc;
+
+  constructor(@Inject("MODEL_USAGE_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<ModelUsageGrpc>("ModelUsage");
+  }
+
+  async report(user_id: string, workspace_id: string, query: ModelUsageReportQueryDto): Promise<ModelUsageReportDto> {
+    const report = await firstValueFrom(
+      this.svc.Report({
+        user_id,
+        workspace_id,
+        group_by: query.group_by,
+        from_date: query.from_date,
+        to_date: query.to_date,
+        project_id: query.project_id,
+        agent_id: query.agent_id,
+        filter_user_id: query.user_id,
+        source: query.source,
+      }),
+    );
+    return {
+      ...report,
+      rows: (report.rows ?? []).map(row => this.deserializeRow(row)),
+      totals: report.totals
+        ? this.deserializeRow(report.totals)
+        : { key: null, label: null, requests: 0, input_tokens: 0, output_tokens: 0, cached_tokens: 0, total_tokens: 0, cost: 0, unpriced_requests: 0 },
+    };
+  }
+
+  async getQuota(user_id: string, workspace_id: string): Promise<WorkspaceTokenQuotaDto> {
+    return this.deserializeQuota(await firstValueFrom(this.svc.GetQuota({ user_id, workspace_id })));
+  }
+
+  /** Quota null : illimité */
+  async setQuota(user_id: string, workspace_id: string, monthly_token_quota: number | null): Promise<WorkspaceTokenQuotaDto> {
+    return this.deserializeQuota(await firstValueFrom(this.svc.SetQuota({ user_id, workspace_id, monthly_token_quota: monthly_token_quota ?? undefined })));
+  }
+
+  private deserializeRow(row: GrpcReportRow): ModelUsageReportRowDto {
+    return {
+      ...row,
+      key: row.key ?? null,
+      label: row.label ?? null,
+      input_tokens: Number(row.input_tokens),
+      output_tokens: Number(row.output_tokens),
+      cached_tokens: Number(row.cached_tokens),
+      total_tokens: Number(row.total_tokens),
+    };
+  }
+
+  private deserializeQuota(quota: GrpcQuota): WorkspaceTokenQuotaDto {
+    return {
+      ...quota,
+      monthly_token_quota: quota.monthly_token_quota ?? null,
+      used_tokens: Number(quota.used_tokens),
+      remaining_tokens: quota.remaining_tokens != null ? Number(quota.remaining_tokens) : null,
+    };
+  }
+}
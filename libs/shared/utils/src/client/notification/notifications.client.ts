@@ -0,0 +1,58 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import { DigestPeriod, NotificationDigestDto, NotificationDto, NotificationFilterDto, NotificationsListDto } from "@shared/types";
+
+// Les métadonnées arrivent en JSON sérialisé
+type GrpcNotification = Omit<NotificationDto, "metadata"> & { metadata?: string };
+
+interface NotificationsGrpc {
+  Search(request: { user_id: string; filter?: NotificationFilterDto }): Observable<Omit<NotificationsListDto, "items"> & { items?: GrpcNotification[] }>;
+  CountUnread(request: { user_id: string }): Observable<{ count: number }>;
+  MarkRead(request: { user_id: string; id: string }): Observable<GrpcNotification>;
+  MarkAllRead(request: { user_id: string }): Observable<{ count: number }>;
+  PreviewDigest(request: { user_id: string; period: DigestPeriod }): Observable<NotificationDigestDto>;
+}
+
+@Injectable()
+export class NotificationsGatewayService implements OnModuleInit {
+  private svc!: NotificationsGrpc;
+
+  constructor(@Inject("NOTIFICATIONS_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<NotificationsGrpc>("Notifications");
+  }
+
+  async search(user_id: string, filter?: NotificationFilterDto): Promise<NotificationsListDto> {
+    const list = await firstValueFrom(this.svc.Search({ user_id, filter }));
+    return { ...list, items: (list.items ?? []).map(item => this.deserialize(item)) };
+  }
+
+  async countUnread(user_id: string): Promise<{ count: number }> {
+    return await firstValueFrom(this.svc.CountUnread({ user_id }));
+  }
+
+  async markRead(user_id: string, id: string): Promise<NotificationDto> {
+    return this.deserialize(await firstValueFrom(this.svc.MarkRead({ user_id, id })));
+  }
+
+  async markAllRead(user_id: string): Promise<{ count: number }> {
+    return await firstValueFrom(this.svc.MarkAllRead({ user_id }));
+  }
+
+  async previewDigest(user_id: string, period: DigestPeriod): Promise<NotificationDigestDto> {
+    const digest = await firstValueFrom(this.svc.PreviewDigest({ user_id, period }));
+    return { ...digest, assigned: digest.assigned ?? [], completed: digest.completed ?? [], due_soon: digest.due_soon ?? [], sprints: digest.sprints ?? [] };
+  }
+
+  private deserialize(notification: GrpcNotification): NotificationDto {
+    let metadata: Record<string, any> | null = null;
+    try {
+      metadata = notification.metadata ? (JSON.parse(notification.metadata) as Record<string, any>) : null;
+    } catch {
+      metadata = null;
+    }
+    return { ...notification, metadata };
+  }
+}
@@ -3,6 +3,7 @@ import { ClientsModule, Transport } from "@nestjs/microservices";
 import { join } from "node:path";
 import { ProjectsGatewayService } from "./projects.client";
 import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
           package: "projects.v1",
           protoPath: [join(process.cwd(), "libs/proto/projects/v1/projects.proto")],
           loader: {
@@ -1,7 +1,7 @@
 import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import type { ClientGrpc } from "@nestjs/microservices";
 import { firstValueFrom, type Observable } from "rxjs";
-import type { CreateProjectDto, UpdateProjectDto, ProjectDto, ProjectsListDto, TeamOverview, BaseSearchQueryDto } from "@shared/types";
+import type { CreateProjectDto, UpdateProjectDto, ProjectDto, ProjectsListDto, TeamOverview, BaseSearchQueryDto, ProgressRecalculationDto } from "@shared/types";
 
 interface ProjectsGrpc {
   Create(request: { user_id: string; workspace_id: string; dto: CreateProjectDto }): Observable<ProjectDto>;
@@ -11,6 +11,7 @@ interface ProjectsGrpc {
   Update(request: { user_id: string; id: number; dto: UpdateProjectDto }): Observable<ProjectDto>;
   Delete(request: { user_id: string; id: number }): Observable<{ success: boolean }>;
   GetTeam(request: { user_id: string; project_id: number }): Observable<TeamOverview>;
+  RecalculateProgress(request: { user_id: string; project_id?: number; workspace_id?: string }): Observable<ProgressRecalculationDto>;
 }
 
 @Injectable()
@@ -51,4 +52,8 @@ export class ProjectsGatewayService implements OnModuleInit {
   async getTeam(user_id: string, project_id: number): Promise<TeamOverview> {
     return await firstValueFrom(this.svc.GetTeam({ user_id, project_id }));
   }
+
+  async recalculateProgress(user_id: string, scope: { project_id?: number; workspace_id?: string }): Promise<ProgressRecalculationDto> {
+    return await firstValueFrom(this.svc.RecalculateProgress({ user_id, ...scope }));
+  }
 }
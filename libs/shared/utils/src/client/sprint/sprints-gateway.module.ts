@@ -3,6 +3,7 @@ import { ClientsModule, Transport } from "@nestjs/microservices";
 import { join } from "node:path";
 import { SprintsGatewayService } from "./sprints.client";
 import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
           package: "sprints.v1",
           protoPath: [join(process.cwd(), "libs/proto/sprints/v1/sprints.proto")],
           loader: {
@@ -1,7 +1,19 @@
 import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import type { ClientGrpc } from "@nestjs/microservices";
 import { firstValueFrom, type Observable } from "rxjs";
-import { CreateSprintDto, UpdateSprintDto, SprintDto, SprintsListDto, BaseSearchQueryDto } from "@shared/types";
+import {
+  CreateSprintDto,
+  UpdateSprintDto,
+  SprintDto,
+  SprintsListDto,
+  BaseSearchQueryDto,
+  CompleteSprintDto,
+  SprintCompletionSummaryDto,
+  SprintBurndownDto,
+  SprintCapacityPlanningDto,
+  SprintMemberCapacityDto,
+  UpsertSprintMemberCapacityDto,
+} from "@shared/types";
 import { LoggerClientService } from "@shared/logger";
 
 interface SprintsGrpc {
@@ -13,6 +25,12 @@ interface SprintsGrpc {
   FindActiveSprint(req: { userId: string; projectId: number }): Observable<SprintDto>;
   Update(req: { id: string; dto: UpdateSprintDto; updatedBy: string }): Observable<SprintDto>;
   Delete(req: { id: string; deletedBy: string }): Observable<{ success: boolean }>;
+  StartSprint(req: { sprintId: number; projectId: number; userId: string }): Observable<SprintDto>;
+  CompleteSprint(req: { sprintId: number; projectId: number; userId: string; dto?: CompleteSprintDto }): Observable<SprintCompletionSummaryDto>;
+  GetBurndown(req: { sprintId: number; projectId: number; userId: string }): Observable<SprintBurndownDto>;
+  GetCapacityPlanning(req: { sprintId: number; projectId: number; userId: string }): Observable<SprintCapacityPlanningDto>;
+  UpsertMemberCapacity(req: { sprintId: number; projectId: number; userId: string; memberId: string; dto: UpsertSprintMemberCapacityDto }): Observable<SprintMemberCapacityDto>;
+  ResetMemberCapacity(req: { sprintId: number; projectId: number; userId: string; memberId: string }): Observable<{ success: boolean }>;
 }
 
 @Injectable()
@@ -62,6 +80,31 @@ export class SprintsGatewayService implements OnModuleInit {
     return await firstValueFrom(this.svc.Delete({ id, deletedBy: userId }));
   }
 
+  async start(sprintId: number, projectId: number, userId: string): Promise<SprintDto> {
+    return await firstValueFrom(this.svc.StartSprint({ sprintId, projectId, userId }));
+  }
+
+  async complete(sprintId: number, projectId: number, userId: string, dto?: CompleteSprintDto): Promise<SprintCompletionSummaryDto> {
+    return await firstValueFrom(this.svc.CompleteSprint({ sprintId, projectId, userId, dto }));
+  }
+
+  async getBurndown(sprintId: number, projectId: number, userId: string): Promise<SprintBurndownDto> {
+    return await firstValueFrom(this.svc.GetBurndown({ sprintId, projectId, userId }));
+  }
+
+  async getCapacityPlanning(sprintId: number, projectId: number, userId: string): Promise<SprintCapacityPlanningDto> {
+    return await firstValueFrom(this.svc.GetCapacityPlanning({ sprintId, projectId, userId }));
+  }
+
+  async upsertMemberCapacity(sprintId: number, projectId: number, memberId: string, dto: UpsertSprintMemberCapacityDto, userId: string): Promise<SprintMemberCapacityDto> {
+    return await firstValueFrom(this.svc.UpsertMemberCapacity({ sprintId, projectId, userId, memberId, dto }));
+  }
+
+  async resetMemberCapacity(sprintId: number, projectId: number, memberId: string, userId: string): Promise<boolean> {
+    const result = await firstValueFrom(this.svc.ResetMemberCapacity({ sprintId, projectId, userId, memberId }));
+    return result.success;
+  }
+
   async getOverview(userId: string, projectId: number, params?: BaseSearchQueryDto): Promise<SprintsListDto> {
     return await firstValueFrom(this.svc.GetOverview({ userId, projectId, params }));
   }
@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { StacksGatewayService } from "./stacks.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "STACKS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
+          package: "stacks.v1",
+          protoPath: [join(process.cwd(), "libs/proto/stacks/v1/stacks.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [StacksGatewayService],
+  exports: [StacksGatewayService],
+})
+export class StacksGatewayModule {}
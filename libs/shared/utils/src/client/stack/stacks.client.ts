@@ -0,0 +1,50 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import { StackDto, StackListDto, CreateStackDto, UpdateStackDto, BaseSearchQueryDto } from "@shared/types";
+
+interface StacksGrpcClient {
+  Create(request: { project_id: number; user_id: string; dto: CreateStackDto }): Observable<StackDto>;
+  Update(request: { stack_id: number; project_id: number; user_id: string; dto: UpdateStackDto }): Observable<StackDto>;
+  Delete(request: { stack_id: number; project_id: number; user_id: string }): Observable<{ success: boolean }>;
+  GetOverview(request: { project_id: number; user_id: string; params?: BaseSearchQueryDto }): Observable<StackListDto>;
+  GetById(request: { stack_id: number; project_id: number; user_id: string }): Observable<StackDto>;
+  GetByProjectId(request: { project_id: number; user_id: string }): Observable<{ stacks?: StackDto[] }>;
+}
+
+@Injectable()
+export class StacksGatewayService {
+  private client!: StacksGrpcClient;
+
+  constructor(@Inject("STACKS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<StacksGrpcClient>("Stack");
+  }
+
+  async create(userId: string, projectId: number, dto: CreateStackDto): Promise<StackDto> {
+    return firstValueFrom(this.client.Create({ project_id: projectId, user_id: userId, dto }));
+  }
+
+  async update(userId: string, projectId: number, stackId: number, dto: UpdateStackDto): Promise<StackDto> {
+    return firstValueFrom(this.client.Update({ stack_id: stackId, project_id: projectId, user_id: userId, dto }));
+  }
+
+  async remove(userId: string, projectId: number, stackId: number): Promise<void> {
+    await firstValueFrom(this.client.Delete({ stack_id: stackId, project_id: projectId, user_id: userId }));
+  }
+
+  async getOverview(userId: string, projectId: number, params?: BaseSearchQueryDto): Promise<StackListDto> {
+    return firstValueFrom(this.client.GetOverview({ project_id: projectId, user_id: userId, params }));
+  }
+
+  async findById(userId: string, projectId: number, stackId: number): Promise<StackDto> {
+    return firstValueFrom(this.client.GetById({ stack_id: stackId, project_id: projectId, user_id: userId }));
+  }
+
+  async findByProject(userId: string, projectId: number): Promise<StackDto[]> {
+    const { stacks } = await firstValueFrom(this.client.GetByProjectId({ project_id: projectId, user_id: userId }));
+    return stacks ?? [];
+  }
+}
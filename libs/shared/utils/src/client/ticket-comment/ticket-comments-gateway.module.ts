@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { TicketCommentsGatewayService } from "./ticket-comments.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "TICKET_COMMENTS_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.PROJECT_GRPC_URL ?? "localhost:50053",
+          channelOptions: requestContextChannelOptions,
+          package: "ticket_comments.v1",
+          protoPath: [join(process.cwd(), "libs/proto/ticket-comments/v1/ticket-comments.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [TicketCommentsGatewayService],
+  exports: [TicketCommentsGatewayService],
+})
+export class TicketCommentsGatewayModule {}
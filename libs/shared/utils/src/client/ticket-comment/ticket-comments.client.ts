@@ -0,0 +1,60 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import { CreateTicketCommentDto, UpdateTicketCommentDto, TicketCommentDto, TicketCommentListDto, BaseSearchQueryDto } from "@shared/types";
+
+// Les pièces jointes transitent en JSON sérialisé sur le fil gRPC
+type GrpcTicketComment = Omit<TicketCommentDto, "attachments"> & { attachments?: string };
+type GrpcTicketCommentInput<T> = Omit<T, "attachments"> & { attachments?: string };
+
+interface TicketCommentsGrpc {
+  Create(request: { user_id: string; ticket_id: number; dto: GrpcTicketCommentInput<CreateTicketCommentDto> }): Observable<GrpcTicketComment>;
+  Search(request: { user_id: string; ticket_id: number; params?: BaseSearchQueryDto }): Observable<Omit<TicketCommentListDto, "items"> & { items?: GrpcTicketComment[] }>;
+  Update(request: { user_id: string; id: number; ticket_id: number; dto: GrpcTicketCommentInput<UpdateTicketCommentDto> }): Observable<GrpcTicketComment>;
+  Delete(request: { user_id: string; id: number; ticket_id: number }): Observable<{ success: boolean }>;
+}
+
+@Injectable()
+export class TicketCommentsGatewayService implements OnModuleInit {
+  private svc!: TicketCommentsGrpc;
+
+  constructor(@Inject("TICKET_COMMENTS_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<TicketCommentsGrpc>("TicketComments");
+  }
+
+  async create(user_id: string, ticket_id: number, dto: CreateTicketCommentDto): Promise<TicketCommentDto> {
+    const comment = await firstValueFrom(this.svc.Create({ user_id, ticket_id, dto: this.serialize(dto) }));
+    return this.deserialize(comment);
+  }
+
+  async search(user_id: string, ticket_id: number, params?: BaseSearchQueryDto): Promise<TicketCommentListDto> {
+    const list = await firstValueFrom(this.svc.Search({ user_id, ticket_id, params }));
+    return { ...list, items: (list.items ?? []).map(item => this.deserialize(item)) } as TicketCommentListDto;
+  }
+
+  async update(id: number, ticket_id: number, dto: UpdateTicketCommentDto, user_id: string): Promise<TicketCommentDto> {
+    const comment = await firstValueFrom(this.svc.Update({ user_id, id, ticket_id, dto: this.serialize(dto) }));
+    return this.deserialize(comment);
+  }
+
+  async remove(id: number, ticket_id: number, user_id: string): Promise<boolean> {
+    const result = await firstValueFrom(this.svc.Delete({ user_id, id, ticket_id }));
+    return result.success;
+  }
+
+  private serialize<T extends { attachments?: Record<string, any> }>(dto: T): GrpcTicketCommentInput<T> {
+    return { ...dto, attachments: dto.attachments !== undefined ? JSON.stringify(dto.attachments) : undefined };
+  }
+
+  private deserialize(comment: GrpcTicketComment): TicketCommentDto {
+    let attachments: Record<string, any> | undefined;
+    try {
+      attachments = comment.attachments ? (JSON.parse(comment.attachments) as Record<string, any>) : undefined;
+    } catch {
+      attachments = undefined;
+    }
+    return { ...comment, attachments };
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import { TicketWorkflowDto, UpdateTicketWorkflowDto } from "@shared/types";
+
+interface TicketWorkflowsGrpcClient {
+  GetWorkspaceWorkflow(request: { workspace_id: string; user_id: string }): Observable<TicketWorkflowDto>;
+  UpdateWorkspaceWorkflow(request: { workspace_id: string; user_id: string; dto: UpdateTicketWorkflowDto }): Observable<TicketWorkflowDto>;
+  ResetWorkspaceWorkflow(request: { workspace_id: string; user_id: string }): Observable<TicketWorkflowDto>;
+  GetProjectWorkflow(request: { project_id: number; user_id: string }): Observable<TicketWorkflowDto>;
+  UpdateProjectWorkflow(request: { project_id: number; user_id: string; dto: UpdateTicketWorkflowDto }): Observable<TicketWorkflowDto>;
+  ResetProjectWorkflow(request: { project_id: number; user_id: string }): Observable<TicketWorkflowDto>;
+}
+
+@Injectable()
+export class TicketWorkflowsGatewayService {
+  private client!: TicketWorkflowsGrpcClient;
+
+  constructor(@Inject("TICKET_WORKFLOWS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<TicketWorkflowsGrpcClient>("TicketWorkflows");
+  }
+
+  async getWorkspaceWorkflow(workspaceId: string, userId: string): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.GetWorkspaceWorkflow({ workspace_id: workspaceId, user_id: userId }));
+  }
+
+  async updateWorkspaceWorkflow(workspaceId: string, userId: string, dto: UpdateTicketWorkflowDto): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.UpdateWorkspaceWorkflow({ workspace_id: workspaceId, user_id: userId, dto }));
+  }
+
+  async resetWorkspaceWorkflow(workspaceId: string, userId: string): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.ResetWorkspaceWorkflow({ workspace_id: workspaceId, user_id: userId }));
+  }
+
+  async getProjectWorkflow(projectId: number, userId: string): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.GetProjectWorkflow({ project_id: projectId, user_id: userId }));
+  }
+
+  async updateProjectWorkflow(projectId: number, userId: string, dto: UpdateTicketWorkflowDto): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.UpdateProjectWorkflow({ project_id: projectId, user_id: userId, dto }));
+  }
+
+  async resetProjectWorkflow(projectId: number, userId: string): Promise<TicketWorkflowDto> {
+    return firstValueFrom(this.client.ResetProjectWorkflow({ project_id: projectId, user_id: userId }));
+  }
+}
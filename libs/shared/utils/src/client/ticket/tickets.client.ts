@@ -1,18 +1,43 @@
 import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
 import type { ClientGrpc } from "@nestjs/microservices";
 import { firstValueFrom, type Observable } from "rxjs";
-import { CreateTicketDto, UpdateTicketDto, TicketDto, TicketsListDto, BaseSearchQueryDto } from "@shared/types";
+import {
+  CreateTicketDto,
+  UpdateTicketDto,
+  TicketDto,
+  TicketsListDto,
+  BaseSearchQueryDto,
+  TicketDependencyGraphDto,
+  MoveBacklogTicketDto,
+  PlanSprintFromBacklogDto,
+  BacklogPlanningResultDto,
+  TicketAssignmentResultDto,
+  BulkUpdateTicketsDto,
+  BulkUpdateTicketsResultDto,
+  DraftTicketsDto,
+  TicketDraftsDto,
+  CommitTicketDraftsDto,
+  CommitTicketDraftsResultDto,
+} from "@shared/types";
 
 interface TicketsGrpc {
   Create(request: { user_id: string; dto: CreateTicketDto }): Observable<TicketDto>;
   Search(request: { user_id: string; project_id: number; params?: BaseSearchQueryDto }): Observable<TicketsListDto>;
   GetById(request: { user_id: string; id: number }): Observable<TicketDto>;
+  GetByKey(request: { user_id: string; project_id: number; key: string }): Observable<TicketDto>;
   Update(request: { user_id: string; id: string; dto: UpdateTicketDto }): Observable<TicketDto>;
   Delete(request: { user_id: string; id: string }): Observable<boolean>;
   UpsertDependencyTickets(request: { user_id: string; ticket_id: number; dependency_ticket_ids: number[] }): Observable<{ success: boolean }>;
+  GetDependencyGraph(request: { user_id: string; id: number }): Observable<TicketDependencyGraphDto>;
   UpsertTicketLabels(request: { user_id: string; ticket_id: number; label_ids: number[] }): Observable<{ success: boolean }>;
-  AssignTicket(request: { user_id: string; ticket_id: number; assigned_to_user_id: string }): Observable<{ success: boolean }>;
-  AssignTicketToSprint(request: { user_id: string; ticket_id: number; sprint_id: number }): Observable<{ success: boolean }>;
+  AssignTicket(request: { user_id: string; ticket_id: number; assigned_to_user_id: string }): Observable<TicketAssignmentResultDto>;
+  AssignTicketToSprint(request: { user_id: string; ticket_id: number; sprint_id: number }): Observable<TicketAssignmentResultDto>;
+  GetBacklog(request: { user_id: string; project_id: number; skip?: number; take?: number }): Observable<TicketsListDto>;
+  MoveBacklogTicket(request: { user_id: string; project_id: number; ticket_id: number; dto: MoveBacklogTicketDto }): Observable<TicketDto>;
+  PlanSprintFromBacklog(request: { user_id: string; project_id: number; dto: PlanSprintFromBacklogDto }): Observable<BacklogPlanningResultDto>;
+  BulkUpdate(request: { user_id: string; project_id: number; dto: BulkUpdateTicketsDto }): Observable<BulkUpdateTicketsResultDto>;
+  DraftTickets(request: { user_id: string; project_id: number; dto: DraftTicketsDto }): Observable<TicketDraftsDto>;
+  CommitTicketDrafts(request: { user_id: string; project_id: number; dto: CommitTicketDraftsDto }): Observable<CommitTicketDraftsResultDto>;
 }
 
 @Injectable()
@@ -37,6 +62,10 @@ export class TicketsGatewayService implements OnModuleInit {
     return await firstValueFrom(this.svc.GetById({ user_id, id }));
   }
 
+  async findByKey(project_id: number, key: string, user_id: string): Promise<TicketDto> {
+    return await firstValueFrom(this.svc.GetByKey({ user_id, project_id, key }));
+  }
+
   async update(id: string, dto: UpdateTicketDto, user_id: string): Promise<TicketDto> {
     return await firstValueFrom(this.svc.Update({ user_id, id, dto }));
   }
@@ -50,18 +79,46 @@ export class TicketsGatewayService implements OnModuleInit {
     return result.success;
   }
 
+  async getDependencyGraph(ticket_id: number, user_id: string): Promise<TicketDependencyGraphDto> {
+    return await firstValueFrom(this.svc.GetDependencyGraph({ user_id, id: ticket_id }));
+  }
+
   async upsertTicketLabels(ticket_id: number, label_ids: number[], user_id: string): Promise<boolean> {
     const result = await firstValueFrom(this.svc.UpsertTicketLabels({ user_id, ticket_id, label_ids }));
     return result.success;
   }
 
-  async assignTicket(ticket_id: number, assigned_to_user_id: string, user_id: string): Promise<boolean> {
-    const result = await firstValueFrom(this.svc.AssignTicket({ user_id, ticket_id, assigned_to_user_id }));
-    return result.success;
+  async assignTicket(ticket_id: number, assigned_to_user_id: string, user_id: string): Promise<TicketAssignmentResultDto> {
+    return await firstValueFrom(this.svc.AssignTicket({ user_id, ticket_id, assigned_to_user_id }));
   }
 
-  async assignTicketToSprint(ticket_id: number, sprint_id: number, user_id: string): Promise<boolean> {
-    const result = await firstValueFrom(this.svc.AssignTicketToSprint({ user_id, ticket_id, sprint_id }));
-    return result.success;
+  async assignTicketToSprint(ticket_id: number, sprint_id: number, user_id: string): Promise<TicketAssignmentResultDto> {
+    return await firstValueFrom(this.svc.AssignTicketToSprint({ user_id, ticket_id, sprint_id }));
+  }
+
+  async getBacklog(project_id: number, user_id: string, skip?: number, take?: number): Promise<TicketsListDto> {
+    return await firstValueFrom(this.svc.GetBacklog({ user_id, project_id, skip, take }));
+  }
+
+  async moveBacklogTicket(project_id: number, ticket_id: number, dto: MoveBacklogTicketDto, user_id: string): Promise<TicketDto> {
+    return await firstValueFrom(this.svc.MoveBacklogTicket({ user_id, project_id, ticket_id, dto }));
+  }
+
+  async planSprintFromBacklog(project_id: number, dto: PlanSprintFromBacklogDto, user_id: string): Promise<BacklogPlanningResultDto> {
+    return await firstValueFrom(this.svc.PlanSprintFromBacklog({ user_id, project_id, dto }));
+  }
+
+  async bulkUpdate(project_id: number, dto: BulkUpdateTicketsDto, user_id: string): Promise<BulkUpdateTicketsResultDto> {
+    return await firstValueFrom(this.svc.BulkUpdate({ user_id, project_id, dto }));
+  }
+
+  async draftTickets(project_id: number, dto: DraftTicketsDto, user_id: string): Promise<TicketDraftsDto> {
+    const result = await firstValueFrom(this.svc.DraftTickets({ user_id, project_id, dto }));
+    return { ...result, drafts: result.drafts ?? [] };
+  }
+
+  async commitTicketDrafts(project_id: number, dto: CommitTicketDraftsDto, user_id: string): Promise<CommitTicketDraftsResultDto> {
+    const result = await firstValueFrom(this.svc.CommitTicketDrafts({ user_id, project_id, dto }));
+    return { items: result.items ?? [] };
   }
 }
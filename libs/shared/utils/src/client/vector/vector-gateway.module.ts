@@ -0,0 +1,34 @@
+import { Module } from "@nestjs/common";
+import { ClientsModule, Transport } from "@nestjs/microservices";
+import { join } from "node:path";
+import { VectorGatewayService } from "./vector.client";
+import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
+
+@Module({
+  imports: [
+    LoggerClientModule,
+    ClientsModule.register([
+      {
+        name: "VECTOR_PACKAGE",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.VECTOR_GRPC_URL ?? "localhost:50057",
+          channelOptions: requestContextChannelOptions,
+          package: "vector.v1",
+          protoPath: [join(process.cwd(), "libs/proto/vector/v1/vector.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
+    ]),
+  ],
+  providers: [VectorGatewayService],
+  exports: [VectorGatewayService],
+})
+export class VectorGatewayModule {}
@@ -0,0 +1,92 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+
+interface GrpcVectorDocument {
+  id: string;
+  content: string;
+  source_table: string;
+  source_id: string;
+  workspace_id: string;
+  project_id?: string;
+  document_type?: string;
+  metadata?: string; // JSON sérialisé
+}
+
+interface VectorGrpc {
+  SearchVector(request: {
+    query: string;
+    workspace_id: string;
+    project_id?: string;
+    document_types?: string[];
+    limit?: number;
+    similarity_threshold?: number;
+  }): Observable<{ results?: { document?: GrpcVectorDocument; similarity_score: number }[]; total_count: number }>;
+}
+
+export interface VectorSearchOptions {
+  projectId?: number;
+  documentTypes?: string[];
+  limit?: number;
+  similarityThreshold?: number;
+}
+
+/** Document de vector_documents trouvé par une recherche sémantique */
+export interface VectorSearchMatch {
+  source_table: string;
+  source_id: number;
+  document_type?: string;
+  content: string;
+  metadata: Record<string, any>;
+  score: number;
+}
+
+@Injectable()
+export class VectorGatewayService implements OnModuleInit {
+  private svc!: VectorGrpc;
+
+  constructor(@Inject("VECTOR_PACKAGE") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<VectorGrpc>("VectorService");
+  }
+
+  /** Documents les plus proches de la requête, du plus au moins similaire */
+  async search(query: string, workspaceId: string, options: VectorSearchOptions = {}): Promise<VectorSearchMatch[]> {
+    const response = await firstValueFrom(
+      this.svc.SearchVector({
+        query,
+        workspace_id: workspaceId,
+        project_id: options.projectId != null ? String(options.projectId) : undefined,
+        document_types: options.documentTypes,
+        limit: options.limit,
+        similarity_threshold: options.similarityThreshold,
+      }),
+    );
+
+    return (response.results ?? [])
+      .flatMap(({ document, similarity_score }) =>
+        document
+          ? [
+              {
+                source_table: document.source_table,
+                source_id: Number(document.source_id),
+                document_type: document.document_type || undefined,
+                content: document.content,
+                metadata: this.parse(document.metadata),
+                score: similarity_score,
+              },
+            ]
+          : [],
+      )
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private parse(value?: string): Record<string, any> {
+    try {
+      return value ? (JSON.parse(value) as Record<string, any>) : {};
+    } catch {
+      return {};
+    }
+  }
+}
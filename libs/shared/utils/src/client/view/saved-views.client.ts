@@ -0,0 +1,65 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import { CreateSavedViewDto, SavedViewDto, SavedViewFilterDto, SavedViewListDto, UpdateSavedViewDto } from "@shared/types";
+
+/** Les listes et options absentes ne se distinguent pas des vides en gRPC : la modification est qualifiée par des drapeaux */
+type UpdateSavedViewMessage = UpdateSavedViewDto & {
+  replace_filters: boolean;
+  replace_columns: boolean;
+  clear_sort_by: boolean;
+  clear_group_by: boolean;
+  clear_sub_group_by: boolean;
+};
+
+interface SavedViewsGrpcClient {
+  Create(request: { user_id: string; workspace_id: string; dto: CreateSavedViewDto }): Observable<SavedViewDto>;
+  List(request: { user_id: string; workspace_id: string; filter?: SavedViewFilterDto }): Observable<SavedViewListDto>;
+  GetById(request: { user_id: string; id: number }): Observable<SavedViewDto>;
+  Update(request: { user_id: string; id: number; dto: UpdateSavedViewMessage }): Observable<SavedViewDto>;
+  Delete(request: { user_id: string; id: number }): Observable<{ success: boolean }>;
+}
+
+@Injectable()
+export class SavedViewsGatewayService {
+  private client!: SavedViewsGrpcClient;
+
+  constructor(@Inject("SAVED_VIEWS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<SavedViewsGrpcClient>("SavedViews");
+  }
+
+  async create(userId: string, workspaceId: string, dto: CreateSavedViewDto): Promise<SavedViewDto> {
+    return firstValueFrom(this.client.Create({ user_id: userId, workspace_id: workspaceId, dto }));
+  }
+
+  async list(userId: string, workspaceId: string, filter?: SavedViewFilterDto): Promise<SavedViewListDto> {
+    return firstValueFrom(this.client.List({ user_id: userId, workspace_id: workspaceId, filter }));
+  }
+
+  async findById(id: number, userId: string): Promise<SavedViewDto> {
+    return firstValueFrom(this.client.GetById({ user_id: userId, id }));
+  }
+
+  async update(id: number, dto: UpdateSavedViewDto, userId: string): Promise<SavedViewDto> {
+    const message: UpdateSavedViewMessage = {
+      ...dto,
+      sort_by: dto.sort_by ?? undefined,
+      group_by: dto.group_by ?? undefined,
+      sub_group_by: dto.sub_group_by ?? undefined,
+      replace_filters: dto.filters !== undefined,
+      replace_columns: dto.columns !== undefined,
+      clear_sort_by: dto.sort_by === null,
+      clear_group_by: dto.group_by === null,
+      clear_sub_group_by: dto.sub_group_by === null,
+    };
+    return firstValueFrom(this.client.Update({ user_id: userId, id, dto: message }));
+  }
+
+  async remove(id: number, userId: string): Promise<boolean> {
+    const result = await firstValueFrom(this.client.Delete({ user_id: userId, id }));
+    return result.success;
+  }
+}
@@ -0,0 +1,86 @@
+import { Injectable } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { Observable, firstValueFrom } from "rxjs";
+import { Inject } from "@nestjs/common";
+import {
+  CreateWorklogDto,
+  RunningWorklogTimerDto,
+  StartWorklogTimerDto,
+  TimesheetDto,
+  TimesheetExportDto,
+  TimesheetQueryDto,
+  UpdateWorklogDto,
+  WorklogDto,
+  WorklogFilterDto,
+  WorklogListDto,
+} from "@shared/types";
+
+interface WorklogsGrpcClient {
+  Create(request: { user_id: string; project_id: number; dto: CreateWorklogDto }): Observable<WorklogDto>;
+  Search(request: { user_id: string; project_id: number; filter?: WorklogFilterDto }): Observable<WorklogListDto>;
+  Update(request: { user_id: string; id: number; dto: UpdateWorklogDto }): Observable<WorklogDto>;
+  Delete(request: { user_id: string; id: number }): Observable<{ success: boolean }>;
+  StartTimer(request: { user_id: string; project_id: number; dto: StartWorklogTimerDto }): Observable<WorklogDto>;
+  StopTimer(request: { user_id: string; note?: string }): Observable<WorklogDto>;
+  GetRunningTimer(request: { user_id: string }): Observable<RunningWorklogTimerDto>;
+  GetProjectTimesheet(request: { user_id: string; project_id: number; query?: TimesheetQueryDto }): Observable<TimesheetDto>;
+  GetUserTimesheet(request: { user_id: string; query?: TimesheetQueryDto }): Observable<TimesheetDto>;
+  ExportProjectTimesheet(request: { user_id: string; project_id: number; query?: TimesheetQueryDto }): Observable<TimesheetExportDto>;
+  ExportUserTimesheet(request: { user_id: string; query?: TimesheetQueryDto }): Observable<TimesheetExportDto>;
+}
+
+@Injectable()
+export class WorklogsGatewayService {
+  private client!: WorklogsGrpcClient;
+
+  constructor(@Inject("WORKLOGS_PACKAGE") private readonly grpcClient: ClientGrpc) {}
+
+  onModuleInit() {
+    this.client = this.grpcClient.getService<WorklogsGrpcClient>("Worklogs");
+  }
+
+  async create(userId: string, projectId: number, dto: CreateWorklogDto): Promise<WorklogDto> {
+    return firstValueFrom(this.client.Create({ user_id: userId, project_id: projectId, dto }));
+  }
+
+  async search(userId: string, projectId: number, filter?: WorklogFilterDto): Promise<WorklogListDto> {
+    return firstValueFrom(this.client.Search({ user_id: userId, project_id: projectId, filter }));
+  }
+
+  async update(id: number, dto: UpdateWorklogDto, userId: string): Promise<WorklogDto> {
+    return firstValueFrom(this.client.Update({ user_id: userId, id, dto }));
+  }
+
+  async remove(id: number, userId: string): Promise<boolean> {
+    const result = await firstValueFrom(this.client.Delete({ user_id: userId, id }));
+    return result.success;
+  }
+
+  async startTimer(userId: string, projectId: number, dto: StartWorklogTimerDto): Promise<WorklogDto> {
+    return firstValueFrom(this.client.StartTimer({ user_id: userId, project_id: projectId, dto }));
+  }
+
+  async stopTimer(userId: string, note?: string): Promise<WorklogDto> {
+    return firstValueFrom(this.client.StopTimer({ user_id: userId, note }));
+  }
+
+  async getRunningTimer(userId: string): Promise<RunningWorklogTimerDto> {
+    return firstValueFrom(this.client.GetRunningTimer({ user_id: userId }));
+  }
+
+  async getProjectTimesheet(userId: string, projectId: number, query?: TimesheetQueryDto): Promise<TimesheetDto> {
+    return firstValueFrom(this.client.GetProjectTimesheet({ user_id: userId, project_id: projectId, query }));
+  }
+
+  async getUserTimesheet(userId: string, query?: TimesheetQueryDto): Promise<TimesheetDto> {
+    return firstValueFrom(this.client.GetUserTimesheet({ user_id: userId, query }));
+  }
+
+  async exportProjectTimesheet(userId: string, projectId: number, query?: TimesheetQueryDto): Promise<TimesheetExportDto> {
+    return firstValueFrom(this.client.ExportProjectTimesheet({ user_id: userId, project_id: projectId, query }));
+  }
+
+  async exportUserTimesheet(userId: string, query?: TimesheetQueryDto): Promise<TimesheetExportDto> {
+    return firstValueFrom(this.client.ExportUserTimesheet({ user_id: userId, query }));
+  }
+}
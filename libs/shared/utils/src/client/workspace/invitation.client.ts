@@ -0,0 +1,60 @@
+import { Inject, Injectable, OnModuleInit } from "@nestjs/common";
+import type { ClientGrpc } from "@nestjs/microservices";
+import { firstValueFrom, type Observable } from "rxjs";
+import type { InviteWorkspaceMemberDto, WorkspaceInvitationDto, WorkspaceInvitationsListDto, WorkspaceRole } from "@shared/types";
+
+export interface AcceptedInvitationResponse {
+  workspace_id: string;
+  member_id: string;
+  role: WorkspaceRole;
+}
+
+// gRPC interface mirroring invitations/v1/workspace-invitations.proto
+interface WorkspaceInvitationsGrpc {
+  Invite(req: { user_id: string; workspace_id: string; dto: InviteWorkspaceMemberDto }): Observable<WorkspaceInvitationDto>;
+  List(req: { user_id: string; workspace_id: string; include_expired?: boolean }): Observable<WorkspaceInvitationsListDto>;
+  ListMine(req: { user_id: string }): Observable<WorkspaceInvitationsListDto>;
+  Revoke(req: { user_id: string; workspace_id: string; id: string }): Observable<{ success: boolean }>;
+  Resend(req: { user_id: string; workspace_id: string; id: string }): Observable<WorkspaceInvitationDto>;
+  Accept(req: { user_id: string; token: string }): Observable<AcceptedInvitationResponse>;
+  Decline(req: { user_id: string; token: string }): Observable<{ success: boolean }>;
+}
+
+@Injectable()
+export class WorkspaceInvitationsGatewayService implements OnModuleInit {
+  private svc!: WorkspaceInvitationsGrpc;
+
+  constructor(@Inject("INVITATION_CLIENT") private readonly client: ClientGrpc) {}
+
+  onModuleInit() {
+    this.svc = this.client.getService<WorkspaceInvitationsGrpc>("WorkspaceInvitations");
+  }
+
+  async invite(user_id: string, workspace_id: string, dto: InviteWorkspaceMemberDto): Promise<WorkspaceInvitationDto> {
+    return await firstValueFrom(this.svc.Invite({ user_id, workspace_id, dto }));
+  }
+
+  async list(user_id: string, workspace_id: string, include_expired?: boolean): Promise<WorkspaceInvitationsListDto> {
+    return await firstValueFrom(this.svc.List({ user_id, workspace_id, include_expired }));
+  }
+
+  async listMine(user_id: string): Promise<WorkspaceInvitationsListDto> {
+    return await firstValueFrom(this.svc.ListMine({ user_id }));
+  }
+
+  async revoke(user_id: string, workspace_id: string, id: string): Promise<{ success: boolean }> {
+    return await firstValueFrom(this.svc.Revoke({ user_id, workspace_id, id }));
+  }
+
+  async resend(user_id: string, workspace_id: string, id: string): Promise<WorkspaceInvitationDto> {
+    return await firstValueFrom(this.svc.Resend({ user_id, workspace_id, id }));
+  }
+
+  async accept(user_id: string, token: string): Promise<AcceptedInvitationResponse> {
+    return await firstValueFrom(this.svc.Accept({ user_id, token }));
+  }
+
+  async decline(user_id: string, token: string): Promise<{ success: boolean }> {
+    return await firstValueFrom(this.svc.Decline({ user_id, token }));
+  }
+}
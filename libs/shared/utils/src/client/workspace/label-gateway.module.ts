@@ -3,6 +3,7 @@ import { ClientsModule, Transport } from "@nestjs/microservices";
 import { join } from "node:path";
 import { LabelGatewayService } from "./label.client";
 import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
 
 @Module({
   imports: [
@@ -13,6 +14,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
           package: "labels.v1",
           protoPath: [join(process.cwd(), "libs/proto/labels/v1/labels.proto")],
           loader: {
@@ -4,7 +4,9 @@ import { join } from "node:path";
 import { WorkspaceGatewayService } from "./workspace.client";
 import { LabelGatewayService } from "./label.client";
 import { WorkspaceMembersGatewayService } from "./member.client";
+import { WorkspaceInvitationsGatewayService } from "./invitation.client";
 import { LoggerClientModule } from "@shared/logger";
+import { requestContextChannelOptions } from "../../request-context";
 
 @Module({
   imports: [
@@ -15,6 +17,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
           package: "workspace.v1",
           protoPath: [join(process.cwd(), "libs/proto/workspace/v1/workspace.proto")],
           loader: {
@@ -31,6 +34,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
           package: "labels.v1",
           protoPath: [join(process.cwd(), "libs/proto/labels/v1/labels.proto")],
           loader: {
@@ -47,6 +51,7 @@ import { LoggerClientModule } from "@shared/logger";
         transport: Transport.GRPC,
         options: {
           url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
           package: "members.v1",
           protoPath: [join(process.cwd(), "libs/proto/members/v1/workspace-members.proto")],
           loader: {
@@ -58,9 +63,26 @@ import { LoggerClientModule } from "@shared/logger";
           },
         },
       },
+      {
+        name: "INVITATION_CLIENT",
+        transport: Transport.GRPC,
+        options: {
+          url: process.env.WORKSPACE_GRPC_URL ?? "localhost:50052",
+          channelOptions: requestContextChannelOptions,
+          package: "invitations.v1",
+          protoPath: [join(process.cwd(), "libs/proto/invitations/v1/workspace-invitations.proto")],
+          loader: {
+            keepCase: true,
+            longs: String,
+            enums: String,
+            defaults: true,
+            includeDirs: [join(process.cwd(), "libs/proto")],
+          },
+        },
+      },
     ]),
   ],
-  providers: [WorkspaceGatewayService, WorkspaceMembersGatewayService, LabelGatewayService],
-  exports: [WorkspaceGatewayService, WorkspaceMembersGatewayService, LabelGatewayService],
+  providers: [WorkspaceGatewayService, WorkspaceMembersGatewayService, WorkspaceInvitationsGatewayService, LabelGatewayService],
+  exports: [WorkspaceGatewayService, WorkspaceMembersGatewayService, WorkspaceInvitationsGatewayService, LabelGatewayService],
 })
 export class WorkspaceGatewayModule {}
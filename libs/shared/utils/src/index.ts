@@ -3,3 +3,7 @@ export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve,
 
 // Re-export normalizer utilities
 export { normalizeObject, normalizeEmptyStrings, normalizeWithRequiredFields } from "./normalizer";
+
+// Request context propagation (gateway -> microservices)
+export { getRequestContext, RequestContextMiddleware, GrpcRequestContextInterceptor, requestContextChannelOptions } from "./request-context";
+export type { RequestContext } from "./request-context";
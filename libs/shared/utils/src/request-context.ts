@@ -0,0 +1,102 @@
+/**
+ * Propagation du contexte de la requête HTTP (IP, user agent) jusqu'aux microservices
+ *
+ * - Côté gilentry : le middleware capture le contexte de la requête HTTP,
+ *   l'intercepteur client gRPC le transmet en métadonnées à chaque appel.
+ * - Côté microservice : l'intercepteur Nest relit les métadonnées et rend le contexte
+ *   disponible via getRequestContext() pendant toute la durée du handler.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isIP } from "node:net";
+import { CallHandler, ExecutionContext, Injectable, NestInterceptor, NestMiddleware } from "@nestjs/common";
+import { InterceptingCall, Metadata, type Interceptor } from "@grpc/grpc-js";
+import type { NextFunction, Request, Response } from "express";
+import { Observable } from "rxjs";
+
+const IP_METADATA_KEY = "x-client-ip";
+const USER_AGENT_METADATA_KEY = "x-client-user-agent";
+
+export interface RequestContext {
+  ip_address?: string;
+  user_agent?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Retourne le contexte de la requête en cours (vide hors requête)
+ */
+export function getRequestContext(): RequestContext {
+  return storage.getStore() ?? {};
+}
+
+/**
+ * Normalise une adresse IP : retire le préfixe IPv4-mapped
+ * @returns L'adresse si elle est valide, undefined sinon (la colonne ip_address est de type inet)
+ */
+function normalizeIp(raw?: string): string | undefined {
+  const ip = raw?.trim().replace(/^::ffff:/, "");
+  return ip && isIP(ip) ? ip : undefined;
+}
+
+function firstMetadataValue(metadata: Metadata | undefined, key: string): string | undefined {
+  const value = metadata?.get?.(key)?.[0];
+  return value === undefined ? undefined : String(value);
+}
+
+/**
+ * Middleware HTTP (gilentry) : capture l'IP et le user agent de la requête entrante
+ *
+ * req.ip vaut l'adresse du socket, sauf si la connexion vient d'un proxy déclaré dans TRUSTED_PROXIES
+ * (réglage "trust proxy" d'Express) : X-Forwarded-For n'est lu que dans ce cas.
+ */
+@Injectable()
+export class RequestContextMiddleware implements NestMiddleware {
+  use(req: Request, _res: Response, next: NextFunction) {
+    const context: RequestContext = {
+      ip_address: normalizeIp(req.ip ?? req.socket?.remoteAddress),
+      user_agent: req.headers["user-agent"],
+    };
+    storage.run(context, () => next());
+  }
+}
+
+/**
+ * Intercepteur client gRPC : ajoute le contexte courant aux métadonnées de chaque appel sortant
+ */
+export const requestContextClientInterceptor: Interceptor = (options, nextCall) =>
+  new InterceptingCall(nextCall(options), {
+    start: (metadata, listener, next) => {
+      const { ip_address, user_agent } = getRequestContext();
+      if (ip_address) metadata.set(IP_METADATA_KEY, ip_address);
+      if (user_agent) metadata.set(USER_AGENT_METADATA_KEY, user_agent);
+      next(metadata, listener);
+    },
+  });
+
+/**
+ * Options de canal à passer aux clients gRPC de la gateway pour propager le contexte
+ */
+export const requestContextChannelOptions = {
+  interceptors: [requestContextClientInterceptor],
+} as Record<string, any>;
+
+/**
+ * Intercepteur serveur (microservices gRPC) : expose les métadonnées reçues via getRequestContext()
+ */
+@Injectable()
+export class GrpcRequestContextInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== "rpc") {
+      return next.handle();
+    }
+
+    const metadata = context.switchToRpc().getContext<Metadata>();
+    const requestContext: RequestContext = {
+      ip_address: normalizeIp(firstMetadataValue(metadata, IP_METADATA_KEY)),
+      user_agent: firstMetadataValue(metadata, USER_AGENT_METADATA_KEY),
+    };
+
+    return new Observable(subscriber => storage.run(requestContext, () => next.handle().subscribe(subscriber)));
+  }
+}